@@ -0,0 +1,34 @@
+// Service worker for web push notifications.
+// Payloads are the ChannelMessage JSON sent by WebPushIAO.
+
+self.addEventListener("push", (event) => {
+  if (!event.data) return;
+
+  const message = event.data.json();
+
+  event.waitUntil(
+    self.registration.showNotification(message.title, {
+      body: message.body,
+      icon: "/icon-192.png",
+      badge: "/icon-192.png",
+      data: { url: message.url },
+      requireInteraction: message.severity === "critical",
+    }),
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+
+  const url = event.notification.data?.url || "/";
+
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((clients) => {
+        const existing = clients.find((client) => client.url === url);
+        if (existing) return existing.focus();
+        return self.clients.openWindow(url);
+      }),
+  );
+});
@@ -1,7 +1,7 @@
 "use client";
 
 import { use, useCallback, useState } from "react";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import {
   useAsset,
   useAssetTransferHistory,
@@ -15,6 +15,10 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { TransferModal } from "@/components/assets/transfer-modal";
+import { AssetMetersCard } from "@/components/assets/asset-meters-card";
+import { AssetHistoryCard } from "@/components/assets/asset-history-card";
+import { AssetCostCard } from "@/components/assets/asset-cost-card";
+import { AssetDepreciationCard } from "@/components/assets/asset-depreciation-card";
 import {
   MapPin,
   Calendar,
@@ -39,6 +43,8 @@ interface PageProps {
 export default function AssetDetailPage({ params }: PageProps) {
   const { id } = use(params);
   const router = useRouter();
+  // Readings entered after scanning the asset's QR code are tagged as such
+  const fromQR = useSearchParams().get("from") === "qr";
   const [showTransferModal, setShowTransferModal] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
@@ -263,6 +269,15 @@ export default function AssetDetailPage({ params }: PageProps) {
             </CardContent>
           </Card>
 
+          <AssetMetersCard
+            assetId={id}
+            source={fromQR ? "qr" : "manual"}
+            canManage={
+              !!currentUser &&
+              ["admin", "super_admin", "manager"].includes(currentUser.role)
+            }
+          />
+
           {/* Vendors */}
           {asset.vendors && asset.vendors.length > 0 && (
             <Card>
@@ -351,6 +366,8 @@ export default function AssetDetailPage({ params }: PageProps) {
             </CardContent>
           </Card>
 
+          <AssetHistoryCard assetId={id} />
+
           {/* Notes */}
           {asset.notes && (
             <Card>
@@ -419,6 +436,9 @@ export default function AssetDetailPage({ params }: PageProps) {
 
         {/* Sidebar */}
         <div className="space-y-6">
+          <AssetCostCard assetId={id} />
+          <AssetDepreciationCard assetId={id} />
+
           {/* Metadata */}
           <Card>
             <CardHeader>
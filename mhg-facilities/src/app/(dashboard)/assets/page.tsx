@@ -3,9 +3,12 @@
 import { useState, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { useDebouncedValue } from "@/hooks/use-debounced-value";
-import { useAssets } from "@/hooks/use-assets";
+import { useAssets, usePrintAssetLabels } from "@/hooks/use-assets";
+import { useLocations } from "@/hooks/use-locations";
+import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import {
   Select,
   SelectContent,
@@ -28,6 +31,16 @@ import { PageLoader } from "@/components/ui/loaders";
 import api from "@/lib/api-client";
 import type { Database } from "@/types/database";
 import { TableLoadingOverlay } from "@/components/ui/table-loading-overlay";
+import { PrintLabelsDialog } from "@/components/qr/print-labels-dialog";
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
 
 export default function AssetsPage() {
   const router = useRouter();
@@ -57,6 +70,14 @@ export default function AssetsPage() {
   );
 
   const { data, isLoading, isFetching } = useAssets(filters);
+  const { data: locations = [] } = useLocations();
+  const printLabels = usePrintAssetLabels();
+  const [labelLocationId, setLabelLocationId] = useState("all");
+  const { user } = useAuth();
+  const canPrintLabels =
+    user?.role === "admin" ||
+    user?.role === "super_admin" ||
+    user?.role === "manager";
   const assets = data?.data || [];
   const totalCount = data?.total ?? 0;
 
@@ -184,6 +205,45 @@ export default function AssetsPage() {
             <Download className="mr-2 h-4 w-4" />
             <span className="hidden sm:inline">Export for Labels</span>
           </Button>
+          {canPrintLabels && (
+          <PrintLabelsDialog
+            title="Print Asset Labels"
+            description="QR labels for the assets matching the current status and search filters, optionally narrowed to one location."
+            isPending={printLabels.isPending}
+            onGenerate={(format) =>
+              printLabels.mutateAsync({
+                format,
+                filters: {
+                  status: filters.status,
+                  search: filters.search,
+                  ...(labelLocationId !== "all" && {
+                    location_id: labelLocationId,
+                  }),
+                },
+              })
+            }
+          >
+            <div className="space-y-1">
+              <Label>Location</Label>
+              <Select
+                value={labelLocationId}
+                onValueChange={setLabelLocationId}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Locations</SelectItem>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </PrintLabelsDialog>
+          )}
           <Button onClick={() => router.push("/assets/new")}>
             <Plus className="mr-2 h-4 w-4" />
             <span className="hidden sm:inline">Add Asset</span>
@@ -312,6 +372,9 @@ export default function AssetsPage() {
                       <TableHead className="hidden lg:table-cell">
                         QR Code
                       </TableHead>
+                      <TableHead className="hidden xl:table-cell text-right">
+                        Total Cost
+                      </TableHead>
                       <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -322,6 +385,7 @@ export default function AssetsPage() {
                           location?: { name: string } | null;
                           category?: { name: string } | null;
                           asset_type?: { name: string } | null;
+                          total_cost_of_ownership?: number;
                           vendors?: Array<{
                             id: string;
                             vendor_id: string;
@@ -381,6 +445,11 @@ export default function AssetsPage() {
                             </code>
                           )}
                         </TableCell>
+                        <TableCell className="hidden xl:table-cell text-right">
+                          {asset.total_cost_of_ownership
+                            ? formatCurrency(asset.total_cost_of_ownership)
+                            : "-"}
+                        </TableCell>
                         <TableCell className="text-right">
                           <Button
                             size="sm"
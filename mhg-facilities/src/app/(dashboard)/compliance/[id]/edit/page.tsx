@@ -1,7 +1,10 @@
 "use client";
 
 import { useParams, useRouter } from "next/navigation";
-import { ComplianceForm } from "@/components/compliance/compliance-form";
+import {
+  ComplianceForm,
+  parseAlertDays,
+} from "@/components/compliance/compliance-form";
 import {
   useComplianceDocument,
   useUpdateComplianceDocument,
@@ -36,6 +39,7 @@ export default function EditCompliancePage() {
     issuing_authority?: string;
     document_number?: string;
     renewal_cost?: string;
+    alert_days?: string;
     notes?: string;
   }) => {
     try {
@@ -52,6 +56,7 @@ export default function EditCompliancePage() {
           renewal_cost: data.renewal_cost
             ? parseFloat(data.renewal_cost)
             : null,
+          alert_days: parseAlertDays(data.alert_days),
           notes: data.notes || null,
         },
       });
@@ -114,6 +119,7 @@ export default function EditCompliancePage() {
               issuing_authority: document.issuing_authority || "",
               document_number: document.document_number || "",
               renewal_cost: document.renewal_cost?.toString() || "",
+              alert_days: document.alert_days?.join(", ") || "",
               notes: document.notes || "",
             }}
             onSubmit={handleSubmit}
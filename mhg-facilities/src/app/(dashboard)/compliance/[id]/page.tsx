@@ -21,6 +21,7 @@ import { StatusBadge } from "@/components/compliance/status-badge";
 import { ExpirationCountdown } from "@/components/compliance/expiration-countdown";
 import { ConditionalBanner } from "@/components/compliance/conditional-banner";
 import { FailedInspectionBanner } from "@/components/compliance/failed-inspection-banner";
+import { RenewalPanel } from "@/components/compliance/renewal-panel";
 
 interface ComplianceDetailPageProps {
   params: Promise<{ id: string }>;
@@ -128,6 +129,7 @@ async function ComplianceDetail({ id }: { id: string }) {
         document.reinspection_date &&
         document.failed_inspection_date && (
           <FailedInspectionBanner
+            documentId={id}
             correctiveAction={document.corrective_action}
             reinspectionDate={document.reinspection_date}
             failedDate={document.failed_inspection_date}
@@ -233,6 +235,8 @@ async function ComplianceDetail({ id }: { id: string }) {
         </CardContent>
       </Card>
 
+      <RenewalPanel documentId={id} />
+
       {/* Document Attachments Section - Placeholder for future */}
       <Card>
         <CardHeader>
@@ -1,7 +1,10 @@
 "use client";
 
 import { useRouter } from "next/navigation";
-import { ComplianceForm } from "@/components/compliance/compliance-form";
+import {
+  ComplianceForm,
+  parseAlertDays,
+} from "@/components/compliance/compliance-form";
 import { useCreateComplianceDocument } from "@/hooks/use-compliance";
 import { Button } from "@/components/ui/button";
 import {
@@ -28,6 +31,7 @@ export default function NewCompliancePage() {
     issuing_authority?: string;
     document_number?: string;
     renewal_cost?: string;
+    alert_days?: string;
     notes?: string;
   }) => {
     try {
@@ -40,6 +44,7 @@ export default function NewCompliancePage() {
         issuing_authority: data.issuing_authority || null,
         document_number: data.document_number || null,
         renewal_cost: data.renewal_cost ? parseFloat(data.renewal_cost) : null,
+        alert_days: parseAlertDays(data.alert_days),
         notes: data.notes || null,
       });
       toast.success("Document created successfully");
@@ -18,6 +18,7 @@ import {
 
 // Client component for the data display
 import { ComplianceList } from "./compliance-list";
+import { AuditPackageDialog } from "@/components/compliance/audit-package-dialog";
 
 export const metadata = {
   title: "Documents",
@@ -31,12 +32,15 @@ export default async function CompliancePage() {
       {/* Header */}
       <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
         <h1 className="text-2xl md:text-3xl font-bold tracking-tight">Documents</h1>
-        <Button asChild>
-          <Link href="/compliance/new">
-            <Plus className="mr-2 h-4 w-4" />
-            Add Document
-          </Link>
-        </Button>
+        <div className="flex gap-2">
+          <AuditPackageDialog />
+          <Button asChild>
+            <Link href="/compliance/new">
+              <Plus className="mr-2 h-4 w-4" />
+              Add Document
+            </Link>
+          </Button>
+        </div>
       </div>
 
       {/* Stats Cards */}
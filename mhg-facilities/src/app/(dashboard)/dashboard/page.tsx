@@ -6,6 +6,7 @@ import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { ChartSkeleton } from "@/components/ui/chart-skeleton";
 import { ActivityFeed } from "@/components/dashboard/activity-feed";
+import { ProblemAssetsCard } from "@/components/dashboard/problem-assets-card";
 
 // Dynamically import heavy chart components (Recharts ~96KB)
 const TicketTrendChart = dynamic(
@@ -46,6 +47,7 @@ import {
   useOverviewStats,
   useTicketStats,
   useRecentActivity,
+  useProblemAssets,
 } from "@/hooks/use-dashboard";
 import { Card } from "@/components/ui/card";
 import { FileText, FileCheck, Wrench, Plus, AlertTriangle } from "lucide-react";
@@ -58,6 +60,7 @@ function DashboardOverview() {
   );
   const { data: activityData, isLoading: activityLoading } =
     useRecentActivity(10);
+  const { data: problemAssetData } = useProblemAssets(5);
 
   if (overviewLoading || ticketsLoading || activityLoading) {
     return (
@@ -172,6 +175,13 @@ function DashboardOverview() {
         )}
       </div>
 
+      {problemAssetData && (
+        <ProblemAssetsCard
+          assets={problemAssetData.assets}
+          total={problemAssetData.total}
+          title="Problem Assets"
+        />
+      )}
     </div>
   );
 }
@@ -1,10 +1,13 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
 import { Sidebar } from "@/components/layout/sidebar";
 import { BottomNav } from "@/components/layout/bottom-nav";
 import { MoreMenu } from "@/components/layout/more-menu";
 import { NotificationFab } from "@/components/layout/notification-fab";
+import { useAuth } from "@/hooks/use-auth";
+import { useNotificationRealtime } from "@/hooks/use-realtime";
 
 export default function DashboardLayout({
   children,
@@ -12,6 +15,18 @@ export default function DashboardLayout({
   children: React.ReactNode;
 }) {
   const [moreMenuOpen, setMoreMenuOpen] = useState(false);
+  const router = useRouter();
+  const { user } = useAuth();
+
+  // Keeps the notification bell's unread count live
+  useNotificationRealtime(user?.id);
+
+  // Vendor users only have access to the vendor portal
+  useEffect(() => {
+    if (user?.role === "vendor") {
+      router.replace("/portal");
+    }
+  }, [user, router]);
 
   return (
     <div className="min-h-screen bg-background overflow-x-hidden">
@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import { Bell, CheckCheck } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { PageLoader } from "@/components/ui/loaders";
+import { EmptyState } from "@/components/ui/empty-state";
+import {
+  NotificationItem,
+  useOpenNotification,
+} from "@/components/layout/notification-bell";
+import {
+  useMarkNotificationsRead,
+  useNotificationInbox,
+} from "@/hooks/use-notifications";
+
+export default function NotificationsPage() {
+  const [tab, setTab] = useState("all");
+  const { data, isLoading } = useNotificationInbox(
+    tab === "unread" ? { unread: true } : undefined,
+  );
+  const markRead = useMarkNotificationsRead();
+  const openNotification = useOpenNotification();
+
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unread_count ?? 0;
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markRead.mutateAsync(undefined);
+      toast.success("All notifications marked read");
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to mark notifications read",
+      );
+    }
+  };
+
+  if (isLoading && !data) return <PageLoader />;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Bell className="h-8 w-8" />
+            Notifications
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            {unreadCount > 0 ? `${unreadCount} unread` : "You're all caught up"}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={handleMarkAllRead}
+          disabled={unreadCount === 0 || markRead.isPending}
+        >
+          <CheckCheck className="h-4 w-4 mr-2" />
+          Mark all read
+        </Button>
+      </div>
+
+      <Tabs value={tab} onValueChange={setTab}>
+        <TabsList>
+          <TabsTrigger value="all">All</TabsTrigger>
+          <TabsTrigger value="unread">Unread</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {notifications.length === 0 ? (
+        <EmptyState
+          icon={<Bell className="h-12 w-12" />}
+          title="No notifications"
+          description={
+            tab === "unread"
+              ? "You've read everything"
+              : "Assignments, mentions and reminders will show up here"
+          }
+        />
+      ) : (
+        <Card>
+          <CardContent className="p-0 divide-y divide-border">
+            {notifications.map((notification) => (
+              <NotificationItem
+                key={notification.id}
+                notification={notification}
+                onOpen={openNotification}
+              />
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
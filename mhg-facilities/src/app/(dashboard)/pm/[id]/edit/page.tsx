@@ -102,7 +102,12 @@ export default function EditPMSchedulePage() {
       | "monthly"
       | "quarterly"
       | "semi_annually"
-      | "annually";
+      | "annually"
+      | null;
+    scheduling_mode?: "fixed" | "floating";
+    trigger_type?: "calendar" | "meter" | "calendar_or_meter";
+    meter_id?: string | null;
+    meter_interval?: number | null;
     day_of_week?: number | null;
     day_of_month?: number | null;
     month_of_year?: number | null;
@@ -123,6 +128,10 @@ export default function EditPMSchedulePage() {
           asset_id: submitData.asset_id || null,
           location_id: submitData.location_id || null,
           frequency: submitData.frequency,
+          scheduling_mode: submitData.scheduling_mode,
+          trigger_type: submitData.trigger_type,
+          meter_id: submitData.meter_id ?? null,
+          meter_interval: submitData.meter_interval ?? null,
           day_of_week: submitData.day_of_week ?? null,
           day_of_month: submitData.day_of_month ?? null,
           month_of_year: submitData.month_of_year ?? null,
@@ -191,7 +200,14 @@ export default function EditPMSchedulePage() {
               description: schedule.description || "",
               asset_id: schedule.asset_id || null,
               location_id: schedule.location_id || null,
-              frequency: schedule.frequency,
+              frequency: schedule.frequency ?? undefined,
+              scheduling_mode: schedule.scheduling_mode,
+              trigger_type: schedule.trigger_type,
+              meter_id: schedule.meter_id,
+              meter_interval:
+                schedule.meter_interval !== null
+                  ? Number(schedule.meter_interval)
+                  : null,
               day_of_week: schedule.day_of_week ?? null,
               day_of_month: schedule.day_of_month ?? null,
               month_of_year: schedule.month_of_year ?? null,
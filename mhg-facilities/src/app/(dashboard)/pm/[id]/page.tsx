@@ -12,6 +12,7 @@ import {
   User,
   Building,
   CheckCircle,
+  Gauge,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -164,19 +165,51 @@ export default function PMDetailPage({ params }: PMDetailPageProps) {
 
           {/* Schedule Info Grid */}
           <div className="grid gap-4 md:grid-cols-2">
-            <div className="flex items-start gap-3">
-              <Calendar className="h-5 w-5 text-muted-foreground mt-0.5" />
-              <div>
-                <p className="text-sm font-medium">Frequency</p>
-                <p className="text-sm text-muted-foreground">
-                  {formatFrequency(schedule.frequency)}
-                  {schedule.day_of_week !== null &&
-                    ` (Day ${schedule.day_of_week})`}
-                  {schedule.day_of_month !== null &&
-                    ` (Day ${schedule.day_of_month})`}
-                </p>
+            {schedule.frequency && (
+              <div className="flex items-start gap-3">
+                <Calendar className="h-5 w-5 text-muted-foreground mt-0.5" />
+                <div>
+                  <p className="text-sm font-medium">Frequency</p>
+                  <p className="text-sm text-muted-foreground">
+                    {formatFrequency(schedule.frequency)}
+                    {schedule.day_of_week !== null &&
+                      ` (Day ${schedule.day_of_week})`}
+                    {schedule.day_of_month !== null &&
+                      ` (Day ${schedule.day_of_month})`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {schedule.trigger_type === "calendar_or_meter"
+                      ? "Whichever comes first: completing resets both"
+                      : schedule.scheduling_mode === "floating"
+                        ? "Floating: next date counts from completion"
+                        : "Fixed: next date follows the calendar"}
+                  </p>
+                </div>
               </div>
-            </div>
+            )}
+
+            {schedule.meter_status && (
+              <div className="flex items-start gap-3">
+                <Gauge className="h-5 w-5 text-muted-foreground mt-0.5" />
+                <div>
+                  <p className="text-sm font-medium">
+                    Meter: {schedule.meter_status.meter_name}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Every {schedule.meter_interval} {schedule.meter_status.unit}
+                    , due at {schedule.meter_status.due_at_reading}
+                  </p>
+                  <p
+                    className={`text-xs ${schedule.meter_status.is_due ? "text-red-600" : "text-muted-foreground"}`}
+                  >
+                    Current reading {schedule.meter_status.current_reading}
+                    {schedule.meter_status.is_due
+                      ? " (due now)"
+                      : ` (${schedule.meter_status.remaining} ${schedule.meter_status.unit} remaining)`}
+                  </p>
+                </div>
+              </div>
+            )}
 
             <div className="flex items-start gap-3">
               <Calendar className="h-5 w-5 text-muted-foreground mt-0.5" />
@@ -92,7 +92,12 @@ export default function NewPMSchedulePage() {
       | "monthly"
       | "quarterly"
       | "semi_annually"
-      | "annually";
+      | "annually"
+      | null;
+    scheduling_mode?: "fixed" | "floating";
+    trigger_type?: "calendar" | "meter" | "calendar_or_meter";
+    meter_id?: string | null;
+    meter_interval?: number | null;
     day_of_week?: number | null;
     day_of_month?: number | null;
     month_of_year?: number | null;
@@ -111,6 +116,10 @@ export default function NewPMSchedulePage() {
         asset_id: submitData.asset_id || null,
         location_id: submitData.location_id || null,
         frequency: submitData.frequency,
+        scheduling_mode: submitData.scheduling_mode,
+        trigger_type: submitData.trigger_type,
+        meter_id: submitData.meter_id ?? null,
+        meter_interval: submitData.meter_interval ?? null,
         day_of_week: submitData.day_of_week ?? null,
         day_of_month: submitData.day_of_month ?? null,
         month_of_year: submitData.month_of_year ?? null,
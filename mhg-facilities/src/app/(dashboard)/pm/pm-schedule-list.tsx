@@ -174,7 +174,11 @@ export function PMScheduleList() {
                     )}
                   </TableCell>
                   <TableCell className="capitalize">
-                    {formatFrequency(schedule.frequency)}
+                    {schedule.frequency
+                      ? formatFrequency(schedule.frequency)
+                      : "meter"}
+                    {schedule.trigger_type === "calendar_or_meter" &&
+                      " or meter"}
                   </TableCell>
                   <TableCell>
                     <span
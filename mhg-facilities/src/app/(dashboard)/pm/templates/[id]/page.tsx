@@ -11,12 +11,14 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { ChecklistEditor } from "@/components/pm/checklist-editor";
 import { ArrowLeft, Trash2, Save } from "lucide-react";
 import { ConfirmDialog } from "@/components/ui/confirm-dialog";
 import { PageLoader } from "@/components/ui/loaders";
 import Link from "next/link";
 import { toast } from "sonner";
 import { useState } from "react";
+import type { PMChecklist, PMChecklistItem } from "@/types";
 
 // Separate form component that only renders when data is ready
 function TemplateForm({
@@ -31,12 +33,14 @@ function TemplateForm({
     description: string | null;
     category: string | null;
     estimated_duration_hours: number | null;
+    checklist: PMChecklist | null;
   };
   onSave: (data: {
     name: string;
     description: string | null;
     category: string | null;
     estimated_duration_hours: number | null;
+    checklist: PMChecklist | null;
   }) => void;
   onDelete: () => void;
   isSaving: boolean;
@@ -48,14 +52,22 @@ function TemplateForm({
   const [estimatedHours, setEstimatedHours] = useState<number | "">(
     template.estimated_duration_hours || "",
   );
+  const [checklistItems, setChecklistItems] = useState<PMChecklistItem[]>(
+    template.checklist?.items ?? [],
+  );
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
   const handleSave = () => {
+    if (checklistItems.some((item) => !item.label.trim())) {
+      toast.error("Every checklist item needs a label");
+      return;
+    }
     onSave({
       name,
       description: description || null,
       category: category || null,
       estimated_duration_hours: estimatedHours || null,
+      checklist: checklistItems.length ? { items: checklistItems } : null,
     });
   };
 
@@ -156,6 +168,18 @@ function TemplateForm({
           </div>
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Checklist</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ChecklistEditor
+            items={checklistItems}
+            onChange={setChecklistItems}
+          />
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -174,6 +198,7 @@ export default function PMTemplateDetailPage() {
     description: string | null;
     category: string | null;
     estimated_duration_hours: number | null;
+    checklist: PMChecklist | null;
   }) => {
     try {
       await updateTemplate.mutateAsync({
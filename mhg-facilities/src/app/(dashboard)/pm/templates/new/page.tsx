@@ -7,10 +7,12 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { ChecklistEditor } from "@/components/pm/checklist-editor";
 import { ArrowLeft, Plus } from "lucide-react";
 import Link from "next/link";
 import { toast } from "sonner";
 import { useState } from "react";
+import type { PMChecklistItem } from "@/types";
 
 export default function PMTemplateNewPage() {
   const router = useRouter();
@@ -20,12 +22,17 @@ export default function PMTemplateNewPage() {
   const [description, setDescription] = useState("");
   const [category, setCategory] = useState("");
   const [estimatedHours, setEstimatedHours] = useState<number | "">("");
+  const [checklistItems, setChecklistItems] = useState<PMChecklistItem[]>([]);
 
   const handleCreate = async () => {
     if (!name.trim()) {
       toast.error("Template name is required");
       return;
     }
+    if (checklistItems.some((item) => !item.label.trim())) {
+      toast.error("Every checklist item needs a label");
+      return;
+    }
 
     try {
       const template = await createTemplate.mutateAsync({
@@ -33,6 +40,7 @@ export default function PMTemplateNewPage() {
         description: description || null,
         category: category || null,
         estimated_duration_hours: estimatedHours || null,
+        checklist: checklistItems.length ? { items: checklistItems } : null,
       });
       toast.success("Template created successfully");
       router.push(`/pm/templates/${template.id}`);
@@ -116,6 +124,18 @@ export default function PMTemplateNewPage() {
           </div>
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Checklist</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ChecklistEditor
+            items={checklistItems}
+            onChange={setChecklistItems}
+          />
+        </CardContent>
+      </Card>
     </div>
   );
 }
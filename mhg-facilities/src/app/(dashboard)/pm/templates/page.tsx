@@ -75,15 +75,14 @@ async function TemplatesList() {
                       </div>
                     )}
 
-                    {template.checklist &&
-                      typeof template.checklist === "object" && (
-                        <div className="text-sm text-muted-foreground">
-                          {Object.keys(template.checklist).length} checklist{" "}
-                          {Object.keys(template.checklist).length === 1
-                            ? "item"
-                            : "items"}
-                        </div>
-                      )}
+                    {template.checklist?.items?.length ? (
+                      <div className="text-sm text-muted-foreground">
+                        {template.checklist.items.length} checklist{" "}
+                        {template.checklist.items.length === 1
+                          ? "item"
+                          : "items"}
+                      </div>
+                    ) : null}
 
                     {template.default_vendor_id && (
                       <Badge variant="secondary">Default Vendor Assigned</Badge>
@@ -23,6 +23,14 @@ import {
   exportAssetsToExcel,
   exportComplianceToExcel,
   exportPMSchedulesToExcel,
+  exportCostApprovalsToPDF,
+  exportCostApprovalsToExcel,
+  exportInvoiceAgingToPDF,
+  exportInvoiceAgingToExcel,
+  exportProblemAssetsToPDF,
+  exportProblemAssetsToExcel,
+  exportAssetValuationToPDF,
+  exportAssetValuationToExcel,
 } from "@/lib/export";
 
 // Helper to get default date range (last 30 days)
@@ -49,6 +57,10 @@ function getReportDataArray(
     return report.documents as Record<string, unknown>[];
   if (Array.isArray(report.schedules))
     return report.schedules as Record<string, unknown>[];
+  if (Array.isArray(report.approvals))
+    return report.approvals as Record<string, unknown>[];
+  if (Array.isArray(report.invoices))
+    return report.invoices as Record<string, unknown>[];
   if (Array.isArray(report.data))
     return report.data as Record<string, unknown>[];
   // If it's already an array at root level
@@ -64,19 +76,24 @@ export default function ReportsPage() {
     unknown
   > | null>(null);
   const [dateRange, setDateRange] = useState(getDefaultDateRange);
+  const [asOfDate, setAsOfDate] = useState(
+    () => new Date().toISOString().split("T")[0],
+  );
   const [error, setError] = useState<string | null>(null);
 
   const handleGenerate = async () => {
     setError(null);
     try {
-      // Build URL with query params for PM report
+      // Build URL with query params for date-ranged reports
       let url = `/api/reports/${reportType}`;
-      if (reportType === "pm") {
+      if (reportType === "pm" || reportType === "cost-approvals") {
         const params = new URLSearchParams({
           start_date: dateRange.start,
           end_date: dateRange.end,
         });
         url = `${url}?${params.toString()}`;
+      } else if (reportType === "asset-valuation") {
+        url = `${url}?as_of=${asOfDate}`;
       }
 
       const response = await fetch(url);
@@ -145,6 +162,18 @@ export default function ReportsPage() {
       case "pm":
         exportPMSchedulesToPDF(data);
         break;
+      case "cost-approvals":
+        exportCostApprovalsToPDF(data);
+        break;
+      case "invoice-aging":
+        exportInvoiceAgingToPDF(data);
+        break;
+      case "problem-assets":
+        exportProblemAssetsToPDF(data);
+        break;
+      case "asset-valuation":
+        exportAssetValuationToPDF(data, String(generatedReport.asOf));
+        break;
       default:
         console.error("Unknown report type for PDF export");
     }
@@ -168,6 +197,23 @@ export default function ReportsPage() {
       case "pm":
         exportPMSchedulesToExcel(data);
         break;
+      case "cost-approvals":
+        exportCostApprovalsToExcel(data);
+        break;
+      case "invoice-aging":
+        exportInvoiceAgingToExcel(data);
+        break;
+      case "problem-assets":
+        exportProblemAssetsToExcel(data);
+        break;
+      case "asset-valuation":
+        exportAssetValuationToExcel({
+          asOf: String(generatedReport.asOf),
+          assets: data,
+          byLocation: generatedReport.byLocation as Record<string, unknown>[],
+          byCategory: generatedReport.byCategory as Record<string, unknown>[],
+        });
+        break;
       default:
         console.error("Unknown report type for Excel export");
     }
@@ -193,6 +239,18 @@ export default function ReportsPage() {
                   <SelectItem value="assets">Assets Report</SelectItem>
                   <SelectItem value="compliance">Compliance Report</SelectItem>
                   <SelectItem value="pm">PM Report</SelectItem>
+                  <SelectItem value="cost-approvals">
+                    Cost Approvals Report
+                  </SelectItem>
+                  <SelectItem value="invoice-aging">
+                    Invoice Aging Report
+                  </SelectItem>
+                  <SelectItem value="problem-assets">
+                    Problem Assets Report
+                  </SelectItem>
+                  <SelectItem value="asset-valuation">
+                    Asset Valuation Report
+                  </SelectItem>
                 </SelectContent>
               </Select>
 
@@ -219,8 +277,8 @@ export default function ReportsPage() {
               )}
             </div>
 
-            {/* Date range picker for PM report */}
-            {reportType === "pm" && (
+            {/* Date range picker for date-ranged reports */}
+            {(reportType === "pm" || reportType === "cost-approvals") && (
               <div className="flex flex-col md:flex-row gap-4 items-end">
                 <div className="w-full md:w-auto">
                   <Label htmlFor="start_date">Start Date</Label>
@@ -251,6 +309,20 @@ export default function ReportsPage() {
                 </div>
               </div>
             )}
+
+            {/* As-of date for point-in-time reports */}
+            {reportType === "asset-valuation" && (
+              <div className="w-full md:w-auto">
+                <Label htmlFor="as_of_date">Book Value As Of</Label>
+                <Input
+                  id="as_of_date"
+                  type="date"
+                  value={asOfDate}
+                  onChange={(e) => setAsOfDate(e.target.value)}
+                  className="w-full md:w-[180px]"
+                />
+              </div>
+            )}
           </div>
 
           {error && (
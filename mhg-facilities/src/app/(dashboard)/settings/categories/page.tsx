@@ -65,6 +65,7 @@ interface CreateCategoryData {
   description?: string;
   default_priority: TicketPriority;
   escalation_hours: number;
+  resolution_hours: number | null;
 }
 
 interface UpdateCategoryData {
@@ -73,6 +74,7 @@ interface UpdateCategoryData {
   description?: string;
   default_priority?: TicketPriority;
   escalation_hours?: number;
+  resolution_hours?: number | null;
 }
 
 export default function CategoriesSettingsPage() {
@@ -89,6 +91,7 @@ export default function CategoriesSettingsPage() {
     description: "",
     default_priority: "medium",
     escalation_hours: 4,
+    resolution_hours: null,
   });
 
   // Fetch categories from API
@@ -173,6 +176,7 @@ export default function CategoriesSettingsPage() {
       description: "",
       default_priority: "medium",
       escalation_hours: 4,
+      resolution_hours: null,
     });
   };
 
@@ -192,6 +196,7 @@ export default function CategoriesSettingsPage() {
       description: category.description || "",
       default_priority: category.default_priority,
       escalation_hours: category.escalation_hours,
+      resolution_hours: category.resolution_hours,
     });
   };
 
@@ -338,7 +343,27 @@ export default function CategoriesSettingsPage() {
                   }
                 />
                 <p className="text-sm text-muted-foreground">
-                  Hours before ticket is escalated if not addressed
+                  Response target: hours before an unassigned ticket escalates
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="resolution-hours">Resolution Hours</Label>
+                <Input
+                  id="resolution-hours"
+                  type="number"
+                  min={1}
+                  placeholder="Priority default"
+                  value={formData.resolution_hours ?? ""}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      resolution_hours: parseInt(e.target.value) || null,
+                    })
+                  }
+                />
+                <p className="text-sm text-muted-foreground">
+                  Hours to complete the ticket. Leave blank to use the priority default
                 </p>
               </div>
             </div>
@@ -441,6 +466,23 @@ export default function CategoriesSettingsPage() {
                 }
               />
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="edit-resolution">Resolution Hours</Label>
+              <Input
+                id="edit-resolution"
+                type="number"
+                min={1}
+                placeholder="Priority default"
+                value={formData.resolution_hours ?? ""}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    resolution_hours: parseInt(e.target.value) || null,
+                  })
+                }
+              />
+            </div>
           </div>
 
           <DialogFooter>
@@ -485,6 +527,7 @@ export default function CategoriesSettingsPage() {
                     <TableHead className="hidden sm:table-cell">Description</TableHead>
                     <TableHead>Default Priority</TableHead>
                     <TableHead className="hidden sm:table-cell">Escalation</TableHead>
+                    <TableHead className="hidden sm:table-cell">Resolution</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -510,6 +553,9 @@ export default function CategoriesSettingsPage() {
                         </Badge>
                       </TableCell>
                       <TableCell className="hidden sm:table-cell">{category.escalation_hours}h</TableCell>
+                      <TableCell className="hidden sm:table-cell">
+                        {category.resolution_hours ? `${category.resolution_hours}h` : "Default"}
+                      </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
                           <Button
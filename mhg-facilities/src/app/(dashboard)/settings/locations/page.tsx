@@ -28,9 +28,10 @@ import {
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Building2, MapPin, Plus, Search, ArrowLeft } from "lucide-react";
-import { useLocations } from "@/hooks/use-locations";
+import { useLocations, usePrintLocationLabels } from "@/hooks/use-locations";
 import { useAuth } from "@/hooks/use-auth";
 import { TableLoadingOverlay } from "@/components/ui/table-loading-overlay";
+import { PrintLabelsDialog } from "@/components/qr/print-labels-dialog";
 
 export default function LocationsPage() {
   const router = useRouter();
@@ -45,6 +46,7 @@ export default function LocationsPage() {
     isFetching: locationsFetching,
   } = useLocations();
   const { user, isLoading: authLoading } = useAuth();
+  const printLabels = usePrintLocationLabels();
 
   const loading = locationsLoading || authLoading;
   const userRole = user?.role ?? null;
@@ -94,6 +96,7 @@ export default function LocationsPage() {
   };
 
   const canManageLocations = userRole === "admin" || userRole === "super_admin";
+  const canPrintLabels = canManageLocations || userRole === "manager";
 
   if (loading && locations.length === 0) {
     return (
@@ -119,12 +122,22 @@ export default function LocationsPage() {
           </Button>
           <h1 className="text-2xl md:text-3xl font-bold">Locations</h1>
         </div>
-        {canManageLocations && (
-          <Button onClick={() => router.push("/settings/locations/new")}>
-            <Plus className="h-4 w-4 mr-2" />
-            Add Location
-          </Button>
-        )}
+        <div className="flex gap-2">
+          {canPrintLabels && (
+            <PrintLabelsDialog
+              title="Print Location Labels"
+              description="QR labels that open a form for reporting a problem at the location, one per active location."
+              isPending={printLabels.isPending}
+              onGenerate={(format) => printLabels.mutateAsync({ format })}
+            />
+          )}
+          {canManageLocations && (
+            <Button onClick={() => router.push("/settings/locations/new")}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Location
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Filters */}
@@ -0,0 +1,353 @@
+"use client";
+
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { Inbox, Loader2, RotateCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PageLoader } from "@/components/ui/loaders";
+import { EmptyState } from "@/components/ui/empty-state";
+import { TableLoadingOverlay } from "@/components/ui/table-loading-overlay";
+import { useIsAdmin } from "@/hooks/use-auth";
+import {
+  useNotificationOutbox,
+  useNotificationOutboxMessage,
+  useResendNotification,
+} from "@/hooks/use-notifications";
+import type { NotificationOutboxFiltersInput } from "@/lib/validations/user";
+import type {
+  NotificationDeliveryStatus,
+  NotificationOutboxStatus,
+} from "@/types/database-extensions";
+import type { NotificationOutboxEvent } from "@/types";
+
+const STATUS_VARIANTS: Record<
+  NotificationOutboxStatus,
+  "default" | "secondary" | "destructive" | "outline" | "warning"
+> = {
+  queued: "outline",
+  processing: "secondary",
+  sent: "default",
+  failed: "destructive",
+  bounced: "warning",
+};
+
+const DELIVERY_VARIANTS: Record<
+  NotificationDeliveryStatus,
+  "default" | "destructive" | "warning"
+> = {
+  sent: "default",
+  failed: "destructive",
+  bounced: "warning",
+};
+
+const EVENT_LABELS: Record<NotificationOutboxEvent, string> = {
+  ticket_created: "New ticket",
+  ticket_assigned: "Ticket assigned",
+  ticket_status_changed: "Status changed",
+  ticket_mentioned: "Mentioned",
+  ticket_escalated: "SLA escalation",
+  cost_approval_requested: "Approval requested",
+  cost_approval_decided: "Approval decided",
+  compliance_expiring: "Document expiring",
+  compliance_reinspection_due: "Reinspection due",
+  pm_due: "PM task due",
+  digest: "Digest",
+};
+
+function formatTimestamp(timestamp: string | null) {
+  return timestamp ? format(parseISO(timestamp), "MMM d, h:mm a") : "—";
+}
+
+export default function NotificationOutboxPage() {
+  const isAdmin = useIsAdmin();
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [eventFilter, setEventFilter] = useState("all");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const filters: NotificationOutboxFiltersInput = {
+    ...(statusFilter !== "all" && {
+      status: statusFilter as NotificationOutboxStatus,
+    }),
+    ...(eventFilter !== "all" && {
+      event: eventFilter as NotificationOutboxEvent,
+    }),
+  };
+
+  const {
+    data: messages = [],
+    isLoading,
+    isFetching,
+  } = useNotificationOutbox(filters, isAdmin);
+
+  if (!isAdmin) {
+    return (
+      <EmptyState
+        icon={<Inbox className="h-12 w-12" />}
+        title="Admins only"
+        description="Only admins can view the notification outbox"
+      />
+    );
+  }
+
+  if (isLoading && messages.length === 0) return <PageLoader />;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Inbox className="h-8 w-8" />
+          Notification Outbox
+        </h1>
+        <p className="text-muted-foreground mt-2">
+          Every notification the app has queued, with its delivery attempts
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger>
+            <SelectValue placeholder="Filter by status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Statuses</SelectItem>
+            {Object.keys(STATUS_VARIANTS).map((status) => (
+              <SelectItem key={status} value={status} className="capitalize">
+                {status}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={eventFilter} onValueChange={setEventFilter}>
+          <SelectTrigger>
+            <SelectValue placeholder="Filter by event" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Events</SelectItem>
+            {Object.entries(EVENT_LABELS).map(([event, label]) => (
+              <SelectItem key={event} value={event}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {messages.length === 0 ? (
+        <EmptyState
+          icon={<Inbox className="h-12 w-12" />}
+          title="No notifications"
+          description="Nothing in the outbox matches these filters"
+        />
+      ) : (
+        <TableLoadingOverlay isLoading={isFetching}>
+          <Card>
+            <CardContent className="p-0">
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Event</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="hidden md:table-cell">
+                        Attempts
+                      </TableHead>
+                      <TableHead className="hidden md:table-cell">
+                        Queued
+                      </TableHead>
+                      <TableHead className="hidden lg:table-cell">
+                        Last error
+                      </TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {messages.map((message) => (
+                      <TableRow
+                        key={message.id}
+                        className="cursor-pointer"
+                        onClick={() => setSelectedId(message.id)}
+                      >
+                        <TableCell className="font-medium">
+                          {EVENT_LABELS[
+                            message.event as NotificationOutboxEvent
+                          ] ?? message.event}
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={STATUS_VARIANTS[message.status]}
+                            className="capitalize"
+                          >
+                            {message.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="hidden md:table-cell">
+                          {message.attempts} / {message.max_attempts}
+                        </TableCell>
+                        <TableCell className="hidden md:table-cell">
+                          {formatTimestamp(message.created_at)}
+                        </TableCell>
+                        <TableCell className="hidden lg:table-cell max-w-xs truncate text-muted-foreground">
+                          {message.last_error ?? "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TableLoadingOverlay>
+      )}
+
+      <OutboxMessageDialog
+        id={selectedId}
+        onOpenChange={(open) => !open && setSelectedId(null)}
+      />
+    </div>
+  );
+}
+
+function OutboxMessageDialog({
+  id,
+  onOpenChange,
+}: {
+  id: string | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { data: message, isLoading } = useNotificationOutboxMessage(id);
+  const resend = useResendNotification();
+
+  const canResend =
+    message && message.status !== "queued" && message.status !== "processing";
+
+  const handleResend = async () => {
+    if (!message) return;
+    try {
+      await resend.mutateAsync(message.id);
+      toast.success("Notification queued to resend");
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to resend notification",
+      );
+    }
+  };
+
+  return (
+    <Dialog open={!!id} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            {message
+              ? (EVENT_LABELS[message.event as NotificationOutboxEvent] ??
+                message.event)
+              : "Notification"}
+          </DialogTitle>
+          {message && (
+            <DialogDescription>
+              Queued {formatTimestamp(message.created_at)}
+              {message.sent_at && ` · Sent ${formatTimestamp(message.sent_at)}`}
+              {message.status === "queued" &&
+                ` · Next attempt ${formatTimestamp(message.next_attempt_at)}`}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {isLoading || !message ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {message.last_error && (
+              <p className="text-sm text-destructive">{message.last_error}</p>
+            )}
+
+            {message.deliveries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No deliveries recorded yet
+              </p>
+            ) : (
+              <div className="max-h-80 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Attempt</TableHead>
+                      <TableHead>Channel</TableHead>
+                      <TableHead>Address</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {message.deliveries.map((delivery) => (
+                      <TableRow key={delivery.id}>
+                        <TableCell>{delivery.attempt}</TableCell>
+                        <TableCell className="capitalize">
+                          {delivery.channel}
+                        </TableCell>
+                        <TableCell className="max-w-48 truncate">
+                          {delivery.address}
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={DELIVERY_VARIANTS[delivery.status]}
+                            className="capitalize"
+                            title={delivery.error ?? undefined}
+                          >
+                            {delivery.status}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={handleResend}
+            disabled={!canResend || resend.isPending}
+          >
+            {resend.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <RotateCw className="h-4 w-4 mr-2" />
+            )}
+            Resend
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
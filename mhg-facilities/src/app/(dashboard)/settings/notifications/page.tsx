@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
 import {
   Card,
   CardContent,
@@ -9,147 +10,473 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
-import { Bell, Save } from "lucide-react";
+import { PageLoader } from "@/components/ui/loaders";
+import { Bell, Inbox, Loader2, Save } from "lucide-react";
 import { toast } from "sonner";
+import {
+  useNotificationPolicy,
+  useNotificationPreferences,
+  usePushSubscription,
+  useUpdateNotificationPreferences,
+} from "@/hooks/use-notifications";
+import { useLocations } from "@/hooks/use-locations";
+import { useAuth, useIsAdmin } from "@/hooks/use-auth";
+import type { UserRole } from "@/types/database";
+import type {
+  DigestFrequency,
+  NotificationDeliveryChannel,
+  NotificationEvent,
+  NotificationPreferences,
+  QuietHours,
+} from "@/types";
+
+const CHANNELS: { key: NotificationDeliveryChannel; label: string }[] = [
+  { key: "email", label: "Email" },
+  { key: "sms", label: "SMS" },
+  { key: "push", label: "Push" },
+];
+
+const EVENT_GROUPS: {
+  title: string;
+  events: { key: NotificationEvent; label: string; description: string }[];
+}[] = [
+  {
+    title: "Tickets",
+    events: [
+      {
+        key: "ticket_created",
+        label: "New tickets",
+        description: "A ticket is submitted (managers and admins)",
+      },
+      {
+        key: "ticket_assigned",
+        label: "Ticket assigned",
+        description: "A ticket is assigned to you",
+      },
+      {
+        key: "ticket_status_changed",
+        label: "Status changes",
+        description: "A ticket you follow changes status",
+      },
+      {
+        key: "ticket_mentioned",
+        label: "Mentions",
+        description: "Someone mentions you in a ticket comment",
+      },
+      {
+        key: "ticket_escalated",
+        label: "SLA escalations",
+        description: "A ticket breaches its SLA and escalates to you",
+      },
+    ],
+  },
+  {
+    title: "Cost Approvals",
+    events: [
+      {
+        key: "cost_approval_requested",
+        label: "Approval requested",
+        description: "A cost is waiting for your approval",
+      },
+      {
+        key: "cost_approval_decided",
+        label: "Approval decided",
+        description: "A cost you submitted is approved or denied",
+      },
+    ],
+  },
+  {
+    title: "Maintenance & Compliance",
+    events: [
+      {
+        key: "pm_due",
+        label: "PM tasks due",
+        description: "A preventive maintenance task assigned to you is due",
+      },
+      {
+        key: "compliance_expiring",
+        label: "Documents expiring",
+        description: "A compliance document is expiring or has expired",
+      },
+      {
+        key: "compliance_reinspection_due",
+        label: "Reinspections due",
+        description:
+          "A failed inspection's reinspection is coming up or overdue",
+      },
+    ],
+  },
+];
+
+// What the digest covers, by role (see NotificationDigestService)
+const DIGEST_SCOPES: Partial<Record<UserRole, string>> = {
+  super_admin: "every location",
+  admin: "every location",
+  manager: "the locations you manage",
+};
+
+const DEFAULT_QUIET_HOURS: QuietHours = {
+  enabled: false,
+  start: "22:00",
+  end: "07:00",
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+};
 
 export default function NotificationSettingsPage() {
-  const [emailTicketAssigned, setEmailTicketAssigned] = useState(true);
-  const [emailTicketStatusChange, setEmailTicketStatusChange] = useState(true);
-  const [emailPMDue, setEmailPMDue] = useState(true);
-  const [emailComplianceExpiring, setEmailComplianceExpiring] = useState(true);
-  const [emailDailyDigest, setEmailDailyDigest] = useState(false);
-
-  const handleSave = () => {
-    // TODO: Persist to user preferences in database
-    toast.success("Notification settings saved");
+  const { data: preferences, isLoading } = useNotificationPreferences();
+
+  if (isLoading) return <PageLoader />;
+  if (!preferences) return null;
+
+  return <NotificationPreferencesForm preferences={preferences} />;
+}
+
+function NotificationPreferencesForm({
+  preferences,
+}: {
+  preferences: NotificationPreferences;
+}) {
+  const updatePreferences = useUpdateNotificationPreferences();
+  const { data: policy } = useNotificationPolicy();
+  const { data: locations = [] } = useLocations();
+  const isAdmin = useIsAdmin();
+  const { user } = useAuth();
+
+  const [channels, setChannels] = useState<
+    Record<NotificationDeliveryChannel, boolean>
+  >({
+    email: preferences.email,
+    sms: preferences.sms,
+    push: preferences.push,
+  });
+  const [events, setEvents] = useState(preferences.events ?? {});
+  const [quietHours, setQuietHours] = useState<QuietHours>(
+    preferences.quiet_hours ?? DEFAULT_QUIET_HOURS,
+  );
+  const [locationIds, setLocationIds] = useState<string[]>(
+    preferences.location_ids ?? [],
+  );
+  const [digest, setDigest] = useState<DigestFrequency | null>(
+    preferences.digest ?? null,
+  );
+
+  const isEventEnabled = (
+    event: NotificationEvent,
+    channel: NotificationDeliveryChannel,
+  ) => channels[channel] && events[event]?.[channel] !== false;
+
+  const toggleEvent = (
+    event: NotificationEvent,
+    channel: NotificationDeliveryChannel,
+    enabled: boolean,
+  ) => {
+    setEvents((prev) => ({
+      ...prev,
+      [event]: { ...prev[event], [channel]: enabled },
+    }));
+  };
+
+  const toggleLocation = (locationId: string, checked: boolean) => {
+    setLocationIds((prev) =>
+      checked ? [...prev, locationId] : prev.filter((id) => id !== locationId),
+    );
+  };
+
+  const handleSave = async () => {
+    try {
+      await updatePreferences.mutateAsync({
+        ...channels,
+        events,
+        quiet_hours: quietHours,
+        location_ids: locationIds,
+        digest,
+      });
+      toast.success("Notification settings saved");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save settings",
+      );
+    }
   };
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold flex items-center gap-2">
-          <Bell className="h-8 w-8" />
-          Notification Settings
-        </h1>
-        <p className="text-muted-foreground mt-2">
-          Manage your email notification preferences
-        </p>
+      <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Bell className="h-8 w-8" />
+            Notification Settings
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Choose what you hear about, how, and when
+          </p>
+        </div>
+        {isAdmin && (
+          <Button variant="outline" asChild>
+            <Link href="/settings/notifications/outbox">
+              <Inbox className="h-4 w-4 mr-2" />
+              Delivery Log
+            </Link>
+          </Button>
+        )}
       </div>
 
       <Card>
         <CardHeader>
-          <CardTitle>Ticket Notifications</CardTitle>
+          <CardTitle>Channels</CardTitle>
           <CardDescription>
-            Get notified about ticket assignments and status changes
+            Turning a channel off stops everything sent through it
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="flex items-center justify-between">
-            <div className="space-y-0.5">
-              <Label htmlFor="email-ticket-assigned">Ticket Assigned</Label>
-              <p className="text-sm text-muted-foreground">
-                Receive an email when a ticket is assigned to you
-              </p>
+          {CHANNELS.map((channel) => (
+            <div
+              key={channel.key}
+              className="flex items-center justify-between"
+            >
+              <Label htmlFor={`channel-${channel.key}`}>{channel.label}</Label>
+              <Switch
+                id={`channel-${channel.key}`}
+                checked={channels[channel.key]}
+                onCheckedChange={(checked) =>
+                  setChannels((prev) => ({ ...prev, [channel.key]: checked }))
+                }
+              />
             </div>
-            <Switch
-              id="email-ticket-assigned"
-              checked={emailTicketAssigned}
-              onCheckedChange={setEmailTicketAssigned}
-            />
-          </div>
-
-          <div className="flex items-center justify-between">
-            <div className="space-y-0.5">
-              <Label htmlFor="email-ticket-status">Ticket Status Changes</Label>
-              <p className="text-sm text-muted-foreground">
-                Get updates when ticket status changes
-              </p>
-            </div>
-            <Switch
-              id="email-ticket-status"
-              checked={emailTicketStatusChange}
-              onCheckedChange={setEmailTicketStatusChange}
-            />
-          </div>
+          ))}
+          <PushDeviceControl />
         </CardContent>
       </Card>
 
+      {EVENT_GROUPS.map((group) => (
+        <Card key={group.title}>
+          <CardHeader>
+            <CardTitle>{group.title}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {group.events.map((event) => (
+              <div
+                key={event.key}
+                className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div className="space-y-0.5">
+                  <p className="text-sm font-medium">{event.label}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {event.description}
+                  </p>
+                </div>
+                <div className="flex gap-4">
+                  {CHANNELS.map((channel) => (
+                    <label
+                      key={channel.key}
+                      className="flex items-center gap-2 text-sm"
+                    >
+                      <Checkbox
+                        checked={isEventEnabled(event.key, channel.key)}
+                        disabled={!channels[channel.key]}
+                        onCheckedChange={(checked) =>
+                          toggleEvent(event.key, channel.key, checked === true)
+                        }
+                      />
+                      {channel.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ))}
+
       <Card>
         <CardHeader>
-          <CardTitle>Maintenance Notifications</CardTitle>
+          <CardTitle>Digest</CardTitle>
           <CardDescription>
-            Preventive maintenance task reminders
+            A summary email of open and overdue tickets, upcoming PM, expiring
+            documents
+            {user && DIGEST_SCOPES[user.role]
+              ? `, budgets and completed work across ${DIGEST_SCOPES[user.role]}`
+              : " and your completed work"}
           </CardDescription>
         </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="flex items-center justify-between">
-            <div className="space-y-0.5">
-              <Label htmlFor="email-pm-due">PM Tasks Due</Label>
-              <p className="text-sm text-muted-foreground">
-                Remind me when preventive maintenance tasks are due
-              </p>
-            </div>
-            <Switch
-              id="email-pm-due"
-              checked={emailPMDue}
-              onCheckedChange={setEmailPMDue}
-            />
+        <CardContent>
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <Label htmlFor="digest-frequency">Send me a digest</Label>
+            <Select
+              value={digest ?? "off"}
+              onValueChange={(value) =>
+                setDigest(value === "off" ? null : (value as DigestFrequency))
+              }
+              disabled={!channels.email}
+            >
+              <SelectTrigger id="digest-frequency" className="sm:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="off">Never</SelectItem>
+                <SelectItem value="daily">Daily</SelectItem>
+                <SelectItem value="weekly">Weekly (Mondays)</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
         </CardContent>
       </Card>
 
       <Card>
         <CardHeader>
-          <CardTitle>Compliance Notifications</CardTitle>
-          <CardDescription>Document expiration alerts</CardDescription>
+          <CardTitle>Quiet Hours</CardTitle>
+          <CardDescription>
+            Hold notifications overnight or outside your shift
+            {policy?.critical_overrides_quiet_hours &&
+              ". Emergency and critical notifications still come through."}
+          </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="flex items-center justify-between">
-            <div className="space-y-0.5">
-              <Label htmlFor="email-compliance">Documents Expiring</Label>
-              <p className="text-sm text-muted-foreground">
-                Alert me when compliance documents are expiring soon
-              </p>
-            </div>
+            <Label htmlFor="quiet-hours-enabled">Enable quiet hours</Label>
             <Switch
-              id="email-compliance"
-              checked={emailComplianceExpiring}
-              onCheckedChange={setEmailComplianceExpiring}
+              id="quiet-hours-enabled"
+              checked={quietHours.enabled}
+              onCheckedChange={(checked) =>
+                setQuietHours((prev) => ({ ...prev, enabled: checked }))
+              }
             />
           </div>
-        </CardContent>
-      </Card>
-
-      <Card>
-        <CardHeader>
-          <CardTitle>Digest Notifications</CardTitle>
-          <CardDescription>Daily summary emails</CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="flex items-center justify-between">
-            <div className="space-y-0.5">
-              <Label htmlFor="email-digest">Daily Digest</Label>
-              <p className="text-sm text-muted-foreground">
-                Receive a daily summary of all activity
-              </p>
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="quiet-hours-start">From</Label>
+              <Input
+                id="quiet-hours-start"
+                type="time"
+                value={quietHours.start}
+                disabled={!quietHours.enabled}
+                onChange={(e) =>
+                  setQuietHours((prev) => ({ ...prev, start: e.target.value }))
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quiet-hours-end">Until</Label>
+              <Input
+                id="quiet-hours-end"
+                type="time"
+                value={quietHours.end}
+                disabled={!quietHours.enabled}
+                onChange={(e) =>
+                  setQuietHours((prev) => ({ ...prev, end: e.target.value }))
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quiet-hours-timezone">Timezone</Label>
+              <Input
+                id="quiet-hours-timezone"
+                value={quietHours.timezone}
+                disabled={!quietHours.enabled}
+                onChange={(e) =>
+                  setQuietHours((prev) => ({
+                    ...prev,
+                    timezone: e.target.value,
+                  }))
+                }
+              />
             </div>
-            <Switch
-              id="email-digest"
-              checked={emailDailyDigest}
-              onCheckedChange={setEmailDailyDigest}
-            />
           </div>
         </CardContent>
       </Card>
 
+      {locations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Locations</CardTitle>
+            <CardDescription>
+              Only notify me about these locations. Leave all unchecked to hear
+              about every location. Tickets and tasks assigned to you always
+              notify you.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-3 sm:grid-cols-2">
+            {locations.map((location) => (
+              <label
+                key={location.id}
+                className="flex items-center gap-2 text-sm"
+              >
+                <Checkbox
+                  checked={locationIds.includes(location.id)}
+                  onCheckedChange={(checked) =>
+                    toggleLocation(location.id, checked === true)
+                  }
+                />
+                {location.name}
+              </label>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       <div className="flex justify-end">
-        <Button onClick={handleSave}>
-          <Save className="h-4 w-4 mr-2" />
+        <Button onClick={handleSave} disabled={updatePreferences.isPending}>
+          {updatePreferences.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="h-4 w-4 mr-2" />
+          )}
           Save Preferences
         </Button>
       </div>
     </div>
   );
 }
+
+function PushDeviceControl() {
+  const push = usePushSubscription();
+
+  if (!push.isSupported) return null;
+
+  const handleClick = async () => {
+    try {
+      if (push.isSubscribed) {
+        await push.unsubscribe();
+        toast.success("Push notifications turned off for this device");
+      } else {
+        await push.subscribe();
+        toast.success("Push notifications turned on for this device");
+      }
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to update push notifications",
+      );
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+      <p className="text-sm text-muted-foreground">
+        {push.isSubscribed
+          ? "This device receives push notifications"
+          : "Push notifications go to devices you enable here"}
+      </p>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleClick}
+        disabled={push.isPending}
+      >
+        {push.isSubscribed ? "Disable on this device" : "Enable on this device"}
+      </Button>
+    </div>
+  );
+}
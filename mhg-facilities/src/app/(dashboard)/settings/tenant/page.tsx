@@ -12,12 +12,28 @@ import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import { Building2, Save, AlertCircle, Loader2 } from "lucide-react";
 import { toast } from "sonner";
 import { useAuth } from "@/hooks/use-auth";
+import {
+  useCostApprovalPolicy,
+  useUpdateCostApprovalPolicy,
+} from "@/hooks/use-tickets";
+import {
+  useNotificationPolicy,
+  useUpdateNotificationPolicy,
+} from "@/hooks/use-notifications";
+import {
+  useAssetReplacementPolicy,
+  useUpdateAssetReplacementPolicy,
+} from "@/hooks/use-assets";
 import { useQueryClient } from "@tanstack/react-query";
 import { AUTH_QUERY_KEY } from "@/hooks/use-auth";
 import api from "@/lib/api-client";
+import type { CostApprovalPolicy } from "@/services/cost-approval.service";
+import type { NotificationPolicy } from "@/services/notification-preference.service";
+import type { AssetReplacementPolicy } from "@/services/asset-scoring.service";
 
 export default function TenantSettingsPage() {
   const { tenant } = useAuth();
@@ -164,6 +180,12 @@ export default function TenantSettingsPage() {
         </CardContent>
       </Card>
 
+      <CostApprovalPolicyCard />
+
+      <AssetReplacementPolicyCard />
+
+      <NotificationPolicyCard />
+
       <div className="flex justify-end">
         <Button
           onClick={handleSave}
@@ -180,3 +202,342 @@ export default function TenantSettingsPage() {
     </div>
   );
 }
+
+const LIMIT_FIELDS = [
+  {
+    key: "auto_approve_limit",
+    label: "Auto-approve up to ($)",
+    hint: "Costs at or below this are approved automatically",
+  },
+  {
+    key: "manager_limit",
+    label: "Managers approve up to ($)",
+    hint: "Managers and above can approve",
+  },
+  {
+    key: "admin_limit",
+    label: "Admins approve up to ($)",
+    hint: "Anything higher needs the owner",
+  },
+] as const;
+
+type LimitKey = (typeof LIMIT_FIELDS)[number]["key"];
+
+function CostApprovalPolicyCard() {
+  const { data: policy } = useCostApprovalPolicy();
+
+  if (!policy) return null;
+
+  // Remount the form when the saved policy changes so it reseeds its fields
+  return (
+    <CostApprovalPolicyForm
+      key={`${policy.is_enabled}-${policy.auto_approve_limit}-${policy.manager_limit}-${policy.admin_limit}`}
+      policy={policy}
+    />
+  );
+}
+
+function CostApprovalPolicyForm({ policy }: { policy: CostApprovalPolicy }) {
+  const updatePolicy = useUpdateCostApprovalPolicy();
+  const [isEnabled, setIsEnabled] = useState(policy.is_enabled);
+  const [limits, setLimits] = useState<Record<LimitKey, string>>({
+    auto_approve_limit: String(policy.auto_approve_limit),
+    manager_limit: String(policy.manager_limit),
+    admin_limit: String(policy.admin_limit),
+  });
+
+  const handleSave = async () => {
+    try {
+      await updatePolicy.mutateAsync({
+        is_enabled: isEnabled,
+        auto_approve_limit: Number(limits.auto_approve_limit),
+        manager_limit: Number(limits.manager_limit),
+        admin_limit: Number(limits.admin_limit),
+      });
+      toast.success("Cost approval policy updated");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update policy",
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Cost Approvals</CardTitle>
+        <CardDescription>
+          Ticket estimates and vendor quotes above the auto-approve limit must
+          be approved before work starts or a vendor is assigned
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="cost-approvals-enabled">Require approval</Label>
+          <Switch
+            id="cost-approvals-enabled"
+            checked={isEnabled}
+            onCheckedChange={setIsEnabled}
+          />
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          {LIMIT_FIELDS.map((field) => (
+            <div key={field.key} className="space-y-2">
+              <Label htmlFor={field.key}>{field.label}</Label>
+              <Input
+                id={field.key}
+                type="number"
+                min={0}
+                step="0.01"
+                value={limits[field.key]}
+                disabled={!isEnabled}
+                onChange={(e) =>
+                  setLimits((prev) => ({
+                    ...prev,
+                    [field.key]: e.target.value,
+                  }))
+                }
+              />
+              <p className="text-sm text-muted-foreground">{field.hint}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            onClick={handleSave}
+            disabled={updatePolicy.isPending}
+          >
+            {updatePolicy.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save Policy
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+const THRESHOLD_FIELDS = [
+  {
+    key: "repair_cost_percent",
+    label: "Repair spend (% of purchase price)",
+    hint: "Flag assets whose repairs have cost this share of what they cost new",
+  },
+  {
+    key: "failure_threshold",
+    label: "Failures",
+    hint: "Flag assets that break down this many times within the window",
+  },
+  {
+    key: "failure_window_days",
+    label: "Failure window (days)",
+    hint: "How far back failures and yearly repair spend are counted",
+  },
+] as const;
+
+type ThresholdKey = (typeof THRESHOLD_FIELDS)[number]["key"];
+
+function AssetReplacementPolicyCard() {
+  const { data: policy } = useAssetReplacementPolicy();
+
+  if (!policy) return null;
+
+  // Remount the form when the saved policy changes so it reseeds its fields
+  return (
+    <AssetReplacementPolicyForm
+      key={`${policy.repair_cost_percent}-${policy.failure_threshold}-${policy.failure_window_days}-${policy.flag_past_lifespan}`}
+      policy={policy}
+    />
+  );
+}
+
+function AssetReplacementPolicyForm({
+  policy,
+}: {
+  policy: AssetReplacementPolicy;
+}) {
+  const updatePolicy = useUpdateAssetReplacementPolicy();
+  const [flagPastLifespan, setFlagPastLifespan] = useState(
+    policy.flag_past_lifespan,
+  );
+  const [thresholds, setThresholds] = useState<Record<ThresholdKey, string>>({
+    repair_cost_percent: String(policy.repair_cost_percent),
+    failure_threshold: String(policy.failure_threshold),
+    failure_window_days: String(policy.failure_window_days),
+  });
+
+  const handleSave = async () => {
+    try {
+      await updatePolicy.mutateAsync({
+        repair_cost_percent: Number(thresholds.repair_cost_percent),
+        failure_threshold: Number(thresholds.failure_threshold),
+        failure_window_days: Number(thresholds.failure_window_days),
+        flag_past_lifespan: flagPastLifespan,
+      });
+      toast.success("Asset replacement policy updated");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update policy",
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Problem Assets</CardTitle>
+        <CardDescription>
+          Assets that pass any of these thresholds are flagged on the dashboard
+          and in the problem assets report with a repair-or-replace
+          recommendation
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-3">
+          {THRESHOLD_FIELDS.map((field) => (
+            <div key={field.key} className="space-y-2">
+              <Label htmlFor={field.key}>{field.label}</Label>
+              <Input
+                id={field.key}
+                type="number"
+                min={1}
+                step="1"
+                value={thresholds[field.key]}
+                onChange={(e) =>
+                  setThresholds((prev) => ({
+                    ...prev,
+                    [field.key]: e.target.value,
+                  }))
+                }
+              />
+              <p className="text-sm text-muted-foreground">{field.hint}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="flag-past-lifespan">
+            Flag assets past their expected lifespan
+          </Label>
+          <Switch
+            id="flag-past-lifespan"
+            checked={flagPastLifespan}
+            onCheckedChange={setFlagPastLifespan}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            onClick={handleSave}
+            disabled={updatePolicy.isPending}
+          >
+            {updatePolicy.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save Policy
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function NotificationPolicyCard() {
+  const { data: policy } = useNotificationPolicy();
+
+  if (!policy) return null;
+
+  // Remount the form when the saved policy changes so it reseeds its fields
+  return (
+    <NotificationPolicyForm
+      key={`${policy.critical_overrides_quiet_hours}-${policy.slack_webhook_url}`}
+      policy={policy}
+    />
+  );
+}
+
+function NotificationPolicyForm({ policy }: { policy: NotificationPolicy }) {
+  const updatePolicy = useUpdateNotificationPolicy();
+  const [criticalOverrides, setCriticalOverrides] = useState(
+    policy.critical_overrides_quiet_hours,
+  );
+  const [slackWebhookUrl, setSlackWebhookUrl] = useState(
+    policy.slack_webhook_url ?? "",
+  );
+
+  const handleSave = async () => {
+    try {
+      await updatePolicy.mutateAsync({
+        critical_overrides_quiet_hours: criticalOverrides,
+        slack_webhook_url: slackWebhookUrl.trim() || null,
+      });
+      toast.success("Notification policy updated");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update policy",
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notifications</CardTitle>
+        <CardDescription>
+          Applies to everyone&apos;s quiet hours and critical alerts
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-0.5">
+            <Label htmlFor="critical-overrides-quiet-hours">
+              Critical alerts ignore quiet hours
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              Emergency and critical-priority tickets and expired compliance
+              documents notify people even during their quiet hours
+            </p>
+          </div>
+          <Switch
+            id="critical-overrides-quiet-hours"
+            checked={criticalOverrides}
+            onCheckedChange={setCriticalOverrides}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="slack-webhook-url">Slack webhook URL</Label>
+          <Input
+            id="slack-webhook-url"
+            type="url"
+            placeholder="https://hooks.slack.com/services/..."
+            value={slackWebhookUrl}
+            onChange={(e) => setSlackWebhookUrl(e.target.value)}
+          />
+          <p className="text-sm text-muted-foreground">
+            Critical alerts are posted to this channel, naming who is on call.
+            Leave blank to turn Slack alerts off.
+          </p>
+        </div>
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={updatePolicy.isPending}>
+            {updatePolicy.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save Notification Policy
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -26,13 +26,20 @@ import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { StatusBadge } from "@/components/tickets/status-badge";
 import { StatusTimeline } from "@/components/tickets/status-timeline";
+import { SLABadge } from "@/components/tickets/sla-badge";
 import { StatusActions } from "@/components/tickets/status-actions";
 import { AssignModal } from "@/components/tickets/assign-modal";
 import { AssignVendorModal } from "@/components/tickets/assign-vendor-modal";
 import { CommentList } from "@/components/tickets/comment-list";
 import { CommentForm } from "@/components/tickets/comment-form";
 import { AttachmentGallery } from "@/components/tickets/attachment-gallery";
-import { AttachmentUpload } from "@/components/tickets/attachment-upload";
+import {
+  AttachmentUpload,
+  type AttachmentUploadType,
+} from "@/components/tickets/attachment-upload";
+import { PMChecklistRunner } from "@/components/tickets/pm-checklist-runner";
+import { CostApprovalCard } from "@/components/tickets/cost-approval-card";
+import { TicketInvoicesCard } from "@/components/invoices/ticket-invoices-card";
 import {
   MapPin,
   Package,
@@ -49,10 +56,12 @@ import {
   Pencil,
   X,
   Check,
+  Phone,
 } from "lucide-react";
 import { ConfirmDialog } from "@/components/ui/confirm-dialog";
 import { PageLoader } from "@/components/ui/loaders";
 import { format } from "date-fns";
+import { toast } from "sonner";
 import { useState } from "react";
 
 interface PageProps {
@@ -140,6 +149,9 @@ export default function TicketDetailPage({ params }: PageProps) {
       await statusAction.mutateAsync({ action, ...data });
     } catch (error) {
       console.error("Error updating status:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update status",
+      );
     }
   };
 
@@ -174,7 +186,7 @@ export default function TicketDetailPage({ params }: PageProps) {
 
   const handleUploadAttachment = async (data: {
     file: File;
-    attachment_type: "photo" | "invoice" | "quote" | "other";
+    attachment_type: AttachmentUploadType;
   }) => {
     try {
       await uploadAttachment.mutateAsync(data);
@@ -344,7 +356,9 @@ export default function TicketDetailPage({ params }: PageProps) {
           </div>
 
           <div className="flex flex-wrap items-center gap-2">
-            <StatusActions
+            {/* needs_approval is left through the cost approval card */}
+            {ticket.status !== "needs_approval" && (
+              <StatusActions
               currentStatus={
                 ticket.status as Database["public"]["Enums"]["ticket_status"]
               }
@@ -361,6 +375,7 @@ export default function TicketDetailPage({ params }: PageProps) {
               onAction={handleStatusAction}
               loading={statusAction.isPending}
             />
+            )}
             {canManage && (
               <>
                 <Button
@@ -375,6 +390,7 @@ export default function TicketDetailPage({ params }: PageProps) {
                   variant="outline"
                   size="sm"
                   onClick={() => setShowVendorModal(true)}
+                  disabled={ticket.status === "needs_approval"}
                 >
                   <Building2 className="mr-2 h-4 w-4" />
                   Assign Vendor
@@ -568,6 +584,20 @@ export default function TicketDetailPage({ params }: PageProps) {
             </CardContent>
           </Card>
 
+          {/* PM checklist (generated PM tickets only) */}
+          <PMChecklistRunner
+            ticketId={id}
+            editable={ticket.status === "in_progress"}
+          />
+
+          {/* Vendor invoices */}
+          <TicketInvoicesCard
+            ticketId={id}
+            vendorId={ticket.vendor_id}
+            userRole={currentUser?.role}
+            vendors={vendorsData || []}
+          />
+
           {/* Tabs for Comments and Attachments */}
           <Tabs defaultValue="comments" className="w-full">
             <TabsList className="grid w-full grid-cols-2">
@@ -649,10 +679,25 @@ export default function TicketDetailPage({ params }: PageProps) {
                   <User className="h-4 w-4 text-gray-500" />
                   <span className="text-gray-700">
                     Submitted by{" "}
-                    {ticket.submitted_by_user?.full_name || "Unknown"}
+                    {ticket.submitted_by_user?.full_name ||
+                      ticket.reporter_name ||
+                      (ticket.submitted_via === "qr" ? "Anonymous" : "Unknown")}
+                    {ticket.submitted_via === "qr" && " via QR code"}
                   </span>
                 </div>
 
+                {ticket.reporter_phone && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <Phone className="h-4 w-4 text-gray-500" />
+                    <a
+                      href={`tel:${ticket.reporter_phone}`}
+                      className="text-gray-700 hover:underline"
+                    >
+                      {ticket.reporter_phone}
+                    </a>
+                  </div>
+                )}
+
                 {ticket.assignee && (
                   <div className="flex items-center gap-2 text-sm">
                     <Users className="h-4 w-4 text-gray-500" />
@@ -688,6 +733,68 @@ export default function TicketDetailPage({ params }: PageProps) {
             </CardContent>
           </Card>
 
+          {/* Cost approval */}
+          <CostApprovalCard
+            ticketId={id}
+            status={ticket.status}
+            estimatedCost={ticket.estimated_cost}
+            userRole={currentUser?.role}
+            userId={currentUser?.id}
+            vendors={vendorsData || []}
+          />
+
+          {/* SLA */}
+          {ticket.sla &&
+            (ticket.sla.response.due_at || ticket.sla.resolution.due_at) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    SLA
+                    <SLABadge
+                      status={ticket.sla.status}
+                      minutesToBreach={ticket.sla.minutes_to_breach}
+                    />
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  {(
+                    [
+                      ["Response", ticket.sla.response],
+                      ["Resolution", ticket.sla.resolution],
+                    ] as const
+                  ).map(([label, target]) =>
+                    target.due_at ? (
+                      <div key={label}>
+                        <p className="font-medium text-gray-500">{label}</p>
+                        <p
+                          className={
+                            target.breached ? "text-red-600" : "text-gray-700"
+                          }
+                        >
+                          Due {format(new Date(target.due_at), "MMM d, h:mm a")}
+                        </p>
+                        {target.met_at && (
+                          <p className="text-gray-500">
+                            Met {format(new Date(target.met_at), "MMM d, h:mm a")}
+                          </p>
+                        )}
+                      </div>
+                    ) : null,
+                  )}
+                  {ticket.sla.escalation_level > 0 && (
+                    <>
+                      <Separator />
+                      <p className="text-red-600">
+                        Escalated to level {ticket.sla.escalation_level}
+                        {ticket.sla.escalated_at &&
+                          ` on ${format(new Date(ticket.sla.escalated_at), "MMM d, h:mm a")}`}
+                      </p>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
           {/* Status Timeline */}
           {ticket.status_history && ticket.status_history.length > 0 && (
             <Card>
@@ -18,6 +18,7 @@ import {
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { StatusBadge } from "@/components/tickets/status-badge";
+import { SLABadge, getRowSLAStatus } from "@/components/tickets/sla-badge";
 import {
   Table,
   TableBody,
@@ -54,6 +55,10 @@ export function TicketsPageContent() {
   const [emergencyFilter, setEmergencyFilter] = useState<string>(() => {
     return searchParams.get("emergency") === "true" ? "emergency" : "all";
   });
+  const [slaFilter, setSlaFilter] = useState<string>("all");
+  const [sortBy, setSortBy] = useState<"created_at" | "time_to_breach">(
+    "created_at",
+  );
   const [page, setPage] = useState(1);
   const pageSize = 50;
 
@@ -66,6 +71,10 @@ export function TicketsPageContent() {
       is_emergency: emergencyFilter === "emergency",
     }),
     ...(debouncedSearch && { search: debouncedSearch }),
+    ...(slaFilter !== "all" && {
+      sla_status: slaFilter as "breached" | "at_risk",
+    }),
+    ...(sortBy !== "created_at" && { sort_by: sortBy }),
     page,
     pageSize,
   };
@@ -93,6 +102,7 @@ export function TicketsPageContent() {
   const kanbanColumns = useMemo(
     () => ({
       submitted: tickets.filter((t) => t.status === "submitted"),
+      needs_approval: tickets.filter((t) => t.status === "needs_approval"),
       in_progress: tickets.filter((t) => t.status === "in_progress"),
       completed: tickets.filter((t) => t.status === "completed"),
       closed: tickets.filter((t) => t.status === "closed"),
@@ -282,6 +292,9 @@ export function TicketsPageContent() {
                 <SelectContent>
                   <SelectItem value="all">All Statuses</SelectItem>
                   <SelectItem value="submitted">Submitted</SelectItem>
+                  <SelectItem value="needs_approval">
+                    Needs Approval
+                  </SelectItem>
                   <SelectItem value="in_progress">In Progress</SelectItem>
                   <SelectItem value="completed">Completed</SelectItem>
                   <SelectItem value="closed">Closed</SelectItem>
@@ -321,6 +334,32 @@ export function TicketsPageContent() {
                   <SelectItem value="regular">Regular Only</SelectItem>
                 </SelectContent>
               </Select>
+
+              <Select value={slaFilter} onValueChange={setSlaFilter}>
+                <SelectTrigger className="w-full sm:w-[180px]">
+                  <SelectValue placeholder="SLA" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All SLA</SelectItem>
+                  <SelectItem value="breached">Breached</SelectItem>
+                  <SelectItem value="at_risk">At Risk</SelectItem>
+                </SelectContent>
+              </Select>
+
+              <Select
+                value={sortBy}
+                onValueChange={(value) =>
+                  setSortBy(value as "created_at" | "time_to_breach")
+                }
+              >
+                <SelectTrigger className="w-full sm:w-[180px]">
+                  <SelectValue placeholder="Sort" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="created_at">Newest First</SelectItem>
+                  <SelectItem value="time_to_breach">Time to Breach</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
 
             <div className="flex gap-2">
@@ -355,6 +394,7 @@ export function TicketsPageContent() {
                   <TableHead>Title</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Priority</TableHead>
+                  <TableHead>SLA</TableHead>
                   <TableHead>Location</TableHead>
                   <TableHead>Created</TableHead>
                   <TableHead>Assignee</TableHead>
@@ -364,7 +404,7 @@ export function TicketsPageContent() {
                 {tickets.length === 0 ? (
                   <TableRow>
                     <TableCell
-                      colSpan={7}
+                      colSpan={8}
                       className="text-center text-gray-500"
                     >
                       No tickets found
@@ -396,6 +436,19 @@ export function TicketsPageContent() {
                           {ticket.priority}
                         </Badge>
                       </TableCell>
+                      <TableCell>
+                        {(() => {
+                          const sla = getRowSLAStatus(ticket);
+                          return sla ? (
+                            <SLABadge
+                              status={sla.status}
+                              minutesToBreach={sla.minutesToBreach}
+                            />
+                          ) : (
+                            <span className="text-gray-400">—</span>
+                          );
+                        })()}
+                      </TableCell>
                       <TableCell>{ticket.location?.name || "N/A"}</TableCell>
                       <TableCell>
                         {format(new Date(ticket.created_at), "MMM d, yyyy")}
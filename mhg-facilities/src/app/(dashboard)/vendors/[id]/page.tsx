@@ -8,6 +8,7 @@ import {
   useDeleteVendor,
   useCreateVendorRating,
 } from "@/hooks/use-vendors";
+import { useInvoices } from "@/hooks/use-invoices";
 import { useQuery } from "@tanstack/react-query";
 import api from "@/lib/api-client";
 import type { Database } from "@/types/database";
@@ -16,6 +17,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { VendorRatingForm } from "@/components/vendors/vendor-rating-form";
+import { InvoiceList } from "@/components/invoices/invoice-list";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import {
   Phone,
@@ -47,6 +49,7 @@ export default function VendorDetailPage({ params }: PageProps) {
 
   const { data: vendor, isLoading: vendorLoading } = useVendor(id);
   const { data: ratingsData } = useVendorRatings(id);
+  const { data: invoices = [] } = useInvoices({ vendor_id: id });
   const deleteVendor = useDeleteVendor();
   const createRating = useCreateVendorRating();
 
@@ -380,6 +383,22 @@ export default function VendorDetailPage({ params }: PageProps) {
             </Card>
           )}
 
+          {/* Invoices */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Invoices ({invoices.length})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <InvoiceList
+                invoices={invoices}
+                userRole={currentUser?.role}
+                vendors={[{ id: vendor.id, name: vendor.name }]}
+                showVendor={false}
+                showTicket
+              />
+            </CardContent>
+          </Card>
+
           {/* Ratings History */}
           {ratings.length > 0 && (
             <Card>
@@ -0,0 +1,59 @@
+"use client";
+
+import { useEffect } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { LogOut } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { PageLoader } from "@/components/ui/loaders";
+
+export default function PortalLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const router = useRouter();
+  const { user, tenant, isLoading, logout } = useAuth();
+
+  // The portal is for vendor users only; everyone else uses the dashboard
+  useEffect(() => {
+    if (user && user.role !== "vendor") {
+      router.replace("/dashboard");
+    }
+  }, [user, router]);
+
+  if (isLoading || !user || user.role !== "vendor") {
+    return <PageLoader />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-white">
+        <div className="mx-auto flex max-w-5xl items-center justify-between px-4 py-3">
+          <Link href="/portal" className="flex flex-col">
+            <span className="text-lg font-bold text-foreground">
+              Vendor Portal
+            </span>
+            {tenant && (
+              <span className="text-sm text-muted-foreground">
+                {tenant.name}
+              </span>
+            )}
+          </Link>
+          <div className="flex items-center gap-3">
+            <span className="hidden text-sm text-gray-600 sm:inline">
+              {user.fullName}
+            </span>
+            <Button variant="ghost" size="sm" onClick={logout}>
+              <LogOut className="mr-2 h-4 w-4" />
+              Sign out
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-5xl p-4 md:p-6">{children}</main>
+    </div>
+  );
+}
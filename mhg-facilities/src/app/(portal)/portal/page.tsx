@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { AlertTriangle, CheckCircle2, Inbox, MapPin } from "lucide-react";
+import { useTickets } from "@/hooks/use-tickets";
+import type { Database } from "@/types/database";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { StatusBadge } from "@/components/tickets/status-badge";
+import { PageLoader } from "@/components/ui/loaders";
+
+type TicketStatus = Database["public"]["Enums"]["ticket_status"];
+
+const PAGE_SIZE = 25;
+
+const STATUS_FILTERS: { value: string; label: string }[] = [
+  { value: "all", label: "All statuses" },
+  { value: "submitted", label: "Submitted" },
+  { value: "in_progress", label: "In Progress" },
+  { value: "on_hold", label: "On Hold" },
+  { value: "needs_approval", label: "Needs Approval" },
+  { value: "completed", label: "Completed" },
+  { value: "closed", label: "Closed" },
+];
+
+export default function VendorPortalPage() {
+  const [status, setStatus] = useState("all");
+  const [page, setPage] = useState(1);
+
+  // The API scopes vendor users to tickets dispatched to their vendor
+  const { data, isLoading } = useTickets({
+    status: status === "all" ? undefined : status,
+    page,
+    pageSize: PAGE_SIZE,
+  });
+
+  const tickets = data?.data ?? [];
+  const totalPages = data?.totalPages ?? 1;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Work Orders</h1>
+          <p className="text-sm text-gray-500">
+            Tickets dispatched to your company
+          </p>
+        </div>
+        <Select
+          value={status}
+          onValueChange={(value) => {
+            setStatus(value);
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="w-full sm:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {STATUS_FILTERS.map((filter) => (
+              <SelectItem key={filter.value} value={filter.value}>
+                {filter.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <PageLoader />
+      ) : tickets.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Inbox className="h-12 w-12 text-gray-400" />
+            <p className="mt-4 text-sm text-gray-500">
+              No work orders to show.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {tickets.map((ticket) => (
+            <Link
+              key={ticket.id}
+              href={`/portal/tickets/${ticket.id}`}
+              className="block"
+            >
+              <Card className="transition-colors hover:bg-gray-50">
+                <CardContent className="flex flex-col gap-2 p-4 sm:flex-row sm:items-center sm:justify-between">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium text-gray-900">
+                        #{ticket.ticket_number}
+                      </span>
+                      <StatusBadge status={ticket.status as TicketStatus} />
+                      {ticket.is_emergency && (
+                        <Badge className="bg-red-100 text-red-800 hover:bg-red-100">
+                          <AlertTriangle className="mr-1 h-3 w-3" />
+                          Emergency
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="truncate text-sm text-gray-700">
+                      {ticket.title}
+                    </p>
+                    <p className="flex items-center gap-1 text-xs text-gray-500">
+                      <MapPin className="h-3 w-3" />
+                      {ticket.location?.name || "N/A"} · Created{" "}
+                      {format(new Date(ticket.created_at), "MMM d, yyyy")}
+                    </p>
+                  </div>
+                  {ticket.vendor_acknowledged_at ? (
+                    <span className="flex items-center gap-1 text-xs text-green-700">
+                      <CheckCircle2 className="h-4 w-4" />
+                      Acknowledged
+                    </span>
+                  ) : (
+                    <Badge variant="outline">Awaiting acknowledgement</Badge>
+                  )}
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage((p) => p - 1)}
+            disabled={page <= 1}
+          >
+            Previous
+          </Button>
+          <span className="text-sm text-gray-500">
+            Page {page} of {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage((p) => p + 1)}
+            disabled={page >= totalPages}
+          >
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+"use client";
+
+import { use } from "react";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import {
+  AlertCircle,
+  AlertTriangle,
+  Calendar,
+  CheckCircle2,
+  ChevronLeft,
+  MapPin,
+  Package,
+} from "lucide-react";
+import {
+  useTicket,
+  useTicketComments,
+  useTicketAttachments,
+  useTicketStatusAction,
+  useAddComment,
+  useUploadAttachment,
+} from "@/hooks/use-tickets";
+import { useAuth } from "@/hooks/use-auth";
+import type { Database } from "@/types/database";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { PageLoader } from "@/components/ui/loaders";
+import { StatusBadge } from "@/components/tickets/status-badge";
+import { CommentList } from "@/components/tickets/comment-list";
+import { CommentForm } from "@/components/tickets/comment-form";
+import { AttachmentGallery } from "@/components/tickets/attachment-gallery";
+import {
+  AttachmentUpload,
+  type AttachmentUploadType,
+} from "@/components/tickets/attachment-upload";
+import { CostApprovalCard } from "@/components/tickets/cost-approval-card";
+import { TicketInvoicesCard } from "@/components/invoices/ticket-invoices-card";
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+// Matches the attachment types the API accepts from vendor users
+const VENDOR_ATTACHMENT_TYPES: AttachmentUploadType[] = [
+  "completion",
+  "progress",
+  "quote",
+  "invoice",
+];
+
+// Ticket states a vendor can acknowledge dispatch from
+const ACKNOWLEDGEABLE_STATES = ["submitted", "in_progress", "on_hold"];
+
+export default function PortalTicketPage({ params }: PageProps) {
+  const { id } = use(params);
+  const router = useRouter();
+  const { user } = useAuth();
+
+  const { data: ticket, isLoading } = useTicket(id);
+  const { data: comments = [] } = useTicketComments(id);
+  const { data: attachments = [] } = useTicketAttachments(id);
+
+  const statusAction = useTicketStatusAction(id);
+  const addComment = useAddComment(id);
+  const uploadAttachment = useUploadAttachment(id);
+
+  const handleAcknowledge = async () => {
+    try {
+      await statusAction.mutateAsync({ action: "acknowledge" });
+      toast.success("Work order acknowledged");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to acknowledge",
+      );
+    }
+  };
+
+  const handleAddComment = async (data: {
+    comment: string;
+    is_internal: boolean;
+  }) => {
+    try {
+      await addComment.mutateAsync({ ...data, is_internal: false });
+    } catch (error) {
+      console.error("Error adding comment:", error);
+    }
+  };
+
+  const handleUploadAttachment = async (data: {
+    file: File;
+    attachment_type: AttachmentUploadType;
+  }) => {
+    try {
+      await uploadAttachment.mutateAsync(data);
+      toast.success("File uploaded");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to upload file",
+      );
+    }
+  };
+
+  if (isLoading) {
+    return <PageLoader />;
+  }
+
+  if (!ticket) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-12">
+          <AlertCircle className="h-12 w-12 text-gray-400" />
+          <h3 className="mt-4 text-lg font-medium text-gray-900">
+            Work order not found
+          </h3>
+          <Button className="mt-6" onClick={() => router.push("/portal")}>
+            <ChevronLeft className="mr-2 h-4 w-4" />
+            Back to Work Orders
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const canAcknowledge =
+    !ticket.vendor_acknowledged_at &&
+    ACKNOWLEDGEABLE_STATES.includes(ticket.status);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => router.push("/portal")}
+          className="mb-4"
+        >
+          <ChevronLeft className="mr-2 h-4 w-4" />
+          Back to Work Orders
+        </Button>
+
+        <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+          <div>
+            <div className="flex flex-wrap items-center gap-3">
+              <h1 className="text-2xl font-bold text-gray-900">
+                #{ticket.ticket_number}
+              </h1>
+              <StatusBadge
+                status={
+                  ticket.status as Database["public"]["Enums"]["ticket_status"]
+                }
+              />
+              {ticket.is_emergency && (
+                <Badge className="bg-red-100 text-red-800 hover:bg-red-100">
+                  <AlertTriangle className="mr-1 h-3 w-3" />
+                  Emergency
+                </Badge>
+              )}
+            </div>
+            <p className="mt-2 text-lg text-gray-700">{ticket.title}</p>
+          </div>
+
+          {canAcknowledge ? (
+            <Button
+              onClick={handleAcknowledge}
+              disabled={statusAction.isPending}
+            >
+              <CheckCircle2 className="mr-2 h-4 w-4" />
+              Acknowledge
+            </Button>
+          ) : (
+            ticket.vendor_acknowledged_at && (
+              <span className="flex items-center gap-1 text-sm text-green-700">
+                <CheckCircle2 className="h-4 w-4" />
+                Acknowledged{" "}
+                {format(
+                  new Date(ticket.vendor_acknowledged_at),
+                  "MMM d, yyyy h:mm a",
+                )}
+              </span>
+            )
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="space-y-6 lg:col-span-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Description</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="whitespace-pre-wrap text-gray-700">
+                {ticket.description || "No description provided."}
+              </p>
+            </CardContent>
+          </Card>
+
+          <TicketInvoicesCard
+            ticketId={id}
+            vendorId={ticket.vendor_id}
+            userRole={user?.role}
+            vendors={ticket.vendor ? [ticket.vendor] : []}
+          />
+
+          <Tabs defaultValue="comments" className="w-full">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="comments">
+                Comments ({comments.length})
+              </TabsTrigger>
+              <TabsTrigger value="attachments">
+                Files ({attachments.length})
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="comments" className="space-y-4">
+              <CommentList
+                comments={
+                  comments as unknown as Parameters<
+                    typeof CommentList
+                  >[0]["comments"]
+                }
+                currentUserId={user?.id}
+              />
+              <CommentForm
+                onSubmit={handleAddComment}
+                placeholder="Send an update to the facilities team..."
+              />
+            </TabsContent>
+
+            <TabsContent value="attachments" className="space-y-4">
+              <AttachmentGallery
+                attachments={
+                  attachments as unknown as Parameters<
+                    typeof AttachmentGallery
+                  >[0]["attachments"]
+                }
+                canDelete={false}
+              />
+              <AttachmentUpload
+                onUpload={handleUploadAttachment}
+                types={VENDOR_ATTACHMENT_TYPES}
+              />
+            </TabsContent>
+          </Tabs>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <p className="text-sm font-medium text-gray-500">Priority</p>
+                <Badge
+                  variant={
+                    ticket.priority === "critical" || ticket.priority === "high"
+                      ? "destructive"
+                      : "secondary"
+                  }
+                  className="mt-1"
+                >
+                  {ticket.priority}
+                </Badge>
+              </div>
+
+              <Separator />
+
+              <div className="space-y-3">
+                <div className="flex items-start gap-2 text-sm">
+                  <MapPin className="mt-0.5 h-4 w-4 text-gray-500" />
+                  <span className="text-gray-700">
+                    {ticket.location?.name || "N/A"}
+                    {ticket.location?.address && (
+                      <span className="block text-gray-500">
+                        {ticket.location.address}
+                      </span>
+                    )}
+                  </span>
+                </div>
+
+                {ticket.asset && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <Package className="h-4 w-4 text-gray-500" />
+                    <span className="text-gray-700">{ticket.asset.name}</span>
+                  </div>
+                )}
+
+                <div className="flex items-center gap-2 text-sm">
+                  <Calendar className="h-4 w-4 text-gray-500" />
+                  <span className="text-gray-700">
+                    Created {format(new Date(ticket.created_at), "MMM d, yyyy")}
+                  </span>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Quotes go through the tenant's cost approval workflow */}
+          <CostApprovalCard
+            ticketId={id}
+            status={ticket.status}
+            estimatedCost={ticket.estimated_cost}
+            userRole={user?.role}
+            userId={user?.id}
+            vendors={[]}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { use, useEffect, useState } from "react";
+import Link from "next/link";
+import { MapPin } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { StatusBadge } from "@/components/tickets/status-badge";
+import { QRReportForm } from "@/components/qr/qr-report-form";
+import api from "@/lib/api-client";
+import type { PublicAssetView } from "@/services/public-asset-report.service";
+
+type AssetViewResponse = PublicAssetView & { is_staff: boolean };
+
+/**
+ * Where an asset's or location's QR label leads. Anyone can see what's
+ * already reported and report a problem without signing in; signed-in
+ * staff can go on to the full page.
+ */
+export default function QRReportPage({
+  params,
+}: {
+  params: Promise<{ code: string }>;
+}) {
+  const { code } = use(params);
+  const [view, setView] = useState<AssetViewResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function loadView() {
+      try {
+        setView(await api.get<AssetViewResponse>(`/api/qr/${code}`));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "QR code not found");
+        console.error(err);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadView();
+  }, [code]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary" />
+      </div>
+    );
+  }
+
+  if (!view) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted px-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>QR Code Not Found</CardTitle>
+            <CardDescription>
+              {error ?? "This QR code isn't linked to an asset or location."}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  const { asset, location, open_tickets } = view;
+
+  return (
+    <div className="min-h-screen bg-muted px-4 py-8">
+      <div className="mx-auto w-full max-w-md space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>{asset?.name ?? location?.name}</CardTitle>
+            <CardDescription className="space-y-1">
+              {asset?.category_name && <span>{asset.category_name}</span>}
+              {asset && location && (
+                <span className="flex items-center gap-1">
+                  <MapPin className="h-3 w-3" />
+                  {location.name}
+                </span>
+              )}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {open_tickets.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No open problems reported.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">
+                  Already reported ({open_tickets.length})
+                </p>
+                <ul className="space-y-2">
+                  {open_tickets.map((ticket) => (
+                    <li
+                      key={ticket.ticket_number}
+                      className="flex items-center justify-between gap-2 text-sm"
+                    >
+                      <span>
+                        #{ticket.ticket_number} - {ticket.title}
+                      </span>
+                      <StatusBadge status={ticket.status} />
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {view.is_staff && asset && (
+              <Button asChild variant="outline" className="w-full min-h-[44px]">
+                <Link href={`/assets/${asset.id}?from=qr`}>
+                  Open Asset Details
+                </Link>
+              </Button>
+            )}
+            {view.is_staff && !asset && location && (
+              <Button asChild variant="outline" className="w-full min-h-[44px]">
+                <Link href={`/settings/locations/${location.id}`}>
+                  Open Location Details
+                </Link>
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Report a Problem</CardTitle>
+            <CardDescription>
+              No account needed. Leave your name and number if you&apos;d like a
+              call back.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <QRReportForm code={code} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { requireAuth } from "@/lib/auth/api-auth";
+import { AssetMeterService } from "@/services/asset-meter.service";
+import { recordMeterReadingSchema } from "@/lib/validations/assets-vendors";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/asset-meters/[id]/readings
+ * Reading history for a meter, newest first
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { error: authError } = await requireAuth();
+    if (authError) return authError;
+
+    const { id } = await params;
+    const limit = Number(request.nextUrl.searchParams.get("limit")) || 50;
+
+    const service = new AssetMeterService();
+    const readings = await service.getReadings(id, Math.min(limit, 200));
+
+    return NextResponse.json({ readings });
+  } catch (error) {
+    console.error("Error fetching meter readings:", error);
+
+    if (error instanceof Error && error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch meter readings" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/asset-meters/[id]/readings
+ * Record a reading from the asset page or QR landing page.
+ * Generates meter-triggered PM work orders the reading makes due.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { user, error: authError } = await requireAuth();
+    if (authError) return authError;
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = recordMeterReadingSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: validationResult.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const service = new AssetMeterService();
+    const result = await service.recordReading(id, {
+      ...validationResult.data,
+      recorded_by: user.id,
+    });
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error("Error recording meter reading:", error);
+
+    if (error instanceof Error) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (
+        error.message.includes("Cannot") ||
+        error.message.includes("Reading must")
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+    }
+
+    return NextResponse.json(
+      { error: "Failed to record meter reading" },
+      { status: 500 },
+    );
+  }
+}
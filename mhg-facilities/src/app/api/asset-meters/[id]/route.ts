@@ -0,0 +1,81 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { requireManager } from "@/lib/auth/api-auth";
+import { AssetMeterService } from "@/services/asset-meter.service";
+import { updateAssetMeterSchema } from "@/lib/validations/assets-vendors";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/asset-meters/[id]
+ * Rename a meter or change its unit
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { error: authError } = await requireManager();
+    if (authError) return authError;
+
+    const { id } = await params;
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = updateAssetMeterSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: validationResult.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const service = new AssetMeterService();
+    const meter = await service.updateMeter(id, validationResult.data);
+
+    return NextResponse.json({ meter });
+  } catch (error) {
+    console.error("Error updating asset meter:", error);
+
+    if (error instanceof Error && error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update asset meter" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/asset-meters/[id]
+ * Soft delete a meter that no active PM schedule uses
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { error: authError } = await requireManager();
+    if (authError) return authError;
+
+    const { id } = await params;
+
+    const service = new AssetMeterService();
+    await service.deleteMeter(id);
+
+    return NextResponse.json({ message: "Meter deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting asset meter:", error);
+
+    if (error instanceof Error) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.message.includes("Cannot")) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+    }
+
+    return NextResponse.json(
+      { error: "Failed to delete asset meter" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { AssetScoringService } from "@/services/asset-scoring.service";
+import { requireAdmin, requireAuth } from "@/lib/auth/api-auth";
+import { assetReplacementPolicySchema } from "@/lib/validations/assets-vendors";
+
+/**
+ * GET /api/asset-replacement-policy
+ * Get the tenant's asset replacement policy (defaults if none saved)
+ */
+export async function GET() {
+  try {
+    const { error } = await requireAuth();
+    if (error) return error;
+
+    const service = new AssetScoringService();
+    const policy = await service.getPolicy();
+
+    return NextResponse.json({ policy });
+  } catch (error) {
+    console.error("Error fetching asset replacement policy:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch asset replacement policy" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PUT /api/asset-replacement-policy
+ * Replace the tenant's asset replacement policy
+ * Requires admin role
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { error } = await requireAdmin();
+    if (error) return error;
+
+    const body = await request.json();
+    const validatedData = assetReplacementPolicySchema.parse(body);
+
+    const service = new AssetScoringService();
+    const policy = await service.updatePolicy(validatedData);
+
+    return NextResponse.json({ policy });
+  } catch (error) {
+    console.error("Error updating asset replacement policy:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Error && error.message.includes("Thresholds")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update asset replacement policy" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { requireAuth } from "@/lib/auth/api-auth";
+import { AssetDepreciationService } from "@/services/asset-depreciation.service";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/assets/[id]/depreciation
+ * Get an asset's depreciation schedule and current book value
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { error: authError } = await requireAuth();
+    if (authError) return authError;
+
+    const { id } = await params;
+
+    const service = new AssetDepreciationService();
+    const schedule = await service.getSchedule(id);
+
+    return NextResponse.json({ schedule });
+  } catch (error) {
+    console.error("Error fetching asset depreciation:", error);
+
+    if (error instanceof Error && error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch asset depreciation" },
+      { status: 500 },
+    );
+  }
+}
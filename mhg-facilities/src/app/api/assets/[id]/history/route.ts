@@ -0,0 +1,42 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { requireAuth } from "@/lib/auth/api-auth";
+import { AssetHistoryService } from "@/services/asset-history.service";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/assets/[id]/history
+ * Get an asset's service history and total cost of ownership
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { error: authError } = await requireAuth();
+    if (authError) return authError;
+
+    const { id } = await params;
+
+    const service = new AssetHistoryService();
+    const [history, costOfOwnership] = await Promise.all([
+      service.getTimeline(id),
+      service.getCostOfOwnership(id),
+    ]);
+
+    return NextResponse.json({
+      history,
+      cost_of_ownership: costOfOwnership,
+    });
+  } catch (error) {
+    console.error("Error fetching asset history:", error);
+
+    if (error instanceof Error && error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch asset history" },
+      { status: 500 },
+    );
+  }
+}
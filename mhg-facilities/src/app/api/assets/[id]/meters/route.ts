@@ -0,0 +1,76 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { requireAuth, requireManager } from "@/lib/auth/api-auth";
+import { AssetMeterService } from "@/services/asset-meter.service";
+import { createAssetMeterSchema } from "@/lib/validations/assets-vendors";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/assets/[id]/meters
+ * List the usage meters on an asset
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { error: authError } = await requireAuth();
+    if (authError) return authError;
+
+    const { id } = await params;
+
+    const service = new AssetMeterService();
+    const meters = await service.getMetersByAsset(id);
+
+    return NextResponse.json({ meters });
+  } catch (error) {
+    console.error("Error fetching asset meters:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch asset meters" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/assets/[id]/meters
+ * Add a meter to an asset (managers and admins)
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { error: authError } = await requireManager();
+    if (authError) return authError;
+
+    const { id } = await params;
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = createAssetMeterSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: validationResult.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const service = new AssetMeterService();
+    const meter = await service.createMeter(id, validationResult.data);
+
+    return NextResponse.json({ meter }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating asset meter:", error);
+
+    if (error instanceof Error) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.message.includes("already exists")) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create asset meter" },
+      { status: 500 },
+    );
+  }
+}
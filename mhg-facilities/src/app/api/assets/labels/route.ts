@@ -0,0 +1,47 @@
+import { ZodError } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+
+import { requireManager } from "@/lib/auth/api-auth";
+import { QRLabelService } from "@/services/qr-label.service";
+import { assetLabelsSchema } from "@/lib/validations/assets-vendors";
+
+/**
+ * POST /api/assets/labels
+ * Print QR labels for the assets matching the filters onto a label sheet
+ * PDF and return a signed download link
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { error: authError } = await requireManager();
+    if (authError) return authError;
+
+    const body = await request.json();
+    const validated = assetLabelsSchema.parse(body);
+
+    const service = new QRLabelService();
+    const sheet = await service.generateAssetLabels(
+      validated.filters,
+      validated.format,
+    );
+
+    return NextResponse.json({ sheet }, { status: 201 });
+  } catch (error: unknown) {
+    console.error("Error generating asset labels:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Error && error.message.startsWith("Cannot")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to generate labels" },
+      { status: 500 },
+    );
+  }
+}
@@ -13,7 +13,7 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    const { user, error } = await requireAuth();
+    const { user, error } = await requireAuth({ allowVendor: true });
     if (error) return error;
 
     const { id } = await params;
@@ -10,7 +10,7 @@ import { requireAuth } from "@/lib/auth/api-auth";
  */
 export async function GET(request: NextRequest) {
   try {
-    const { user, error } = await requireAuth();
+    const { user, error } = await requireAuth({ allowVendor: true });
     if (error) return error;
 
     const deviceAuthService = new DeviceAuthService();
@@ -55,7 +55,7 @@ export async function GET(request: NextRequest) {
  */
 export async function DELETE() {
   try {
-    const { user, error } = await requireAuth();
+    const { user, error } = await requireAuth({ allowVendor: true });
     if (error) return error;
 
     const deviceAuthService = new DeviceAuthService();
@@ -80,6 +80,7 @@ export async function GET() {
             role: user.role,
             phone: user.phone,
             locationId: user.location_id,
+            vendorId: user.vendor_id,
             languagePreference: user.language_preference,
             isActive: user.is_active,
             notificationPreferences: user.notification_preferences,
@@ -91,6 +92,7 @@ export async function GET() {
             role: "admin",
             phone: null,
             locationId: null,
+            vendorId: null,
             languagePreference: "en",
             isActive: true,
             notificationPreferences: { email: true, sms: false, push: false },
@@ -23,7 +23,7 @@ const setPasswordSchema = z
  */
 export async function POST(request: Request) {
   try {
-    const { user, error } = await requireAuth();
+    const { user, error } = await requireAuth({ allowVendor: true });
     if (error) return error;
 
     const body = await request.json();
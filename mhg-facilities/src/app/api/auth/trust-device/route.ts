@@ -11,7 +11,7 @@ import { getPooledSupabaseClient } from "@/lib/supabase/server-pooled";
  */
 export async function POST(request: NextRequest) {
   try {
-    const { user, error } = await requireAuth();
+    const { user, error } = await requireAuth({ allowVendor: true });
     if (error) return error;
 
     // Get auth_user_id from the users table
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { requireAuth } from "@/lib/auth/api-auth";
+import { ComplianceDocumentService } from "@/services/compliance-document.service";
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * GET /api/compliance/[id]/corrective-actions
+ * The document's corrective actions with their tickets
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { error: authError } = await requireAuth();
+    if (authError) return authError;
+
+    const { id } = await context.params;
+
+    const service = new ComplianceDocumentService();
+    const correctiveActions = await service.getCorrectiveActions(id);
+
+    return NextResponse.json({ corrective_actions: correctiveActions });
+  } catch (error) {
+    console.error("Error fetching corrective actions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch corrective actions" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { ZodError } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+
+import { requireManager } from "@/lib/auth/api-auth";
+import { ComplianceRenewalService } from "@/services/compliance-renewal.service";
+import { approveRenewalSchema } from "@/lib/validations/compliance";
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * POST /api/compliance/[id]/renewal/approve
+ * Approve the renewal under review
+ *
+ * Expects multipart/form-data with:
+ * - file: The renewed document
+ * - new_expiration_date: YYYY-MM-DD
+ * - new_issue_date (optional): YYYY-MM-DD
+ * - cost (optional): Final renewal cost, posted to the location's budget
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { user, error: authError } = await requireManager();
+    if (authError) return authError;
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+
+    if (!file) {
+      return NextResponse.json({ error: "File is required" }, { status: 400 });
+    }
+
+    const cost = formData.get("cost") as string | null;
+    const validated = approveRenewalSchema.parse({
+      new_expiration_date: formData.get("new_expiration_date"),
+      new_issue_date: formData.get("new_issue_date") || null,
+      cost: cost ? Number(cost) : null,
+    });
+
+    const service = new ComplianceRenewalService();
+    const renewal = await service.approveRenewal(
+      id,
+      { ...validated, file },
+      user.id,
+    );
+
+    return NextResponse.json({ renewal });
+  } catch (error: unknown) {
+    console.error("Error approving compliance renewal:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Error && error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message.startsWith("Cannot")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to approve compliance renewal",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { ZodError } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+
+import { requireAuth, requireManager } from "@/lib/auth/api-auth";
+import { ComplianceRenewalService } from "@/services/compliance-renewal.service";
+import {
+  startRenewalSchema,
+  advanceRenewalSchema,
+} from "@/lib/validations/compliance";
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * GET /api/compliance/[id]/renewal
+ * The document's latest renewal and its tasks
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { error: authError } = await requireAuth();
+    if (authError) return authError;
+
+    const { id } = await context.params;
+
+    const service = new ComplianceRenewalService();
+    const renewal = await service.getRenewal(id);
+
+    return NextResponse.json({ renewal });
+  } catch (error) {
+    console.error("Error fetching compliance renewal:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch compliance renewal" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/compliance/[id]/renewal
+ * Start a renewal, creating tasks from the document type's checklist
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { user, error: authError } = await requireManager();
+    if (authError) return authError;
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+
+    const body = await request.json();
+    const validated = startRenewalSchema.parse(body);
+
+    const service = new ComplianceRenewalService();
+    const renewal = await service.startRenewal(id, validated, user.id);
+
+    return NextResponse.json({ renewal }, { status: 201 });
+  } catch (error: unknown) {
+    console.error("Error starting compliance renewal:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Error && error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message.startsWith("Cannot")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to start compliance renewal" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PATCH /api/compliance/[id]/renewal
+ * Move the open renewal along: submit, review or cancel
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { user, error: authError } = await requireManager();
+    if (authError) return authError;
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+
+    const body = await request.json();
+    const validated = advanceRenewalSchema.parse(body);
+
+    const service = new ComplianceRenewalService();
+    const renewal = await service.advanceRenewal(
+      id,
+      validated.action,
+      user.id,
+      validated.notes,
+    );
+
+    return NextResponse.json({ renewal });
+  } catch (error: unknown) {
+    console.error("Error updating compliance renewal:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Error && error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message.startsWith("Cannot")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update compliance renewal" },
+      { status: 500 },
+    );
+  }
+}
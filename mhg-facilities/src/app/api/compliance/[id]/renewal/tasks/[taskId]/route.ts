@@ -0,0 +1,55 @@
+import { ZodError } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+
+import { requireAuth } from "@/lib/auth/api-auth";
+import { ComplianceRenewalService } from "@/services/compliance-renewal.service";
+import { updateRenewalTaskSchema } from "@/lib/validations/compliance";
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+    taskId: string;
+  }>;
+}
+
+/**
+ * PATCH /api/compliance/[id]/renewal/tasks/[taskId]
+ * Complete, reopen or reassign a renewal task
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { user, error: authError } = await requireAuth();
+    if (authError) return authError;
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, taskId } = await context.params;
+
+    const body = await request.json();
+    const validated = updateRenewalTaskSchema.parse(body);
+
+    const service = new ComplianceRenewalService();
+    const task = await service.updateTask(id, taskId, validated, user.id);
+
+    return NextResponse.json({ task });
+  } catch (error: unknown) {
+    console.error("Error updating renewal task:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Error && error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update renewal task" },
+      { status: 500 },
+    );
+  }
+}
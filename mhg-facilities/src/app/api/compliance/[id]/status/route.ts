@@ -17,8 +17,11 @@ interface RouteContext {
 
 export async function PATCH(request: NextRequest, context: RouteContext) {
   try {
-    const { error: authError } = await requireAuth();
+    const { user, error: authError } = await requireAuth();
     if (authError) return authError;
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
 
     const { id } = await context.params;
 
@@ -50,8 +53,9 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
         const validated = markAsFailedInspectionSchema.parse(body);
         document = await service.markAsFailedInspection(
           id,
-          validated.corrective_action,
+          validated.corrective_actions,
           validated.reinspection_date,
+          user.id,
         );
         break;
       }
@@ -78,6 +82,14 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       );
     }
 
+    if (error instanceof Error && error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message.startsWith("Cannot")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     return NextResponse.json(
       {
         error:
@@ -0,0 +1,52 @@
+import { ZodError } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+
+import { requireManager } from "@/lib/auth/api-auth";
+import { ComplianceAuditPackageService } from "@/services/compliance-audit-package.service";
+import { auditPackageSchema } from "@/lib/validations/compliance";
+
+/**
+ * POST /api/compliance/audit-package
+ * Build an inspector-ready ZIP for a location and date range and return a
+ * signed download link
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { error: authError } = await requireManager();
+    if (authError) return authError;
+
+    const body = await request.json();
+    const validated = auditPackageSchema.parse(body);
+
+    const service = new ComplianceAuditPackageService();
+    const auditPackage = await service.generatePackage(
+      validated.location_id,
+      validated.from_date,
+      validated.to_date,
+    );
+
+    return NextResponse.json({ package: auditPackage }, { status: 201 });
+  } catch (error: unknown) {
+    console.error("Error generating audit package:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Error && error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message.startsWith("Cannot")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to generate audit package" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { requireAuth } from "@/lib/auth/api-auth";
+import { validateFileUpload } from "@/lib/validations/file-upload";
+import { ComplianceMetadataService } from "@/services/compliance-metadata.service";
+
+/**
+ * POST /api/compliance/metadata
+ * Suggest document details from an uploaded PDF's text layer
+ *
+ * Expects multipart/form-data with:
+ * - file: The PDF
+ * - document_type_id (optional): Use this type's patterns first
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { error: authError } = await requireAuth();
+    if (authError) return authError;
+
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+    const documentTypeId = formData.get("document_type_id") as string | null;
+
+    if (!file) {
+      return NextResponse.json({ error: "File is required" }, { status: 400 });
+    }
+
+    const validation = validateFileUpload(file, "document");
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    if (file.type !== "application/pdf") {
+      return NextResponse.json(
+        { error: "Only PDFs can be scanned for details" },
+        { status: 400 },
+      );
+    }
+
+    const service = new ComplianceMetadataService();
+    const extraction = await service.extractMetadata(
+      new Uint8Array(await file.arrayBuffer()),
+      documentTypeId || null,
+    );
+
+    return NextResponse.json(extraction);
+  } catch (error: unknown) {
+    console.error("Error extracting compliance metadata:", error);
+
+    if (error instanceof Error && error.message.startsWith("Cannot")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to read document" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { CostApprovalService } from "@/services/cost-approval.service";
+import { requireAdmin, requireAuth } from "@/lib/auth/api-auth";
+import { costApprovalPolicySchema } from "@/lib/validations/ticket";
+
+/**
+ * GET /api/cost-approval-policy
+ * Get the tenant's cost approval policy (defaults if none saved)
+ */
+export async function GET() {
+  try {
+    const { error } = await requireAuth();
+    if (error) return error;
+
+    const service = new CostApprovalService();
+    const policy = await service.getPolicy();
+
+    return NextResponse.json({ policy });
+  } catch (error) {
+    console.error("Error fetching cost approval policy:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch cost approval policy" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PUT /api/cost-approval-policy
+ * Replace the tenant's cost approval policy
+ * Requires admin role
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { error } = await requireAdmin();
+    if (error) return error;
+
+    const body = await request.json();
+    const validatedData = costApprovalPolicySchema.parse(body);
+
+    const service = new CostApprovalService();
+    const policy = await service.updatePolicy(validatedData);
+
+    return NextResponse.json({ policy });
+  } catch (error) {
+    console.error("Error updating cost approval policy:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Error && error.message.includes("Limits")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update cost approval policy" },
+      { status: 500 },
+    );
+  }
+}
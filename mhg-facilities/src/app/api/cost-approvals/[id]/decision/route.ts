@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { CostApprovalService } from "@/services/cost-approval.service";
+import { requireManager } from "@/lib/auth/api-auth";
+import { costApprovalDecisionSchema } from "@/lib/validations/ticket";
+
+/**
+ * POST /api/cost-approvals/[id]/decision
+ * Approve or deny a pending cost. The approver's role must cover the
+ * amount under the tenant's approval policy.
+ *
+ * Body:
+ * - decision: 'approve' | 'deny'
+ * - notes: required explanation, shown in the ticket's status history
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { user, error } = await requireManager();
+    if (error) return error;
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { decision, notes } = costApprovalDecisionSchema.parse(body);
+
+    const service = new CostApprovalService();
+    const result =
+      decision === "approve"
+        ? await service.approve(id, user.id, notes)
+        : await service.deny(id, user.id, notes);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error deciding cost approval:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Error && error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message.includes("permission")) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message.includes("Cannot") || error.message.includes("required"))
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to decide cost approval",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,17 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
-import { ComplianceDocumentService } from "@/services/compliance-document.service";
-import { NotificationService } from "@/services/notification.service";
+import { ComplianceAlertService } from "@/services/compliance-alert.service";
+import { TenantService } from "@/services/tenant.service";
 
 /**
  * Cron job to send compliance document expiration alerts
- * Runs daily to check for documents expiring within warning thresholds
+ * Runs daily for each active tenant to check documents against their
+ * alert schedules
  *
- * Alert thresholds:
- * - 30 days before expiration
- * - 14 days before expiration
- * - 7 days before expiration
- * - 1 day before expiration
- * - On expiration day
+ * Alert thresholds come from the document's alert_days, falling back to its
+ * type's default_alert_days (90/60/30/14/7 when neither is set). Each
+ * threshold is sent once; expired documents are alerted daily until renewed.
+ *
+ * Recipients escalate as the deadline nears:
+ * - Managers of the document's locations
+ * - Plus admins within 14 days
+ * - Plus the owner within 1 day and once expired
+ *
+ * Failed inspections also get reminders 7, 3 and 1 days before their
+ * reinspection date, then daily until the failure is cleared.
+ *
+ * Alerts are queued in the notification outbox and sent by its worker.
  *
  * Vercel Cron Schedule: 0 8 * * * (Daily at 8 AM UTC)
  */
@@ -31,102 +39,44 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const complianceService = new ComplianceDocumentService();
-    const notificationService = new NotificationService();
+    const alertService = new ComplianceAlertService();
+    const tenantService = new TenantService();
 
-    // Get documents expiring at various thresholds (parallel fetch)
-    const [
-      expiringIn30Days,
-      expiringIn14Days,
-      expiringIn7Days,
-      expiringIn1Day,
-      expiredToday,
-    ] = await Promise.all([
-      complianceService.getExpiringDocuments(30),
-      complianceService.getExpiringDocuments(14),
-      complianceService.getExpiringDocuments(7),
-      complianceService.getExpiringDocuments(1),
-      complianceService.getExpiringDocuments(0),
+    const run = await tenantService.forEachActiveTenant(async () => [
+      await alertService.runScheduledAlerts(),
+      await alertService.runReinspectionReminders(),
     ]);
+    const runs = run.results.flatMap(({ result }) => result);
 
-    // Type for expiring document
-    type ExpiringDoc = Awaited<
-      ReturnType<ComplianceDocumentService["getExpiringDocuments"]>
-    >[number];
-
-    // Combine all documents that need alerts
-    const allExpiringDocs = [
-      ...expiringIn30Days.map((doc: ExpiringDoc) => ({ doc, days: 30 })),
-      ...expiringIn14Days.map((doc: ExpiringDoc) => ({ doc, days: 14 })),
-      ...expiringIn7Days.map((doc: ExpiringDoc) => ({ doc, days: 7 })),
-      ...expiringIn1Day.map((doc: ExpiringDoc) => ({ doc, days: 1 })),
-      ...expiredToday.map((doc: ExpiringDoc) => ({ doc, days: 0 })),
-    ];
+    const checked = runs.reduce((total, r) => total + r.checked, 0);
+    const sent = runs.flatMap((r) => r.sent);
+    const errors = runs.flatMap((r) => r.errors);
 
-    // Deduplicate by document ID (a document might appear in multiple threshold lists)
-    const uniqueDocs = new Map<string, { doc: ExpiringDoc; days: number }>();
-    for (const item of allExpiringDocs) {
-      // Keep the smallest days value (most urgent)
-      if (
-        !uniqueDocs.has(item.doc.id) ||
-        uniqueDocs.get(item.doc.id)!.days > item.days
-      ) {
-        uniqueDocs.set(item.doc.id, item);
-      }
+    for (const alert of sent) {
+      console.log(
+        `Queued ${alert.alert_type} compliance alert for document ${alert.document_id} (${alert.document_name}) to ${alert.recipient_count} ${alert.recipient_level} recipients`,
+      );
     }
-
-    const alertsSent = [];
-    const errors = [];
-
-    // Get managers and admins who should be notified (parallel fetch)
-    const [managers, admins] = await Promise.all([
-      notificationService.getManagers(),
-      notificationService.getAdminUsers(),
-    ]);
-    const recipients = [...new Set([...managers, ...admins])]; // Dedupe
-
-    // Send alerts for each expiring document
-    for (const { doc, days } of uniqueDocs.values()) {
-      try {
-        if (recipients.length > 0) {
-          await notificationService.notifyComplianceExpiring({
-            document: doc,
-            recipients,
-            daysUntilExpiration: days,
-          });
-
-          alertsSent.push({
-            documentId: doc.id,
-            documentName: doc.name,
-            daysUntilExpiration: days,
-            recipientCount: recipients.length,
-          });
-
-          console.log(
-            `Sent compliance alert for document ${doc.id} (${doc.name}): expires in ${days} days`,
-          );
-        }
-      } catch (error) {
-        const errorMsg =
-          error instanceof Error ? error.message : "Unknown error";
-        errors.push({ documentId: doc.id, error: errorMsg });
-        console.error(`Failed to send alert for document ${doc.id}:`, error);
-      }
+    for (const { document_id, error } of errors) {
+      console.error(
+        `Failed to queue alert for document ${document_id}:`,
+        error,
+      );
+    }
+    for (const { tenant_id, error } of run.errors) {
+      console.error(
+        `Failed to run compliance alerts for tenant ${tenant_id}:`,
+        error,
+      );
     }
 
     return NextResponse.json({
       success: true,
-      alertsSent: alertsSent.length,
-      alerts: alertsSent.slice(0, 10), // Return first 10 for visibility
+      alertsSent: sent.length,
+      alerts: sent.slice(0, 10), // Return first 10 for visibility
       errors: errors.length > 0 ? errors : undefined,
-      breakdown: {
-        expiring30Days: expiringIn30Days.length,
-        expiring14Days: expiringIn14Days.length,
-        expiring7Days: expiringIn7Days.length,
-        expiring1Day: expiringIn1Day.length,
-        expiredToday: expiredToday.length,
-      },
-      message: `Sent ${alertsSent.length} compliance alerts from ${uniqueDocs.size} expiring documents`,
+      tenantErrors: run.errors.length > 0 ? run.errors : undefined,
+      message: `Sent ${sent.length} compliance alerts from ${checked} documents checked`,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ComplianceDocumentService } from "@/services/compliance-document.service";
+import { TenantService } from "@/services/tenant.service";
+
+/**
+ * Cron job to keep compliance document statuses in line with their dates
+ * Runs nightly for each active tenant, before the compliance alerts job
+ *
+ * - active / expiring_soon / expired follow the expiration date, using the
+ *   document type's expiring_soon_days (30 when unset)
+ * - Missed conditional deadlines and reinspection dates are flagged
+ *
+ * Every automatic change is recorded in compliance_status_history.
+ *
+ * Vercel Cron Schedule: 0 7 * * * (Daily at 7 AM UTC)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify CRON_SECRET is configured
+    if (!process.env.CRON_SECRET) {
+      return NextResponse.json(
+        { error: "CRON_SECRET not configured" },
+        { status: 500 },
+      );
+    }
+
+    // Verify this is a legitimate cron request
+    const authHeader = request.headers.get("authorization");
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const complianceService = new ComplianceDocumentService();
+    const tenantService = new TenantService();
+
+    const run = await tenantService.forEachActiveTenant(() =>
+      complianceService.reconcileStatuses(),
+    );
+    const checked = run.results.reduce(
+      (total, { result }) => total + result.checked,
+      0,
+    );
+    const transitions = run.results.flatMap(({ result }) => result.transitions);
+    const errors = run.results.flatMap(({ result }) => result.errors);
+
+    for (const transition of transitions) {
+      console.log(
+        `Compliance document ${transition.document_id} (${transition.document_name}): ${transition.reason} (${transition.from_status} -> ${transition.to_status})`,
+      );
+    }
+    for (const { document_id, error } of errors) {
+      console.error(`Failed to reconcile document ${document_id}:`, error);
+    }
+    for (const { tenant_id, error } of run.errors) {
+      console.error(`Failed to reconcile tenant ${tenant_id}:`, error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      checked,
+      transitions: transitions.length,
+      changes: transitions.slice(0, 10), // Return first 10 for visibility
+      errors: errors.length > 0 ? errors : undefined,
+      tenantErrors: run.errors.length > 0 ? run.errors : undefined,
+      message: `Applied ${transitions.length} status changes across ${checked} documents`,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Compliance status cron job error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
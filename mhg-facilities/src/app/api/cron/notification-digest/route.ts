@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { NotificationPreferenceService } from "@/services/notification-preference.service";
+import { NotificationOutboxService } from "@/services/notification-outbox.service";
+import { NotificationDigestService } from "@/services/notification-digest.service";
+import { TenantService } from "@/services/tenant.service";
+import type { DigestFrequency } from "@/types";
+
+/**
+ * Cron job to queue daily and weekly digest emails
+ * Runs daily for each active tenant; weekly digests go out on Mondays.
+ * Each subscriber gets one digest message in the notification outbox,
+ * compiled when the worker sends it.
+ *
+ * Vercel Cron Schedule: 0 11 * * * (Daily at 11 AM UTC)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify CRON_SECRET is configured
+    if (!process.env.CRON_SECRET) {
+      return NextResponse.json(
+        { error: "CRON_SECRET not configured" },
+        { status: 500 },
+      );
+    }
+
+    // Verify this is a legitimate cron request
+    const authHeader = request.headers.get("authorization");
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const preferenceService = new NotificationPreferenceService();
+    const outboxService = new NotificationOutboxService();
+    const digestService = new NotificationDigestService();
+    const tenantService = new TenantService();
+
+    const now = new Date();
+    const frequencies: DigestFrequency[] =
+      now.getUTCDay() === 1 ? ["daily", "weekly"] : ["daily"];
+
+    const queued: Record<DigestFrequency, number> = { daily: 0, weekly: 0 };
+    const errors = [];
+
+    const run = await tenantService.forEachActiveTenant(async (tenantId) => {
+      for (const frequency of frequencies) {
+        const since = digestService
+          .getPeriodStart(frequency, now)
+          .toISOString();
+        const subscribers =
+          await preferenceService.findDigestSubscribers(frequency);
+
+        // Vendors follow their work in the portal
+        for (const user of subscribers.filter((u) => u.role !== "vendor")) {
+          try {
+            await outboxService.enqueue("digest", {
+              user_id: user.id,
+              frequency,
+              since,
+            });
+            queued[frequency]++;
+          } catch (error) {
+            const errorMsg =
+              error instanceof Error ? error.message : "Unknown error";
+            errors.push({
+              tenantId,
+              userId: user.id,
+              frequency,
+              error: errorMsg,
+            });
+            console.error(`Failed to queue ${frequency} digest:`, error);
+          }
+        }
+      }
+    });
+
+    for (const { tenant_id, error } of run.errors) {
+      errors.push({ tenantId: tenant_id, error });
+      console.error(`Failed to queue digests for tenant ${tenant_id}:`, error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      queued,
+      errors: errors.length > 0 ? errors : undefined,
+      message: `Queued ${queued.daily} daily and ${queued.weekly} weekly digests`,
+      timestamp: now.toISOString(),
+    });
+  } catch (error) {
+    console.error("Notification digest cron job error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
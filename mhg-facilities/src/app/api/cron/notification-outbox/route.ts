@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { NotificationOutboxService } from "@/services/notification-outbox.service";
+
+/**
+ * Cron job to send queued notifications
+ * Runs every minute; each run claims a batch of due messages from the
+ * notification outbox across all tenants and sends each one scoped to its
+ * own tenant. Failed messages are retried with exponential
+ * backoff (1, 2, 4, 8 minutes) and marked failed after their last attempt.
+ *
+ * Vercel Cron Schedule: * * * * * (Every minute)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify CRON_SECRET is configured
+    if (!process.env.CRON_SECRET) {
+      return NextResponse.json(
+        { error: "CRON_SECRET not configured" },
+        { status: 500 },
+      );
+    }
+
+    // Verify this is a legitimate cron request
+    const authHeader = request.headers.get("authorization");
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const outboxService = new NotificationOutboxService();
+    const result = await outboxService.processDue();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      message: `Sent ${result.sent} of ${result.processed} queued notifications`,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Notification outbox cron job error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
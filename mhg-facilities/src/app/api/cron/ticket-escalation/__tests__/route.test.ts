@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { GET } from "../route";
+import { runWithTenant } from "@/lib/tenant/context";
+import type { EscalationRunResult } from "@/services/ticket-sla.service";
+
+const { escalateBreachedTickets, findActiveIds } = vi.hoisted(() => ({
+  escalateBreachedTickets: vi.fn(),
+  findActiveIds: vi.fn(),
+}));
+
+vi.mock("@/services/ticket-sla.service", () => ({
+  TicketSLAService: class {
+    escalateBreachedTickets = escalateBreachedTickets;
+  },
+}));
+
+vi.mock("@/dao/tenant.dao", () => ({
+  TenantDAO: class {
+    findActiveIds = findActiveIds;
+  },
+}));
+
+describe("GET /api/cron/ticket-escalation", () => {
+  // The tenant DAO calls are scoped to, null outside runWithTenant
+  let scopedTenant: string | null = null;
+
+  const request = () =>
+    new NextRequest("http://localhost/api/cron/ticket-escalation", {
+      headers: { authorization: "Bearer test-secret" },
+    });
+
+  beforeEach(() => {
+    vi.stubEnv("CRON_SECRET", "test-secret");
+    vi.mocked(runWithTenant).mockImplementation(async (tenantId, fn) => {
+      scopedTenant = tenantId;
+      try {
+        return await fn();
+      } finally {
+        scopedTenant = null;
+      }
+    });
+    escalateBreachedTickets.mockReset();
+    findActiveIds.mockReset();
+  });
+
+  it("should escalate each active tenant's tickets in that tenant's scope", async () => {
+    findActiveIds.mockResolvedValue(["tenant-1", "tenant-2", "tenant-3"]);
+    escalateBreachedTickets.mockImplementation(
+      async (): Promise<EscalationRunResult> => {
+        if (scopedTenant === "tenant-3") throw new Error("Query timed out");
+        return {
+          checked: 2,
+          escalated: [
+            {
+              ticketId: `ticket-${scopedTenant}`,
+              slaType: "response",
+              level: 1,
+              notifiedCount: 1,
+            },
+          ],
+          errors: [],
+        };
+      },
+    );
+
+    const response = await GET(request());
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(escalateBreachedTickets).toHaveBeenCalledTimes(3);
+    expect(body.escalatedCount).toBe(2);
+    expect(body.escalated.map((e: { ticketId: string }) => e.ticketId)).toEqual(
+      ["ticket-tenant-1", "ticket-tenant-2"],
+    );
+    expect(body.message).toBe("Escalated 2 tickets from 4 breached tickets");
+    expect(body.tenantErrors).toEqual([
+      { tenant_id: "tenant-3", error: "Query timed out" },
+    ]);
+  });
+
+  it("should reject requests without the cron secret", async () => {
+    const response = await GET(
+      new NextRequest("http://localhost/api/cron/ticket-escalation"),
+    );
+
+    expect(response.status).toBe(401);
+    expect(findActiveIds).not.toHaveBeenCalled();
+  });
+});
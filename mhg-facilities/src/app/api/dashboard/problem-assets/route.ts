@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AssetScoringService } from "@/services/asset-scoring.service";
+import { requireAuth } from "@/lib/auth/api-auth";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requireAuth();
+    if (authError) return authError;
+
+    const searchParams = request.nextUrl.searchParams;
+    const limit = parseInt(searchParams.get("limit") || "5");
+
+    const service = new AssetScoringService();
+    const problems = await service.getProblemAssets();
+
+    return NextResponse.json({
+      assets: problems.slice(0, limit),
+      total: problems.length,
+    });
+  } catch (error) {
+    console.error("Dashboard problem assets error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch problem assets" },
+      { status: 500 },
+    );
+  }
+}
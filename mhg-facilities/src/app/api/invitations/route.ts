@@ -64,6 +64,7 @@ export async function POST(request: NextRequest) {
       email: validation.data.email,
       role: validation.data.role,
       location_id: validation.data.location_id,
+      vendor_id: validation.data.vendor_id,
       invited_by: user!.id,
     });
 
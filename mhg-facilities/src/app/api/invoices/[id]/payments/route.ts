@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { InvoiceService } from "@/services/invoice.service";
+import { requireManager } from "@/lib/auth/api-auth";
+import { recordInvoicePaymentSchema } from "@/lib/validations/invoice";
+
+/**
+ * POST /api/invoices/[id]/payments
+ * Record a full or partial payment against an approved invoice
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { user, error } = await requireManager();
+    if (error) return error;
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const validated = recordInvoicePaymentSchema.parse(body);
+
+    const service = new InvoiceService();
+    const invoice = await service.recordPayment(id, {
+      ...validated,
+      recorded_by: user.id,
+    });
+
+    return NextResponse.json({ invoice }, { status: 201 });
+  } catch (error) {
+    console.error("Error recording invoice payment:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Error && error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message.includes("Cannot") ||
+        error.message.includes("exceeds") ||
+        error.message.includes("must be"))
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to record payment" },
+      { status: 500 },
+    );
+  }
+}
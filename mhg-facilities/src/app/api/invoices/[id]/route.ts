@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { InvoiceService } from "@/services/invoice.service";
+import { TicketAttachmentService } from "@/services/ticket-attachment.service";
+import { requireAuth, requireManager } from "@/lib/auth/api-auth";
+import { updateInvoiceSchema } from "@/lib/validations/invoice";
+
+/**
+ * GET /api/invoices/[id]
+ * Invoice with line items, payments and attachment, plus a short-lived
+ * signed URL for the invoice PDF
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { user, error: authError } = await requireAuth({
+      allowVendor: true,
+    });
+    if (authError) return authError;
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const service = new InvoiceService();
+    const invoice = await service.getInvoice(id);
+
+    if (user.role === "vendor" && invoice.vendor_id !== user.vendor_id) {
+      return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
+    }
+
+    const attachment_url = invoice.attachment_id
+      ? await new TicketAttachmentService()
+          .getSignedUrl(invoice.attachment_id)
+          .catch(() => null)
+      : null;
+
+    return NextResponse.json({ invoice, attachment_url });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    console.error("Error fetching invoice:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch invoice" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PATCH /api/invoices/[id]
+ * Correct a pending or disputed invoice. Disputed invoices return to
+ * pending.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { user, error: authError } = await requireAuth({
+      allowVendor: true,
+    });
+    if (authError) return authError;
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const validated = updateInvoiceSchema.parse(body);
+
+    const service = new InvoiceService();
+
+    // Vendor users can only correct their own invoices
+    if (user.role === "vendor") {
+      const existing = await service.getInvoice(id);
+      if (existing.vendor_id !== user.vendor_id) {
+        return NextResponse.json(
+          { error: "Invoice not found" },
+          { status: 404 },
+        );
+      }
+    }
+    const invoice = await service.updateInvoice(id, validated);
+
+    return NextResponse.json({ invoice });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.message.includes("already exists")) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (
+        error.message.includes("Cannot") ||
+        error.message.includes("cannot") ||
+        error.message.includes("required")
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+    }
+
+    console.error("Error updating invoice:", error);
+    return NextResponse.json(
+      { error: "Failed to update invoice" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/invoices/[id]
+ * Remove an invoice entered in error (pending or disputed only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { error: authError } = await requireManager();
+    if (authError) return authError;
+
+    const { id } = await params;
+    const service = new InvoiceService();
+    await service.deleteInvoice(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.message.includes("Cannot")) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+    }
+
+    console.error("Error deleting invoice:", error);
+    return NextResponse.json(
+      { error: "Failed to delete invoice" },
+      { status: 500 },
+    );
+  }
+}
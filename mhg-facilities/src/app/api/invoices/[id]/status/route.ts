@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { InvoiceService } from "@/services/invoice.service";
+import { requireManager } from "@/lib/auth/api-auth";
+import { invoiceStatusActionSchema } from "@/lib/validations/invoice";
+
+/**
+ * POST /api/invoices/[id]/status
+ * Approve or dispute an invoice
+ *
+ * Body:
+ * - action: 'approve' | 'dispute'
+ * - reason: required when disputing
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { user, error } = await requireManager();
+    if (error) return error;
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const action = invoiceStatusActionSchema.parse(body);
+
+    const service = new InvoiceService();
+    const invoice =
+      action.action === "approve"
+        ? await service.approveInvoice(id, user.id)
+        : await service.disputeInvoice(id, user.id, action.reason);
+
+    return NextResponse.json({ invoice });
+  } catch (error) {
+    console.error("Error updating invoice status:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Error && error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message.includes("Cannot") || error.message.includes("required"))
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update invoice status" },
+      { status: 500 },
+    );
+  }
+}
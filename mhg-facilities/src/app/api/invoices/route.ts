@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { InvoiceService } from "@/services/invoice.service";
+import { requireAuth, requireTicketAccess } from "@/lib/auth/api-auth";
+import {
+  createInvoiceSchema,
+  invoiceFiltersSchema,
+} from "@/lib/validations/invoice";
+
+/**
+ * GET /api/invoices
+ * List invoices, optionally filtered by vendor_id, ticket_id or status
+ * Vendor users are limited to their own vendor's invoices
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError } = await requireAuth({
+      allowVendor: true,
+    });
+    if (authError) return authError;
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const filters = invoiceFiltersSchema.parse({
+      // Vendor users only see their own vendor's invoices
+      vendor_id:
+        user.role === "vendor"
+          ? user.vendor_id
+          : searchParams.get("vendor_id") || undefined,
+      ticket_id: searchParams.get("ticket_id") || undefined,
+      status: searchParams.get("status") || undefined,
+    });
+
+    const service = new InvoiceService();
+    const invoices = await service.getInvoices(filters);
+
+    return NextResponse.json({ invoices });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    console.error("Error fetching invoices:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch invoices" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/invoices
+ * Enter a vendor invoice against a ticket. Starts as pending.
+ * Vendor users can submit invoices on tickets dispatched to them.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await requireAuth({
+      allowVendor: true,
+    });
+    if (authError) return authError;
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validated = createInvoiceSchema.parse(body);
+
+    // Vendor users submit invoices for their own vendor on their own tickets
+    if (user.role === "vendor") {
+      const { error: ticketError } = await requireTicketAccess(
+        validated.ticket_id,
+      );
+      if (ticketError) return ticketError;
+      validated.vendor_id = user.vendor_id ?? "";
+    }
+
+    const service = new InvoiceService();
+    const invoice = await service.createInvoice({
+      ...validated,
+      created_by: user.id,
+    });
+
+    return NextResponse.json({ invoice }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.message.includes("already exists")) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      if (error.message.includes("required")) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+    }
+
+    console.error("Error creating invoice:", error);
+    return NextResponse.json(
+      { error: "Failed to create invoice" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { ZodError } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+
+import { requireManager } from "@/lib/auth/api-auth";
+import { QRLabelService } from "@/services/qr-label.service";
+import { locationLabelsSchema } from "@/lib/validations/location";
+
+/**
+ * POST /api/locations/labels
+ * Print "report a problem" QR labels for locations onto a label sheet PDF
+ * and return a signed download link. Locations without a QR code get one.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { error: authError } = await requireManager();
+    if (authError) return authError;
+
+    const body = await request.json();
+    const validated = locationLabelsSchema.parse(body);
+
+    const service = new QRLabelService();
+    const sheet = await service.generateLocationLabels(
+      validated.location_ids,
+      validated.format,
+    );
+
+    return NextResponse.json({ sheet }, { status: 201 });
+  } catch (error: unknown) {
+    console.error("Error generating location labels:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Error && error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message.startsWith("Cannot")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to generate labels" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { NotificationOutboxService } from "@/services/notification-outbox.service";
+import { requireAdmin } from "@/lib/auth/api-auth";
+
+/**
+ * POST /api/notification-outbox/[id]/resend
+ * Queue a sent, failed or bounced notification to go out again
+ * Admin only
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { error: authError } = await requireAdmin();
+    if (authError) return authError;
+
+    const { id } = await params;
+    const service = new NotificationOutboxService();
+    const message = await service.resend(id);
+
+    return NextResponse.json({ message });
+  } catch (error) {
+    console.error("Error resending notification:", error);
+
+    if (error instanceof Error && error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message.includes("Cannot")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to resend notification" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { NotificationOutboxService } from "@/services/notification-outbox.service";
+import { requireAdmin } from "@/lib/auth/api-auth";
+
+/**
+ * GET /api/notification-outbox/[id]
+ * Get a notification with its delivery log
+ * Admin only
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { error: authError } = await requireAdmin();
+    if (authError) return authError;
+
+    const { id } = await params;
+    const service = new NotificationOutboxService();
+    const message = await service.getMessage(id);
+
+    return NextResponse.json({ message });
+  } catch (error) {
+    console.error("Error fetching notification:", error);
+
+    if (error instanceof Error && error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch notification" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { NotificationOutboxService } from "@/services/notification-outbox.service";
+import { requireAdmin } from "@/lib/auth/api-auth";
+import { notificationOutboxFiltersSchema } from "@/lib/validations/user";
+
+/**
+ * GET /api/notification-outbox
+ * List recent notifications, optionally filtered by status or event
+ * Admin only
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requireAdmin();
+    if (authError) return authError;
+
+    const searchParams = request.nextUrl.searchParams;
+    const filters = notificationOutboxFiltersSchema.parse({
+      status: searchParams.get("status") || undefined,
+      event: searchParams.get("event") || undefined,
+    });
+
+    const service = new NotificationOutboxService();
+    const messages = await service.getMessages(filters);
+
+    return NextResponse.json({ messages });
+  } catch (error) {
+    console.error("Error fetching notification outbox:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch notifications" },
+      { status: 500 },
+    );
+  }
+}
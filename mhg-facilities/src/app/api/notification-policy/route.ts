@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { NotificationPreferenceService } from "@/services/notification-preference.service";
+import { requireAdmin, requireAuth } from "@/lib/auth/api-auth";
+import { notificationPolicySchema } from "@/lib/validations/user";
+
+/**
+ * GET /api/notification-policy
+ * Get the tenant's notification policy (defaults if none saved)
+ * The Slack webhook URL is a credential, so only admins see it
+ */
+export async function GET() {
+  try {
+    const { user, error } = await requireAuth();
+    if (error) return error;
+
+    const service = new NotificationPreferenceService();
+    const policy = await service.getPolicy();
+
+    const isAdmin = user?.role === "admin" || user?.role === "super_admin";
+    if (!isAdmin) {
+      return NextResponse.json({
+        policy: { ...policy, slack_webhook_url: null },
+      });
+    }
+
+    return NextResponse.json({ policy });
+  } catch (error) {
+    console.error("Error fetching notification policy:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch notification policy" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PUT /api/notification-policy
+ * Replace the tenant's notification policy
+ * Requires admin role
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { error } = await requireAdmin();
+    if (error) return error;
+
+    const body = await request.json();
+    const validatedData = notificationPolicySchema.parse(body);
+
+    const service = new NotificationPreferenceService();
+    const policy = await service.updatePolicy(validatedData);
+
+    return NextResponse.json({ policy });
+  } catch (error) {
+    console.error("Error updating notification policy:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update notification policy" },
+      { status: 500 },
+    );
+  }
+}
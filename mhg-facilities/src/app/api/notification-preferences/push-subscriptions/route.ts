@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { NotificationPreferenceService } from "@/services/notification-preference.service";
+import { requireAuth } from "@/lib/auth/api-auth";
+import { pushSubscriptionSchema } from "@/lib/validations/user";
+
+/**
+ * POST /api/notification-preferences/push-subscriptions
+ * Register this browser for the current user's push notifications
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error } = await requireAuth({ allowVendor: true });
+    if (error) return error;
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validatedData = pushSubscriptionSchema.parse(body);
+
+    const service = new NotificationPreferenceService();
+    await service.savePushSubscription(
+      user.id,
+      validatedData,
+      request.headers.get("user-agent"),
+    );
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    console.error("Error saving push subscription:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to save push subscription" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/notification-preferences/push-subscriptions?endpoint=...
+ * Stop push notifications to this browser
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, error } = await requireAuth({ allowVendor: true });
+    if (error) return error;
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const endpoint = request.nextUrl.searchParams.get("endpoint");
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: "endpoint is required" },
+        { status: 400 },
+      );
+    }
+
+    const service = new NotificationPreferenceService();
+    await service.removePushSubscription(user.id, endpoint);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing push subscription:", error);
+    return NextResponse.json(
+      { error: "Failed to remove push subscription" },
+      { status: 500 },
+    );
+  }
+}
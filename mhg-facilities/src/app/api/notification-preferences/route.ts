@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { NotificationPreferenceService } from "@/services/notification-preference.service";
+import { requireAuth } from "@/lib/auth/api-auth";
+import { notificationPreferencesSchema } from "@/lib/validations/user";
+
+/**
+ * GET /api/notification-preferences
+ * Get the current user's notification preferences
+ */
+export async function GET() {
+  try {
+    const { user, error } = await requireAuth({ allowVendor: true });
+    if (error) return error;
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const service = new NotificationPreferenceService();
+    const preferences = await service.getPreferences(user.id);
+
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    console.error("Error fetching notification preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch notification preferences" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PUT /api/notification-preferences
+ * Update the current user's notification preferences
+ * Omitted fields keep their saved values; events are merged per event type
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, error } = await requireAuth({ allowVendor: true });
+    if (error) return error;
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validatedData = notificationPreferencesSchema.parse(body);
+
+    const service = new NotificationPreferenceService();
+    const preferences = await service.updatePreferences(user.id, validatedData);
+
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    console.error("Error updating notification preferences:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update notification preferences" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { NotificationInboxService } from "@/services/notification-inbox.service";
+import { requireAuth } from "@/lib/auth/api-auth";
+import { markNotificationsReadSchema } from "@/lib/validations/user";
+
+/**
+ * POST /api/notifications/read
+ * Mark the current user's notifications read; all of them when no ids are
+ * given
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error } = await requireAuth();
+    if (error) return error;
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { ids } = markNotificationsReadSchema.parse(body);
+
+    const service = new NotificationInboxService();
+    const updated = await service.markRead(user.id, ids);
+
+    return NextResponse.json({ updated });
+  } catch (error) {
+    console.error("Error marking notifications read:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to mark notifications read" },
+      { status: 500 },
+    );
+  }
+}
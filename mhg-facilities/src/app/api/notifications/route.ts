@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { NotificationInboxService } from "@/services/notification-inbox.service";
+import { requireAuth } from "@/lib/auth/api-auth";
+import { notificationInboxFiltersSchema } from "@/lib/validations/user";
+
+/**
+ * GET /api/notifications
+ * The current user's in-app notifications, newest first, with their unread
+ * count. Pass unread=true to only list unread ones.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await requireAuth();
+    if (error) return error;
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const filters = notificationInboxFiltersSchema.parse({
+      unread: searchParams.get("unread") || undefined,
+      limit: searchParams.get("limit") || undefined,
+    });
+
+    const service = new NotificationInboxService();
+    const inbox = await service.getInbox(user.id, filters);
+
+    return NextResponse.json(inbox);
+  } catch (error) {
+    console.error("Error fetching notifications:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch notifications" },
+      { status: 500 },
+    );
+  }
+}
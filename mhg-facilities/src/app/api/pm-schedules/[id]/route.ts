@@ -28,7 +28,11 @@ export async function GET(request: NextRequest, context: RouteContext) {
       );
     }
 
-    return NextResponse.json({ schedule });
+    const meter_status = schedule.meter_id
+      ? await service.getScheduleMeterStatus(id)
+      : null;
+
+    return NextResponse.json({ schedule, meter_status });
   } catch (error) {
     console.error("Error fetching PM schedule:", error);
     return NextResponse.json(
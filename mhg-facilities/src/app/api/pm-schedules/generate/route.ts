@@ -1,22 +1,44 @@
+import { ZodError } from "zod";
 import { NextRequest, NextResponse } from "next/server";
 
-import { requireAuth } from "@/lib/auth/api-auth";
+import { requireManager } from "@/lib/auth/api-auth";
 import { PMScheduleService } from "@/services/pm-schedule.service";
+import { generatePMTicketsSchema } from "@/lib/validations/pm";
 
-export async function POST(_request: NextRequest) {
+/**
+ * Generate PM work orders for due occurrences.
+ * Optional body { from, to } (YYYY-MM-DD) backfills missed occurrences
+ * within the range; already generated occurrences are skipped.
+ */
+export async function POST(request: NextRequest) {
   try {
-    const { error: authError } = await requireAuth();
+    const { error: authError } = await requireManager();
     if (authError) return authError;
 
+    const text = await request.text();
+    const validated = generatePMTicketsSchema.parse(
+      text ? JSON.parse(text) : {},
+    );
+
     const service = new PMScheduleService();
-    const tickets = await service.generateTickets();
+    const results = await service.generateTickets(validated);
+    const count = results.filter((r) => r.status === "generated").length;
 
-    return NextResponse.json(
-      { tickets, count: tickets.length },
-      { status: 201 },
-    );
+    return NextResponse.json({ results, count }, { status: 201 });
   } catch (error) {
     console.error("Error generating PM tickets:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Error && error.message.startsWith("Cannot")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     return NextResponse.json(
       { error: "Failed to generate PM tickets" },
       { status: 500 },
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { publicDuplicateCheckSchema } from "@/lib/validations/ticket";
+import {
+  PublicAssetReportService,
+  getClientKey,
+} from "@/services/public-asset-report.service";
+
+interface RouteParams {
+  params: Promise<{ code: string }>;
+}
+
+/**
+ * POST /api/qr/[code]/duplicates
+ * Recent tickets for the asset or location similar to the title being
+ * reported
+ * Public endpoint (no auth required), counts toward the view rate limit
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { code } = await params;
+
+    const service = new PublicAssetReportService();
+    await service.throttle("qr_view", getClientKey(request.headers));
+
+    const body = await request.json();
+    const { title } = publicDuplicateCheckSchema.parse(body);
+
+    const duplicates = await service.checkDuplicates(code, title);
+
+    return NextResponse.json({
+      has_duplicates: duplicates.length > 0,
+      duplicates,
+    });
+  } catch (error) {
+    console.error("Error in POST /api/qr/[code]/duplicates:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Error) {
+      if (error.message.startsWith("Too many")) {
+        return NextResponse.json({ error: error.message }, { status: 429 });
+      }
+      if (error.message.includes("not found")) {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+    }
+
+    return NextResponse.json(
+      { error: "Failed to check for duplicates" },
+      { status: 500 },
+    );
+  }
+}
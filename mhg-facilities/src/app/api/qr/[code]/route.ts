@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { requireAuth } from "@/lib/auth/api-auth";
+import { publicReportSchema } from "@/lib/validations/ticket";
+import {
+  PublicAssetReportService,
+  getClientKey,
+} from "@/services/public-asset-report.service";
+
+interface RouteParams {
+  params: Promise<{ code: string }>;
+}
+
+/**
+ * GET /api/qr/[code]
+ * The asset or location behind a QR code and its open tickets
+ * Public endpoint (no auth required), rate limited per client
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { code } = await params;
+
+    const service = new PublicAssetReportService();
+    await service.throttle("qr_view", getClientKey(request.headers));
+
+    const view = await service.getAssetView(code);
+    if (!view) {
+      return NextResponse.json({ error: "QR code not found" }, { status: 404 });
+    }
+
+    // Signed-in staff get a link through to the full page
+    const { user } = await requireAuth();
+
+    return NextResponse.json({ ...view, is_staff: !!user });
+  } catch (error) {
+    console.error("Error in GET /api/qr/[code]:", error);
+    return errorResponse(error, "Failed to load QR code");
+  }
+}
+
+/**
+ * POST /api/qr/[code]
+ * Report a problem with the asset or location behind a QR code
+ * Public endpoint (no auth required), rate limited per client
+ *
+ * Expects multipart/form-data with:
+ * - title, description (optional)
+ * - reporter_name, reporter_phone (optional)
+ * - photos (optional, repeated)
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { code } = await params;
+
+    const service = new PublicAssetReportService();
+    await service.throttle("qr_report", getClientKey(request.headers));
+
+    const formData = await request.formData();
+    const input = publicReportSchema.parse({
+      title: formData.get("title") ?? undefined,
+      description: formData.get("description") || undefined,
+      reporter_name: formData.get("reporter_name") || undefined,
+      reporter_phone: formData.get("reporter_phone") || undefined,
+    });
+    const photos = formData
+      .getAll("photos")
+      .filter((photo): photo is File => photo instanceof File);
+
+    // Staff reporting from the floor are credited; everyone else is anonymous
+    const { user } = await requireAuth();
+
+    const result = await service.submitReport(code, input, photos, user);
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error("Error in POST /api/qr/[code]:", error);
+    return errorResponse(error, "Failed to submit report");
+  }
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof ZodError) {
+    return NextResponse.json(
+      { error: "Validation error", details: error.issues },
+      { status: 400 },
+    );
+  }
+
+  if (error instanceof Error) {
+    if (error.message.startsWith("Too many")) {
+      return NextResponse.json({ error: error.message }, { status: 429 });
+    }
+    if (error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error.message.startsWith("Cannot")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+  }
+
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
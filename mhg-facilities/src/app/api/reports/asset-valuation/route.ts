@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ReportService } from "@/services/report.service";
+import { requireAuth } from "@/lib/auth/api-auth";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requireAuth();
+    if (authError) return authError;
+
+    const searchParams = request.nextUrl.searchParams;
+    const asOf =
+      searchParams.get("as_of") || new Date().toISOString().split("T")[0];
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(asOf) || isNaN(Date.parse(asOf))) {
+      return NextResponse.json(
+        { error: "As-of date must be YYYY-MM-DD" },
+        { status: 400 },
+      );
+    }
+
+    const service = new ReportService();
+    const report = await service.getAssetValuationReport(asOf);
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Asset valuation report error:", error);
+    return NextResponse.json(
+      { error: "Failed to generate asset valuation report" },
+      { status: 500 },
+    );
+  }
+}
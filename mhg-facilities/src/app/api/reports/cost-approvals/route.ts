@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CostApprovalService } from "@/services/cost-approval.service";
+import { requireAuth } from "@/lib/auth/api-auth";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requireAuth();
+    if (authError) return authError;
+
+    const searchParams = request.nextUrl.searchParams;
+    const startDate = searchParams.get("start_date");
+    const endDate = searchParams.get("end_date");
+
+    if (!startDate || !endDate) {
+      return NextResponse.json(
+        { error: "Date range required" },
+        { status: 400 },
+      );
+    }
+
+    const service = new CostApprovalService();
+    const report = await service.getApprovalReport({
+      from: `${startDate}T00:00:00.000Z`,
+      to: `${endDate}T23:59:59.999Z`,
+    });
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Cost approval report error:", error);
+    return NextResponse.json(
+      { error: "Failed to generate cost approval report" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { InvoiceService } from "@/services/invoice.service";
+import { requireAuth } from "@/lib/auth/api-auth";
+
+export async function GET() {
+  try {
+    const { error: authError } = await requireAuth();
+    if (authError) return authError;
+
+    const service = new InvoiceService();
+    const report = await service.getAgingReport();
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Invoice aging report error:", error);
+    return NextResponse.json(
+      { error: "Failed to generate invoice aging report" },
+      { status: 500 },
+    );
+  }
+}
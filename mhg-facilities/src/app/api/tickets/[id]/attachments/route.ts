@@ -1,8 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import { TicketAttachmentService } from "@/services/ticket-attachment.service";
 import { TicketService } from "@/services/ticket.service";
-import { requireAuth } from "@/lib/auth/api-auth";
-import { uploadAttachmentSchema } from "@/lib/validations/ticket";
+import { requireAuth, requireTicketAccess } from "@/lib/auth/api-auth";
+import {
+  uploadAttachmentSchema,
+  type UploadAttachmentInput,
+} from "@/lib/validations/ticket";
+
+// Attachment types a vendor can add to a dispatched ticket
+const VENDOR_ATTACHMENT_TYPES: UploadAttachmentInput["attachment_type"][] = [
+  "progress",
+  "completion",
+  "quote",
+  "invoice",
+];
 
 /**
  * GET /api/tickets/[id]/attachments
@@ -13,10 +24,10 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    const { error } = await requireAuth();
+    const { id } = await params;
+    const { error } = await requireTicketAccess(id);
     if (error) return error;
 
-    const { id } = await params;
     const service = new TicketAttachmentService();
     const attachments = await service.getAttachments(id);
 
@@ -42,19 +53,21 @@ export async function GET(
  * Expects multipart/form-data with:
  * - file: The file to upload
  * - attachment_type: 'initial' | 'progress' | 'completion' | 'invoice' | 'quote'
+ *
+ * Vendor users can't upload 'initial' attachments.
  */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    const { user, error } = await requireAuth();
+    const { id } = await params;
+    const { user, error } = await requireTicketAccess(id);
     if (error) return error;
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { id } = await params;
     const formData = await request.formData();
     const file = formData.get("file") as File | null;
     const attachmentType = formData.get("attachment_type") as string;
@@ -68,6 +81,19 @@ export async function POST(
       attachment_type: attachmentType,
     });
 
+    if (
+      user.role === "vendor" &&
+      !VENDOR_ATTACHMENT_TYPES.includes(validatedData.attachment_type)
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "Vendors can only upload progress, completion, quote or invoice files",
+        },
+        { status: 403 },
+      );
+    }
+
     const service = new TicketAttachmentService();
     const attachment = await service.uploadAttachment({
       ticket_id: id,
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { TicketService } from "@/services/ticket.service";
+import { requireAuth, requireTicketAccess } from "@/lib/auth/api-auth";
+import { pmChecklistResultsSchema } from "@/lib/validations/pm";
+
+/**
+ * GET /api/tickets/[id]/checklist
+ * Get the PM checklist and saved answers for a PM-generated ticket.
+ * Returns { checklist: null } when the ticket has no checklist.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const { user, error } = await requireTicketAccess(id);
+    if (error) return error;
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const service = new TicketService();
+    const checklist = await service.getTicketChecklist(id);
+
+    return NextResponse.json({ checklist });
+  } catch (error) {
+    console.error("Error fetching ticket checklist:", error);
+
+    if (error instanceof Error && error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to fetch checklist",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PUT /api/tickets/[id]/checklist
+ * Save checklist answers while the ticket is in progress
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { user, error } = await requireAuth();
+    if (error) return error;
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const results = pmChecklistResultsSchema.parse(body);
+
+    const service = new TicketService();
+    const checklist = await service.saveChecklistProgress(id, results);
+
+    return NextResponse.json({ checklist });
+  } catch (error) {
+    console.error("Error saving ticket checklist:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Error && error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message.includes("Only") ||
+        error.message.includes("Cannot") ||
+        error.message.includes("no PM checklist"))
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to save checklist",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { TicketCommentService } from "@/services/ticket-comment.service";
-import { requireAuth } from "@/lib/auth/api-auth";
+import { requireTicketAccess } from "@/lib/auth/api-auth";
 import { createCommentSchema } from "@/lib/validations/ticket";
 
 /**
@@ -12,13 +12,13 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    const { user, error } = await requireAuth();
+    const { id } = await params;
+    const { user, error } = await requireTicketAccess(id);
     if (error) return error;
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { id } = await params;
     const service = new TicketCommentService();
 
     // Only managers and admins can see internal comments
@@ -51,13 +51,13 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    const { user, error } = await requireAuth();
+    const { id } = await params;
+    const { user, error } = await requireTicketAccess(id);
     if (error) return error;
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { id } = await params;
     const body = await request.json();
 
     // Validate request body
@@ -68,7 +68,8 @@ export async function POST(
       ticket_id: id,
       user_id: user.id,
       comment: validatedData.comment,
-      is_internal: validatedData.is_internal,
+      // Vendors can't post internal notes
+      is_internal: user.role === "vendor" ? false : validatedData.is_internal,
     });
 
     return NextResponse.json({ comment }, { status: 201 });
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
+import { CostApprovalService } from "@/services/cost-approval.service";
+import { requireTicketAccess } from "@/lib/auth/api-auth";
+import { requestCostApprovalSchema } from "@/lib/validations/ticket";
+
+/**
+ * GET /api/tickets/[id]/cost-approvals
+ * Get the cost approval history for a ticket, newest first
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const { user, error } = await requireTicketAccess(id);
+    if (error) return error;
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const service = new CostApprovalService();
+    const approvals = await service.getTicketApprovals(id);
+
+    return NextResponse.json({ approvals });
+  } catch (error) {
+    console.error("Error fetching cost approvals:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to fetch cost approvals",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/tickets/[id]/cost-approvals
+ * Submit an estimate or vendor quote for approval
+ *
+ * Body:
+ * - amount: number
+ * - source: 'estimate' | 'quote' (default 'estimate')
+ * - vendor_id: quoting vendor (optional)
+ * - notes: optional context for the approver
+ *
+ * Vendor users always submit a quote for their own vendor.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const { user, error } = await requireTicketAccess(id);
+    if (error) return error;
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = requestCostApprovalSchema.parse(body);
+
+    // Vendor users can only submit quotes on behalf of their own vendor
+    if (user.role === "vendor") {
+      validatedData.source = "quote";
+      validatedData.vendor_id = user.vendor_id;
+    }
+
+    const service = new CostApprovalService();
+    const result = await service.requestApproval(id, {
+      ...validatedData,
+      requested_by: user.id,
+    });
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error("Error requesting cost approval:", error);
+
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 },
+      );
+    }
+
+    if (error instanceof Error && error.message.includes("not found")) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message.includes("Cannot")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to request cost approval",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { TicketService } from "@/services/ticket.service";
-import { requireAuth } from "@/lib/auth/api-auth";
+import { requireAuth, requireTicketAccess } from "@/lib/auth/api-auth";
 import { updateTicketSchema } from "@/lib/validations/ticket";
 
 /**
@@ -12,10 +12,10 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    const { error } = await requireAuth();
+    const { id } = await params;
+    const { error } = await requireTicketAccess(id);
     if (error) return error;
 
-    const { id } = await params;
     const service = new TicketService();
     const ticket = await service.getTicketById(id);
 
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { TicketService } from "@/services/ticket.service";
-import { requireAuth } from "@/lib/auth/api-auth";
+import { requireTicketAccess } from "@/lib/auth/api-auth";
 import {
   completeTicketSchema,
   rejectTicketSchema,
@@ -16,8 +16,10 @@ import type { TicketStatus } from "@/types/database";
  * verified_at is a flag, not a status
  *
  * Body should include:
- * - action: 'start_work' | 'complete' | 'verify' | 'close' | 'reject' | 'hold' | 'resume' | 'set_status' | 'contain' | 'resolve'
+ * - action: 'acknowledge' | 'start_work' | 'complete' | 'verify' | 'close' | 'reject' | 'hold' | 'resume' | 'set_status' | 'contain' | 'resolve'
  * - Plus action-specific fields
+ * - For 'acknowledge': dispatched vendor only; the only action vendors can take
+ * - For 'complete': optional checklist_results for PM-generated tickets
  * - For 'set_status': new_status (admin/manager only, allows any transition)
  * - For 'contain': (emergency tickets only) marks as contained
  * - For 'resolve': (emergency tickets only) notes required for resolution
@@ -27,13 +29,13 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    const { user, error } = await requireAuth();
+    const { id } = await params;
+    const { user, error } = await requireTicketAccess(id);
     if (error) return error;
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { id } = await params;
     const body = await request.json();
     const { action, ...data } = body;
 
@@ -44,10 +46,22 @@ export async function PATCH(
       );
     }
 
+    // Vendors can acknowledge a dispatch; other transitions stay with staff
+    if (user.role === "vendor" && action !== "acknowledge") {
+      return NextResponse.json(
+        { error: "Forbidden: vendors can only acknowledge tickets" },
+        { status: 403 },
+      );
+    }
+
     const service = new TicketService();
     let ticket;
 
     switch (action) {
+      case "acknowledge":
+        ticket = await service.acknowledgeVendorDispatch(id, user.vendor_id);
+        break;
+
       case "start_work":
         ticket = await service.startWork(id, user.id);
         break;
@@ -58,6 +72,7 @@ export async function PATCH(
           id,
           user.id,
           validatedData.actual_cost,
+          validatedData.checklist_results,
         );
         break;
       }
@@ -10,11 +10,15 @@ import type { Database } from "@/types/database";
 /**
  * GET /api/tickets
  * Get all tickets with optional filters and pagination
+ * Vendor users are limited to their own vendor's tickets
  */
 export async function GET(request: NextRequest) {
   try {
-    const { error } = await requireAuth();
+    const { user, error } = await requireAuth({ allowVendor: true });
     if (error) return error;
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
 
     const { searchParams } = new URL(request.url);
 
@@ -34,11 +38,18 @@ export async function GET(request: NextRequest) {
       location_id: searchParams.get("location_id") || undefined,
       assigned_to: searchParams.get("assigned_to") || undefined,
       submitted_by: searchParams.get("submitted_by") || undefined,
+      // Vendor users only ever see tickets dispatched to their vendor
+      vendor_id:
+        user.role === "vendor"
+          ? (user.vendor_id ?? undefined)
+          : searchParams.get("vendor_id") || undefined,
       date_from: searchParams.get("date_from") || undefined,
       date_to: searchParams.get("date_to") || undefined,
       search: searchParams.get("search") || undefined,
       is_emergency:
         isEmergencyParam !== null ? isEmergencyParam === "true" : undefined,
+      sla_status: searchParams.get("sla_status") || undefined,
+      sort_by: searchParams.get("sort_by") || undefined,
       page,
       pageSize,
     };
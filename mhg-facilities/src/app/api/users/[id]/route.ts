@@ -41,6 +41,7 @@ export async function GET(
       role: user.role,
       phone: user.phone,
       locationId: user.location_id,
+      vendorId: user.vendor_id,
       languagePreference: user.language_preference,
       isActive: user.is_active,
       notificationPreferences: user.notification_preferences,
@@ -88,9 +89,15 @@ export async function PATCH(
     const isOwnProfile = currentUser?.id === id;
 
     const isActiveChange = validation.data.is_active !== undefined;
-
-    // Check admin role if updating someone else, changing role, or changing active status
-    if (!isOwnProfile || validation.data.role || isActiveChange) {
+    const isVendorChange = validation.data.vendor_id !== undefined;
+
+    // Check admin role if updating someone else, changing role, active status or vendor link
+    if (
+      !isOwnProfile ||
+      validation.data.role ||
+      isActiveChange ||
+      isVendorChange
+    ) {
       const { error: adminError } = await requireAdmin();
       if (adminError) return adminError;
     }
@@ -124,6 +131,7 @@ export async function PATCH(
       validation.data.full_name !== undefined ||
       validation.data.phone !== undefined ||
       validation.data.location_id !== undefined ||
+      validation.data.vendor_id !== undefined ||
       validation.data.language_preference !== undefined ||
       validation.data.notification_preferences !== undefined;
 
@@ -132,6 +140,7 @@ export async function PATCH(
         fullName: validation.data.full_name,
         phone: validation.data.phone,
         locationId: validation.data.location_id,
+        vendorId: validation.data.vendor_id,
         languagePreference: validation.data.language_preference as
           | "en"
           | "es"
@@ -166,6 +175,7 @@ export async function PATCH(
       role: updatedUser.role,
       phone: updatedUser.phone,
       locationId: updatedUser.location_id,
+      vendorId: updatedUser.vendor_id,
       languagePreference: updatedUser.language_preference,
       isActive: updatedUser.is_active,
       notificationPreferences: updatedUser.notification_preferences,
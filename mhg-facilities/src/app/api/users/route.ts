@@ -81,6 +81,7 @@ export async function GET(request: NextRequest) {
       role: u.role,
       phone: u.phone,
       locationId: u.location_id,
+      vendorId: u.vendor_id,
       languagePreference: u.language_preference,
       isActive: u.is_active,
       notificationPreferences: u.notification_preferences,
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ResendIAO } from "@/iao/resend";
+import { NotificationOutboxService } from "@/services/notification-outbox.service";
+
+/**
+ * POST /api/webhooks/resend
+ * Resend email events. Bounces mark the delivery and its outbox message
+ * bounced; other events are acknowledged and ignored.
+ * Authenticated by the webhook signature (RESEND_WEBHOOK_SECRET).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.text();
+    const event = new ResendIAO().verifyWebhook(body, {
+      id: request.headers.get("svix-id"),
+      timestamp: request.headers.get("svix-timestamp"),
+      signature: request.headers.get("svix-signature"),
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+    }
+
+    if (event.type === "email.bounced") {
+      const outboxService = new NotificationOutboxService();
+      await outboxService.recordBounce(
+        event.data.email_id,
+        event.data.bounce?.message ?? "Email bounced",
+      );
+    }
+
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    console.error("Error handling Resend webhook:", error);
+    return NextResponse.json(
+      { error: "Failed to handle webhook" },
+      { status: 500 },
+    );
+  }
+}
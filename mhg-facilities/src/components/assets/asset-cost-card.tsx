@@ -0,0 +1,79 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAssetHistory } from "@/hooks/use-assets";
+import { DollarSign } from "lucide-react";
+
+interface AssetCostCardProps {
+  assetId: string;
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+/**
+ * Total cost of ownership: purchase price plus repair, PM and vendor costs,
+ * with a running total by year
+ */
+export function AssetCostCard({ assetId }: AssetCostCardProps) {
+  const { data } = useAssetHistory(assetId);
+  const cost = data?.cost_of_ownership;
+
+  if (!cost) return null;
+
+  const rows = [
+    { label: "Purchase price", value: cost.purchase_price },
+    { label: "Repairs", value: cost.repair_cost },
+    { label: "Preventive maintenance", value: cost.pm_cost },
+    { label: "Vendor invoices", value: cost.vendor_cost },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DollarSign className="h-5 w-5" />
+          Total Cost of Ownership
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <div className="text-2xl font-bold">{formatCurrency(cost.total)}</div>
+
+        <div className="space-y-1">
+          {rows.map((row) => (
+            <div key={row.label} className="flex justify-between">
+              <span className="text-gray-600">{row.label}</span>
+              <span>{formatCurrency(row.value)}</span>
+            </div>
+          ))}
+        </div>
+
+        {cost.by_year.length > 0 && (
+          <div className="space-y-1 border-t pt-3">
+            <div className="flex justify-between text-xs font-medium text-gray-600">
+              <span>Year</span>
+              <span>Spent / Running total</span>
+            </div>
+            {cost.by_year.map((year) => (
+              <div key={year.year} className="flex justify-between">
+                <span>{year.year}</span>
+                <span>
+                  {formatCurrency(year.total)}{" "}
+                  <span className="text-gray-500">
+                    / {formatCurrency(year.cumulative)}
+                  </span>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
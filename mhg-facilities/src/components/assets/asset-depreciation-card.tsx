@@ -0,0 +1,101 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAssetDepreciation } from "@/hooks/use-assets";
+import { TrendingDown } from "lucide-react";
+
+interface AssetDepreciationCardProps {
+  assetId: string;
+}
+
+const METHOD_LABELS = {
+  straight_line: "Straight-line",
+  declining_balance: "Declining balance",
+  none: "Not depreciated",
+} as const;
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+/**
+ * Current book value and the year-by-year depreciation schedule
+ */
+export function AssetDepreciationCard({ assetId }: AssetDepreciationCardProps) {
+  const { data: schedule } = useAssetDepreciation(assetId);
+
+  if (!schedule || !schedule.purchase_price) return null;
+
+  const rows = [
+    { label: "Method", value: METHOD_LABELS[schedule.method] },
+    {
+      label: "Purchase price",
+      value: formatCurrency(schedule.purchase_price),
+    },
+    {
+      label: "Depreciated to date",
+      value: formatCurrency(schedule.accumulated_depreciation),
+    },
+  ];
+  if (schedule.method !== "none") {
+    rows.push({
+      label: "Salvage value",
+      value: formatCurrency(schedule.salvage_value),
+    });
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingDown className="h-5 w-5" />
+          Book Value
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <div className="text-2xl font-bold">
+          {formatCurrency(schedule.book_value)}
+        </div>
+
+        <div className="space-y-1">
+          {rows.map((row) => (
+            <div key={row.label} className="flex justify-between">
+              <span className="text-gray-600">{row.label}</span>
+              <span>{row.value}</span>
+            </div>
+          ))}
+        </div>
+
+        {schedule.periods.length > 0 && (
+          <div className="space-y-1 border-t pt-3">
+            <div className="flex justify-between text-xs font-medium text-gray-600">
+              <span>Year ending</span>
+              <span>Depreciation / Book value</span>
+            </div>
+            {schedule.periods.map((period) => (
+              <div
+                key={period.year}
+                className={`flex justify-between ${
+                  period.end_date <= schedule.as_of ? "text-gray-500" : ""
+                }`}
+              >
+                <span>{period.end_date}</span>
+                <span>
+                  {formatCurrency(period.depreciation)}{" "}
+                  <span className="text-gray-500">
+                    / {formatCurrency(period.closing_value)}
+                  </span>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import Link from "next/link";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useAssetHistory } from "@/hooks/use-assets";
+import {
+  ArrowRightLeft,
+  CalendarCheck,
+  ClipboardCheck,
+  History,
+  RefreshCw,
+  ShieldCheck,
+  Wrench,
+} from "lucide-react";
+import type { AssetMaintenanceType } from "@/types/database-extensions";
+
+interface AssetHistoryCardProps {
+  assetId: string;
+}
+
+const TYPE_LABELS: Record<AssetMaintenanceType, string> = {
+  repair: "Repair",
+  preventive: "Preventive",
+  inspection: "Inspection",
+  replacement: "Replacement",
+  warranty_claim: "Warranty claim",
+  transfer: "Transfer",
+};
+
+const TYPE_ICONS: Record<AssetMaintenanceType, typeof Wrench> = {
+  repair: Wrench,
+  preventive: CalendarCheck,
+  inspection: ClipboardCheck,
+  replacement: RefreshCw,
+  warranty_claim: ShieldCheck,
+  transfer: ArrowRightLeft,
+};
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount);
+}
+
+/**
+ * The asset's service timeline: completed work, PM and transfers
+ */
+export function AssetHistoryCard({ assetId }: AssetHistoryCardProps) {
+  const { data, isLoading } = useAssetHistory(assetId);
+  const history = data?.history ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Service History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No service recorded yet. Completed tickets, PM and transfers show up
+            here.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {history.map((entry) => {
+              const type = entry.maintenance_type ?? "repair";
+              const Icon = TYPE_ICONS[type];
+              const cost = entry.invoiced > 0 ? entry.invoiced : entry.cost;
+
+              return (
+                <div
+                  key={entry.id}
+                  className="flex items-start gap-3 border-l-2 border-gray-300 pl-4"
+                >
+                  <Icon className="h-4 w-4 text-gray-500 mt-1" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm font-medium">
+                        {entry.description || TYPE_LABELS[type]}
+                      </span>
+                      <Badge variant="secondary" className="text-xs">
+                        {TYPE_LABELS[type]}
+                      </Badge>
+                    </div>
+                    <div className="text-xs text-gray-600">
+                      {format(new Date(entry.performed_at), "PPP")}
+                      {entry.performed_by && ` · ${entry.performed_by}`}
+                      {entry.vendor_name && ` · ${entry.vendor_name}`}
+                    </div>
+                    {entry.ticket_id && (
+                      <Link
+                        href={`/tickets/${entry.ticket_id}`}
+                        className="text-xs text-primary hover:underline"
+                      >
+                        View ticket
+                      </Link>
+                    )}
+                  </div>
+                  {cost != null && cost > 0 && (
+                    <div className="text-sm font-medium">
+                      {formatCurrency(Number(cost))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,291 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  useAssetMeters,
+  useCreateAssetMeter,
+  useDeleteAssetMeter,
+  useMeterReadings,
+  useRecordMeterReading,
+} from "@/hooks/use-assets";
+import { ChevronDown, ChevronUp, Gauge, Plus, Trash2 } from "lucide-react";
+import type {
+  AssetMeterRow,
+  AssetMeterUnit,
+} from "@/types/database-extensions";
+
+interface AssetMetersCardProps {
+  assetId: string;
+  /** Where readings entered here are recorded from */
+  source: "manual" | "qr";
+  /** Managers and admins can add and remove meters */
+  canManage: boolean;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  manual: "Manual",
+  qr: "QR scan",
+  pm_checklist: "PM checklist",
+};
+
+export function AssetMetersCard({
+  assetId,
+  source,
+  canManage,
+}: AssetMetersCardProps) {
+  const { data: meters = [] } = useAssetMeters(assetId);
+  const createMeter = useCreateAssetMeter(assetId);
+  const [showAdd, setShowAdd] = useState(false);
+  const [name, setName] = useState("");
+  const [unit, setUnit] = useState<AssetMeterUnit>("hours");
+  const [initialReading, setInitialReading] = useState("");
+
+  if (meters.length === 0 && !canManage) return null;
+
+  const handleAdd = async () => {
+    try {
+      await createMeter.mutateAsync({
+        name,
+        unit,
+        current_reading:
+          initialReading.trim() === "" ? undefined : Number(initialReading),
+      });
+      setName("");
+      setInitialReading("");
+      setShowAdd(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to add meter",
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          Meters
+        </CardTitle>
+        {canManage && !showAdd && (
+          <Button size="sm" variant="outline" onClick={() => setShowAdd(true)}>
+            <Plus className="mr-1 h-4 w-4" />
+            Add Meter
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {meters.length === 0 && !showAdd && (
+          <p className="text-sm text-muted-foreground">
+            No meters. Add one to track runtime hours, cycles or gallons.
+          </p>
+        )}
+
+        {meters.map((meter) => (
+          <MeterRow
+            key={meter.id}
+            assetId={assetId}
+            meter={meter}
+            source={source}
+            canManage={canManage}
+          />
+        ))}
+
+        {showAdd && (
+          <div className="space-y-2 rounded-md border p-3">
+            <div className="grid gap-2 sm:grid-cols-3">
+              <Input
+                placeholder="e.g., Compressor runtime"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+              <Select
+                value={unit}
+                onValueChange={(value) => setUnit(value as AssetMeterUnit)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="hours">Hours</SelectItem>
+                  <SelectItem value="cycles">Cycles</SelectItem>
+                  <SelectItem value="gallons">Gallons</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                step="any"
+                min={0}
+                placeholder="Current reading"
+                value={initialReading}
+                onChange={(e) => setInitialReading(e.target.value)}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setShowAdd(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleAdd}
+                disabled={!name.trim() || createMeter.isPending}
+              >
+                Add
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function MeterRow({
+  assetId,
+  meter,
+  source,
+  canManage,
+}: {
+  assetId: string;
+  meter: AssetMeterRow;
+  source: "manual" | "qr";
+  canManage: boolean;
+}) {
+  const [reading, setReading] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
+  const recordReading = useRecordMeterReading(assetId);
+  const deleteMeter = useDeleteAssetMeter(assetId);
+  const { data: readings = [] } = useMeterReadings(
+    showHistory ? meter.id : null,
+  );
+
+  const handleRecord = async () => {
+    try {
+      const result = await recordReading.mutateAsync({
+        meterId: meter.id,
+        reading: Number(reading),
+        source,
+      });
+      setReading("");
+      const generated = result.triggered.filter(
+        (r) => r.status === "generated",
+      ).length;
+      toast.success(
+        generated > 0
+          ? `Reading recorded. ${generated} PM work order(s) created.`
+          : "Reading recorded",
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to record reading",
+      );
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteMeter.mutateAsync(meter.id);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete meter",
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <p className="font-medium text-gray-900">{meter.name}</p>
+          <p className="text-sm text-muted-foreground">
+            {Number(meter.current_reading).toLocaleString()} {meter.unit}
+            {meter.last_read_at &&
+              ` · read ${format(new Date(meter.last_read_at), "PP")}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            step="any"
+            min={0}
+            className="w-[140px]"
+            placeholder="New reading"
+            value={reading}
+            onChange={(e) => setReading(e.target.value)}
+          />
+          <Button
+            size="sm"
+            className="min-h-[40px]"
+            onClick={handleRecord}
+            disabled={reading.trim() === "" || recordReading.isPending}
+          >
+            Record
+          </Button>
+          {canManage && (
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={handleDelete}
+              disabled={deleteMeter.isPending}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <button
+        type="button"
+        className="flex items-center gap-1 text-sm text-blue-600 hover:underline"
+        onClick={() => setShowHistory((v) => !v)}
+      >
+        {showHistory ? (
+          <ChevronUp className="h-4 w-4" />
+        ) : (
+          <ChevronDown className="h-4 w-4" />
+        )}
+        Reading history
+      </button>
+
+      {showHistory && (
+        <div className="space-y-1">
+          {readings.length === 0 && (
+            <p className="text-sm text-muted-foreground">No readings yet</p>
+          )}
+          {readings.map((r) => (
+            <div
+              key={r.id}
+              className="flex justify-between border-b py-1 text-sm last:border-0"
+            >
+              <span>
+                {Number(r.reading).toLocaleString()} {meter.unit}
+                <span className="ml-2 text-muted-foreground">
+                  {SOURCE_LABELS[r.source] ?? r.source}
+                </span>
+              </span>
+              <span className="text-muted-foreground">
+                {format(new Date(r.recorded_at), "PP p")}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { format, subYears } from "date-fns";
+import { Download, FileArchive } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useLocations } from "@/hooks/use-locations";
+import {
+  useGenerateAuditPackage,
+  type ComplianceAuditPackage,
+} from "@/hooks/use-compliance";
+
+const toDateInput = (date: Date) => format(date, "yyyy-MM-dd");
+
+export function AuditPackageDialog() {
+  const [open, setOpen] = useState(false);
+  const [locationId, setLocationId] = useState("");
+  const [fromDate, setFromDate] = useState(() =>
+    toDateInput(subYears(new Date(), 1)),
+  );
+  const [toDate, setToDate] = useState(() => toDateInput(new Date()));
+  const [result, setResult] = useState<ComplianceAuditPackage | null>(null);
+  const { data: locations = [] } = useLocations();
+  const generatePackage = useGenerateAuditPackage();
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (!value) setResult(null);
+  };
+
+  const handleGenerate = async () => {
+    try {
+      setResult(
+        await generatePackage.mutateAsync({
+          location_id: locationId,
+          from_date: fromDate,
+          to_date: toDate,
+        }),
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to generate audit package",
+      );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <FileArchive className="mr-2 h-4 w-4" />
+          Audit Package
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Inspection Audit Package</DialogTitle>
+          <DialogDescription>
+            Download a ZIP of a location&apos;s compliance documents, PM records
+            and corrective-action tickets with a PDF index.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="space-y-3 text-sm">
+            <p>
+              {result.files} file(s) from {result.documents} document(s),{" "}
+              {result.pm_completions} PM completion(s) and {result.tickets}{" "}
+              ticket(s).
+            </p>
+            {result.missing_files.length > 0 && (
+              <p className="text-muted-foreground">
+                {result.missing_files.length} file(s) couldn&apos;t be found in
+                storage and are marked missing in the index.
+              </p>
+            )}
+            <p className="text-muted-foreground">
+              The link expires at{" "}
+              {format(new Date(result.expires_at), "h:mm a")}.
+            </p>
+            <Button asChild>
+              <a href={result.url} download={result.file_name}>
+                <Download className="mr-2 h-4 w-4" />
+                Download ZIP
+              </a>
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Location</Label>
+              <Select value={locationId} onValueChange={setLocationId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="audit-from">From</Label>
+                <Input
+                  id="audit-from"
+                  type="date"
+                  value={fromDate}
+                  onChange={(e) => setFromDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="audit-to">To</Label>
+                <Input
+                  id="audit-to"
+                  type="date"
+                  value={toDate}
+                  onChange={(e) => setToDate(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {!result && (
+          <DialogFooter>
+            <Button
+              onClick={handleGenerate}
+              disabled={
+                !locationId || !fromDate || !toDate || generatePackage.isPending
+              }
+            >
+              {generatePackage.isPending ? "Generating..." : "Generate"}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,12 +1,13 @@
 "use client";
 
-import { useForm } from "react-hook-form";
+import { useForm, useWatch } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -23,6 +24,7 @@ import {
 } from "@/components/ui/select";
 import { useComplianceTypes } from "@/hooks/use-compliance";
 import { useLocations } from "@/hooks/use-locations";
+import { MetadataScanner } from "./metadata-scanner";
 
 const formSchema = z.object({
   name: z.string().min(1, "Name is required").max(200),
@@ -33,11 +35,28 @@ const formSchema = z.object({
   issuing_authority: z.string().max(200).optional(),
   document_number: z.string().max(100).optional(),
   renewal_cost: z.string().optional(),
+  alert_days: z
+    .string()
+    .regex(/^\s*(\d+\s*(,\s*\d+\s*)*)?$/, "Enter days separated by commas")
+    .optional(),
   notes: z.string().max(2000).optional(),
 });
 
 type FormValues = z.infer<typeof formSchema>;
 
+const DEFAULT_ALERT_DAYS = [90, 60, 30, 14, 7];
+
+/**
+ * "90, 30, 7" to [90, 30, 7]; blank means use the document type's schedule
+ */
+export function parseAlertDays(value?: string): number[] | null {
+  const days = (value ?? "")
+    .split(",")
+    .map((day) => parseInt(day.trim(), 10))
+    .filter((day) => day > 0);
+  return days.length > 0 ? [...new Set(days)].sort((a, b) => b - a) : null;
+}
+
 interface ComplianceFormProps {
   initialData?: Partial<FormValues>;
   onSubmit: (data: FormValues) => void;
@@ -63,10 +82,31 @@ export function ComplianceForm({
       issuing_authority: initialData?.issuing_authority || "",
       document_number: initialData?.document_number || "",
       renewal_cost: initialData?.renewal_cost || "",
+      alert_days: initialData?.alert_days || "",
       notes: initialData?.notes || "",
     },
   });
 
+  const documentTypeId = useWatch({
+    control: form.control,
+    name: "document_type_id",
+  });
+  const selectedType = types?.find((type) => type.id === documentTypeId);
+  const typeAlertDays = selectedType?.default_alert_days?.length
+    ? selectedType.default_alert_days
+    : DEFAULT_ALERT_DAYS;
+
+  const [issueDate, expirationDate, documentNumber, issuingAuthority] =
+    useWatch({
+      control: form.control,
+      name: [
+        "issue_date",
+        "expiration_date",
+        "document_number",
+        "issuing_authority",
+      ],
+    });
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
@@ -115,6 +155,22 @@ export function ComplianceForm({
           />
         </div>
 
+        <MetadataScanner
+          documentTypeId={documentTypeId || undefined}
+          values={{
+            issue_date: issueDate,
+            expiration_date: expirationDate,
+            document_number: documentNumber,
+            issuing_authority: issuingAuthority,
+          }}
+          onApply={(field, value) =>
+            form.setValue(field, value, {
+              shouldDirty: true,
+              shouldValidate: true,
+            })
+          }
+        />
+
         {/* Location - full width */}
         <FormField
           control={form.control}
@@ -213,7 +269,7 @@ export function ComplianceForm({
           />
         </div>
 
-        {/* Renewal Cost - half width */}
+        {/* Renewal Cost and Alert Days - 2 columns */}
         <div className="grid gap-4 md:grid-cols-2">
           <FormField
             control={form.control}
@@ -233,6 +289,24 @@ export function ComplianceForm({
               </FormItem>
             )}
           />
+
+          <FormField
+            control={form.control}
+            name="alert_days"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Alert Days</FormLabel>
+                <FormControl>
+                  <Input placeholder={typeAlertDays.join(", ")} {...field} />
+                </FormControl>
+                <FormDescription>
+                  Days before expiration to send alerts. Leave blank to use
+                  the document type&apos;s schedule.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
         </div>
 
         {/* Notes - full width */}
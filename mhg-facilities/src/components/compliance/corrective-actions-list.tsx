@@ -0,0 +1,41 @@
+"use client";
+
+import Link from "next/link";
+import { StatusBadge } from "@/components/tickets/status-badge";
+import { useCorrectiveActions } from "@/hooks/use-compliance";
+
+interface CorrectiveActionsListProps {
+  documentId: string;
+  /** Shown while loading or for failures recorded before actions had tickets */
+  fallback: string;
+}
+
+export function CorrectiveActionsList({
+  documentId,
+  fallback,
+}: CorrectiveActionsListProps) {
+  const { data: actions, isLoading } = useCorrectiveActions(documentId);
+
+  if (isLoading || !actions?.length) {
+    return <p className="whitespace-pre-line">{fallback}</p>;
+  }
+
+  return (
+    <ul className="mt-1 space-y-1">
+      {actions.map((action) => (
+        <li key={action.id} className="flex flex-wrap items-center gap-2">
+          <span>{action.description}</span>
+          {action.ticket && (
+            <Link
+              href={`/tickets/${action.ticket.id}`}
+              className="inline-flex items-center gap-1 underline"
+            >
+              #{action.ticket.ticket_number}
+              <StatusBadge status={action.ticket.status} />
+            </Link>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -1,13 +1,17 @@
 import { XCircle } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { CorrectiveActionsList } from "./corrective-actions-list";
 
 interface FailedInspectionBannerProps {
+  /** Shows each corrective action with its ticket when set */
+  documentId?: string;
   correctiveAction: string;
   reinspectionDate: string;
   failedDate: string;
 }
 
 export function FailedInspectionBanner({
+  documentId,
   correctiveAction,
   reinspectionDate,
   failedDate,
@@ -21,9 +25,19 @@ export function FailedInspectionBanner({
           <strong>Failed on:</strong>{" "}
           {new Date(failedDate).toLocaleDateString()}
         </p>
-        <p className="mb-2">
-          <strong>Corrective Action Required:</strong> {correctiveAction}
-        </p>
+        {documentId ? (
+          <div className="mb-2">
+            <strong>Corrective Actions Required:</strong>
+            <CorrectiveActionsList
+              documentId={documentId}
+              fallback={correctiveAction}
+            />
+          </div>
+        ) : (
+          <p className="mb-2">
+            <strong>Corrective Action Required:</strong> {correctiveAction}
+          </p>
+        )}
         <p>
           <strong>Reinspection Date:</strong>{" "}
           {new Date(reinspectionDate).toLocaleDateString()}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Check, FileSearch } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useExtractComplianceMetadata } from "@/hooks/use-compliance";
+import type { ComplianceMetadataField } from "@/types";
+
+const FIELD_LABELS: Record<ComplianceMetadataField, string> = {
+  issue_date: "Issue Date",
+  expiration_date: "Expiration Date",
+  document_number: "Document Number",
+  issuing_authority: "Issuing Authority",
+};
+
+interface MetadataScannerProps {
+  documentTypeId?: string;
+  // Current form values, to mark suggestions that are already applied
+  values: Partial<Record<ComplianceMetadataField, string>>;
+  onApply: (field: ComplianceMetadataField, value: string) => void;
+}
+
+/**
+ * Reads a PDF's text layer for suggested document details, each applied
+ * to the form only once confirmed
+ */
+export function MetadataScanner({
+  documentTypeId,
+  values,
+  onApply,
+}: MetadataScannerProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const extract = useExtractComplianceMetadata();
+
+  const scan = async (pdf: File) => {
+    try {
+      await extract.mutateAsync({ file: pdf, documentTypeId });
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to read document",
+      );
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const pdf = e.target.files?.[0] ?? null;
+    setFile(pdf);
+    extract.reset();
+    if (pdf) scan(pdf);
+  };
+
+  const result = extract.data;
+  const suggestions = Object.entries(result?.suggestions ?? {}) as [
+    ComplianceMetadataField,
+    { value: string; excerpt: string },
+  ][];
+  const pending = suggestions.filter(
+    ([field, suggestion]) => values[field] !== suggestion.value,
+  );
+
+  return (
+    <div className="space-y-3 rounded-md border border-dashed p-4">
+      <div className="space-y-1">
+        <Label htmlFor="metadata-scan" className="flex items-center gap-2">
+          <FileSearch className="h-4 w-4" />
+          Fill from PDF
+        </Label>
+        <p className="text-sm text-muted-foreground">
+          Suggests dates, number and authority from the document&apos;s text.
+          Scanned images can&apos;t be read.
+        </p>
+      </div>
+
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <Input
+          id="metadata-scan"
+          type="file"
+          accept="application/pdf,.pdf"
+          onChange={handleFileChange}
+        />
+        {file && result && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => scan(file)}
+            disabled={extract.isPending}
+          >
+            Rescan
+          </Button>
+        )}
+      </div>
+
+      {extract.isPending && (
+        <p className="text-sm text-muted-foreground">Reading document...</p>
+      )}
+
+      {result && !result.has_text && (
+        <p className="text-sm text-muted-foreground">
+          This PDF has no text layer, so nothing could be read. Enter the
+          details below.
+        </p>
+      )}
+
+      {result?.has_text && suggestions.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No details found. Enter them below.
+        </p>
+      )}
+
+      {suggestions.length > 0 && (
+        <div className="space-y-2">
+          {suggestions.map(([field, suggestion]) => {
+            const applied = values[field] === suggestion.value;
+            return (
+              <div
+                key={field}
+                className="flex items-start justify-between gap-3 text-sm"
+              >
+                <div className="min-w-0">
+                  <p>
+                    <span className="font-medium">{FIELD_LABELS[field]}:</span>{" "}
+                    {suggestion.value}
+                  </p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    &ldquo;{suggestion.excerpt}&rdquo;
+                  </p>
+                </div>
+                {applied ? (
+                  <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <Check className="h-3 w-3" />
+                    Applied
+                  </span>
+                ) : (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onApply(field, suggestion.value)}
+                  >
+                    Use
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+          {pending.length > 1 && (
+            <Button
+              type="button"
+              size="sm"
+              onClick={() =>
+                pending.forEach(([field, suggestion]) =>
+                  onApply(field, suggestion.value),
+                )
+              }
+            >
+              Use all
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
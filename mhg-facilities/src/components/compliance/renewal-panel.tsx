@@ -0,0 +1,377 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { CheckCircle2, Circle, RefreshCw } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  useAdvanceRenewal,
+  useApproveRenewal,
+  useComplianceRenewal,
+  useStartRenewal,
+  useUpdateRenewalTask,
+  type ComplianceRenewal,
+  type ComplianceRenewalStage,
+} from "@/hooks/use-compliance";
+
+interface RenewalPanelProps {
+  documentId: string;
+}
+
+const STAGES: { stage: ComplianceRenewalStage; label: string }[] = [
+  { stage: "not_started", label: "Not started" },
+  { stage: "submitted", label: "Submitted" },
+  { stage: "in_review", label: "In review" },
+  { stage: "approved", label: "Approved" },
+];
+
+const NEXT_ACTION: Partial<
+  Record<ComplianceRenewalStage, { action: "submit" | "review"; label: string }>
+> = {
+  not_started: { action: "submit", label: "Mark Submitted" },
+  submitted: { action: "review", label: "Mark In Review" },
+};
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+export function RenewalPanel({ documentId }: RenewalPanelProps) {
+  const { data: renewal, isLoading } = useComplianceRenewal(documentId);
+  const isOpen =
+    !!renewal && renewal.stage !== "approved" && renewal.stage !== "cancelled";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RefreshCw className="h-5 w-5" />
+          Renewal
+        </CardTitle>
+        <CardDescription>
+          Track renewal tasks from submission through approval
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : isOpen ? (
+          <OpenRenewal documentId={documentId} renewal={renewal} />
+        ) : (
+          <>
+            {renewal && <LastRenewal renewal={renewal} />}
+            <StartRenewalForm documentId={documentId} />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function LastRenewal({ renewal }: { renewal: ComplianceRenewal }) {
+  if (renewal.stage === "cancelled") {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Last renewal was cancelled
+        {renewal.cancelled_at &&
+          ` on ${format(new Date(renewal.cancelled_at), "MMM d, yyyy")}`}
+        .
+      </p>
+    );
+  }
+
+  return (
+    <p className="text-sm text-muted-foreground">
+      Last renewed
+      {renewal.approved_at &&
+        ` on ${format(new Date(renewal.approved_at), "MMM d, yyyy")}`}
+      {renewal.approved_by_user && ` by ${renewal.approved_by_user.full_name}`}
+      {renewal.cost != null && ` for $${Number(renewal.cost).toFixed(2)}`}.
+    </p>
+  );
+}
+
+function StartRenewalForm({ documentId }: { documentId: string }) {
+  const startRenewal = useStartRenewal();
+  const [cost, setCost] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const handleStart = async () => {
+    try {
+      await startRenewal.mutateAsync({
+        documentId,
+        cost: cost.trim() === "" ? undefined : Number(cost),
+        notes: notes.trim() || null,
+      });
+      setCost("");
+      setNotes("");
+      toast.success("Renewal started");
+    } catch (error) {
+      toast.error(errorMessage(error, "Failed to start renewal"));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label htmlFor="renewal-cost">Expected Cost</Label>
+          <Input
+            id="renewal-cost"
+            type="number"
+            step="0.01"
+            min={0}
+            placeholder="Defaults to the document's renewal cost"
+            value={cost}
+            onChange={(e) => setCost(e.target.value)}
+          />
+        </div>
+      </div>
+      <Textarea
+        placeholder="Notes (optional)"
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+      />
+      <Button onClick={handleStart} disabled={startRenewal.isPending}>
+        Start Renewal
+      </Button>
+    </div>
+  );
+}
+
+function OpenRenewal({
+  documentId,
+  renewal,
+}: {
+  documentId: string;
+  renewal: ComplianceRenewal;
+}) {
+  const advanceRenewal = useAdvanceRenewal();
+  const updateTask = useUpdateRenewalTask();
+  const next = NEXT_ACTION[renewal.stage];
+  const currentIndex = STAGES.findIndex((s) => s.stage === renewal.stage);
+  const remaining = renewal.tasks.filter((task) => !task.completed_at).length;
+
+  const handleAdvance = async (action: "submit" | "review" | "cancel") => {
+    try {
+      await advanceRenewal.mutateAsync({ documentId, action });
+    } catch (error) {
+      toast.error(errorMessage(error, "Failed to update renewal"));
+    }
+  };
+
+  const handleToggleTask = async (taskId: string, completed: boolean) => {
+    try {
+      await updateTask.mutateAsync({ documentId, taskId, completed });
+    } catch (error) {
+      toast.error(errorMessage(error, "Failed to update task"));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {STAGES.map(({ stage, label }, index) => (
+          <Badge
+            key={stage}
+            variant={index <= currentIndex ? "default" : "outline"}
+          >
+            {index < currentIndex ? (
+              <CheckCircle2 className="mr-1 h-3 w-3" />
+            ) : (
+              <Circle className="mr-1 h-3 w-3" />
+            )}
+            {label}
+          </Badge>
+        ))}
+      </div>
+
+      {renewal.assigned_user && (
+        <p className="text-sm text-muted-foreground">
+          Assigned to {renewal.assigned_user.full_name}
+        </p>
+      )}
+
+      {renewal.tasks.length > 0 ? (
+        <ul className="space-y-2">
+          {renewal.tasks.map((task) => (
+            <li key={task.id} className="flex items-start gap-3">
+              <Checkbox
+                id={`task-${task.id}`}
+                checked={!!task.completed_at}
+                disabled={updateTask.isPending}
+                onCheckedChange={(checked) =>
+                  handleToggleTask(task.id, checked === true)
+                }
+              />
+              <div className="space-y-0.5">
+                <Label
+                  htmlFor={`task-${task.id}`}
+                  className={
+                    task.completed_at
+                      ? "line-through text-muted-foreground"
+                      : ""
+                  }
+                >
+                  {task.title}
+                </Label>
+                {task.description && (
+                  <p className="text-xs text-muted-foreground">
+                    {task.description}
+                  </p>
+                )}
+                {(task.assigned_user || task.due_date) && (
+                  <p className="text-xs text-muted-foreground">
+                    {task.assigned_user?.full_name}
+                    {task.assigned_user && task.due_date && " · "}
+                    {task.due_date &&
+                      `Due ${format(new Date(task.due_date), "MMM d, yyyy")}`}
+                  </p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          This document type has no renewal checklist.
+        </p>
+      )}
+
+      {renewal.stage === "in_review" && (
+        <ApproveRenewalForm
+          documentId={documentId}
+          defaultCost={renewal.cost}
+          remainingTasks={remaining}
+        />
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {next && (
+          <Button
+            onClick={() => handleAdvance(next.action)}
+            disabled={advanceRenewal.isPending}
+          >
+            {next.label}
+          </Button>
+        )}
+        <Button
+          variant="outline"
+          onClick={() => handleAdvance("cancel")}
+          disabled={advanceRenewal.isPending}
+        >
+          Cancel Renewal
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function ApproveRenewalForm({
+  documentId,
+  defaultCost,
+  remainingTasks,
+}: {
+  documentId: string;
+  defaultCost: number | null;
+  remainingTasks: number;
+}) {
+  const approveRenewal = useApproveRenewal();
+  const [file, setFile] = useState<File | null>(null);
+  const [issueDate, setIssueDate] = useState("");
+  const [expirationDate, setExpirationDate] = useState("");
+  const [cost, setCost] = useState(
+    defaultCost != null ? String(defaultCost) : "",
+  );
+
+  const handleApprove = async () => {
+    if (!file) return;
+
+    try {
+      await approveRenewal.mutateAsync({
+        documentId,
+        file,
+        newExpirationDate: expirationDate,
+        newIssueDate: issueDate || null,
+        cost: cost.trim() === "" ? null : Number(cost),
+      });
+      toast.success("Renewal approved");
+    } catch (error) {
+      toast.error(errorMessage(error, "Failed to approve renewal"));
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <p className="text-sm font-medium">Approve Renewal</p>
+      {remainingTasks > 0 && (
+        <p className="text-sm text-muted-foreground">
+          Complete the remaining {remainingTasks} task(s) before approving.
+        </p>
+      )}
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label htmlFor="renewal-file">Renewed Document</Label>
+          <Input
+            id="renewal-file"
+            type="file"
+            accept="application/pdf,image/jpeg,image/png"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="renewal-final-cost">Final Cost</Label>
+          <Input
+            id="renewal-final-cost"
+            type="number"
+            step="0.01"
+            min={0}
+            value={cost}
+            onChange={(e) => setCost(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="renewal-issue-date">New Issue Date</Label>
+          <Input
+            id="renewal-issue-date"
+            type="date"
+            value={issueDate}
+            onChange={(e) => setIssueDate(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="renewal-expiration-date">New Expiration Date</Label>
+          <Input
+            id="renewal-expiration-date"
+            type="date"
+            value={expirationDate}
+            onChange={(e) => setExpirationDate(e.target.value)}
+          />
+        </div>
+      </div>
+      <Button
+        onClick={handleApprove}
+        disabled={
+          !file ||
+          !expirationDate ||
+          remainingTasks > 0 ||
+          approveRenewal.isPending
+        }
+      >
+        Approve
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import type { AssetScore } from "@/services/asset-scoring.service";
+
+interface ProblemAssetsCardProps {
+  assets: AssetScore[];
+  total: number;
+  title?: string;
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+/**
+ * Assets flagged by the replacement policy, worst first, with the
+ * repair-or-replace call for each
+ */
+export function ProblemAssetsCard({
+  assets,
+  total,
+  title = "Problem Assets",
+}: ProblemAssetsCardProps) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>{title}</CardTitle>
+        {total > assets.length && (
+          <Link
+            href="/reports"
+            className="text-sm text-muted-foreground hover:underline"
+          >
+            View all {total}
+          </Link>
+        )}
+      </CardHeader>
+      <CardContent>
+        {assets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No assets need a repair-or-replace review
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {assets.map((asset) => (
+              <Link
+                key={asset.asset_id}
+                href={`/assets/${asset.asset_id}`}
+                className="block rounded-lg p-3 transition-colors hover:bg-accent"
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex-1 space-y-1">
+                    <p className="text-sm font-medium leading-none">
+                      {asset.asset_name}
+                    </p>
+                    {asset.location_name && (
+                      <p className="text-xs text-muted-foreground">
+                        {asset.location_name}
+                      </p>
+                    )}
+                    {asset.reasons.map((reason) => (
+                      <p key={reason} className="text-sm text-muted-foreground">
+                        {reason}
+                      </p>
+                    ))}
+                  </div>
+                  <div className="flex flex-col items-end gap-1">
+                    <Badge
+                      variant={
+                        asset.recommendation === "replace"
+                          ? "destructive"
+                          : "warning"
+                      }
+                    >
+                      {asset.recommendation === "replace"
+                        ? "Replace"
+                        : "Repair"}
+                    </Badge>
+                    {asset.annual_repair_cost > 0 && (
+                      <span className="text-xs text-muted-foreground">
+                        {formatCurrency(asset.annual_repair_cost)}/yr repairs
+                      </span>
+                    )}
+                    {asset.recommendation === "replace" &&
+                      asset.payback_years !== null && (
+                        <span className="text-xs text-muted-foreground">
+                          Pays back in {asset.payback_years} yrs
+                        </span>
+                      )}
+                  </div>
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
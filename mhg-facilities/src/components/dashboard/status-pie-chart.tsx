@@ -22,6 +22,7 @@ interface StatusPieChartProps {
 
 const STATUS_COLORS: Record<string, string> = {
   submitted: "var(--primary)",
+  needs_approval: "var(--chart-3)",
   in_progress: "var(--chart-4)",
   completed: "var(--chart-2)",
   closed: "var(--muted-foreground)",
@@ -0,0 +1,357 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  useCreateInvoice,
+  useUpdateInvoice,
+  type Invoice,
+} from "@/hooks/use-invoices";
+
+interface InvoiceFormDialogProps {
+  ticketId: string;
+  vendors: { id: string; name: string }[];
+  defaultVendorId?: string | null;
+  /** Invoice to correct; omit to enter a new one */
+  invoice?: Invoice | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface LineItemDraft {
+  description: string;
+  quantity: string;
+  unit_price: string;
+}
+
+const EMPTY_LINE: LineItemDraft = {
+  description: "",
+  quantity: "1",
+  unit_price: "",
+};
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount);
+}
+
+function today(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+export function InvoiceFormDialog({
+  open,
+  onOpenChange,
+  ...props
+}: InvoiceFormDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[700px]">
+        {/* Remount per open so the fields reseed from the invoice */}
+        {open && <InvoiceForm {...props} onClose={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function InvoiceForm({
+  ticketId,
+  vendors,
+  defaultVendorId,
+  invoice,
+  onClose,
+}: Omit<InvoiceFormDialogProps, "open" | "onOpenChange"> & {
+  onClose: () => void;
+}) {
+  const createInvoice = useCreateInvoice();
+  const updateInvoice = useUpdateInvoice();
+  const isEditing = !!invoice;
+
+  const [vendorId, setVendorId] = useState(
+    invoice?.vendor_id ?? defaultVendorId ?? "",
+  );
+  const [invoiceNumber, setInvoiceNumber] = useState(
+    invoice?.invoice_number ?? "",
+  );
+  const [invoiceDate, setInvoiceDate] = useState(
+    invoice?.invoice_date ?? today(),
+  );
+  const [dueDate, setDueDate] = useState(invoice?.due_date ?? "");
+  const [taxAmount, setTaxAmount] = useState(
+    invoice ? String(invoice.tax_amount) : "0",
+  );
+  const [notes, setNotes] = useState(invoice?.notes ?? "");
+  const [file, setFile] = useState<File | null>(null);
+  const [lineItems, setLineItems] = useState<LineItemDraft[]>(
+    invoice?.line_items?.length
+      ? invoice.line_items.map((item) => ({
+          description: item.description,
+          quantity: String(item.quantity),
+          unit_price: String(item.unit_price),
+        }))
+      : [EMPTY_LINE],
+  );
+
+  const subtotal = lineItems.reduce(
+    (sum, item) =>
+      sum + (Number(item.quantity) || 0) * (Number(item.unit_price) || 0),
+    0,
+  );
+  const total = subtotal + (Number(taxAmount) || 0);
+  const isPending = createInvoice.isPending || updateInvoice.isPending;
+  const canSubmit =
+    !!vendorId &&
+    invoiceNumber.trim() !== "" &&
+    !!invoiceDate &&
+    lineItems.every(
+      (item) => item.description.trim() !== "" && item.unit_price !== "",
+    );
+
+  const updateLine = (index: number, changes: Partial<LineItemDraft>) => {
+    setLineItems((prev) =>
+      prev.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    );
+  };
+
+  const handleSubmit = async () => {
+    const data = {
+      invoice_number: invoiceNumber.trim(),
+      invoice_date: invoiceDate,
+      due_date: dueDate || null,
+      tax_amount: Number(taxAmount) || 0,
+      notes: notes.trim() || null,
+      line_items: lineItems.map((item) => ({
+        description: item.description.trim(),
+        quantity: Number(item.quantity) || 1,
+        unit_price: Number(item.unit_price),
+      })),
+    };
+
+    try {
+      if (invoice) {
+        await updateInvoice.mutateAsync({ id: invoice.id, data });
+        toast.success("Invoice updated");
+      } else {
+        await createInvoice.mutateAsync({
+          ...data,
+          ticket_id: ticketId,
+          vendor_id: vendorId,
+          file,
+        });
+        toast.success("Invoice added");
+      }
+      onClose();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save invoice",
+      );
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>{isEditing ? "Edit Invoice" : "Add Invoice"}</DialogTitle>
+        <DialogDescription>
+          {invoice?.status === "disputed"
+            ? "Saving a corrected invoice sends it back for approval."
+            : "Invoices are approved by a manager before they count toward budget spend."}
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4 py-2">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="invoice-vendor">Vendor</Label>
+            <Select
+              value={vendorId}
+              onValueChange={setVendorId}
+              disabled={isEditing}
+            >
+              <SelectTrigger id="invoice-vendor">
+                <SelectValue placeholder="Choose a vendor..." />
+              </SelectTrigger>
+              <SelectContent>
+                {vendors.map((vendor) => (
+                  <SelectItem key={vendor.id} value={vendor.id}>
+                    {vendor.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invoice-number">Invoice #</Label>
+            <Input
+              id="invoice-number"
+              value={invoiceNumber}
+              onChange={(e) => setInvoiceNumber(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invoice-date">Invoice Date</Label>
+            <Input
+              id="invoice-date"
+              type="date"
+              value={invoiceDate}
+              onChange={(e) => setInvoiceDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invoice-due-date">Due Date</Label>
+            <Input
+              id="invoice-due-date"
+              type="date"
+              value={dueDate}
+              min={invoiceDate}
+              onChange={(e) => setDueDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Line Items</Label>
+          {lineItems.map((item, index) => (
+            <div key={index} className="flex items-start gap-2">
+              <Input
+                className="flex-1"
+                placeholder="Description"
+                value={item.description}
+                onChange={(e) =>
+                  updateLine(index, { description: e.target.value })
+                }
+              />
+              <Input
+                className="w-20"
+                type="number"
+                min={0}
+                step="0.01"
+                aria-label="Quantity"
+                value={item.quantity}
+                onChange={(e) =>
+                  updateLine(index, { quantity: e.target.value })
+                }
+              />
+              <Input
+                className="w-28"
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="Unit price"
+                value={item.unit_price}
+                onChange={(e) =>
+                  updateLine(index, { unit_price: e.target.value })
+                }
+              />
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                onClick={() =>
+                  setLineItems((prev) => prev.filter((_, i) => i !== index))
+                }
+                disabled={lineItems.length === 1}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => setLineItems((prev) => [...prev, EMPTY_LINE])}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Line
+          </Button>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="invoice-tax">Tax ($)</Label>
+            <Input
+              id="invoice-tax"
+              type="number"
+              min={0}
+              step="0.01"
+              value={taxAmount}
+              onChange={(e) => setTaxAmount(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1 text-sm sm:text-right">
+            <p className="text-gray-500">Subtotal {formatCurrency(subtotal)}</p>
+            <p className="text-lg font-semibold text-gray-900">
+              Total {formatCurrency(total)}
+            </p>
+          </div>
+        </div>
+
+        {!isEditing && (
+          <div className="space-y-2">
+            <Label htmlFor="invoice-file">Invoice PDF (optional)</Label>
+            <Input
+              id="invoice-file"
+              type="file"
+              accept="application/pdf,image/jpeg,image/png"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+            <p className="text-xs text-gray-500">
+              Saved to the ticket&apos;s attachments
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="invoice-notes">Notes</Label>
+          <Textarea
+            id="invoice-notes"
+            rows={2}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onClose}
+          disabled={isPending}
+        >
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          onClick={handleSubmit}
+          disabled={!canSubmit || isPending}
+        >
+          {isPending ? "Saving..." : isEditing ? "Save Invoice" : "Add Invoice"}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -0,0 +1,593 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ChevronDown, ChevronRight, FileText } from "lucide-react";
+import {
+  useDeleteInvoice,
+  useInvoice,
+  useInvoiceStatusAction,
+  useRecordInvoicePayment,
+  type Invoice,
+} from "@/hooks/use-invoices";
+import { InvoiceFormDialog } from "./invoice-form-dialog";
+import type { InvoiceStatus } from "@/types/database";
+import type { InvoicePaymentMethod } from "@/types/database-extensions";
+
+interface InvoiceListProps {
+  invoices: Invoice[];
+  userRole: string | undefined;
+  /** Vendors offered when correcting an invoice */
+  vendors?: { id: string; name: string }[];
+  showVendor?: boolean;
+  showTicket?: boolean;
+}
+
+const STATUS_STYLES: Record<InvoiceStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+  approved: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+  paid: "bg-green-100 text-green-800 hover:bg-green-100",
+  disputed: "bg-red-100 text-red-800 hover:bg-red-100",
+};
+
+const PAYMENT_METHOD_LABELS: Record<InvoicePaymentMethod, string> = {
+  check: "Check",
+  ach: "ACH",
+  card: "Card",
+  cash: "Cash",
+  other: "Other",
+};
+
+const MANAGER_ROLES = ["manager", "admin", "super_admin"];
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount);
+}
+
+function formatDate(date: string | null): string {
+  return date ? format(parseISO(date), "MMM d, yyyy") : "—";
+}
+
+export function InvoiceList({
+  invoices,
+  userRole,
+  vendors = [],
+  showVendor = true,
+  showTicket = false,
+}: InvoiceListProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<Invoice | null>(null);
+  const [disputing, setDisputing] = useState<Invoice | null>(null);
+  const [paying, setPaying] = useState<Invoice | null>(null);
+
+  const statusAction = useInvoiceStatusAction();
+  const deleteInvoice = useDeleteInvoice();
+  const canManage = !!userRole && MANAGER_ROLES.includes(userRole);
+
+  const handleApprove = async (invoice: Invoice) => {
+    try {
+      await statusAction.mutateAsync({ id: invoice.id, action: "approve" });
+      toast.success(`Invoice ${invoice.invoice_number} approved`);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to approve invoice",
+      );
+    }
+  };
+
+  const handleDelete = async (invoice: Invoice) => {
+    if (!confirm(`Delete invoice ${invoice.invoice_number}?`)) return;
+
+    try {
+      await deleteInvoice.mutateAsync(invoice.id);
+      toast.success("Invoice deleted");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete invoice",
+      );
+    }
+  };
+
+  if (invoices.length === 0) {
+    return <p className="text-sm text-gray-500">No invoices recorded</p>;
+  }
+
+  return (
+    <div className="divide-y rounded-md border">
+      {invoices.map((invoice) => {
+        const balance = invoice.total_amount - invoice.amount_paid;
+        const isExpanded = expandedId === invoice.id;
+        const isEditable =
+          invoice.status === "pending" || invoice.status === "disputed";
+
+        return (
+          <div key={invoice.id}>
+            <button
+              type="button"
+              className="flex w-full items-center gap-3 p-3 text-left hover:bg-gray-50"
+              onClick={() => setExpandedId(isExpanded ? null : invoice.id)}
+            >
+              {isExpanded ? (
+                <ChevronDown className="h-4 w-4 shrink-0 text-gray-400" />
+              ) : (
+                <ChevronRight className="h-4 w-4 shrink-0 text-gray-400" />
+              )}
+              <div className="min-w-0 flex-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-gray-900">
+                    #{invoice.invoice_number}
+                  </span>
+                  <Badge className={STATUS_STYLES[invoice.status]}>
+                    {invoice.status}
+                  </Badge>
+                </div>
+                <p className="truncate text-xs text-gray-500">
+                  {showVendor && invoice.vendor?.name}
+                  {showVendor && showTicket && " · "}
+                  {showTicket &&
+                    invoice.ticket &&
+                    `Ticket #${invoice.ticket.ticket_number} ${invoice.ticket.title}`}
+                  {(showVendor || showTicket) && " · "}
+                  {formatDate(invoice.invoice_date)}
+                  {invoice.due_date && ` · Due ${formatDate(invoice.due_date)}`}
+                </p>
+              </div>
+              <div className="text-right text-sm">
+                <p className="font-medium text-gray-900">
+                  {formatCurrency(invoice.total_amount)}
+                </p>
+                {invoice.amount_paid > 0 && balance > 0 && (
+                  <p className="text-xs text-gray-500">
+                    {formatCurrency(balance)} due
+                  </p>
+                )}
+              </div>
+            </button>
+
+            {isExpanded && (
+              <div className="space-y-3 border-t bg-gray-50 p-3">
+                <InvoiceDetails
+                  invoiceId={invoice.id}
+                  showTicket={showTicket}
+                />
+
+                {canManage && (
+                  <div className="flex flex-wrap gap-2">
+                    {invoice.status === "pending" && (
+                      <Button
+                        size="sm"
+                        onClick={() => handleApprove(invoice)}
+                        disabled={statusAction.isPending}
+                      >
+                        Approve
+                      </Button>
+                    )}
+                    {invoice.status === "approved" && (
+                      <Button size="sm" onClick={() => setPaying(invoice)}>
+                        Record Payment
+                      </Button>
+                    )}
+                    {(invoice.status === "pending" ||
+                      (invoice.status === "approved" &&
+                        invoice.amount_paid === 0)) && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setDisputing(invoice)}
+                      >
+                        Dispute
+                      </Button>
+                    )}
+                    {isEditable && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setEditing(invoice)}
+                      >
+                        Edit
+                      </Button>
+                    )}
+                    {isEditable && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-red-600 hover:text-red-700"
+                        onClick={() => handleDelete(invoice)}
+                        disabled={deleteInvoice.isPending}
+                      >
+                        Delete
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {editing && (
+        <EditInvoiceDialog
+          invoiceId={editing.id}
+          vendors={
+            vendors.length > 0
+              ? vendors
+              : editing.vendor
+                ? [editing.vendor]
+                : []
+          }
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      <DisputeInvoiceDialog
+        invoice={disputing}
+        onClose={() => setDisputing(null)}
+      />
+      <RecordPaymentDialog invoice={paying} onClose={() => setPaying(null)} />
+    </div>
+  );
+}
+
+function InvoiceDetails({
+  invoiceId,
+  showTicket,
+}: {
+  invoiceId: string;
+  showTicket: boolean;
+}) {
+  const { data, isLoading } = useInvoice(invoiceId);
+
+  if (isLoading || !data) {
+    return <p className="text-sm text-gray-500">Loading invoice...</p>;
+  }
+
+  const { invoice, attachment_url } = data;
+
+  return (
+    <div className="space-y-3 text-sm">
+      {invoice.status === "disputed" && invoice.dispute_reason && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-2 text-red-800">
+          <span className="font-medium">Disputed:</span>{" "}
+          {invoice.dispute_reason}
+        </div>
+      )}
+
+      <table className="w-full">
+        <thead>
+          <tr className="text-left text-xs text-gray-500">
+            <th className="pb-1 font-medium">Description</th>
+            <th className="pb-1 text-right font-medium">Qty</th>
+            <th className="pb-1 text-right font-medium">Unit</th>
+            <th className="pb-1 text-right font-medium">Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {(invoice.line_items ?? []).map((item) => (
+            <tr key={item.id}>
+              <td className="py-0.5">{item.description}</td>
+              <td className="py-0.5 text-right">{item.quantity}</td>
+              <td className="py-0.5 text-right">
+                {formatCurrency(item.unit_price)}
+              </td>
+              <td className="py-0.5 text-right">
+                {formatCurrency(item.amount)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot className="text-gray-600">
+          <tr>
+            <td colSpan={3} className="pt-1 text-right">
+              Tax
+            </td>
+            <td className="pt-1 text-right">
+              {formatCurrency(invoice.tax_amount)}
+            </td>
+          </tr>
+          <tr className="font-medium text-gray-900">
+            <td colSpan={3} className="text-right">
+              Total
+            </td>
+            <td className="text-right">
+              {formatCurrency(invoice.total_amount)}
+            </td>
+          </tr>
+        </tfoot>
+      </table>
+
+      {invoice.payments && invoice.payments.length > 0 && (
+        <div>
+          <p className="mb-1 text-xs font-medium text-gray-500">Payments</p>
+          <ul className="space-y-0.5">
+            {invoice.payments.map((payment) => (
+              <li key={payment.id} className="flex justify-between">
+                <span>
+                  {formatDate(payment.paid_on)} ·{" "}
+                  {PAYMENT_METHOD_LABELS[payment.method]}
+                  {payment.reference && ` #${payment.reference}`}
+                </span>
+                <span>{formatCurrency(payment.amount)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-4">
+        {attachment_url && (
+          <a
+            href={attachment_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+          >
+            <FileText className="h-4 w-4" />
+            {invoice.attachment?.file_name ?? "Invoice PDF"}
+          </a>
+        )}
+        {showTicket && invoice.ticket && (
+          <Link
+            href={`/tickets/${invoice.ticket.id}`}
+            className="text-blue-600 hover:underline"
+          >
+            View ticket
+          </Link>
+        )}
+      </div>
+
+      {invoice.notes && (
+        <p className="whitespace-pre-wrap text-gray-600">{invoice.notes}</p>
+      )}
+    </div>
+  );
+}
+
+// List rows don't carry line items, so edit from the full invoice
+function EditInvoiceDialog({
+  invoiceId,
+  vendors,
+  onClose,
+}: {
+  invoiceId: string;
+  vendors: { id: string; name: string }[];
+  onClose: () => void;
+}) {
+  const { data } = useInvoice(invoiceId);
+
+  if (!data) return null;
+
+  return (
+    <InvoiceFormDialog
+      ticketId={data.invoice.ticket_id}
+      vendors={vendors}
+      invoice={data.invoice}
+      open
+      onOpenChange={(open) => !open && onClose()}
+    />
+  );
+}
+
+function DisputeInvoiceDialog({
+  invoice,
+  onClose,
+}: {
+  invoice: Invoice | null;
+  onClose: () => void;
+}) {
+  const statusAction = useInvoiceStatusAction();
+  const [reason, setReason] = useState("");
+
+  const handleClose = () => {
+    setReason("");
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!invoice) return;
+
+    try {
+      await statusAction.mutateAsync({
+        id: invoice.id,
+        action: "dispute",
+        reason: reason.trim(),
+      });
+      toast.success(`Invoice ${invoice.invoice_number} disputed`);
+      handleClose();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to dispute invoice",
+      );
+    }
+  };
+
+  return (
+    <Dialog open={!!invoice} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Dispute Invoice</DialogTitle>
+          <DialogDescription>
+            The invoice goes back to the vendor for correction and stops
+            counting toward budget spend.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2 py-2">
+          <Label htmlFor="dispute-reason">Reason</Label>
+          <Textarea
+            id="dispute-reason"
+            rows={3}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={handleClose}
+            disabled={statusAction.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!reason.trim() || statusAction.isPending}
+          >
+            {statusAction.isPending ? "Saving..." : "Dispute"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RecordPaymentDialog({
+  invoice,
+  onClose,
+}: {
+  invoice: Invoice | null;
+  onClose: () => void;
+}) {
+  return (
+    <Dialog open={!!invoice} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[500px]">
+        {invoice && <RecordPaymentForm invoice={invoice} onClose={onClose} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RecordPaymentForm({
+  invoice,
+  onClose,
+}: {
+  invoice: Invoice;
+  onClose: () => void;
+}) {
+  const recordPayment = useRecordInvoicePayment();
+  const balance = invoice.total_amount - invoice.amount_paid;
+
+  const [amount, setAmount] = useState(balance.toFixed(2));
+  const [paidOn, setPaidOn] = useState(new Date().toISOString().split("T")[0]);
+  const [method, setMethod] = useState<InvoicePaymentMethod>("check");
+  const [reference, setReference] = useState("");
+
+  const handleSubmit = async () => {
+    try {
+      await recordPayment.mutateAsync({
+        id: invoice.id,
+        amount: Number(amount),
+        paid_on: paidOn,
+        method,
+        reference: reference.trim() || null,
+      });
+      toast.success("Payment recorded");
+      onClose();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to record payment",
+      );
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Record Payment</DialogTitle>
+        <DialogDescription>
+          Invoice #{invoice.invoice_number} · {formatCurrency(balance)}{" "}
+          outstanding
+        </DialogDescription>
+      </DialogHeader>
+      <div className="grid gap-4 py-2 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="payment-amount">Amount ($)</Label>
+          <Input
+            id="payment-amount"
+            type="number"
+            min={0}
+            max={balance}
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="payment-date">Paid On</Label>
+          <Input
+            id="payment-date"
+            type="date"
+            value={paidOn}
+            onChange={(e) => setPaidOn(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="payment-method">Method</Label>
+          <Select
+            value={method}
+            onValueChange={(value) => setMethod(value as InvoicePaymentMethod)}
+          >
+            <SelectTrigger id="payment-method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="payment-reference">Reference</Label>
+          <Input
+            id="payment-reference"
+            placeholder="Check # or confirmation"
+            value={reference}
+            onChange={(e) => setReference(e.target.value)}
+          />
+        </div>
+      </div>
+      <DialogFooter>
+        <Button
+          variant="outline"
+          onClick={onClose}
+          disabled={recordPayment.isPending}
+        >
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSubmit}
+          disabled={!(Number(amount) > 0) || !paidOn || recordPayment.isPending}
+        >
+          {recordPayment.isPending ? "Saving..." : "Record Payment"}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Plus, Receipt } from "lucide-react";
+import { useInvoices } from "@/hooks/use-invoices";
+import { InvoiceFormDialog } from "./invoice-form-dialog";
+import { InvoiceList } from "./invoice-list";
+
+interface TicketInvoicesCardProps {
+  ticketId: string;
+  vendorId: string | null;
+  userRole: string | undefined;
+  vendors: { id: string; name: string }[];
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount);
+}
+
+export function TicketInvoicesCard({
+  ticketId,
+  vendorId,
+  userRole,
+  vendors,
+}: TicketInvoicesCardProps) {
+  const { data: invoices = [], isLoading } = useInvoices({
+    ticket_id: ticketId,
+  });
+  const [showForm, setShowForm] = useState(false);
+
+  // Approved and paid invoices are what the ticket actually cost
+  const invoicedTotal = invoices
+    .filter((inv) => inv.status === "approved" || inv.status === "paid")
+    .reduce((sum, inv) => sum + inv.total_amount, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Receipt className="h-5 w-5" />
+            Invoices
+          </span>
+          <Button size="sm" variant="outline" onClick={() => setShowForm(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Invoice
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading invoices...</p>
+        ) : (
+          <>
+            {invoicedTotal > 0 && (
+              <p className="text-sm text-gray-600">
+                Approved total:{" "}
+                <span className="font-medium text-gray-900">
+                  {formatCurrency(invoicedTotal)}
+                </span>
+              </p>
+            )}
+            <InvoiceList
+              invoices={invoices}
+              userRole={userRole}
+              vendors={vendors}
+            />
+          </>
+        )}
+      </CardContent>
+
+      <InvoiceFormDialog
+        ticketId={ticketId}
+        vendors={vendors}
+        defaultVendorId={vendorId}
+        open={showForm}
+        onOpenChange={setShowForm}
+      />
+    </Card>
+  );
+}
@@ -3,7 +3,10 @@
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { cn } from "@/lib/utils";
+import { useNotificationInbox } from "@/hooks/use-notifications";
+import { UnreadBadge } from "./notification-bell";
 import {
+  Bell,
   LayoutDashboard,
   Ticket,
   Calendar,
@@ -16,6 +19,7 @@ const bottomNavItems = [
   { title: "Tickets", href: "/tickets", icon: Ticket },
   { title: "PM", href: "/pm", icon: Calendar },
   { title: "Assets", href: "/assets", icon: Wrench },
+  { title: "Inbox", href: "/notifications", icon: Bell },
 ];
 
 interface BottomNavProps {
@@ -24,6 +28,7 @@ interface BottomNavProps {
 
 export function BottomNav({ onMoreClick }: BottomNavProps) {
   const pathname = usePathname();
+  const { data: inbox } = useNotificationInbox();
 
   return (
     <nav
@@ -43,11 +48,16 @@ export function BottomNav({ onMoreClick }: BottomNavProps) {
               href={item.href}
               aria-current={isActive ? "page" : undefined}
               className={cn(
-                "flex flex-col items-center justify-center flex-1 h-full min-w-[64px] py-2 transition-colors",
+                "flex flex-col items-center justify-center flex-1 h-full min-w-[56px] py-2 transition-colors",
                 isActive ? "text-primary" : "text-muted-foreground",
               )}
             >
-              <Icon className="w-5 h-5 mb-1" />
+              <span className="relative mb-1">
+                <Icon className="w-5 h-5" />
+                {item.href === "/notifications" && (
+                  <UnreadBadge count={inbox?.unread_count ?? 0} />
+                )}
+              </span>
               <span className="text-xs font-medium">{item.title}</span>
             </Link>
           );
@@ -57,7 +67,7 @@ export function BottomNav({ onMoreClick }: BottomNavProps) {
         <button
           type="button"
           onClick={onMoreClick}
-          className="flex flex-col items-center justify-center flex-1 h-full min-w-[64px] py-2 text-muted-foreground transition-colors hover:text-foreground"
+          className="flex flex-col items-center justify-center flex-1 h-full min-w-[56px] py-2 text-muted-foreground transition-colors hover:text-foreground"
           aria-label="More navigation options"
         >
           <MoreHorizontal className="w-5 h-5 mb-1" />
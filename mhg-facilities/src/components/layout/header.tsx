@@ -13,7 +13,8 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Menu, Bell, LogOut, User, Settings } from "lucide-react";
+import { Menu, LogOut, User, Settings } from "lucide-react";
+import { NotificationBell } from "./notification-bell";
 
 interface HeaderProps {
   onMenuClick: () => void;
@@ -53,18 +54,7 @@ export function Header({ onMenuClick }: HeaderProps) {
       <div className="flex-1" />
 
       {/* Notifications */}
-      <Button
-        variant="ghost"
-        size="icon"
-        className="relative"
-        aria-label="Notifications"
-      >
-        <Bell className="h-5 w-5" />
-        {/* Notification badge - uncomment when implementing notifications */}
-        {/* <span className="absolute -top-1 -right-1 h-4 w-4 rounded-full bg-destructive text-[10px] font-medium text-destructive-foreground flex items-center justify-center">
-          3
-        </span> */}
-      </Button>
+      <NotificationBell />
 
       {/* User menu */}
       <DropdownMenu>
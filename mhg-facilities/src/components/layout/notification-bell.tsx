@@ -0,0 +1,186 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import { Bell, CheckCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  useMarkNotificationsRead,
+  useNotificationInbox,
+} from "@/hooks/use-notifications";
+import { cn } from "@/lib/utils";
+import type { NotificationRow } from "@/types/database-extensions";
+
+// How many notifications the bell lists before "View all"
+const BELL_LIMIT = 8;
+
+/**
+ * Unread count badge, capped at 9+ to fit on an icon
+ */
+export function UnreadBadge({
+  count,
+  className,
+}: {
+  count: number;
+  className?: string;
+}) {
+  if (count === 0) return null;
+
+  return (
+    <span
+      className={cn(
+        "absolute -top-1 -right-1 h-4 min-w-4 px-1 rounded-full bg-destructive text-[10px] font-medium text-destructive-foreground flex items-center justify-center",
+        className,
+      )}
+    >
+      {count > 9 ? "9+" : count}
+    </span>
+  );
+}
+
+/**
+ * One notification; opening it marks it read and follows its link
+ */
+export function NotificationItem({
+  notification,
+  onOpen,
+}: {
+  notification: NotificationRow;
+  onOpen: (notification: NotificationRow) => void;
+}) {
+  const isUnread = !notification.read_at;
+
+  return (
+    <button
+      type="button"
+      onClick={() => onOpen(notification)}
+      className={cn(
+        "flex w-full gap-3 px-4 py-3 text-left transition-colors hover:bg-muted",
+        isUnread && "bg-primary/5",
+      )}
+    >
+      <span
+        className={cn(
+          "mt-1.5 h-2 w-2 shrink-0 rounded-full",
+          isUnread ? "bg-primary" : "bg-transparent",
+        )}
+      />
+      <span className="min-w-0 flex-1">
+        <span
+          className={cn(
+            "block text-sm",
+            isUnread ? "font-medium" : "text-muted-foreground",
+          )}
+        >
+          {notification.title}
+        </span>
+        {notification.body && (
+          <span className="block text-xs text-muted-foreground line-clamp-2">
+            {notification.body}
+          </span>
+        )}
+        <span className="block text-xs text-muted-foreground mt-1">
+          {formatDistanceToNow(parseISO(notification.created_at), {
+            addSuffix: true,
+          })}
+        </span>
+      </span>
+    </button>
+  );
+}
+
+/**
+ * Marks a notification read and opens what it's about
+ */
+export function useOpenNotification() {
+  const router = useRouter();
+  const markRead = useMarkNotificationsRead();
+
+  return (notification: NotificationRow) => {
+    if (!notification.read_at) {
+      markRead.mutate([notification.id]);
+    }
+    if (notification.link) {
+      router.push(notification.link);
+    }
+  };
+}
+
+export function NotificationBell() {
+  const [open, setOpen] = useState(false);
+  const { data } = useNotificationInbox();
+  const markRead = useMarkNotificationsRead();
+  const openNotification = useOpenNotification();
+
+  const notifications = data?.notifications.slice(0, BELL_LIMIT) ?? [];
+  const unreadCount = data?.unread_count ?? 0;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative"
+          aria-label={
+            unreadCount > 0
+              ? `Notifications (${unreadCount} unread)`
+              : "Notifications"
+          }
+        >
+          <Bell className="h-5 w-5" />
+          <UnreadBadge count={unreadCount} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="end">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+          <p className="text-sm font-semibold">Notifications</p>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => markRead.mutate(undefined)}
+            disabled={unreadCount === 0 || markRead.isPending}
+          >
+            <CheckCheck className="h-3.5 w-3.5 mr-1" />
+            Mark all read
+          </Button>
+        </div>
+
+        {notifications.length === 0 ? (
+          <p className="px-4 py-8 text-center text-sm text-muted-foreground">
+            You&apos;re all caught up
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto divide-y divide-border">
+            {notifications.map((notification) => (
+              <NotificationItem
+                key={notification.id}
+                notification={notification}
+                onOpen={(item) => {
+                  setOpen(false);
+                  openNotification(item);
+                }}
+              />
+            ))}
+          </div>
+        )}
+
+        <div className="border-t border-border p-2">
+          <Button variant="ghost" size="sm" className="w-full" asChild>
+            <Link href="/notifications" onClick={() => setOpen(false)}>
+              View all
+            </Link>
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
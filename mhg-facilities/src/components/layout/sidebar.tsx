@@ -27,6 +27,7 @@ import {
   ChevronUp,
   type LucideIcon,
 } from "lucide-react";
+import { NotificationBell } from "./notification-bell";
 
 // Navigation item type
 interface NavItem {
@@ -143,6 +144,9 @@ export function Sidebar() {
             MarketOps
           </span>
         </Link>
+        <div className="ml-auto">
+          <NotificationBell />
+        </div>
       </div>
 
       {/* Navigation */}
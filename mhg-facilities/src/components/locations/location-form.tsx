@@ -33,6 +33,8 @@ const locationFormSchema = z.object({
   square_footage: z.string().optional(),
   manager_id: z.string().optional().or(z.literal("")),
   status: z.enum(["active", "temporarily_closed", "permanently_closed"]),
+  business_open: z.string().optional(),
+  business_close: z.string().optional(),
 });
 
 type LocationFormData = z.infer<typeof locationFormSchema>;
@@ -81,6 +83,8 @@ export function LocationForm({
       square_footage: initialData?.square_footage || "",
       manager_id: initialData?.manager_id || "",
       status: initialData?.status || "active",
+      business_open: initialData?.business_open || "",
+      business_close: initialData?.business_close || "",
     },
   });
 
@@ -92,14 +96,26 @@ export function LocationForm({
     setSubmitting(true);
 
     try {
+      const { business_open, business_close, ...rest } = data;
+
       // Convert square_footage to number if provided
       const payload = {
-        ...data,
+        ...rest,
         square_footage: data.square_footage
           ? parseFloat(data.square_footage)
           : undefined,
         manager_id: data.manager_id || undefined,
         state: data.state || undefined,
+        // Weekday hours in the browser's timezone; used by ticket auto-routing
+        business_hours:
+          business_open && business_close
+            ? {
+                timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+                days: [1, 2, 3, 4, 5],
+                open: business_open,
+                close: business_close,
+              }
+            : undefined,
       };
 
       if (locationId) {
@@ -227,6 +243,28 @@ export function LocationForm({
           )}
         </div>
 
+        {/* Business Hours */}
+        <div className="space-y-2">
+          <Label htmlFor="business_open">Business Hours Open</Label>
+          <Input
+            id="business_open"
+            {...register("business_open")}
+            type="time"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="business_close">Business Hours Close</Label>
+          <Input
+            id="business_close"
+            {...register("business_close")}
+            type="time"
+          />
+          <p className="text-sm text-muted-foreground">
+            Weekdays. Urgent tickets outside these hours go to on-call.
+          </p>
+        </div>
+
         {/* Status */}
         <div className="space-y-2 md:col-span-2">
           <Label htmlFor="status">Status</Label>
@@ -0,0 +1,208 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import type { PMChecklistItem, PMChecklistItemType } from "@/types";
+
+interface ChecklistEditorProps {
+  items: PMChecklistItem[];
+  onChange: (items: PMChecklistItem[]) => void;
+}
+
+const itemTypeOptions: { value: PMChecklistItemType; label: string }[] = [
+  { value: "pass_fail", label: "Pass / Fail" },
+  { value: "reading", label: "Reading" },
+  { value: "text", label: "Text" },
+  { value: "photo", label: "Photo" },
+];
+
+function parseNumber(value: string): number | null {
+  return value.trim() === "" ? null : Number(value);
+}
+
+export function ChecklistEditor({ items, onChange }: ChecklistEditorProps) {
+  const updateItem = (index: number, changes: Partial<PMChecklistItem>) => {
+    onChange(
+      items.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    );
+  };
+
+  const moveItem = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= items.length) return;
+    const next = [...items];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const addItem = () => {
+    onChange([
+      ...items,
+      {
+        id: crypto.randomUUID(),
+        label: "",
+        type: "pass_fail",
+        required: true,
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {items.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No checklist items. Generated work orders will not have a checklist.
+        </p>
+      )}
+
+      {items.map((item, index) => (
+        <div key={item.id} className="space-y-3 rounded-md border p-3">
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+            <Input
+              value={item.label}
+              onChange={(e) => updateItem(index, { label: e.target.value })}
+              placeholder="e.g., Check refrigerant pressure"
+              className="flex-1"
+            />
+            <Select
+              value={item.type}
+              onValueChange={(value) =>
+                updateItem(index, {
+                  type: value as PMChecklistItemType,
+                  ...(value !== "reading" && { meter_reading: undefined }),
+                })
+              }
+            >
+              <SelectTrigger className="sm:w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {itemTypeOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => moveItem(index, -1)}
+                disabled={index === 0}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => moveItem(index, 1)}
+                disabled={index === items.length - 1}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange(items.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {item.type === "reading" && (
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">Unit</Label>
+                <Input
+                  value={item.unit ?? ""}
+                  onChange={(e) =>
+                    updateItem(index, { unit: e.target.value || null })
+                  }
+                  placeholder="e.g., psi"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Min</Label>
+                <Input
+                  type="number"
+                  step="any"
+                  value={item.min ?? ""}
+                  onChange={(e) =>
+                    updateItem(index, { min: parseNumber(e.target.value) })
+                  }
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Max</Label>
+                <Input
+                  type="number"
+                  step="any"
+                  value={item.max ?? ""}
+                  onChange={(e) =>
+                    updateItem(index, { max: parseNumber(e.target.value) })
+                  }
+                />
+              </div>
+            </div>
+          )}
+
+          {item.type === "reading" && (
+            <div className="flex items-center gap-2">
+              <Switch
+                id={`meter-${item.id}`}
+                checked={!!item.meter_reading}
+                onCheckedChange={(checked) =>
+                  updateItem(index, { meter_reading: checked })
+                }
+              />
+              <Label htmlFor={`meter-${item.id}`} className="text-sm">
+                Updates the schedule&apos;s asset meter
+              </Label>
+            </div>
+          )}
+
+          <Input
+            value={item.instructions ?? ""}
+            onChange={(e) =>
+              updateItem(index, { instructions: e.target.value || null })
+            }
+            placeholder="Instructions (optional)"
+          />
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id={`required-${item.id}`}
+              checked={item.required}
+              onCheckedChange={(checked) =>
+                updateItem(index, { required: checked })
+              }
+            />
+            <Label htmlFor={`required-${item.id}`} className="text-sm">
+              Required to complete
+            </Label>
+          </div>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" onClick={addItem}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add Item
+      </Button>
+    </div>
+  );
+}
@@ -67,7 +67,7 @@ export function PMCalendar({ assetId: _assetId }: PMCalendarProps) {
           name: schedule.name,
           target: schedule.asset_name || schedule.location_name || "Unknown",
           targetType: schedule.asset_name ? "asset" : "location",
-          frequency: schedule.frequency,
+          frequency: schedule.frequency ?? "meter",
           dueDate: schedule.next_due_date,
           isOverdue: daysDiff < 0,
           isDueToday: daysDiff === 0,
@@ -26,6 +26,7 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Info } from "lucide-react";
 import { Spinner } from "@/components/ui/loaders";
+import { useAssetMeters } from "@/hooks/use-assets";
 
 // Schema aligned with backend createPMScheduleSchema
 const formSchema = z
@@ -45,6 +46,10 @@ const formSchema = z
       "semi_annually",
       "annually",
     ]),
+    scheduling_mode: z.enum(["fixed", "floating"]),
+    trigger_type: z.enum(["calendar", "meter", "calendar_or_meter"]),
+    meter_id: z.string().nullable().optional(),
+    meter_interval: z.number().positive().nullable().optional(),
     day_of_week: z.number().int().min(0).max(6).nullable().optional(),
     day_of_month: z.number().int().min(1).max(31).nullable().optional(),
     month_of_year: z.number().int().min(1).max(12).nullable().optional(),
@@ -59,13 +64,28 @@ const formSchema = z
       return false;
     },
     { message: "Please select an asset or location", path: ["asset_id"] },
+  )
+  .refine(
+    (data) =>
+      data.trigger_type === "calendar" ||
+      (data.target_type === "asset" && !!data.meter_id),
+    { message: "Select a meter on the asset", path: ["meter_id"] },
+  )
+  .refine(
+    (data) => data.trigger_type === "calendar" || !!data.meter_interval,
+    { message: "Meter interval is required", path: ["meter_interval"] },
   );
 
 type FormValues = z.infer<typeof formSchema>;
 
+// Meter-only schedules are submitted without a frequency
+type SubmitValues = Omit<FormValues, "frequency"> & {
+  frequency: FormValues["frequency"] | null;
+};
+
 interface PMScheduleFormProps {
   initialData?: Partial<FormValues>;
-  onSubmit: (data: FormValues) => void | Promise<void>;
+  onSubmit: (data: SubmitValues) => void | Promise<void>;
   onCancel?: () => void;
   isSubmitting?: boolean;
   mode?: "create" | "edit";
@@ -133,6 +153,10 @@ export function PMScheduleForm({
       asset_id: initialData?.asset_id || null,
       location_id: initialData?.location_id || null,
       frequency: initialData?.frequency || "monthly",
+      scheduling_mode: initialData?.scheduling_mode || "fixed",
+      trigger_type: initialData?.trigger_type || "calendar",
+      meter_id: initialData?.meter_id || null,
+      meter_interval: initialData?.meter_interval ?? null,
       day_of_week: initialData?.day_of_week ?? null,
       day_of_month: initialData?.day_of_month ?? null,
       month_of_year: initialData?.month_of_year ?? null,
@@ -143,11 +167,19 @@ export function PMScheduleForm({
   });
 
   // Consolidate watches to reduce re-render cascades
-  const [targetType, frequency, selectedTemplateId] = form.watch([
-    "target_type",
-    "frequency",
-    "template_id",
-  ]);
+  const [targetType, frequency, selectedTemplateId, triggerType, assetId] =
+    form.watch([
+      "target_type",
+      "frequency",
+      "template_id",
+      "trigger_type",
+      "asset_id",
+    ]);
+
+  const { data: meters = [] } = useAssetMeters(
+    targetType === "asset" ? (assetId ?? null) : null,
+  );
+  const selectedMeter = meters.find((m) => m.id === form.watch("meter_id"));
 
   // Memoize template lookup
   const selectedTemplate = useMemo(() => {
@@ -178,9 +210,18 @@ export function PMScheduleForm({
       form.setValue("location_id", null);
     } else {
       form.setValue("asset_id", null);
+      form.setValue("trigger_type", "calendar");
     }
   }, [targetType, form]);
 
+  // Meters belong to one asset; drop a selection the new asset doesn't have
+  useEffect(() => {
+    const meterId = form.getValues("meter_id");
+    if (meterId && meters.length > 0 && !meters.some((m) => m.id === meterId)) {
+      form.setValue("meter_id", null);
+    }
+  }, [meters, form]);
+
   // Reset scheduling fields when frequency changes
   useEffect(() => {
     const resetFields = () => {
@@ -201,23 +242,31 @@ export function PMScheduleForm({
 
   const handleSubmit = (data: FormValues) => {
     // Clean up data before submission
+    const usesMeter = data.trigger_type !== "calendar";
     const cleanData = {
       ...data,
       asset_id: data.target_type === "asset" ? data.asset_id : null,
       location_id: data.target_type === "location" ? data.location_id : null,
+      frequency: data.trigger_type === "meter" ? null : data.frequency,
+      meter_id: usesMeter ? data.meter_id : null,
+      meter_interval: usesMeter ? data.meter_interval : null,
     };
     onSubmit(cleanData);
   };
 
   // Determine which scheduling fields to show
-  const showDayOfWeek = frequency === "weekly" || frequency === "biweekly";
+  const showCalendar = triggerType !== "meter";
+  const showMeter = triggerType !== "calendar";
+  const showDayOfWeek =
+    showCalendar && (frequency === "weekly" || frequency === "biweekly");
   const showDayOfMonth =
-    frequency === "monthly" ||
-    frequency === "quarterly" ||
-    frequency === "semi_annually" ||
-    frequency === "annually";
+    showCalendar &&
+    (frequency === "monthly" ||
+      frequency === "quarterly" ||
+      frequency === "semi_annually" ||
+      frequency === "annually");
   const showMonthOfYear =
-    frequency === "semi_annually" || frequency === "annually";
+    showCalendar && (frequency === "semi_annually" || frequency === "annually");
 
   return (
     <Form {...form}>
@@ -431,6 +480,102 @@ export function PMScheduleForm({
             <h4 className="text-sm font-medium text-muted-foreground border-b pb-1">
               Schedule
             </h4>
+            {targetType === "asset" && (
+              <FormField
+                control={form.control}
+                name="trigger_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs">Trigger</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="calendar">Calendar</SelectItem>
+                        <SelectItem value="meter">Meter reading</SelectItem>
+                        <SelectItem value="calendar_or_meter">
+                          Calendar or meter (whichever first)
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {showMeter && (
+              <div className="grid gap-3 grid-cols-1 sm:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="meter_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-xs">Meter *</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value || undefined}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue
+                              placeholder={
+                                meters.length > 0
+                                  ? "Select meter..."
+                                  : "Asset has no meters"
+                              }
+                            />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {meters.map((meter) => (
+                            <SelectItem key={meter.id} value={meter.id}>
+                              {meter.name} ({meter.unit})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="meter_interval"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-xs">
+                        Every {selectedMeter?.unit ?? "units"} *
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="any"
+                          min={0}
+                          placeholder="e.g., 500"
+                          {...field}
+                          value={field.value ?? ""}
+                          onChange={(e) =>
+                            field.onChange(
+                              e.target.value
+                                ? parseFloat(e.target.value)
+                                : null,
+                            )
+                          }
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            {showCalendar && (
             <FormField
               control={form.control}
               name="frequency"
@@ -459,6 +604,35 @@ export function PMScheduleForm({
                 </FormItem>
               )}
             />
+            )}
+
+            {triggerType === "calendar" && (
+            <FormField
+              control={form.control}
+              name="scheduling_mode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs">Next Date</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="fixed">
+                        Fixed (follows the calendar)
+                      </SelectItem>
+                      <SelectItem value="floating">
+                        Floating (counts from completion)
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            )}
 
             <div className="grid gap-3 grid-cols-1 sm:grid-cols-2">
               {showDayOfWeek && (
@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { format as formatDate } from "date-fns";
+import { Download, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import type { LabelFormatId } from "@/lib/export/labels";
+import type { LabelSheet } from "@/services/qr-label.service";
+
+const FORMAT_OPTIONS: Record<LabelFormatId, string> = {
+  avery_5160: 'Avery 5160 - 1" x 2-5/8", 30 per sheet',
+  avery_22806: 'Avery 22806 - 2" x 2" square, 12 per sheet',
+};
+
+interface PrintLabelsDialogProps {
+  title: string;
+  description: string;
+  triggerLabel?: string;
+  // Extra fields shown above the sheet format, e.g. which location
+  children?: React.ReactNode;
+  isPending: boolean;
+  onGenerate: (format: LabelFormatId) => Promise<LabelSheet>;
+}
+
+/**
+ * Picks a label sheet format, generates the PDF and links to it
+ */
+export function PrintLabelsDialog({
+  title,
+  description,
+  triggerLabel = "Print Labels",
+  children,
+  isPending,
+  onGenerate,
+}: PrintLabelsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<LabelFormatId>("avery_5160");
+  const [result, setResult] = useState<LabelSheet | null>(null);
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (!value) setResult(null);
+  };
+
+  const handleGenerate = async () => {
+    try {
+      setResult(await onGenerate(format));
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to generate labels",
+      );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Printer className="mr-2 h-4 w-4" />
+          <span className="hidden sm:inline">{triggerLabel}</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="space-y-3 text-sm">
+            <p>
+              {result.labels} label(s) on {result.sheets} sheet(s).
+            </p>
+            {result.skipped > 0 && (
+              <p className="text-muted-foreground">
+                {result.skipped} asset(s) have no QR code and were left off.
+              </p>
+            )}
+            <p className="text-muted-foreground">
+              The link expires at{" "}
+              {formatDate(new Date(result.expires_at), "h:mm a")}. Print at 100%
+              scale.
+            </p>
+            <Button asChild>
+              <a href={result.url} download={result.file_name}>
+                <Download className="mr-2 h-4 w-4" />
+                Download PDF
+              </a>
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {children}
+            <div className="space-y-1">
+              <Label>Label Sheet</Label>
+              <Select
+                value={format}
+                onValueChange={(value) => setFormat(value as LabelFormatId)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FORMAT_OPTIONS).map(([id, label]) => (
+                    <SelectItem key={id} value={id}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        {!result && (
+          <DialogFooter>
+            <Button onClick={handleGenerate} disabled={isPending}>
+              {isPending ? "Generating..." : "Generate"}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
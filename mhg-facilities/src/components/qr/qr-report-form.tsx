@@ -0,0 +1,254 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, CheckCircle2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { StatusBadge } from "@/components/tickets/status-badge";
+import api from "@/lib/api-client";
+import type {
+  PublicReportResult,
+  PublicTicketSummary,
+} from "@/services/public-asset-report.service";
+
+const MAX_PHOTOS = 5;
+
+interface QRReportFormProps {
+  code: string;
+}
+
+/**
+ * Problem report for a QR-coded asset. Similar recent tickets are shown
+ * before submitting so reporters can see it's already known.
+ */
+export function QRReportForm({ code }: QRReportFormProps) {
+  const [formData, setFormData] = useState({
+    title: "",
+    description: "",
+    reporter_name: "",
+    reporter_phone: "",
+  });
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [duplicates, setDuplicates] = useState<PublicTicketSummary[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<PublicReportResult | null>(null);
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (files.length > MAX_PHOTOS) {
+      setError(`You can attach up to ${MAX_PHOTOS} photos`);
+      e.target.value = "";
+      return;
+    }
+    setError(null);
+    setPhotos(files);
+  };
+
+  const submitReport = async () => {
+    const body = new FormData();
+    body.append("title", formData.title);
+    if (formData.description) body.append("description", formData.description);
+    if (formData.reporter_name) {
+      body.append("reporter_name", formData.reporter_name);
+    }
+    if (formData.reporter_phone) {
+      body.append("reporter_phone", formData.reporter_phone);
+    }
+    photos.forEach((photo) => body.append("photos", photo));
+
+    setResult(await api.upload<PublicReportResult>(`/api/qr/${code}`, body));
+  };
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    if (formData.title.trim().length < 5) {
+      setError("Please describe the problem in at least 5 characters");
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      // Check for duplicates first
+      try {
+        const check = await api.post<{
+          has_duplicates: boolean;
+          duplicates: PublicTicketSummary[];
+        }>(`/api/qr/${code}/duplicates`, { title: formData.title });
+
+        if (check.has_duplicates) {
+          setDuplicates(check.duplicates);
+          return;
+        }
+      } catch (err) {
+        // If the duplicate check fails, report anyway
+        console.error("Error checking duplicates:", err);
+      }
+
+      await submitReport();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to submit your report",
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  async function handleReportAnyway() {
+    setError(null);
+    setSubmitting(true);
+    try {
+      await submitReport();
+      setDuplicates([]);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to submit your report",
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  if (result) {
+    return (
+      <Alert>
+        <CheckCircle2 className="h-4 w-4" />
+        <AlertTitle>Thanks, your report was sent</AlertTitle>
+        <AlertDescription>
+          The facilities team has it as ticket #{result.ticket_number}.
+          {result.photos_uploaded < photos.length &&
+            " Some photos couldn't be uploaded."}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="title">What&apos;s wrong?</Label>
+        <Input
+          id="title"
+          value={formData.title}
+          onChange={(e) => {
+            setFormData({ ...formData, title: e.target.value });
+            setDuplicates([]);
+          }}
+          required
+          maxLength={200}
+          placeholder="e.g. Freezer is not holding temperature"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="description">Details (optional)</Label>
+        <Textarea
+          id="description"
+          value={formData.description}
+          onChange={(e) =>
+            setFormData({ ...formData, description: e.target.value })
+          }
+          maxLength={5000}
+          rows={4}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="photos">Photos (optional)</Label>
+        <Input
+          id="photos"
+          type="file"
+          accept="image/*"
+          multiple
+          onChange={handlePhotoChange}
+        />
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="reporter_name">Your name (optional)</Label>
+          <Input
+            id="reporter_name"
+            value={formData.reporter_name}
+            onChange={(e) =>
+              setFormData({ ...formData, reporter_name: e.target.value })
+            }
+            maxLength={100}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="reporter_phone">Phone (optional)</Label>
+          <Input
+            id="reporter_phone"
+            type="tel"
+            value={formData.reporter_phone}
+            onChange={(e) =>
+              setFormData({ ...formData, reporter_phone: e.target.value })
+            }
+            maxLength={20}
+          />
+        </div>
+      </div>
+
+      {duplicates.length > 0 ? (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>This may already be reported</AlertTitle>
+          <AlertDescription className="mt-2 space-y-3">
+            <ul className="space-y-2">
+              {duplicates.map((ticket) => (
+                <li
+                  key={ticket.ticket_number}
+                  className="flex items-center justify-between gap-2"
+                >
+                  <span>
+                    #{ticket.ticket_number} - {ticket.title}
+                  </span>
+                  <StatusBadge status={ticket.status} />
+                </li>
+              ))}
+            </ul>
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDuplicates([])}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                variant="destructive"
+                onClick={handleReportAnyway}
+                disabled={submitting}
+              >
+                Report Anyway
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <Button
+          type="submit"
+          className="w-full min-h-[44px]"
+          disabled={submitting}
+        >
+          {submitting ? "Sending..." : "Report Problem"}
+        </Button>
+      )}
+    </form>
+  );
+}
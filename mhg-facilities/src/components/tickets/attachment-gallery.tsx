@@ -13,7 +13,7 @@ import {
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 
-type AttachmentType = "photo" | "invoice" | "quote" | "other";
+type AttachmentType = "photo" | "completion" | "invoice" | "quote" | "other";
 
 interface Attachment {
   id: string;
@@ -51,6 +51,11 @@ const attachmentTypeConfig: Record<
     icon: FileImage,
     badgeClass: "bg-blue-100 text-blue-800",
   },
+  completion: {
+    label: "Completion",
+    icon: FileImage,
+    badgeClass: "bg-teal-100 text-teal-800",
+  },
   invoice: {
     label: "Invoice",
     icon: FileText,
@@ -47,22 +47,50 @@ const attachmentSchema = z.object({
         ),
       "Only JPEG, PNG, WebP, and PDF files are allowed",
     ),
-  attachment_type: z.enum(["photo", "invoice", "quote", "other"]),
+  attachment_type: z.enum([
+    "photo",
+    "progress",
+    "completion",
+    "invoice",
+    "quote",
+    "other",
+  ]),
 });
 
 type AttachmentFormValues = z.infer<typeof attachmentSchema>;
 
+export type AttachmentUploadType = AttachmentFormValues["attachment_type"];
+
+const TYPE_LABELS: Record<AttachmentUploadType, string> = {
+  photo: "Photo",
+  progress: "Progress Photo",
+  completion: "Completion Photo",
+  invoice: "Invoice",
+  quote: "Quote",
+  other: "Other Document",
+};
+
+const DEFAULT_TYPES: AttachmentUploadType[] = [
+  "photo",
+  "invoice",
+  "quote",
+  "other",
+];
+
 interface AttachmentUploadProps {
   onUpload: (data: {
     file: File;
-    attachment_type: "photo" | "invoice" | "quote" | "other";
+    attachment_type: AttachmentUploadType;
   }) => void | Promise<void>;
+  /** Attachment types offered in the picker; the first is the default */
+  types?: AttachmentUploadType[];
   onCancel?: () => void;
 }
 
 export function AttachmentUpload({
   onUpload,
   onCancel,
+  types = DEFAULT_TYPES,
 }: AttachmentUploadProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [preview, setPreview] = useState<string | null>(null);
@@ -71,7 +99,7 @@ export function AttachmentUpload({
   const form = useForm<AttachmentFormValues>({
     resolver: zodResolver(attachmentSchema),
     defaultValues: {
-      attachment_type: "photo",
+      attachment_type: types[0],
     },
   });
 
@@ -154,15 +182,18 @@ export function AttachmentUpload({
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      <SelectItem value="photo">
-                        <div className="flex items-center gap-2">
-                          <FileImage className="h-4 w-4 text-blue-600" />
-                          Photo
-                        </div>
-                      </SelectItem>
-                      <SelectItem value="invoice">Invoice</SelectItem>
-                      <SelectItem value="quote">Quote</SelectItem>
-                      <SelectItem value="other">Other Document</SelectItem>
+                      {types.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {type === "photo" ? (
+                            <div className="flex items-center gap-2">
+                              <FileImage className="h-4 w-4 text-blue-600" />
+                              Photo
+                            </div>
+                          ) : (
+                            TYPE_LABELS[type]
+                          )}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <FormDescription>
@@ -7,6 +7,7 @@ import { z } from "zod";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormMessage,
@@ -75,6 +76,9 @@ export function CommentForm({
                   {...field}
                 />
               </FormControl>
+              <FormDescription>
+                Type @ and a teammate&apos;s full name to notify them
+              </FormDescription>
               <FormMessage />
             </FormItem>
           )}
@@ -0,0 +1,329 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  useDecideCostApproval,
+  useRequestCostApproval,
+  useTicketCostApprovals,
+} from "@/hooks/use-tickets";
+import { DollarSign } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { TicketStatus } from "@/types/database";
+import type {
+  CostApprovalSource,
+  CostApprovalStatus,
+  CostApproverRole,
+} from "@/types/database-extensions";
+
+interface CostApprovalCardProps {
+  ticketId: string;
+  status: TicketStatus;
+  estimatedCost: number | null;
+  userRole: string | undefined;
+  userId?: string;
+  vendors: { id: string; name: string }[];
+}
+
+// Approver roles, lowest first
+const APPROVER_ROLES: CostApproverRole[] = ["manager", "admin", "super_admin"];
+
+const ROLE_LABELS: Record<CostApproverRole, string> = {
+  manager: "Manager",
+  admin: "Admin",
+  super_admin: "Owner",
+};
+
+const STATUS_STYLES: Record<CostApprovalStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+  approved: "bg-green-100 text-green-800 hover:bg-green-100",
+  denied: "bg-red-100 text-red-800 hover:bg-red-100",
+};
+
+// Ticket states a cost can be submitted from
+const REQUESTABLE_STATES: TicketStatus[] = [
+  "submitted",
+  "in_progress",
+  "needs_approval",
+];
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount);
+}
+
+function canApprove(role: string | undefined, required: CostApproverRole) {
+  const rank = APPROVER_ROLES.indexOf(role as CostApproverRole);
+  return rank >= 0 && rank >= APPROVER_ROLES.indexOf(required);
+}
+
+export function CostApprovalCard({
+  ticketId,
+  status,
+  estimatedCost,
+  userRole,
+  userId,
+  vendors,
+}: CostApprovalCardProps) {
+  const { data: approvals = [] } = useTicketCostApprovals(ticketId);
+  const requestApproval = useRequestCostApproval(ticketId);
+  const decideApproval = useDecideCostApproval(ticketId);
+  const [amount, setAmount] = useState("");
+  const [source, setSource] = useState<CostApprovalSource>("estimate");
+  const [vendorId, setVendorId] = useState("");
+  const [requestNotes, setRequestNotes] = useState("");
+  const [decisionNotes, setDecisionNotes] = useState("");
+
+  const pending = approvals.find((a) => a.status === "pending");
+  const latest = approvals[0];
+  // Vendors submit their own quotes; the API links the quote to their vendor
+  const isVendor = userRole === "vendor";
+  const canSubmit =
+    !pending && REQUESTABLE_STATES.includes(status) && userRole !== "readonly";
+
+  if (approvals.length === 0 && !canSubmit) return null;
+
+  const handleRequest = async () => {
+    try {
+      await requestApproval.mutateAsync({
+        amount: Number(amount),
+        source: isVendor ? "quote" : source,
+        vendor_id:
+          !isVendor && source === "quote" && vendorId ? vendorId : null,
+        notes: requestNotes.trim() || undefined,
+      });
+      setAmount("");
+      setVendorId("");
+      setRequestNotes("");
+      toast.success("Cost submitted");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to submit cost",
+      );
+    }
+  };
+
+  const handleDecision = async (decision: "approve" | "deny") => {
+    if (!pending) return;
+    try {
+      await decideApproval.mutateAsync({
+        approvalId: pending.id,
+        decision,
+        notes: decisionNotes,
+      });
+      setDecisionNotes("");
+      toast.success(decision === "approve" ? "Cost approved" : "Cost denied");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to record decision",
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DollarSign className="h-5 w-5" />
+          Cost Approval
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <div>
+          <p className="font-medium text-gray-500">Estimated cost</p>
+          <p className="text-gray-900">
+            {estimatedCost != null
+              ? formatCurrency(Number(estimatedCost))
+              : "No estimate yet"}
+          </p>
+        </div>
+
+        {pending && (
+          <div className="space-y-3 rounded-md border border-yellow-300 bg-yellow-50 p-3">
+            <p className="font-medium text-yellow-900">
+              {formatCurrency(Number(pending.amount))}{" "}
+              {pending.source === "quote" ? "vendor quote" : "estimate"}{" "}
+              awaiting{" "}
+              {ROLE_LABELS[pending.required_role ?? "manager"].toLowerCase()}{" "}
+              approval
+            </p>
+            <p className="text-yellow-800">
+              Submitted by {pending.requested_by_user?.full_name ?? "Unknown"}
+              {pending.vendor && ` · ${pending.vendor.name}`}
+            </p>
+            {pending.request_notes && (
+              <p className="text-yellow-800">{pending.request_notes}</p>
+            )}
+
+            {/* Requesters can't decide their own costs */}
+            {canApprove(userRole, pending.required_role ?? "manager") &&
+              pending.requested_by !== userId && (
+                <div className="space-y-2">
+                  <Textarea
+                    placeholder="Decision notes (required)"
+                    value={decisionNotes}
+                    onChange={(e) => setDecisionNotes(e.target.value)}
+                    rows={2}
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDecision("deny")}
+                      disabled={
+                        !decisionNotes.trim() || decideApproval.isPending
+                      }
+                    >
+                      Deny
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => handleDecision("approve")}
+                      disabled={
+                        !decisionNotes.trim() || decideApproval.isPending
+                      }
+                    >
+                      Approve
+                    </Button>
+                  </div>
+                </div>
+              )}
+          </div>
+        )}
+
+        {status === "needs_approval" && latest?.status === "denied" && (
+          <p className="text-red-700">
+            The last cost was denied. Submit a revised cost before work can
+            start.
+          </p>
+        )}
+
+        {canSubmit && (
+          <div className="space-y-2 rounded-md border p-3">
+            <div className="grid gap-2 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="cost-amount">Amount ($)</Label>
+                <Input
+                  id="cost-amount"
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  placeholder="0.00"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+              {!isVendor && (
+                <div className="space-y-1">
+                  <Label>Source</Label>
+                  <Select
+                    value={source}
+                    onValueChange={(value) =>
+                      setSource(value as CostApprovalSource)
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="estimate">Estimate</SelectItem>
+                      <SelectItem value="quote">Vendor quote</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            {!isVendor && source === "quote" && (
+              <Select value={vendorId} onValueChange={setVendorId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Quoting vendor" />
+                </SelectTrigger>
+                <SelectContent>
+                  {vendors.map((vendor) => (
+                    <SelectItem key={vendor.id} value={vendor.id}>
+                      {vendor.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Textarea
+              placeholder="Notes for the approver (optional)"
+              value={requestNotes}
+              onChange={(e) => setRequestNotes(e.target.value)}
+              rows={2}
+            />
+            <div className="flex justify-end">
+              <Button
+                size="sm"
+                onClick={handleRequest}
+                disabled={amount.trim() === "" || requestApproval.isPending}
+              >
+                Submit for Approval
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {approvals.some((a) => a.status !== "pending") && (
+          <>
+            <Separator />
+            <div className="space-y-3">
+              {approvals
+                .filter((a) => a.status !== "pending")
+                .map((approval) => (
+                  <div key={approval.id} className="space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-gray-900">
+                        {formatCurrency(Number(approval.amount))}
+                        <span className="ml-1 text-gray-500">
+                          {approval.source === "quote" ? "quote" : "estimate"}
+                        </span>
+                      </span>
+                      <Badge
+                        className={cn(
+                          "font-medium capitalize",
+                          STATUS_STYLES[approval.status],
+                        )}
+                      >
+                        {approval.status}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {approval.decided_by_user
+                        ? `${approval.decided_by_user.full_name}`
+                        : "Automatic"}
+                      {approval.decided_at &&
+                        ` · ${format(new Date(approval.decided_at), "MMM d, h:mm a")}`}
+                    </p>
+                    {approval.decision_notes && (
+                      <p className="text-xs text-gray-600">
+                        {approval.decision_notes}
+                      </p>
+                    )}
+                  </div>
+                ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,346 @@
+"use client";
+
+import { useRef, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  useTicketChecklist,
+  useSaveTicketChecklist,
+  useUploadAttachment,
+} from "@/hooks/use-tickets";
+import {
+  AlertTriangle,
+  Camera,
+  Check,
+  ClipboardCheck,
+  Loader2,
+  X,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import type {
+  PMChecklistItem,
+  PMChecklistItemResult,
+  PMChecklistResults,
+} from "@/types";
+
+interface PMChecklistRunnerProps {
+  ticketId: string;
+  /** Answers can only be changed while the ticket is in progress */
+  editable: boolean;
+}
+
+function isOutOfRange(item: PMChecklistItem, value: number | null | undefined) {
+  if (value == null) return false;
+  return (
+    (item.min != null && value < item.min) ||
+    (item.max != null && value > item.max)
+  );
+}
+
+function rangeLabel(item: PMChecklistItem): string | null {
+  const unit = item.unit ? ` ${item.unit}` : "";
+  if (item.min != null && item.max != null) {
+    return `${item.min}–${item.max}${unit}`;
+  }
+  if (item.min != null) return `≥ ${item.min}${unit}`;
+  if (item.max != null) return `≤ ${item.max}${unit}`;
+  return null;
+}
+
+export function PMChecklistRunner({
+  ticketId,
+  editable,
+}: PMChecklistRunnerProps) {
+  const { data: checklist } = useTicketChecklist(ticketId);
+  const saveChecklist = useSaveTicketChecklist(ticketId);
+
+  if (!checklist) return null;
+
+  const resultsById = new Map(
+    checklist.results.items.map((r) => [r.item_id, r]),
+  );
+  const missingIds = new Set(checklist.evaluation.missing.map((i) => i.id));
+  const failedCount = checklist.evaluation.failed.length;
+  const canEdit = editable && !checklist.completed;
+
+  const saveItem = async (
+    itemId: string,
+    changes: Partial<PMChecklistItemResult>,
+  ) => {
+    const results: PMChecklistResults = {
+      items: [{ ...resultsById.get(itemId), ...changes, item_id: itemId }],
+    };
+    try {
+      await saveChecklist.mutateAsync(results);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save checklist",
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          PM Checklist
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          {saveChecklist.isPending && (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          )}
+          {failedCount > 0 && (
+            <Badge className="bg-red-100 text-red-800 hover:bg-red-100">
+              {failedCount} failed
+            </Badge>
+          )}
+          {checklist.evaluation.complete ? (
+            <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+              Complete
+            </Badge>
+          ) : (
+            <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100">
+              {missingIds.size} required remaining
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!editable && !checklist.completed && (
+          <p className="text-sm text-muted-foreground">
+            Start work on this ticket to fill in the checklist.
+          </p>
+        )}
+        {failedCount > 0 && canEdit && (
+          <p className="text-sm text-muted-foreground">
+            A follow-up ticket is created for each failed item when this ticket
+            is completed.
+          </p>
+        )}
+
+        {checklist.checklist.items.map((item) => (
+          <ChecklistItemRow
+            key={item.id}
+            ticketId={ticketId}
+            item={item}
+            result={resultsById.get(item.id)}
+            missing={missingIds.has(item.id)}
+            updatesMeter={!!item.meter_reading && !!checklist.meter_id}
+            disabled={!canEdit}
+            onSave={(changes) => saveItem(item.id, changes)}
+          />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ChecklistItemRow({
+  ticketId,
+  item,
+  result,
+  missing,
+  updatesMeter,
+  disabled,
+  onSave,
+}: {
+  ticketId: string;
+  item: PMChecklistItem;
+  result: PMChecklistItemResult | undefined;
+  missing: boolean;
+  updatesMeter: boolean;
+  disabled: boolean;
+  onSave: (changes: Partial<PMChecklistItemResult>) => Promise<void>;
+}) {
+  const [reading, setReading] = useState<string>(
+    result?.value != null ? String(result.value) : "",
+  );
+  const [text, setText] = useState(result?.text ?? "");
+  const [notes, setNotes] = useState(result?.notes ?? "");
+  const fileInput = useRef<HTMLInputElement>(null);
+  const uploadAttachment = useUploadAttachment(ticketId);
+
+  const readingValue = reading.trim() === "" ? null : Number(reading);
+  const range = rangeLabel(item);
+
+  const handlePhoto = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const response = (await uploadAttachment.mutateAsync({
+        file,
+        attachment_type: "completion",
+      })) as { attachment?: { id: string } };
+      if (response.attachment) {
+        await onSave({
+          attachment_ids: [
+            ...(result?.attachment_ids ?? []),
+            response.attachment.id,
+          ],
+        });
+      }
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to upload photo",
+      );
+    } finally {
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        "space-y-2 rounded-md border p-3",
+        missing && !disabled && "border-yellow-300 bg-yellow-50/50",
+      )}
+    >
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <p className="font-medium text-gray-900">
+            {item.label}
+            {item.required && <span className="ml-1 text-red-600">*</span>}
+          </p>
+          {item.instructions && (
+            <p className="text-sm text-muted-foreground">{item.instructions}</p>
+          )}
+        </div>
+
+        {item.type === "pass_fail" && (
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant={result?.passed === true ? "default" : "outline"}
+              className={cn(
+                "min-h-[40px]",
+                result?.passed === true && "bg-green-600 hover:bg-green-700",
+              )}
+              disabled={disabled}
+              onClick={() => onSave({ passed: true })}
+            >
+              <Check className="mr-1 h-4 w-4" />
+              Pass
+            </Button>
+            <Button
+              size="sm"
+              variant={result?.passed === false ? "destructive" : "outline"}
+              className="min-h-[40px]"
+              disabled={disabled}
+              onClick={() => onSave({ passed: false })}
+            >
+              <X className="mr-1 h-4 w-4" />
+              Fail
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {item.type === "reading" && (
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              step="any"
+              className="max-w-[180px]"
+              value={reading}
+              disabled={disabled}
+              onChange={(e) => setReading(e.target.value)}
+              onBlur={() => {
+                if (readingValue !== (result?.value ?? null)) {
+                  onSave({ value: readingValue });
+                }
+              }}
+            />
+            {item.unit && (
+              <span className="text-sm text-muted-foreground">{item.unit}</span>
+            )}
+            {range && (
+              <span className="text-sm text-muted-foreground">
+                Expected {range}
+              </span>
+            )}
+            {updatesMeter && (
+              <span className="text-sm text-muted-foreground">
+                Updates asset meter
+              </span>
+            )}
+          </div>
+          {isOutOfRange(item, readingValue) && (
+            <p className="flex items-center gap-1 text-sm text-red-700">
+              <AlertTriangle className="h-4 w-4" />
+              Reading is outside the expected range
+            </p>
+          )}
+        </div>
+      )}
+
+      {item.type === "text" && (
+        <Textarea
+          rows={2}
+          value={text}
+          disabled={disabled}
+          onChange={(e) => setText(e.target.value)}
+          onBlur={() => {
+            if (text !== (result?.text ?? "")) onSave({ text });
+          }}
+        />
+      )}
+
+      {item.type === "photo" && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            ref={fileInput}
+            type="file"
+            accept="image/*"
+            capture="environment"
+            className="hidden"
+            onChange={(e) => handlePhoto(e.target.files?.[0])}
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            className="min-h-[40px]"
+            disabled={disabled || uploadAttachment.isPending}
+            onClick={() => fileInput.current?.click()}
+          >
+            {uploadAttachment.isPending ? (
+              <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+            ) : (
+              <Camera className="mr-1 h-4 w-4" />
+            )}
+            Add Photo
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            {result?.attachment_ids?.length ?? 0} photo(s) attached
+          </span>
+        </div>
+      )}
+
+      {(item.type === "pass_fail" || item.type === "reading") && (
+        <Input
+          placeholder="Notes (optional)"
+          value={notes}
+          disabled={disabled}
+          onChange={(e) => setNotes(e.target.value)}
+          onBlur={() => {
+            if (notes !== (result?.notes ?? "")) onSave({ notes });
+          }}
+        />
+      )}
+
+      {result?.follow_up_ticket_id && (
+        <Link
+          href={`/tickets/${result.follow_up_ticket_id}`}
+          className="text-sm text-blue-600 hover:underline"
+        >
+          View follow-up ticket
+        </Link>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { SLAStatus } from "@/services/ticket-sla.service";
+
+interface SLABadgeProps {
+  status: SLAStatus;
+  minutesToBreach?: number | null;
+  className?: string;
+}
+
+const slaConfig: Record<SLAStatus, { label: string; className: string }> = {
+  on_track: {
+    label: "On Track",
+    className: "bg-green-100 text-green-800 hover:bg-green-100",
+  },
+  at_risk: {
+    label: "At Risk",
+    className: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+  },
+  breached: {
+    label: "Breached",
+    className: "bg-red-100 text-red-800 hover:bg-red-100",
+  },
+  met: {
+    label: "Met",
+    className: "bg-gray-100 text-gray-800 hover:bg-gray-100",
+  },
+  paused: {
+    label: "Paused",
+    className: "bg-orange-100 text-orange-800 hover:bg-orange-100",
+  },
+};
+
+function formatDuration(minutes: number): string {
+  const abs = Math.abs(minutes);
+  if (abs < 60) return `${abs}m`;
+  if (abs < 60 * 24) return `${Math.floor(abs / 60)}h`;
+  return `${Math.floor(abs / (60 * 24))}d`;
+}
+
+/**
+ * Derive SLA status for a list row from the trigger-maintained columns.
+ * The detail API returns the full state from TicketSLAService instead.
+ */
+export function getRowSLAStatus(
+  ticket: {
+    status: string;
+    sla_next_breach_at: string | null;
+    sla_at_risk_at: string | null;
+  },
+  now: Date = new Date(),
+): { status: SLAStatus; minutesToBreach: number | null } | null {
+  if (ticket.status === "on_hold") {
+    return { status: "paused", minutesToBreach: null };
+  }
+  if (!ticket.sla_next_breach_at) return null;
+
+  const due = new Date(ticket.sla_next_breach_at).getTime();
+  const minutesToBreach = Math.round((due - now.getTime()) / 60000);
+
+  if (minutesToBreach <= 0) return { status: "breached", minutesToBreach };
+  if (
+    ticket.sla_at_risk_at &&
+    now.getTime() >= new Date(ticket.sla_at_risk_at).getTime()
+  ) {
+    return { status: "at_risk", minutesToBreach };
+  }
+  return { status: "on_track", minutesToBreach };
+}
+
+export function SLABadge({
+  status,
+  minutesToBreach,
+  className,
+}: SLABadgeProps) {
+  const config = slaConfig[status];
+
+  let label = config.label;
+  if (
+    minutesToBreach != null &&
+    (status === "on_track" || status === "at_risk")
+  ) {
+    label = `${formatDuration(minutesToBreach)} left`;
+  } else if (minutesToBreach != null && status === "breached") {
+    label = `${formatDuration(minutesToBreach)} over`;
+  }
+
+  return (
+    <Badge className={cn(config.className, "font-medium", className)}>
+      {label}
+    </Badge>
+  );
+}
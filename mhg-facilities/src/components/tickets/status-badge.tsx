@@ -22,6 +22,12 @@ const statusConfig: Record<
     variant: "secondary",
     className: "bg-blue-100 text-blue-800 hover:bg-blue-100",
   },
+  needs_approval: {
+    label: "Needs Approval",
+    variant: "outline",
+    className:
+      "bg-yellow-100 text-yellow-800 border-yellow-300 hover:bg-yellow-100",
+  },
   in_progress: {
     label: "In Progress",
     variant: "default",
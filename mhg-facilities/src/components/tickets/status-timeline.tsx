@@ -1,4 +1,4 @@
-import { Check, Circle, X, Pause, Clock } from "lucide-react";
+import { Check, Circle, X, Pause, Clock, DollarSign } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { format } from "date-fns";
 import type { TicketStatus } from "./status-badge";
@@ -25,6 +25,7 @@ const statusIcons: Record<
   React.ComponentType<{ className?: string }>
 > = {
   submitted: Clock,
+  needs_approval: DollarSign,
   in_progress: Circle,
   completed: Check,
   closed: Check,
@@ -34,6 +35,7 @@ const statusIcons: Record<
 
 const statusColors: Record<TicketStatus, string> = {
   submitted: "text-blue-600 bg-blue-100",
+  needs_approval: "text-yellow-700 bg-yellow-100",
   in_progress: "text-purple-600 bg-purple-100",
   completed: "text-green-600 bg-green-100",
   closed: "text-gray-600 bg-gray-100",
@@ -43,6 +45,7 @@ const statusColors: Record<TicketStatus, string> = {
 
 const statusLabels: Record<TicketStatus, string> = {
   submitted: "Submitted",
+  needs_approval: "Needs Approval",
   in_progress: "In Progress",
   completed: "Completed",
   closed: "Closed",
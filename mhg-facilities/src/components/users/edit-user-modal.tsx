@@ -24,18 +24,25 @@ import {
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Switch } from "@/components/ui/switch";
 import api from "@/lib/api-client";
+import { VendorLinkSelect } from "./vendor-link-select";
 
-const editUserSchema = z.object({
-  full_name: z.string().min(1, "Name is required").max(100),
-  role: z.enum(["admin", "manager", "staff", "vendor", "readonly"]),
-  phone: z.string().optional().or(z.literal("")),
-  language_preference: z.enum(["en", "es"]),
-  notification_preferences: z.object({
-    email: z.boolean(),
-    sms: z.boolean(),
-    push: z.boolean(),
-  }),
-});
+const editUserSchema = z
+  .object({
+    full_name: z.string().min(1, "Name is required").max(100),
+    role: z.enum(["admin", "manager", "staff", "vendor", "readonly"]),
+    phone: z.string().optional().or(z.literal("")),
+    vendor_id: z.string().optional().or(z.literal("")),
+    language_preference: z.enum(["en", "es"]),
+    notification_preferences: z.object({
+      email: z.boolean(),
+      sms: z.boolean(),
+      push: z.boolean(),
+    }),
+  })
+  .refine((data) => data.role !== "vendor" || !!data.vendor_id, {
+    message: "Choose the vendor this user works for",
+    path: ["vendor_id"],
+  });
 
 type EditUserFormData = z.infer<typeof editUserSchema>;
 
@@ -45,6 +52,7 @@ interface User {
   fullName: string;
   role: string;
   phone?: string;
+  vendorId?: string | null;
   languagePreference: string;
   notificationPreferences: {
     email: boolean;
@@ -83,6 +91,7 @@ export function EditUserModal({
           full_name: user.fullName,
           role: user.role as EditUserFormData["role"],
           phone: user.phone || "",
+          vendor_id: user.vendorId || "",
           language_preference: user.languagePreference as "en" | "es",
           notification_preferences: user.notificationPreferences,
         }
@@ -90,6 +99,7 @@ export function EditUserModal({
   });
 
   const selectedRole = watch("role");
+  const selectedVendorId = watch("vendor_id");
   const selectedLanguage = watch("language_preference");
   const notifEmail = watch("notification_preferences.email");
   const notifSms = watch("notification_preferences.sms");
@@ -106,6 +116,8 @@ export function EditUserModal({
         full_name: data.full_name,
         role: data.role,
         phone: data.phone || undefined,
+        // Only vendor users are linked to a vendor
+        vendor_id: data.role === "vendor" ? data.vendor_id || null : null,
         language_preference: data.language_preference,
         notification_preferences: data.notification_preferences,
       };
@@ -201,6 +213,17 @@ export function EditUserModal({
             </Select>
           </div>
 
+          {selectedRole === "vendor" && (
+            <VendorLinkSelect
+              value={selectedVendorId ?? ""}
+              onChange={(value) =>
+                setValue("vendor_id", value, { shouldValidate: true })
+              }
+              disabled={submitting}
+              error={errors.vendor_id?.message}
+            />
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="phone">Phone</Label>
             <Input
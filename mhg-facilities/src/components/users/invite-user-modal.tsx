@@ -23,12 +23,19 @@ import {
 } from "@/components/ui/dialog";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import api from "@/lib/api-client";
-
-const inviteUserSchema = z.object({
-  email: z.string().email("Invalid email address"),
-  role: z.enum(["admin", "manager", "staff", "vendor", "readonly"]),
-  location_id: z.string().optional().or(z.literal("")),
-});
+import { VendorLinkSelect } from "./vendor-link-select";
+
+const inviteUserSchema = z
+  .object({
+    email: z.string().email("Invalid email address"),
+    role: z.enum(["admin", "manager", "staff", "vendor", "readonly"]),
+    location_id: z.string().optional().or(z.literal("")),
+    vendor_id: z.string().optional().or(z.literal("")),
+  })
+  .refine((data) => data.role !== "vendor" || !!data.vendor_id, {
+    message: "Choose the vendor this user works for",
+    path: ["vendor_id"],
+  });
 
 type InviteUserFormData = z.infer<typeof inviteUserSchema>;
 
@@ -60,10 +67,12 @@ export function InviteUserModal({
       email: "",
       role: "staff",
       location_id: "",
+      vendor_id: "",
     },
   });
 
   const selectedRole = watch("role");
+  const selectedVendorId = watch("vendor_id");
 
   async function onSubmit(data: InviteUserFormData) {
     setError(null);
@@ -74,6 +83,8 @@ export function InviteUserModal({
         email: data.email,
         role: data.role,
         location_id: data.location_id || undefined,
+        vendor_id:
+          data.role === "vendor" ? data.vendor_id || undefined : undefined,
       };
 
       await api.post("/api/invitations", payload);
@@ -171,11 +182,22 @@ export function InviteUserModal({
               {selectedRole === "staff" &&
                 "Can create and update tickets and assets"}
               {selectedRole === "vendor" &&
-                "External vendor with limited access"}
+                "Vendor portal access to tickets dispatched to their company"}
               {selectedRole === "readonly" && "View-only access to the system"}
             </p>
           </div>
 
+          {selectedRole === "vendor" && (
+            <VendorLinkSelect
+              value={selectedVendorId ?? ""}
+              onChange={(value) =>
+                setValue("vendor_id", value, { shouldValidate: true })
+              }
+              disabled={submitting}
+              error={errors.vendor_id?.message}
+            />
+          )}
+
           <div className="flex flex-col-reverse gap-3 sm:flex-row sm:justify-end pt-4">
             <Button
               type="button"
@@ -0,0 +1,62 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useVendors } from "@/hooks/use-vendors";
+
+interface VendorLinkSelectProps {
+  value: string;
+  onChange: (vendorId: string) => void;
+  disabled?: boolean;
+  error?: string;
+}
+
+/**
+ * Vendor company a vendor-role user signs in for. The vendor portal only
+ * shows that vendor's tickets.
+ */
+export function VendorLinkSelect({
+  value,
+  onChange,
+  disabled,
+  error,
+}: VendorLinkSelectProps) {
+  const { data: vendorsData, isLoading } = useVendors({
+    is_active: true,
+    page: 1,
+    pageSize: 100,
+  });
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="vendor_id">
+        Vendor <span className="text-destructive">*</span>
+      </Label>
+      <Select
+        value={value}
+        onValueChange={onChange}
+        disabled={disabled || isLoading}
+      >
+        <SelectTrigger id="vendor_id">
+          <SelectValue
+            placeholder={isLoading ? "Loading vendors..." : "Select a vendor"}
+          />
+        </SelectTrigger>
+        <SelectContent>
+          {vendorsData?.data?.map((vendor) => (
+            <SelectItem key={vendor.id} value={vendor.id}>
+              {vendor.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
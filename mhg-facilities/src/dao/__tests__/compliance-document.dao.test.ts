@@ -50,6 +50,9 @@ describe("ComplianceDocumentDAO", () => {
     failed_inspection_date: null,
     corrective_action_required: null,
     reinspection_date: null,
+    conditional_deadline_missed_at: null,
+    reinspection_missed_at: null,
+    alert_days: null,
     notes: null,
     created_at: "2024-01-01T00:00:00Z",
     updated_at: "2024-01-01T00:00:00Z",
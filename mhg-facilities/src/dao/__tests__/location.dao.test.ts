@@ -39,6 +39,8 @@ describe("LocationDAO", () => {
     status: "active",
     opened_date: null,
     closed_date: null,
+    business_hours: null,
+    qr_code: null,
     created_at: "2024-01-01T00:00:00Z",
     updated_at: "2024-01-01T00:00:00Z",
     deleted_at: null,
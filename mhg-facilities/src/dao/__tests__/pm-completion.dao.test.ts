@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, vi, type Mock } from "vitest";
+import { PMCompletionDAO } from "../pm-completion.dao";
+import { getPooledSupabaseClient } from "@/lib/supabase/server-pooled";
+import { getTenantContext } from "@/lib/tenant/context";
+
+interface MockQueryBuilder {
+  select: Mock;
+  update: Mock;
+  delete: Mock;
+  eq: Mock;
+  is: Mock;
+  or: Mock;
+  in: Mock;
+  gte: Mock;
+  lte: Mock;
+  order: Mock;
+}
+
+describe("PMCompletionDAO", () => {
+  let dao: PMCompletionDAO;
+  let mockQuery: MockQueryBuilder;
+
+  beforeEach(() => {
+    dao = new PMCompletionDAO();
+
+    mockQuery = {
+      select: vi.fn().mockReturnThis(),
+      update: vi.fn().mockReturnThis(),
+      delete: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      is: vi.fn().mockReturnThis(),
+      or: vi.fn().mockReturnThis(),
+      in: vi.fn().mockReturnThis(),
+      gte: vi.fn().mockReturnThis(),
+      lte: vi.fn().mockReturnThis(),
+      order: vi.fn().mockResolvedValue({ data: [], error: null }),
+    };
+
+    vi.mocked(getPooledSupabaseClient).mockResolvedValue({
+      from: vi.fn(() => mockQuery),
+    } as unknown as Awaited<ReturnType<typeof getPooledSupabaseClient>>);
+  });
+
+  describe("findCompletedByCategories", () => {
+    it("should scope completions to the tenant and location in the query", async () => {
+      await dao.findCompletedByCategories(
+        ["inspection"],
+        "location-1",
+        "2026-01-01",
+        "2026-03-31",
+      );
+
+      expect(mockQuery.eq).toHaveBeenCalledWith(
+        "schedule.tenant_id",
+        "test-tenant-id",
+      );
+      expect(mockQuery.or).toHaveBeenCalledWith(
+        "location_id.eq.location-1,asset.location_id.eq.location-1",
+        { referencedTable: "schedule" },
+      );
+      expect(mockQuery.in).toHaveBeenCalledWith("schedule.template.category", [
+        "inspection",
+      ]);
+    });
+
+    it("should refuse to query without a tenant", async () => {
+      vi.mocked(getTenantContext).mockResolvedValueOnce(null);
+
+      await expect(
+        dao.findCompletedByCategories(
+          ["inspection"],
+          "location-1",
+          "2026-01-01",
+          "2026-03-31",
+        ),
+      ).rejects.toThrow("Tenant context required for database operations");
+      expect(mockQuery.select).not.toHaveBeenCalled();
+    });
+
+    it("should skip released occurrences", async () => {
+      await dao.findCompletedByCategories(
+        ["inspection"],
+        "location-1",
+        "2026-01-01",
+        "2026-03-31",
+      );
+
+      expect(mockQuery.is).toHaveBeenCalledWith("deleted_at", null);
+    });
+  });
+
+  describe("release", () => {
+    it("should mark a pending occurrence released instead of deleting it", async () => {
+      await dao.release("completion-1");
+
+      expect(mockQuery.update).toHaveBeenCalledWith({
+        deleted_at: expect.any(String),
+      });
+      expect(mockQuery.eq).toHaveBeenCalledWith("id", "completion-1");
+      expect(mockQuery.is).toHaveBeenCalledWith("completed_date", null);
+      expect(mockQuery.delete).not.toHaveBeenCalled();
+    });
+  });
+});
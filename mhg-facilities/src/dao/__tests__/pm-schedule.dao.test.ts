@@ -35,6 +35,11 @@ describe("PMScheduleDAO", () => {
     asset_id: "asset-1",
     location_id: "location-1",
     frequency: "monthly" as PMFrequency,
+    scheduling_mode: "fixed",
+    trigger_type: "calendar",
+    meter_id: null,
+    meter_interval: null,
+    meter_last_service_reading: null,
     day_of_week: null,
     day_of_month: 1,
     month_of_year: null,
@@ -41,8 +41,14 @@ describe("TicketDAO", () => {
     status: "submitted" as TicketStatus,
     submitted_by: "user-1",
     assigned_to: null,
+    assigned_by: null,
+    status_changed_by: null,
     vendor_id: null,
     parent_ticket_id: null,
+    compliance_document_id: null,
+    reporter_name: null,
+    reporter_phone: null,
+    submitted_via: "app",
     related_ticket_ids: null,
     merged_into_ticket_id: null,
     is_duplicate: false,
@@ -57,6 +63,14 @@ describe("TicketDAO", () => {
     is_emergency: false,
     contained_at: null,
     resolution_notes: null,
+    response_due_at: null,
+    resolution_due_at: null,
+    first_response_at: null,
+    sla_next_breach_at: null,
+    sla_at_risk_at: null,
+    escalation_level: 0,
+    escalated_at: null,
+    vendor_acknowledged_at: null,
     created_at: "2024-01-01T00:00:00Z",
     updated_at: "2024-01-01T00:00:00Z",
     deleted_at: null,
@@ -39,6 +39,7 @@ describe("UserDAO", () => {
     language_preference: "en",
     phone: null,
     location_id: null,
+    vendor_id: null,
     deactivated_at: null,
     notification_preferences: null,
     created_at: "2024-01-01T00:00:00Z",
@@ -1,5 +1,8 @@
 import { BaseDAO } from "./base.dao";
-import type { Database } from "@/types/database-extensions";
+import type {
+  AssetMaintenanceType,
+  Database,
+} from "@/types/database-extensions";
 
 type AssetHistory = Database["public"]["Tables"]["asset_history"]["Row"];
 type AssetHistoryInsert =
@@ -7,7 +10,8 @@ type AssetHistoryInsert =
 
 /**
  * Asset History DAO
- * Note: This is an audit-only table with no soft deletes
+ * Note: This is an audit-only table with no soft deletes. A ticket's entry
+ * is updated in place when the ticket's cost changes.
  */
 export class AssetHistoryDAO extends BaseDAO<"asset_history"> {
   constructor() {
@@ -18,11 +22,12 @@ export class AssetHistoryDAO extends BaseDAO<"asset_history"> {
    * Find all history for an asset
    */
   async findByAssetId(assetId: string): Promise<AssetHistory[]> {
-    const { supabase } = await this.getClient();
+    const { supabase, tenantId } = await this.getClient();
 
     const { data, error } = await supabase
       .from(this.tableName)
       .select("*")
+      .eq("tenant_id", tenantId)
       .eq("asset_id", assetId)
       .order("performed_at", { ascending: false });
 
@@ -33,6 +38,28 @@ export class AssetHistoryDAO extends BaseDAO<"asset_history"> {
     return data || [];
   }
 
+  /**
+   * Find all history for a set of assets, oldest first
+   */
+  async findByAssetIds(assetIds: string[]): Promise<AssetHistory[]> {
+    if (assetIds.length === 0) return [];
+
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .in("asset_id", assetIds)
+      .order("performed_at", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to find asset history: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
   /**
    * Find history by ticket
    */
@@ -76,12 +103,7 @@ export class AssetHistoryDAO extends BaseDAO<"asset_history"> {
    */
   async findByMaintenanceType(
     assetId: string,
-    maintenanceType:
-      | "repair"
-      | "preventive"
-      | "inspection"
-      | "replacement"
-      | "warranty_claim",
+    maintenanceType: AssetMaintenanceType,
   ): Promise<AssetHistory[]> {
     const { supabase } = await this.getClient();
 
@@ -119,14 +141,14 @@ export class AssetHistoryDAO extends BaseDAO<"asset_history"> {
   }
 
   /**
-   * Create history record (no tenant isolation - uses asset_id)
+   * Create history record
    */
   async createHistory(data: AssetHistoryInsert): Promise<AssetHistory> {
-    const { supabase } = await this.getClient();
+    const { supabase, tenantId } = await this.getClient();
 
     const { data: newHistory, error } = await supabase
       .from(this.tableName)
-      .insert(data as never)
+      .insert({ ...data, tenant_id: tenantId } as never)
       .select()
       .single();
 
@@ -136,4 +158,28 @@ export class AssetHistoryDAO extends BaseDAO<"asset_history"> {
 
     return newHistory;
   }
+
+  /**
+   * Update a history record (the table has no updated_at)
+   */
+  async updateHistory(
+    id: string,
+    data: Partial<AssetHistoryInsert>,
+  ): Promise<AssetHistory> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data: updated, error } = await supabase
+      .from(this.tableName)
+      .update(data as never)
+      .eq("id", id)
+      .eq("tenant_id", tenantId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update asset history: ${error.message}`);
+    }
+
+    return updated;
+  }
 }
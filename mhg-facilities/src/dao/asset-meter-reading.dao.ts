@@ -0,0 +1,51 @@
+import { getPooledSupabaseClient } from "@/lib/supabase/server-pooled";
+import type { Database } from "@/types/database-extensions";
+
+type AssetMeterReading =
+  Database["public"]["Tables"]["asset_meter_readings"]["Row"];
+type AssetMeterReadingInsert =
+  Database["public"]["Tables"]["asset_meter_readings"]["Insert"];
+
+/**
+ * Asset Meter Reading DAO
+ * Note: This is an audit-only table with no soft deletes.
+ * Tenant isolation comes from the parent meter.
+ */
+export class AssetMeterReadingDAO {
+  async findByMeter(meterId: string, limit = 50): Promise<AssetMeterReading[]> {
+    const supabase = await getPooledSupabaseClient();
+
+    const { data, error } = await supabase
+      .from("asset_meter_readings")
+      .select("*")
+      .eq("meter_id", meterId)
+      .order("recorded_at", { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error(error.message);
+    return data || [];
+  }
+
+  async create(data: AssetMeterReadingInsert): Promise<AssetMeterReading> {
+    const supabase = await getPooledSupabaseClient();
+
+    const { data: created, error } = await supabase
+      .from("asset_meter_readings")
+      .insert({
+        meter_id: data.meter_id,
+        reading: data.reading,
+        source: data.source ?? "manual",
+        ticket_id: data.ticket_id ?? null,
+        notes: data.notes ?? null,
+        recorded_by: data.recorded_by ?? null,
+        recorded_at: data.recorded_at ?? new Date().toISOString(),
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      } as any)
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+    if (!created) throw new Error("Failed to record meter reading");
+    return created as AssetMeterReading;
+  }
+}
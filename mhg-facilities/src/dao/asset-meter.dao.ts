@@ -0,0 +1,31 @@
+import { BaseDAO } from "./base.dao";
+import type { Database } from "@/types/database-extensions";
+
+type AssetMeter = Database["public"]["Tables"]["asset_meters"]["Row"];
+
+export class AssetMeterDAO extends BaseDAO<"asset_meters"> {
+  constructor() {
+    super("asset_meters");
+  }
+
+  /**
+   * Find all meters on an asset
+   */
+  async findByAsset(assetId: string): Promise<AssetMeter[]> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .eq("asset_id", assetId)
+      .is("deleted_at", null)
+      .order("name", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to find asset meters: ${error.message}`);
+    }
+
+    return data || [];
+  }
+}
@@ -0,0 +1,33 @@
+import { BaseDAO } from "./base.dao";
+import type { Database } from "@/types/database-extensions";
+
+type AssetReplacementPolicy =
+  Database["public"]["Tables"]["asset_replacement_policies"]["Row"];
+
+export class AssetReplacementPolicyDAO extends BaseDAO<"asset_replacement_policies"> {
+  constructor() {
+    super("asset_replacement_policies");
+  }
+
+  /**
+   * Find the tenant's policy (at most one per tenant)
+   */
+  async findCurrent(): Promise<AssetReplacementPolicy | null> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(
+        `Failed to find asset replacement policy: ${error.message}`,
+      );
+    }
+
+    return data as AssetReplacementPolicy | null;
+  }
+}
@@ -1,5 +1,6 @@
 import { BaseDAO } from "./base.dao";
-import type { Database } from "@/types/database";
+import { getPooledSupabaseClient } from "@/lib/supabase/server-pooled";
+import type { Database, DepreciationMethod } from "@/types/database";
 
 type Asset = Database["public"]["Tables"]["assets"]["Row"];
 type _AssetInsert = Database["public"]["Tables"]["assets"]["Insert"];
@@ -10,6 +11,8 @@ export interface AssetWithRelations extends Asset {
     id: string;
     name: string;
     default_lifespan_years: number | null;
+    depreciation_method: DepreciationMethod;
+    salvage_value_percent: number;
   } | null;
   asset_type?: {
     id: string;
@@ -81,7 +84,7 @@ export class AssetDAO extends BaseDAO<"assets"> {
       .select(
         `
         *,
-        category:asset_categories(id, name, default_lifespan_years),
+        category:asset_categories(id, name, default_lifespan_years, depreciation_method, salvage_value_percent),
         asset_type:asset_types(id, name, category_id),
         location:locations(id, name, address)
       `,
@@ -171,7 +174,7 @@ export class AssetDAO extends BaseDAO<"assets"> {
       .select(
         `
         *,
-        category:asset_categories(id, name, default_lifespan_years),
+        category:asset_categories(id, name, default_lifespan_years, depreciation_method, salvage_value_percent),
         asset_type:asset_types(id, name, category_id),
         location:locations(id, name, address)
       `,
@@ -257,7 +260,7 @@ export class AssetDAO extends BaseDAO<"assets"> {
       .select(
         `
         *,
-        category:asset_categories(id, name, default_lifespan_years),
+        category:asset_categories(id, name, default_lifespan_years, depreciation_method, salvage_value_percent),
         asset_type:asset_types(id, name, category_id),
         location:locations(id, name, address)
       `,
@@ -327,7 +330,7 @@ export class AssetDAO extends BaseDAO<"assets"> {
       .select(
         `
         *,
-        category:asset_categories(id, name, default_lifespan_years),
+        category:asset_categories(id, name, default_lifespan_years, depreciation_method, salvage_value_percent),
         asset_type:asset_types(id, name, category_id),
         location:locations(id, name, address)
       `,
@@ -353,7 +356,7 @@ export class AssetDAO extends BaseDAO<"assets"> {
       .select(
         `
         *,
-        category:asset_categories(id, name, default_lifespan_years),
+        category:asset_categories(id, name, default_lifespan_years, depreciation_method, salvage_value_percent),
         asset_type:asset_types(id, name, category_id),
         location:locations(id, name, address)
       `,
@@ -372,6 +375,26 @@ export class AssetDAO extends BaseDAO<"assets"> {
     return enriched[0] ?? null;
   }
 
+  /**
+   * Tenants with an asset carrying this QR code. Not tenant-scoped: public
+   * QR pages use it to find the tenant before there's any tenant context.
+   */
+  async findTenantIdsByQRCode(qrCode: string): Promise<string[]> {
+    const supabase = await getPooledSupabaseClient();
+
+    const { data, error } = await supabase
+      .from("assets")
+      .select("tenant_id")
+      .eq("qr_code", qrCode)
+      .is("deleted_at", null)
+      .limit(2);
+
+    if (error) throw new Error(error.message);
+    return ((data ?? []) as Pick<Asset, "tenant_id">[]).map(
+      (asset) => asset.tenant_id,
+    );
+  }
+
   /**
    * Find asset by serial number
    */
@@ -404,7 +427,7 @@ export class AssetDAO extends BaseDAO<"assets"> {
       .select(
         `
         *,
-        category:asset_categories(id, name, default_lifespan_years),
+        category:asset_categories(id, name, default_lifespan_years, depreciation_method, salvage_value_percent),
         asset_type:asset_types(id, name, category_id),
         location:locations(id, name, address)
       `,
@@ -23,6 +23,27 @@ export interface SpendByLocation {
   spent: number;
 }
 
+// A single cost counted toward spend: an approved invoice, for tickets
+// without one the ticket's actual_cost, or an approved compliance renewal
+interface SpendEntry {
+  amount: number;
+  date: string;
+  category_name: string | null;
+  location: { id: string; name: string } | null;
+}
+
+// Budget category approved compliance renewal costs are counted under
+const COMPLIANCE_SPEND_CATEGORY = "Compliance";
+
+type ApprovedRenewal = {
+  cost: number | null;
+  approved_at: string;
+  document: {
+    location_id: string | null;
+    location_ids: string[] | null;
+  } | null;
+};
+
 export interface BudgetWithLocation extends Budget {
   location?: {
     id: string;
@@ -209,36 +230,70 @@ export class BudgetDAO extends BaseDAO<"budgets"> {
   }
 
   // ============================================================
-  // SPEND CALCULATION METHODS (from tickets)
+  // SPEND CALCULATION METHODS (from invoices and tickets)
   // ============================================================
 
   /**
-   * Calculate actual spend from completed tickets for a specific budget
-   * This queries tickets table to get real spend data
+   * Collect spend entries for a fiscal year
+   *
+   * Approved and paid vendor invoices count at their total, dated by
+   * invoice_date. Completed tickets with no approved invoice fall back to
+   * actual_cost, dated by completed_at, so in-house work still counts.
    *
-   * @param locationId - Location to filter by (null = tenant-wide, sum all locations)
-   * @param category - Category name to filter by (null or 'total' = all categories)
    * @param fiscalYear - Calendar year (Jan 1 - Dec 31)
+   * @param locationId - Location to filter by (null/undefined = all locations)
    */
-  async calculateSpendForBudget(
-    locationId: string | null,
-    category: string | null,
+  private async getSpendEntries(
     fiscalYear: number,
-  ): Promise<number> {
+    locationId?: string | null,
+  ): Promise<SpendEntry[]> {
     const { supabase, tenantId } = await this.getClient();
 
     // Fiscal year is calendar year (Jan 1 - Dec 31)
     const startDate = `${fiscalYear}-01-01T00:00:00Z`;
     const endDate = `${fiscalYear + 1}-01-01T00:00:00Z`;
 
-    // Build query for completed tickets with actual_cost
-    let query = supabase
+    let invoiceQuery = supabase
+      .from("invoices")
+      .select(
+        `
+        total_amount,
+        invoice_date,
+        ticket:tickets!inner (
+          location_id,
+          category:ticket_categories (
+            name
+          ),
+          location:locations (
+            id,
+            name
+          )
+        )
+      `,
+      )
+      .eq("tenant_id", tenantId)
+      .in("status", ["approved", "paid"])
+      .gte("invoice_date", `${fiscalYear}-01-01`)
+      .lt("invoice_date", `${fiscalYear + 1}-01-01`)
+      .is("deleted_at", null)
+      .is("ticket.deleted_at", null);
+
+    let ticketQuery = supabase
       .from("tickets")
       .select(
         `
         actual_cost,
+        completed_at,
         category:ticket_categories (
           name
+        ),
+        location:locations (
+          id,
+          name
+        ),
+        invoices (
+          status,
+          deleted_at
         )
       `,
       )
@@ -249,32 +304,177 @@ export class BudgetDAO extends BaseDAO<"budgets"> {
       .lt("completed_at", endDate)
       .is("deleted_at", null);
 
-    // Location filter (null = tenant-wide, sum all locations)
-    if (locationId !== null) {
-      query = query.eq("location_id", locationId);
+    if (locationId) {
+      invoiceQuery = invoiceQuery.eq("ticket.location_id", locationId);
+      ticketQuery = ticketQuery.eq("location_id", locationId);
     }
 
-    const { data, error } = await query;
+    // Documents can cover several locations, so renewals are filtered by
+    // location after splitting their cost
+    const renewalQuery = supabase
+      .from("compliance_renewals")
+      .select(
+        `
+        cost,
+        approved_at,
+        document:compliance_documents!inner (
+          location_id,
+          location_ids
+        )
+      `,
+      )
+      .eq("tenant_id", tenantId)
+      .eq("stage", "approved")
+      .not("cost", "is", null)
+      .gte("approved_at", startDate)
+      .lt("approved_at", endDate)
+      .is("deleted_at", null);
+
+    const [invoiceResult, ticketResult, renewalResult] = await Promise.all([
+      invoiceQuery,
+      ticketQuery,
+      renewalQuery,
+    ]);
 
-    if (error) {
-      throw new Error(`Failed to calculate spend: ${error.message}`);
+    if (invoiceResult.error) {
+      throw new Error(
+        `Failed to calculate invoice spend: ${invoiceResult.error.message}`,
+      );
+    }
+    if (ticketResult.error) {
+      throw new Error(
+        `Failed to calculate spend: ${ticketResult.error.message}`,
+      );
+    }
+    if (renewalResult.error) {
+      throw new Error(
+        `Failed to calculate renewal spend: ${renewalResult.error.message}`,
+      );
     }
 
-    // Filter by category if specified (and not 'total')
-    type TicketWithCategory = {
-      actual_cost: number | null;
+    type Related = {
       category: { name: string } | null;
+      location: { id: string; name: string } | null;
+    };
+    type InvoiceWithTicket = {
+      total_amount: number;
+      invoice_date: string;
+      ticket: Related | null;
+    };
+    type TicketWithRelations = Related & {
+      actual_cost: number | null;
+      completed_at: string;
+      invoices: { status: string; deleted_at: string | null }[] | null;
     };
 
-    let tickets = (data || []) as TicketWithCategory[];
+    const invoiceEntries = (
+      (invoiceResult.data || []) as unknown as InvoiceWithTicket[]
+    ).map((i) => ({
+      amount: Number(i.total_amount) || 0,
+      date: i.invoice_date,
+      category_name: i.ticket?.category?.name ?? null,
+      location: i.ticket?.location ?? null,
+    }));
+
+    const ticketEntries = (
+      (ticketResult.data || []) as unknown as TicketWithRelations[]
+    )
+      .filter(
+        (t) =>
+          !t.invoices?.some(
+            (i) =>
+              !i.deleted_at && (i.status === "approved" || i.status === "paid"),
+          ),
+      )
+      .map((t) => ({
+        amount: Number(t.actual_cost) || 0,
+        date: t.completed_at,
+        category_name: t.category?.name ?? null,
+        location: t.location,
+      }));
+
+    const renewalEntries = await this.getRenewalSpendEntries(
+      (renewalResult.data || []) as unknown as ApprovedRenewal[],
+      locationId,
+    );
+
+    return [...invoiceEntries, ...ticketEntries, ...renewalEntries];
+  }
+
+  /**
+   * Approved renewal costs as "Compliance" spend, split evenly across the
+   * document's locations. Documents without a location count tenant-wide.
+   */
+  private async getRenewalSpendEntries(
+    renewals: ApprovedRenewal[],
+    locationId?: string | null,
+  ): Promise<SpendEntry[]> {
+    if (renewals.length === 0) return [];
+
+    const { supabase, tenantId } = await this.getClient();
+    const { data, error } = await supabase
+      .from("locations")
+      .select("id, name")
+      .eq("tenant_id", tenantId);
+
+    if (error) {
+      throw new Error(`Failed to fetch locations: ${error.message}`);
+    }
+
+    const locations = new Map(
+      ((data || []) as { id: string; name: string }[]).map((l) => [l.id, l]),
+    );
+
+    return renewals
+      .flatMap((r): SpendEntry[] => {
+        const ids = r.document?.location_id
+          ? [r.document.location_id]
+          : (r.document?.location_ids ?? []);
+        const amount = Number(r.cost) || 0;
+
+        if (ids.length === 0) {
+          return [
+            {
+              amount,
+              date: r.approved_at,
+              category_name: COMPLIANCE_SPEND_CATEGORY,
+              location: null,
+            },
+          ];
+        }
+
+        return ids.map((id) => ({
+          amount: amount / ids.length,
+          date: r.approved_at,
+          category_name: COMPLIANCE_SPEND_CATEGORY,
+          location: locations.get(id) ?? { id, name: "Unknown" },
+        }));
+      })
+      .filter((e) => !locationId || e.location?.id === locationId);
+  }
+
+  /**
+   * Calculate actual spend for a specific budget
+   *
+   * @param locationId - Location to filter by (null = tenant-wide, sum all locations)
+   * @param category - Category name to filter by (null or 'total' = all categories)
+   * @param fiscalYear - Calendar year (Jan 1 - Dec 31)
+   */
+  async calculateSpendForBudget(
+    locationId: string | null,
+    category: string | null,
+    fiscalYear: number,
+  ): Promise<number> {
+    let entries = await this.getSpendEntries(fiscalYear, locationId);
+
+    // Filter by category if specified (and not 'total')
     if (category && category.toLowerCase() !== "total") {
-      tickets = tickets.filter(
-        (t) => t.category?.name?.toLowerCase() === category.toLowerCase(),
+      entries = entries.filter(
+        (e) => e.category_name?.toLowerCase() === category.toLowerCase(),
       );
     }
 
-    // Sum actual_cost
-    return tickets.reduce((sum, t) => sum + (Number(t.actual_cost) || 0), 0);
+    return entries.reduce((sum, e) => sum + e.amount, 0);
   }
 
   /**
@@ -285,51 +485,15 @@ export class BudgetDAO extends BaseDAO<"budgets"> {
     fiscalYear: number,
     locationId?: string | null,
   ): Promise<SpendByCategory[]> {
-    const { supabase, tenantId } = await this.getClient();
-
-    const startDate = `${fiscalYear}-01-01T00:00:00Z`;
-    const endDate = `${fiscalYear + 1}-01-01T00:00:00Z`;
-
-    let query = supabase
-      .from("tickets")
-      .select(
-        `
-        actual_cost,
-        category:ticket_categories (
-          name
-        )
-      `,
-      )
-      .eq("tenant_id", tenantId)
-      .not("actual_cost", "is", null)
-      .not("completed_at", "is", null)
-      .gte("completed_at", startDate)
-      .lt("completed_at", endDate)
-      .is("deleted_at", null);
-
-    if (locationId) {
-      query = query.eq("location_id", locationId);
-    }
-
-    const { data, error } = await query;
-
-    if (error) {
-      throw new Error(`Failed to get spend by category: ${error.message}`);
-    }
+    const entries = await this.getSpendEntries(fiscalYear, locationId);
 
     // Aggregate by category
-    type TicketWithCategory = {
-      actual_cost: number | null;
-      category: { name: string } | null;
-    };
-
     const categoryMap = new Map<string, number>();
-    const tickets = (data || []) as TicketWithCategory[];
 
-    tickets.forEach((t) => {
-      const categoryName = t.category?.name || "Uncategorized";
+    entries.forEach((e) => {
+      const categoryName = e.category_name || "Uncategorized";
       const current = categoryMap.get(categoryName) || 0;
-      categoryMap.set(categoryName, current + (Number(t.actual_cost) || 0));
+      categoryMap.set(categoryName, current + e.amount);
     });
 
     return Array.from(categoryMap.entries())
@@ -345,46 +509,15 @@ export class BudgetDAO extends BaseDAO<"budgets"> {
     fiscalYear: number,
     locationId?: string | null,
   ): Promise<SpendByMonth[]> {
-    const { supabase, tenantId } = await this.getClient();
-
-    const startDate = `${fiscalYear}-01-01T00:00:00Z`;
-    const endDate = `${fiscalYear + 1}-01-01T00:00:00Z`;
-
-    let query = supabase
-      .from("tickets")
-      .select("actual_cost, completed_at")
-      .eq("tenant_id", tenantId)
-      .not("actual_cost", "is", null)
-      .not("completed_at", "is", null)
-      .gte("completed_at", startDate)
-      .lt("completed_at", endDate)
-      .is("deleted_at", null);
-
-    if (locationId) {
-      query = query.eq("location_id", locationId);
-    }
-
-    const { data, error } = await query;
-
-    if (error) {
-      throw new Error(`Failed to get monthly spend: ${error.message}`);
-    }
-
-    // Aggregate by month
-    type TicketWithDate = {
-      actual_cost: number | null;
-      completed_at: string | null;
-    };
+    const entries = await this.getSpendEntries(fiscalYear, locationId);
 
+    // Aggregate by month (dates are YYYY-MM-DD or UTC ISO timestamps)
     const monthMap = new Map<number, number>();
-    const tickets = (data || []) as TicketWithDate[];
 
-    tickets.forEach((t) => {
-      if (t.completed_at) {
-        const month = new Date(t.completed_at).getMonth() + 1; // 1-12
-        const current = monthMap.get(month) || 0;
-        monthMap.set(month, current + (Number(t.actual_cost) || 0));
-      }
+    entries.forEach((e) => {
+      const month = Number(e.date.slice(5, 7)); // 1-12
+      const current = monthMap.get(month) || 0;
+      monthMap.set(month, current + e.amount);
     });
 
     // Return all 12 months (even if 0)
@@ -405,51 +538,19 @@ export class BudgetDAO extends BaseDAO<"budgets"> {
    * Returns total spend per location for the fiscal year
    */
   async getSpendByLocation(fiscalYear: number): Promise<SpendByLocation[]> {
-    const { supabase, tenantId } = await this.getClient();
-
-    const startDate = `${fiscalYear}-01-01T00:00:00Z`;
-    const endDate = `${fiscalYear + 1}-01-01T00:00:00Z`;
-
-    const { data, error } = await supabase
-      .from("tickets")
-      .select(
-        `
-        actual_cost,
-        location:locations (
-          id,
-          name
-        )
-      `,
-      )
-      .eq("tenant_id", tenantId)
-      .not("actual_cost", "is", null)
-      .not("completed_at", "is", null)
-      .not("location_id", "is", null)
-      .gte("completed_at", startDate)
-      .lt("completed_at", endDate)
-      .is("deleted_at", null);
-
-    if (error) {
-      throw new Error(`Failed to get spend by location: ${error.message}`);
-    }
+    const entries = await this.getSpendEntries(fiscalYear);
 
     // Aggregate by location
-    type TicketWithLocation = {
-      actual_cost: number | null;
-      location: { id: string; name: string } | null;
-    };
-
     const locationMap = new Map<string, { name: string; spent: number }>();
-    const tickets = (data || []) as TicketWithLocation[];
 
-    tickets.forEach((t) => {
-      if (t.location) {
-        const current = locationMap.get(t.location.id) || {
-          name: t.location.name,
+    entries.forEach((e) => {
+      if (e.location) {
+        const current = locationMap.get(e.location.id) || {
+          name: e.location.name,
           spent: 0,
         };
-        current.spent += Number(t.actual_cost) || 0;
-        locationMap.set(t.location.id, current);
+        current.spent += e.amount;
+        locationMap.set(e.location.id, current);
       }
     });
 
@@ -463,45 +564,17 @@ export class BudgetDAO extends BaseDAO<"budgets"> {
   }
 
   /**
-   * Get all distinct categories with tickets in a fiscal year
+   * Get all distinct categories with spend in a fiscal year
    * Useful for building budget category dropdowns
    */
   async getTicketCategoriesWithSpend(fiscalYear: number): Promise<string[]> {
-    const { supabase, tenantId } = await this.getClient();
-
-    const startDate = `${fiscalYear}-01-01T00:00:00Z`;
-    const endDate = `${fiscalYear + 1}-01-01T00:00:00Z`;
-
-    const { data, error } = await supabase
-      .from("tickets")
-      .select(
-        `
-        category:ticket_categories (
-          name
-        )
-      `,
-      )
-      .eq("tenant_id", tenantId)
-      .not("actual_cost", "is", null)
-      .not("completed_at", "is", null)
-      .gte("completed_at", startDate)
-      .lt("completed_at", endDate)
-      .is("deleted_at", null);
-
-    if (error) {
-      throw new Error(`Failed to get ticket categories: ${error.message}`);
-    }
-
-    type TicketWithCategory = {
-      category: { name: string } | null;
-    };
+    const entries = await this.getSpendEntries(fiscalYear);
 
     const categories = new Set<string>();
-    const tickets = (data || []) as TicketWithCategory[];
 
-    tickets.forEach((t) => {
-      if (t.category?.name) {
-        categories.add(t.category.name);
+    entries.forEach((e) => {
+      if (e.category_name) {
+        categories.add(e.category_name);
       }
     });
 
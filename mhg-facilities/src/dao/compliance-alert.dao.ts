@@ -19,7 +19,30 @@ export class ComplianceAlertDAO {
     return data || [];
   }
 
-  async create(data: ComplianceAlertInsert): Promise<ComplianceAlert> {
+  /**
+   * Alerts already sent for the given documents, used to send each
+   * threshold only once
+   */
+  async findByDocuments(documentIds: string[]): Promise<ComplianceAlert[]> {
+    if (documentIds.length === 0) return [];
+
+    const supabase = await getPooledSupabaseClient();
+
+    const { data, error } = await supabase
+      .from("compliance_alerts")
+      .select("*")
+      .in("document_id", documentIds)
+      .order("sent_at", { ascending: false });
+
+    if (error) throw new Error(error.message);
+    return data || [];
+  }
+
+  /**
+   * Record an alert. Returns null if the alert key is already taken, i.e.
+   * the alert was already sent.
+   */
+  async create(data: ComplianceAlertInsert): Promise<ComplianceAlert | null> {
     const supabase = await getPooledSupabaseClient();
 
     const { data: created, error } = await supabase
@@ -29,14 +52,32 @@ export class ComplianceAlertDAO {
         alert_type: data.alert_type,
         sent_to: data.sent_to,
         delivery_method: data.delivery_method,
+        expiration_date: data.expiration_date ?? null,
+        alert_date: data.alert_date,
+        recipient_level: data.recipient_level ?? null,
+        reinspection_date: data.reinspection_date ?? null,
         sent_at: new Date().toISOString(),
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
       } as any)
       .select()
       .single();
 
-    if (error) throw new Error(error.message);
+    if (error) {
+      if (error.code === "23505") return null; // Already sent
+      throw new Error(error.message);
+    }
     if (!created) throw new Error("Failed to create compliance alert");
     return created as ComplianceAlert;
   }
+
+  async delete(id: string): Promise<void> {
+    const supabase = await getPooledSupabaseClient();
+
+    const { error } = await supabase
+      .from("compliance_alerts")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw new Error(error.message);
+  }
 }
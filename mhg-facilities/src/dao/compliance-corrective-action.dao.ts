@@ -0,0 +1,53 @@
+import { BaseDAO } from "./base.dao";
+import type { Database, TicketStatus } from "@/types/database";
+import type { Database as ExtendedDatabase } from "@/types/database-extensions";
+
+type ComplianceCorrectiveAction =
+  ExtendedDatabase["public"]["Tables"]["compliance_corrective_actions"]["Row"];
+type Ticket = Database["public"]["Tables"]["tickets"]["Row"];
+
+export interface ComplianceCorrectiveActionWithTicket extends ComplianceCorrectiveAction {
+  ticket:
+    | (Pick<
+        Ticket,
+        "id" | "ticket_number" | "title" | "status" | "completed_at"
+      > & { status: TicketStatus })
+    | null;
+}
+
+/**
+ * Compliance Corrective Action DAO
+ * One row per corrective action from a failed inspection, linked to the
+ * ticket raised for it
+ */
+export class ComplianceCorrectiveActionDAO extends BaseDAO<"compliance_corrective_actions"> {
+  constructor() {
+    super("compliance_corrective_actions");
+  }
+
+  /**
+   * A document's corrective actions with their tickets, in order
+   */
+  async findByDocument(
+    documentId: string,
+  ): Promise<ComplianceCorrectiveActionWithTicket[]> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select(
+        "*, ticket:tickets(id, ticket_number, title, status, completed_at)",
+      )
+      .eq("tenant_id", tenantId)
+      .eq("document_id", documentId)
+      .is("deleted_at", null)
+      .order("created_at", { ascending: true })
+      .order("sort_order", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to find corrective actions: ${error.message}`);
+    }
+
+    return (data || []) as ComplianceCorrectiveActionWithTicket[];
+  }
+}
@@ -36,6 +36,29 @@ export class ComplianceDocumentVersionDAO extends BaseDAO<"compliance_document_v
     return data || [];
   }
 
+  /**
+   * Find all versions for a set of documents
+   */
+  async findByDocumentIds(
+    documentIds: string[],
+  ): Promise<ComplianceDocumentVersion[]> {
+    if (documentIds.length === 0) return [];
+
+    const { supabase } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select("*")
+      .in("document_id", documentIds)
+      .order("version_number", { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to find document versions: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
   /**
    * Get latest version for a document
    */
@@ -106,6 +106,24 @@ export class ComplianceDocumentDAO extends BaseDAO<"compliance_documents"> {
     return data || [];
   }
 
+  /**
+   * Documents expiring on or before a date, including those already expired
+   */
+  async findExpiringBy(date: string): Promise<ComplianceDocument[]> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from("compliance_documents")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .lte("expiration_date", date)
+      .is("deleted_at", null)
+      .order("expiration_date", { ascending: true });
+
+    if (error) throw new Error(error.message);
+    return data || [];
+  }
+
   async findConditional(): Promise<ComplianceDocument[]> {
     const { supabase, tenantId } = await this.getClient();
 
@@ -0,0 +1,66 @@
+import { BaseDAO } from "./base.dao";
+import type { Database } from "@/types/database-extensions";
+
+type ComplianceRenewalTask =
+  Database["public"]["Tables"]["compliance_renewal_tasks"]["Row"];
+type ComplianceRenewalTaskInsert =
+  Database["public"]["Tables"]["compliance_renewal_tasks"]["Insert"];
+
+export interface ComplianceRenewalTaskWithAssignee extends ComplianceRenewalTask {
+  assigned_user?: {
+    id: string;
+    full_name: string;
+  } | null;
+}
+
+/**
+ * Compliance Renewal Task DAO
+ * Tasks are created from the document type's renewal checklist
+ */
+export class ComplianceRenewalTaskDAO extends BaseDAO<"compliance_renewal_tasks"> {
+  constructor() {
+    super("compliance_renewal_tasks");
+  }
+
+  /**
+   * A renewal's tasks in checklist order
+   */
+  async findByRenewal(
+    renewalId: string,
+  ): Promise<ComplianceRenewalTaskWithAssignee[]> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select("*, assigned_user:users!assigned_to(id, full_name)")
+      .eq("tenant_id", tenantId)
+      .eq("renewal_id", renewalId)
+      .is("deleted_at", null)
+      .order("sort_order", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to find renewal tasks: ${error.message}`);
+    }
+
+    return (data || []) as ComplianceRenewalTaskWithAssignee[];
+  }
+
+  async createMany(
+    tasks: Omit<ComplianceRenewalTaskInsert, "tenant_id">[],
+  ): Promise<ComplianceRenewalTask[]> {
+    if (tasks.length === 0) return [];
+
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .insert(tasks.map((task) => ({ ...task, tenant_id: tenantId })) as never)
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to create renewal tasks: ${error.message}`);
+    }
+
+    return (data || []) as ComplianceRenewalTask[];
+  }
+}
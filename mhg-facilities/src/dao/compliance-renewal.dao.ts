@@ -0,0 +1,79 @@
+import { BaseDAO } from "./base.dao";
+import type { Database } from "@/types/database-extensions";
+
+type ComplianceRenewal =
+  Database["public"]["Tables"]["compliance_renewals"]["Row"];
+
+export interface ComplianceRenewalWithRelations extends ComplianceRenewal {
+  assigned_user?: {
+    id: string;
+    full_name: string;
+  } | null;
+  approved_by_user?: {
+    id: string;
+    full_name: string;
+  } | null;
+}
+
+const WITH_RELATIONS = `
+  *,
+  assigned_user:users!assigned_to(id, full_name),
+  approved_by_user:users!approved_by(id, full_name)
+`;
+
+/**
+ * Compliance Renewal DAO
+ * One row per renewal attempt; a document has at most one open renewal
+ */
+export class ComplianceRenewalDAO extends BaseDAO<"compliance_renewals"> {
+  constructor() {
+    super("compliance_renewals");
+  }
+
+  /**
+   * A document's renewals, newest first
+   */
+  async findByDocument(
+    documentId: string,
+  ): Promise<ComplianceRenewalWithRelations[]> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select(WITH_RELATIONS)
+      .eq("tenant_id", tenantId)
+      .eq("document_id", documentId)
+      .is("deleted_at", null)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to find renewals: ${error.message}`);
+    }
+
+    return (data || []) as ComplianceRenewalWithRelations[];
+  }
+
+  /**
+   * The renewal in progress for a document, if any
+   */
+  async findOpenByDocument(
+    documentId: string,
+  ): Promise<ComplianceRenewal | null> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .eq("document_id", documentId)
+      .not("stage", "in", "(approved,cancelled)")
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find open renewal: ${error.message}`);
+    }
+
+    return data as ComplianceRenewal | null;
+  }
+}
@@ -0,0 +1,35 @@
+import { BaseDAO } from "./base.dao";
+import type { Database } from "@/types/database-extensions";
+
+type ComplianceStatusHistory =
+  Database["public"]["Tables"]["compliance_status_history"]["Row"];
+
+/**
+ * Compliance Status History DAO
+ * Note: This is an audit-only table with no soft deletes
+ */
+export class ComplianceStatusHistoryDAO extends BaseDAO<"compliance_status_history"> {
+  constructor() {
+    super("compliance_status_history");
+  }
+
+  /**
+   * A document's status changes, newest first
+   */
+  async findByDocument(documentId: string): Promise<ComplianceStatusHistory[]> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .eq("document_id", documentId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to find status history: ${error.message}`);
+    }
+
+    return (data || []) as ComplianceStatusHistory[];
+  }
+}
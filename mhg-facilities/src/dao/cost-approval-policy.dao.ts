@@ -0,0 +1,31 @@
+import { BaseDAO } from "./base.dao";
+import type { Database } from "@/types/database-extensions";
+
+type CostApprovalPolicy =
+  Database["public"]["Tables"]["cost_approval_policies"]["Row"];
+
+export class CostApprovalPolicyDAO extends BaseDAO<"cost_approval_policies"> {
+  constructor() {
+    super("cost_approval_policies");
+  }
+
+  /**
+   * Find the tenant's policy (at most one per tenant)
+   */
+  async findCurrent(): Promise<CostApprovalPolicy | null> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find cost approval policy: ${error.message}`);
+    }
+
+    return data as CostApprovalPolicy | null;
+  }
+}
@@ -0,0 +1,181 @@
+import { getPooledSupabaseClient } from "@/lib/supabase/server-pooled";
+import { getTenantContext } from "@/lib/tenant/context";
+import type { Database } from "@/types/database-extensions";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+type CostApproval = Database["public"]["Tables"]["cost_approvals"]["Row"];
+type CostApprovalInsert =
+  Database["public"]["Tables"]["cost_approvals"]["Insert"];
+type CostApprovalUpdate =
+  Database["public"]["Tables"]["cost_approvals"]["Update"];
+
+export interface CostApprovalWithRelations extends CostApproval {
+  ticket?: {
+    id: string;
+    ticket_number: number;
+    title: string;
+    status: string;
+  } | null;
+  vendor?: {
+    id: string;
+    name: string;
+  } | null;
+  requested_by_user?: {
+    id: string;
+    full_name: string;
+  } | null;
+  decided_by_user?: {
+    id: string;
+    full_name: string;
+  } | null;
+}
+
+export interface CostApprovalFilters {
+  status?: CostApproval["status"];
+  /** Inclusive ISO date bounds on requested_at */
+  from?: string;
+  to?: string;
+}
+
+const WITH_RELATIONS = `
+  *,
+  ticket:tickets(id, ticket_number, title, status),
+  vendor:vendors(id, name),
+  requested_by_user:users!requested_by(id, full_name),
+  decided_by_user:users!decided_by(id, full_name)
+`;
+
+/**
+ * DAO for cost_approvals table
+ * Note: Cost approvals are audit records (no soft delete); only the
+ * decision fields of a pending request are ever updated.
+ */
+export class CostApprovalDAO {
+  /**
+   * Get tenant-scoped client
+   */
+  private async getClient() {
+    const supabase =
+      (await getPooledSupabaseClient()) as SupabaseClient<Database>;
+    const tenant = await getTenantContext();
+
+    if (!tenant) {
+      throw new Error("Tenant context required for database operations");
+    }
+
+    return { supabase, tenantId: tenant.id };
+  }
+
+  async findById(id: string): Promise<CostApproval | null> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from("cost_approvals")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") return null;
+      throw new Error(error.message);
+    }
+    return data as CostApproval;
+  }
+
+  /**
+   * Approval history for a ticket, newest first
+   */
+  async findByTicket(ticketId: string): Promise<CostApprovalWithRelations[]> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from("cost_approvals")
+      .select(WITH_RELATIONS)
+      .eq("tenant_id", tenantId)
+      .eq("ticket_id", ticketId)
+      .order("requested_at", { ascending: false });
+
+    if (error) throw new Error(error.message);
+    return (data as CostApprovalWithRelations[]) ?? [];
+  }
+
+  async findPendingByTicket(ticketId: string): Promise<CostApproval | null> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from("cost_approvals")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .eq("ticket_id", ticketId)
+      .eq("status", "pending")
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    return data as CostApproval | null;
+  }
+
+  /**
+   * Approvals for the tenant, newest first (approval queue and export)
+   */
+  async findAllWithFilters(
+    filters: CostApprovalFilters = {},
+    limit = 1000,
+  ): Promise<CostApprovalWithRelations[]> {
+    const { supabase, tenantId } = await this.getClient();
+
+    let query = supabase
+      .from("cost_approvals")
+      .select(WITH_RELATIONS)
+      .eq("tenant_id", tenantId);
+
+    if (filters.status) {
+      query = query.eq("status", filters.status);
+    }
+    if (filters.from) {
+      query = query.gte("requested_at", filters.from);
+    }
+    if (filters.to) {
+      query = query.lte("requested_at", filters.to);
+    }
+
+    const { data, error } = await query
+      .order("requested_at", { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error(error.message);
+    return (data as CostApprovalWithRelations[]) ?? [];
+  }
+
+  async create(
+    insertData: Omit<CostApprovalInsert, "tenant_id">,
+  ): Promise<CostApproval> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from("cost_approvals")
+      .insert({ ...insertData, tenant_id: tenantId } as never)
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+    if (!data) throw new Error("Failed to create cost approval");
+    return data as CostApproval;
+  }
+
+  async update(id: string, data: CostApprovalUpdate): Promise<CostApproval> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data: updated, error } = await supabase
+      .from("cost_approvals")
+      .update(data as never)
+      .eq("tenant_id", tenantId)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+    if (!updated) throw new Error("Failed to update cost approval");
+    return updated as CostApproval;
+  }
+}
@@ -0,0 +1,79 @@
+import { getPooledSupabaseClient } from "@/lib/supabase/server-pooled";
+import { getTenantContext } from "@/lib/tenant/context";
+import type { Database } from "@/types/database-extensions";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+type InvoiceLineItem =
+  Database["public"]["Tables"]["invoice_line_items"]["Row"];
+type InvoiceLineItemInsert =
+  Database["public"]["Tables"]["invoice_line_items"]["Insert"];
+
+/**
+ * DAO for invoice_line_items table
+ * Note: Line items belong to their invoice and are replaced as a set when
+ * the invoice is edited, so they have no soft delete.
+ */
+export class InvoiceLineItemDAO {
+  /**
+   * Get tenant-scoped client
+   */
+  private async getClient() {
+    const supabase =
+      (await getPooledSupabaseClient()) as SupabaseClient<Database>;
+    const tenant = await getTenantContext();
+
+    if (!tenant) {
+      throw new Error("Tenant context required for database operations");
+    }
+
+    return { supabase, tenantId: tenant.id };
+  }
+
+  async findByInvoice(invoiceId: string): Promise<InvoiceLineItem[]> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from("invoice_line_items")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .eq("invoice_id", invoiceId)
+      .order("sort_order", { ascending: true });
+
+    if (error) throw new Error(error.message);
+    return (data as InvoiceLineItem[]) ?? [];
+  }
+
+  /**
+   * Replace all line items of an invoice
+   */
+  async replaceForInvoice(
+    invoiceId: string,
+    items: Omit<InvoiceLineItemInsert, "tenant_id" | "invoice_id">[],
+  ): Promise<InvoiceLineItem[]> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { error: deleteError } = await supabase
+      .from("invoice_line_items")
+      .delete()
+      .eq("tenant_id", tenantId)
+      .eq("invoice_id", invoiceId);
+
+    if (deleteError) throw new Error(deleteError.message);
+    if (items.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from("invoice_line_items")
+      .insert(
+        items.map((item, index) => ({
+          ...item,
+          sort_order: item.sort_order ?? index,
+          tenant_id: tenantId,
+          invoice_id: invoiceId,
+        })) as never,
+      )
+      .select();
+
+    if (error) throw new Error(error.message);
+    return (data as InvoiceLineItem[]) ?? [];
+  }
+}
@@ -0,0 +1,59 @@
+import { getPooledSupabaseClient } from "@/lib/supabase/server-pooled";
+import { getTenantContext } from "@/lib/tenant/context";
+import type { Database } from "@/types/database-extensions";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+type InvoicePayment = Database["public"]["Tables"]["invoice_payments"]["Row"];
+type InvoicePaymentInsert =
+  Database["public"]["Tables"]["invoice_payments"]["Insert"];
+
+/**
+ * DAO for invoice_payments table
+ * Note: Payments are audit records (no soft delete, never updated).
+ */
+export class InvoicePaymentDAO {
+  /**
+   * Get tenant-scoped client
+   */
+  private async getClient() {
+    const supabase =
+      (await getPooledSupabaseClient()) as SupabaseClient<Database>;
+    const tenant = await getTenantContext();
+
+    if (!tenant) {
+      throw new Error("Tenant context required for database operations");
+    }
+
+    return { supabase, tenantId: tenant.id };
+  }
+
+  async findByInvoice(invoiceId: string): Promise<InvoicePayment[]> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from("invoice_payments")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .eq("invoice_id", invoiceId)
+      .order("paid_on", { ascending: true });
+
+    if (error) throw new Error(error.message);
+    return (data as InvoicePayment[]) ?? [];
+  }
+
+  async create(
+    insertData: Omit<InvoicePaymentInsert, "tenant_id">,
+  ): Promise<InvoicePayment> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from("invoice_payments")
+      .insert({ ...insertData, tenant_id: tenantId } as never)
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+    if (!data) throw new Error("Failed to record invoice payment");
+    return data as InvoicePayment;
+  }
+}
@@ -0,0 +1,189 @@
+import { BaseDAO } from "./base.dao";
+import type { InvoiceStatus } from "@/types/database";
+import type {
+  Database,
+  InvoiceLineItemRow,
+  InvoicePaymentRow,
+} from "@/types/database-extensions";
+
+type Invoice = Database["public"]["Tables"]["invoices"]["Row"];
+type Attachment = Database["public"]["Tables"]["ticket_attachments"]["Row"];
+
+export interface InvoiceWithRelations extends Invoice {
+  vendor?: {
+    id: string;
+    name: string;
+  } | null;
+  ticket?: {
+    id: string;
+    ticket_number: number;
+    title: string;
+    status: string;
+    location_id: string | null;
+  } | null;
+  attachment?: Pick<
+    Attachment,
+    "id" | "file_name" | "file_path" | "file_type"
+  > | null;
+  line_items?: InvoiceLineItemRow[];
+  payments?: InvoicePaymentRow[];
+}
+
+// An approved or paid invoice on one of an asset's tickets
+export interface AssetInvoice {
+  id: string;
+  ticket_id: string;
+  vendor_id: string;
+  total_amount: number;
+  invoice_date: string;
+  vendor: { name: string } | null;
+  ticket: { asset_id: string };
+}
+
+export interface InvoiceFilters {
+  vendor_id?: string;
+  ticket_id?: string;
+  status?: InvoiceStatus | InvoiceStatus[];
+}
+
+const WITH_RELATIONS = `
+  *,
+  vendor:vendors(id, name),
+  ticket:tickets(id, ticket_number, title, status, location_id),
+  attachment:ticket_attachments(id, file_name, file_path, file_type)
+`;
+
+const WITH_DETAILS = `
+  ${WITH_RELATIONS},
+  line_items:invoice_line_items(*),
+  payments:invoice_payments(*)
+`;
+
+export class InvoiceDAO extends BaseDAO<"invoices"> {
+  constructor() {
+    super("invoices");
+  }
+
+  /**
+   * Find invoice with vendor, ticket, attachment, line items and payments
+   */
+  async findWithRelations(id: string): Promise<InvoiceWithRelations | null> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select(WITH_DETAILS)
+      .eq("tenant_id", tenantId)
+      .eq("id", id)
+      .is("deleted_at", null)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") return null;
+      throw new Error(`Failed to find invoice: ${error.message}`);
+    }
+
+    const invoice = data as InvoiceWithRelations;
+    invoice.line_items?.sort((a, b) => a.sort_order - b.sort_order);
+    invoice.payments?.sort((a, b) => a.paid_on.localeCompare(b.paid_on));
+    return invoice;
+  }
+
+  /**
+   * Find invoices with optional filters, newest invoice date first
+   */
+  async findAllWithFilters(
+    filters: InvoiceFilters = {},
+    limit = 500,
+  ): Promise<InvoiceWithRelations[]> {
+    const { supabase, tenantId } = await this.getClient();
+
+    let query = supabase
+      .from(this.tableName)
+      .select(WITH_RELATIONS)
+      .eq("tenant_id", tenantId)
+      .is("deleted_at", null);
+
+    if (filters.vendor_id) {
+      query = query.eq("vendor_id", filters.vendor_id);
+    }
+    if (filters.ticket_id) {
+      query = query.eq("ticket_id", filters.ticket_id);
+    }
+    if (filters.status) {
+      query = Array.isArray(filters.status)
+        ? query.in("status", filters.status)
+        : query.eq("status", filters.status);
+    }
+
+    const { data, error } = await query
+      .order("invoice_date", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to find invoices: ${error.message}`);
+    }
+
+    return (data || []) as InvoiceWithRelations[];
+  }
+
+  /**
+   * Find approved and paid invoices on tickets for the given assets
+   */
+  async findApprovedByAssets(assetIds: string[]): Promise<AssetInvoice[]> {
+    if (assetIds.length === 0) return [];
+
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select(
+        `
+        id,
+        ticket_id,
+        vendor_id,
+        total_amount,
+        invoice_date,
+        vendor:vendors(name),
+        ticket:tickets!inner(asset_id)
+      `,
+      )
+      .eq("tenant_id", tenantId)
+      .in("status", ["approved", "paid"])
+      .in("ticket.asset_id", assetIds)
+      .is("deleted_at", null)
+      .is("ticket.deleted_at", null)
+      .order("invoice_date", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to find asset invoices: ${error.message}`);
+    }
+
+    return (data || []) as unknown as AssetInvoice[];
+  }
+
+  /**
+   * Find a vendor's invoice by its number (numbers are unique per vendor)
+   */
+  async findByVendorAndNumber(
+    vendorId: string,
+    invoiceNumber: string,
+  ): Promise<Invoice | null> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .eq("vendor_id", vendorId)
+      .eq("invoice_number", invoiceNumber)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find invoice: ${error.message}`);
+    }
+
+    return data as Invoice | null;
+  }
+}
@@ -1,4 +1,5 @@
 import { BaseDAO } from "./base.dao";
+import { getPooledSupabaseClient } from "@/lib/supabase/server-pooled";
 import type { Database } from "@/types/database";
 
 type Location = Database["public"]["Tables"]["locations"]["Row"];
@@ -154,6 +155,49 @@ export class LocationDAO extends BaseDAO<"locations"> {
     };
   }
 
+  /**
+   * Find location by QR code
+   */
+  async findByQRCode(qrCode: string): Promise<Location | null> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from("locations")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .eq("qr_code", qrCode)
+      .is("deleted_at", null)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") return null;
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Tenants with a location carrying this QR code. Not tenant-scoped:
+   * public QR pages use it to find the tenant before there's any tenant
+   * context.
+   */
+  async findTenantIdsByQRCode(qrCode: string): Promise<string[]> {
+    const supabase = await getPooledSupabaseClient();
+
+    const { data, error } = await supabase
+      .from("locations")
+      .select("tenant_id")
+      .eq("qr_code", qrCode)
+      .is("deleted_at", null)
+      .limit(2);
+
+    if (error) throw new Error(error.message);
+    return ((data ?? []) as Pick<Location, "tenant_id">[]).map(
+      (location) => location.tenant_id,
+    );
+  }
+
   /**
    * Update location's manager
    */
@@ -0,0 +1,66 @@
+import { getPooledSupabaseClient } from "@/lib/supabase/server-pooled";
+import type { Database } from "@/types/database-extensions";
+
+type NotificationDelivery =
+  Database["public"]["Tables"]["notification_deliveries"]["Row"];
+type NotificationDeliveryInsert =
+  Database["public"]["Tables"]["notification_deliveries"]["Insert"];
+
+/**
+ * Notification Delivery DAO
+ * Note: This is an append-only log with no soft deletes.
+ * Tenant isolation comes from the parent outbox message.
+ */
+export class NotificationDeliveryDAO {
+  async findByOutbox(outboxId: string): Promise<NotificationDelivery[]> {
+    const supabase = await getPooledSupabaseClient();
+
+    const { data, error } = await supabase
+      .from("notification_deliveries")
+      .select("*")
+      .eq("outbox_id", outboxId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw new Error(error.message);
+    return (data || []) as NotificationDelivery[];
+  }
+
+  async findByProviderMessageId(
+    providerMessageId: string,
+  ): Promise<NotificationDelivery | null> {
+    const supabase = await getPooledSupabaseClient();
+
+    const { data, error } = await supabase
+      .from("notification_deliveries")
+      .select("*")
+      .eq("provider_message_id", providerMessageId)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    return data as NotificationDelivery | null;
+  }
+
+  async createMany(deliveries: NotificationDeliveryInsert[]): Promise<void> {
+    if (deliveries.length === 0) return;
+
+    const supabase = await getPooledSupabaseClient();
+
+    const { error } = await supabase
+      .from("notification_deliveries")
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .insert(deliveries as any);
+
+    if (error) throw new Error(error.message);
+  }
+
+  async markBounced(id: string, reason: string): Promise<void> {
+    const supabase = await getPooledSupabaseClient();
+
+    const { error } = await supabase
+      .from("notification_deliveries")
+      .update({ status: "bounced", error: reason } as never)
+      .eq("id", id);
+
+    if (error) throw new Error(error.message);
+  }
+}
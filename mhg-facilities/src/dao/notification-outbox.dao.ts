@@ -0,0 +1,112 @@
+import { BaseDAO } from "./base.dao";
+import { getPooledSupabaseClient } from "@/lib/supabase/server-pooled";
+import type { Database } from "@/types/database-extensions";
+import type {
+  NotificationOutboxStatus,
+  NotificationOutboxRow,
+} from "@/types/database-extensions";
+import type { NotificationEvent } from "@/types";
+
+type NotificationOutbox = NotificationOutboxRow;
+type NotificationOutboxInsert =
+  Database["public"]["Tables"]["notification_outbox"]["Insert"];
+
+export interface NotificationOutboxFilters {
+  status?: NotificationOutboxStatus;
+  event?: NotificationEvent;
+}
+
+export class NotificationOutboxDAO extends BaseDAO<"notification_outbox"> {
+  constructor() {
+    super("notification_outbox");
+  }
+
+  /**
+   * Queue a message for the worker
+   */
+  async enqueue(
+    data: Pick<NotificationOutboxInsert, "event" | "payload">,
+  ): Promise<NotificationOutbox> {
+    return this.create(data);
+  }
+
+  /**
+   * Claim up to `limit` messages that are due, plus any whose worker lock
+   * went stale (a worker that crashed mid-send). Claimed messages are
+   * marked processing so a concurrent worker skips them.
+   * Note: Claims across all tenants; the worker runs with no tenant context
+   * and sends each message scoped to its own tenant_id.
+   */
+  async claimDue(
+    limit: number,
+    now: Date,
+    staleBefore: Date,
+  ): Promise<NotificationOutbox[]> {
+    const supabase = await getPooledSupabaseClient();
+    const claimable = `status.eq.queued,and(status.eq.processing,locked_at.lt.${staleBefore.toISOString()})`;
+
+    const { data: due, error } = await supabase
+      .from(this.tableName)
+      .select("id")
+      .is("deleted_at", null)
+      .or(claimable)
+      .lte("next_attempt_at", now.toISOString())
+      .order("next_attempt_at", { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to find due notifications: ${error.message}`);
+    }
+    if (!due || due.length === 0) return [];
+
+    // Re-check the claimable condition so two workers can't claim the same row
+    const { data: claimed, error: claimError } = await supabase
+      .from(this.tableName)
+      .update({ status: "processing", locked_at: now.toISOString() } as never)
+      .in(
+        "id",
+        (due as { id: string }[]).map((row) => row.id),
+      )
+      .or(claimable)
+      .select();
+
+    if (claimError) {
+      throw new Error(`Failed to claim notifications: ${claimError.message}`);
+    }
+
+    return (claimed || []) as NotificationOutbox[];
+  }
+
+  /**
+   * Most recent messages first, for the admin outbox screen
+   */
+  async findRecent(
+    filters: NotificationOutboxFilters = {},
+    limit = 200,
+  ): Promise<NotificationOutbox[]> {
+    const { supabase, tenantId } = await this.getClient();
+
+    let query = supabase
+      .from(this.tableName)
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .is("deleted_at", null);
+
+    if (filters.status) {
+      query = query.eq("status", filters.status);
+    }
+    if (filters.event) {
+      query = query.eq("event", filters.event);
+    }
+
+    const { data, error } = await query
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to find notifications: ${error.message}`);
+    }
+
+    return (data || []) as NotificationOutbox[];
+  }
+}
@@ -0,0 +1,31 @@
+import { BaseDAO } from "./base.dao";
+import type { Database } from "@/types/database-extensions";
+
+type NotificationPolicy =
+  Database["public"]["Tables"]["notification_policies"]["Row"];
+
+export class NotificationPolicyDAO extends BaseDAO<"notification_policies"> {
+  constructor() {
+    super("notification_policies");
+  }
+
+  /**
+   * Find the tenant's policy (at most one per tenant)
+   */
+  async findCurrent(): Promise<NotificationPolicy | null> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find notification policy: ${error.message}`);
+    }
+
+    return data as NotificationPolicy | null;
+  }
+}
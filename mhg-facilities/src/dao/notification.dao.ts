@@ -0,0 +1,122 @@
+import { BaseDAO } from "./base.dao";
+import type { Database, NotificationRow } from "@/types/database-extensions";
+
+type Notification = NotificationRow;
+type NotificationInsert =
+  Database["public"]["Tables"]["notifications"]["Insert"];
+
+export interface NotificationInboxFilters {
+  unread?: boolean;
+  limit?: number;
+}
+
+/**
+ * In-app notifications, one inbox per user
+ */
+export class NotificationDAO extends BaseDAO<"notifications"> {
+  constructor() {
+    super("notifications");
+  }
+
+  /**
+   * A user's notifications, newest first
+   */
+  async findByUser(
+    userId: string,
+    filters: NotificationInboxFilters = {},
+  ): Promise<Notification[]> {
+    const { supabase, tenantId } = await this.getClient();
+
+    let query = supabase
+      .from(this.tableName)
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .eq("user_id", userId)
+      .is("deleted_at", null);
+
+    if (filters.unread) {
+      query = query.is("read_at", null);
+    }
+
+    const { data, error } = await query
+      .order("created_at", { ascending: false })
+      .limit(filters.limit ?? 50);
+
+    if (error) {
+      throw new Error(`Failed to find notifications: ${error.message}`);
+    }
+
+    return (data || []) as Notification[];
+  }
+
+  async countUnread(userId: string): Promise<number> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { count, error } = await supabase
+      .from(this.tableName)
+      .select("*", { count: "exact", head: true })
+      .eq("tenant_id", tenantId)
+      .eq("user_id", userId)
+      .is("read_at", null)
+      .is("deleted_at", null);
+
+    if (error) {
+      throw new Error(`Failed to count notifications: ${error.message}`);
+    }
+
+    return count ?? 0;
+  }
+
+  async createMany(
+    notifications: Omit<NotificationInsert, "tenant_id">[],
+  ): Promise<Notification[]> {
+    if (notifications.length === 0) return [];
+
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .insert(
+        notifications.map((notification) => ({
+          ...notification,
+          tenant_id: tenantId,
+        })) as never,
+      )
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to create notifications: ${error.message}`);
+    }
+
+    return (data || []) as Notification[];
+  }
+
+  /**
+   * Mark a user's unread notifications read; all of them when no ids given.
+   * Returns how many were marked.
+   */
+  async markRead(userId: string, ids?: string[]): Promise<number> {
+    const { supabase, tenantId } = await this.getClient();
+    const now = new Date().toISOString();
+
+    let query = supabase
+      .from(this.tableName)
+      .update({ read_at: now, updated_at: now } as never)
+      .eq("tenant_id", tenantId)
+      .eq("user_id", userId)
+      .is("read_at", null)
+      .is("deleted_at", null);
+
+    if (ids) {
+      query = query.in("id", ids);
+    }
+
+    const { data, error } = await query.select("id");
+
+    if (error) {
+      throw new Error(`Failed to mark notifications read: ${error.message}`);
+    }
+
+    return data?.length ?? 0;
+  }
+}
@@ -40,8 +40,13 @@ export class OnCallScheduleDAO extends BaseDAO<"on_call_schedules"> {
 
   /**
    * Find current on-call person for location
+   * @param locationId Omit for any location, null for tenant-wide schedules only
+   * @param isPrimary false to find the backup on-call instead of the primary
    */
-  async findCurrentOnCall(locationId?: string): Promise<OnCallSchedule | null> {
+  async findCurrentOnCall(
+    locationId?: string | null,
+    isPrimary = true,
+  ): Promise<OnCallSchedule | null> {
     const { supabase, tenantId } = await this.getClient();
     const today = new Date().toISOString().split("T")[0];
 
@@ -55,10 +60,12 @@ export class OnCallScheduleDAO extends BaseDAO<"on_call_schedules"> {
 
     if (locationId) {
       query = query.eq("location_id", locationId);
+    } else if (locationId === null) {
+      query = query.is("location_id", null);
     }
 
     const { data, error } = await query
-      .eq("is_primary", true)
+      .eq("is_primary", isPrimary)
       .order("start_date", { ascending: false })
       .limit(1)
       .single();
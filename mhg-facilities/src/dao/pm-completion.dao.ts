@@ -1,10 +1,22 @@
 import { getPooledSupabaseClient } from "@/lib/supabase/server-pooled";
+import { getTenantContext } from "@/lib/tenant/context";
 import type { Database } from "@/types/database-extensions";
 
 type PMCompletion = Database["public"]["Tables"]["pm_completions"]["Row"];
 type PMCompletionInsert =
   Database["public"]["Tables"]["pm_completions"]["Insert"];
 
+export interface PMCompletionWithSchedule extends PMCompletion {
+  schedule: {
+    id: string;
+    name: string;
+    location_id: string | null;
+    asset: { id: string; name: string; location_id: string | null } | null;
+    template: { name: string; category: string | null } | null;
+  } | null;
+  completed_by_user: { id: string; full_name: string } | null;
+}
+
 export class PMCompletionDAO {
   async findBySchedule(scheduleId: string): Promise<PMCompletion[]> {
     const supabase = await getPooledSupabaseClient();
@@ -12,6 +24,7 @@ export class PMCompletionDAO {
     const { data, error } = await supabase
       .from("pm_completions")
       .select("*")
+      .is("deleted_at", null)
       .eq("schedule_id", scheduleId)
       .order("scheduled_date", { ascending: false });
 
@@ -25,6 +38,7 @@ export class PMCompletionDAO {
     const { data, error } = await supabase
       .from("pm_completions")
       .select("*")
+      .is("deleted_at", null)
       .eq("id", id)
       .single();
 
@@ -36,6 +50,181 @@ export class PMCompletionDAO {
     return data;
   }
 
+  /**
+   * Find the occurrence row for a schedule on a given date
+   */
+  async findByScheduleAndDate(
+    scheduleId: string,
+    scheduledDate: string,
+  ): Promise<PMCompletion | null> {
+    const supabase = await getPooledSupabaseClient();
+
+    const { data, error } = await supabase
+      .from("pm_completions")
+      .select("*")
+      .is("deleted_at", null)
+      .eq("schedule_id", scheduleId)
+      .eq("scheduled_date", scheduledDate)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") return null;
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Find the occurrence row linked to a generated ticket
+   */
+  async findByTicket(ticketId: string): Promise<PMCompletion | null> {
+    const supabase = await getPooledSupabaseClient();
+
+    const { data, error } = await supabase
+      .from("pm_completions")
+      .select("*")
+      .is("deleted_at", null)
+      .eq("ticket_id", ticketId)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") return null;
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * Completions in a date range at a location (on the schedule or its
+   * asset) for schedules whose template is in one of the given categories.
+   * pm_completions has no tenant_id, so the schedule's tenant scopes it.
+   */
+  async findCompletedByCategories(
+    categories: string[],
+    locationId: string,
+    fromDate: string,
+    toDate: string,
+  ): Promise<PMCompletionWithSchedule[]> {
+    const supabase = await getPooledSupabaseClient();
+    const tenant = await getTenantContext();
+    if (!tenant) {
+      throw new Error("Tenant context required for database operations");
+    }
+
+    const { data, error } = await supabase
+      .from("pm_completions")
+      .select(
+        `
+        *,
+        schedule:pm_schedules!inner (
+          id,
+          name,
+          location_id,
+          asset:assets (id, name, location_id),
+          template:pm_templates!inner (name, category)
+        ),
+        completed_by_user:users!completed_by (id, full_name)
+      `,
+      )
+      .is("deleted_at", null)
+      .eq("schedule.tenant_id", tenant.id)
+      .or(`location_id.eq.${locationId},asset.location_id.eq.${locationId}`, {
+        referencedTable: "schedule",
+      })
+      .in("schedule.template.category", categories)
+      .gte("completed_date", fromDate)
+      .lte("completed_date", toDate)
+      .order("completed_date", { ascending: false });
+
+    if (error) throw new Error(error.message);
+    return (data || []) as unknown as PMCompletionWithSchedule[];
+  }
+
+  /**
+   * Oldest occurrence of a schedule that has not been completed yet
+   */
+  async findPendingBySchedule(
+    scheduleId: string,
+  ): Promise<PMCompletion | null> {
+    const supabase = await getPooledSupabaseClient();
+
+    const { data, error } = await supabase
+      .from("pm_completions")
+      .select("*")
+      .is("deleted_at", null)
+      .eq("schedule_id", scheduleId)
+      .is("completed_date", null)
+      .order("scheduled_date", { ascending: true })
+      .limit(1);
+
+    if (error) throw new Error(error.message);
+    return data?.[0] ?? null;
+  }
+
+  /**
+   * Reserve an occurrence before its ticket is generated.
+   * Returns null if the schedule already has a row for that date.
+   */
+  async createPending(
+    scheduleId: string,
+    scheduledDate: string,
+  ): Promise<PMCompletion | null> {
+    const supabase = await getPooledSupabaseClient();
+
+    const { data: created, error } = await supabase
+      .from("pm_completions")
+      .insert({
+        schedule_id: scheduleId,
+        scheduled_date: scheduledDate,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      } as any)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === "23505") return null; // Already generated
+      throw new Error(error.message);
+    }
+    if (!created) throw new Error("Failed to create PM occurrence");
+    return created as PMCompletion;
+  }
+
+  async update(
+    id: string,
+    data: Partial<PMCompletionInsert>,
+  ): Promise<PMCompletion> {
+    const supabase = await getPooledSupabaseClient();
+
+    const { data: updated, error } = await supabase
+      .from("pm_completions")
+      .update(data as never)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+    if (!updated) throw new Error("Failed to update PM completion");
+    return updated as PMCompletion;
+  }
+
+  /**
+   * Release a pending occurrence so it can be generated again. The row is
+   * kept (deleted_at set) and no longer counts toward the schedule + date key.
+   */
+  async release(id: string): Promise<void> {
+    const supabase = await getPooledSupabaseClient();
+
+    const { error } = await supabase
+      .from("pm_completions")
+      .update({ deleted_at: new Date().toISOString() } as never)
+      .eq("id", id)
+      .is("completed_date", null);
+
+    if (error) throw new Error(error.message);
+  }
+
   async create(data: PMCompletionInsert): Promise<PMCompletion> {
     const supabase = await getPooledSupabaseClient();
 
@@ -107,6 +107,30 @@ export class PMScheduleDAO extends BaseDAO<"pm_schedules"> {
     return data || [];
   }
 
+  /**
+   * Find active meter-triggered schedules, optionally for one meter
+   */
+  async findActiveMeterTriggered(meterId?: string): Promise<PMSchedule[]> {
+    const { supabase, tenantId } = await this.getClient();
+
+    let query = supabase
+      .from("pm_schedules")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .eq("is_active", true)
+      .is("deleted_at", null)
+      .in("trigger_type", ["meter", "calendar_or_meter"]);
+
+    query = meterId
+      ? query.eq("meter_id", meterId)
+      : query.not("meter_id", "is", null);
+
+    const { data, error } = await query;
+
+    if (error) throw new Error(error.message);
+    return data || [];
+  }
+
   /**
    * Find PM schedules with combined filters.
    * All provided filters are applied together (AND logic).
@@ -210,6 +234,25 @@ export class PMScheduleDAO extends BaseDAO<"pm_schedules"> {
     return data || [];
   }
 
+  /**
+   * Active schedules due on or before a date, overdue ones included
+   */
+  async findDueBy(date: string): Promise<PMSchedule[]> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from("pm_schedules")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .eq("is_active", true)
+      .lte("next_due_date", date)
+      .is("deleted_at", null)
+      .order("next_due_date", { ascending: true });
+
+    if (error) throw new Error(error.message);
+    return data || [];
+  }
+
   async findByFrequency(frequency: PMFrequency): Promise<PMSchedule[]> {
     const { supabase, tenantId } = await this.getClient();
 
@@ -246,6 +289,7 @@ export class PMScheduleDAO extends BaseDAO<"pm_schedules"> {
       .eq("id", id)
       .eq("tenant_id", tenantId)
       .is("deleted_at", null)
+      .is("pm_completions.deleted_at", null)
       .single();
 
     if (error) {
@@ -0,0 +1,39 @@
+import { getPooledSupabaseClient } from "@/lib/supabase/server-pooled";
+
+/**
+ * Public Request Log DAO
+ * Note: Not tenant-scoped. Public requests are logged before the tenant is
+ * known, to rate limit them per client.
+ */
+export class PublicRequestLogDAO {
+  /**
+   * Requests a client made for an action since a time
+   */
+  async countSince(
+    action: string,
+    clientKey: string,
+    since: Date,
+  ): Promise<number> {
+    const supabase = await getPooledSupabaseClient();
+
+    const { count, error } = await supabase
+      .from("public_request_log")
+      .select("*", { count: "exact", head: true })
+      .eq("action", action)
+      .eq("client_key", clientKey)
+      .gte("created_at", since.toISOString());
+
+    if (error) throw new Error(error.message);
+    return count ?? 0;
+  }
+
+  async create(action: string, clientKey: string): Promise<void> {
+    const supabase = await getPooledSupabaseClient();
+
+    const { error } = await supabase
+      .from("public_request_log")
+      .insert({ action, client_key: clientKey } as never);
+
+    if (error) throw new Error(error.message);
+  }
+}
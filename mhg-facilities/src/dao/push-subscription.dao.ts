@@ -0,0 +1,54 @@
+import { BaseDAO } from "./base.dao";
+import type { Database } from "@/types/database-extensions";
+
+type PushSubscription =
+  Database["public"]["Tables"]["push_subscriptions"]["Row"];
+
+export class PushSubscriptionDAO extends BaseDAO<"push_subscriptions"> {
+  constructor() {
+    super("push_subscriptions");
+  }
+
+  /**
+   * Find the browser subscriptions registered by these users
+   */
+  async findByUserIds(userIds: string[]): Promise<PushSubscription[]> {
+    if (userIds.length === 0) return [];
+
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .in("user_id", userIds)
+      .is("deleted_at", null);
+
+    if (error) {
+      throw new Error(`Failed to find push subscriptions: ${error.message}`);
+    }
+
+    return (data || []) as PushSubscription[];
+  }
+
+  /**
+   * Find a subscription by its push service endpoint
+   */
+  async findByEndpoint(endpoint: string): Promise<PushSubscription | null> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from(this.tableName)
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .eq("endpoint", endpoint)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find push subscription: ${error.message}`);
+    }
+
+    return data as PushSubscription | null;
+  }
+}
@@ -93,6 +93,23 @@ export class TenantDAO {
     return data;
   }
 
+  /**
+   * IDs of the tenants a tenant context can be set for, for cron jobs
+   */
+  async findActiveIds(): Promise<string[]> {
+    const supabase = await getPooledSupabaseClient();
+
+    const { data, error } = await supabase
+      .from("tenants")
+      .select("id")
+      .eq("status", "active")
+      .is("deleted_at", null)
+      .order("created_at", { ascending: true });
+
+    if (error) throw new Error(error.message);
+    return ((data ?? []) as Pick<Tenant, "id">[]).map((tenant) => tenant.id);
+  }
+
   /**
    * Check if a slug is available
    */
@@ -0,0 +1,70 @@
+import { getPooledSupabaseClient } from "@/lib/supabase/server-pooled";
+import type { Database } from "@/types/database-extensions";
+
+type TicketEscalation =
+  Database["public"]["Tables"]["ticket_escalations"]["Row"];
+type TicketEscalationInsert =
+  Database["public"]["Tables"]["ticket_escalations"]["Insert"];
+
+/**
+ * Ticket Escalation DAO
+ * Note: This is an audit-only table with no soft deletes.
+ * Tenant isolation comes from the parent ticket.
+ */
+export class TicketEscalationDAO {
+  async findByTicket(ticketId: string): Promise<TicketEscalation[]> {
+    const supabase = await getPooledSupabaseClient();
+
+    const { data, error } = await supabase
+      .from("ticket_escalations")
+      .select("*")
+      .eq("ticket_id", ticketId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw new Error(error.message);
+    return data || [];
+  }
+
+  async findByTickets(ticketIds: string[]): Promise<TicketEscalation[]> {
+    if (ticketIds.length === 0) return [];
+
+    const supabase = await getPooledSupabaseClient();
+
+    const { data, error } = await supabase
+      .from("ticket_escalations")
+      .select("*")
+      .in("ticket_id", ticketIds);
+
+    if (error) throw new Error(error.message);
+    return data || [];
+  }
+
+  /**
+   * Record an escalation level.
+   * Returns null if this level was already recorded for the ticket/SLA
+   * (unique violation), so concurrent cron runs never double-alert.
+   */
+  async create(data: TicketEscalationInsert): Promise<TicketEscalation | null> {
+    const supabase = await getPooledSupabaseClient();
+
+    const { data: created, error } = await supabase
+      .from("ticket_escalations")
+      .insert({
+        ticket_id: data.ticket_id,
+        sla_type: data.sla_type,
+        level: data.level,
+        reason: data.reason ?? null,
+        notified_user_ids: data.notified_user_ids ?? null,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      } as any)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === "23505") return null; // Already escalated
+      throw new Error(error.message);
+    }
+    if (!created) throw new Error("Failed to create ticket escalation");
+    return created as TicketEscalation;
+  }
+}
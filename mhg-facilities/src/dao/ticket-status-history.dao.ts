@@ -0,0 +1,49 @@
+import { getPooledSupabaseClient } from "@/lib/supabase/server-pooled";
+import type { Database } from "@/types/database";
+
+type TicketStatusHistory =
+  Database["public"]["Tables"]["ticket_status_history"]["Row"];
+type TicketStatusHistoryInsert =
+  Database["public"]["Tables"]["ticket_status_history"]["Insert"];
+
+/**
+ * Ticket Status History DAO
+ * Note: This is an audit-only table with no soft deletes.
+ * Status changes are logged by the log_ticket_status_change() trigger;
+ * this DAO records application events (e.g. routing decisions) alongside them.
+ */
+export class TicketStatusHistoryDAO {
+  async findByTicket(ticketId: string): Promise<TicketStatusHistory[]> {
+    const supabase = await getPooledSupabaseClient();
+
+    const { data, error } = await supabase
+      .from("ticket_status_history")
+      .select("*")
+      .eq("ticket_id", ticketId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw new Error(error.message);
+    return data || [];
+  }
+
+  async create(data: TicketStatusHistoryInsert): Promise<TicketStatusHistory> {
+    const supabase = await getPooledSupabaseClient();
+
+    const { data: created, error } = await supabase
+      .from("ticket_status_history")
+      .insert({
+        ticket_id: data.ticket_id,
+        from_status: data.from_status ?? null,
+        to_status: data.to_status,
+        changed_by: data.changed_by ?? null,
+        notes: data.notes ?? null,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      } as any)
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+    if (!created) throw new Error("Failed to create ticket status history");
+    return created as TicketStatusHistory;
+  }
+}
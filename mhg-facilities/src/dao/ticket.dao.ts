@@ -11,12 +11,15 @@ export interface TicketFilters {
   location_id?: string;
   assigned_to?: string;
   submitted_by?: string;
+  vendor_id?: string;
   date_from?: string;
   date_to?: string;
   search?: string;
   page?: number;
   pageSize?: number;
   is_emergency?: boolean;
+  sla_status?: "breached" | "at_risk";
+  sort_by?: "created_at" | "time_to_breach";
 }
 
 export interface PaginatedResult<T> {
@@ -60,6 +63,24 @@ export interface TicketWithRelations extends Ticket {
   } | null;
   comments_count?: number;
   attachments_count?: number;
+  status_history?: Array<{
+    id: string;
+    status: TicketStatus;
+    changed_at: string;
+    changed_by: {
+      id: string;
+      full_name: string;
+    };
+    notes: string | null;
+  }>;
+}
+
+interface StatusHistoryJoin {
+  id: string;
+  to_status: TicketStatus;
+  notes: string | null;
+  created_at: string;
+  changed_by_user: { id: string; full_name: string } | null;
 }
 
 /**
@@ -134,6 +155,11 @@ export class TicketDAO extends BaseDAO<"tickets"> {
       query = query.eq("submitted_by", filters.submitted_by);
     }
 
+    // Apply vendor filter
+    if (filters?.vendor_id) {
+      query = query.eq("vendor_id", filters.vendor_id);
+    }
+
     // Apply date range filters
     if (filters?.date_from) {
       query = query.gte("created_at", filters.date_from);
@@ -156,7 +182,21 @@ export class TicketDAO extends BaseDAO<"tickets"> {
       query = query.eq("is_emergency", filters.is_emergency);
     }
 
+    // Apply SLA filter (sla_next_breach_at/sla_at_risk_at are trigger-maintained)
+    const now = new Date().toISOString();
+    if (filters?.sla_status === "breached") {
+      query = query.lte("sla_next_breach_at", now);
+    } else if (filters?.sla_status === "at_risk") {
+      query = query.lte("sla_at_risk_at", now).gt("sla_next_breach_at", now);
+    }
+
     // Apply ordering and limit
+    if (filters?.sort_by === "time_to_breach") {
+      query = query.order("sla_next_breach_at", {
+        ascending: true,
+        nullsFirst: false,
+      });
+    }
     query = query.order("created_at", { ascending: false }).limit(limit);
 
     const { data, error } = await query;
@@ -246,6 +286,12 @@ export class TicketDAO extends BaseDAO<"tickets"> {
       dataQuery = dataQuery.eq("submitted_by", filters.submitted_by);
     }
 
+    // Apply vendor filter
+    if (filters?.vendor_id) {
+      countQuery = countQuery.eq("vendor_id", filters.vendor_id);
+      dataQuery = dataQuery.eq("vendor_id", filters.vendor_id);
+    }
+
     // Apply date range filters
     if (filters?.date_from) {
       countQuery = countQuery.gte("created_at", filters.date_from);
@@ -274,7 +320,27 @@ export class TicketDAO extends BaseDAO<"tickets"> {
       dataQuery = dataQuery.eq("is_emergency", filters.is_emergency);
     }
 
+    // Apply SLA filter (sla_next_breach_at/sla_at_risk_at are trigger-maintained)
+    const now = new Date().toISOString();
+    if (filters?.sla_status === "breached") {
+      countQuery = countQuery.lte("sla_next_breach_at", now);
+      dataQuery = dataQuery.lte("sla_next_breach_at", now);
+    } else if (filters?.sla_status === "at_risk") {
+      countQuery = countQuery
+        .lte("sla_at_risk_at", now)
+        .gt("sla_next_breach_at", now);
+      dataQuery = dataQuery
+        .lte("sla_at_risk_at", now)
+        .gt("sla_next_breach_at", now);
+    }
+
     // Apply ordering and pagination to data query
+    if (filters?.sort_by === "time_to_breach") {
+      dataQuery = dataQuery.order("sla_next_breach_at", {
+        ascending: true,
+        nullsFirst: false,
+      });
+    }
     dataQuery = dataQuery
       .order("created_at", { ascending: false })
       .range(from, to);
@@ -318,6 +384,47 @@ export class TicketDAO extends BaseDAO<"tickets"> {
     return data ?? [];
   }
 
+  /**
+   * Open tickets for an asset, newest first
+   */
+  async findOpenByAsset(assetId: string): Promise<Ticket[]> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from("tickets")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .eq("asset_id", assetId)
+      .not("status", "in", "(completed,closed,rejected)")
+      .is("deleted_at", null)
+      .order("created_at", { ascending: false });
+
+    if (error) throw new Error(error.message);
+    return data ?? [];
+  }
+
+  /**
+   * Open tickets at a location that aren't about a particular asset, newest
+   * first
+   */
+  async findOpenByLocation(locationId: string, limit = 20): Promise<Ticket[]> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from("tickets")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .eq("location_id", locationId)
+      .is("asset_id", null)
+      .not("status", "in", "(completed,closed,rejected)")
+      .is("deleted_at", null)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error(error.message);
+    return data ?? [];
+  }
+
   /**
    * Find tickets assigned to a user
    */
@@ -395,6 +502,16 @@ export class TicketDAO extends BaseDAO<"tickets"> {
           id,
           name,
           contact_name
+        ),
+        status_history:ticket_status_history (
+          id,
+          to_status,
+          notes,
+          created_at,
+          changed_by_user:users!changed_by (
+            id,
+            full_name
+          )
         )
       `,
       )
@@ -414,10 +531,36 @@ export class TicketDAO extends BaseDAO<"tickets"> {
       this.getAttachmentsCount(id),
     ]);
 
+    const { status_history, ...ticket } = data as Record<string, unknown> & {
+      status_history: StatusHistoryJoin[] | null;
+    };
+
     return {
-      ...(data as Record<string, unknown>),
+      ...ticket,
       comments_count: commentsCount,
       attachments_count: attachmentsCount,
+      // Trigger-logged changes have no changed_by. When the application
+      // also logged the same change with notes (e.g. a cost approval),
+      // only the annotated entry is kept.
+      status_history: (status_history ?? [])
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .filter(
+          (entry, i, all) =>
+            entry.changed_by_user ||
+            entry.notes ||
+            ![all[i - 1], all[i + 1]].some(
+              (other) =>
+                other?.to_status === entry.to_status &&
+                (other.changed_by_user || other.notes),
+            ),
+        )
+        .map((entry) => ({
+          id: entry.id,
+          status: entry.to_status,
+          changed_at: entry.created_at,
+          changed_by: entry.changed_by_user ?? { id: "", full_name: "System" },
+          notes: entry.notes,
+        })),
     } as TicketWithRelations;
   }
 
@@ -460,6 +603,27 @@ export class TicketDAO extends BaseDAO<"tickets"> {
     return data ?? [];
   }
 
+  /**
+   * Find active tickets whose tracked SLA deadline has passed
+   * On-hold tickets are paused and never escalate
+   */
+  async findSLABreached(): Promise<Ticket[]> {
+    const { supabase, tenantId } = await this.getClient();
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from("tickets")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .not("status", "in", "(completed,closed,rejected,on_hold)")
+      .lte("sla_next_breach_at", now)
+      .is("deleted_at", null)
+      .order("sla_next_breach_at", { ascending: true });
+
+    if (error) throw new Error(error.message);
+    return data ?? [];
+  }
+
   /**
    * Find tickets by priority
    */
@@ -711,6 +875,7 @@ export class TicketDAO extends BaseDAO<"tickets"> {
 
     const statuses: TicketStatus[] = [
       "submitted",
+      "needs_approval",
       "in_progress",
       "completed",
       "closed",
@@ -942,8 +1107,12 @@ export class TicketDAO extends BaseDAO<"tickets"> {
   /**
    * Mark emergency ticket as contained
    */
-  async markContained(id: string): Promise<Ticket> {
+  async markContained(
+    id: string,
+    extra: Partial<Ticket> = {},
+  ): Promise<Ticket> {
     return this.update(id, {
+      ...extra,
       status: "in_progress" as TicketStatus,
       contained_at: new Date().toISOString(),
     });
@@ -952,8 +1121,13 @@ export class TicketDAO extends BaseDAO<"tickets"> {
   /**
    * Mark emergency ticket as resolved
    */
-  async markResolved(id: string, resolutionNotes: string): Promise<Ticket> {
+  async markResolved(
+    id: string,
+    resolutionNotes: string,
+    extra: Partial<Ticket> = {},
+  ): Promise<Ticket> {
     return this.update(id, {
+      ...extra,
       status: "closed" as TicketStatus,
       resolution_notes: resolutionNotes,
       closed_at: new Date().toISOString(),
@@ -1055,6 +1229,24 @@ export class TicketDAO extends BaseDAO<"tickets"> {
     return data ?? [];
   }
 
+  /**
+   * Find tickets completed since a point in time, whatever their status now
+   */
+  async findCompletedSince(since: string): Promise<Ticket[]> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from("tickets")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .gte("completed_at", since)
+      .is("deleted_at", null)
+      .order("completed_at", { ascending: false });
+
+    if (error) throw new Error(error.message);
+    return data ?? [];
+  }
+
   /**
    * Find closed tickets within a date range (by closed_at)
    * PERFORMANCE: Filters at database level for resolution time reports
@@ -1104,4 +1296,24 @@ export class TicketDAO extends BaseDAO<"tickets"> {
     }
     return counts;
   }
+
+  /**
+   * Corrective-action tickets raised against compliance documents
+   */
+  async findByComplianceDocuments(documentIds: string[]): Promise<Ticket[]> {
+    if (documentIds.length === 0) return [];
+
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = await supabase
+      .from("tickets")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .in("compliance_document_id", documentIds)
+      .is("deleted_at", null)
+      .order("created_at", { ascending: false });
+
+    if (error) throw new Error(error.message);
+    return data ?? [];
+  }
 }
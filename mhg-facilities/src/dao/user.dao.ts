@@ -1,6 +1,7 @@
 import { BaseDAO } from "@/dao/base.dao";
 import { getPooledSupabaseClient } from "@/lib/supabase/server-pooled";
 import type { User, UserRole, Json } from "@/types/database";
+import type { DigestFrequency } from "@/types";
 
 type UserInsert = {
   tenant_id: string;
@@ -126,6 +127,25 @@ export class UserDAO extends BaseDAO<"users"> {
     return data ?? [];
   }
 
+  /**
+   * Find users by id within current tenant
+   */
+  async findByIds(ids: string[]): Promise<User[]> {
+    if (ids.length === 0) return [];
+
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = (await supabase
+      .from("users")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .in("id", ids)
+      .is("deleted_at", null)) as unknown as QueryResult<User[]>;
+
+    if (error) throw new Error(error.message);
+    return data ?? [];
+  }
+
   /**
    * Find users by role within current tenant
    */
@@ -166,6 +186,27 @@ export class UserDAO extends BaseDAO<"users"> {
     return data ?? [];
   }
 
+  /**
+   * Find active users who asked for a daily or weekly digest
+   */
+  async findByDigestFrequency(frequency: DigestFrequency): Promise<User[]> {
+    const { supabase, tenantId } = await this.getClient();
+
+    const { data, error } = (await supabase
+      .from("users")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .eq("is_active", true)
+      .eq("notification_preferences->>digest", frequency)
+      .is("deleted_at", null)
+      .order("full_name", { ascending: true })) as unknown as QueryResult<
+      User[]
+    >;
+
+    if (error) throw new Error(error.message);
+    return data ?? [];
+  }
+
   /**
    * Create user with explicit tenant_id (used during signup when no tenant context)
    */
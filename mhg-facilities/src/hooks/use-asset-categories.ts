@@ -11,6 +11,8 @@ interface AssetCategory {
   name: string;
   description: string | null;
   default_lifespan_years: number | null;
+  depreciation_method: "straight_line" | "declining_balance" | "none";
+  salvage_value_percent: number;
   parent_category_id: string | null;
   tenant_id: string;
   created_at: string;
@@ -30,6 +32,8 @@ interface CategoryTreeNode {
   name: string;
   description: string | null;
   default_lifespan_years: number | null;
+  depreciation_method: "straight_line" | "declining_balance" | "none";
+  salvage_value_percent: number;
   parent_category_id: string | null;
   children: CategoryTreeNode[];
 }
@@ -2,9 +2,24 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import api from "@/lib/api-client";
 import type {
   AssetFilterInput,
+  AssetLabelsInput,
   CreateAssetInput,
+  CreateAssetMeterInput,
   UpdateAssetInput,
+  UpdateAssetMeterInput,
 } from "@/lib/validations/assets-vendors";
+import type {
+  AssetMeterRow,
+  AssetMeterReadingRow,
+  MeterReadingSource,
+} from "@/types/database-extensions";
+import type { LabelSheet } from "@/services/qr-label.service";
+import type {
+  AssetCostOfOwnership,
+  AssetTimelineEntry,
+} from "@/services/asset-history.service";
+import type { AssetReplacementPolicy } from "@/services/asset-scoring.service";
+import type { DepreciationSchedule } from "@/services/asset-depreciation.service";
 
 // Cache settings for React Query
 const STALE_TIME = 30000; // Data fresh for 30 seconds
@@ -46,6 +61,8 @@ interface AssetWithRelations extends Asset {
     id: string;
     name: string;
     default_lifespan_years: number | null;
+    depreciation_method: "straight_line" | "declining_balance" | "none";
+    salvage_value_percent: number;
   } | null;
   asset_type?: {
     id: string;
@@ -64,6 +81,8 @@ interface AssetWithRelations extends Asset {
     is_primary: boolean;
     notes: string | null;
   }>;
+  // Included in list results
+  total_cost_of_ownership?: number;
 }
 
 interface AssetStats {
@@ -294,3 +313,236 @@ export function useTransferAsset() {
     },
   });
 }
+
+/**
+ * Fetch an asset's service history and total cost of ownership
+ */
+export function useAssetHistory(assetId: string | null) {
+  return useQuery({
+    queryKey: ["assets", assetId, "history"],
+    queryFn: async () => {
+      if (!assetId) return null;
+      return api.get<{
+        history: AssetTimelineEntry[];
+        cost_of_ownership: AssetCostOfOwnership;
+      }>(`/api/assets/${assetId}/history`);
+    },
+    enabled: !!assetId,
+    staleTime: STALE_TIME,
+    gcTime: GC_TIME,
+  });
+}
+
+/**
+ * Fetch an asset's depreciation schedule and current book value
+ */
+export function useAssetDepreciation(assetId: string | null) {
+  return useQuery({
+    queryKey: ["assets", assetId, "depreciation"],
+    queryFn: async () => {
+      if (!assetId) return null;
+      const data = await api.get<{ schedule: DepreciationSchedule }>(
+        `/api/assets/${assetId}/depreciation`,
+      );
+      return data.schedule;
+    },
+    enabled: !!assetId,
+    staleTime: STALE_TIME,
+    gcTime: GC_TIME,
+  });
+}
+
+/**
+ * Print QR labels for the assets matching the filters
+ */
+export function usePrintAssetLabels() {
+  return useMutation({
+    mutationFn: async (data: AssetLabelsInput) => {
+      const response = await api.post<{ sheet: LabelSheet }>(
+        "/api/assets/labels",
+        data,
+      );
+      return response.sheet;
+    },
+  });
+}
+
+/**
+ * Fetch the usage meters on an asset
+ */
+export function useAssetMeters(assetId: string | null) {
+  return useQuery({
+    queryKey: ["assets", assetId, "meters"],
+    queryFn: async () => {
+      if (!assetId) return [];
+      const data = await api.get<{ meters: AssetMeterRow[] }>(
+        `/api/assets/${assetId}/meters`,
+      );
+      return data.meters;
+    },
+    enabled: !!assetId,
+    staleTime: STALE_TIME,
+    gcTime: GC_TIME,
+  });
+}
+
+/**
+ * Fetch reading history for a meter, newest first
+ */
+export function useMeterReadings(meterId: string | null) {
+  return useQuery({
+    queryKey: ["asset-meters", meterId, "readings"],
+    queryFn: async () => {
+      if (!meterId) return [];
+      const data = await api.get<{ readings: AssetMeterReadingRow[] }>(
+        `/api/asset-meters/${meterId}/readings`,
+      );
+      return data.readings;
+    },
+    enabled: !!meterId,
+    staleTime: STALE_TIME,
+    gcTime: GC_TIME,
+  });
+}
+
+/**
+ * Add a meter to an asset
+ */
+export function useCreateAssetMeter(assetId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CreateAssetMeterInput) => {
+      const data = await api.post<{ meter: AssetMeterRow }>(
+        `/api/assets/${assetId}/meters`,
+        input,
+      );
+      return data.meter;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["assets", assetId, "meters"],
+      });
+    },
+  });
+}
+
+/**
+ * Rename a meter or change its unit
+ */
+export function useUpdateAssetMeter(assetId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      ...input
+    }: UpdateAssetMeterInput & { id: string }) => {
+      const data = await api.patch<{ meter: AssetMeterRow }>(
+        `/api/asset-meters/${id}`,
+        input,
+      );
+      return data.meter;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["assets", assetId, "meters"],
+      });
+    },
+  });
+}
+
+/**
+ * Delete a meter that no active PM schedule uses
+ */
+export function useDeleteAssetMeter(assetId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/api/asset-meters/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["assets", assetId, "meters"],
+      });
+    },
+  });
+}
+
+/**
+ * Record a meter reading. Any PM work orders the reading makes due are
+ * generated server-side.
+ */
+export function useRecordMeterReading(assetId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      meterId,
+      ...input
+    }: {
+      meterId: string;
+      reading: number;
+      source?: Exclude<MeterReadingSource, "pm_checklist">;
+      notes?: string | null;
+    }) => {
+      return api.post<{
+        meter: AssetMeterRow;
+        triggered: Array<{ status: string; ticket_id: string | null }>;
+      }>(`/api/asset-meters/${meterId}/readings`, input);
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ["assets", assetId, "meters"],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["asset-meters", variables.meterId, "readings"],
+      });
+      if (data.triggered.some((r) => r.status === "generated")) {
+        queryClient.invalidateQueries({ queryKey: ["tickets"] });
+        queryClient.invalidateQueries({ queryKey: ["pm"] });
+      }
+    },
+  });
+}
+
+/**
+ * Fetch the tenant's thresholds for flagging problem assets
+ */
+export function useAssetReplacementPolicy() {
+  return useQuery({
+    queryKey: ["assets", "replacement-policy"],
+    queryFn: async () => {
+      const data = await api.get<{ policy: AssetReplacementPolicy }>(
+        "/api/asset-replacement-policy",
+      );
+      return data.policy;
+    },
+    staleTime: STALE_TIME,
+    gcTime: GC_TIME,
+  });
+}
+
+/**
+ * Save the tenant's thresholds for flagging problem assets
+ */
+export function useUpdateAssetReplacementPolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: AssetReplacementPolicy) => {
+      const data = await api.put<{ policy: AssetReplacementPolicy }>(
+        "/api/asset-replacement-policy",
+        input,
+      );
+      return data.policy;
+    },
+    onSuccess: (policy) => {
+      queryClient.setQueryData(["assets", "replacement-policy"], policy);
+      queryClient.invalidateQueries({
+        queryKey: ["dashboard", "problem-assets"],
+      });
+    },
+  });
+}
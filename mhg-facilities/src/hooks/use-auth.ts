@@ -14,6 +14,7 @@ interface AuthUser {
   role: UserRole;
   phone: string | null;
   locationId: string | null;
+  vendorId: string | null;
   languagePreference: "en" | "es";
   isActive: boolean;
   notificationPreferences: {
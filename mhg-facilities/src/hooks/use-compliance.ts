@@ -1,5 +1,10 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import api from "@/lib/api-client";
+import type {
+  ComplianceMetadataSuggestions,
+  ComplianceRenewalChecklist,
+} from "@/types";
+import type { TicketStatus } from "@/types/database";
 
 // Types
 interface ComplianceDocument {
@@ -32,6 +37,7 @@ interface ComplianceDocument {
   renewal_submitted_date: string | null;
   renewal_cost: number | null;
   renewal_assigned_to: string | null;
+  alert_days: number[] | null;
   notes: string | null;
   created_at: string;
   updated_at: string;
@@ -43,10 +49,66 @@ interface ComplianceDocumentType {
   name_es: string | null;
   description: string | null;
   default_alert_days: number[] | null;
-  renewal_checklist: Record<string, unknown> | null;
+  expiring_soon_days: number | null;
+  renewal_checklist: ComplianceRenewalChecklist | null;
   is_location_specific: boolean | null;
 }
 
+export type ComplianceRenewalStage =
+  | "not_started"
+  | "submitted"
+  | "in_review"
+  | "approved"
+  | "cancelled";
+
+export interface ComplianceRenewalTask {
+  id: string;
+  renewal_id: string;
+  title: string;
+  description: string | null;
+  sort_order: number;
+  assigned_to: string | null;
+  assigned_user?: { id: string; full_name: string } | null;
+  due_date: string | null;
+  completed_at: string | null;
+  completed_by: string | null;
+}
+
+export interface ComplianceRenewal {
+  id: string;
+  document_id: string;
+  stage: ComplianceRenewalStage;
+  assigned_to: string | null;
+  assigned_user?: { id: string; full_name: string } | null;
+  cost: number | null;
+  notes: string | null;
+  submitted_at: string | null;
+  reviewed_at: string | null;
+  approved_at: string | null;
+  approved_by_user?: { id: string; full_name: string } | null;
+  cancelled_at: string | null;
+  new_issue_date: string | null;
+  new_expiration_date: string | null;
+  created_at: string;
+  tasks: ComplianceRenewalTask[];
+}
+
+export interface ComplianceCorrectiveAction {
+  id: string;
+  document_id: string;
+  description: string;
+  sort_order: number;
+  ticket_id: string | null;
+  ticket: {
+    id: string;
+    ticket_number: number;
+    title: string;
+    status: TicketStatus;
+    completed_at: string | null;
+  } | null;
+  created_at: string;
+}
+
 interface ComplianceStats {
   total: number;
   active: number;
@@ -76,6 +138,7 @@ interface CreateComplianceDocInput {
   file_path?: string | null;
   renewal_cost?: number | null;
   renewal_assigned_to?: string | null;
+  alert_days?: number[] | null;
   notes?: string | null;
 }
 
@@ -92,6 +155,7 @@ interface UpdateComplianceDocInput {
   status?: string;
   renewal_cost?: number | null;
   renewal_assigned_to?: string | null;
+  alert_days?: number[] | null;
   notes?: string | null;
 }
 
@@ -116,6 +180,9 @@ export const complianceKeys = {
   expiring: (days: number) =>
     [...complianceKeys.all, "expiring", days] as const,
   types: () => [...complianceKeys.all, "types"] as const,
+  renewal: (id: string) => [...complianceKeys.detail(id), "renewal"] as const,
+  correctiveActions: (id: string) =>
+    [...complianceKeys.detail(id), "corrective-actions"] as const,
 };
 
 // Hooks
@@ -321,18 +388,18 @@ export function useMarkAsFailedInspection() {
   return useMutation({
     mutationFn: async ({
       id,
-      correctiveAction,
+      correctiveActions,
       reinspectionDate,
     }: {
       id: string;
-      correctiveAction: string;
+      correctiveActions: string[];
       reinspectionDate: string;
     }) => {
       const response = await api.patch<{ document: ComplianceDocument }>(
         `/api/compliance/${id}/status`,
         {
-          action: "failed_inspection",
-          corrective_action: correctiveAction,
+          action: "mark_failed_inspection",
+          corrective_actions: correctiveActions,
           reinspection_date: reinspectionDate,
         },
       );
@@ -385,3 +452,204 @@ export function useClearFailedInspection() {
     },
   });
 }
+
+export function useCorrectiveActions(documentId: string) {
+  return useQuery({
+    queryKey: complianceKeys.correctiveActions(documentId),
+    queryFn: async () => {
+      const response = await api.get<{
+        corrective_actions: ComplianceCorrectiveAction[];
+      }>(`/api/compliance/${documentId}/corrective-actions`);
+      return response.corrective_actions;
+    },
+    enabled: !!documentId,
+  });
+}
+
+export function useComplianceRenewal(documentId: string) {
+  return useQuery({
+    queryKey: complianceKeys.renewal(documentId),
+    queryFn: async () => {
+      const response = await api.get<{ renewal: ComplianceRenewal | null }>(
+        `/api/compliance/${documentId}/renewal`,
+      );
+      return response.renewal;
+    },
+    enabled: !!documentId,
+  });
+}
+
+// Renewals change the document's status, so refresh it alongside
+function useInvalidateRenewal() {
+  const queryClient = useQueryClient();
+
+  return (documentId: string) => {
+    queryClient.invalidateQueries({ queryKey: complianceKeys.lists() });
+    queryClient.invalidateQueries({
+      queryKey: complianceKeys.detail(documentId),
+    });
+    queryClient.invalidateQueries({ queryKey: complianceKeys.stats() });
+  };
+}
+
+export function useStartRenewal() {
+  const invalidate = useInvalidateRenewal();
+
+  return useMutation({
+    mutationFn: async ({
+      documentId,
+      ...data
+    }: {
+      documentId: string;
+      assigned_to?: string | null;
+      cost?: number | null;
+      notes?: string | null;
+    }) => {
+      const response = await api.post<{ renewal: ComplianceRenewal }>(
+        `/api/compliance/${documentId}/renewal`,
+        data,
+      );
+      return response.renewal;
+    },
+    onSuccess: (_, variables) => invalidate(variables.documentId),
+  });
+}
+
+export function useAdvanceRenewal() {
+  const invalidate = useInvalidateRenewal();
+
+  return useMutation({
+    mutationFn: async ({
+      documentId,
+      action,
+      notes,
+    }: {
+      documentId: string;
+      action: "submit" | "review" | "cancel";
+      notes?: string | null;
+    }) => {
+      const response = await api.patch<{ renewal: ComplianceRenewal }>(
+        `/api/compliance/${documentId}/renewal`,
+        { action, notes },
+      );
+      return response.renewal;
+    },
+    onSuccess: (_, variables) => invalidate(variables.documentId),
+  });
+}
+
+export function useUpdateRenewalTask() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      documentId,
+      taskId,
+      ...data
+    }: {
+      documentId: string;
+      taskId: string;
+      completed?: boolean;
+      assigned_to?: string | null;
+      due_date?: string | null;
+    }) => {
+      const response = await api.patch<{ task: ComplianceRenewalTask }>(
+        `/api/compliance/${documentId}/renewal/tasks/${taskId}`,
+        data,
+      );
+      return response.task;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: complianceKeys.renewal(variables.documentId),
+      });
+    },
+  });
+}
+
+export function useApproveRenewal() {
+  const invalidate = useInvalidateRenewal();
+
+  return useMutation({
+    mutationFn: async ({
+      documentId,
+      file,
+      newExpirationDate,
+      newIssueDate,
+      cost,
+    }: {
+      documentId: string;
+      file: File;
+      newExpirationDate: string;
+      newIssueDate?: string | null;
+      cost?: number | null;
+    }) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("new_expiration_date", newExpirationDate);
+      if (newIssueDate) formData.append("new_issue_date", newIssueDate);
+      if (cost != null) formData.append("cost", String(cost));
+
+      const response = await api.upload<{ renewal: ComplianceRenewal }>(
+        `/api/compliance/${documentId}/renewal/approve`,
+        formData,
+      );
+      return response.renewal;
+    },
+    onSuccess: (_, variables) => invalidate(variables.documentId),
+  });
+}
+
+export interface ComplianceAuditPackage {
+  file_name: string;
+  url: string;
+  expires_at: string;
+  documents: number;
+  files: number;
+  missing_files: string[];
+  pm_completions: number;
+  tickets: number;
+}
+
+export function useGenerateAuditPackage() {
+  return useMutation({
+    mutationFn: async (data: {
+      location_id: string;
+      from_date: string;
+      to_date: string;
+    }) => {
+      const response = await api.post<{ package: ComplianceAuditPackage }>(
+        "/api/compliance/audit-package",
+        data,
+      );
+      return response.package;
+    },
+  });
+}
+
+export interface ComplianceMetadataExtraction {
+  has_text: boolean;
+  page_count: number;
+  suggestions: ComplianceMetadataSuggestions;
+}
+
+export function useExtractComplianceMetadata() {
+  return useMutation({
+    mutationFn: async ({
+      file,
+      documentTypeId,
+    }: {
+      file: File;
+      documentTypeId?: string | null;
+    }) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      if (documentTypeId) formData.append("document_type_id", documentTypeId);
+
+      return await api.upload<ComplianceMetadataExtraction>(
+        "/api/compliance/metadata",
+        formData,
+      );
+    },
+  });
+}
@@ -11,6 +11,7 @@ import type {
   PMStats,
   ActivityItem,
 } from "@/services/dashboard.service";
+import type { AssetScore } from "@/services/asset-scoring.service";
 
 // Query keys
 export const dashboardKeys = {
@@ -26,6 +27,8 @@ export const dashboardKeys = {
     [...dashboardKeys.all, "pm", includeOverdue] as const,
   activity: (limit?: number) =>
     [...dashboardKeys.all, "activity", limit] as const,
+  problemAssets: (limit?: number) =>
+    [...dashboardKeys.all, "problem-assets", limit] as const,
 };
 
 // Overview stats
@@ -128,3 +131,19 @@ export function useRecentActivity(limit: number = 10) {
     },
   });
 }
+
+// Assets flagged for repair-or-replace review
+export function useProblemAssets(limit: number = 5) {
+  return useQuery({
+    queryKey: dashboardKeys.problemAssets(limit),
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        limit: limit.toString(),
+      });
+      return api.get<{ assets: AssetScore[]; total: number }>(
+        `/api/dashboard/problem-assets?${params.toString()}`,
+      );
+    },
+    staleTime: 30 * 1000,
+  });
+}
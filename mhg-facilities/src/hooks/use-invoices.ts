@@ -0,0 +1,185 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import api from "@/lib/api-client";
+import { budgetKeys } from "./use-budgets";
+import { ticketKeys } from "./use-tickets";
+import type { InvoiceWithRelations } from "@/dao/invoice.dao";
+import type { InvoiceStatus } from "@/types/database";
+import type {
+  CreateInvoiceInput,
+  RecordInvoicePaymentInput,
+  UpdateInvoiceInput,
+} from "@/lib/validations/invoice";
+
+export type Invoice = InvoiceWithRelations;
+
+export interface InvoiceFilters {
+  vendor_id?: string;
+  ticket_id?: string;
+  status?: InvoiceStatus;
+}
+
+export interface CreateInvoiceData extends Omit<
+  CreateInvoiceInput,
+  "tax_amount" | "line_items"
+> {
+  tax_amount?: number;
+  line_items: { description: string; quantity?: number; unit_price: number }[];
+  /** Invoice PDF; stored as an 'invoice' attachment on the ticket */
+  file?: File | null;
+}
+
+// Query Keys
+export const invoiceKeys = {
+  all: ["invoices"] as const,
+  lists: () => [...invoiceKeys.all, "list"] as const,
+  list: (filters?: InvoiceFilters) =>
+    [...invoiceKeys.lists(), filters] as const,
+  detail: (id: string) => [...invoiceKeys.all, "detail", id] as const,
+};
+
+// Queries
+export function useInvoices(filters?: InvoiceFilters, enabled = true) {
+  return useQuery({
+    queryKey: invoiceKeys.list(filters),
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (filters?.vendor_id) params.set("vendor_id", filters.vendor_id);
+      if (filters?.ticket_id) params.set("ticket_id", filters.ticket_id);
+      if (filters?.status) params.set("status", filters.status);
+
+      const response = await api.get<{ invoices: Invoice[] }>(
+        `/api/invoices?${params.toString()}`,
+      );
+      return response.invoices;
+    },
+    enabled,
+  });
+}
+
+export function useInvoice(id: string | null) {
+  return useQuery({
+    queryKey: invoiceKeys.detail(id ?? ""),
+    queryFn: async () => {
+      return api.get<{ invoice: Invoice; attachment_url: string | null }>(
+        `/api/invoices/${id}`,
+      );
+    },
+    enabled: !!id,
+  });
+}
+
+// Mutations
+export function useCreateInvoice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ file, ...data }: CreateInvoiceData) => {
+      let attachmentId = data.attachment_id ?? null;
+
+      if (file) {
+        const formData = new FormData();
+        formData.append("file", file);
+        formData.append("attachment_type", "invoice");
+
+        const upload = await api.upload<{ attachment: { id: string } }>(
+          `/api/tickets/${data.ticket_id}/attachments`,
+          formData,
+        );
+        attachmentId = upload.attachment.id;
+      }
+
+      const response = await api.post<{ invoice: Invoice }>("/api/invoices", {
+        ...data,
+        attachment_id: attachmentId,
+      });
+      return response.invoice;
+    },
+    onSuccess: (invoice) => {
+      queryClient.invalidateQueries({ queryKey: invoiceKeys.all });
+      queryClient.invalidateQueries({
+        queryKey: ticketKeys.attachments(invoice.ticket_id),
+      });
+      queryClient.invalidateQueries({ queryKey: budgetKeys.all });
+    },
+  });
+}
+
+export function useUpdateInvoice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      data,
+    }: {
+      id: string;
+      data: UpdateInvoiceInput;
+    }) => {
+      const response = await api.patch<{ invoice: Invoice }>(
+        `/api/invoices/${id}`,
+        data,
+      );
+      return response.invoice;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: invoiceKeys.all });
+    },
+  });
+}
+
+export function useInvoiceStatusAction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      ...data
+    }: { id: string } & (
+      | { action: "approve" }
+      | { action: "dispute"; reason: string }
+    )) => {
+      const response = await api.post<{ invoice: Invoice }>(
+        `/api/invoices/${id}/status`,
+        data,
+      );
+      return response.invoice;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: invoiceKeys.all });
+      queryClient.invalidateQueries({ queryKey: budgetKeys.all });
+    },
+  });
+}
+
+export function useRecordInvoicePayment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      ...data
+    }: { id: string } & RecordInvoicePaymentInput) => {
+      const response = await api.post<{ invoice: Invoice }>(
+        `/api/invoices/${id}/payments`,
+        data,
+      );
+      return response.invoice;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: invoiceKeys.all });
+    },
+  });
+}
+
+export function useDeleteInvoice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/api/invoices/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: invoiceKeys.all });
+    },
+  });
+}
@@ -1,5 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import api from "@/lib/api-client";
+import type { LocationLabelsInput } from "@/lib/validations/location";
+import type { LabelSheet } from "@/services/qr-label.service";
 
 // Type definitions
 export interface Location {
@@ -150,3 +152,24 @@ export function useDeleteLocation() {
     },
   });
 }
+
+/**
+ * Print "report a problem" QR labels for locations
+ */
+export function usePrintLocationLabels() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: LocationLabelsInput) => {
+      const response = await api.post<{ sheet: LabelSheet }>(
+        "/api/locations/labels",
+        data,
+      );
+      return response.sheet;
+    },
+    onSuccess: () => {
+      // Locations printed for the first time were given QR codes
+      queryClient.invalidateQueries({ queryKey: locationKeys.all });
+    },
+  });
+}
@@ -0,0 +1,269 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import api from "@/lib/api-client";
+import type { NotificationPreferences } from "@/types";
+import type {
+  NotificationOutboxFiltersInput,
+  NotificationPreferencesInput,
+} from "@/lib/validations/user";
+import type { NotificationInboxFilters } from "@/dao/notification.dao";
+import type { NotificationInbox } from "@/services/notification-inbox.service";
+import type { NotificationPolicy } from "@/services/notification-preference.service";
+import type { OutboxMessageWithDeliveries } from "@/services/notification-outbox.service";
+import type { NotificationOutboxRow } from "@/types/database-extensions";
+
+// Query Keys
+export const notificationKeys = {
+  all: ["notifications"] as const,
+  inbox: () => [...notificationKeys.all, "inbox"] as const,
+  inboxList: (filters?: NotificationInboxFilters) =>
+    [...notificationKeys.inbox(), filters] as const,
+  preferences: () => [...notificationKeys.all, "preferences"] as const,
+  policy: () => [...notificationKeys.all, "policy"] as const,
+  outbox: () => [...notificationKeys.all, "outbox"] as const,
+  outboxList: (filters?: NotificationOutboxFiltersInput) =>
+    [...notificationKeys.outbox(), "list", filters] as const,
+  outboxMessage: (id: string) =>
+    [...notificationKeys.outbox(), "detail", id] as const,
+};
+
+// Queries
+export function useNotificationInbox(
+  filters?: NotificationInboxFilters,
+  enabled = true,
+) {
+  return useQuery({
+    queryKey: notificationKeys.inboxList(filters),
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (filters?.unread) params.set("unread", "true");
+      if (filters?.limit) params.set("limit", String(filters.limit));
+
+      return api.get<NotificationInbox>(
+        `/api/notifications?${params.toString()}`,
+      );
+    },
+    enabled,
+  });
+}
+
+export function useNotificationPreferences() {
+  return useQuery({
+    queryKey: notificationKeys.preferences(),
+    queryFn: async () => {
+      const response = await api.get<{ preferences: NotificationPreferences }>(
+        "/api/notification-preferences",
+      );
+      return response.preferences;
+    },
+  });
+}
+
+export function useNotificationPolicy() {
+  return useQuery({
+    queryKey: notificationKeys.policy(),
+    queryFn: async () => {
+      const response = await api.get<{ policy: NotificationPolicy }>(
+        "/api/notification-policy",
+      );
+      return response.policy;
+    },
+  });
+}
+
+export function useNotificationOutbox(
+  filters?: NotificationOutboxFiltersInput,
+  enabled = true,
+) {
+  return useQuery({
+    queryKey: notificationKeys.outboxList(filters),
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (filters?.status) params.set("status", filters.status);
+      if (filters?.event) params.set("event", filters.event);
+
+      const response = await api.get<{ messages: NotificationOutboxRow[] }>(
+        `/api/notification-outbox?${params.toString()}`,
+      );
+      return response.messages;
+    },
+    enabled,
+  });
+}
+
+export function useNotificationOutboxMessage(id: string | null) {
+  return useQuery({
+    queryKey: notificationKeys.outboxMessage(id ?? ""),
+    queryFn: async () => {
+      const response = await api.get<{ message: OutboxMessageWithDeliveries }>(
+        `/api/notification-outbox/${id}`,
+      );
+      return response.message;
+    },
+    enabled: !!id,
+  });
+}
+
+// Mutations
+/**
+ * Mark in-app notifications read; pass no ids to mark them all
+ */
+export function useMarkNotificationsRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (ids?: string[]) => {
+      const response = await api.post<{ updated: number }>(
+        "/api/notifications/read",
+        { ids },
+      );
+      return response.updated;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notificationKeys.inbox() });
+    },
+  });
+}
+
+export function useUpdateNotificationPreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: NotificationPreferencesInput) => {
+      const response = await api.put<{ preferences: NotificationPreferences }>(
+        "/api/notification-preferences",
+        data,
+      );
+      return response.preferences;
+    },
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(notificationKeys.preferences(), preferences);
+    },
+  });
+}
+
+export function useUpdateNotificationPolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: NotificationPolicy) => {
+      const response = await api.put<{ policy: NotificationPolicy }>(
+        "/api/notification-policy",
+        data,
+      );
+      return response.policy;
+    },
+    onSuccess: (policy) => {
+      queryClient.setQueryData(notificationKeys.policy(), policy);
+    },
+  });
+}
+
+export function useResendNotification() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await api.post<{ message: NotificationOutboxRow }>(
+        `/api/notification-outbox/${id}/resend`,
+      );
+      return response.message;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notificationKeys.outbox() });
+    },
+  });
+}
+
+// Web push (this browser)
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY || "";
+const PUSH_SUBSCRIPTIONS_URL =
+  "/api/notification-preferences/push-subscriptions";
+
+interface PushStatus {
+  isSupported: boolean;
+  subscription: PushSubscription | null;
+}
+
+async function getPushStatus(): Promise<PushStatus> {
+  if (
+    !VAPID_PUBLIC_KEY ||
+    !("serviceWorker" in navigator) ||
+    !("PushManager" in window)
+  ) {
+    return { isSupported: false, subscription: null };
+  }
+
+  const registration = await navigator.serviceWorker.getRegistration("/sw.js");
+  const subscription =
+    (await registration?.pushManager.getSubscription()) ?? null;
+  return { isSupported: true, subscription };
+}
+
+/**
+ * Subscribe or unsubscribe this browser from push notifications
+ */
+export function usePushSubscription() {
+  const [status, setStatus] = useState<PushStatus>({
+    isSupported: false,
+    subscription: null,
+  });
+  const [isPending, setIsPending] = useState(false);
+
+  useEffect(() => {
+    getPushStatus()
+      .then(setStatus)
+      .catch((error) => console.error("Error checking push status:", error));
+  }, []);
+
+  const subscribe = async () => {
+    setIsPending(true);
+    try {
+      const registration = await navigator.serviceWorker.register("/sw.js");
+      await navigator.serviceWorker.ready;
+
+      const subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: base64urlToBytes(VAPID_PUBLIC_KEY),
+      });
+      await api.post(PUSH_SUBSCRIPTIONS_URL, subscription.toJSON());
+
+      setStatus({ isSupported: true, subscription });
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const unsubscribe = async () => {
+    const { subscription } = status;
+    if (!subscription) return;
+
+    setIsPending(true);
+    try {
+      await api.delete(
+        `${PUSH_SUBSCRIPTIONS_URL}?endpoint=${encodeURIComponent(subscription.endpoint)}`,
+      );
+      await subscription.unsubscribe();
+
+      setStatus({ isSupported: true, subscription: null });
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return {
+    isSupported: status.isSupported,
+    isSubscribed: !!status.subscription,
+    isPending,
+    subscribe,
+    unsubscribe,
+  };
+}
+
+function base64urlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = (value + "=".repeat((4 - (value.length % 4)) % 4))
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+  const raw = atob(base64);
+  return new Uint8Array(Array.from(raw, (char) => char.charCodeAt(0)));
+}
@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import api from "@/lib/api-client";
+import type { PMChecklist, PMChecklistResults } from "@/types";
 
 // Types
 interface PMCompletion {
@@ -9,6 +10,18 @@ interface PMCompletion {
   completed_by: string | null;
 }
 
+type PMTriggerType = "calendar" | "meter" | "calendar_or_meter";
+
+interface PMMeterStatus {
+  meter_id: string;
+  meter_name: string;
+  unit: "hours" | "cycles" | "gallons";
+  current_reading: number;
+  due_at_reading: number;
+  remaining: number;
+  is_due: boolean;
+}
+
 interface PMSchedule {
   id: string;
   tenant_id: string;
@@ -26,7 +39,13 @@ interface PMSchedule {
     | "monthly"
     | "quarterly"
     | "semi_annually"
-    | "annually";
+    | "annually"
+    | null;
+  scheduling_mode: "fixed" | "floating";
+  trigger_type: PMTriggerType;
+  meter_id: string | null;
+  meter_interval: number | null;
+  meter_last_service_reading: number | null;
   day_of_week: number | null;
   day_of_month: number | null;
   month_of_year: number | null;
@@ -41,6 +60,8 @@ interface PMSchedule {
   created_at: string;
   updated_at: string;
   completions?: PMCompletion[];
+  // Detail only: progress towards the next meter-triggered occurrence
+  meter_status?: PMMeterStatus | null;
 }
 
 interface PMTemplate {
@@ -48,7 +69,7 @@ interface PMTemplate {
   name: string;
   description: string | null;
   category: string | null;
-  checklist: Record<string, unknown> | null;
+  checklist: PMChecklist | null;
   estimated_duration_hours: number | null;
   default_vendor_id: string | null;
 }
@@ -73,7 +94,8 @@ interface PMCalendarItem {
     | "monthly"
     | "quarterly"
     | "semi_annually"
-    | "annually";
+    | "annually"
+    | null;
   next_due_date: string | null;
 }
 
@@ -83,14 +105,19 @@ interface CreatePMScheduleInput {
   description?: string | null;
   asset_id?: string | null;
   location_id?: string | null;
-  frequency:
+  frequency?:
     | "daily"
     | "weekly"
     | "biweekly"
     | "monthly"
     | "quarterly"
     | "semi_annually"
-    | "annually";
+    | "annually"
+    | null;
+  scheduling_mode?: "fixed" | "floating";
+  trigger_type?: PMTriggerType;
+  meter_id?: string | null;
+  meter_interval?: number | null;
   day_of_week?: number | null;
   day_of_month?: number | null;
   month_of_year?: number | null;
@@ -112,7 +139,12 @@ interface UpdatePMScheduleInput {
     | "monthly"
     | "quarterly"
     | "semi_annually"
-    | "annually";
+    | "annually"
+    | null;
+  scheduling_mode?: "fixed" | "floating";
+  trigger_type?: PMTriggerType;
+  meter_id?: string | null;
+  meter_interval?: number | null;
   day_of_week?: number | null;
   day_of_month?: number | null;
   month_of_year?: number | null;
@@ -130,6 +162,19 @@ interface PMFilters {
   is_active?: boolean;
 }
 
+interface GeneratePMTicketsInput {
+  from?: string;
+  to?: string;
+}
+
+interface PMGenerationResult {
+  schedule_id: string;
+  scheduled_date: string;
+  status: "generated" | "skipped" | "failed";
+  ticket_id: string | null;
+  message: string;
+}
+
 // Query keys
 export const pmKeys = {
   all: ["pm"] as const,
@@ -168,10 +213,11 @@ export function usePMSchedule(id: string) {
   return useQuery({
     queryKey: pmKeys.scheduleDetail(id),
     queryFn: async () => {
-      const response = await api.get<{ schedule: PMSchedule }>(
-        `/api/pm-schedules/${id}`,
-      );
-      return response.schedule;
+      const response = await api.get<{
+        schedule: PMSchedule;
+        meter_status: PMMeterStatus | null;
+      }>(`/api/pm-schedules/${id}`);
+      return { ...response.schedule, meter_status: response.meter_status };
     },
     enabled: !!id,
   });
@@ -323,7 +369,7 @@ export function useMarkPMComplete() {
       scheduleId: string;
       ticketId: string;
       userId: string;
-      checklistResults?: Record<string, unknown>;
+      checklistResults?: PMChecklistResults;
     }) => {
       const response = await api.post<{ completion: unknown }>(
         `/api/pm-schedules/${scheduleId}/complete`,
@@ -349,15 +395,17 @@ export function useGeneratePMTickets() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async () => {
-      const response = await api.post<{ tickets: unknown[]; count: number }>(
-        "/api/pm-schedules/generate",
-      );
+    mutationFn: async (range: GeneratePMTicketsInput = {}) => {
+      const response = await api.post<{
+        results: PMGenerationResult[];
+        count: number;
+      }>("/api/pm-schedules/generate", range);
       return response;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: pmKeys.schedules() });
       queryClient.invalidateQueries({ queryKey: pmKeys.stats() });
+      queryClient.invalidateQueries({ queryKey: ["tickets"] });
     },
   });
 }
@@ -190,3 +190,19 @@ export function useVendorRealtime() {
     invalidateQueries: [["vendors"]],
   });
 }
+
+/**
+ * Hook to subscribe to a user's in-app notifications
+ * Refreshes the inbox and unread count as new notifications arrive. The
+ * filter only narrows the subscription; RLS on notifications is what keeps
+ * other users' rows from being sent.
+ */
+export function useNotificationRealtime(userId?: string) {
+  useRealtimeSubscription({
+    table: "notifications",
+    event: "INSERT",
+    filter: userId ? `user_id=eq.${userId}` : undefined,
+    enabled: !!userId,
+    invalidateQueries: [["notifications", "inbox"]],
+  });
+}
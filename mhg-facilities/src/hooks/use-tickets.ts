@@ -1,6 +1,12 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import api from "@/lib/api-client";
 import type { Database } from "@/types/database";
+import type { TicketSLAState } from "@/services/ticket-sla.service";
+import type { TicketChecklist } from "@/services/pm-checklist.service";
+import type { PMChecklistResults } from "@/types";
+import type { CostApprovalWithRelations } from "@/dao/cost-approval.dao";
+import type { CostApprovalPolicy } from "@/services/cost-approval.service";
+import type { CostApprovalSource } from "@/types/database-extensions";
 
 // Types
 // Import Ticket from database types
@@ -41,6 +47,7 @@ export interface Ticket extends TicketRow {
     };
     notes?: string | null;
   }>;
+  sla?: TicketSLAState;
 }
 
 interface TicketFilters {
@@ -49,10 +56,13 @@ interface TicketFilters {
   category_id?: string;
   location_id?: string;
   assignee_id?: string;
+  vendor_id?: string;
   page?: number;
   pageSize?: number;
   is_emergency?: boolean;
   search?: string;
+  sla_status?: "breached" | "at_risk";
+  sort_by?: "created_at" | "time_to_breach";
 }
 
 interface PaginatedResponse<T> {
@@ -92,6 +102,19 @@ interface AssignmentData {
   vendor_id?: string;
 }
 
+interface CostApprovalRequestData {
+  amount: number;
+  source: CostApprovalSource;
+  vendor_id?: string | null;
+  notes?: string;
+}
+
+interface CostApprovalDecisionData {
+  approvalId: string;
+  decision: "approve" | "deny";
+  notes: string;
+}
+
 interface CommentData {
   comment: string;
   is_internal: boolean;
@@ -99,7 +122,13 @@ interface CommentData {
 
 interface AttachmentData {
   file: File;
-  attachment_type: "photo" | "invoice" | "quote" | "other";
+  attachment_type:
+    | "photo"
+    | "progress"
+    | "completion"
+    | "invoice"
+    | "quote"
+    | "other";
 }
 
 // Query Keys
@@ -112,6 +141,11 @@ export const ticketKeys = {
   comments: (id: string) => [...ticketKeys.detail(id), "comments"] as const,
   attachments: (id: string) =>
     [...ticketKeys.detail(id), "attachments"] as const,
+  checklist: (id: string) => [...ticketKeys.detail(id), "checklist"] as const,
+  costApprovals: (id: string) =>
+    [...ticketKeys.detail(id), "cost-approvals"] as const,
+  costApprovalPolicy: () =>
+    [...ticketKeys.all, "cost-approval-policy"] as const,
 };
 
 // Cache settings for React Query
@@ -132,12 +166,15 @@ export function useTickets(filters?: TicketFilters) {
         params.append("location_id", filters.location_id);
       if (filters?.assignee_id)
         params.append("assignee_id", filters.assignee_id);
+      if (filters?.vendor_id) params.append("vendor_id", filters.vendor_id);
       if (filters?.page) params.append("page", filters.page.toString());
       if (filters?.pageSize)
         params.append("pageSize", filters.pageSize.toString());
       if (filters?.is_emergency !== undefined)
         params.append("is_emergency", filters.is_emergency.toString());
       if (filters?.search) params.append("search", filters.search);
+      if (filters?.sla_status) params.append("sla_status", filters.sla_status);
+      if (filters?.sort_by) params.append("sort_by", filters.sort_by);
 
       const response = await api.get<PaginatedResponse<Ticket>>(
         `/api/tickets?${params.toString()}`,
@@ -195,6 +232,50 @@ export function useTicketAttachments(id: string) {
   });
 }
 
+export function useTicketChecklist(id: string) {
+  return useQuery({
+    queryKey: ticketKeys.checklist(id),
+    queryFn: async () => {
+      const response = await api.get<{ checklist: TicketChecklist | null }>(
+        `/api/tickets/${id}/checklist`,
+      );
+      return response.checklist;
+    },
+    enabled: !!id,
+    staleTime: STALE_TIME,
+    gcTime: GC_TIME,
+  });
+}
+
+export function useTicketCostApprovals(id: string) {
+  return useQuery({
+    queryKey: ticketKeys.costApprovals(id),
+    queryFn: async () => {
+      const response = await api.get<{
+        approvals: CostApprovalWithRelations[];
+      }>(`/api/tickets/${id}/cost-approvals`);
+      return response.approvals;
+    },
+    enabled: !!id,
+    staleTime: STALE_TIME,
+    gcTime: GC_TIME,
+  });
+}
+
+export function useCostApprovalPolicy() {
+  return useQuery({
+    queryKey: ticketKeys.costApprovalPolicy(),
+    queryFn: async () => {
+      const response = await api.get<{ policy: CostApprovalPolicy }>(
+        "/api/cost-approval-policy",
+      );
+      return response.policy;
+    },
+    staleTime: STALE_TIME,
+    gcTime: GC_TIME,
+  });
+}
+
 // Mutations
 export function useCreateTicket() {
   const queryClient = useQueryClient();
@@ -299,6 +380,76 @@ export function useUploadAttachment(id: string) {
   });
 }
 
+export function useSaveTicketChecklist(id: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (results: PMChecklistResults) => {
+      const response = await api.put<{ checklist: TicketChecklist }>(
+        `/api/tickets/${id}/checklist`,
+        results,
+      );
+      return response.checklist;
+    },
+    onSuccess: (checklist) => {
+      queryClient.setQueryData(ticketKeys.checklist(id), checklist);
+    },
+  });
+}
+
+export function useRequestCostApproval(id: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: CostApprovalRequestData) => {
+      const response = await api.post<{ ticket: Ticket }>(
+        `/api/tickets/${id}/cost-approvals`,
+        data,
+      );
+      return response.ticket;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ticketKeys.detail(id) });
+      queryClient.invalidateQueries({ queryKey: ticketKeys.lists() });
+    },
+  });
+}
+
+export function useDecideCostApproval(id: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ approvalId, ...data }: CostApprovalDecisionData) => {
+      const response = await api.post<{ ticket: Ticket }>(
+        `/api/cost-approvals/${approvalId}/decision`,
+        data,
+      );
+      return response.ticket;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ticketKeys.detail(id) });
+      queryClient.invalidateQueries({ queryKey: ticketKeys.lists() });
+    },
+  });
+}
+
+export function useUpdateCostApprovalPolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: CostApprovalPolicy) => {
+      const response = await api.put<{ policy: CostApprovalPolicy }>(
+        "/api/cost-approval-policy",
+        data,
+      );
+      return response.policy;
+    },
+    onSuccess: (policy) => {
+      queryClient.setQueryData(ticketKeys.costApprovalPolicy(), policy);
+    },
+  });
+}
+
 export function useDeleteAttachment(ticketId: string) {
   const queryClient = useQueryClient();
 
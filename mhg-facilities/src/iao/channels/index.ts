@@ -0,0 +1,30 @@
+import { ConsoleChannelIAO } from "@/iao/console";
+import { SlackIAO } from "@/iao/slack";
+import { TwilioIAO } from "@/iao/twilio";
+import { WebPushIAO } from "@/iao/web-push";
+import type { ChannelIAO, ChannelIAOs, DeliveryChannel } from "./types";
+
+export type * from "./types";
+
+/**
+ * Build the SMS, Slack and web push IAOs. Set NOTIFICATION_CHANNELS=console
+ * to log instead of delivering; outside production, unconfigured channels
+ * also fall back to the console stand-in.
+ */
+export function createChannelIAOs(): ChannelIAOs {
+  const forceConsole = process.env.NOTIFICATION_CHANNELS === "console";
+  const isProduction = process.env.NODE_ENV === "production";
+
+  const pick = <C extends DeliveryChannel>(
+    iao: ChannelIAO<C>,
+  ): ChannelIAO<C> =>
+    forceConsole || (!isProduction && !iao.isConfigured())
+      ? new ConsoleChannelIAO(iao.channel)
+      : iao;
+
+  return {
+    sms: pick(new TwilioIAO()),
+    slack: pick(new SlackIAO()),
+    push: pick(new WebPushIAO()),
+  };
+}
@@ -0,0 +1,49 @@
+import type { NotificationChannel } from "@/types/database";
+
+/**
+ * Channel adapter contract shared by the SMS, Slack and web push IAOs.
+ * Email keeps its templated ResendIAO methods; these channels get a short
+ * title/body/link rendering of the same notification.
+ */
+
+export type ChannelSeverity = "info" | "warning" | "critical";
+
+export interface ChannelMessage {
+  title: string;
+  body: string;
+  url?: string;
+  severity: ChannelSeverity;
+}
+
+/** Browser push subscription as returned by PushManager.subscribe() */
+export interface PushTarget {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+/**
+ * What each channel delivers to:
+ * - sms: E.164 phone number
+ * - slack: incoming webhook URL
+ * - push: browser push subscription
+ */
+export interface ChannelTargets {
+  sms: string;
+  slack: string;
+  push: PushTarget;
+}
+
+export type DeliveryChannel = keyof ChannelTargets &
+  Exclude<NotificationChannel, "email">;
+
+export interface ChannelIAO<C extends DeliveryChannel> {
+  readonly channel: C;
+  /** Whether real delivery is possible (credentials present) */
+  isConfigured(): boolean;
+  send(target: ChannelTargets[C], message: ChannelMessage): Promise<void>;
+}
+
+export type ChannelIAOs = { [C in DeliveryChannel]: ChannelIAO<C> };
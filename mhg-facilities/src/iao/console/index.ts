@@ -0,0 +1,38 @@
+import type {
+  ChannelIAO,
+  ChannelMessage,
+  ChannelTargets,
+  DeliveryChannel,
+} from "@/iao/channels/types";
+
+/**
+ * Console Channel IAO
+ * Local stand-in for SMS, Slack and web push. Logs what would have been
+ * sent and keeps it in memory so tests and development can inspect it.
+ */
+export class ConsoleChannelIAO<
+  C extends DeliveryChannel,
+> implements ChannelIAO<C> {
+  readonly sent: { target: ChannelTargets[C]; message: ChannelMessage }[] = [];
+
+  constructor(readonly channel: C) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async send(
+    target: ChannelTargets[C],
+    message: ChannelMessage,
+  ): Promise<void> {
+    this.sent.push({ target, message });
+
+    const to =
+      typeof target === "string"
+        ? target
+        : (target as { endpoint: string }).endpoint;
+    console.log(
+      `[${this.channel}] (${message.severity}) to ${to}: ${message.title} - ${message.body}`,
+    );
+  }
+}
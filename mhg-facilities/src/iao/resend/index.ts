@@ -1,3 +1,5 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
 /**
  * Resend IAO (Integration Access Object)
  * Wraps Resend email API for sending notifications
@@ -18,6 +20,19 @@ interface SendEmailResponse {
   created_at: string;
 }
 
+export interface ResendWebhookEvent {
+  type: string;
+  created_at: string;
+  data: {
+    email_id: string;
+    to?: string[];
+    bounce?: { message?: string; type?: string };
+  };
+}
+
+// Reject webhook deliveries signed more than 5 minutes ago (replays)
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
 export class ResendIAO {
   private apiKey: string;
   private fromEmail: string;
@@ -32,6 +47,46 @@ export class ResendIAO {
     }
   }
 
+  /**
+   * Verify a webhook delivery (Resend signs webhooks with Svix) and parse it
+   * Returns null when the signature doesn't match or the secret is missing.
+   */
+  verifyWebhook(
+    body: string,
+    headers: {
+      id: string | null;
+      timestamp: string | null;
+      signature: string | null;
+    },
+  ): ResendWebhookEvent | null {
+    const secret = process.env.RESEND_WEBHOOK_SECRET;
+    if (!secret || !headers.id || !headers.timestamp || !headers.signature) {
+      return null;
+    }
+
+    const age = Math.abs(Date.now() / 1000 - Number(headers.timestamp));
+    if (!(age <= WEBHOOK_TOLERANCE_SECONDS)) return null;
+
+    const expected = createHmac(
+      "sha256",
+      Buffer.from(secret.replace(/^whsec_/, ""), "base64"),
+    )
+      .update(`${headers.id}.${headers.timestamp}.${body}`)
+      .digest();
+
+    // Header holds space-separated "v1,<base64>" signatures
+    const valid = headers.signature.split(" ").some((entry) => {
+      const [version, signature] = entry.split(",");
+      if (version !== "v1" || !signature) return false;
+      const actual = Buffer.from(signature, "base64");
+      return (
+        actual.length === expected.length && timingSafeEqual(actual, expected)
+      );
+    });
+
+    return valid ? (JSON.parse(body) as ResendWebhookEvent) : null;
+  }
+
   /**
    * Send an email via Resend
    */
@@ -503,4 +558,429 @@ export class ResendIAO {
       html,
     });
   }
+
+  /**
+   * Send reinspection reminder for a failed inspection
+   */
+  async sendComplianceReinspectionEmail(params: {
+    to: string;
+    recipientName: string;
+    documentName: string;
+    reinspectionDate: string;
+    documentUrl: string;
+    daysUntilReinspection: number;
+    openActions: { ticketNumber: number; title: string; status: string }[];
+  }): Promise<SendEmailResponse | null> {
+    const {
+      to,
+      recipientName,
+      documentName,
+      reinspectionDate,
+      documentUrl,
+      daysUntilReinspection,
+      openActions,
+    } = params;
+
+    const when =
+      daysUntilReinspection < 0
+        ? `was due <strong>${-daysUntilReinspection} day${daysUntilReinspection === -1 ? "" : "s"} ago</strong>`
+        : daysUntilReinspection === 0
+          ? "is <strong>today</strong>"
+          : `is in <strong>${daysUntilReinspection} day${daysUntilReinspection === 1 ? "" : "s"}</strong>`;
+
+    const actionRows = openActions
+      .map(
+        (action) => `
+              <li style="margin-bottom: 6px; color: #4b5563; font-size: 14px;">
+                #${action.ticketNumber} ${action.title}
+                <span style="color: #6b7280;">(${action.status.replace(/_/g, " ")})</span>
+              </li>`,
+      )
+      .join("");
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background-color: #111827; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="color: #ffffff; margin: 0; font-size: 24px;">Reinspection Reminder</h1>
+          </div>
+
+          <div style="background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e5e7eb; border-top: none;">
+            <p style="font-size: 16px; color: #4b5563; margin-bottom: 20px;">
+              Hi ${recipientName},
+            </p>
+
+            <p style="font-size: 16px; color: #4b5563; margin-bottom: 20px;">
+              The reinspection for a failed inspection ${when}:
+            </p>
+
+            <div style="background: #ffffff; padding: 20px; border-radius: 10px; border: 1px solid #e5e7eb; border-left: 4px solid #dc2626; margin-bottom: 25px;">
+              <h2 style="margin: 0 0 10px 0; font-size: 18px; color: #111827;">
+                ${documentName}
+              </h2>
+              <p style="margin: 0; font-weight: 600; color: #dc2626; font-size: 14px;">
+                Reinspection Date: ${reinspectionDate}
+              </p>
+            </div>
+
+            ${
+              openActions.length > 0
+                ? `<div style="background: #fef2f2; border: 1px solid #fecaca; border-radius: 6px; padding: 15px; margin-bottom: 25px;">
+              <p style="margin: 0 0 10px 0; font-size: 14px; color: #991b1b; font-weight: 600;">
+                Corrective actions still open:
+              </p>
+              <ul style="margin: 0; padding-left: 20px;">${actionRows}
+              </ul>
+            </div>`
+                : `<div style="background: #f0fdf4; border: 1px solid #bbf7d0; border-radius: 6px; padding: 15px; margin-bottom: 25px;">
+              <p style="margin: 0; font-size: 14px; color: #166534;">
+                All corrective actions are complete.
+              </p>
+            </div>`
+            }
+
+            <div style="text-align: center; margin-top: 30px;">
+              <a href="${documentUrl}" style="display: inline-block; background: #111827; color: #ffffff; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">
+                View Document
+              </a>
+            </div>
+
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+
+            <p style="font-size: 12px; color: #6b7280; text-align: center; margin: 0;">
+              MarketOps<br>
+              This is an automated notification. Please do not reply to this email.
+            </p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to,
+      subject: `Reinspection Reminder: ${documentName}`,
+      html,
+    });
+  }
+
+  /**
+   * Send ticket SLA escalation notification
+   */
+  async sendTicketEscalationEmail(params: {
+    to: string;
+    recipientName: string;
+    ticketNumber: string;
+    ticketTitle: string;
+    priority: string;
+    level: number;
+    reason: string;
+    ticketUrl: string;
+  }): Promise<SendEmailResponse | null> {
+    const {
+      to,
+      recipientName,
+      ticketNumber,
+      ticketTitle,
+      priority,
+      level,
+      reason,
+      ticketUrl,
+    } = params;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background-color: #dc2626; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="color: #ffffff; margin: 0; font-size: 24px;">Ticket Escalated (Level ${level})</h1>
+          </div>
+
+          <div style="background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e5e7eb; border-top: none;">
+            <p style="font-size: 16px; color: #4b5563; margin-bottom: 20px;">
+              Hi ${recipientName},
+            </p>
+
+            <p style="font-size: 16px; color: #4b5563; margin-bottom: 20px;">
+              The following ticket has missed its service target and needs attention:
+            </p>
+
+            <div style="background: #ffffff; padding: 20px; border-radius: 10px; border: 1px solid #e5e7eb; border-left: 4px solid #dc2626; margin-bottom: 25px;">
+              <h2 style="margin: 0 0 10px 0; font-size: 18px; color: #111827;">
+                #${ticketNumber} - ${ticketTitle}
+              </h2>
+              <p style="margin: 0 0 5px 0; color: #6b7280; font-size: 14px;">
+                Priority: ${priority.charAt(0).toUpperCase() + priority.slice(1)}
+              </p>
+              <p style="margin: 0; font-weight: 600; color: #dc2626; font-size: 14px;">
+                ${reason}
+              </p>
+            </div>
+
+            <div style="text-align: center; margin-top: 30px;">
+              <a href="${ticketUrl}" style="display: inline-block; background: #111827; color: #ffffff; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">
+                View Ticket
+              </a>
+            </div>
+
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+
+            <p style="font-size: 12px; color: #6b7280; text-align: center; margin: 0;">
+              MarketOps<br>
+              This is an automated notification. Please do not reply to this email.
+            </p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to,
+      subject: `[Escalation L${level}] Ticket #${ticketNumber}: ${ticketTitle}`,
+      html,
+    });
+  }
+
+  /**
+   * Send cost approval request to an approver
+   */
+  async sendCostApprovalRequestEmail(params: {
+    to: string;
+    recipientName: string;
+    ticketNumber: string;
+    ticketTitle: string;
+    amount: string;
+    source: string;
+    requestedBy: string;
+    notes: string | null;
+    ticketUrl: string;
+  }): Promise<SendEmailResponse | null> {
+    const {
+      to,
+      recipientName,
+      ticketNumber,
+      ticketTitle,
+      amount,
+      source,
+      requestedBy,
+      notes,
+      ticketUrl,
+    } = params;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background-color: #a16207; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="color: #ffffff; margin: 0; font-size: 24px;">Cost Approval Needed</h1>
+          </div>
+
+          <div style="background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e5e7eb; border-top: none;">
+            <p style="font-size: 16px; color: #4b5563; margin-bottom: 20px;">
+              Hi ${recipientName},
+            </p>
+
+            <p style="font-size: 16px; color: #4b5563; margin-bottom: 20px;">
+              ${requestedBy} submitted a ${source} that needs your approval before work can continue:
+            </p>
+
+            <div style="background: #ffffff; padding: 20px; border-radius: 10px; border: 1px solid #e5e7eb; border-left: 4px solid #a16207; margin-bottom: 25px;">
+              <h2 style="margin: 0 0 10px 0; font-size: 18px; color: #111827;">
+                #${ticketNumber} - ${ticketTitle}
+              </h2>
+              <p style="margin: 0; font-weight: 600; color: #111827; font-size: 20px;">
+                ${amount}
+              </p>
+              ${notes ? `<p style="margin: 10px 0 0 0; color: #6b7280; font-size: 14px;">${notes}</p>` : ""}
+            </div>
+
+            <div style="text-align: center; margin-top: 30px;">
+              <a href="${ticketUrl}" style="display: inline-block; background: #111827; color: #ffffff; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">
+                Review Request
+              </a>
+            </div>
+
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+
+            <p style="font-size: 12px; color: #6b7280; text-align: center; margin: 0;">
+              MarketOps<br>
+              This is an automated notification. Please do not reply to this email.
+            </p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to,
+      subject: `Approval needed (${amount}): Ticket #${ticketNumber} ${ticketTitle}`,
+      html,
+    });
+  }
+
+  /**
+   * Send cost approval decision to the requester
+   */
+  async sendCostApprovalDecisionEmail(params: {
+    to: string;
+    recipientName: string;
+    ticketNumber: string;
+    ticketTitle: string;
+    amount: string;
+    approved: boolean;
+    decidedBy: string;
+    notes: string;
+    ticketUrl: string;
+  }): Promise<SendEmailResponse | null> {
+    const {
+      to,
+      recipientName,
+      ticketNumber,
+      ticketTitle,
+      amount,
+      approved,
+      decidedBy,
+      notes,
+      ticketUrl,
+    } = params;
+
+    const color = approved ? "#15803d" : "#dc2626";
+    const decision = approved ? "Approved" : "Denied";
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background-color: ${color}; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="color: #ffffff; margin: 0; font-size: 24px;">Cost ${decision}</h1>
+          </div>
+
+          <div style="background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e5e7eb; border-top: none;">
+            <p style="font-size: 16px; color: #4b5563; margin-bottom: 20px;">
+              Hi ${recipientName},
+            </p>
+
+            <p style="font-size: 16px; color: #4b5563; margin-bottom: 20px;">
+              ${decidedBy} ${approved ? "approved" : "denied"} the ${amount} cost for this ticket:
+            </p>
+
+            <div style="background: #ffffff; padding: 20px; border-radius: 10px; border: 1px solid #e5e7eb; border-left: 4px solid ${color}; margin-bottom: 25px;">
+              <h2 style="margin: 0 0 10px 0; font-size: 18px; color: #111827;">
+                #${ticketNumber} - ${ticketTitle}
+              </h2>
+              <p style="margin: 0; color: #4b5563; font-size: 14px;">
+                ${notes}
+              </p>
+            </div>
+
+            <div style="text-align: center; margin-top: 30px;">
+              <a href="${ticketUrl}" style="display: inline-block; background: #111827; color: #ffffff; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">
+                View Ticket
+              </a>
+            </div>
+
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+
+            <p style="font-size: 12px; color: #6b7280; text-align: center; margin: 0;">
+              MarketOps<br>
+              This is an automated notification. Please do not reply to this email.
+            </p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to,
+      subject: `Cost ${decision}: Ticket #${ticketNumber} ${ticketTitle}`,
+      html,
+    });
+  }
+
+  /**
+   * Send notification when someone is mentioned in a ticket comment
+   */
+  async sendTicketMentionEmail(params: {
+    to: string;
+    recipientName: string;
+    ticketNumber: string;
+    ticketTitle: string;
+    mentionedBy: string;
+    comment: string;
+    ticketUrl: string;
+  }): Promise<SendEmailResponse | null> {
+    const {
+      to,
+      recipientName,
+      ticketNumber,
+      ticketTitle,
+      mentionedBy,
+      comment,
+      ticketUrl,
+    } = params;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background-color: #111827; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="color: #ffffff; margin: 0; font-size: 24px;">You Were Mentioned</h1>
+          </div>
+
+          <div style="background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e5e7eb; border-top: none;">
+            <p style="font-size: 16px; color: #4b5563; margin-bottom: 20px;">
+              Hi ${recipientName},
+            </p>
+
+            <p style="font-size: 16px; color: #4b5563; margin-bottom: 20px;">
+              ${mentionedBy} mentioned you on ticket #${ticketNumber} - ${ticketTitle}:
+            </p>
+
+            <div style="background: #ffffff; padding: 20px; border-radius: 10px; border: 1px solid #e5e7eb; border-left: 4px solid #111827; margin-bottom: 25px;">
+              <p style="margin: 0; color: #4b5563; font-size: 14px; white-space: pre-wrap;">${comment}</p>
+            </div>
+
+            <div style="text-align: center; margin-top: 30px;">
+              <a href="${ticketUrl}" style="display: inline-block; background: #111827; color: #ffffff; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">
+                View Ticket
+              </a>
+            </div>
+
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+
+            <p style="font-size: 12px; color: #6b7280; text-align: center; margin: 0;">
+              MarketOps<br>
+              This is an automated notification. Please do not reply to this email.
+            </p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to,
+      subject: `${mentionedBy} mentioned you on ticket #${ticketNumber}`,
+      html,
+    });
+  }
 }
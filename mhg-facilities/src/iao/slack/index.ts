@@ -0,0 +1,45 @@
+import type { ChannelIAO, ChannelMessage } from "@/iao/channels/types";
+
+/**
+ * Slack IAO (Integration Access Object)
+ * Posts notifications to a Slack incoming webhook
+ */
+
+const SEVERITY_PREFIX: Record<ChannelMessage["severity"], string> = {
+  info: "",
+  warning: ":warning: ",
+  critical: ":rotating_light: ",
+};
+
+export class SlackIAO implements ChannelIAO<"slack"> {
+  readonly channel = "slack" as const;
+
+  /**
+   * Webhooks are configured per tenant, so there are no global credentials
+   */
+  isConfigured(): boolean {
+    return true;
+  }
+
+  /**
+   * Post a message to an incoming webhook URL
+   */
+  async send(webhookUrl: string, message: ChannelMessage): Promise<void> {
+    const lines = [
+      `${SEVERITY_PREFIX[message.severity]}*${message.title}*`,
+      message.body,
+    ];
+    if (message.url) lines.push(`<${message.url}|View in MarketOps>`);
+
+    const response = await fetch(webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text: lines.join("\n") }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Slack webhook error: ${response.status} ${error}`);
+    }
+  }
+}
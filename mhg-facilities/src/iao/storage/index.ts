@@ -0,0 +1,74 @@
+import { getPooledSupabaseClient } from "@/lib/supabase/server-pooled";
+
+/**
+ * Storage IAO (Integration Access Object)
+ * Reads and writes files in Supabase storage buckets
+ */
+export class StorageIAO {
+  /**
+   * Upload a file; fails if something already exists at the path.
+   * Raw bytes need a content type; files and blobs bring their own.
+   */
+  async upload(
+    bucket: string,
+    path: string,
+    file: Blob | Uint8Array,
+    contentType?: string,
+  ): Promise<void> {
+    const supabase = await getPooledSupabaseClient();
+    const { error } = await supabase.storage.from(bucket).upload(path, file, {
+      contentType:
+        contentType ?? (file instanceof Blob ? file.type : undefined),
+      cacheControl: "3600",
+      upsert: false,
+    });
+
+    if (error) {
+      throw new Error(`Failed to upload file: ${error.message}`);
+    }
+  }
+
+  async download(bucket: string, path: string): Promise<ArrayBuffer> {
+    const supabase = await getPooledSupabaseClient();
+    const { data, error } = await supabase.storage.from(bucket).download(path);
+
+    if (error || !data) {
+      throw new Error(
+        `Failed to download file: ${error?.message ?? "No data returned"}`,
+      );
+    }
+
+    return await data.arrayBuffer();
+  }
+
+  /**
+   * Time-limited URL for downloading a private file
+   */
+  async createSignedUrl(
+    bucket: string,
+    path: string,
+    expiresInSeconds: number,
+  ): Promise<string> {
+    const supabase = await getPooledSupabaseClient();
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .createSignedUrl(path, expiresInSeconds, { download: true });
+
+    if (error || !data) {
+      throw new Error(
+        `Failed to create download link: ${error?.message ?? "No data returned"}`,
+      );
+    }
+
+    return data.signedUrl;
+  }
+
+  async remove(bucket: string, paths: string[]): Promise<void> {
+    const supabase = await getPooledSupabaseClient();
+    const { error } = await supabase.storage.from(bucket).remove(paths);
+
+    if (error) {
+      throw new Error(`Failed to remove file: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import type { ChannelIAO, ChannelMessage } from "@/iao/channels/types";
+
+/**
+ * Twilio IAO (Integration Access Object)
+ * Sends SMS notifications through the Twilio Messages API
+ */
+
+// Keep texts to two SMS segments
+const MAX_SMS_LENGTH = 320;
+
+export class TwilioIAO implements ChannelIAO<"sms"> {
+  readonly channel = "sms" as const;
+  private accountSid: string;
+  private authToken: string;
+  private fromNumber: string;
+
+  constructor() {
+    this.accountSid = process.env.TWILIO_ACCOUNT_SID || "";
+    this.authToken = process.env.TWILIO_AUTH_TOKEN || "";
+    this.fromNumber = process.env.TWILIO_FROM_NUMBER || "";
+  }
+
+  isConfigured(): boolean {
+    return !!(this.accountSid && this.authToken && this.fromNumber);
+  }
+
+  /**
+   * Send a text message to an E.164 phone number
+   */
+  async send(to: string, message: ChannelMessage): Promise<void> {
+    if (!this.isConfigured()) {
+      console.warn("Twilio not configured, skipping SMS send");
+      return;
+    }
+
+    const body = [message.title, message.body, message.url]
+      .filter(Boolean)
+      .join("\n")
+      .slice(0, MAX_SMS_LENGTH);
+
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          Authorization: `Basic ${Buffer.from(
+            `${this.accountSid}:${this.authToken}`,
+          ).toString("base64")}`,
+        },
+        body: new URLSearchParams({
+          To: to,
+          From: this.fromNumber,
+          Body: body,
+        }),
+      },
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Twilio API error: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import {
+  createCipheriv,
+  createECDH,
+  createPrivateKey,
+  hkdfSync,
+  randomBytes,
+  sign,
+} from "crypto";
+import type {
+  ChannelIAO,
+  ChannelMessage,
+  PushTarget,
+} from "@/iao/channels/types";
+
+/**
+ * Web Push IAO (Integration Access Object)
+ * Sends browser push notifications signed with VAPID (RFC 8292) and
+ * encrypted with aes128gcm (RFC 8291). The payload is the JSON message the
+ * service worker in public/sw.js displays.
+ */
+
+// Push services keep undelivered messages for up to a day
+const TTL_SECONDS = 24 * 60 * 60;
+const JWT_EXPIRY_SECONDS = 12 * 60 * 60;
+const RECORD_SIZE = 4096;
+
+export class WebPushIAO implements ChannelIAO<"push"> {
+  readonly channel = "push" as const;
+  private publicKey: string;
+  private privateKey: string;
+  private subject: string;
+
+  constructor() {
+    this.publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY || "";
+    this.privateKey = process.env.VAPID_PRIVATE_KEY || "";
+    this.subject = process.env.VAPID_SUBJECT || "mailto:mops@msmhg.com";
+  }
+
+  isConfigured(): boolean {
+    return !!(this.publicKey && this.privateKey);
+  }
+
+  /**
+   * Send a push message to one browser subscription
+   * Throws "Push subscription expired" when the push service reports the
+   * subscription gone, so the caller can remove it.
+   */
+  async send(target: PushTarget, message: ChannelMessage): Promise<void> {
+    if (!this.isConfigured()) {
+      console.warn("VAPID keys not configured, skipping web push send");
+      return;
+    }
+
+    const body = this.encrypt(target, JSON.stringify(message));
+    const jwt = this.createJWT(new URL(target.endpoint).origin);
+
+    const response = await fetch(target.endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Content-Encoding": "aes128gcm",
+        TTL: String(TTL_SECONDS),
+        Urgency: message.severity === "critical" ? "high" : "normal",
+        Authorization: `vapid t=${jwt}, k=${this.publicKey}`,
+      },
+      body: new Uint8Array(body),
+    });
+
+    if (response.status === 404 || response.status === 410) {
+      throw new Error("Push subscription expired");
+    }
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Web push error: ${response.status} ${error}`);
+    }
+  }
+
+  /**
+   * VAPID JWT for the push service origin, signed with ES256
+   */
+  private createJWT(audience: string): string {
+    const header = base64url(JSON.stringify({ typ: "JWT", alg: "ES256" }));
+    const claims = base64url(
+      JSON.stringify({
+        aud: audience,
+        exp: Math.floor(Date.now() / 1000) + JWT_EXPIRY_SECONDS,
+        sub: this.subject,
+      }),
+    );
+
+    const publicKey = fromBase64url(this.publicKey);
+    const key = createPrivateKey({
+      key: {
+        kty: "EC",
+        crv: "P-256",
+        d: this.privateKey,
+        x: base64url(publicKey.subarray(1, 33)),
+        y: base64url(publicKey.subarray(33, 65)),
+      },
+      format: "jwk",
+    });
+
+    const signature = sign("sha256", Buffer.from(`${header}.${claims}`), {
+      key,
+      dsaEncoding: "ieee-p1363",
+    });
+
+    return `${header}.${claims}.${base64url(signature)}`;
+  }
+
+  /**
+   * Encrypt the payload for the subscription as a single aes128gcm record
+   */
+  private encrypt(target: PushTarget, payload: string): Buffer {
+    const clientPublicKey = fromBase64url(target.keys.p256dh);
+    const authSecret = fromBase64url(target.keys.auth);
+
+    const ecdh = createECDH("prime256v1");
+    const serverPublicKey = ecdh.generateKeys();
+    const sharedSecret = ecdh.computeSecret(clientPublicKey);
+    const salt = randomBytes(16);
+
+    const ikm = hkdf(
+      sharedSecret,
+      authSecret,
+      Buffer.concat([
+        Buffer.from("WebPush: info\0"),
+        clientPublicKey,
+        serverPublicKey,
+      ]),
+      32,
+    );
+    const contentKey = hkdf(
+      ikm,
+      salt,
+      Buffer.from("Content-Encoding: aes128gcm\0"),
+      16,
+    );
+    const nonce = hkdf(ikm, salt, Buffer.from("Content-Encoding: nonce\0"), 12);
+
+    const cipher = createCipheriv("aes-128-gcm", contentKey, nonce);
+    const ciphertext = Buffer.concat([
+      cipher.update(Buffer.from(payload)),
+      // Padding delimiter for the last (only) record
+      cipher.update(Buffer.from([2])),
+      cipher.final(),
+      cipher.getAuthTag(),
+    ]);
+
+    const header = Buffer.alloc(21);
+    salt.copy(header, 0);
+    header.writeUInt32BE(RECORD_SIZE, 16);
+    header.writeUInt8(serverPublicKey.length, 20);
+
+    return Buffer.concat([header, serverPublicKey, ciphertext]);
+  }
+}
+
+function hkdf(ikm: Buffer, salt: Buffer, info: Buffer, length: number) {
+  return Buffer.from(hkdfSync("sha256", ikm, salt, info, length));
+}
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+function fromBase64url(value: string): Buffer {
+  return Buffer.from(value, "base64url");
+}
@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { UserService } from "@/services/user.service";
+import { TenantService } from "@/services/tenant.service";
+import { TicketDAO } from "@/dao/ticket.dao";
 import type { Database } from "@/types/database";
 
 type UserRole = Database["public"]["Enums"]["user_role"];
@@ -12,13 +14,23 @@ interface AuthUser {
   role: UserRole;
   tenant_id: string;
   is_active: boolean;
+  vendor_id: string | null;
+}
+
+interface RequireAuthOptions {
+  /**
+   * Let vendor portal users through. Off by default so vendor users only
+   * reach the endpoints that scope data to their vendor.
+   */
+  allowVendor?: boolean;
 }
 
 /**
  * Require authentication for API routes
- * Returns user or error response
+ * Returns user or error response. Vendor users are rejected unless the
+ * route opts in with allowVendor.
  */
-export async function requireAuth(): Promise<{
+export async function requireAuth(options: RequireAuthOptions = {}): Promise<{
   user: AuthUser | null;
   error: NextResponse | null;
 }> {
@@ -61,6 +73,17 @@ export async function requireAuth(): Promise<{
       };
     }
 
+    if (user.role === "vendor") {
+      const vendorError = await checkVendorAccess(
+        user.tenant_id,
+        user.vendor_id,
+        options.allowVendor ?? false,
+      );
+      if (vendorError) {
+        return { user: null, error: vendorError };
+      }
+    }
+
     return {
       user: {
         id: user.id,
@@ -69,6 +92,7 @@ export async function requireAuth(): Promise<{
         role: user.role,
         tenant_id: user.tenant_id,
         is_active: user.is_active,
+        vendor_id: user.vendor_id,
       },
       error: null,
     };
@@ -84,6 +108,44 @@ export async function requireAuth(): Promise<{
   }
 }
 
+/**
+ * Vendor users need a linked vendor and a tenant with the vendor portal
+ * enabled, and may only use routes that allow them
+ */
+async function checkVendorAccess(
+  tenantId: string,
+  vendorId: string | null,
+  allowVendor: boolean,
+): Promise<NextResponse | null> {
+  if (!allowVendor) {
+    return NextResponse.json(
+      { error: "Insufficient permissions" },
+      { status: 403 },
+    );
+  }
+
+  if (!vendorId) {
+    return NextResponse.json(
+      { error: "Your account is not linked to a vendor" },
+      { status: 403 },
+    );
+  }
+
+  const tenantService = new TenantService();
+  const portalEnabled = await tenantService.hasFeature(
+    tenantId,
+    "vendor_portal",
+  );
+  if (!portalEnabled) {
+    return NextResponse.json(
+      { error: "The vendor portal is not enabled for your organization" },
+      { status: 403 },
+    );
+  }
+
+  return null;
+}
+
 /**
  * Require specific role(s) for API routes
  * Returns user or error response
@@ -92,7 +154,9 @@ export async function requireRole(roles: UserRole[]): Promise<{
   user: AuthUser | null;
   error: NextResponse | null;
 }> {
-  const { user, error } = await requireAuth();
+  const { user, error } = await requireAuth({
+    allowVendor: roles.includes("vendor"),
+  });
 
   if (error) {
     return { user: null, error };
@@ -131,3 +195,41 @@ export async function requireAdmin() {
 export async function requireManager() {
   return requireRole(["admin", "super_admin", "manager"]);
 }
+
+/**
+ * Require access to a single ticket
+ * Vendor users only reach tickets dispatched to their vendor; anyone else
+ * gets a 404 so ticket IDs outside their scope are not revealed.
+ */
+export async function requireTicketAccess(ticketId: string): Promise<{
+  user: AuthUser | null;
+  error: NextResponse | null;
+}> {
+  const { user, error } = await requireAuth({ allowVendor: true });
+
+  if (error) {
+    return { user: null, error };
+  }
+
+  if (!user) {
+    return {
+      user: null,
+      error: NextResponse.json({ error: "User not found" }, { status: 404 }),
+    };
+  }
+
+  if (user.role === "vendor") {
+    const ticket = await new TicketDAO().findById(ticketId);
+    if (!ticket || ticket.vendor_id !== user.vendor_id) {
+      return {
+        user: null,
+        error: NextResponse.json(
+          { error: "Ticket not found" },
+          { status: 404 },
+        ),
+      };
+    }
+  }
+
+  return { user, error: null };
+}
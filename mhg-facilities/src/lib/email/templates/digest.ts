@@ -0,0 +1,174 @@
+export interface DigestEmailItem {
+  label: string;
+  detail?: string;
+  url: string;
+  // Overdue or otherwise needs attention
+  urgent?: boolean;
+}
+
+export interface DigestEmailSection {
+  title: string;
+  // Items to list; total may be larger when the list was cut short
+  items: DigestEmailItem[];
+  total: number;
+  url: string;
+}
+
+interface DigestEmailData {
+  recipientName: string;
+  recipientEmail: string;
+  frequency: "daily" | "weekly";
+  // e.g. "All locations" or "Main St, Elm Ave"
+  scopeLabel: string;
+  sections: DigestEmailSection[];
+  dashboardUrl: string;
+  settingsUrl: string;
+}
+
+// Ticket titles and document names are user input
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function renderSection(section: DigestEmailSection): string {
+  const rows = section.items
+    .map(
+      (item) => `
+                <tr>
+                  <td style="padding: 8px 0; border-bottom: 1px solid #f3f4f6;">
+                    <a href="${item.url}" style="color: ${item.urgent ? "#b91c1c" : "#111827"}; font-size: 14px; font-weight: 500; text-decoration: none;">${escapeHtml(item.label)}</a>
+                    ${item.detail ? `<p style="margin: 2px 0 0; color: #6b7280; font-size: 13px;">${escapeHtml(item.detail)}</p>` : ""}
+                  </td>
+                </tr>`,
+    )
+    .join("");
+
+  const more = section.total - section.items.length;
+
+  return `
+              <h3 style="margin: 24px 0 8px; color: #111827; font-size: 16px; font-weight: 600;">
+                ${section.title} <span style="color: #6b7280; font-weight: 400;">(${section.total})</span>
+              </h3>
+              <table role="presentation" style="width: 100%; border-collapse: collapse;">${rows}
+              </table>
+              ${more > 0 ? `<p style="margin: 8px 0 0; font-size: 13px;"><a href="${section.url}" style="color: #4b5563;">and ${more} more</a></p>` : ""}`;
+}
+
+/**
+ * Generate HTML email template for the daily/weekly digest
+ * Uses inline styles for maximum email client compatibility
+ */
+export function generateDigestEmail(data: DigestEmailData): {
+  subject: string;
+  html: string;
+  text: string;
+} {
+  const {
+    recipientName,
+    recipientEmail,
+    frequency,
+    scopeLabel,
+    sections,
+    dashboardUrl,
+    settingsUrl,
+  } = data;
+
+  const title = frequency === "daily" ? "Daily digest" : "Weekly digest";
+  const subject = `Your MarketOps ${title.toLowerCase()}`;
+
+  const html = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f5f5f5;">
+  <table role="presentation" width="100%" bgcolor="#f5f5f5" style="width: 100%; border-collapse: collapse; background-color: #f5f5f5;">
+    <tr>
+      <td style="padding: 40px 20px;">
+        <table role="presentation" width="100%" bgcolor="#ffffff" style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; border: 1px solid #e5e7eb;">
+          <!-- Header -->
+          <tr>
+            <td bgcolor="#111827" style="padding: 32px 40px 20px; text-align: center; background-color: #111827; border-radius: 8px 8px 0 0;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 600;">MarketOps</h1>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 32px 40px 40px;">
+              <h2 style="margin: 0 0 8px; color: #111827; font-size: 22px; font-weight: 600;">${title}</h2>
+              <p style="margin: 0 0 8px; color: #4b5563; font-size: 16px; line-height: 1.6;">
+                Hi${recipientName ? ` ${escapeHtml(recipientName)}` : ""}, here's where things stand.
+              </p>
+              <p style="margin: 0; color: #6b7280; font-size: 14px;">${escapeHtml(scopeLabel)}</p>
+${sections.map(renderSection).join("")}
+
+              <table role="presentation" style="width: 100%; margin: 32px 0 0;">
+                <tr>
+                  <td style="text-align: center;">
+                    <a href="${dashboardUrl}" style="display: inline-block; padding: 14px 32px; background-color: #111827; color: #ffffff; text-decoration: none; border-radius: 6px; font-size: 16px; font-weight: 600;">
+                      Open MarketOps
+                    </a>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td bgcolor="#f9fafb" style="padding: 24px 40px; background-color: #f9fafb; border-radius: 0 0 8px 8px; border-top: 1px solid #e5e7eb;">
+              <p style="margin: 0 0 8px; color: #6b7280; font-size: 12px; text-align: center;">
+                This email was sent to <strong>${recipientEmail}</strong>.
+                <a href="${settingsUrl}" style="color: #6b7280;">Change digest settings</a>
+              </p>
+              <p style="margin: 0; color: #9ca3af; font-size: 12px; text-align: center;">
+                © 2026 MarketOps. All rights reserved.
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `;
+
+  const textSections = sections
+    .map((section) => {
+      const lines = section.items.map(
+        (item) =>
+          `- ${item.label}${item.detail ? ` (${item.detail})` : ""}\n  ${item.url}`,
+      );
+      const more = section.total - section.items.length;
+      if (more > 0) lines.push(`- and ${more} more: ${section.url}`);
+      return `${section.title} (${section.total})\n${lines.join("\n")}`;
+    })
+    .join("\n\n");
+
+  const text = `
+${title}
+
+Hi${recipientName ? ` ${recipientName}` : ""}, here's where things stand.
+${scopeLabel}
+
+${textSections}
+
+Open MarketOps: ${dashboardUrl}
+
+This email was sent to ${recipientEmail}. Change digest settings: ${settingsUrl}
+
+© 2026 MarketOps. All rights reserved.
+  `.trim();
+
+  return { subject, html, text };
+}
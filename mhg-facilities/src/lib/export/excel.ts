@@ -137,6 +137,15 @@ export function exportAssetsToExcel(
     { header: "Category", accessor: "category_name", width: 20 },
     { header: "Purchase Date", accessor: "purchase_date", width: 15 },
     { header: "Purchase Price", accessor: "purchase_price", width: 15 },
+    { header: "Book Value", accessor: "book_value", width: 15 },
+    { header: "Repair Cost", accessor: "repair_cost", width: 15 },
+    { header: "PM Cost", accessor: "pm_cost", width: 15 },
+    { header: "Vendor Cost", accessor: "vendor_cost", width: 15 },
+    {
+      header: "Total Cost of Ownership",
+      accessor: "total_cost_of_ownership",
+      width: 22,
+    },
     { header: "Warranty Expires", accessor: "warranty_expiration", width: 18 },
   ];
 
@@ -227,6 +236,170 @@ export function exportVendorsToExcel(
   });
 }
 
+/**
+ * Export cost approvals report to Excel
+ */
+export function exportCostApprovalsToExcel(
+  approvals: Record<string, unknown>[],
+  filename?: string,
+): void {
+  const columns: ExcelColumn[] = [
+    { header: "Ticket #", accessor: "ticket_number", width: 10 },
+    { header: "Ticket", accessor: "ticket_title", width: 35 },
+    { header: "Source", accessor: "source", width: 12 },
+    { header: "Amount", accessor: "amount", width: 15 },
+    { header: "Vendor", accessor: "vendor_name", width: 25 },
+    { header: "Status", accessor: "status", width: 12 },
+    { header: "Approver Level", accessor: "required_role", width: 15 },
+    { header: "Requested By", accessor: "requested_by", width: 20 },
+    { header: "Requested At", accessor: "requested_at", width: 22 },
+    { header: "Decided By", accessor: "decided_by", width: 20 },
+    { header: "Decided At", accessor: "decided_at", width: 22 },
+    { header: "Decision Notes", accessor: "decision_notes", width: 40 },
+  ];
+
+  exportToExcel({
+    sheetName: "Cost Approvals",
+    columns,
+    data: approvals,
+    filename:
+      filename ||
+      `cost-approvals-report-${new Date().toISOString().split("T")[0]}`,
+  });
+}
+
+/**
+ * Export invoice aging report to Excel
+ */
+export function exportInvoiceAgingToExcel(
+  invoices: Record<string, unknown>[],
+  filename?: string,
+): void {
+  const columns: ExcelColumn[] = [
+    { header: "Vendor", accessor: "vendor_name", width: 25 },
+    { header: "Invoice #", accessor: "invoice_number", width: 15 },
+    { header: "Ticket #", accessor: "ticket_number", width: 10 },
+    { header: "Invoice Date", accessor: "invoice_date", width: 12 },
+    { header: "Due Date", accessor: "due_date", width: 12 },
+    { header: "Status", accessor: "status", width: 12 },
+    { header: "Total", accessor: "total_amount", width: 12 },
+    { header: "Paid", accessor: "amount_paid", width: 12 },
+    { header: "Balance", accessor: "balance", width: 12 },
+    { header: "Days Overdue", accessor: "days_overdue", width: 12 },
+    { header: "Bucket", accessor: "bucket", width: 12 },
+  ];
+
+  exportToExcel({
+    sheetName: "Invoice Aging",
+    columns,
+    data: invoices,
+    filename:
+      filename ||
+      `invoice-aging-report-${new Date().toISOString().split("T")[0]}`,
+  });
+}
+
+/**
+ * Export problem assets report to Excel
+ */
+export function exportProblemAssetsToExcel(
+  assets: Record<string, unknown>[],
+  filename?: string,
+): void {
+  const columns: ExcelColumn[] = [
+    { header: "Asset", accessor: "asset_name", width: 25 },
+    { header: "Category", accessor: "category_name", width: 15 },
+    { header: "Location", accessor: "location_name", width: 20 },
+    { header: "Status", accessor: "status", width: 12 },
+    { header: "Purchase Price", accessor: "purchase_price", width: 15 },
+    { header: "Repairs to Date", accessor: "repair_cost", width: 15 },
+    {
+      header: "Repairs (% of Price)",
+      accessor: "repair_share_percent",
+      width: 12,
+    },
+    { header: "Yearly Repairs", accessor: "annual_repair_cost", width: 15 },
+    { header: "Failures", accessor: "failures", width: 10 },
+    { header: "Age (yrs)", accessor: "age_years", width: 10 },
+    { header: "Lifespan (yrs)", accessor: "lifespan_years", width: 10 },
+    { header: "Score", accessor: "score", width: 8 },
+    { header: "Recommendation", accessor: "recommendation", width: 15 },
+    { header: "Payback (yrs)", accessor: "payback_years", width: 12 },
+    { header: "Reasons", accessor: "reasons", width: 50 },
+  ];
+
+  exportToExcel({
+    sheetName: "Problem Assets",
+    columns,
+    data: assets,
+    filename:
+      filename ||
+      `problem-assets-report-${new Date().toISOString().split("T")[0]}`,
+  });
+}
+
+/**
+ * Export asset valuation report to Excel, with sheets for each asset and
+ * for the totals by location and by category
+ */
+export function exportAssetValuationToExcel(
+  report: {
+    asOf: string;
+    assets: Record<string, unknown>[];
+    byLocation: Record<string, unknown>[];
+    byCategory: Record<string, unknown>[];
+  },
+  filename?: string,
+): void {
+  const valueColumns: ExcelColumn[] = [
+    { header: "Assets", accessor: "count", width: 10 },
+    { header: "Purchase Price", accessor: "purchase_price", width: 15 },
+    { header: "Depreciation", accessor: "accumulated_depreciation", width: 15 },
+    { header: "Book Value", accessor: "book_value", width: 15 },
+  ];
+
+  exportMultipleSheetsToExcel(
+    [
+      {
+        sheetName: "Assets",
+        data: report.assets,
+        columns: [
+          { header: "Asset", accessor: "asset_name", width: 25 },
+          { header: "Category", accessor: "category_name", width: 15 },
+          { header: "Location", accessor: "location_name", width: 20 },
+          { header: "Purchase Date", accessor: "purchase_date", width: 12 },
+          { header: "Method", accessor: "depreciation_method", width: 18 },
+          { header: "Lifespan (yrs)", accessor: "lifespan_years", width: 10 },
+          { header: "Purchase Price", accessor: "purchase_price", width: 15 },
+          {
+            header: "Depreciation",
+            accessor: "accumulated_depreciation",
+            width: 15,
+          },
+          { header: "Book Value", accessor: "book_value", width: 15 },
+        ],
+      },
+      {
+        sheetName: "By Location",
+        data: report.byLocation,
+        columns: [
+          { header: "Location", accessor: "name", width: 25 },
+          ...valueColumns,
+        ],
+      },
+      {
+        sheetName: "By Category",
+        data: report.byCategory,
+        columns: [
+          { header: "Category", accessor: "name", width: 25 },
+          ...valueColumns,
+        ],
+      },
+    ],
+    filename || `asset-valuation-${report.asOf}`,
+  );
+}
+
 /**
  * Export multiple sheets to a single Excel workbook
  */
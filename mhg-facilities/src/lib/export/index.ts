@@ -6,8 +6,15 @@ export {
   exportComplianceToPDF,
   exportPMSchedulesToPDF,
   exportVendorsToPDF,
+  exportCostApprovalsToPDF,
+  exportInvoiceAgingToPDF,
+  exportProblemAssetsToPDF,
+  exportAssetValuationToPDF,
+  renderPDFReport,
   type ExportColumn as PDFExportColumn,
   type PDFExportOptions,
+  type PDFReportOptions,
+  type PDFReportSection,
 } from "./pdf";
 
 // Excel exports
@@ -18,6 +25,10 @@ export {
   exportComplianceToExcel,
   exportPMSchedulesToExcel,
   exportVendorsToExcel,
+  exportCostApprovalsToExcel,
+  exportInvoiceAgingToExcel,
+  exportProblemAssetsToExcel,
+  exportAssetValuationToExcel,
   exportMultipleSheetsToExcel,
   type ExcelColumn,
   type ExcelExportOptions,
@@ -0,0 +1,265 @@
+import jsPDF from "jspdf";
+import QRCode from "qrcode";
+import type { labelFormats } from "@/lib/validations/assets-vendors";
+
+// Label sheet layouts, in inches on US Letter
+export interface LabelFormat {
+  name: string;
+  description: string;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  // Distance from one label's edge to the next one's
+  pitchX: number;
+  pitchY: number;
+}
+
+export type LabelFormatId = (typeof labelFormats)[number];
+
+export const LABEL_FORMATS: Record<LabelFormatId, LabelFormat> = {
+  avery_5160: {
+    name: "Avery 5160",
+    description: '1" x 2-5/8" address labels, 30 per sheet',
+    columns: 3,
+    rows: 10,
+    labelWidth: 2.625,
+    labelHeight: 1,
+    marginTop: 0.5,
+    marginLeft: 0.1875,
+    pitchX: 2.75,
+    pitchY: 1,
+  },
+  avery_22806: {
+    name: "Avery 22806",
+    description: '2" x 2" square labels, 12 per sheet',
+    columns: 3,
+    rows: 4,
+    labelWidth: 2,
+    labelHeight: 2,
+    marginTop: 0.625,
+    marginLeft: 0.625,
+    pitchX: 2.625,
+    pitchY: 2.5,
+  },
+};
+
+export interface QRLabel {
+  // What the QR code opens
+  url: string;
+  // Printed under the QR code for typing in when a scan fails
+  code: string;
+  title: string;
+  lines: string[];
+}
+
+export interface LabelLogo {
+  data: Uint8Array;
+  format: "PNG" | "JPEG";
+}
+
+const PADDING = 0.08;
+
+/**
+ * Lay QR labels out on label sheets and return the PDF bytes. Wide labels
+ * put the QR code beside the text; square ones stack them.
+ */
+export function renderLabelSheet(
+  labels: QRLabel[],
+  formatId: LabelFormatId,
+  logo?: LabelLogo | null,
+): ArrayBuffer {
+  const format = LABEL_FORMATS[formatId];
+  const perSheet = format.columns * format.rows;
+
+  const doc = new jsPDF({ unit: "in", format: "letter" });
+
+  labels.forEach((label, index) => {
+    if (index > 0 && index % perSheet === 0) doc.addPage();
+
+    const slot = index % perSheet;
+    const x = format.marginLeft + (slot % format.columns) * format.pitchX;
+    const y =
+      format.marginTop + Math.floor(slot / format.columns) * format.pitchY;
+
+    if (format.labelWidth >= format.labelHeight * 2) {
+      drawWideLabel(doc, format, label, x, y, logo);
+    } else {
+      drawStackedLabel(doc, format, label, x, y, logo);
+    }
+  });
+
+  return doc.output("arraybuffer");
+}
+
+function drawWideLabel(
+  doc: jsPDF,
+  format: LabelFormat,
+  label: QRLabel,
+  x: number,
+  y: number,
+  logo?: LabelLogo | null,
+) {
+  const qrSize = format.labelHeight - PADDING * 2;
+  drawQRCode(doc, label.url, x + PADDING, y + PADDING, qrSize);
+
+  const textX = x + qrSize + PADDING * 2;
+  const textWidth = format.labelWidth - qrSize - PADDING * 3;
+  let textY = y + PADDING + 0.1;
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(8);
+  const title = fitLines(doc, label.title, textWidth, 2);
+  doc.text(title, textX, textY);
+  textY += title.length * 0.12;
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(6);
+  for (const line of label.lines) {
+    doc.text(fitLines(doc, line, textWidth, 1), textX, textY);
+    textY += 0.1;
+  }
+
+  const bottom = y + format.labelHeight - PADDING;
+  doc.setFont("courier", "bold");
+  doc.setFontSize(7);
+  doc.text(label.code, textX, bottom);
+
+  if (logo) {
+    drawLogo(doc, logo, x + format.labelWidth - PADDING, bottom, 0.5, 0.2);
+  }
+}
+
+function drawStackedLabel(
+  doc: jsPDF,
+  format: LabelFormat,
+  label: QRLabel,
+  x: number,
+  y: number,
+  logo?: LabelLogo | null,
+) {
+  const centerX = x + format.labelWidth / 2;
+  const textWidth = format.labelWidth - PADDING * 2;
+  let top = y + PADDING;
+
+  if (logo) {
+    drawLogo(doc, logo, centerX, top + 0.22, 0.8, 0.22, "center");
+    top += 0.26;
+  }
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(8);
+  const title = fitLines(doc, label.title, textWidth, 1);
+  doc.text(title, centerX, top + 0.1, { align: "center" });
+  top += 0.16;
+
+  // Code and detail lines take the bottom; the QR code fills the rest
+  const lines = label.lines.slice(0, 2);
+  const footer = 0.14 + lines.length * 0.1;
+  const qrSize = Math.min(
+    textWidth,
+    y + format.labelHeight - PADDING - footer - top,
+  );
+  drawQRCode(doc, label.url, centerX - qrSize / 2, top, qrSize);
+  let textY = top + qrSize + 0.12;
+
+  doc.setFont("courier", "bold");
+  doc.setFontSize(7);
+  doc.text(label.code, centerX, textY, { align: "center" });
+  textY += 0.1;
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(6);
+  for (const line of lines) {
+    doc.text(fitLines(doc, line, textWidth, 1), centerX, textY, {
+      align: "center",
+    });
+    textY += 0.1;
+  }
+}
+
+/**
+ * Draw a QR code as vector squares, merging each row's runs of dark
+ * modules so the PDF stays small
+ */
+function drawQRCode(
+  doc: jsPDF,
+  text: string,
+  x: number,
+  y: number,
+  size: number,
+) {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: "M" });
+  const moduleSize = size / modules.size;
+
+  doc.setFillColor(0, 0, 0);
+  for (let row = 0; row < modules.size; row++) {
+    let col = 0;
+    while (col < modules.size) {
+      if (!modules.get(row, col)) {
+        col++;
+        continue;
+      }
+
+      const start = col;
+      while (col < modules.size && modules.get(row, col)) col++;
+      doc.rect(
+        x + start * moduleSize,
+        y + row * moduleSize,
+        (col - start) * moduleSize,
+        moduleSize,
+        "F",
+      );
+    }
+  }
+}
+
+/**
+ * Draw the logo within maxWidth x maxHeight, with its bottom edge on
+ * bottom and its right edge (or centre) on anchorX. An image jsPDF can't
+ * read is left off.
+ */
+function drawLogo(
+  doc: jsPDF,
+  logo: LabelLogo,
+  anchorX: number,
+  bottom: number,
+  maxWidth: number,
+  maxHeight: number,
+  align: "right" | "center" = "right",
+) {
+  try {
+    const { width, height } = doc.getImageProperties(logo.data);
+    const scale = Math.min(maxWidth / width, maxHeight / height);
+    const w = width * scale;
+    const h = height * scale;
+    const left = align === "center" ? anchorX - w / 2 : anchorX - w;
+
+    doc.addImage(logo.data, logo.format, left, bottom - h, w, h);
+  } catch (error) {
+    console.error("Failed to draw label logo:", error);
+  }
+}
+
+/**
+ * Wrap text to at most maxLines, ellipsising what doesn't fit
+ */
+function fitLines(
+  doc: jsPDF,
+  text: string,
+  width: number,
+  maxLines: number,
+): string[] {
+  const lines: string[] = doc.splitTextToSize(text, width);
+  if (lines.length <= maxLines) return lines;
+
+  const kept = lines.slice(0, maxLines);
+  let last = kept[maxLines - 1];
+  while (last.length > 1 && doc.getTextWidth(`${last}…`) > width) {
+    last = last.slice(0, -1);
+  }
+  kept[maxLines - 1] = `${last.trimEnd()}…`;
+  return kept;
+}
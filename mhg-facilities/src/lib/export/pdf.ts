@@ -53,23 +53,7 @@ export function exportToPDF(options: PDFExportOptions): void {
   autoTable(doc, {
     startY,
     head: [columns.map((col) => col.header)],
-    body: data.map((row) =>
-      columns.map((col) => {
-        const value = row[col.accessor];
-        if (value === null || value === undefined) return "";
-        if (value instanceof Date) return value.toLocaleDateString();
-        if (
-          typeof value === "number" &&
-          (col.accessor.includes("cost") ||
-            col.accessor.includes("price") ||
-            col.accessor.includes("value") ||
-            col.accessor.includes("Value"))
-        ) {
-          return `$${value.toFixed(2)}`;
-        }
-        return String(value);
-      }),
-    ),
+    body: data.map((row) => columns.map((col) => formatCell(row, col))),
     styles: { fontSize: 9 },
     headStyles: { fillColor: [37, 99, 235] },
     alternateRowStyles: { fillColor: [245, 247, 250] },
@@ -78,6 +62,101 @@ export function exportToPDF(options: PDFExportOptions): void {
   doc.save(`${filename}.pdf`);
 }
 
+export interface PDFReportSection {
+  heading: string;
+  columns: ExportColumn[];
+  data: Record<string, unknown>[];
+  emptyMessage?: string;
+}
+
+export interface PDFReportOptions {
+  title: string;
+  subtitle?: string;
+  sections: PDFReportSection[];
+  orientation?: "portrait" | "landscape";
+}
+
+/**
+ * Render a report with one table per section and return the PDF bytes.
+ * Used server-side, where there's no browser to save the file.
+ */
+export function renderPDFReport(options: PDFReportOptions): ArrayBuffer {
+  const { title, subtitle, sections, orientation = "landscape" } = options;
+
+  const doc = new jsPDF({ orientation });
+
+  doc.setFontSize(18);
+  doc.text(title, 14, 20);
+
+  let startY = 28;
+  if (subtitle) {
+    doc.setFontSize(12);
+    doc.setTextColor(100);
+    doc.text(subtitle, 14, startY);
+    startY += 8;
+  }
+
+  doc.setFontSize(10);
+  doc.setTextColor(100);
+  doc.text(`Generated: ${new Date().toLocaleString()}`, 14, startY);
+  startY += 10;
+
+  for (const section of sections) {
+    // Keep a heading with at least the start of its table
+    if (startY > doc.internal.pageSize.getHeight() - 30) {
+      doc.addPage();
+      startY = 20;
+    }
+
+    doc.setFontSize(14);
+    doc.setTextColor(0);
+    doc.text(`${section.heading} (${section.data.length})`, 14, startY);
+    startY += 4;
+
+    if (section.data.length === 0) {
+      doc.setFontSize(10);
+      doc.setTextColor(100);
+      doc.text(section.emptyMessage ?? "None", 14, startY + 4);
+      startY += 14;
+      continue;
+    }
+
+    autoTable(doc, {
+      startY,
+      head: [section.columns.map((col) => col.header)],
+      body: section.data.map((row) =>
+        section.columns.map((col) => formatCell(row, col)),
+      ),
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [37, 99, 235] },
+      alternateRowStyles: { fillColor: [245, 247, 250] },
+    });
+
+    // autoTable records where it stopped on the document
+    startY =
+      (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable
+        .finalY + 12;
+  }
+
+  return doc.output("arraybuffer");
+}
+
+function formatCell(row: Record<string, unknown>, col: ExportColumn): string {
+  const value = row[col.accessor];
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toLocaleDateString();
+  if (
+    typeof value === "number" &&
+    (col.accessor.includes("cost") ||
+      col.accessor.includes("price") ||
+      col.accessor.includes("value") ||
+      col.accessor.includes("Value"))
+  ) {
+    return `$${value.toFixed(2)}`;
+  }
+  return String(value);
+}
+
 // ============================================================
 // CONVENIENCE EXPORTS FOR SPECIFIC REPORT TYPES
 // ============================================================
@@ -123,6 +202,8 @@ export function exportAssetsToPDF(
     { header: "Location", accessor: "location_name" },
     { header: "Category", accessor: "category_name" },
     { header: "Purchase Price", accessor: "purchase_price" },
+    { header: "Book Value", accessor: "book_value" },
+    { header: "Total Cost", accessor: "total_cost_of_ownership" },
     { header: "Warranty Expires", accessor: "warranty_expiration" },
   ];
 
@@ -215,3 +296,119 @@ export function exportVendorsToPDF(
     orientation: "portrait",
   });
 }
+
+/**
+ * Export cost approvals report to PDF
+ */
+export function exportCostApprovalsToPDF(
+  approvals: Record<string, unknown>[],
+  filename?: string,
+): void {
+  const columns: ExportColumn[] = [
+    { header: "Ticket #", accessor: "ticket_number" },
+    { header: "Ticket", accessor: "ticket_title" },
+    { header: "Amount", accessor: "amount" },
+    { header: "Status", accessor: "status" },
+    { header: "Approver Level", accessor: "required_role" },
+    { header: "Decided By", accessor: "decided_by" },
+    { header: "Decision Notes", accessor: "decision_notes" },
+  ];
+
+  exportToPDF({
+    title: "Cost Approvals Report",
+    subtitle: `Total requests: ${approvals.length}`,
+    columns,
+    data: approvals,
+    filename:
+      filename ||
+      `cost-approvals-report-${new Date().toISOString().split("T")[0]}`,
+    orientation: "landscape",
+  });
+}
+
+/**
+ * Export invoice aging report to PDF
+ */
+export function exportInvoiceAgingToPDF(
+  invoices: Record<string, unknown>[],
+  filename?: string,
+): void {
+  const columns: ExportColumn[] = [
+    { header: "Vendor", accessor: "vendor_name" },
+    { header: "Invoice #", accessor: "invoice_number" },
+    { header: "Ticket #", accessor: "ticket_number" },
+    { header: "Due Date", accessor: "due_date" },
+    { header: "Status", accessor: "status" },
+    { header: "Balance", accessor: "balance" },
+    { header: "Days Overdue", accessor: "days_overdue" },
+  ];
+
+  exportToPDF({
+    title: "Invoice Aging Report",
+    subtitle: `Outstanding invoices: ${invoices.length}`,
+    columns,
+    data: invoices,
+    filename:
+      filename ||
+      `invoice-aging-report-${new Date().toISOString().split("T")[0]}`,
+    orientation: "landscape",
+  });
+}
+
+/**
+ * Export problem assets report to PDF
+ */
+export function exportProblemAssetsToPDF(
+  assets: Record<string, unknown>[],
+  filename?: string,
+): void {
+  const columns: ExportColumn[] = [
+    { header: "Asset", accessor: "asset_name" },
+    { header: "Location", accessor: "location_name" },
+    { header: "Purchase Price", accessor: "purchase_price" },
+    { header: "Repairs to Date", accessor: "repair_cost" },
+    { header: "Failures", accessor: "failures" },
+    { header: "Age (yrs)", accessor: "age_years" },
+    { header: "Recommendation", accessor: "recommendation" },
+    { header: "Payback (yrs)", accessor: "payback_years" },
+    { header: "Reasons", accessor: "reasons" },
+  ];
+
+  exportToPDF({
+    title: "Problem Assets Report",
+    subtitle: `Flagged assets: ${assets.length}`,
+    columns,
+    data: assets,
+    filename:
+      filename ||
+      `problem-assets-report-${new Date().toISOString().split("T")[0]}`,
+    orientation: "landscape",
+  });
+}
+
+/**
+ * Export asset valuation report to PDF
+ */
+export function exportAssetValuationToPDF(
+  assets: Record<string, unknown>[],
+  asOf: string,
+  filename?: string,
+): void {
+  const columns: ExportColumn[] = [
+    { header: "Asset", accessor: "asset_name" },
+    { header: "Category", accessor: "category_name" },
+    { header: "Location", accessor: "location_name" },
+    { header: "Purchase Date", accessor: "purchase_date" },
+    { header: "Purchase Price", accessor: "purchase_price" },
+    { header: "Book Value", accessor: "book_value" },
+  ];
+
+  exportToPDF({
+    title: "Asset Valuation Report",
+    subtitle: `Book values as of ${asOf}`,
+    columns,
+    data: assets,
+    filename: filename || `asset-valuation-${asOf}`,
+    orientation: "landscape",
+  });
+}
@@ -1,5 +1,7 @@
+import { AsyncLocalStorage } from "node:async_hooks";
 import { headers } from "next/headers";
 import { createClient } from "@/lib/supabase/server";
+import { getPooledSupabaseClient } from "@/lib/supabase/server-pooled";
 import type { TenantContext, TenantSettings } from "@/types";
 import type { Tenant } from "@/types/database";
 
@@ -41,7 +43,40 @@ const DEFAULT_SETTINGS: TenantSettings = {
   },
 };
 
+const TENANT_COLUMNS =
+  "id, slug, name, features, branding, max_users, max_locations, storage_limit_gb";
+
+// Tenant for public requests and cron jobs that have no session or tenant
+// subdomain, set once the tenant is known (e.g. from a QR code or a row)
+const tenantOverride = new AsyncLocalStorage<string>();
+
+/**
+ * Run fn with DAOs scoped to a tenant, for public requests and cron jobs
+ * with no session. Only use with a tenant resolved from something the
+ * request proves, like an asset's QR code, or from the rows being processed.
+ */
+export function runWithTenant<T>(
+  tenantId: string,
+  fn: () => Promise<T>,
+): Promise<T> {
+  return tenantOverride.run(tenantId, fn);
+}
+
 export async function getTenantContext(): Promise<TenantContext | null> {
+  const overrideId = tenantOverride.getStore();
+  if (overrideId) {
+    const supabase = await getPooledSupabaseClient();
+    const { data: tenant } = await supabase
+      .from("tenants")
+      .select(TENANT_COLUMNS)
+      .eq("id", overrideId)
+      .eq("status", "active")
+      .is("deleted_at", null)
+      .single<TenantSelectResult>();
+
+    return tenant ? toTenantContext(tenant) : null;
+  }
+
   const headersList = await headers();
   const host = headersList.get("host") ?? "";
 
@@ -56,31 +91,14 @@ export async function getTenantContext(): Promise<TenantContext | null> {
     const supabase = await createClient();
     const { data: tenant } = await supabase
       .from("tenants")
-      .select(
-        "id, slug, name, features, branding, max_users, max_locations, storage_limit_gb",
-      )
+      .select(TENANT_COLUMNS)
       .eq("slug", subdomain)
       .eq("status", "active")
       .is("deleted_at", null)
       .single<TenantSelectResult>();
 
     if (tenant) {
-      return {
-        id: tenant.id,
-        slug: tenant.slug,
-        name: tenant.name,
-        settings: {
-          features: (tenant.features ??
-            DEFAULT_SETTINGS.features) as TenantSettings["features"],
-          branding: (tenant.branding ??
-            DEFAULT_SETTINGS.branding) as TenantSettings["branding"],
-          limits: {
-            max_users: tenant.max_users,
-            max_locations: tenant.max_locations,
-            storage_gb: tenant.storage_limit_gb,
-          },
-        },
-      };
+      return toTenantContext(tenant);
     }
   }
 
@@ -114,37 +132,39 @@ export async function getTenantContext(): Promise<TenantContext | null> {
   if (tenantId) {
     const { data: tenant } = await supabase
       .from("tenants")
-      .select(
-        "id, slug, name, features, branding, max_users, max_locations, storage_limit_gb",
-      )
+      .select(TENANT_COLUMNS)
       .eq("id", tenantId)
       .eq("status", "active")
       .is("deleted_at", null)
       .single<TenantSelectResult>();
 
     if (tenant) {
-      return {
-        id: tenant.id,
-        slug: tenant.slug,
-        name: tenant.name,
-        settings: {
-          features: (tenant.features ??
-            DEFAULT_SETTINGS.features) as TenantSettings["features"],
-          branding: (tenant.branding ??
-            DEFAULT_SETTINGS.branding) as TenantSettings["branding"],
-          limits: {
-            max_users: tenant.max_users,
-            max_locations: tenant.max_locations,
-            storage_gb: tenant.storage_limit_gb,
-          },
-        },
-      };
+      return toTenantContext(tenant);
     }
   }
 
   return null;
 }
 
+function toTenantContext(tenant: TenantSelectResult): TenantContext {
+  return {
+    id: tenant.id,
+    slug: tenant.slug,
+    name: tenant.name,
+    settings: {
+      features: (tenant.features ??
+        DEFAULT_SETTINGS.features) as TenantSettings["features"],
+      branding: (tenant.branding ??
+        DEFAULT_SETTINGS.branding) as TenantSettings["branding"],
+      limits: {
+        max_users: tenant.max_users,
+        max_locations: tenant.max_locations,
+        storage_gb: tenant.storage_limit_gb,
+      },
+    },
+  };
+}
+
 // Get tenant ID only (lighter query when full context not needed)
 export async function getTenantId(): Promise<string | null> {
   const context = await getTenantContext();
@@ -5,11 +5,23 @@ import { uuid, optionalUuid, nullableUuid, uuidArray } from "./shared";
  * Asset Category Validation Schemas
  */
 
+export const depreciationMethods = [
+  "straight_line",
+  "declining_balance",
+  "none",
+] as const;
+
 export const createAssetCategorySchema = z.object({
   name: z.string().min(1, "Name is required").max(100),
   description: z.string().max(500).optional(),
   default_lifespan_years: z.number().int().positive().optional(),
   parent_category_id: nullableUuid().optional(),
+  depreciation_method: z.enum(depreciationMethods).optional(),
+  salvage_value_percent: z
+    .number()
+    .min(0, "Salvage value cannot be negative")
+    .max(100, "Salvage value cannot exceed 100%")
+    .optional(),
 });
 
 export const updateAssetCategorySchema = z.object({
@@ -17,6 +29,12 @@ export const updateAssetCategorySchema = z.object({
   description: z.string().max(500).optional(),
   default_lifespan_years: z.number().int().positive().optional(),
   parent_category_id: nullableUuid().optional(),
+  depreciation_method: z.enum(depreciationMethods).optional(),
+  salvage_value_percent: z
+    .number()
+    .min(0, "Salvage value cannot be negative")
+    .max(100, "Salvage value cannot exceed 100%")
+    .optional(),
 });
 
 /**
@@ -162,6 +180,26 @@ export const assetFilterSchema = z.object({
   pageSize: z.number().int().min(1).max(100).default(50),
 });
 
+/**
+ * QR Label Validation Schemas
+ */
+
+export const labelFormats = ["avery_5160", "avery_22806"] as const;
+
+export const assetLabelsSchema = z.object({
+  format: z.enum(labelFormats),
+  filters: assetFilterSchema
+    .pick({
+      category_id: true,
+      asset_type_id: true,
+      location_id: true,
+      vendor_id: true,
+      status: true,
+      search: true,
+    })
+    .default({}),
+});
+
 /**
  * Asset Transfer Validation Schemas
  */
@@ -181,6 +219,47 @@ export const bulkTransferAssetSchema = z.object({
   notes: z.string().max(1000).optional(),
 });
 
+/**
+ * Asset Meter Validation Schemas
+ */
+
+const meterUnitSchema = z.enum(["hours", "cycles", "gallons"]);
+
+export const createAssetMeterSchema = z.object({
+  name: z.string().min(1, "Meter name is required").max(100),
+  unit: meterUnitSchema,
+  current_reading: z.number().min(0).optional(),
+});
+
+export const updateAssetMeterSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  unit: meterUnitSchema.optional(),
+});
+
+export const recordMeterReadingSchema = z.object({
+  reading: z.number().min(0, "Reading cannot be negative"),
+  source: z.enum(["manual", "qr"]).default("manual"),
+  notes: z.string().max(500).nullable().optional(),
+});
+
+/**
+ * Asset Replacement Policy Validation Schema
+ */
+
+export const assetReplacementPolicySchema = z.object({
+  repair_cost_percent: z
+    .number()
+    .gt(0, "Percentage must be above zero")
+    .max(999, "Percentage cannot exceed 999"),
+  failure_threshold: z.number().int().min(1, "Threshold must be at least 1"),
+  failure_window_days: z
+    .number()
+    .int()
+    .min(30, "Window must be at least 30 days")
+    .max(1825, "Window cannot exceed 5 years"),
+  flag_past_lifespan: z.boolean(),
+});
+
 /**
  * Vendor Validation Schemas
  */
@@ -311,10 +390,18 @@ export type UpdateAssetTypeInput = z.infer<typeof updateAssetTypeSchema>;
 export type CreateAssetInput = z.infer<typeof createAssetSchema>;
 export type UpdateAssetInput = z.infer<typeof updateAssetSchema>;
 export type AssetFilterInput = z.infer<typeof assetFilterSchema>;
+export type AssetLabelsInput = z.infer<typeof assetLabelsSchema>;
 
 export type TransferAssetInput = z.infer<typeof transferAssetSchema>;
 export type BulkTransferAssetInput = z.infer<typeof bulkTransferAssetSchema>;
 
+export type CreateAssetMeterInput = z.infer<typeof createAssetMeterSchema>;
+export type UpdateAssetMeterInput = z.infer<typeof updateAssetMeterSchema>;
+export type RecordMeterReadingInput = z.infer<typeof recordMeterReadingSchema>;
+export type AssetReplacementPolicyInput = z.infer<
+  typeof assetReplacementPolicySchema
+>;
+
 export type CreateVendorInput = z.infer<typeof createVendorSchema>;
 export type UpdateVendorInput = z.infer<typeof updateVendorSchema>;
 export type VendorFilterInput = z.infer<typeof vendorFilterSchema>;
@@ -5,7 +5,8 @@ import { optionalNullableUuid } from "./shared";
  * Budget Validation Schemas
  *
  * Budgets track annual spending limits per category and/or location.
- * Spend is calculated dynamically from completed ticket costs, not stored.
+ * Spend is calculated dynamically from approved invoices and completed
+ * ticket costs, not stored.
  */
 
 // Current year for validation
@@ -1,15 +1,60 @@
 import { z } from "zod";
 import { uuid, optionalNullableUuid, uuidArray } from "./shared";
 
+// Furthest ahead an expiration alert can be scheduled
+export const MAX_ALERT_DAYS = 365;
+
+const alertDays = () =>
+  z.array(z.number().int().positive().max(MAX_ALERT_DAYS));
+
+// Each item becomes a task when a renewal is started
+export const renewalChecklistSchema = z.object({
+  items: z.array(
+    z.object({
+      id: z.string().min(1).max(100),
+      label: z.string().min(1, "Label is required").max(200),
+      description: z.string().max(1000).nullable().optional(),
+    }),
+  ),
+});
+
+const metadataPattern = z
+  .string()
+  .min(1)
+  .max(500)
+  .refine((pattern) => {
+    try {
+      new RegExp(pattern, "i");
+      return true;
+    } catch {
+      return false;
+    }
+  }, "Invalid regular expression");
+
+const metadataPatterns = () => z.array(metadataPattern).max(10).optional();
+
+// Tried before the built-in patterns when scanning an uploaded PDF
+export const metadataPatternsSchema = z.object({
+  issue_date: metadataPatterns(),
+  expiration_date: metadataPatterns(),
+  document_number: metadataPatterns(),
+  issuing_authority: metadataPatterns(),
+});
+
 export const createComplianceDocTypeSchema = z.object({
   name: z.string().min(1, "Name is required").max(200),
   name_es: z.string().max(200).nullable().optional(),
   description: z.string().max(1000).nullable().optional(),
-  default_alert_days: z
-    .array(z.number().int().positive())
+  default_alert_days: alertDays().nullable().optional(),
+  expiring_soon_days: z
+    .number()
+    .int()
+    .positive()
+    .max(MAX_ALERT_DAYS)
     .nullable()
     .optional(),
-  renewal_checklist: z.record(z.string(), z.any()).nullable().optional(),
+  renewal_checklist: renewalChecklistSchema.nullable().optional(),
+  metadata_patterns: metadataPatternsSchema.nullable().optional(),
   is_location_specific: z.boolean().optional(),
 });
 
@@ -17,11 +62,16 @@ export const updateComplianceDocTypeSchema = z.object({
   name: z.string().min(1).max(200).optional(),
   name_es: z.string().max(200).nullable().optional(),
   description: z.string().max(1000).nullable().optional(),
-  default_alert_days: z
-    .array(z.number().int().positive())
+  default_alert_days: alertDays().nullable().optional(),
+  expiring_soon_days: z
+    .number()
+    .int()
+    .positive()
+    .max(MAX_ALERT_DAYS)
     .nullable()
     .optional(),
-  renewal_checklist: z.record(z.string(), z.any()).nullable().optional(),
+  renewal_checklist: renewalChecklistSchema.nullable().optional(),
+  metadata_patterns: metadataPatternsSchema.nullable().optional(),
   is_location_specific: z.boolean().optional(),
 });
 
@@ -38,6 +88,7 @@ export const createComplianceDocSchema = z
     file_path: z.string().nullable().optional(),
     renewal_cost: z.number().positive().nullable().optional(),
     renewal_assigned_to: optionalNullableUuid(),
+    alert_days: alertDays().nullable().optional(),
     notes: z.string().max(2000).nullable().optional(),
   })
   .refine(
@@ -69,6 +120,7 @@ export const updateComplianceDocSchema = z.object({
     .optional(),
   renewal_cost: z.number().positive().nullable().optional(),
   renewal_assigned_to: optionalNullableUuid(),
+  alert_days: alertDays().nullable().optional(),
   notes: z.string().max(2000).nullable().optional(),
 });
 
@@ -82,7 +134,15 @@ export const markAsConditionalSchema = z.object({
 });
 
 export const markAsFailedInspectionSchema = z.object({
-  corrective_action: z.string().min(1, "Corrective action is required"),
+  corrective_actions: z
+    .array(
+      z
+        .string()
+        .trim()
+        .min(1, "Corrective action is required")
+        .max(500, "Corrective action cannot exceed 500 characters"),
+    )
+    .min(1, "At least one corrective action is required"),
   reinspection_date: z.string().min(1, "Reinspection date is required"),
 });
 
@@ -102,3 +162,36 @@ export const complianceFiltersSchema = z.object({
     .optional(),
   search: z.string().optional(),
 });
+
+export const startRenewalSchema = z.object({
+  assigned_to: optionalNullableUuid(),
+  cost: z.number().nonnegative().nullable().optional(),
+  notes: z.string().max(2000).nullable().optional(),
+});
+
+export const advanceRenewalSchema = z.object({
+  action: z.enum(["submit", "review", "cancel"]),
+  notes: z.string().max(2000).nullable().optional(),
+});
+
+export const updateRenewalTaskSchema = z.object({
+  completed: z.boolean().optional(),
+  assigned_to: optionalNullableUuid(),
+  due_date: z.string().nullable().optional(),
+});
+
+export const approveRenewalSchema = z.object({
+  new_issue_date: z.string().nullable().optional(),
+  new_expiration_date: z.string().min(1, "New expiration date is required"),
+  cost: z.number().nonnegative().nullable().optional(),
+});
+
+export const auditPackageSchema = z.object({
+  location_id: uuid("Location is required"),
+  from_date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  to_date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+});
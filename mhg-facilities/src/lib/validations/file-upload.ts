@@ -88,4 +88,6 @@ export const STORAGE_BUCKETS = {
   assetPhotos: "asset-photos",
   assetManuals: "asset-manuals",
   vendorInvoices: "vendor-invoices",
+  complianceExports: "compliance-exports",
+  qrLabels: "qr-labels",
 } as const;
@@ -0,0 +1,137 @@
+import { z } from "zod";
+import { uuid, optionalNullableUuid } from "./shared";
+
+/**
+ * Invoice Validation Schemas
+ *
+ * Vendor invoices belong to a ticket, carry line items and an optional PDF
+ * (a ticket attachment), and move through pending → approved → paid, with
+ * disputes sending them back for correction.
+ */
+
+const invoiceStatuses = ["pending", "approved", "paid", "disputed"] as const;
+
+const paymentMethods = ["check", "ach", "card", "cash", "other"] as const;
+
+const invoiceDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+const money = z
+  .number()
+  .min(0, "Amount must be non-negative")
+  .max(99999999, "Amount too large");
+
+// ============================================================
+// LINE ITEM SCHEMA
+// ============================================================
+
+export const invoiceLineItemSchema = z.object({
+  description: z
+    .string()
+    .trim()
+    .min(1, "Description is required")
+    .max(500, "Description too long"),
+  quantity: z.number().positive("Quantity must be positive").default(1),
+  unit_price: money,
+});
+
+// ============================================================
+// INVOICE SCHEMAS
+// ============================================================
+
+export const createInvoiceSchema = z
+  .object({
+    ticket_id: uuid("Invalid ticket ID"),
+    vendor_id: uuid("Invalid vendor ID"),
+    invoice_number: z
+      .string()
+      .trim()
+      .min(1, "Invoice number is required")
+      .max(100, "Invoice number too long"),
+    invoice_date: invoiceDate,
+    due_date: invoiceDate.nullable().optional(),
+    tax_amount: money.default(0),
+    attachment_id: optionalNullableUuid("Invalid attachment ID"),
+    notes: z.string().max(2000, "Notes too long").nullish(),
+    line_items: z
+      .array(invoiceLineItemSchema)
+      .min(1, "At least one line item is required")
+      .max(100, "Too many line items"),
+  })
+  .refine((data) => !data.due_date || data.due_date >= data.invoice_date, {
+    message: "Due date cannot be before the invoice date",
+    path: ["due_date"],
+  });
+
+export const updateInvoiceSchema = z
+  .object({
+    invoice_number: z
+      .string()
+      .trim()
+      .min(1, "Invoice number is required")
+      .max(100, "Invoice number too long")
+      .optional(),
+    invoice_date: invoiceDate.optional(),
+    due_date: invoiceDate.nullable().optional(),
+    tax_amount: money.optional(),
+    attachment_id: optionalNullableUuid("Invalid attachment ID"),
+    notes: z.string().max(2000, "Notes too long").nullish(),
+    line_items: z
+      .array(invoiceLineItemSchema)
+      .min(1, "At least one line item is required")
+      .max(100, "Too many line items")
+      .optional(),
+  })
+  .refine(
+    (data) =>
+      !data.due_date ||
+      !data.invoice_date ||
+      data.due_date >= data.invoice_date,
+    {
+      message: "Due date cannot be before the invoice date",
+      path: ["due_date"],
+    },
+  );
+
+export const invoiceStatusActionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("approve") }),
+  z.object({
+    action: z.literal("dispute"),
+    reason: z
+      .string()
+      .trim()
+      .min(1, "Dispute reason is required")
+      .max(1000, "Reason too long"),
+  }),
+]);
+
+export const recordInvoicePaymentSchema = z.object({
+  amount: z
+    .number()
+    .positive("Payment must be greater than zero")
+    .max(99999999, "Amount too large"),
+  paid_on: invoiceDate,
+  method: z.enum(paymentMethods).default("check"),
+  reference: z.string().max(100, "Reference too long").nullish(),
+  notes: z.string().max(1000, "Notes too long").nullish(),
+});
+
+export const invoiceFiltersSchema = z.object({
+  vendor_id: uuid("Invalid vendor ID").optional(),
+  ticket_id: uuid("Invalid ticket ID").optional(),
+  status: z.enum(invoiceStatuses).optional(),
+});
+
+// ============================================================
+// TYPE EXPORTS
+// ============================================================
+
+export type InvoiceLineItemInput = z.infer<typeof invoiceLineItemSchema>;
+export type CreateInvoiceInput = z.infer<typeof createInvoiceSchema>;
+export type UpdateInvoiceInput = z.infer<typeof updateInvoiceSchema>;
+export type InvoiceStatusAction = z.infer<typeof invoiceStatusActionSchema>;
+export type RecordInvoicePaymentInput = z.infer<
+  typeof recordInvoicePaymentSchema
+>;
+export type InvoiceFiltersInput = z.infer<typeof invoiceFiltersSchema>;
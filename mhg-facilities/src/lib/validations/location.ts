@@ -1,10 +1,22 @@
 import { z } from "zod";
+import { labelFormats } from "./assets-vendors";
 
 /**
  * Validation schemas for location management
  * Used at API boundaries to validate request data
  */
 
+const timeOfDay = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:mm format");
+
+export const businessHoursSchema = z.object({
+  timezone: z.string().min(1, "Timezone is required"),
+  days: z.array(z.number().int().min(0).max(6)).min(1),
+  open: timeOfDay,
+  close: timeOfDay,
+});
+
 export const createLocationSchema = z.object({
   name: z
     .string()
@@ -28,6 +40,7 @@ export const createLocationSchema = z.object({
     .string()
     .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
     .optional(),
+  business_hours: businessHoursSchema.optional(),
 });
 
 export const updateLocationSchema = z.object({
@@ -69,12 +82,22 @@ export const updateLocationSchema = z.object({
     .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
     .nullable()
     .optional(),
+  business_hours: businessHoursSchema.nullable().optional(),
 });
 
 export const assignManagerSchema = z.object({
   manager_id: z.string().uuid("Manager ID must be a valid UUID").nullable(),
 });
 
+export const locationLabelsSchema = z.object({
+  format: z.enum(labelFormats),
+  // Every active location when left out
+  location_ids: z
+    .array(z.string().uuid("Location ID must be a valid UUID"))
+    .optional(),
+});
+
 export type CreateLocationInput = z.infer<typeof createLocationSchema>;
 export type UpdateLocationInput = z.infer<typeof updateLocationSchema>;
 export type AssignManagerInput = z.infer<typeof assignManagerSchema>;
+export type LocationLabelsInput = z.infer<typeof locationLabelsSchema>;
@@ -1,11 +1,66 @@
 import { z } from "zod";
 import { uuid, optionalNullableUuid } from "./shared";
 
+// ============================================================
+// CHECKLISTS
+// ============================================================
+
+export const pmChecklistItemSchema = z
+  .object({
+    id: z.string().min(1).max(100),
+    label: z.string().min(1, "Item label is required").max(200),
+    type: z.enum(["pass_fail", "reading", "text", "photo"]),
+    required: z.boolean(),
+    instructions: z.string().max(1000).nullable().optional(),
+    unit: z.string().max(20).nullable().optional(),
+    min: z.number().nullable().optional(),
+    max: z.number().nullable().optional(),
+    meter_reading: z.boolean().optional(),
+  })
+  .refine(
+    (item) => item.min == null || item.max == null || item.min <= item.max,
+    {
+      message: "Minimum must not exceed maximum",
+      path: ["min"],
+    },
+  );
+
+export const pmChecklistSchema = z
+  .object({
+    items: z.array(pmChecklistItemSchema).max(100),
+  })
+  .refine(
+    (checklist) =>
+      new Set(checklist.items.map((item) => item.id)).size ===
+      checklist.items.length,
+    { message: "Checklist item ids must be unique" },
+  );
+
+export const pmChecklistResultsSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        item_id: z.string().min(1).max(100),
+        passed: z.boolean().nullable().optional(),
+        value: z.number().nullable().optional(),
+        text: z.string().max(2000).nullable().optional(),
+        attachment_ids: z.array(uuid()).max(20).optional(),
+        notes: z.string().max(1000).nullable().optional(),
+        follow_up_ticket_id: optionalNullableUuid(),
+      }),
+    )
+    .max(100),
+});
+
+// ============================================================
+// TEMPLATES
+// ============================================================
+
 export const createPMTemplateSchema = z.object({
   name: z.string().min(1, "Name is required").max(200),
   description: z.string().max(1000).nullable().optional(),
   category: z.string().max(100).nullable().optional(),
-  checklist: z.record(z.string(), z.any()).nullable().optional(),
+  checklist: pmChecklistSchema.nullable().optional(),
   estimated_duration_hours: z
     .number()
     .positive()
@@ -19,7 +74,7 @@ export const updatePMTemplateSchema = z.object({
   name: z.string().min(1).max(200).optional(),
   description: z.string().max(1000).nullable().optional(),
   category: z.string().max(100).nullable().optional(),
-  checklist: z.record(z.string(), z.any()).nullable().optional(),
+  checklist: pmChecklistSchema.nullable().optional(),
   estimated_duration_hours: z
     .number()
     .positive()
@@ -29,6 +84,8 @@ export const updatePMTemplateSchema = z.object({
   default_vendor_id: optionalNullableUuid(),
 });
 
+const pmTriggerTypeSchema = z.enum(["calendar", "meter", "calendar_or_meter"]);
+
 export const createPMScheduleSchema = z
   .object({
     template_id: optionalNullableUuid(),
@@ -36,15 +93,22 @@ export const createPMScheduleSchema = z
     description: z.string().max(1000).nullable().optional(),
     asset_id: optionalNullableUuid(),
     location_id: optionalNullableUuid(),
-    frequency: z.enum([
-      "daily",
-      "weekly",
-      "biweekly",
-      "monthly",
-      "quarterly",
-      "semi_annually",
-      "annually",
-    ]),
+    frequency: z
+      .enum([
+        "daily",
+        "weekly",
+        "biweekly",
+        "monthly",
+        "quarterly",
+        "semi_annually",
+        "annually",
+      ])
+      .nullable()
+      .optional(),
+    scheduling_mode: z.enum(["fixed", "floating"]).optional(),
+    trigger_type: pmTriggerTypeSchema.optional(),
+    meter_id: optionalNullableUuid(),
+    meter_interval: z.number().positive().nullable().optional(),
     day_of_week: z.number().int().min(0).max(6).nullable().optional(),
     day_of_month: z.number().int().min(1).max(31).nullable().optional(),
     month_of_year: z.number().int().min(1).max(12).nullable().optional(),
@@ -57,7 +121,21 @@ export const createPMScheduleSchema = z
   })
   .refine((data) => !data.asset_id || !data.location_id, {
     message: "Cannot specify both asset_id and location_id",
-  });
+  })
+  .refine((data) => data.trigger_type === "meter" || data.frequency, {
+    message: "Frequency is required for calendar schedules",
+    path: ["frequency"],
+  })
+  .refine(
+    (data) =>
+      (data.trigger_type ?? "calendar") === "calendar" ||
+      (data.meter_id && data.meter_interval),
+    {
+      message:
+        "Meter and meter interval are required for meter-triggered schedules",
+      path: ["meter_id"],
+    },
+  );
 
 export const updatePMScheduleSchema = z.object({
   template_id: optionalNullableUuid(),
@@ -75,7 +153,12 @@ export const updatePMScheduleSchema = z.object({
       "semi_annually",
       "annually",
     ])
+    .nullable()
     .optional(),
+  scheduling_mode: z.enum(["fixed", "floating"]).optional(),
+  trigger_type: pmTriggerTypeSchema.optional(),
+  meter_id: optionalNullableUuid(),
+  meter_interval: z.number().positive().nullable().optional(),
   day_of_week: z.number().int().min(0).max(6).nullable().optional(),
   day_of_month: z.number().int().min(1).max(31).nullable().optional(),
   month_of_year: z.number().int().min(1).max(12).nullable().optional(),
@@ -88,9 +171,34 @@ export const updatePMScheduleSchema = z.object({
 export const completePMScheduleSchema = z.object({
   ticket_id: uuid(),
   user_id: uuid(),
-  checklist_results: z.record(z.string(), z.any()).nullable().optional(),
+  checklist_results: pmChecklistResultsSchema.nullable().optional(),
 });
 
+const pmDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+// Longest range a single backfill may cover
+const MAX_BACKFILL_DAYS = 366;
+
+export const generatePMTicketsSchema = z
+  .object({
+    from: pmDate.optional(),
+    to: pmDate.optional(),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: "Start date must be on or before end date",
+  })
+  .refine(
+    (data) =>
+      !data.from ||
+      (new Date(data.to ?? Date.now()).getTime() -
+        new Date(data.from).getTime()) /
+        (1000 * 60 * 60 * 24) <=
+        MAX_BACKFILL_DAYS,
+    { message: `Backfill range cannot exceed ${MAX_BACKFILL_DAYS} days` },
+  );
+
 export const pmFiltersSchema = z.object({
   asset_id: uuid().optional(),
   location_id: uuid().optional(),
@@ -1,9 +1,11 @@
 import { z } from "zod";
 import { uuid, optionalNullableUuid, uuidArray } from "./shared";
+import { pmChecklistResultsSchema } from "./pm";
 
 // Ticket status and priority enums
 const ticketStatuses = [
   "submitted",
+  "needs_approval",
   "in_progress",
   "completed",
   "closed",
@@ -52,7 +54,7 @@ export const updateTicketSchema = z.object({
     .string()
     .max(5000, "Description cannot exceed 5000 characters")
     .optional(),
-  category_id: uuid("Invalid category ID").optional(),
+  category_id: optionalNullableUuid("Invalid category ID"),
   priority: z.enum(ticketPriorities).optional(),
   due_date: z.string().datetime("Invalid date format").optional(),
 });
@@ -63,10 +65,13 @@ export const ticketFiltersSchema = z.object({
   location_id: uuid("Invalid location ID").optional(),
   assigned_to: uuid("Invalid user ID").optional(),
   submitted_by: uuid("Invalid user ID").optional(),
+  vendor_id: uuid("Invalid vendor ID").optional(),
   date_from: z.string().datetime("Invalid date format").optional(),
   date_to: z.string().datetime("Invalid date format").optional(),
   search: z.string().max(200, "Search query too long").optional(),
   is_emergency: z.boolean().optional(),
+  sla_status: z.enum(["breached", "at_risk"]).optional(),
+  sort_by: z.enum(["created_at", "time_to_breach"]).optional(),
   page: z.number().int().min(1).default(1),
   pageSize: z.number().int().min(1).max(100).default(50),
 });
@@ -83,6 +88,8 @@ export const assignVendorSchema = z.object({
 
 export const completeTicketSchema = z.object({
   actual_cost: z.number().min(0, "Cost must be non-negative").optional(),
+  // PM checklist results for tickets generated from a PM schedule
+  checklist_results: pmChecklistResultsSchema.optional(),
 });
 
 export const rejectTicketSchema = z.object({
@@ -105,6 +112,31 @@ export const checkDuplicateSchema = z.object({
   title: z.string().min(5, "Title must be at least 5 characters"),
 });
 
+// Problem reports from the public QR page; the asset and location come
+// from the QR code
+export const publicReportSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(5, "Title must be at least 5 characters")
+    .max(200, "Title cannot exceed 200 characters"),
+  description: z
+    .string()
+    .max(5000, "Description cannot exceed 5000 characters")
+    .optional(),
+  reporter_name: z.string().trim().max(100).optional(),
+  reporter_phone: z
+    .string()
+    .trim()
+    .max(20)
+    .regex(/^[0-9+()\-.\s]*$/, "Enter a valid phone number")
+    .optional(),
+});
+
+export const publicDuplicateCheckSchema = z.object({
+  title: z.string().min(5, "Title must be at least 5 characters"),
+});
+
 export const markDuplicateSchema = z.object({
   original_ticket_id: uuid("Invalid ticket ID"),
 });
@@ -117,6 +149,45 @@ export const mergeTicketsSchema = z.object({
   ),
 });
 
+// ============================================================
+// COST APPROVAL SCHEMAS
+// ============================================================
+
+export const requestCostApprovalSchema = z.object({
+  amount: z
+    .number()
+    .min(0, "Amount must be non-negative")
+    .max(99999999, "Amount too large"),
+  source: z.enum(["estimate", "quote"]).default("estimate"),
+  vendor_id: optionalNullableUuid("Invalid vendor ID"),
+  notes: z.string().max(1000, "Notes too long").optional(),
+});
+
+export const costApprovalDecisionSchema = z.object({
+  decision: z.enum(["approve", "deny"]),
+  notes: z
+    .string()
+    .trim()
+    .min(1, "Decision notes are required")
+    .max(1000, "Notes too long"),
+});
+
+export const costApprovalPolicySchema = z
+  .object({
+    is_enabled: z.boolean(),
+    auto_approve_limit: z.number().min(0, "Limit must be non-negative"),
+    manager_limit: z.number().min(0, "Limit must be non-negative"),
+    admin_limit: z.number().min(0, "Limit must be non-negative"),
+  })
+  .refine((data) => data.auto_approve_limit <= data.manager_limit, {
+    message: "Auto-approve limit cannot exceed the manager limit",
+    path: ["auto_approve_limit"],
+  })
+  .refine((data) => data.manager_limit <= data.admin_limit, {
+    message: "Manager limit cannot exceed the admin limit",
+    path: ["manager_limit"],
+  });
+
 // ============================================================
 // TICKET CATEGORY SCHEMAS
 // ============================================================
@@ -139,6 +210,12 @@ export const createCategorySchema = z.object({
     .int()
     .min(1, "Escalation hours must be at least 1")
     .default(4),
+  resolution_hours: z
+    .number()
+    .int()
+    .min(1, "Resolution hours must be at least 1")
+    .nullable()
+    .optional(),
 });
 
 export const updateCategorySchema = z.object({
@@ -160,6 +237,12 @@ export const updateCategorySchema = z.object({
     .int()
     .min(1, "Escalation hours must be at least 1")
     .optional(),
+  resolution_hours: z
+    .number()
+    .int()
+    .min(1, "Resolution hours must be at least 1")
+    .nullable()
+    .optional(),
 });
 
 // ============================================================
@@ -195,8 +278,16 @@ export type CompleteTicketInput = z.infer<typeof completeTicketSchema>;
 export type RejectTicketInput = z.infer<typeof rejectTicketSchema>;
 export type HoldTicketInput = z.infer<typeof holdTicketSchema>;
 export type CheckDuplicateInput = z.infer<typeof checkDuplicateSchema>;
+export type PublicReportInput = z.infer<typeof publicReportSchema>;
 export type MarkDuplicateInput = z.infer<typeof markDuplicateSchema>;
 export type MergeTicketsInput = z.infer<typeof mergeTicketsSchema>;
+export type RequestCostApprovalInput = z.infer<
+  typeof requestCostApprovalSchema
+>;
+export type CostApprovalDecisionInput = z.infer<
+  typeof costApprovalDecisionSchema
+>;
+export type CostApprovalPolicyInput = z.infer<typeof costApprovalPolicySchema>;
 export type CreateCategoryInput = z.infer<typeof createCategorySchema>;
 export type UpdateCategoryInput = z.infer<typeof updateCategorySchema>;
 export type CreateCommentInput = z.infer<typeof createCommentSchema>;
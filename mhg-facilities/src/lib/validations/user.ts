@@ -1,17 +1,25 @@
 import { z } from "zod";
+import { uuid } from "./shared";
+import type { NotificationEvent } from "@/types";
 
 /**
  * Validation schemas for user management
  * Used at API boundaries to validate request data
  */
 
-export const inviteUserSchema = z.object({
-  email: z.string().email("Invalid email address"),
-  role: z.enum(["admin", "manager", "staff", "vendor", "readonly"], {
-    message: "Invalid role",
-  }),
-  location_id: z.string().uuid("Location ID must be a valid UUID").optional(),
-});
+export const inviteUserSchema = z
+  .object({
+    email: z.string().email("Invalid email address"),
+    role: z.enum(["admin", "manager", "staff", "vendor", "readonly"], {
+      message: "Invalid role",
+    }),
+    location_id: z.string().uuid("Location ID must be a valid UUID").optional(),
+    vendor_id: z.string().uuid("Vendor ID must be a valid UUID").optional(),
+  })
+  .refine((data) => data.role !== "vendor" || !!data.vendor_id, {
+    message: "Vendor users must be linked to a vendor",
+    path: ["vendor_id"],
+  });
 
 export const updateUserSchema = z.object({
   full_name: z
@@ -26,6 +34,11 @@ export const updateUserSchema = z.object({
     .uuid("Location ID must be a valid UUID")
     .nullable()
     .optional(),
+  vendor_id: z
+    .string()
+    .uuid("Vendor ID must be a valid UUID")
+    .nullable()
+    .optional(),
   phone: z.string().max(20).nullable().optional(),
   language_preference: z.enum(["en", "es"]).optional(),
   notification_preferences: z
@@ -54,6 +67,89 @@ export const updateProfileSchema = z.object({
     .optional(),
 });
 
+const notificationEvents = [
+  "ticket_created",
+  "ticket_assigned",
+  "ticket_status_changed",
+  "ticket_mentioned",
+  "ticket_escalated",
+  "cost_approval_requested",
+  "cost_approval_decided",
+  "pm_due",
+  "compliance_expiring",
+  "compliance_reinspection_due",
+  "digest",
+] as const satisfies readonly NotificationEvent[];
+
+const timeOfDay = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:mm format");
+
+const channelSwitchesSchema = z.object({
+  email: z.boolean().optional(),
+  sms: z.boolean().optional(),
+  push: z.boolean().optional(),
+});
+
+// Partial update: omitted keys keep their saved values
+export const notificationPreferencesSchema = channelSwitchesSchema.extend({
+  events: z
+    .partialRecord(z.enum(notificationEvents), channelSwitchesSchema)
+    .optional(),
+  quiet_hours: z
+    .object({
+      enabled: z.boolean(),
+      start: timeOfDay,
+      end: timeOfDay,
+      timezone: z.string().min(1, "Timezone is required"),
+    })
+    .nullable()
+    .optional(),
+  location_ids: z
+    .array(z.string().uuid("Location ID must be a valid UUID"))
+    .optional(),
+  digest: z.enum(["daily", "weekly"]).nullable().optional(),
+});
+
+export const notificationPolicySchema = z.object({
+  critical_overrides_quiet_hours: z.boolean(),
+  // Incoming webhook for critical alerts; limited to Slack's host
+  slack_webhook_url: z
+    .url("Enter a valid webhook URL")
+    .startsWith("https://hooks.slack.com/", "Must be a Slack incoming webhook")
+    .nullable()
+    .default(null),
+});
+
+// PushSubscription.toJSON() from the browser
+export const pushSubscriptionSchema = z.object({
+  endpoint: z.url().startsWith("https://", "Push endpoints must use HTTPS"),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+});
+
+export const notificationOutboxFiltersSchema = z.object({
+  status: z
+    .enum(["queued", "processing", "sent", "failed", "bounced"])
+    .optional(),
+  event: z.enum(notificationEvents).optional(),
+});
+
+export const notificationInboxFiltersSchema = z.object({
+  unread: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+// Omit ids to mark everything read
+export const markNotificationsReadSchema = z.object({
+  ids: z.array(uuid()).max(100).optional(),
+});
+
 export const changePasswordSchema = z
   .object({
     current_password: z
@@ -91,3 +187,12 @@ export type UpdateUserInput = z.infer<typeof updateUserSchema>;
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
 export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
 export type AcceptInviteInput = z.infer<typeof acceptInviteSchema>;
+export type NotificationPreferencesInput = z.infer<
+  typeof notificationPreferencesSchema
+>;
+export type NotificationOutboxFiltersInput = z.infer<
+  typeof notificationOutboxFiltersSchema
+>;
+export type MarkNotificationsReadInput = z.infer<
+  typeof markNotificationsReadSchema
+>;
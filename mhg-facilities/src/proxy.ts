@@ -23,7 +23,8 @@ export async function proxy(request: NextRequest) {
     pathname.startsWith("/vendors") ||
     pathname.startsWith("/compliance") ||
     pathname.startsWith("/reports") ||
-    pathname.startsWith("/settings");
+    pathname.startsWith("/settings") ||
+    pathname.startsWith("/portal");
 
   // If user is authenticated and trying to access auth routes, redirect to destination
   if (user && isAuthRoute) {
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { instance, mock, when } from "ts-mockito";
+import {
+  AssetDepreciationService,
+  type DepreciableAsset,
+} from "../asset-depreciation.service";
+import { AssetDAO } from "@/dao/asset.dao";
+import type { DepreciationMethod } from "@/types/database";
+
+describe("AssetDepreciationService", () => {
+  let service: AssetDepreciationService;
+  let mockAssetDAO: AssetDAO;
+
+  const asset = (
+    method: DepreciationMethod,
+    overrides: Partial<DepreciableAsset> = {},
+  ): DepreciableAsset => ({
+    id: "asset-1",
+    purchase_price: 10000,
+    purchase_date: "2020-01-01",
+    expected_lifespan_years: null,
+    category: {
+      id: "cat-1",
+      name: "HVAC",
+      default_lifespan_years: 5,
+      depreciation_method: method,
+      salvage_value_percent: 10,
+    },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockAssetDAO = mock(AssetDAO);
+    service = new AssetDepreciationService(instance(mockAssetDAO));
+  });
+
+  describe("calculateBookValue", () => {
+    it("should take the same amount each year down to salvage value", () => {
+      const value = service.calculateBookValue(
+        asset("straight_line"),
+        new Date("2022-01-01"),
+      );
+
+      expect(value).toEqual({
+        asset_id: "asset-1",
+        method: "straight_line",
+        purchase_price: 10000,
+        salvage_value: 1000,
+        lifespan_years: 5,
+        accumulated_depreciation: 3600,
+        book_value: 6400,
+      });
+    });
+
+    it("should depreciate part years in proportion", () => {
+      const value = service.calculateBookValue(
+        asset("straight_line", { purchase_date: "2021-01-01" }),
+        new Date("2021-07-02"),
+      );
+
+      // 182 of 365 days into the first year
+      expect(value.book_value).toBe(9102.47);
+    });
+
+    it("should hold assets past their lifespan at salvage value", () => {
+      const value = service.calculateBookValue(
+        asset("declining_balance"),
+        new Date("2030-06-01"),
+      );
+
+      expect(value.book_value).toBe(1000);
+      expect(value.accumulated_depreciation).toBe(9000);
+    });
+
+    it("should prefer the asset's own lifespan to the category's", () => {
+      const value = service.calculateBookValue(
+        asset("straight_line", { expected_lifespan_years: 10 }),
+        new Date("2022-01-01"),
+      );
+
+      expect(value.lifespan_years).toBe(10);
+      expect(value.book_value).toBe(8200);
+    });
+
+    it("should carry assets at purchase price when there's nothing to depreciate over", () => {
+      const asOf = new Date("2024-01-01");
+
+      const none = service.calculateBookValue(asset("none"), asOf);
+      const undated = service.calculateBookValue(
+        asset("straight_line", { purchase_date: null }),
+        asOf,
+      );
+      const unpriced = service.calculateBookValue(
+        asset("straight_line", { purchase_price: null }),
+        asOf,
+      );
+
+      expect(none).toMatchObject({ method: "none", book_value: 10000 });
+      expect(undated).toMatchObject({ method: "none", book_value: 10000 });
+      expect(unpriced).toMatchObject({ method: "none", book_value: 0 });
+    });
+
+    it("should not depreciate before the purchase date", () => {
+      const value = service.calculateBookValue(
+        asset("straight_line"),
+        new Date("2019-06-01"),
+      );
+
+      expect(value.book_value).toBe(10000);
+    });
+  });
+
+  describe("buildSchedule", () => {
+    it("should list each year of a declining balance schedule", () => {
+      const schedule = service.buildSchedule(
+        asset("declining_balance", {
+          category: {
+            id: "cat-1",
+            name: "HVAC",
+            default_lifespan_years: 5,
+            depreciation_method: "declining_balance",
+            salvage_value_percent: 0,
+          },
+        }),
+        new Date("2021-06-01"),
+      );
+
+      expect(schedule.as_of).toBe("2021-06-01");
+      expect(schedule.periods.map((p) => p.closing_value)).toEqual([
+        6000, 3600, 2160, 1296, 0,
+      ]);
+      expect(schedule.periods[0]).toEqual({
+        year: 1,
+        start_date: "2020-01-01",
+        end_date: "2021-01-01",
+        opening_value: 10000,
+        depreciation: 4000,
+        closing_value: 6000,
+        accumulated_depreciation: 4000,
+      });
+      expect(schedule.periods[4].depreciation).toBe(1296);
+    });
+
+    it("should have no periods for assets that aren't depreciated", () => {
+      const schedule = service.buildSchedule(asset("none"));
+
+      expect(schedule.periods).toEqual([]);
+    });
+  });
+
+  describe("getSchedule", () => {
+    it("should reject unknown assets", async () => {
+      when(mockAssetDAO.findByIdWithRelations("missing")).thenResolve(null);
+
+      await expect(service.getSchedule("missing")).rejects.toThrow(
+        "Asset not found",
+      );
+    });
+  });
+});
@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { instance, mock, when, anything, verify, capture } from "ts-mockito";
+import { AssetHistoryService } from "../asset-history.service";
+import { AssetHistoryDAO } from "@/dao/asset-history.dao";
+import { AssetDAO } from "@/dao/asset.dao";
+import { InvoiceDAO, type AssetInvoice } from "@/dao/invoice.dao";
+import { UserDAO } from "@/dao/user.dao";
+import type { AssetTransferWithRelations } from "@/dao/asset-transfer.dao";
+import type { Database } from "@/types/database";
+import type { AssetHistoryRow } from "@/types/database-extensions";
+
+type Asset = Database["public"]["Tables"]["assets"]["Row"];
+type Ticket = Database["public"]["Tables"]["tickets"]["Row"];
+type User = Database["public"]["Tables"]["users"]["Row"];
+
+describe("AssetHistoryService", () => {
+  let service: AssetHistoryService;
+  let mockHistoryDAO: AssetHistoryDAO;
+  let mockAssetDAO: AssetDAO;
+  let mockInvoiceDAO: InvoiceDAO;
+  let mockUserDAO: UserDAO;
+
+  const asset = {
+    id: "asset-1",
+    purchase_price: 5000,
+    purchase_date: "2024-03-01",
+    created_at: "2024-03-05T00:00:00Z",
+  } as Asset;
+
+  const entry = (
+    id: string,
+    overrides: Partial<AssetHistoryRow> = {},
+  ): AssetHistoryRow => ({
+    id,
+    tenant_id: "tenant-1",
+    asset_id: "asset-1",
+    ticket_id: null,
+    maintenance_type: "repair",
+    description: null,
+    cost: null,
+    performed_by: null,
+    vendor_id: null,
+    performed_at: "2025-01-10T00:00:00Z",
+    ...overrides,
+  });
+
+  const invoice = (
+    ticketId: string,
+    total: number,
+    invoiceDate: string,
+  ): AssetInvoice => ({
+    id: `invoice-${ticketId}`,
+    ticket_id: ticketId,
+    vendor_id: "vendor-1",
+    total_amount: total,
+    invoice_date: invoiceDate,
+    vendor: { name: "Cool Air Co" },
+    ticket: { asset_id: "asset-1" },
+  });
+
+  const ticket = {
+    id: "ticket-1",
+    title: "Compressor failure",
+    asset_id: "asset-1",
+    vendor_id: null,
+    actual_cost: 250,
+    resolution_notes: null,
+    is_warranty_claim: false,
+    completed_at: "2025-06-01T12:00:00Z",
+    closed_at: null,
+  } as Ticket;
+
+  beforeEach(() => {
+    mockHistoryDAO = mock(AssetHistoryDAO);
+    mockAssetDAO = mock(AssetDAO);
+    mockInvoiceDAO = mock(InvoiceDAO);
+    mockUserDAO = mock(UserDAO);
+
+    when(mockUserDAO.findById("user-1")).thenResolve({
+      id: "user-1",
+      full_name: "Sam Tech",
+    } as User);
+    when(mockHistoryDAO.createHistory(anything())).thenCall(async (data) => ({
+      ...entry("new"),
+      ...data,
+    }));
+
+    service = new AssetHistoryService(
+      instance(mockHistoryDAO),
+      instance(mockAssetDAO),
+      instance(mockInvoiceDAO),
+      instance(mockUserDAO),
+    );
+  });
+
+  describe("calculateCostOfOwnership", () => {
+    it("should sum costs by kind and keep a running total by year", () => {
+      const cost = service.calculateCostOfOwnership(
+        asset,
+        [
+          entry("repair", { cost: 300, performed_at: "2024-09-01T00:00:00Z" }),
+          entry("pm", {
+            maintenance_type: "preventive",
+            cost: 120,
+            performed_at: "2025-02-01T00:00:00Z",
+          }),
+          entry("moved", { maintenance_type: "transfer", cost: 999 }),
+        ],
+        [invoice("ticket-9", 800, "2025-05-01")],
+      );
+
+      expect(cost).toMatchObject({
+        asset_id: "asset-1",
+        purchase_price: 5000,
+        repair_cost: 300,
+        pm_cost: 120,
+        vendor_cost: 800,
+        total: 6220,
+      });
+      expect(
+        cost.by_year.map(({ year, total, cumulative }) => ({
+          year,
+          total,
+          cumulative,
+        })),
+      ).toEqual([
+        { year: 2024, total: 5300, cumulative: 5300 },
+        { year: 2025, total: 920, cumulative: 6220 },
+      ]);
+    });
+
+    it("should count invoiced work once, at the invoice total", () => {
+      const cost = service.calculateCostOfOwnership(
+        { ...asset, purchase_price: null },
+        [entry("repair", { ticket_id: "ticket-1", cost: 250 })],
+        [invoice("ticket-1", 400, "2025-01-20")],
+      );
+
+      expect(cost.repair_cost).toBe(0);
+      expect(cost.vendor_cost).toBe(400);
+      expect(cost.total).toBe(400);
+    });
+
+    it("should ignore other assets' history and invoices", () => {
+      const cost = service.calculateCostOfOwnership(
+        { ...asset, purchase_price: null },
+        [entry("other", { asset_id: "asset-2", cost: 50 })],
+        [
+          {
+            ...invoice("ticket-2", 75, "2025-01-20"),
+            ticket: { asset_id: "asset-2" },
+          },
+        ],
+      );
+
+      expect(cost.total).toBe(0);
+      expect(cost.by_year).toEqual([]);
+    });
+  });
+
+  describe("recordTicketWork", () => {
+    it("should add completed work to the asset's history", async () => {
+      when(mockHistoryDAO.findByTicketId("ticket-1")).thenResolve([]);
+
+      await service.recordTicketWork(ticket, "user-1");
+
+      const [created] = capture(mockHistoryDAO.createHistory).last();
+      expect(created).toMatchObject({
+        asset_id: "asset-1",
+        ticket_id: "ticket-1",
+        maintenance_type: "repair",
+        description: "Compressor failure",
+        cost: 250,
+        performed_by: "Sam Tech",
+        performed_at: "2025-06-01T12:00:00Z",
+      });
+    });
+
+    it("should update the ticket's entry instead of adding another", async () => {
+      when(mockHistoryDAO.findByTicketId("ticket-1")).thenResolve([
+        entry("existing", {
+          ticket_id: "ticket-1",
+          maintenance_type: "preventive",
+        }),
+      ]);
+      when(mockHistoryDAO.updateHistory(anything(), anything())).thenCall(
+        async (_id, data) => ({ ...entry("existing"), ...data }),
+      );
+
+      await service.recordTicketWork(
+        { ...ticket, actual_cost: 300, resolution_notes: "Replaced relay" },
+        "user-1",
+        true,
+      );
+
+      verify(mockHistoryDAO.createHistory(anything())).never();
+      const [id, updates] = capture(mockHistoryDAO.updateHistory).last();
+      expect(id).toBe("existing");
+      expect(updates).toEqual({
+        description: "Compressor failure: Replaced relay",
+        cost: 300,
+        vendor_id: null,
+      });
+    });
+
+    it("should mark warranty work and skip tickets without an asset", async () => {
+      when(mockHistoryDAO.findByTicketId("ticket-1")).thenResolve([]);
+
+      await service.recordTicketWork(
+        { ...ticket, is_warranty_claim: true },
+        "user-1",
+      );
+      const result = await service.recordTicketWork(
+        { ...ticket, asset_id: null },
+        "user-1",
+      );
+
+      const [created] = capture(mockHistoryDAO.createHistory).last();
+      expect(created.maintenance_type).toBe("warranty_claim");
+      expect(result).toBeNull();
+      verify(mockHistoryDAO.createHistory(anything())).once();
+    });
+  });
+
+  describe("recordPMCompletion", () => {
+    it("should not duplicate an entry the PM ticket already has", async () => {
+      when(mockHistoryDAO.findByTicketId("ticket-1")).thenResolve([
+        entry("existing", { ticket_id: "ticket-1" }),
+      ]);
+
+      const result = await service.recordPMCompletion(
+        "asset-1",
+        "ticket-1",
+        "Quarterly coil clean",
+        "user-1",
+        new Date("2025-04-01T10:00:00Z"),
+      );
+
+      expect(result.id).toBe("existing");
+      verify(mockHistoryDAO.createHistory(anything())).never();
+    });
+  });
+
+  describe("recordTransfer", () => {
+    it("should describe the move", async () => {
+      await service.recordTransfer({
+        id: "transfer-1",
+        asset_id: "asset-1",
+        transferred_at: "2025-07-01T09:00:00Z",
+        reason: "Remodel",
+        from_location: { id: "location-1", name: "Downtown" },
+        to_location: { id: "location-2", name: "Uptown" },
+        transferred_by_user: { id: "user-1", full_name: "Sam Tech" },
+      } as AssetTransferWithRelations);
+
+      const [created] = capture(mockHistoryDAO.createHistory).last();
+      expect(created).toMatchObject({
+        maintenance_type: "transfer",
+        description: "Moved from Downtown to Uptown: Remodel",
+        performed_by: "Sam Tech",
+        performed_at: "2025-07-01T09:00:00Z",
+      });
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { instance, mock, when, anything, verify, capture } from "ts-mockito";
+import { AssetMeterService } from "../asset-meter.service";
+import { AssetMeterDAO } from "@/dao/asset-meter.dao";
+import { AssetMeterReadingDAO } from "@/dao/asset-meter-reading.dao";
+import { AssetDAO } from "@/dao/asset.dao";
+import { PMScheduleDAO } from "@/dao/pm-schedule.dao";
+import { PMScheduleService } from "../pm-schedule.service";
+import type { Database } from "@/types/database";
+import type {
+  AssetMeterRow,
+  AssetMeterReadingRow,
+} from "@/types/database-extensions";
+
+type PMSchedule = Database["public"]["Tables"]["pm_schedules"]["Row"];
+
+describe("AssetMeterService", () => {
+  let service: AssetMeterService;
+  let mockMeterDAO: AssetMeterDAO;
+  let mockReadingDAO: AssetMeterReadingDAO;
+  let mockAssetDAO: AssetDAO;
+  let mockScheduleDAO: PMScheduleDAO;
+  let mockPMScheduleService: PMScheduleService;
+
+  const meter: AssetMeterRow = {
+    id: "meter-1",
+    tenant_id: "tenant-1",
+    asset_id: "asset-1",
+    name: "Compressor runtime",
+    unit: "hours",
+    current_reading: 1000,
+    last_read_at: "2026-03-01T10:00:00Z",
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-03-01T10:00:00Z",
+    deleted_at: null,
+  };
+
+  beforeEach(() => {
+    mockMeterDAO = mock(AssetMeterDAO);
+    mockReadingDAO = mock(AssetMeterReadingDAO);
+    mockAssetDAO = mock(AssetDAO);
+    mockScheduleDAO = mock(PMScheduleDAO);
+    mockPMScheduleService = mock(PMScheduleService);
+
+    when(mockMeterDAO.findById("meter-1")).thenResolve(meter);
+    when(mockMeterDAO.update(anything(), anything())).thenCall(
+      async (_id: string, data: Partial<AssetMeterRow>) => ({
+        ...meter,
+        ...data,
+      }),
+    );
+    when(mockReadingDAO.create(anything())).thenCall(
+      async (data) => ({ id: "reading-1", ...data }) as AssetMeterReadingRow,
+    );
+    when(mockPMScheduleService.generateMeterTriggered(anything())).thenResolve(
+      [],
+    );
+
+    service = new AssetMeterService(
+      instance(mockMeterDAO),
+      instance(mockReadingDAO),
+      instance(mockAssetDAO),
+      instance(mockScheduleDAO),
+      instance(mockPMScheduleService),
+    );
+  });
+
+  describe("recordReading", () => {
+    it("should store the reading, update the meter and check PM triggers", async () => {
+      const result = await service.recordReading("meter-1", {
+        reading: 1250,
+        source: "qr",
+        recorded_by: "user-1",
+      });
+
+      expect(result.meter.current_reading).toBe(1250);
+      const [reading] = capture(mockReadingDAO.create).last();
+      expect(reading).toMatchObject({
+        meter_id: "meter-1",
+        reading: 1250,
+        source: "qr",
+        recorded_by: "user-1",
+      });
+      verify(mockPMScheduleService.generateMeterTriggered("meter-1")).once();
+    });
+
+    it("should reject a reading below the current reading", async () => {
+      await expect(
+        service.recordReading("meter-1", { reading: 900 }),
+      ).rejects.toThrow("reading is below the current 1000 hours");
+      verify(mockReadingDAO.create(anything())).never();
+    });
+
+    it("should keep the reading when PM generation fails", async () => {
+      when(mockPMScheduleService.generateMeterTriggered(anything())).thenReject(
+        new Error("Generation failed"),
+      );
+
+      const result = await service.recordReading("meter-1", { reading: 1100 });
+
+      expect(result.triggered).toEqual([]);
+      expect(result.reading.reading).toBe(1100);
+    });
+  });
+
+  describe("deleteMeter", () => {
+    it("should not delete a meter used by an active schedule", async () => {
+      when(mockScheduleDAO.findActiveMeterTriggered("meter-1")).thenResolve([
+        { id: "schedule-1" } as PMSchedule,
+      ]);
+
+      await expect(service.deleteMeter("meter-1")).rejects.toThrow(
+        "Cannot delete meter",
+      );
+      verify(mockMeterDAO.softDelete(anything())).never();
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { instance, mock, when, anything, verify, capture } from "ts-mockito";
+import {
+  AssetScoringService,
+  DEFAULT_ASSET_REPLACEMENT_POLICY,
+} from "../asset-scoring.service";
+import { AssetDAO, type AssetWithRelations } from "@/dao/asset.dao";
+import { AssetHistoryDAO } from "@/dao/asset-history.dao";
+import { AssetReplacementPolicyDAO } from "@/dao/asset-replacement-policy.dao";
+import { InvoiceDAO, type AssetInvoice } from "@/dao/invoice.dao";
+import type {
+  AssetHistoryRow,
+  AssetReplacementPolicyRow,
+} from "@/types/database-extensions";
+
+describe("AssetScoringService", () => {
+  let service: AssetScoringService;
+  let mockAssetDAO: AssetDAO;
+  let mockHistoryDAO: AssetHistoryDAO;
+  let mockInvoiceDAO: InvoiceDAO;
+  let mockPolicyDAO: AssetReplacementPolicyDAO;
+
+  const now = new Date("2026-03-25T12:00:00Z");
+  const policy = DEFAULT_ASSET_REPLACEMENT_POLICY;
+
+  const asset = (
+    id: string,
+    overrides: Partial<AssetWithRelations> = {},
+  ): AssetWithRelations =>
+    ({
+      id,
+      name: `Fryer ${id}`,
+      status: "active",
+      purchase_price: 4000,
+      purchase_date: "2023-03-01",
+      expected_lifespan_years: null,
+      category: { id: "cat-1", name: "Kitchen", default_lifespan_years: 8 },
+      location: { id: "location-1", name: "Downtown", address: null },
+      vendors: [],
+      ...overrides,
+    }) as AssetWithRelations;
+
+  const entry = (
+    id: string,
+    overrides: Partial<AssetHistoryRow> = {},
+  ): AssetHistoryRow => ({
+    id,
+    tenant_id: "tenant-1",
+    asset_id: "asset-1",
+    ticket_id: null,
+    maintenance_type: "repair",
+    description: null,
+    cost: null,
+    performed_by: null,
+    vendor_id: null,
+    performed_at: "2026-01-10T00:00:00Z",
+    ...overrides,
+  });
+
+  const invoice = (
+    ticketId: string,
+    total: number,
+    invoiceDate: string,
+  ): AssetInvoice => ({
+    id: `invoice-${ticketId}`,
+    ticket_id: ticketId,
+    vendor_id: "vendor-1",
+    total_amount: total,
+    invoice_date: invoiceDate,
+    vendor: { name: "Fry Fixers" },
+    ticket: { asset_id: "asset-1" },
+  });
+
+  beforeEach(() => {
+    mockAssetDAO = mock(AssetDAO);
+    mockHistoryDAO = mock(AssetHistoryDAO);
+    mockInvoiceDAO = mock(InvoiceDAO);
+    mockPolicyDAO = mock(AssetReplacementPolicyDAO);
+
+    service = new AssetScoringService(
+      instance(mockAssetDAO),
+      instance(mockHistoryDAO),
+      instance(mockInvoiceDAO),
+      instance(mockPolicyDAO),
+    );
+  });
+
+  describe("scoreAsset", () => {
+    it("should recommend replacing an asset whose repairs pass the threshold", () => {
+      const score = service.scoreAsset(
+        asset("asset-1"),
+        [
+          entry("repair", { ticket_id: "ticket-1", cost: 300 }),
+          entry("old", { cost: 200, performed_at: "2024-06-01T00:00:00Z" }),
+        ],
+        [invoice("ticket-1", 1800, "2026-01-15")],
+        policy,
+        now,
+      );
+
+      expect(score).toMatchObject({
+        repair_cost: 2000,
+        repair_share_percent: 50,
+        annual_repair_cost: 1800,
+        failures: 1,
+        flags: ["repair_cost"],
+        recommendation: "replace",
+        payback_years: 2.2,
+      });
+      expect(score.reasons).toEqual([
+        "Repairs have cost 50% of the purchase price",
+      ]);
+    });
+
+    it("should leave PM work and its invoices out of repair spend", () => {
+      const score = service.scoreAsset(
+        asset("asset-1"),
+        [
+          entry("pm", {
+            ticket_id: "ticket-pm",
+            maintenance_type: "preventive",
+            cost: 150,
+          }),
+          entry("moved", { maintenance_type: "transfer", cost: 999 }),
+        ],
+        [invoice("ticket-pm", 2500, "2026-01-15")],
+        policy,
+        now,
+      );
+
+      expect(score.repair_cost).toBe(0);
+      expect(score.failures).toBe(0);
+      expect(score.flags).toEqual([]);
+      expect(score.payback_years).toBeNull();
+    });
+
+    it("should count failures within the window only", () => {
+      const score = service.scoreAsset(
+        asset("asset-1", { purchase_price: null }),
+        [
+          entry("a", { performed_at: "2026-03-01T00:00:00Z" }),
+          entry("b", {
+            maintenance_type: "warranty_claim",
+            performed_at: "2025-11-01T00:00:00Z",
+          }),
+          entry("c", {
+            maintenance_type: "replacement",
+            performed_at: "2025-06-01T00:00:00Z",
+          }),
+          entry("too-old", { performed_at: "2025-01-01T00:00:00Z" }),
+          entry("inspection", { maintenance_type: "inspection" }),
+        ],
+        [],
+        policy,
+        now,
+      );
+
+      expect(score.failures).toBe(3);
+      expect(score.flags).toEqual(["failures"]);
+      expect(score.recommendation).toBe("repair");
+      expect(score.repair_share_percent).toBeNull();
+    });
+
+    it("should flag assets past the category's lifespan unless turned off", () => {
+      const old = asset("asset-1", { purchase_date: "2016-01-01" });
+
+      const flagged = service.scoreAsset(old, [], [], policy, now);
+      const ignored = service.scoreAsset(
+        old,
+        [],
+        [],
+        { ...policy, flag_past_lifespan: false },
+        now,
+      );
+
+      expect(flagged.flags).toEqual(["past_lifespan"]);
+      expect(flagged.lifespan_years).toBe(8);
+      expect(flagged.reasons).toEqual([
+        "10 years old, past its 8-year lifespan",
+      ]);
+      expect(ignored.flags).toEqual([]);
+    });
+
+    it("should score 0 to 100 from how close each measure is to its threshold", () => {
+      const score = service.scoreAsset(
+        asset("asset-1", {
+          purchase_date: "2022-03-25",
+          expected_lifespan_years: 16,
+        }),
+        [entry("a", { cost: 1000 })],
+        [],
+        policy,
+        now,
+      );
+
+      // failures 1/3, repairs 25%/50%, age 4/16
+      expect(score.score).toBe(36);
+    });
+  });
+
+  describe("getProblemAssets", () => {
+    it("should return flagged in-service assets, most flags first", async () => {
+      when(mockPolicyDAO.findCurrent()).thenResolve(null);
+      when(mockAssetDAO.findWithRelations()).thenResolve([
+        asset("asset-1"),
+        asset("asset-2", { purchase_date: "2010-01-01" }),
+        asset("asset-3"),
+        asset("asset-4", { status: "retired", purchase_date: "2000-01-01" }),
+      ]);
+      when(mockHistoryDAO.findByAssetIds(anything())).thenResolve([
+        entry("a", { asset_id: "asset-2", cost: 2500 }),
+        entry("b", { asset_id: "asset-1", cost: 100 }),
+        entry("c", { asset_id: "asset-1", cost: 100 }),
+        entry("d", { asset_id: "asset-1", cost: 100 }),
+      ]);
+      when(mockInvoiceDAO.findApprovedByAssets(anything())).thenResolve([]);
+
+      const problems = await service.getProblemAssets();
+
+      expect(problems.map((p) => [p.asset_id, p.flags])).toEqual([
+        ["asset-2", ["repair_cost", "past_lifespan"]],
+        ["asset-1", ["failures"]],
+      ]);
+      const [assetIds] = capture(mockHistoryDAO.findByAssetIds).last();
+      expect(assetIds).toEqual(["asset-1", "asset-2", "asset-3"]);
+    });
+  });
+
+  describe("updatePolicy", () => {
+    it("should update the saved policy rather than add another", async () => {
+      when(mockPolicyDAO.findCurrent()).thenResolve({
+        id: "policy-1",
+      } as AssetReplacementPolicyRow);
+
+      await service.updatePolicy({ ...policy, repair_cost_percent: 40 });
+
+      verify(mockPolicyDAO.update("policy-1", anything())).once();
+      verify(mockPolicyDAO.create(anything())).never();
+    });
+
+    it("should reject thresholds that can never flag anything", async () => {
+      await expect(
+        service.updatePolicy({ ...policy, failure_threshold: 0 }),
+      ).rejects.toThrow(/^Thresholds must be above zero/);
+    });
+  });
+});
@@ -0,0 +1,363 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { instance, mock, when, anything, verify, capture } from "ts-mockito";
+import { ComplianceAlertService } from "../compliance-alert.service";
+import { NotificationOutboxService } from "../notification-outbox.service";
+import { ComplianceAlertDAO } from "@/dao/compliance-alert.dao";
+import { ComplianceDocumentDAO } from "@/dao/compliance-document.dao";
+import { ComplianceDocumentTypeDAO } from "@/dao/compliance-document-type.dao";
+import { LocationDAO } from "@/dao/location.dao";
+import { UserDAO } from "@/dao/user.dao";
+import type { Database, UserRole } from "@/types/database";
+import type {
+  ComplianceAlertRow,
+  ComplianceDocumentTypeRow,
+} from "@/types/database-extensions";
+
+type ComplianceDocument =
+  Database["public"]["Tables"]["compliance_documents"]["Row"];
+type Location = Database["public"]["Tables"]["locations"]["Row"];
+type User = Database["public"]["Tables"]["users"]["Row"];
+
+describe("ComplianceAlertService", () => {
+  let service: ComplianceAlertService;
+  let mockAlertDAO: ComplianceAlertDAO;
+  let mockDocumentDAO: ComplianceDocumentDAO;
+  let mockTypeDAO: ComplianceDocumentTypeDAO;
+  let mockLocationDAO: LocationDAO;
+  let mockUserDAO: UserDAO;
+  let mockOutboxService: NotificationOutboxService;
+
+  const now = new Date("2026-03-16T08:00:00Z");
+  const today = "2026-03-16";
+
+  const user = (id: string, role: UserRole): User =>
+    ({ id, role, email: `${id}@example.com`, is_active: true }) as User;
+
+  const manager = user("manager-1", "manager");
+  const admin = user("admin-1", "admin");
+  const owner = user("owner-1", "super_admin");
+
+  const document = (
+    id: string,
+    expirationDate: string,
+    overrides: Partial<ComplianceDocument> = {},
+  ): ComplianceDocument =>
+    ({
+      id,
+      name: `Document ${id}`,
+      document_type_id: "type-1",
+      location_id: "location-1",
+      location_ids: null,
+      expiration_date: expirationDate,
+      alert_days: null,
+      ...overrides,
+    }) as ComplianceDocument;
+
+  const sentAlert = (
+    documentId: string,
+    alertType: string,
+    expirationDate: string,
+    alertDate = "2026-03-01",
+  ): ComplianceAlertRow =>
+    ({
+      id: `alert-${documentId}-${alertType}`,
+      document_id: documentId,
+      alert_type: alertType,
+      expiration_date: expirationDate,
+      alert_date: alertDate,
+    }) as ComplianceAlertRow;
+
+  const givenDocuments = (...documents: ComplianceDocument[]) =>
+    when(mockDocumentDAO.findExpiringBy(anything())).thenResolve(documents);
+
+  const lastEnqueued = () =>
+    capture(mockOutboxService.enqueue<"compliance_expiring">).last();
+
+  const givenHistory = (...alerts: ComplianceAlertRow[]) =>
+    when(mockAlertDAO.findByDocuments(anything())).thenResolve(alerts);
+
+  beforeEach(() => {
+    mockAlertDAO = mock(ComplianceAlertDAO);
+    mockDocumentDAO = mock(ComplianceDocumentDAO);
+    mockTypeDAO = mock(ComplianceDocumentTypeDAO);
+    mockLocationDAO = mock(LocationDAO);
+    mockUserDAO = mock(UserDAO);
+    mockOutboxService = mock(NotificationOutboxService);
+
+    when(mockTypeDAO.findAll()).thenResolve([
+      { id: "type-1", default_alert_days: [30, 7] },
+    ] as ComplianceDocumentTypeRow[]);
+    when(mockLocationDAO.findAll()).thenResolve([
+      { id: "location-1", manager_id: "manager-1" },
+      { id: "location-2", manager_id: null },
+    ] as Location[]);
+    when(mockUserDAO.findByRole("admin")).thenResolve([admin]);
+    when(mockUserDAO.findByRole("super_admin")).thenResolve([owner]);
+    when(mockUserDAO.findByIds(anything())).thenResolve([manager]);
+    when(mockAlertDAO.create(anything())).thenResolve({
+      id: "alert-1",
+    } as ComplianceAlertRow);
+    when(mockAlertDAO.delete(anything())).thenResolve();
+    givenHistory();
+
+    service = new ComplianceAlertService(
+      instance(mockAlertDAO),
+      instance(mockDocumentDAO),
+      instance(mockTypeDAO),
+      instance(mockLocationDAO),
+      instance(mockUserDAO),
+      instance(mockOutboxService),
+    );
+  });
+
+  describe("getDueAlert", () => {
+    const alertDays = [90, 30, 7];
+
+    it("should send the nearest threshold that has been crossed", () => {
+      const due = (expirationDate: string) =>
+        service.getDueAlert(
+          { expiration_date: expirationDate },
+          alertDays,
+          today,
+        );
+
+      expect(due("2026-06-30")).toBeNull();
+      expect(due("2026-06-14")).toEqual({
+        alert_type: "90_day",
+        days_until_expiration: 90,
+      });
+      // A day after the 30-day mark still sends the 30-day alert
+      expect(due("2026-04-14")?.alert_type).toBe("30_day");
+      expect(due("2026-03-17")?.alert_type).toBe("7_day");
+      expect(due("2026-03-16")).toEqual({
+        alert_type: "expired",
+        days_until_expiration: 0,
+      });
+    });
+  });
+
+  describe("getAlertDays", () => {
+    it("should prefer the document's own alert days over its type's", () => {
+      const type = { default_alert_days: [60, 14] };
+
+      expect(service.getAlertDays({ alert_days: [45] }, type)).toEqual([45]);
+      expect(service.getAlertDays({ alert_days: null }, type)).toEqual([
+        60, 14,
+      ]);
+      expect(service.getAlertDays({ alert_days: [] })).toEqual([
+        90, 60, 30, 14, 7,
+      ]);
+    });
+  });
+
+  describe("runScheduledAlerts", () => {
+    it("should alert the location manager and record the send", async () => {
+      givenDocuments(document("doc-1", "2026-04-15"));
+
+      const run = await service.runScheduledAlerts(now);
+
+      expect(run.sent).toHaveLength(1);
+      expect(run.sent[0]).toMatchObject({
+        alert_type: "30_day",
+        recipient_level: "manager",
+      });
+
+      const [event, payload] = lastEnqueued();
+      expect(event).toBe("compliance_expiring");
+      expect(payload).toEqual({
+        document_id: "doc-1",
+        days_until_expiration: 30,
+        recipient_ids: ["manager-1"],
+      });
+
+      const [alert] = capture(mockAlertDAO.create).last();
+      expect(alert).toMatchObject({
+        document_id: "doc-1",
+        alert_type: "30_day",
+        sent_to: ["manager-1"],
+        expiration_date: "2026-04-15",
+        alert_date: today,
+        recipient_level: "manager",
+      });
+    });
+
+    it("should send each threshold only once per expiration date", async () => {
+      givenDocuments(
+        document("doc-1", "2026-04-10"),
+        document("renewed", "2026-04-10"),
+      );
+      givenHistory(
+        sentAlert("doc-1", "30_day", "2026-04-10"),
+        // Sent for the previous expiration date
+        sentAlert("renewed", "30_day", "2025-04-10"),
+      );
+
+      const run = await service.runScheduledAlerts(now);
+
+      expect(run.sent.map((alert) => alert.document_id)).toEqual(["renewed"]);
+    });
+
+    it("should alert daily once expired, escalating to the owner", async () => {
+      givenDocuments(
+        document("expired", "2026-03-10"),
+        document("sent-today", "2026-03-10"),
+      );
+      givenHistory(
+        sentAlert("expired", "expired", "2026-03-10", "2026-03-15"),
+        sentAlert("sent-today", "expired", "2026-03-10", today),
+      );
+
+      const run = await service.runScheduledAlerts(now);
+
+      expect(run.sent).toHaveLength(1);
+      expect(run.sent[0]).toMatchObject({
+        document_id: "expired",
+        alert_type: "expired",
+        recipient_level: "owner",
+      });
+      const [, payload] = lastEnqueued();
+      expect(payload.recipient_ids).toEqual([
+        "manager-1",
+        "admin-1",
+        "owner-1",
+      ]);
+    });
+
+    it("should add admins two weeks out", async () => {
+      givenDocuments(document("doc-1", "2026-03-26"));
+
+      const run = await service.runScheduledAlerts(now);
+
+      expect(run.sent[0].recipient_level).toBe("admin");
+      const [, payload] = lastEnqueued();
+      expect(payload.recipient_ids).toEqual(["manager-1", "admin-1"]);
+    });
+
+    it("should fall back to admins when no location has a manager", async () => {
+      when(mockUserDAO.findByIds(anything())).thenResolve([]);
+      givenDocuments(
+        document("doc-1", "2026-04-15", {
+          location_id: null,
+          location_ids: ["location-2"],
+        }),
+      );
+
+      await service.runScheduledAlerts(now);
+
+      const [, payload] = lastEnqueued();
+      expect(payload.recipient_ids).toEqual(["admin-1"]);
+    });
+
+    it("should not queue an alert another run already recorded", async () => {
+      givenDocuments(document("doc-1", "2026-04-15"));
+      when(mockAlertDAO.create(anything())).thenResolve(null);
+
+      const run = await service.runScheduledAlerts(now);
+
+      expect(run.sent).toEqual([]);
+      expect(run.errors).toEqual([]);
+      verify(mockOutboxService.enqueue(anything(), anything())).never();
+    });
+
+    it("should remove the record of an alert that failed to queue", async () => {
+      givenDocuments(document("doc-1", "2026-04-15"));
+      when(mockOutboxService.enqueue(anything(), anything())).thenReject(
+        new Error("Outbox unavailable"),
+      );
+
+      const run = await service.runScheduledAlerts(now);
+
+      expect(run.sent).toEqual([]);
+      expect(run.errors).toEqual([
+        { document_id: "doc-1", error: "Outbox unavailable" },
+      ]);
+      verify(mockAlertDAO.delete("alert-1")).once();
+    });
+  });
+
+  describe("runReinspectionReminders", () => {
+    const failed = (id: string, reinspectionDate: string) =>
+      document(id, "2027-01-01", {
+        status: "failed_inspection",
+        failed_inspection_date: "2026-03-01",
+        reinspection_date: reinspectionDate,
+      });
+
+    const reminderSent = (
+      documentId: string,
+      alertType: string,
+      reinspectionDate: string,
+      alertDate = "2026-03-10",
+    ) =>
+      ({
+        ...sentAlert(documentId, alertType, "2027-01-01", alertDate),
+        reinspection_date: reinspectionDate,
+      }) as ComplianceAlertRow;
+
+    it("should count down to the reinspection date", () => {
+      const due = (reinspectionDate: string) =>
+        service.getDueReinspectionReminder(
+          { reinspection_date: reinspectionDate },
+          today,
+        );
+
+      expect(due("2026-03-30")).toBeNull();
+      expect(due("2026-03-23")?.alert_type).toBe("reinspection_7_day");
+      expect(due("2026-03-18")?.alert_type).toBe("reinspection_3_day");
+      expect(due("2026-03-14")).toEqual({
+        alert_type: "reinspection_due",
+        days_until_reinspection: -2,
+      });
+    });
+
+    it("should queue a reminder and record it against the reinspection date", async () => {
+      when(mockDocumentDAO.findFailedInspection()).thenResolve([
+        failed("doc-1", "2026-03-19"),
+        // Cleared documents keep their failed_inspection_date until renewed
+        document("cleared", "2027-01-01", {
+          status: "active",
+          reinspection_date: "2026-03-19",
+        }),
+      ]);
+
+      const run = await service.runReinspectionReminders(now);
+
+      expect(run.checked).toBe(1);
+      const [event, payload] = capture(
+        mockOutboxService.enqueue<"compliance_reinspection_due">,
+      ).last();
+      expect(event).toBe("compliance_reinspection_due");
+      expect(payload).toEqual({
+        document_id: "doc-1",
+        days_until_reinspection: 3,
+        recipient_ids: ["manager-1", "admin-1"],
+      });
+
+      const [alert] = capture(mockAlertDAO.create).last();
+      expect(alert).toMatchObject({
+        alert_type: "reinspection_3_day",
+        reinspection_date: "2026-03-19",
+        alert_date: today,
+      });
+    });
+
+    it("should restart the countdown when the reinspection is rescheduled", async () => {
+      when(mockDocumentDAO.findFailedInspection()).thenResolve([
+        failed("sent", "2026-03-19"),
+        failed("rescheduled", "2026-03-19"),
+        failed("due-today", "2026-03-16"),
+      ]);
+      givenHistory(
+        reminderSent("sent", "reinspection_3_day", "2026-03-19"),
+        reminderSent("rescheduled", "reinspection_3_day", "2026-03-12"),
+        reminderSent("due-today", "reinspection_due", "2026-03-16", today),
+      );
+
+      const run = await service.runReinspectionReminders(now);
+
+      expect(run.sent.map((alert) => alert.document_id)).toEqual([
+        "rescheduled",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import JSZip from "jszip";
+import { instance, mock, when, anything, verify, capture } from "ts-mockito";
+import { ComplianceAuditPackageService } from "../compliance-audit-package.service";
+import { LocationDAO } from "@/dao/location.dao";
+import { ComplianceDocumentDAO } from "@/dao/compliance-document.dao";
+import { ComplianceDocumentTypeDAO } from "@/dao/compliance-document-type.dao";
+import { ComplianceDocumentVersionDAO } from "@/dao/compliance-document-version.dao";
+import {
+  PMCompletionDAO,
+  type PMCompletionWithSchedule,
+} from "@/dao/pm-completion.dao";
+import { TicketDAO } from "@/dao/ticket.dao";
+import { StorageIAO } from "@/iao/storage";
+import type { Database } from "@/types/database";
+import type { ComplianceDocumentVersionRow } from "@/types/database-extensions";
+
+type ComplianceDocument =
+  Database["public"]["Tables"]["compliance_documents"]["Row"];
+type Location = Database["public"]["Tables"]["locations"]["Row"];
+type Ticket = Database["public"]["Tables"]["tickets"]["Row"];
+
+describe("ComplianceAuditPackageService", () => {
+  let service: ComplianceAuditPackageService;
+  let mockLocationDAO: LocationDAO;
+  let mockComplianceDAO: ComplianceDocumentDAO;
+  let mockVersionDAO: ComplianceDocumentVersionDAO;
+  let mockPMCompletionDAO: PMCompletionDAO;
+  let mockTicketDAO: TicketDAO;
+  let mockStorageIAO: StorageIAO;
+
+  const permit = {
+    id: "doc-00001",
+    name: "Health Permit",
+    document_type_id: null,
+    status: "active",
+    issue_date: "2026-01-01",
+    expiration_date: "2027-01-01",
+    file_path: "tenant-1/doc-00001/permit-2026.pdf",
+  } as ComplianceDocument;
+
+  const version = (
+    versionNumber: number,
+    createdAt: string,
+    expirationDate: string | null,
+  ): ComplianceDocumentVersionRow =>
+    ({
+      id: `version-${versionNumber}`,
+      document_id: "doc-00001",
+      file_path: `tenant-1/doc-00001/permit-v${versionNumber}.pdf`,
+      version_number: versionNumber,
+      issue_date: null,
+      expiration_date: expirationDate,
+      created_at: createdAt,
+    }) as ComplianceDocumentVersionRow;
+
+  const completion = (id: string, locationId: string | null) =>
+    ({
+      id,
+      completed_date: "2026-02-01",
+      checklist_results: { items: [{ item_id: "a", passed: true }] },
+      schedule: {
+        id: "schedule-1",
+        name: "Hood cleaning",
+        location_id: locationId,
+        asset: null,
+        template: { name: "Hood Cleaning", category: "hood_cleaning" },
+      },
+      completed_by_user: null,
+    }) as unknown as PMCompletionWithSchedule;
+
+  beforeEach(() => {
+    mockLocationDAO = mock(LocationDAO);
+    mockComplianceDAO = mock(ComplianceDocumentDAO);
+    const mockTypeDAO = mock(ComplianceDocumentTypeDAO);
+    mockVersionDAO = mock(ComplianceDocumentVersionDAO);
+    mockPMCompletionDAO = mock(PMCompletionDAO);
+    mockTicketDAO = mock(TicketDAO);
+    mockStorageIAO = mock(StorageIAO);
+
+    when(mockLocationDAO.findById("location-1")).thenResolve({
+      id: "location-1",
+      tenant_id: "tenant-1",
+      name: "Main Street",
+    } as Location);
+    when(mockComplianceDAO.findByLocation("location-1")).thenResolve([permit]);
+    when(mockTypeDAO.findAll()).thenResolve([]);
+    when(mockVersionDAO.findByDocumentIds(anything())).thenResolve([
+      version(1, "2025-01-05T00:00:00Z", "2026-01-01"),
+    ]);
+    when(
+      mockPMCompletionDAO.findCompletedByCategories(
+        anything(),
+        "location-1",
+        anything(),
+        anything(),
+      ),
+    ).thenResolve([completion("here", "location-1")]);
+    when(mockTicketDAO.findByComplianceDocuments(anything())).thenResolve([
+      {
+        id: "ticket-1",
+        ticket_number: 42,
+        title: "Replace hood filter",
+        status: "completed",
+        compliance_document_id: "doc-00001",
+        created_at: "2026-02-10T00:00:00Z",
+        completed_at: "2026-02-12T00:00:00Z",
+      } as Ticket,
+    ]);
+    when(mockStorageIAO.download(anything(), anything())).thenResolve(
+      new TextEncoder().encode("%PDF").buffer as ArrayBuffer,
+    );
+    when(
+      mockStorageIAO.createSignedUrl(anything(), anything(), anything()),
+    ).thenResolve("https://storage.example.com/signed");
+
+    service = new ComplianceAuditPackageService(
+      instance(mockLocationDAO),
+      instance(mockComplianceDAO),
+      instance(mockTypeDAO),
+      instance(mockVersionDAO),
+      instance(mockPMCompletionDAO),
+      instance(mockTicketDAO),
+      instance(mockStorageIAO),
+    );
+  });
+
+  describe("getPackageFiles", () => {
+    it("should include versions in effect during the range", () => {
+      const files = service.getPackageFiles(
+        [permit],
+        [
+          version(1, "2024-01-05T00:00:00Z", "2025-01-01"),
+          version(2, "2025-01-05T00:00:00Z", "2026-01-01"),
+          version(3, "2026-06-05T00:00:00Z", "2027-06-01"),
+        ],
+        "2025-06-01",
+        "2026-03-31",
+      );
+
+      expect(files.map((f) => f.version)).toEqual([2, null]);
+      expect(files.map((f) => f.zip_path)).toEqual([
+        "documents/health-permit-doc-0000/v2-permit-v2.pdf",
+        "documents/health-permit-doc-0000/current-permit-2026.pdf",
+      ]);
+    });
+
+    it("should not repeat a current file that is also a version", () => {
+      const files = service.getPackageFiles(
+        [{ ...permit, file_path: "tenant-1/doc-00001/permit-v1.pdf" }],
+        [version(1, "2025-01-05T00:00:00Z", "2027-01-01")],
+        "2025-06-01",
+        "2026-03-31",
+      );
+
+      expect(files.map((f) => f.version)).toEqual([1]);
+    });
+  });
+
+  describe("generatePackage", () => {
+    it("should zip the files with an index and return a signed link", async () => {
+      const result = await service.generatePackage(
+        "location-1",
+        "2025-06-01",
+        "2026-03-31",
+      );
+
+      expect(result).toMatchObject({
+        url: "https://storage.example.com/signed",
+        documents: 1,
+        files: 2,
+        missing_files: [],
+        pm_completions: 1,
+        tickets: 1,
+      });
+
+      const [bucket, path, content, contentType] = capture(
+        mockStorageIAO.upload,
+      ).last();
+      expect(bucket).toBe("compliance-exports");
+      expect(path).toMatch(
+        /^tenant-1\/location-1\/\d+-audit-main-street-2025-06-01-to-2026-03-31\.zip$/,
+      );
+
+      expect(contentType).toBe("application/zip");
+
+      const zip = await JSZip.loadAsync(content);
+      expect(Object.keys(zip.files).sort()).toEqual([
+        "documents/",
+        "documents/health-permit-doc-0000/",
+        "documents/health-permit-doc-0000/current-permit-2026.pdf",
+        "documents/health-permit-doc-0000/v1-permit-v1.pdf",
+        "index.pdf",
+      ]);
+    });
+
+    it("should list files missing from storage instead of failing", async () => {
+      when(
+        mockStorageIAO.download(anything(), "tenant-1/doc-00001/permit-v1.pdf"),
+      ).thenReject(new Error("Object not found"));
+
+      const result = await service.generatePackage(
+        "location-1",
+        "2025-06-01",
+        "2026-03-31",
+      );
+
+      expect(result.files).toBe(1);
+      expect(result.missing_files).toEqual([
+        "documents/health-permit-doc-0000/v1-permit-v1.pdf",
+      ]);
+    });
+
+    it("should reject a range that ends before it starts", async () => {
+      await expect(
+        service.generatePackage("location-1", "2026-03-31", "2025-06-01"),
+      ).rejects.toThrow("Cannot export a date range");
+      verify(
+        mockStorageIAO.upload(anything(), anything(), anything(), anything()),
+      ).never();
+    });
+  });
+});
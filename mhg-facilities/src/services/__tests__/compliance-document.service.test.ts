@@ -0,0 +1,352 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  instance,
+  mock,
+  when,
+  anything,
+  verify,
+  capture,
+  deepEqual,
+} from "ts-mockito";
+import { ComplianceDocumentService } from "../compliance-document.service";
+import { TicketService } from "../ticket.service";
+import { ComplianceDocumentDAO } from "@/dao/compliance-document.dao";
+import { ComplianceDocumentTypeDAO } from "@/dao/compliance-document-type.dao";
+import { ComplianceStatusHistoryDAO } from "@/dao/compliance-status-history.dao";
+import { LocationDAO } from "@/dao/location.dao";
+import {
+  ComplianceCorrectiveActionDAO,
+  type ComplianceCorrectiveActionWithTicket,
+} from "@/dao/compliance-corrective-action.dao";
+import type { Database, TicketStatus } from "@/types/database";
+import type {
+  ComplianceCorrectiveActionRow,
+  ComplianceDocumentTypeRow,
+  ComplianceStatusHistoryRow,
+} from "@/types/database-extensions";
+
+type ComplianceDocument =
+  Database["public"]["Tables"]["compliance_documents"]["Row"];
+type Ticket = Database["public"]["Tables"]["tickets"]["Row"];
+
+describe("ComplianceDocumentService", () => {
+  let service: ComplianceDocumentService;
+  let mockComplianceDAO: ComplianceDocumentDAO;
+  let mockTypeDAO: ComplianceDocumentTypeDAO;
+  let mockHistoryDAO: ComplianceStatusHistoryDAO;
+  let mockActionDAO: ComplianceCorrectiveActionDAO;
+  let mockTicketService: TicketService;
+
+  const now = new Date("2026-03-16T07:00:00Z");
+
+  const document = (
+    id: string,
+    overrides: Partial<ComplianceDocument> = {},
+  ): ComplianceDocument =>
+    ({
+      id,
+      name: `Document ${id}`,
+      document_type_id: null,
+      status: "active",
+      expiration_date: "2027-01-01",
+      is_conditional: false,
+      conditional_deadline: null,
+      conditional_deadline_missed_at: null,
+      failed_inspection_date: null,
+      reinspection_date: null,
+      reinspection_missed_at: null,
+      ...overrides,
+    }) as ComplianceDocument;
+
+  const givenDocuments = (...documents: ComplianceDocument[]) =>
+    when(mockComplianceDAO.findAll()).thenResolve(documents);
+
+  beforeEach(() => {
+    mockComplianceDAO = mock(ComplianceDocumentDAO);
+    mockTypeDAO = mock(ComplianceDocumentTypeDAO);
+    mockHistoryDAO = mock(ComplianceStatusHistoryDAO);
+    mockActionDAO = mock(ComplianceCorrectiveActionDAO);
+    mockTicketService = mock(TicketService);
+
+    when(mockTypeDAO.findAll()).thenResolve([
+      { id: "type-60", expiring_soon_days: 60 },
+    ] as ComplianceDocumentTypeRow[]);
+    when(mockComplianceDAO.update(anything(), anything())).thenResolve(
+      {} as ComplianceDocument,
+    );
+    when(mockHistoryDAO.create(anything())).thenResolve(
+      {} as ComplianceStatusHistoryRow,
+    );
+
+    service = new ComplianceDocumentService(
+      instance(mockComplianceDAO),
+      instance(mockTypeDAO),
+      instance(mock(LocationDAO)),
+      instance(mockHistoryDAO),
+      instance(mockActionDAO),
+      instance(mockTicketService),
+    );
+  });
+
+  describe("getDateStatus", () => {
+    it("should keep documents valid through their expiration date", () => {
+      const status = (date: string) =>
+        service.getDateStatus(date, 30, "2026-03-16");
+
+      expect(status("2026-05-01")).toBe("active");
+      expect(status("2026-04-15")).toBe("expiring_soon");
+      expect(status("2026-03-16")).toBe("expiring_soon");
+      expect(status("2026-03-15")).toBe("expired");
+    });
+  });
+
+  describe("reconcileStatuses", () => {
+    it("should move documents by expiration date and log each change", async () => {
+      givenDocuments(
+        document("expired", { expiration_date: "2026-03-01" }),
+        document("soon", { expiration_date: "2026-04-01" }),
+        document("renewed", {
+          status: "expired",
+          expiration_date: "2027-03-01",
+        }),
+        document("unchanged", { expiration_date: "2027-03-01" }),
+      );
+
+      const result = await service.reconcileStatuses(now);
+
+      expect(
+        result.transitions.map((t) => [t.document_id, t.to_status]),
+      ).toEqual([
+        ["expired", "expired"],
+        ["soon", "expiring_soon"],
+        ["renewed", "active"],
+      ]);
+      verify(
+        mockComplianceDAO.update("expired", deepEqual({ status: "expired" })),
+      ).once();
+      verify(mockComplianceDAO.update("unchanged", anything())).never();
+
+      const [entry] = capture(mockHistoryDAO.create).first();
+      expect(entry).toMatchObject({
+        document_id: "expired",
+        from_status: "active",
+        to_status: "expired",
+        reason: "expired",
+        is_automatic: true,
+      });
+      verify(mockHistoryDAO.create(anything())).times(3);
+    });
+
+    it("should use the document type's expiring-soon window", async () => {
+      givenDocuments(
+        document("typed", {
+          document_type_id: "type-60",
+          expiration_date: "2026-05-01",
+        }),
+        document("untyped", { expiration_date: "2026-05-01" }),
+      );
+
+      const result = await service.reconcileStatuses(now);
+
+      expect(result.transitions.map((t) => t.document_id)).toEqual(["typed"]);
+    });
+
+    it("should leave statuses people set alone", async () => {
+      givenDocuments(
+        document("pending", {
+          status: "pending_renewal",
+          expiration_date: "2026-03-01",
+        }),
+        document("suspended", {
+          status: "suspended",
+          expiration_date: "2026-03-01",
+        }),
+      );
+
+      const result = await service.reconcileStatuses(now);
+
+      expect(result.transitions).toEqual([]);
+      verify(mockComplianceDAO.update(anything(), anything())).never();
+    });
+
+    it("should flag missed deadlines once", async () => {
+      givenDocuments(
+        document("conditional", {
+          status: "conditional",
+          is_conditional: true,
+          conditional_deadline: "2026-03-10",
+        }),
+        document("reinspection", {
+          status: "failed_inspection",
+          failed_inspection_date: "2026-02-01",
+          reinspection_date: "2026-03-15",
+        }),
+        document("already-flagged", {
+          status: "conditional",
+          is_conditional: true,
+          conditional_deadline: "2026-03-10",
+          conditional_deadline_missed_at: "2026-03-11T07:00:00Z",
+        }),
+      );
+
+      const result = await service.reconcileStatuses(now);
+
+      expect(result.transitions.map((t) => [t.document_id, t.reason])).toEqual([
+        ["conditional", "conditional_deadline_missed"],
+        ["reinspection", "reinspection_missed"],
+      ]);
+      verify(
+        mockComplianceDAO.update(
+          "conditional",
+          deepEqual({ conditional_deadline_missed_at: now.toISOString() }),
+        ),
+      ).once();
+      // The flag doesn't change the status
+      expect(result.transitions[0].to_status).toBe("conditional");
+    });
+
+    it("should carry on past a document that fails to update", async () => {
+      givenDocuments(
+        document("broken", { expiration_date: "2026-03-01" }),
+        document("fine", { expiration_date: "2026-03-01" }),
+      );
+      when(mockComplianceDAO.update("broken", anything())).thenReject(
+        new Error("Update failed"),
+      );
+
+      const result = await service.reconcileStatuses(now);
+
+      expect(result.errors).toEqual([
+        { document_id: "broken", error: "Update failed" },
+      ]);
+      expect(result.transitions.map((t) => t.document_id)).toEqual(["fine"]);
+    });
+  });
+
+  describe("markAsFailedInspection", () => {
+    beforeEach(() => {
+      let ticketCount = 0;
+      when(mockTicketService.createTicket(anything())).thenCall(async () => {
+        ticketCount += 1;
+        return { id: `ticket-${ticketCount}` } as Ticket;
+      });
+      when(mockActionDAO.create(anything())).thenResolve(
+        {} as ComplianceCorrectiveActionRow,
+      );
+    });
+
+    it("should raise a ticket at the document's location for each action", async () => {
+      when(mockComplianceDAO.findById("doc-1")).thenResolve(
+        document("doc-1", { location_id: null, location_ids: ["location-2"] }),
+      );
+
+      await service.markAsFailedInspection(
+        "doc-1",
+        ["Replace hood filters", "Re-tag extinguishers"],
+        "2026-04-01",
+        "user-1",
+      );
+
+      const [, update] = capture(mockComplianceDAO.update).last();
+      expect(update).toMatchObject({
+        status: "failed_inspection",
+        corrective_action_required:
+          "Replace hood filters\nRe-tag extinguishers",
+        reinspection_date: "2026-04-01",
+      });
+
+      verify(mockTicketService.createTicket(anything())).twice();
+      const [ticket] = capture(mockTicketService.createTicket).first();
+      expect(ticket).toMatchObject({
+        title: "Corrective action: Replace hood filters",
+        location_id: "location-2",
+        priority: "high",
+        submitted_by: "user-1",
+        due_date: "2026-04-01",
+        compliance_document_id: "doc-1",
+      });
+
+      const [action] = capture(mockActionDAO.create).second();
+      expect(action).toEqual({
+        document_id: "doc-1",
+        description: "Re-tag extinguishers",
+        sort_order: 1,
+        ticket_id: "ticket-2",
+        created_by: "user-1",
+      });
+    });
+
+    it("should reject documents without a location", async () => {
+      when(mockComplianceDAO.findById("doc-1")).thenResolve(
+        document("doc-1", { location_id: null, location_ids: null }),
+      );
+
+      await expect(
+        service.markAsFailedInspection(
+          "doc-1",
+          ["Fix it"],
+          "2026-04-01",
+          "user-1",
+        ),
+      ).rejects.toThrow(/^Cannot/);
+      verify(mockComplianceDAO.update(anything(), anything())).never();
+    });
+
+    it("should leave the document unchanged when a ticket cannot be created", async () => {
+      when(mockComplianceDAO.findById("doc-1")).thenResolve(
+        document("doc-1", { location_id: "location-1" }),
+      );
+      when(mockTicketService.createTicket(anything())).thenReject(
+        new Error("Location not found"),
+      );
+
+      await expect(
+        service.markAsFailedInspection(
+          "doc-1",
+          ["Replace hood filters"],
+          "2026-04-01",
+          "user-1",
+        ),
+      ).rejects.toThrow("Location not found");
+      verify(mockComplianceDAO.update(anything(), anything())).never();
+    });
+  });
+
+  describe("clearFailedInspection", () => {
+    const action = (status: TicketStatus) =>
+      ({
+        id: `action-${status}`,
+        ticket: { id: `ticket-${status}`, status },
+      }) as ComplianceCorrectiveActionWithTicket;
+
+    it("should stay blocked until every corrective-action ticket is completed", async () => {
+      when(mockActionDAO.findByDocument("doc-1")).thenResolve([
+        action("completed"),
+        action("in_progress"),
+        action("on_hold"),
+      ]);
+
+      await expect(service.clearFailedInspection("doc-1")).rejects.toThrow(
+        "Cannot clear a failed inspection with 2 open corrective-action ticket(s)",
+      );
+      verify(mockComplianceDAO.update(anything(), anything())).never();
+    });
+
+    it("should clear once the tickets are completed, closed or rejected", async () => {
+      when(mockActionDAO.findByDocument("doc-1")).thenResolve([
+        action("completed"),
+        action("closed"),
+        action("rejected"),
+      ]);
+
+      await service.clearFailedInspection("doc-1");
+
+      const [id, update] = capture(mockComplianceDAO.update).last();
+      expect(id).toBe("doc-1");
+      expect(update).toMatchObject({
+        status: "active",
+        reinspection_date: null,
+      });
+    });
+  });
+});
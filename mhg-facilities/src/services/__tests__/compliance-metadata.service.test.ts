@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { instance, mock, when } from "ts-mockito";
+import { jsPDF } from "jspdf";
+import { ComplianceMetadataService } from "../compliance-metadata.service";
+import { ComplianceDocumentTypeDAO } from "@/dao/compliance-document-type.dao";
+import type { ComplianceDocumentTypeRow } from "@/types/database-extensions";
+
+describe("ComplianceMetadataService", () => {
+  let service: ComplianceMetadataService;
+  let mockTypeDAO: ComplianceDocumentTypeDAO;
+
+  const permit = [
+    "CITY OF SPRINGFIELD",
+    "Food Service Establishment Permit",
+    "Permit No: FSE-2026-00417",
+    "Issued by: Springfield Department of Health",
+    "Date Issued: March 5, 2026",
+    "Expiration Date: 03/04/2027",
+  ].join("\n");
+
+  beforeEach(() => {
+    mockTypeDAO = mock(ComplianceDocumentTypeDAO);
+    service = new ComplianceMetadataService(instance(mockTypeDAO));
+  });
+
+  describe("suggestMetadata", () => {
+    it("should suggest each field from common permit wording", () => {
+      expect(service.suggestMetadata(permit)).toEqual({
+        issue_date: {
+          value: "2026-03-05",
+          excerpt: "Date Issued: March 5, 2026",
+        },
+        expiration_date: {
+          value: "2027-03-04",
+          excerpt: "Expiration Date: 03/04/2027",
+        },
+        document_number: {
+          value: "FSE-2026-00417",
+          excerpt: "Permit No: FSE-2026-00417",
+        },
+        issuing_authority: {
+          value: "Springfield Department of Health",
+          excerpt: "Issued by: Springfield Department of Health",
+        },
+      });
+    });
+
+    it("should try the document type's patterns first", () => {
+      const text = "Cert ID HC-88\nValid through 12 Jan 2027";
+
+      const suggestions = service.suggestMetadata(text, {
+        document_number: ["cert id\\s+(\\S+)"],
+      });
+
+      expect(suggestions.document_number?.value).toBe("HC-88");
+      expect(suggestions.expiration_date?.value).toBe("2027-01-12");
+      expect(suggestions.issue_date).toBeUndefined();
+    });
+
+    it("should skip dates that don't parse and invalid patterns", () => {
+      const suggestions = service.suggestMetadata(
+        "Expires: 13/45/2026\nValid until 2026-09-30",
+        { expiration_date: ["(unclosed"] },
+      );
+
+      expect(suggestions.expiration_date?.value).toBe("2026-09-30");
+    });
+  });
+
+  describe("parseDate", () => {
+    it("should read printed dates as ISO dates", () => {
+      expect(service.parseDate("Sept. 1st, 2026")).toBe("2026-09-01");
+      expect(service.parseDate("1 Sep 2026")).toBe("2026-09-01");
+      expect(service.parseDate("9/1/26")).toBe("2026-09-01");
+      expect(service.parseDate("2026-02-30")).toBeNull();
+      expect(service.parseDate("Someday 1, 2026")).toBeNull();
+    });
+  });
+
+  describe("extractMetadata", () => {
+    it("should read a PDF's text layer with its type's patterns", async () => {
+      when(mockTypeDAO.findById("type-1")).thenResolve({
+        id: "type-1",
+        metadata_patterns: { document_number: ["account\\s+(\\d+)"] },
+      } as unknown as ComplianceDocumentTypeRow);
+
+      const doc = new jsPDF();
+      doc.text(["Account 55120", ...permit.split("\n")], 20, 20);
+      const file = new Uint8Array(doc.output("arraybuffer"));
+
+      const result = await service.extractMetadata(file, "type-1");
+
+      expect(result.has_text).toBe(true);
+      expect(result.page_count).toBe(1);
+      expect(result.suggestions.document_number?.value).toBe("55120");
+      expect(result.suggestions.expiration_date?.value).toBe("2027-03-04");
+    });
+
+    it("should reject files that aren't PDFs", async () => {
+      await expect(
+        service.extractMetadata(new TextEncoder().encode("not a pdf")),
+      ).rejects.toThrow("Cannot read this file as a PDF");
+    });
+  });
+});
@@ -0,0 +1,301 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  instance,
+  mock,
+  when,
+  anything,
+  verify,
+  capture,
+  deepEqual,
+} from "ts-mockito";
+import { ComplianceRenewalService } from "../compliance-renewal.service";
+import { ComplianceDocumentService } from "../compliance-document.service";
+import { ComplianceRenewalDAO } from "@/dao/compliance-renewal.dao";
+import {
+  ComplianceRenewalTaskDAO,
+  type ComplianceRenewalTaskWithAssignee,
+} from "@/dao/compliance-renewal-task.dao";
+import { ComplianceDocumentDAO } from "@/dao/compliance-document.dao";
+import { ComplianceDocumentTypeDAO } from "@/dao/compliance-document-type.dao";
+import { ComplianceDocumentVersionDAO } from "@/dao/compliance-document-version.dao";
+import { ComplianceStatusHistoryDAO } from "@/dao/compliance-status-history.dao";
+import { StorageIAO } from "@/iao/storage";
+import type { Database } from "@/types/database";
+import type {
+  ComplianceDocumentTypeRow,
+  ComplianceDocumentVersionRow,
+  ComplianceRenewalRow,
+  ComplianceRenewalStage,
+  ComplianceStatusHistoryRow,
+} from "@/types/database-extensions";
+
+type ComplianceDocument =
+  Database["public"]["Tables"]["compliance_documents"]["Row"];
+
+describe("ComplianceRenewalService", () => {
+  let service: ComplianceRenewalService;
+  let mockRenewalDAO: ComplianceRenewalDAO;
+  let mockTaskDAO: ComplianceRenewalTaskDAO;
+  let mockComplianceDAO: ComplianceDocumentDAO;
+  let mockTypeDAO: ComplianceDocumentTypeDAO;
+  let mockVersionDAO: ComplianceDocumentVersionDAO;
+  let mockHistoryDAO: ComplianceStatusHistoryDAO;
+  let mockStorageIAO: StorageIAO;
+
+  const userId = "user-1";
+
+  const document = {
+    id: "doc-1",
+    tenant_id: "tenant-1",
+    name: "Health Permit",
+    document_type_id: "type-1",
+    status: "expiring_soon",
+    issue_date: "2025-04-01",
+    expiration_date: "2026-04-01",
+    renewal_cost: 250,
+    renewal_assigned_to: "assignee-1",
+  } as ComplianceDocument;
+
+  const renewal = (
+    stage: ComplianceRenewalStage,
+    overrides: Partial<ComplianceRenewalRow> = {},
+  ): ComplianceRenewalRow =>
+    ({
+      id: "renewal-1",
+      document_id: "doc-1",
+      stage,
+      cost: 250,
+      ...overrides,
+    }) as ComplianceRenewalRow;
+
+  const task = (id: string, completed: boolean) =>
+    ({
+      id,
+      renewal_id: "renewal-1",
+      completed_at: completed ? "2026-03-10T00:00:00Z" : null,
+    }) as ComplianceRenewalTaskWithAssignee;
+
+  const givenOpenRenewal = (value: ComplianceRenewalRow | null) =>
+    when(mockRenewalDAO.findOpenByDocument("doc-1")).thenResolve(value);
+
+  const renewedFile = () =>
+    new File(["pdf"], "permit 2027.pdf", { type: "application/pdf" });
+
+  beforeEach(() => {
+    mockRenewalDAO = mock(ComplianceRenewalDAO);
+    mockTaskDAO = mock(ComplianceRenewalTaskDAO);
+    mockComplianceDAO = mock(ComplianceDocumentDAO);
+    mockTypeDAO = mock(ComplianceDocumentTypeDAO);
+    mockVersionDAO = mock(ComplianceDocumentVersionDAO);
+    mockHistoryDAO = mock(ComplianceStatusHistoryDAO);
+    mockStorageIAO = mock(StorageIAO);
+
+    when(mockComplianceDAO.findById("doc-1")).thenResolve(document);
+    when(mockComplianceDAO.update(anything(), anything())).thenResolve(
+      document,
+    );
+    when(mockTypeDAO.findById("type-1")).thenResolve({
+      id: "type-1",
+      expiring_soon_days: 30,
+      renewal_checklist: {
+        items: [
+          { id: "form", label: "Submit application" },
+          { id: "fee", label: "Pay fee", description: "Check or card" },
+        ],
+      },
+    } as unknown as ComplianceDocumentTypeRow);
+    when(mockRenewalDAO.create(anything())).thenResolve(renewal("not_started"));
+    when(mockRenewalDAO.update(anything(), anything())).thenResolve(
+      renewal("approved"),
+    );
+    when(mockTaskDAO.createMany(anything())).thenResolve([]);
+    when(mockVersionDAO.createVersion(anything())).thenResolve(
+      {} as ComplianceDocumentVersionRow,
+    );
+    when(mockHistoryDAO.create(anything())).thenResolve(
+      {} as ComplianceStatusHistoryRow,
+    );
+    givenOpenRenewal(null);
+
+    service = new ComplianceRenewalService(
+      instance(mockRenewalDAO),
+      instance(mockTaskDAO),
+      instance(mockComplianceDAO),
+      instance(mockTypeDAO),
+      instance(mockVersionDAO),
+      instance(mockHistoryDAO),
+      instance(mockStorageIAO),
+      new ComplianceDocumentService(),
+    );
+  });
+
+  describe("startRenewal", () => {
+    it("should create a task per checklist item and mark the document pending", async () => {
+      await service.startRenewal("doc-1", {}, userId);
+
+      const [created] = capture(mockRenewalDAO.create).last();
+      expect(created).toMatchObject({
+        document_id: "doc-1",
+        stage: "not_started",
+        assigned_to: "assignee-1",
+        cost: 250,
+        started_by: userId,
+      });
+
+      const [tasks] = capture(mockTaskDAO.createMany).last();
+      expect(tasks).toEqual([
+        {
+          renewal_id: "renewal-1",
+          checklist_item_id: "form",
+          title: "Submit application",
+          description: null,
+          sort_order: 0,
+          assigned_to: "assignee-1",
+        },
+        {
+          renewal_id: "renewal-1",
+          checklist_item_id: "fee",
+          title: "Pay fee",
+          description: "Check or card",
+          sort_order: 1,
+          assigned_to: "assignee-1",
+        },
+      ]);
+
+      verify(
+        mockComplianceDAO.update(
+          "doc-1",
+          deepEqual({
+            status: "pending_renewal",
+            renewal_assigned_to: "assignee-1",
+            renewal_cost: 250,
+          }),
+        ),
+      ).once();
+      const [entry] = capture(mockHistoryDAO.create).last();
+      expect(entry).toMatchObject({
+        from_status: "expiring_soon",
+        to_status: "pending_renewal",
+        reason: "renewal_started",
+        is_automatic: false,
+        changed_by: userId,
+      });
+    });
+
+    it("should not start a second renewal", async () => {
+      givenOpenRenewal(renewal("submitted"));
+
+      await expect(service.startRenewal("doc-1", {}, userId)).rejects.toThrow(
+        "Cannot start a renewal while another is in progress",
+      );
+      verify(mockRenewalDAO.create(anything())).never();
+    });
+  });
+
+  describe("advanceRenewal", () => {
+    it("should move through the stages in order", async () => {
+      givenOpenRenewal(renewal("not_started"));
+
+      await expect(
+        service.advanceRenewal("doc-1", "review", userId),
+      ).rejects.toThrow("Cannot review a renewal in the not_started stage");
+
+      await service.advanceRenewal("doc-1", "submit", userId);
+
+      const [id, update] = capture(mockRenewalDAO.update).last();
+      expect(id).toBe("renewal-1");
+      expect(update).toMatchObject({ stage: "submitted" });
+    });
+  });
+
+  describe("approveRenewal", () => {
+    beforeEach(() => {
+      givenOpenRenewal(renewal("in_review"));
+      when(mockTaskDAO.findByRenewal("renewal-1")).thenResolve([
+        task("task-1", true),
+        task("task-2", true),
+      ]);
+    });
+
+    it("should record a new version and renew the document", async () => {
+      await service.approveRenewal(
+        "doc-1",
+        {
+          file: renewedFile(),
+          new_issue_date: "2026-03-20",
+          new_expiration_date: "2099-04-01",
+          cost: 275,
+        },
+        userId,
+      );
+
+      const [bucket, path] = capture(mockStorageIAO.upload).last();
+      expect(bucket).toBe("compliance-docs");
+      expect(path).toMatch(/^tenant-1\/doc-1\/\d+-permit_2027\.pdf$/);
+
+      const [version] = capture(mockVersionDAO.createVersion).last();
+      expect(version).toMatchObject({
+        document_id: "doc-1",
+        file_path: path,
+        issue_date: "2026-03-20",
+        expiration_date: "2099-04-01",
+        renewal_id: "renewal-1",
+      });
+
+      const [, approved] = capture(mockRenewalDAO.update).last();
+      expect(approved).toMatchObject({
+        stage: "approved",
+        approved_by: userId,
+        new_expiration_date: "2099-04-01",
+        cost: 275,
+      });
+
+      const [, docUpdate] = capture(mockComplianceDAO.update).last();
+      expect(docUpdate).toMatchObject({
+        file_path: path,
+        issue_date: "2026-03-20",
+        expiration_date: "2099-04-01",
+        status: "active",
+        renewal_cost: 275,
+      });
+    });
+
+    it("should not approve with incomplete tasks", async () => {
+      when(mockTaskDAO.findByRenewal("renewal-1")).thenResolve([
+        task("task-1", true),
+        task("task-2", false),
+      ]);
+
+      await expect(
+        service.approveRenewal(
+          "doc-1",
+          { file: renewedFile(), new_expiration_date: "2099-04-01" },
+          userId,
+        ),
+      ).rejects.toThrow("Cannot approve a renewal with 1 incomplete task(s)");
+      verify(
+        mockStorageIAO.upload(anything(), anything(), anything(), anything()),
+      ).never();
+    });
+
+    it("should remove the uploaded file if the version isn't saved", async () => {
+      when(mockVersionDAO.createVersion(anything())).thenReject(
+        new Error("Insert failed"),
+      );
+
+      await expect(
+        service.approveRenewal(
+          "doc-1",
+          { file: renewedFile(), new_expiration_date: "2099-04-01" },
+          userId,
+        ),
+      ).rejects.toThrow("Insert failed");
+
+      const [, path] = capture(mockStorageIAO.upload).last();
+      verify(
+        mockStorageIAO.remove("compliance-docs", deepEqual([path])),
+      ).once();
+      verify(mockRenewalDAO.update(anything(), anything())).never();
+    });
+  });
+});
@@ -0,0 +1,272 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { instance, mock, when, anything, verify, capture } from "ts-mockito";
+import {
+  CostApprovalService,
+  DEFAULT_COST_APPROVAL_POLICY,
+} from "../cost-approval.service";
+import { NotificationOutboxService } from "../notification-outbox.service";
+import { CostApprovalDAO } from "@/dao/cost-approval.dao";
+import { CostApprovalPolicyDAO } from "@/dao/cost-approval-policy.dao";
+import { TicketDAO } from "@/dao/ticket.dao";
+import { UserDAO } from "@/dao/user.dao";
+import { LocationDAO } from "@/dao/location.dao";
+import { TicketStatusHistoryDAO } from "@/dao/ticket-status-history.dao";
+import type { Database } from "@/types/database";
+import type { CostApprovalRow } from "@/types/database-extensions";
+
+type Ticket = Database["public"]["Tables"]["tickets"]["Row"];
+type User = Database["public"]["Tables"]["users"]["Row"];
+
+describe("CostApprovalService", () => {
+  let service: CostApprovalService;
+  let mockApprovalDAO: CostApprovalDAO;
+  let mockPolicyDAO: CostApprovalPolicyDAO;
+  let mockTicketDAO: TicketDAO;
+  let mockUserDAO: UserDAO;
+  let mockLocationDAO: LocationDAO;
+  let mockStatusHistoryDAO: TicketStatusHistoryDAO;
+  let mockOutboxService: NotificationOutboxService;
+
+  const ticket = {
+    id: "ticket-1",
+    ticket_number: 42,
+    title: "Walk-in cooler not holding temp",
+    status: "submitted",
+    location_id: "location-1",
+    started_at: null,
+    vendor_id: null,
+  } as Ticket;
+
+  const createUser = (id: string, role: User["role"]): User =>
+    ({ id, full_name: `User ${id}`, role, is_active: true }) as User;
+
+  const pendingApproval: CostApprovalRow = {
+    id: "approval-1",
+    tenant_id: "tenant-1",
+    ticket_id: "ticket-1",
+    amount: 2400,
+    source: "quote",
+    vendor_id: "vendor-1",
+    status: "pending",
+    required_role: "admin",
+    previous_status: "submitted",
+    request_notes: null,
+    requested_by: "staff-1",
+    requested_at: "2026-03-08T10:00:00Z",
+    decided_by: null,
+    decided_at: null,
+    decision_notes: null,
+  };
+
+  beforeEach(() => {
+    mockApprovalDAO = mock(CostApprovalDAO);
+    mockPolicyDAO = mock(CostApprovalPolicyDAO);
+    mockTicketDAO = mock(TicketDAO);
+    mockUserDAO = mock(UserDAO);
+    mockLocationDAO = mock(LocationDAO);
+    mockStatusHistoryDAO = mock(TicketStatusHistoryDAO);
+    mockOutboxService = mock(NotificationOutboxService);
+
+    when(mockPolicyDAO.findCurrent()).thenResolve(null);
+    when(mockOutboxService.enqueue(anything(), anything())).thenResolve();
+    when(mockTicketDAO.findById("ticket-1")).thenResolve(ticket);
+    when(mockTicketDAO.updateTicket(anything(), anything())).thenCall(
+      async (_id: string, data: Partial<Ticket>) => ({ ...ticket, ...data }),
+    );
+    when(mockUserDAO.findById("staff-1")).thenResolve(
+      createUser("staff-1", "staff"),
+    );
+    when(mockUserDAO.findById("manager-1")).thenResolve(
+      createUser("manager-1", "manager"),
+    );
+    when(mockUserDAO.findById("admin-1")).thenResolve(
+      createUser("admin-1", "admin"),
+    );
+    when(mockUserDAO.findByRole(anything())).thenResolve([]);
+    when(mockLocationDAO.findById(anything())).thenResolve(null);
+    when(mockApprovalDAO.findPendingByTicket(anything())).thenResolve(null);
+    when(mockApprovalDAO.create(anything())).thenCall(
+      async (data) => ({ id: "approval-1", ...data }) as CostApprovalRow,
+    );
+    when(mockApprovalDAO.update(anything(), anything())).thenCall(
+      async (_id: string, data: Partial<CostApprovalRow>) => ({
+        ...pendingApproval,
+        ...data,
+      }),
+    );
+    when(mockStatusHistoryDAO.create(anything())).thenResolve(
+      {} as Awaited<ReturnType<TicketStatusHistoryDAO["create"]>>,
+    );
+
+    service = new CostApprovalService(
+      instance(mockApprovalDAO),
+      instance(mockPolicyDAO),
+      instance(mockTicketDAO),
+      instance(mockUserDAO),
+      instance(mockLocationDAO),
+      instance(mockStatusHistoryDAO),
+      instance(mockOutboxService),
+    );
+  });
+
+  describe("getRequiredRole", () => {
+    it("should route amounts to the tier that covers them", () => {
+      const policy = {
+        ...DEFAULT_COST_APPROVAL_POLICY,
+        auto_approve_limit: 100,
+      };
+
+      expect(service.getRequiredRole(100, policy)).toBeNull();
+      expect(service.getRequiredRole(1000, policy)).toBe("manager");
+      expect(service.getRequiredRole(1000.01, policy)).toBe("admin");
+      expect(service.getRequiredRole(5001, policy)).toBe("super_admin");
+    });
+
+    it("should not require approval when the policy is disabled", () => {
+      expect(
+        service.getRequiredRole(50000, {
+          ...DEFAULT_COST_APPROVAL_POLICY,
+          is_enabled: false,
+        }),
+      ).toBeNull();
+    });
+  });
+
+  describe("requestApproval", () => {
+    it("should hold the ticket for approval above the auto-approve limit", async () => {
+      const result = await service.requestApproval("ticket-1", {
+        amount: 2400,
+        source: "quote",
+        vendor_id: "vendor-1",
+        requested_by: "staff-1",
+      });
+
+      expect(result.ticket.status).toBe("needs_approval");
+      const [approval] = capture(mockApprovalDAO.create).last();
+      expect(approval).toMatchObject({
+        status: "pending",
+        required_role: "admin",
+        previous_status: "submitted",
+      });
+      const [history] = capture(mockStatusHistoryDAO.create).last();
+      expect(history).toMatchObject({
+        to_status: "needs_approval",
+        changed_by: "staff-1",
+      });
+    });
+
+    it("should approve costs within the auto-approve limit straight away", async () => {
+      when(mockPolicyDAO.findCurrent()).thenResolve({
+        id: "policy-1",
+        tenant_id: "tenant-1",
+        is_enabled: true,
+        auto_approve_limit: 250,
+        manager_limit: 1000,
+        admin_limit: 5000,
+        created_at: "2026-03-01T00:00:00Z",
+        updated_at: "2026-03-01T00:00:00Z",
+        deleted_at: null,
+      });
+
+      const result = await service.requestApproval("ticket-1", {
+        amount: 180,
+        requested_by: "staff-1",
+      });
+
+      expect(result.approval.status).toBe("approved");
+      expect(result.ticket.status).toBe("submitted");
+      expect(result.ticket.estimated_cost).toBe(180);
+    });
+
+    it("should reject a new cost while another is pending", async () => {
+      when(mockApprovalDAO.findPendingByTicket("ticket-1")).thenResolve(
+        pendingApproval,
+      );
+
+      await expect(
+        service.requestApproval("ticket-1", {
+          amount: 500,
+          requested_by: "staff-1",
+        }),
+      ).rejects.toThrow("awaiting approval");
+      verify(mockApprovalDAO.create(anything())).never();
+    });
+  });
+
+  describe("approve", () => {
+    beforeEach(() => {
+      when(mockApprovalDAO.findById("approval-1")).thenResolve(pendingApproval);
+      when(mockTicketDAO.findById("ticket-1")).thenResolve({
+        ...ticket,
+        status: "needs_approval",
+      });
+    });
+
+    it("should require decision notes", async () => {
+      await expect(
+        service.approve("approval-1", "admin-1", "  "),
+      ).rejects.toThrow("Decision notes are required");
+    });
+
+    it("should not let a manager approve an admin-tier cost", async () => {
+      await expect(
+        service.approve("approval-1", "manager-1", "Looks fine"),
+      ).rejects.toThrow("permission");
+      verify(mockApprovalDAO.update(anything(), anything())).never();
+    });
+
+    it("should not let the requester decide their own cost", async () => {
+      when(mockApprovalDAO.findById("approval-1")).thenResolve({
+        ...pendingApproval,
+        required_role: "manager",
+        requested_by: "manager-1",
+      });
+
+      await expect(
+        service.approve("approval-1", "manager-1", "Within my limit"),
+      ).rejects.toThrow("You cannot decide a cost you submitted yourself");
+      verify(mockApprovalDAO.update(anything(), anything())).never();
+      verify(mockTicketDAO.updateTicket(anything(), anything())).never();
+    });
+
+    it("should restore the ticket status and assign the quoting vendor", async () => {
+      const result = await service.approve(
+        "approval-1",
+        "admin-1",
+        "Within budget for Q1",
+      );
+
+      expect(result.approval).toMatchObject({
+        status: "approved",
+        decided_by: "admin-1",
+        decision_notes: "Within budget for Q1",
+      });
+      const [, update] = capture(mockTicketDAO.updateTicket).last();
+      expect(update).toEqual({
+        status: "submitted",
+        status_changed_by: "admin-1",
+        vendor_id: "vendor-1",
+      });
+    });
+  });
+
+  describe("deny", () => {
+    it("should keep the ticket waiting for a revised cost", async () => {
+      when(mockApprovalDAO.findById("approval-1")).thenResolve(pendingApproval);
+      when(mockTicketDAO.findById("ticket-1")).thenResolve({
+        ...ticket,
+        status: "needs_approval",
+      });
+
+      const result = await service.deny(
+        "approval-1",
+        "admin-1",
+        "Get a second quote",
+      );
+
+      expect(result.approval.status).toBe("denied");
+      expect(result.ticket.status).toBe("needs_approval");
+      verify(mockTicketDAO.updateTicket(anything(), anything())).never();
+    });
+  });
+});
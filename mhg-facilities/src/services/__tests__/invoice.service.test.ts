@@ -0,0 +1,277 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { instance, mock, when, anything, verify, capture } from "ts-mockito";
+import { InvoiceService } from "../invoice.service";
+import { InvoiceDAO, type InvoiceWithRelations } from "@/dao/invoice.dao";
+import { InvoiceLineItemDAO } from "@/dao/invoice-line-item.dao";
+import { InvoicePaymentDAO } from "@/dao/invoice-payment.dao";
+import { TicketDAO } from "@/dao/ticket.dao";
+import { VendorDAO } from "@/dao/vendor.dao";
+import { TicketAttachmentDAO } from "@/dao/ticket-attachment.dao";
+import type { Database } from "@/types/database";
+import type { InvoiceRow } from "@/types/database-extensions";
+
+type Ticket = Database["public"]["Tables"]["tickets"]["Row"];
+
+describe("InvoiceService", () => {
+  let service: InvoiceService;
+  let mockInvoiceDAO: InvoiceDAO;
+  let mockLineItemDAO: InvoiceLineItemDAO;
+  let mockPaymentDAO: InvoicePaymentDAO;
+  let mockTicketDAO: TicketDAO;
+  let mockVendorDAO: VendorDAO;
+  let mockAttachmentDAO: TicketAttachmentDAO;
+
+  const createInvoice = (overrides: Partial<InvoiceRow> = {}): InvoiceRow => ({
+    id: "invoice-1",
+    tenant_id: "tenant-1",
+    vendor_id: "vendor-1",
+    ticket_id: "ticket-1",
+    invoice_number: "INV-100",
+    invoice_date: "2026-03-01",
+    due_date: "2026-03-31",
+    status: "pending",
+    subtotal: 1000,
+    tax_amount: 80,
+    total_amount: 1080,
+    amount_paid: 0,
+    attachment_id: null,
+    notes: null,
+    approved_by: null,
+    approved_at: null,
+    disputed_by: null,
+    disputed_at: null,
+    dispute_reason: null,
+    paid_at: null,
+    created_by: "user-1",
+    created_at: "2026-03-01T10:00:00Z",
+    updated_at: "2026-03-01T10:00:00Z",
+    deleted_at: null,
+    ...overrides,
+  });
+
+  const withRelations = (invoice: InvoiceRow): InvoiceWithRelations => ({
+    ...invoice,
+    vendor: { id: invoice.vendor_id, name: "Cool Air HVAC" },
+    ticket: null,
+    attachment: null,
+    line_items: [],
+    payments: [],
+  });
+
+  beforeEach(() => {
+    mockInvoiceDAO = mock(InvoiceDAO);
+    mockLineItemDAO = mock(InvoiceLineItemDAO);
+    mockPaymentDAO = mock(InvoicePaymentDAO);
+    mockTicketDAO = mock(TicketDAO);
+    mockVendorDAO = mock(VendorDAO);
+    mockAttachmentDAO = mock(TicketAttachmentDAO);
+
+    when(mockTicketDAO.findById("ticket-1")).thenResolve({
+      id: "ticket-1",
+    } as Ticket);
+    when(mockVendorDAO.exists("vendor-1")).thenResolve(true);
+    when(
+      mockInvoiceDAO.findByVendorAndNumber(anything(), anything()),
+    ).thenResolve(null);
+    when(mockInvoiceDAO.findWithRelations(anything())).thenCall(
+      async (id: string) => withRelations(createInvoice({ id })),
+    );
+
+    service = new InvoiceService(
+      instance(mockInvoiceDAO),
+      instance(mockLineItemDAO),
+      instance(mockPaymentDAO),
+      instance(mockTicketDAO),
+      instance(mockVendorDAO),
+      instance(mockAttachmentDAO),
+    );
+  });
+
+  describe("createInvoice", () => {
+    const input = {
+      ticket_id: "ticket-1",
+      vendor_id: "vendor-1",
+      invoice_number: "INV-100",
+      invoice_date: "2026-03-01",
+      tax_amount: 12.5,
+      line_items: [
+        { description: "Compressor", quantity: 1, unit_price: 850 },
+        { description: "Labor (hours)", quantity: 2.5, unit_price: 95.1 },
+      ],
+      created_by: "user-1",
+    };
+
+    it("should compute line amounts and totals", async () => {
+      when(mockInvoiceDAO.create(anything())).thenResolve(createInvoice());
+
+      await service.createInvoice(input);
+
+      const [created] = capture(mockInvoiceDAO.create).last();
+      expect(created).toMatchObject({
+        status: "pending",
+        subtotal: 1087.75,
+        tax_amount: 12.5,
+        total_amount: 1100.25,
+        amount_paid: 0,
+      });
+
+      const [, lineItems] = capture(mockLineItemDAO.replaceForInvoice).last();
+      expect(lineItems.map((item) => item.amount)).toEqual([850, 237.75]);
+    });
+
+    it("should reject a duplicate invoice number for the vendor", async () => {
+      when(
+        mockInvoiceDAO.findByVendorAndNumber("vendor-1", "INV-100"),
+      ).thenResolve(createInvoice());
+
+      await expect(service.createInvoice(input)).rejects.toThrow(
+        "Invoice INV-100 already exists for this vendor",
+      );
+      verify(mockInvoiceDAO.create(anything())).never();
+    });
+  });
+
+  describe("updateInvoice", () => {
+    it("should send a corrected disputed invoice back to pending", async () => {
+      when(mockInvoiceDAO.findById("invoice-1")).thenResolve(
+        createInvoice({ status: "disputed", dispute_reason: "Wrong rate" }),
+      );
+
+      await service.updateInvoice("invoice-1", {
+        line_items: [{ description: "Compressor", unit_price: 900 }],
+      });
+
+      const [, update] = capture(mockInvoiceDAO.update).last();
+      expect(update).toMatchObject({
+        status: "pending",
+        subtotal: 900,
+        total_amount: 980,
+      });
+    });
+
+    it("should not allow editing an approved invoice", async () => {
+      when(mockInvoiceDAO.findById("invoice-1")).thenResolve(
+        createInvoice({ status: "approved" }),
+      );
+
+      await expect(
+        service.updateInvoice("invoice-1", { notes: "Updated" }),
+      ).rejects.toThrow("Cannot edit an invoice that is approved");
+    });
+  });
+
+  describe("recordPayment", () => {
+    const payment = {
+      paid_on: "2026-03-15",
+      method: "check" as const,
+      recorded_by: "manager-1",
+    };
+
+    it("should keep a partially paid invoice approved", async () => {
+      when(mockInvoiceDAO.findById("invoice-1")).thenResolve(
+        createInvoice({ status: "approved" }),
+      );
+
+      await service.recordPayment("invoice-1", { ...payment, amount: 500 });
+
+      verify(mockPaymentDAO.create(anything())).once();
+      const [, update] = capture(mockInvoiceDAO.update).last();
+      expect(update).toEqual({ amount_paid: 500 });
+    });
+
+    it("should mark the invoice paid when the balance is cleared", async () => {
+      when(mockInvoiceDAO.findById("invoice-1")).thenResolve(
+        createInvoice({ status: "approved", amount_paid: 500 }),
+      );
+
+      await service.recordPayment("invoice-1", { ...payment, amount: 580 });
+
+      const [, update] = capture(mockInvoiceDAO.update).last();
+      expect(update).toMatchObject({ amount_paid: 1080, status: "paid" });
+      expect(update.paid_at).toBeDefined();
+    });
+
+    it("should reject a payment larger than the balance", async () => {
+      when(mockInvoiceDAO.findById("invoice-1")).thenResolve(
+        createInvoice({ status: "approved", amount_paid: 1000 }),
+      );
+
+      await expect(
+        service.recordPayment("invoice-1", { ...payment, amount: 100 }),
+      ).rejects.toThrow("Payment exceeds the outstanding balance of $80.00");
+      verify(mockPaymentDAO.create(anything())).never();
+    });
+
+    it("should reject payments on a pending invoice", async () => {
+      when(mockInvoiceDAO.findById("invoice-1")).thenResolve(createInvoice());
+
+      await expect(
+        service.recordPayment("invoice-1", { ...payment, amount: 100 }),
+      ).rejects.toThrow(
+        "Cannot record a payment against an invoice that is pending",
+      );
+    });
+  });
+
+  describe("disputeInvoice", () => {
+    it("should not dispute an invoice with payments recorded", async () => {
+      when(mockInvoiceDAO.findById("invoice-1")).thenResolve(
+        createInvoice({ status: "approved", amount_paid: 200 }),
+      );
+
+      await expect(
+        service.disputeInvoice("invoice-1", "manager-1", "Overbilled"),
+      ).rejects.toThrow("Cannot dispute an invoice that has payments recorded");
+    });
+  });
+
+  describe("getAgingReport", () => {
+    it("should bucket outstanding balances by days past due", async () => {
+      when(
+        mockInvoiceDAO.findAllWithFilters(anything(), anything()),
+      ).thenResolve(
+        [
+          // Not yet due
+          createInvoice({ id: "a", due_date: "2026-04-15" }),
+          // 10 days past due, partially paid
+          createInvoice({
+            id: "b",
+            status: "approved",
+            due_date: "2026-03-22",
+            amount_paid: 80,
+          }),
+          // No due date: due on invoice date, 100 days ago
+          createInvoice({
+            id: "c",
+            vendor_id: "vendor-2",
+            invoice_date: "2025-12-22",
+            due_date: null,
+          }),
+        ].map(withRelations),
+      );
+
+      const report = await service.getAgingReport(
+        new Date("2026-04-01T12:00:00Z"),
+      );
+
+      expect(report.as_of).toBe("2026-04-01");
+      expect(
+        report.invoices.map((row) => [row.invoice_id, row.bucket]),
+      ).toEqual([
+        ["c", "days_over_90"],
+        ["b", "days_1_30"],
+        ["a", "current"],
+      ]);
+      expect(report.totals).toMatchObject({
+        current: 1080,
+        days_1_30: 1000,
+        days_over_90: 1080,
+        total: 3160,
+      });
+      expect(report.vendors[0]).toMatchObject({
+        vendor_id: "vendor-1",
+        total: 2080,
+      });
+    });
+  });
+});
@@ -32,6 +32,8 @@ describe("LocationService", () => {
     status: "active",
     opened_date: null,
     closed_date: null,
+    business_hours: null,
+    qr_code: null,
     created_at: "2024-01-01T00:00:00Z",
     updated_at: "2024-01-01T00:00:00Z",
     deleted_at: null,
@@ -46,6 +48,7 @@ describe("LocationService", () => {
     role: "staff",
     phone: null,
     location_id: null,
+    vendor_id: null,
     language_preference: "en",
     is_active: true,
     must_set_password: false,
@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { instance, mock, when, anything, verify } from "ts-mockito";
+import { NotificationDigestService } from "../notification-digest.service";
+import { BudgetService, type BudgetWithSpend } from "../budget.service";
+import { TicketDAO } from "@/dao/ticket.dao";
+import { PMScheduleDAO } from "@/dao/pm-schedule.dao";
+import { ComplianceDocumentDAO } from "@/dao/compliance-document.dao";
+import { LocationDAO } from "@/dao/location.dao";
+import type { Database, UserRole } from "@/types/database";
+
+type Ticket = Database["public"]["Tables"]["tickets"]["Row"];
+type PMSchedule = Database["public"]["Tables"]["pm_schedules"]["Row"];
+type ComplianceDocument =
+  Database["public"]["Tables"]["compliance_documents"]["Row"];
+type Location = Database["public"]["Tables"]["locations"]["Row"];
+type User = Database["public"]["Tables"]["users"]["Row"];
+
+describe("NotificationDigestService", () => {
+  let service: NotificationDigestService;
+  let mockTicketDAO: TicketDAO;
+  let mockScheduleDAO: PMScheduleDAO;
+  let mockDocumentDAO: ComplianceDocumentDAO;
+  let mockLocationDAO: LocationDAO;
+  let mockBudgetService: BudgetService;
+
+  const now = new Date("2026-03-16T11:00:00Z");
+  const since = new Date("2026-03-15T11:00:00Z");
+
+  const createUser = (role: UserRole, overrides: Partial<User> = {}): User =>
+    ({
+      id: "user-1",
+      email: "user-1@example.com",
+      full_name: "User One",
+      role,
+      location_id: null,
+      is_active: true,
+      ...overrides,
+    }) as User;
+
+  const ticket = (id: string, overrides: Partial<Ticket> = {}): Ticket =>
+    ({
+      id,
+      ticket_number: 1,
+      title: `Ticket ${id}`,
+      status: "in_progress",
+      location_id: "location-1",
+      assigned_to: null,
+      due_date: null,
+      ...overrides,
+    }) as Ticket;
+
+  const overdue = "2026-03-10T00:00:00Z";
+
+  beforeEach(() => {
+    mockTicketDAO = mock(TicketDAO);
+    mockScheduleDAO = mock(PMScheduleDAO);
+    mockDocumentDAO = mock(ComplianceDocumentDAO);
+    mockLocationDAO = mock(LocationDAO);
+    mockBudgetService = mock(BudgetService);
+
+    when(mockTicketDAO.findByStatus(anything())).thenResolve([
+      ticket("mine", { assigned_to: "user-1", due_date: overdue }),
+      ticket("loc-1-overdue", { due_date: overdue }),
+      ticket("loc-2-overdue", { location_id: "location-2", due_date: overdue }),
+      ticket("loc-1-on-time", { due_date: "2026-03-20T00:00:00Z" }),
+    ]);
+    when(mockTicketDAO.findCompletedSince(since.toISOString())).thenResolve([
+      ticket("done-mine", { status: "completed", assigned_to: "user-1" }),
+      ticket("done-loc-2", { status: "completed", location_id: "location-2" }),
+    ]);
+    when(mockScheduleDAO.findDueBy("2026-03-23")).thenResolve([
+      { id: "pm-1", location_id: "location-1", assigned_to: null },
+      { id: "pm-2", location_id: "location-2", assigned_to: "user-1" },
+    ] as PMSchedule[]);
+    when(mockDocumentDAO.findExpiringSoon(30)).thenResolve([
+      { id: "doc-1", location_id: null, location_ids: ["location-1"] },
+      { id: "doc-2", location_id: "location-2", location_ids: [] },
+    ] as unknown as ComplianceDocument[]);
+    when(mockBudgetService.getCurrentFiscalYearBudgetsWithSpend()).thenResolve([
+      { id: "budget-1", location_id: "location-1", alert_level: "danger" },
+      { id: "budget-2", location_id: "location-1", alert_level: "none" },
+      { id: "budget-3", location_id: null, alert_level: "over" },
+    ] as BudgetWithSpend[]);
+    when(mockLocationDAO.findByManager("user-1")).thenResolve([
+      { id: "location-1", name: "Main St" } as Location,
+    ]);
+
+    service = new NotificationDigestService(
+      instance(mockTicketDAO),
+      instance(mockScheduleDAO),
+      instance(mockDocumentDAO),
+      instance(mockLocationDAO),
+      instance(mockBudgetService),
+    );
+  });
+
+  const ids = (rows: { id: string }[]) => rows.map((row) => row.id);
+
+  it("should limit staff to their own work", async () => {
+    const digest = await service.compileDigest(
+      createUser("staff"),
+      "daily",
+      since,
+      now,
+    );
+
+    expect(digest.scope).toBe("own");
+    expect(ids(digest.assigned_tickets)).toEqual(["mine"]);
+    expect(ids(digest.overdue_tickets)).toEqual(["mine"]);
+    expect(ids(digest.pm_due)).toEqual(["pm-2"]);
+    expect(ids(digest.completed_tickets)).toEqual(["done-mine"]);
+    // No home location, so no documents; budgets are for managers up
+    expect(digest.expiring_documents).toEqual([]);
+    expect(digest.budget_alerts).toEqual([]);
+    verify(mockDocumentDAO.findExpiringSoon(anything())).never();
+    verify(mockBudgetService.getCurrentFiscalYearBudgetsWithSpend()).never();
+  });
+
+  it("should scope manager digests to the locations they manage", async () => {
+    const digest = await service.compileDigest(
+      createUser("manager"),
+      "daily",
+      since,
+      now,
+    );
+
+    expect(digest.scope).toBe("locations");
+    expect(digest.locations).toEqual([{ id: "location-1", name: "Main St" }]);
+    expect(ids(digest.assigned_tickets)).toEqual(["mine"]);
+    expect(ids(digest.overdue_tickets)).toEqual(["mine", "loc-1-overdue"]);
+    expect(ids(digest.pm_due)).toEqual(["pm-1"]);
+    expect(ids(digest.expiring_documents)).toEqual(["doc-1"]);
+    expect(ids(digest.budget_alerts)).toEqual(["budget-1"]);
+    expect(ids(digest.completed_tickets)).toEqual(["done-mine"]);
+  });
+
+  it("should give admins the whole tenant", async () => {
+    const digest = await service.compileDigest(
+      createUser("admin"),
+      "weekly",
+      since,
+      now,
+    );
+
+    expect(digest.scope).toBe("tenant");
+    expect(ids(digest.overdue_tickets)).toEqual([
+      "mine",
+      "loc-1-overdue",
+      "loc-2-overdue",
+    ]);
+    expect(ids(digest.pm_due)).toEqual(["pm-1", "pm-2"]);
+    expect(ids(digest.expiring_documents)).toEqual(["doc-1", "doc-2"]);
+    expect(ids(digest.budget_alerts)).toEqual(["budget-1", "budget-3"]);
+    expect(ids(digest.completed_tickets)).toEqual(["done-mine", "done-loc-2"]);
+    verify(mockLocationDAO.findByManager(anything())).never();
+  });
+
+  it("should include a staff member's home location documents", async () => {
+    when(mockLocationDAO.findById("location-2")).thenResolve({
+      id: "location-2",
+      name: "Elm Ave",
+    } as Location);
+
+    const digest = await service.compileDigest(
+      createUser("staff", { location_id: "location-2" }),
+      "daily",
+      since,
+      now,
+    );
+
+    expect(ids(digest.expiring_documents)).toEqual(["doc-2"]);
+    // Tickets at the home location still aren't theirs
+    expect(ids(digest.overdue_tickets)).toEqual(["mine"]);
+  });
+
+  it("should report an empty digest when nothing is going on", async () => {
+    when(mockTicketDAO.findByStatus(anything())).thenResolve([]);
+    when(mockTicketDAO.findCompletedSince(anything())).thenResolve([]);
+    when(mockScheduleDAO.findDueBy(anything())).thenResolve([]);
+
+    const digest = await service.compileDigest(
+      createUser("staff"),
+      "daily",
+      since,
+      now,
+    );
+
+    expect(service.isEmpty(digest)).toBe(true);
+  });
+
+  describe("getPeriodStart", () => {
+    it("should cover a day or a week", () => {
+      expect(service.getPeriodStart("daily", now).toISOString()).toBe(
+        "2026-03-15T11:00:00.000Z",
+      );
+      expect(service.getPeriodStart("weekly", now).toISOString()).toBe(
+        "2026-03-09T11:00:00.000Z",
+      );
+    });
+  });
+});
@@ -0,0 +1,337 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { instance, mock, when, anything, capture, verify } from "ts-mockito";
+import { NotificationOutboxService } from "../notification-outbox.service";
+import {
+  NotificationService,
+  type NotificationDelivery,
+} from "../notification.service";
+import { NotificationOutboxDAO } from "@/dao/notification-outbox.dao";
+import { NotificationDeliveryDAO } from "@/dao/notification-delivery.dao";
+import { TicketDAO } from "@/dao/ticket.dao";
+import { UserDAO } from "@/dao/user.dao";
+import { LocationDAO } from "@/dao/location.dao";
+import { ComplianceDocumentDAO } from "@/dao/compliance-document.dao";
+import type {
+  Database,
+  NotificationDeliveryRow,
+  NotificationOutboxRow,
+} from "@/types/database-extensions";
+import { runWithTenant } from "@/lib/tenant/context";
+
+type Ticket = Database["public"]["Tables"]["tickets"]["Row"];
+type User = Database["public"]["Tables"]["users"]["Row"];
+
+describe("NotificationOutboxService", () => {
+  let service: NotificationOutboxService;
+  let mockOutboxDAO: NotificationOutboxDAO;
+  let mockDeliveryDAO: NotificationDeliveryDAO;
+  let mockNotificationService: NotificationService;
+  let mockTicketDAO: TicketDAO;
+  let mockUserDAO: UserDAO;
+
+  const now = new Date("2026-03-13T12:00:00Z");
+  // The tenant DAO calls are scoped to, null outside runWithTenant
+  let scopedTenant: string | null = null;
+
+  const createMessage = (
+    overrides: Partial<NotificationOutboxRow> = {},
+  ): NotificationOutboxRow => ({
+    id: "outbox-1",
+    tenant_id: "tenant-1",
+    event: "ticket_assigned",
+    payload: {
+      ticket_id: "ticket-1",
+      assignee_id: "tech-1",
+      assigned_by: null,
+    },
+    status: "processing",
+    attempts: 0,
+    max_attempts: 5,
+    next_attempt_at: now.toISOString(),
+    locked_at: now.toISOString(),
+    last_error: null,
+    sent_at: null,
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+    deleted_at: null,
+    ...overrides,
+  });
+
+  const delivery = (
+    overrides: Partial<NotificationDelivery> = {},
+  ): NotificationDelivery => ({
+    channel: "email",
+    recipient_id: "tech-1",
+    address: "tech-1@example.com",
+    status: "sent",
+    provider_message_id: "email-1",
+    error: null,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.mocked(runWithTenant).mockImplementation(async (tenantId, fn) => {
+      scopedTenant = tenantId;
+      try {
+        return await fn();
+      } finally {
+        scopedTenant = null;
+      }
+    });
+
+    mockOutboxDAO = mock(NotificationOutboxDAO);
+    mockDeliveryDAO = mock(NotificationDeliveryDAO);
+    mockNotificationService = mock(NotificationService);
+    mockTicketDAO = mock(TicketDAO);
+    mockUserDAO = mock(UserDAO);
+
+    when(mockTicketDAO.findById("ticket-1")).thenResolve({
+      id: "ticket-1",
+      assigned_to: "tech-1",
+    } as Ticket);
+    when(mockUserDAO.findById("tech-1")).thenResolve({
+      id: "tech-1",
+      full_name: "Tech One",
+    } as User);
+    when(mockDeliveryDAO.createMany(anything())).thenResolve();
+    when(mockOutboxDAO.update(anything(), anything())).thenCall(
+      async (id: string, data: Partial<NotificationOutboxRow>) =>
+        createMessage({ id, ...data }),
+    );
+
+    service = new NotificationOutboxService(
+      instance(mockOutboxDAO),
+      instance(mockDeliveryDAO),
+      instance(mockNotificationService),
+      instance(mockTicketDAO),
+      instance(mockUserDAO),
+      instance(mock(LocationDAO)),
+      instance(mock(ComplianceDocumentDAO)),
+    );
+  });
+
+  describe("process", () => {
+    it("should mark the message sent and log its deliveries", async () => {
+      when(
+        mockNotificationService.notifyTicketAssignment(anything()),
+      ).thenResolve([delivery()]);
+
+      const outcome = await service.process(createMessage(), now);
+
+      expect(outcome).toBe("sent");
+      const [logged] = capture(mockDeliveryDAO.createMany).last();
+      expect(logged).toEqual([
+        expect.objectContaining({
+          outbox_id: "outbox-1",
+          tenant_id: "tenant-1",
+          attempt: 1,
+          status: "sent",
+        }),
+      ]);
+      const [, update] = capture(mockOutboxDAO.update).last();
+      expect(update).toMatchObject({
+        status: "sent",
+        attempts: 1,
+        sent_at: now.toISOString(),
+        locked_at: null,
+      });
+    });
+
+    it("should credit auto-routing when nobody assigned the ticket", async () => {
+      when(
+        mockNotificationService.notifyTicketAssignment(anything()),
+      ).thenResolve([delivery()]);
+
+      await service.process(createMessage(), now);
+
+      const [params] = capture(
+        mockNotificationService.notifyTicketAssignment,
+      ).last();
+      expect(params.assignedBy.full_name).toBe("Auto-routing");
+    });
+
+    it("should retry with exponential backoff when sending throws", async () => {
+      when(
+        mockNotificationService.notifyTicketAssignment(anything()),
+      ).thenReject(new Error("Resend API error: 503"));
+
+      const outcome = await service.process(
+        createMessage({ attempts: 2 }),
+        now,
+      );
+
+      expect(outcome).toBe("retried");
+      const [, update] = capture(mockOutboxDAO.update).last();
+      expect(update).toMatchObject({
+        status: "queued",
+        attempts: 3,
+        last_error: "Resend API error: 503",
+        // Third attempt waits 4 minutes
+        next_attempt_at: "2026-03-13T12:04:00.000Z",
+      });
+    });
+
+    it("should retry when every delivery failed", async () => {
+      when(
+        mockNotificationService.notifyTicketAssignment(anything()),
+      ).thenResolve([
+        delivery({ status: "failed", error: "Mailbox unavailable" }),
+      ]);
+
+      const outcome = await service.process(createMessage(), now);
+
+      expect(outcome).toBe("retried");
+      // The failed attempt is still logged
+      verify(mockDeliveryDAO.createMany(anything())).once();
+      const [, update] = capture(mockOutboxDAO.update).last();
+      expect(update).toMatchObject({
+        status: "queued",
+        last_error: "Mailbox unavailable",
+      });
+    });
+
+    it("should give up once max attempts are used", async () => {
+      when(
+        mockNotificationService.notifyTicketAssignment(anything()),
+      ).thenReject(new Error("Resend API error: 503"));
+
+      const outcome = await service.process(
+        createMessage({ attempts: 4 }),
+        now,
+      );
+
+      expect(outcome).toBe("failed");
+      const [, update] = capture(mockOutboxDAO.update).last();
+      expect(update).toMatchObject({ status: "failed", attempts: 5 });
+    });
+
+    it("should skip assignments that were superseded by a reassignment", async () => {
+      when(mockTicketDAO.findById("ticket-1")).thenResolve({
+        id: "ticket-1",
+        assigned_to: "tech-2",
+      } as Ticket);
+
+      const outcome = await service.process(createMessage(), now);
+
+      expect(outcome).toBe("sent");
+      verify(
+        mockNotificationService.notifyTicketAssignment(anything()),
+      ).never();
+    });
+  });
+
+  describe("processDue", () => {
+    it("should send each message scoped to its own tenant", async () => {
+      when(
+        mockOutboxDAO.claimDue(anything(), anything(), anything()),
+      ).thenResolve([
+        createMessage({ id: "outbox-1", tenant_id: "tenant-1" }),
+        createMessage({ id: "outbox-2", tenant_id: "tenant-2" }),
+      ]);
+      when(
+        mockNotificationService.notifyTicketAssignment(anything()),
+      ).thenResolve([delivery()]);
+      const scopedTo: Record<string, string | null> = {};
+      when(mockOutboxDAO.update(anything(), anything())).thenCall(
+        async (id: string) => {
+          scopedTo[id] = scopedTenant;
+          return createMessage({ id });
+        },
+      );
+
+      // Called as the cron job does, with no session or tenant subdomain
+      const result = await service.processDue(now);
+
+      expect(result).toEqual({ processed: 2, sent: 2, retried: 0, failed: 0 });
+      expect(scopedTo).toEqual({
+        "outbox-1": "tenant-1",
+        "outbox-2": "tenant-2",
+      });
+    });
+
+    it("should carry on with the batch when a message can't be settled", async () => {
+      when(
+        mockOutboxDAO.claimDue(anything(), anything(), anything()),
+      ).thenResolve([
+        createMessage({ id: "outbox-1" }),
+        createMessage({ id: "outbox-2" }),
+      ]);
+      when(
+        mockNotificationService.notifyTicketAssignment(anything()),
+      ).thenResolve([delivery()]);
+      when(mockOutboxDAO.update("outbox-1", anything())).thenReject(
+        new Error("connection reset"),
+      );
+
+      const result = await service.processDue(now);
+
+      expect(result).toMatchObject({ processed: 2, sent: 1 });
+    });
+  });
+
+  describe("getRetryDelay", () => {
+    it("should double the delay up to an hour", () => {
+      expect(service.getRetryDelay(1)).toBe(60 * 1000);
+      expect(service.getRetryDelay(2)).toBe(2 * 60 * 1000);
+      expect(service.getRetryDelay(10)).toBe(60 * 60 * 1000);
+    });
+  });
+
+  describe("resend", () => {
+    it("should requeue a failed message from scratch", async () => {
+      when(mockOutboxDAO.findById("outbox-1")).thenResolve(
+        createMessage({ status: "failed", attempts: 5 }),
+      );
+
+      const message = await service.resend("outbox-1");
+
+      expect(message.status).toBe("queued");
+      expect(message.attempts).toBe(0);
+    });
+
+    it("should not resend a message that is still queued", async () => {
+      when(mockOutboxDAO.findById("outbox-1")).thenResolve(
+        createMessage({ status: "queued" }),
+      );
+
+      await expect(service.resend("outbox-1")).rejects.toThrow(
+        "Cannot resend a notification that is still queued",
+      );
+    });
+  });
+
+  describe("recordBounce", () => {
+    it("should mark the delivery and its message bounced", async () => {
+      when(mockDeliveryDAO.findByProviderMessageId("email-1")).thenResolve({
+        id: "delivery-1",
+        tenant_id: "tenant-2",
+        outbox_id: "outbox-1",
+        address: "tech-1@example.com",
+      } as NotificationDeliveryRow);
+      when(mockDeliveryDAO.markBounced(anything(), anything())).thenResolve();
+      let scopedTo: string | null = null;
+      when(mockOutboxDAO.update(anything(), anything())).thenCall(
+        async (id: string) => {
+          scopedTo = scopedTenant;
+          return createMessage({ id });
+        },
+      );
+
+      // The webhook has no tenant context of its own
+      const recorded = await service.recordBounce("email-1", "Mailbox full");
+
+      expect(recorded).toBe(true);
+      verify(mockDeliveryDAO.markBounced("delivery-1", "Mailbox full")).once();
+      const [id, update] = capture(mockOutboxDAO.update).last();
+      expect(id).toBe("outbox-1");
+      expect(update.status).toBe("bounced");
+      expect(scopedTo).toBe("tenant-2");
+    });
+
+    it("should ignore emails that aren't ours", async () => {
+      when(mockDeliveryDAO.findByProviderMessageId("other")).thenResolve(null);
+
+      expect(await service.recordBounce("other", "Mailbox full")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { instance, mock, when, anything, capture, verify } from "ts-mockito";
+import {
+  NotificationPreferenceService,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+} from "../notification-preference.service";
+import { UserDAO } from "@/dao/user.dao";
+import { NotificationPolicyDAO } from "@/dao/notification-policy.dao";
+import type { Database, Json } from "@/types/database";
+import type { NotificationPolicyRow } from "@/types/database-extensions";
+import type { NotificationPreferences } from "@/types";
+
+type User = Database["public"]["Tables"]["users"]["Row"];
+
+describe("NotificationPreferenceService", () => {
+  let service: NotificationPreferenceService;
+  let mockUserDAO: UserDAO;
+  let mockPolicyDAO: NotificationPolicyDAO;
+
+  const prefs = (
+    overrides: Partial<NotificationPreferences> = {},
+  ): NotificationPreferences => ({
+    ...DEFAULT_NOTIFICATION_PREFERENCES,
+    ...overrides,
+  });
+
+  const createUser = (
+    id: string,
+    preferences: Partial<NotificationPreferences> = {},
+  ): User =>
+    ({
+      id,
+      email: `${id}@example.com`,
+      full_name: id,
+      role: "manager",
+      is_active: true,
+      notification_preferences: prefs(preferences) as unknown as Json,
+    }) as User;
+
+  // 23:30 in New York (UTC-4 in April)
+  const lateEvening = new Date("2026-04-02T03:30:00Z");
+  const quietHours = {
+    enabled: true,
+    start: "22:00",
+    end: "07:00",
+    timezone: "America/New_York",
+  };
+
+  beforeEach(() => {
+    mockUserDAO = mock(UserDAO);
+    mockPolicyDAO = mock(NotificationPolicyDAO);
+
+    service = new NotificationPreferenceService(
+      instance(mockUserDAO),
+      instance(mockPolicyDAO),
+    );
+  });
+
+  describe("shouldNotify", () => {
+    it("should respect a per-event opt-out on that channel only", () => {
+      const preferences = prefs({
+        events: { ticket_status_changed: { email: false } },
+      });
+
+      expect(
+        service.shouldNotify(preferences, { event: "ticket_status_changed" }),
+      ).toBe(false);
+      expect(
+        service.shouldNotify(preferences, {
+          event: "ticket_status_changed",
+          channel: "push",
+        }),
+      ).toBe(true);
+      expect(service.shouldNotify(preferences, { event: "pm_due" })).toBe(true);
+    });
+
+    it("should not send on a channel that is switched off", () => {
+      const preferences = prefs({
+        sms: false,
+        events: { ticket_escalated: { sms: true } },
+      });
+
+      expect(
+        service.shouldNotify(preferences, {
+          event: "ticket_escalated",
+          channel: "sms",
+        }),
+      ).toBe(false);
+    });
+
+    it("should scope broadcasts to the user's locations", () => {
+      const preferences = prefs({ location_ids: ["location-1"] });
+
+      expect(
+        service.shouldNotify(preferences, {
+          event: "ticket_created",
+          locationIds: ["location-2"],
+        }),
+      ).toBe(false);
+      expect(
+        service.shouldNotify(preferences, {
+          event: "compliance_expiring",
+          locationIds: [null, "location-2", "location-1"],
+        }),
+      ).toBe(true);
+      // Tenant-wide notifications aren't location-specific
+      expect(
+        service.shouldNotify(preferences, {
+          event: "compliance_expiring",
+          locationIds: [null],
+        }),
+      ).toBe(true);
+    });
+
+    it("should always deliver direct notifications regardless of location", () => {
+      const preferences = prefs({ location_ids: ["location-1"] });
+
+      expect(
+        service.shouldNotify(preferences, {
+          event: "ticket_assigned",
+          locationIds: ["location-2"],
+        }),
+      ).toBe(true);
+    });
+
+    it("should hold notifications during quiet hours", () => {
+      const preferences = prefs({ quiet_hours: quietHours });
+
+      expect(
+        service.shouldNotify(preferences, {
+          event: "ticket_created",
+          now: lateEvening,
+        }),
+      ).toBe(false);
+      expect(
+        service.shouldNotify(
+          preferences,
+          { event: "ticket_created", now: lateEvening },
+          true,
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe("isWithinQuietHours", () => {
+    it("should handle windows that span midnight", () => {
+      // 06:59 and 07:00 New York time
+      expect(
+        service.isWithinQuietHours(
+          quietHours,
+          new Date("2026-04-02T10:59:00Z"),
+        ),
+      ).toBe(true);
+      expect(
+        service.isWithinQuietHours(
+          quietHours,
+          new Date("2026-04-02T11:00:00Z"),
+        ),
+      ).toBe(false);
+    });
+
+    it("should ignore disabled quiet hours and bad timezones", () => {
+      expect(
+        service.isWithinQuietHours(
+          { ...quietHours, enabled: false },
+          lateEvening,
+        ),
+      ).toBe(false);
+      expect(
+        service.isWithinQuietHours(
+          { ...quietHours, timezone: "Not/AZone" },
+          lateEvening,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe("filterRecipients", () => {
+    const users = () => [
+      createUser("quiet", { quiet_hours: quietHours }),
+      createUser("awake"),
+      createUser("opted-out", {
+        events: { ticket_escalated: { email: false } },
+      }),
+    ];
+
+    it("should let critical notifications through quiet hours by default", async () => {
+      when(mockPolicyDAO.findCurrent()).thenResolve(null);
+
+      const recipients = await service.filterRecipients(users(), {
+        event: "ticket_escalated",
+        critical: true,
+        now: lateEvening,
+      });
+
+      expect(recipients.map((u) => u.id)).toEqual(["quiet", "awake"]);
+    });
+
+    it("should hold critical notifications when the tenant disallows it", async () => {
+      when(mockPolicyDAO.findCurrent()).thenResolve({
+        id: "policy-1",
+        critical_overrides_quiet_hours: false,
+      } as NotificationPolicyRow);
+
+      const recipients = await service.filterRecipients(users(), {
+        event: "ticket_escalated",
+        critical: true,
+        now: lateEvening,
+      });
+
+      expect(recipients.map((u) => u.id)).toEqual(["awake"]);
+    });
+
+    it("should not look up the policy for routine notifications", async () => {
+      await service.filterRecipients(users(), {
+        event: "ticket_escalated",
+        now: lateEvening,
+      });
+
+      verify(mockPolicyDAO.findCurrent()).never();
+    });
+  });
+
+  describe("updatePreferences", () => {
+    it("should merge event settings into saved preferences", async () => {
+      when(mockUserDAO.findById("user-1")).thenResolve(
+        createUser("user-1", {
+          events: { pm_due: { email: false } },
+          quiet_hours: quietHours,
+        }),
+      );
+      when(mockUserDAO.update(anything(), anything())).thenResolve(
+        createUser("user-1"),
+      );
+
+      const updated = await service.updatePreferences("user-1", {
+        events: { ticket_created: { push: false } },
+      });
+
+      expect(updated.events).toEqual({
+        pm_due: { email: false },
+        ticket_created: { push: false },
+      });
+      expect(updated.quiet_hours).toEqual(quietHours);
+
+      const [, saved] = capture(mockUserDAO.update).last();
+      expect(saved.notification_preferences).toEqual(updated);
+    });
+  });
+});
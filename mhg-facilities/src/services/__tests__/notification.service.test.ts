@@ -0,0 +1,251 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { instance, mock, when, anything, verify, capture } from "ts-mockito";
+import { NotificationService } from "../notification.service";
+import {
+  NotificationPreferenceService,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+} from "../notification-preference.service";
+import { OnCallScheduleService } from "../on-call-schedule.service";
+import { ResendIAO } from "@/iao/resend";
+import { ConsoleChannelIAO } from "@/iao/console";
+import type { ChannelIAO } from "@/iao/channels";
+import { UserDAO } from "@/dao/user.dao";
+import { NotificationPolicyDAO } from "@/dao/notification-policy.dao";
+import { PushSubscriptionDAO } from "@/dao/push-subscription.dao";
+import { NotificationDAO } from "@/dao/notification.dao";
+import type { Json } from "@/types/database";
+import type {
+  Database,
+  NotificationPolicyRow,
+  NotificationRow,
+  PushSubscriptionRow,
+} from "@/types/database-extensions";
+import type { NotificationPreferences } from "@/types";
+
+type Ticket = Database["public"]["Tables"]["tickets"]["Row"];
+type User = Database["public"]["Tables"]["users"]["Row"];
+type OnCallSchedule = Database["public"]["Tables"]["on_call_schedules"]["Row"];
+
+describe("NotificationService channel routing", () => {
+  let service: NotificationService;
+  let mockResendIAO: ResendIAO;
+  let mockUserDAO: UserDAO;
+  let mockPolicyDAO: NotificationPolicyDAO;
+  let mockPushSubscriptionDAO: PushSubscriptionDAO;
+  let mockOnCallService: OnCallScheduleService;
+  let mockNotificationDAO: NotificationDAO;
+  let sms: ConsoleChannelIAO<"sms">;
+  let slack: ConsoleChannelIAO<"slack">;
+  let push: ChannelIAO<"push">;
+
+  const createUser = (
+    id: string,
+    preferences: Partial<NotificationPreferences> = {},
+  ): User =>
+    ({
+      id,
+      email: `${id}@example.com`,
+      phone: `+1-555-${id}`,
+      full_name: `User ${id}`,
+      role: "manager",
+      is_active: true,
+      notification_preferences: {
+        ...DEFAULT_NOTIFICATION_PREFERENCES,
+        ...preferences,
+      } as unknown as Json,
+    }) as User;
+
+  const createTicket = (overrides: Partial<Ticket> = {}): Ticket =>
+    ({
+      id: "ticket-1",
+      ticket_number: 42,
+      title: "Walk-in cooler not holding temp",
+      description: null,
+      priority: "medium",
+      is_emergency: false,
+      location_id: "location-1",
+      ...overrides,
+    }) as Ticket;
+
+  const subscription = (userId: string): PushSubscriptionRow => ({
+    id: `sub-${userId}`,
+    tenant_id: "tenant-1",
+    user_id: userId,
+    endpoint: `https://push.example.com/${userId}`,
+    p256dh: "key",
+    auth: "secret",
+    user_agent: null,
+    created_at: "2026-03-12T00:00:00Z",
+    updated_at: "2026-03-12T00:00:00Z",
+    deleted_at: null,
+  });
+
+  const submitter = createUser("submitter");
+  const manager = createUser("manager");
+  const onCallUser = createUser("on-call", { sms: false });
+
+  beforeEach(() => {
+    mockResendIAO = mock(ResendIAO);
+    mockUserDAO = mock(UserDAO);
+    mockPolicyDAO = mock(NotificationPolicyDAO);
+    mockPushSubscriptionDAO = mock(PushSubscriptionDAO);
+    mockOnCallService = mock(OnCallScheduleService);
+    mockNotificationDAO = mock(NotificationDAO);
+
+    sms = new ConsoleChannelIAO("sms");
+    slack = new ConsoleChannelIAO("slack");
+    push = new ConsoleChannelIAO("push");
+
+    when(mockUserDAO.findByRole("admin")).thenResolve([]);
+    when(mockUserDAO.findByRole("manager")).thenResolve([manager, submitter]);
+    when(mockUserDAO.findById("on-call")).thenResolve(onCallUser);
+    when(mockPolicyDAO.findCurrent()).thenResolve({
+      id: "policy-1",
+      critical_overrides_quiet_hours: true,
+      slack_webhook_url: "https://hooks.slack.com/services/T/B/X",
+    } as NotificationPolicyRow);
+    when(mockPushSubscriptionDAO.findByUserIds(anything())).thenCall(
+      async (userIds: string[]) => userIds.map(subscription),
+    );
+    when(mockOnCallService.getCurrentOnCall("location-1")).thenResolve({
+      user_id: "on-call",
+    } as OnCallSchedule);
+    when(mockNotificationDAO.createMany(anything())).thenCall(
+      async (rows: NotificationRow[]) =>
+        rows.map((row, i) => ({ ...row, id: `notification-${i}` })),
+    );
+
+    const preferenceService = new NotificationPreferenceService(
+      instance(mockUserDAO),
+      instance(mockPolicyDAO),
+      instance(mockPushSubscriptionDAO),
+    );
+
+    service = new NotificationService(
+      instance(mockResendIAO),
+      instance(mockUserDAO),
+      preferenceService,
+      { sms, slack, push },
+      instance(mockPushSubscriptionDAO),
+      instance(mockOnCallService),
+      instance(mockNotificationDAO),
+    );
+  });
+
+  it("should only push routine tickets", async () => {
+    await service.notifyNewTicketCreated({
+      ticket: createTicket(),
+      submitter,
+      locationName: "Main St",
+    });
+
+    expect((push as ConsoleChannelIAO<"push">).sent).toHaveLength(1);
+    expect((push as ConsoleChannelIAO<"push">).sent[0].target.endpoint).toBe(
+      "https://push.example.com/manager",
+    );
+    expect(sms.sent).toHaveLength(0);
+    expect(slack.sent).toHaveLength(0);
+    verify(mockOnCallService.getCurrentOnCall(anything())).never();
+    verify(mockResendIAO.sendNewTicketEmail(anything())).once();
+  });
+
+  it("should text the on-call and post to Slack for emergencies", async () => {
+    await service.notifyNewTicketCreated({
+      ticket: createTicket({ is_emergency: true }),
+      submitter,
+      locationName: "Main St",
+    });
+
+    // The manager has SMS switched off; the on-call is texted regardless
+    expect(sms.sent.map((s) => s.target)).toEqual([onCallUser.phone]);
+    expect(sms.sent[0].message.severity).toBe("critical");
+
+    expect(slack.sent).toHaveLength(1);
+    expect(slack.sent[0].target).toBe("https://hooks.slack.com/services/T/B/X");
+    expect(slack.sent[0].message.body).toContain("On call: User on-call");
+  });
+
+  it("should text opted-in recipients about SLA escalations", async () => {
+    const texter = createUser("texter", { sms: true });
+
+    await service.notifyTicketEscalation({
+      ticket: createTicket({ priority: "high" }),
+      level: 1,
+      reason: "Response SLA breached",
+      recipients: [manager, texter],
+    });
+
+    expect(sms.sent.map((s) => s.target)).toEqual([texter.phone]);
+    expect(slack.sent).toHaveLength(0);
+  });
+
+  it("should drop push subscriptions the push service reports gone", async () => {
+    push = {
+      channel: "push",
+      isConfigured: () => true,
+      send: async () => {
+        throw new Error("Push subscription expired");
+      },
+    };
+    service = new NotificationService(
+      instance(mockResendIAO),
+      instance(mockUserDAO),
+      new NotificationPreferenceService(
+        instance(mockUserDAO),
+        instance(mockPolicyDAO),
+        instance(mockPushSubscriptionDAO),
+      ),
+      { sms, slack, push },
+      instance(mockPushSubscriptionDAO),
+      instance(mockOnCallService),
+      instance(mockNotificationDAO),
+    );
+
+    await service.notifyPMDue({
+      schedule: {
+        id: "schedule-1",
+        name: "Hood cleaning",
+        location_id: "location-1",
+      } as Database["public"]["Tables"]["pm_schedules"]["Row"],
+      assignee: manager,
+      dueDate: "2026-03-15",
+    });
+
+    verify(mockPushSubscriptionDAO.softDelete("sub-manager")).once();
+    verify(mockResendIAO.sendPMDueReminderEmail(anything())).once();
+  });
+
+  it("should put PM reminders in the assignee's inbox", async () => {
+    const deliveries = await service.notifyPMDue({
+      schedule: {
+        id: "schedule-1",
+        name: "Hood cleaning",
+        location_id: "location-1",
+      } as Database["public"]["Tables"]["pm_schedules"]["Row"],
+      assignee: manager,
+      dueDate: "2026-03-15",
+    });
+
+    const [rows] = capture(mockNotificationDAO.createMany).last();
+    expect(rows).toEqual([
+      expect.objectContaining({
+        user_id: "manager",
+        event: "pm_due",
+        link: "/pm/schedule-1",
+      }),
+    ]);
+    expect(deliveries).toContainEqual(
+      expect.objectContaining({ channel: "in_app", status: "sent" }),
+    );
+  });
+
+  it("should not put new ticket alerts in the inbox", async () => {
+    await service.notifyNewTicketCreated({
+      ticket: createTicket(),
+      submitter,
+      locationName: "Main St",
+    });
+
+    verify(mockNotificationDAO.createMany(anything())).never();
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { instance, mock, when, anything, verify, capture } from "ts-mockito";
+import { PMChecklistService } from "../pm-checklist.service";
+import { PMCompletionDAO } from "@/dao/pm-completion.dao";
+import { PMScheduleDAO } from "@/dao/pm-schedule.dao";
+import { PMTemplateDAO } from "@/dao/pm-template.dao";
+import type { Database } from "@/types/database";
+import type {
+  PMCompletionRow,
+  PMTemplateRow,
+} from "@/types/database-extensions";
+import type { PMChecklist } from "@/types";
+
+type PMSchedule = Database["public"]["Tables"]["pm_schedules"]["Row"];
+
+describe("PMChecklistService", () => {
+  let service: PMChecklistService;
+  let mockCompletionDAO: PMCompletionDAO;
+  let mockScheduleDAO: PMScheduleDAO;
+  let mockTemplateDAO: PMTemplateDAO;
+
+  const checklist: PMChecklist = {
+    items: [
+      {
+        id: "filters",
+        label: "Replace filters",
+        type: "pass_fail",
+        required: true,
+      },
+      {
+        id: "pressure",
+        label: "Refrigerant pressure",
+        type: "reading",
+        required: true,
+        unit: "psi",
+        min: 60,
+        max: 80,
+      },
+      { id: "notes", label: "Observations", type: "text", required: false },
+      { id: "photo", label: "Photo of unit", type: "photo", required: true },
+    ],
+  };
+
+  const occurrence: PMCompletionRow = {
+    id: "completion-1",
+    schedule_id: "schedule-1",
+    ticket_id: "ticket-1",
+    scheduled_date: "2026-03-01",
+    completed_date: null,
+    completed_by: null,
+    checklist_results: null,
+    notes: null,
+    created_at: "2026-03-01T06:00:00Z",
+    deleted_at: null,
+  };
+
+  beforeEach(() => {
+    mockCompletionDAO = mock(PMCompletionDAO);
+    mockScheduleDAO = mock(PMScheduleDAO);
+    mockTemplateDAO = mock(PMTemplateDAO);
+
+    when(mockCompletionDAO.findByTicket("ticket-1")).thenResolve(occurrence);
+    when(mockScheduleDAO.findById("schedule-1")).thenResolve({
+      id: "schedule-1",
+      template_id: "template-1",
+    } as PMSchedule);
+    when(mockTemplateDAO.findById("template-1")).thenResolve({
+      id: "template-1",
+      checklist,
+    } as PMTemplateRow);
+
+    service = new PMChecklistService(
+      instance(mockCompletionDAO),
+      instance(mockScheduleDAO),
+      instance(mockTemplateDAO),
+    );
+  });
+
+  describe("evaluate", () => {
+    it("should list required items without an answer", () => {
+      const result = service.evaluate(checklist, {
+        items: [{ item_id: "filters", passed: true }],
+      });
+
+      expect(result.complete).toBe(false);
+      expect(result.missing.map((i) => i.id)).toEqual(["pressure", "photo"]);
+      expect(result.failed).toHaveLength(0);
+    });
+
+    it("should flag failed checks and out-of-range readings", () => {
+      const result = service.evaluate(checklist, {
+        items: [
+          { item_id: "filters", passed: false },
+          { item_id: "pressure", value: 92 },
+          { item_id: "photo", attachment_ids: ["attachment-1"] },
+        ],
+      });
+
+      expect(result.complete).toBe(true);
+      expect(result.failed.map((i) => i.id)).toEqual(["filters", "pressure"]);
+    });
+
+    it("should accept readings inside the range", () => {
+      const result = service.evaluate(checklist, {
+        items: [
+          { item_id: "filters", passed: true },
+          { item_id: "pressure", value: 70 },
+          { item_id: "photo", attachment_ids: ["attachment-1"] },
+        ],
+      });
+
+      expect(result.failed).toHaveLength(0);
+    });
+  });
+
+  describe("parseChecklist", () => {
+    it("should turn legacy label lists into required pass/fail items", () => {
+      const parsed = service.parseChecklist(["Check belts", "Clean coils"]);
+
+      expect(parsed.items).toEqual([
+        {
+          id: "item-1",
+          label: "Check belts",
+          type: "pass_fail",
+          required: true,
+        },
+        {
+          id: "item-2",
+          label: "Clean coils",
+          type: "pass_fail",
+          required: true,
+        },
+      ]);
+    });
+
+    it("should return no items for empty values", () => {
+      expect(service.parseChecklist(null).items).toHaveLength(0);
+    });
+  });
+
+  describe("getTicketChecklist", () => {
+    it("should return null for tickets not generated from a schedule", async () => {
+      when(mockCompletionDAO.findByTicket("ticket-2")).thenResolve(null);
+
+      expect(await service.getTicketChecklist("ticket-2")).toBeNull();
+    });
+
+    it("should include the evaluation of saved progress", async () => {
+      const result = await service.getTicketChecklist("ticket-1");
+
+      expect(result?.occurrence_id).toBe("completion-1");
+      expect(result?.evaluation.missing).toHaveLength(3);
+    });
+  });
+
+  describe("saveTicketChecklistProgress", () => {
+    it("should merge answers and keep existing follow-up tickets", async () => {
+      when(mockCompletionDAO.findByTicket("ticket-1")).thenResolve({
+        ...occurrence,
+        checklist_results: {
+          items: [
+            {
+              item_id: "filters",
+              passed: false,
+              follow_up_ticket_id: "ticket-9",
+            },
+          ],
+        },
+      });
+      when(mockCompletionDAO.update(anything(), anything())).thenResolve(
+        occurrence,
+      );
+
+      await service.saveTicketChecklistProgress("ticket-1", {
+        items: [
+          { item_id: "pressure", value: 72 },
+          { item_id: "unknown", passed: true },
+        ],
+      });
+
+      const [, update] = capture(mockCompletionDAO.update).last();
+      expect(update.checklist_results).toEqual({
+        items: [
+          {
+            item_id: "filters",
+            passed: false,
+            follow_up_ticket_id: "ticket-9",
+          },
+          { item_id: "pressure", value: 72, follow_up_ticket_id: null },
+        ],
+      });
+    });
+
+    it("should reject changes once the occurrence is completed", async () => {
+      when(mockCompletionDAO.findByTicket("ticket-1")).thenResolve({
+        ...occurrence,
+        completed_date: "2026-03-02",
+      });
+
+      await expect(
+        service.saveTicketChecklistProgress("ticket-1", { items: [] }),
+      ).rejects.toThrow("Cannot update checklist");
+      verify(mockCompletionDAO.update(anything(), anything())).never();
+    });
+  });
+});
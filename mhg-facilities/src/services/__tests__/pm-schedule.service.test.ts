@@ -1,14 +1,34 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
-import { instance, mock, when, anything, verify } from "ts-mockito";
+import {
+  instance,
+  mock,
+  when,
+  anything,
+  verify,
+  capture,
+  deepEqual,
+} from "ts-mockito";
 import { PMScheduleService } from "../pm-schedule.service";
 import { PMScheduleDAO } from "@/dao/pm-schedule.dao";
 import { PMTemplateDAO } from "@/dao/pm-template.dao";
 import { PMCompletionDAO } from "@/dao/pm-completion.dao";
+import { UserDAO } from "@/dao/user.dao";
+import { AssetDAO } from "@/dao/asset.dao";
+import { LocationDAO } from "@/dao/location.dao";
+import { AssetMeterDAO } from "@/dao/asset-meter.dao";
 import { TicketService } from "../ticket.service";
+import { NotificationOutboxService } from "../notification-outbox.service";
+import { AssetHistoryService } from "../asset-history.service";
 import type { Database } from "@/types/database";
+import type {
+  AssetMeterRow,
+  PMCompletionRow,
+} from "@/types/database-extensions";
 
 type PMSchedule = Database["public"]["Tables"]["pm_schedules"]["Row"];
 type PMFrequency = Database["public"]["Enums"]["pm_frequency"];
+type Ticket = Database["public"]["Tables"]["tickets"]["Row"];
+type User = Database["public"]["Tables"]["users"]["Row"];
 
 describe("PMScheduleService", () => {
   let service: PMScheduleService;
@@ -16,6 +36,12 @@ describe("PMScheduleService", () => {
   let mockTemplateDAO: PMTemplateDAO;
   let mockTicketService: TicketService;
   let mockCompletionDAO: PMCompletionDAO;
+  let mockUserDAO: UserDAO;
+  let mockAssetDAO: AssetDAO;
+  let mockLocationDAO: LocationDAO;
+  let mockMeterDAO: AssetMeterDAO;
+  let mockOutboxService: NotificationOutboxService;
+  let mockAssetHistoryService: AssetHistoryService;
 
   const createMockSchedule = (
     overrides: Partial<PMSchedule> = {},
@@ -28,6 +54,11 @@ describe("PMScheduleService", () => {
     asset_id: "asset-1",
     location_id: null,
     frequency: "monthly" as PMFrequency,
+    scheduling_mode: "fixed",
+    trigger_type: "calendar",
+    meter_id: null,
+    meter_interval: null,
+    meter_last_service_reading: null,
     day_of_week: null,
     day_of_month: 15,
     month_of_year: null,
@@ -48,12 +79,27 @@ describe("PMScheduleService", () => {
     mockTemplateDAO = mock(PMTemplateDAO);
     mockTicketService = mock(TicketService);
     mockCompletionDAO = mock(PMCompletionDAO);
+    mockUserDAO = mock(UserDAO);
+    mockAssetDAO = mock(AssetDAO);
+    mockLocationDAO = mock(LocationDAO);
+    mockMeterDAO = mock(AssetMeterDAO);
+    mockOutboxService = mock(NotificationOutboxService);
+    mockAssetHistoryService = mock(AssetHistoryService);
+
+    when(mockScheduleDAO.findActiveMeterTriggered(anything())).thenResolve([]);
+    when(mockOutboxService.enqueue(anything(), anything())).thenResolve();
 
     service = new PMScheduleService(
       instance(mockScheduleDAO),
       instance(mockTemplateDAO),
       instance(mockTicketService),
       instance(mockCompletionDAO),
+      instance(mockUserDAO),
+      instance(mockAssetDAO),
+      instance(mockLocationDAO),
+      instance(mockMeterDAO),
+      instance(mockOutboxService),
+      instance(mockAssetHistoryService),
     );
   });
 
@@ -575,4 +621,469 @@ describe("PMScheduleService", () => {
       );
     });
   });
+
+  describe("generateTickets", () => {
+    const pendingRow = (scheduledDate: string): PMCompletionRow => ({
+      id: `completion-${scheduledDate}`,
+      schedule_id: "schedule-1",
+      ticket_id: null,
+      scheduled_date: scheduledDate,
+      completed_date: null,
+      completed_by: null,
+      checklist_results: null,
+      notes: null,
+      created_at: "2026-03-04T06:00:00Z",
+      deleted_at: null,
+    });
+
+    const dailySchedule = () =>
+      createMockSchedule({
+        frequency: "daily",
+        day_of_month: null,
+        asset_id: null,
+        location_id: "location-1",
+        assigned_to: "tech-1",
+        next_due_date: "2026-03-03",
+      });
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2026-03-04T12:00:00Z"));
+
+      when(mockUserDAO.findById("tech-1")).thenResolve({
+        id: "tech-1",
+        is_active: true,
+      } as User);
+      when(
+        mockCompletionDAO.findByScheduleAndDate(anything(), anything()),
+      ).thenResolve(null);
+      when(mockCompletionDAO.createPending(anything(), anything())).thenCall(
+        async (_scheduleId: string, date: string) => pendingRow(date),
+      );
+      when(mockTicketService.createTicket(anything())).thenResolve({
+        id: "ticket-1",
+      } as Ticket);
+    });
+
+    it("should generate one ticket per due occurrence and roll next_due_date", async () => {
+      when(mockScheduleDAO.findActive()).thenResolve([dailySchedule()]);
+
+      const results = await service.generateTickets();
+
+      expect(results.map((r) => [r.scheduled_date, r.status])).toEqual([
+        ["2026-03-03", "generated"],
+        ["2026-03-04", "generated"],
+      ]);
+      verify(
+        mockCompletionDAO.update(
+          "completion-2026-03-03",
+          deepEqual({ ticket_id: "ticket-1" }),
+        ),
+      ).once();
+
+      const [, update] = capture(mockScheduleDAO.update).last();
+      expect(update).toMatchObject({ next_due_date: "2026-03-05" });
+
+      const [input] = capture(mockTicketService.createTicket).last();
+      expect(input.submitted_by).toBe("tech-1");
+      expect(input.due_date).toBe("2026-03-04");
+      expect(input.routing?.assigned_to).toBe("tech-1");
+    });
+
+    it("should skip occurrences that were already generated", async () => {
+      when(mockScheduleDAO.findActive()).thenResolve([dailySchedule()]);
+      when(
+        mockCompletionDAO.findByScheduleAndDate("schedule-1", "2026-03-03"),
+      ).thenResolve({ ...pendingRow("2026-03-03"), ticket_id: "ticket-0" });
+
+      const results = await service.generateTickets();
+
+      expect(results[0]).toMatchObject({
+        status: "skipped",
+        ticket_id: "ticket-0",
+      });
+      expect(results[1].status).toBe("generated");
+      verify(mockTicketService.createTicket(anything())).once();
+    });
+
+    it("should generate unassigned schedules with a system submitter and template vendor", async () => {
+      when(mockScheduleDAO.findActive()).thenResolve([
+        createMockSchedule({
+          asset_id: "asset-1",
+          template_id: "template-1",
+          next_due_date: "2026-02-15",
+        }),
+      ]);
+      when(mockAssetDAO.findById("asset-1")).thenResolve({
+        id: "asset-1",
+        location_id: "location-1",
+      } as Awaited<ReturnType<AssetDAO["findById"]>>);
+      when(mockTemplateDAO.findById("template-1")).thenResolve({
+        id: "template-1",
+        description: "Inspect filters",
+        default_vendor_id: "vendor-1",
+      } as Awaited<ReturnType<PMTemplateDAO["findById"]>>);
+      when(mockLocationDAO.findById("location-1")).thenResolve({
+        id: "location-1",
+        manager_id: null,
+      } as Awaited<ReturnType<LocationDAO["findById"]>>);
+      when(mockUserDAO.findAdmins()).thenResolve([
+        { id: "admin-1", is_active: true } as User,
+      ]);
+
+      const results = await service.generateTickets();
+
+      expect(results).toHaveLength(1);
+      const [input] = capture(mockTicketService.createTicket).last();
+      expect(input.location_id).toBe("location-1");
+      expect(input.submitted_by).toBe("admin-1");
+      expect(input.description).toBe("Inspect filters");
+      expect(input.routing).toMatchObject({
+        assigned_to: null,
+        vendor_id: "vendor-1",
+      });
+    });
+
+    it("should release the occurrence and stop when ticket creation fails", async () => {
+      when(mockScheduleDAO.findActive()).thenResolve([dailySchedule()]);
+      when(mockTicketService.createTicket(anything())).thenReject(
+        new Error("Location not found"),
+      );
+      when(mockCompletionDAO.release(anything())).thenResolve();
+
+      const results = await service.generateTickets();
+
+      expect(results).toEqual([
+        expect.objectContaining({
+          scheduled_date: "2026-03-03",
+          status: "failed",
+          message: "Location not found",
+        }),
+      ]);
+      verify(mockCompletionDAO.release("completion-2026-03-03")).once();
+      verify(mockScheduleDAO.update(anything(), anything())).never();
+    });
+
+    it("should backfill occurrences in a range without moving next_due_date back", async () => {
+      when(mockScheduleDAO.findActive()).thenResolve([
+        createMockSchedule({
+          frequency: "weekly",
+          day_of_week: 1, // Monday
+          day_of_month: null,
+          location_id: "location-1",
+          asset_id: null,
+          assigned_to: "tech-1",
+          next_due_date: "2026-03-09",
+          created_at: "2026-01-01T00:00:00Z",
+        }),
+      ]);
+
+      const results = await service.generateTickets({
+        from: "2026-02-01",
+        to: "2026-02-20",
+      });
+
+      expect(results.map((r) => r.scheduled_date)).toEqual([
+        "2026-02-02",
+        "2026-02-09",
+        "2026-02-16",
+      ]);
+      verify(mockScheduleDAO.update(anything(), anything())).never();
+    });
+
+    it("should wait on an open occurrence for floating schedules", async () => {
+      when(mockScheduleDAO.findActive()).thenResolve([
+        { ...dailySchedule(), scheduling_mode: "floating" },
+      ]);
+      when(mockCompletionDAO.findPendingBySchedule("schedule-1")).thenResolve({
+        ...pendingRow("2026-03-02"),
+        ticket_id: "ticket-0",
+      });
+
+      const results = await service.generateTickets();
+
+      expect(results).toEqual([
+        expect.objectContaining({ status: "skipped", ticket_id: "ticket-0" }),
+      ]);
+      verify(mockTicketService.createTicket(anything())).never();
+    });
+
+    it("should reject ranges that end in the future", async () => {
+      await expect(
+        service.generateTickets({ to: "2026-03-05" }),
+      ).rejects.toThrow("Cannot generate PM occurrences after today");
+    });
+  });
+
+  describe("recordTicketCompletion", () => {
+    const occurrence: PMCompletionRow = {
+      id: "completion-1",
+      schedule_id: "schedule-1",
+      ticket_id: "ticket-1",
+      scheduled_date: "2026-02-15",
+      completed_date: null,
+      completed_by: null,
+      checklist_results: { items: [{ item_id: "item-1", passed: true }] },
+      notes: null,
+      created_at: "2026-02-15T06:00:00Z",
+      deleted_at: null,
+    };
+
+    beforeEach(() => {
+      when(mockCompletionDAO.findByTicket("ticket-1")).thenResolve(occurrence);
+      when(mockCompletionDAO.update(anything(), anything())).thenCall(
+        async (_id: string, data: Partial<PMCompletionRow>) => ({
+          ...occurrence,
+          ...data,
+        }),
+      );
+    });
+
+    it("should keep the scheduled date and not drift a fixed schedule", async () => {
+      // Generation already moved the schedule past this occurrence
+      when(mockScheduleDAO.findById("schedule-1")).thenResolve(
+        createMockSchedule({ next_due_date: "2026-03-15" }),
+      );
+
+      const completion = await service.recordTicketCompletion(
+        "ticket-1",
+        "user-1",
+        { completedAt: "2026-03-04T15:00:00Z" },
+      );
+
+      expect(completion).toMatchObject({
+        scheduled_date: "2026-02-15",
+        completed_date: "2026-03-04",
+        completed_by: "user-1",
+        checklist_results: { items: [{ item_id: "item-1", passed: true }] },
+      });
+      verify(mockScheduleDAO.update(anything(), anything())).never();
+    });
+
+    it("should restart a floating schedule from the completion date", async () => {
+      when(mockScheduleDAO.findById("schedule-1")).thenResolve(
+        createMockSchedule({
+          scheduling_mode: "floating",
+          next_due_date: "2026-03-15",
+        }),
+      );
+
+      await service.recordTicketCompletion("ticket-1", "user-1", {
+        completedAt: "2026-03-20T15:00:00Z",
+        checklistResults: { items: [{ item_id: "item-1", passed: false }] },
+      });
+
+      verify(
+        mockScheduleDAO.update(
+          "schedule-1",
+          deepEqual({ next_due_date: "2026-04-15" }),
+        ),
+      ).once();
+      const [, update] = capture(mockCompletionDAO.update).last();
+      expect(update.checklist_results).toEqual({
+        items: [{ item_id: "item-1", passed: false }],
+      });
+    });
+
+    it("should ignore tickets that were not generated from a schedule", async () => {
+      when(mockCompletionDAO.findByTicket("ticket-2")).thenResolve(null);
+
+      const completion = await service.recordTicketCompletion(
+        "ticket-2",
+        "user-1",
+      );
+
+      expect(completion).toBeNull();
+      verify(mockCompletionDAO.update(anything(), anything())).never();
+    });
+
+    it("should not record an occurrence twice", async () => {
+      when(mockCompletionDAO.findByTicket("ticket-1")).thenResolve({
+        ...occurrence,
+        completed_date: "2026-03-01",
+      });
+
+      await service.recordTicketCompletion("ticket-1", "user-1");
+
+      verify(mockCompletionDAO.update(anything(), anything())).never();
+    });
+  });
+
+  describe("meter triggers", () => {
+    const meter: AssetMeterRow = {
+      id: "meter-1",
+      tenant_id: "tenant-1",
+      asset_id: "asset-1",
+      name: "Compressor runtime",
+      unit: "hours",
+      current_reading: 1250,
+      last_read_at: "2026-03-04T10:00:00Z",
+      created_at: "2026-01-01T00:00:00Z",
+      updated_at: "2026-03-04T10:00:00Z",
+      deleted_at: null,
+    };
+
+    const meterSchedule = (overrides: Partial<PMSchedule> = {}) =>
+      createMockSchedule({
+        frequency: null,
+        day_of_month: null,
+        next_due_date: null,
+        trigger_type: "meter",
+        meter_id: "meter-1",
+        meter_interval: 500,
+        meter_last_service_reading: 700,
+        assigned_to: "tech-1",
+        ...overrides,
+      });
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2026-03-04T12:00:00Z"));
+
+      when(mockMeterDAO.findById("meter-1")).thenResolve(meter);
+      when(mockAssetDAO.findById("asset-1")).thenResolve({
+        id: "asset-1",
+        location_id: "location-1",
+      } as Database["public"]["Tables"]["assets"]["Row"]);
+      when(mockUserDAO.findById("tech-1")).thenResolve({
+        id: "tech-1",
+        is_active: true,
+      } as User);
+    });
+
+    it("should create a meter-only schedule counting from the current reading", async () => {
+      when(mockScheduleDAO.create(anything())).thenCall(async (data) => data);
+
+      await service.createSchedule({
+        name: "Compressor service",
+        asset_id: "asset-1",
+        trigger_type: "meter",
+        meter_id: "meter-1",
+        meter_interval: 500,
+      });
+
+      const [data] = capture(mockScheduleDAO.create).last();
+      expect(data).toMatchObject({
+        frequency: null,
+        next_due_date: null,
+        meter_interval: 500,
+        meter_last_service_reading: 1250,
+      });
+    });
+
+    it("should float whichever-comes-first schedules", async () => {
+      when(mockScheduleDAO.create(anything())).thenCall(async (data) => data);
+
+      await service.createSchedule({
+        name: "Compressor service",
+        asset_id: "asset-1",
+        frequency: "quarterly",
+        trigger_type: "calendar_or_meter",
+        meter_id: "meter-1",
+        meter_interval: 500,
+      });
+
+      const [data] = capture(mockScheduleDAO.create).last();
+      expect(data.scheduling_mode).toBe("floating");
+      expect(data.next_due_date).not.toBeNull();
+    });
+
+    it("should reject a meter from a different asset", async () => {
+      await expect(
+        service.createSchedule({
+          name: "Compressor service",
+          asset_id: "asset-2",
+          trigger_type: "meter",
+          meter_id: "meter-1",
+          meter_interval: 500,
+        }),
+      ).rejects.toThrow("Cannot use a meter from a different asset");
+    });
+
+    it("should generate an occurrence once the interval is reached", async () => {
+      when(mockScheduleDAO.findActiveMeterTriggered("meter-1")).thenResolve([
+        meterSchedule(),
+      ]);
+      when(mockCompletionDAO.findPendingBySchedule("schedule-1")).thenResolve(
+        null,
+      );
+      when(
+        mockCompletionDAO.findByScheduleAndDate("schedule-1", "2026-03-04"),
+      ).thenResolve(null);
+      when(
+        mockCompletionDAO.createPending("schedule-1", "2026-03-04"),
+      ).thenResolve({
+        id: "completion-1",
+      } as PMCompletionRow);
+      when(mockTicketService.createTicket(anything())).thenResolve({
+        id: "ticket-1",
+      } as Ticket);
+
+      const results = await service.generateMeterTriggered("meter-1");
+
+      expect(results).toEqual([
+        expect.objectContaining({
+          scheduled_date: "2026-03-04",
+          status: "generated",
+          ticket_id: "ticket-1",
+        }),
+      ]);
+      const [input] = capture(mockTicketService.createTicket).last();
+      expect(input.description).toContain("reached 1250 hours (due at 1200)");
+    });
+
+    it("should not generate before the interval is reached", async () => {
+      when(mockScheduleDAO.findActiveMeterTriggered("meter-1")).thenResolve([
+        meterSchedule({ meter_last_service_reading: 1000 }),
+      ]);
+
+      const results = await service.generateMeterTriggered("meter-1");
+
+      expect(results).toHaveLength(0);
+      verify(mockTicketService.createTicket(anything())).never();
+    });
+
+    it("should wait for an open occurrence to be completed", async () => {
+      when(mockScheduleDAO.findActiveMeterTriggered("meter-1")).thenResolve([
+        meterSchedule(),
+      ]);
+      when(mockCompletionDAO.findPendingBySchedule("schedule-1")).thenResolve({
+        scheduled_date: "2026-03-01",
+        ticket_id: "ticket-0",
+      } as PMCompletionRow);
+
+      const results = await service.generateMeterTriggered("meter-1");
+
+      expect(results[0]).toMatchObject({
+        status: "skipped",
+        ticket_id: "ticket-0",
+      });
+      verify(mockTicketService.createTicket(anything())).never();
+    });
+
+    it("should restart the meter interval on completion", async () => {
+      const occurrence = {
+        id: "completion-1",
+        schedule_id: "schedule-1",
+        ticket_id: "ticket-1",
+        scheduled_date: "2026-03-04",
+        completed_date: null,
+        checklist_results: null,
+      } as PMCompletionRow;
+      when(mockCompletionDAO.findByTicket("ticket-1")).thenResolve(occurrence);
+      when(mockCompletionDAO.update(anything(), anything())).thenResolve(
+        occurrence,
+      );
+      when(mockScheduleDAO.findById("schedule-1")).thenResolve(meterSchedule());
+
+      await service.recordTicketCompletion("ticket-1", "user-1");
+
+      verify(
+        mockScheduleDAO.update(
+          "schedule-1",
+          deepEqual({ meter_last_service_reading: 1250 }),
+        ),
+      ).once();
+    });
+  });
 });
@@ -0,0 +1,269 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { instance, mock, when, anything, verify, capture } from "ts-mockito";
+import {
+  PublicAssetReportService,
+  PUBLIC_RATE_LIMITS,
+} from "../public-asset-report.service";
+import { TicketService } from "../ticket.service";
+import { TicketAttachmentService } from "../ticket-attachment.service";
+import { AssetDAO } from "@/dao/asset.dao";
+import { LocationDAO } from "@/dao/location.dao";
+import { TicketDAO } from "@/dao/ticket.dao";
+import { PublicRequestLogDAO } from "@/dao/public-request-log.dao";
+import type { Database } from "@/types/database";
+
+type Ticket = Database["public"]["Tables"]["tickets"]["Row"];
+type Asset = NonNullable<Awaited<ReturnType<AssetDAO["findByQRCode"]>>>;
+type Location = Database["public"]["Tables"]["locations"]["Row"];
+
+describe("PublicAssetReportService", () => {
+  let service: PublicAssetReportService;
+  let mockAssetDAO: AssetDAO;
+  let mockTicketDAO: TicketDAO;
+  let mockRequestLogDAO: PublicRequestLogDAO;
+  let mockTicketService: TicketService;
+  let mockAttachmentService: TicketAttachmentService;
+  let mockLocationDAO: LocationDAO;
+
+  const now = new Date("2026-03-22T12:00:00Z");
+
+  const photo = (name: string) =>
+    new File(["photo"], name, { type: "image/jpeg" });
+
+  const ticket = (number: number, overrides: Partial<Ticket> = {}): Ticket =>
+    ({
+      id: `ticket-${number}`,
+      ticket_number: number,
+      title: `Ticket ${number}`,
+      description: "Internal notes",
+      status: "submitted",
+      created_at: "2026-03-20T09:00:00Z",
+      ...overrides,
+    }) as Ticket;
+
+  beforeEach(() => {
+    mockAssetDAO = mock(AssetDAO);
+    mockTicketDAO = mock(TicketDAO);
+    mockRequestLogDAO = mock(PublicRequestLogDAO);
+    mockTicketService = mock(TicketService);
+    mockAttachmentService = mock(TicketAttachmentService);
+    mockLocationDAO = mock(LocationDAO);
+
+    when(mockAssetDAO.findTenantIdsByQRCode("QR-1")).thenResolve(["tenant-1"]);
+    when(mockAssetDAO.findTenantIdsByQRCode("QR-MISSING")).thenResolve([]);
+    when(mockAssetDAO.findTenantIdsByQRCode("LOC-1")).thenResolve([]);
+    when(mockLocationDAO.findTenantIdsByQRCode("QR-MISSING")).thenResolve([]);
+    when(mockLocationDAO.findTenantIdsByQRCode("LOC-1")).thenResolve([
+      "tenant-1",
+    ]);
+    when(mockAssetDAO.findByQRCode("LOC-1")).thenResolve(null);
+    when(mockLocationDAO.findByQRCode("LOC-1")).thenResolve({
+      id: "location-2",
+      name: "Uptown",
+    } as Location);
+    when(mockAssetDAO.findByQRCode("QR-1")).thenResolve({
+      id: "asset-1",
+      name: "Walk-in Freezer",
+      status: "active",
+      location_id: "location-1",
+      category: { name: "Refrigeration" },
+      location: { id: "location-1", name: "Downtown" },
+    } as unknown as Asset);
+    when(mockRequestLogDAO.create(anything(), anything())).thenResolve();
+    when(mockTicketService.createTicket(anything())).thenResolve(ticket(42));
+
+    service = new PublicAssetReportService(
+      instance(mockAssetDAO),
+      instance(mockTicketDAO),
+      instance(mockRequestLogDAO),
+      instance(mockTicketService),
+      instance(mockAttachmentService),
+      instance(mockLocationDAO),
+    );
+  });
+
+  describe("throttle", () => {
+    it("should log requests under the limit", async () => {
+      when(
+        mockRequestLogDAO.countSince("qr_report", "client-1", anything()),
+      ).thenResolve(PUBLIC_RATE_LIMITS.qr_report.limit - 1);
+
+      await service.throttle("qr_report", "client-1", now);
+
+      verify(mockRequestLogDAO.create("qr_report", "client-1")).once();
+      const [, , since] = capture(mockRequestLogDAO.countSince).last();
+      expect(since).toEqual(new Date("2026-03-22T11:00:00Z"));
+    });
+
+    it("should reject clients over the limit without logging", async () => {
+      when(
+        mockRequestLogDAO.countSince("qr_report", "client-1", anything()),
+      ).thenResolve(PUBLIC_RATE_LIMITS.qr_report.limit);
+
+      await expect(
+        service.throttle("qr_report", "client-1", now),
+      ).rejects.toThrow(/^Too many requests/);
+      verify(mockRequestLogDAO.create(anything(), anything())).never();
+    });
+  });
+
+  describe("getAssetView", () => {
+    it("should show the asset and only public ticket fields", async () => {
+      when(mockTicketDAO.findOpenByAsset("asset-1")).thenResolve([ticket(7)]);
+
+      const view = await service.getAssetView("QR-1");
+
+      expect(view).toEqual({
+        asset: {
+          id: "asset-1",
+          name: "Walk-in Freezer",
+          status: "active",
+          category_name: "Refrigeration",
+        },
+        location: { id: "location-1", name: "Downtown" },
+        open_tickets: [
+          {
+            ticket_number: 7,
+            title: "Ticket 7",
+            status: "submitted",
+            created_at: "2026-03-20T09:00:00Z",
+          },
+        ],
+      });
+    });
+
+    it("should show a location's tickets that aren't about an asset", async () => {
+      when(mockTicketDAO.findOpenByLocation("location-2")).thenResolve([
+        ticket(8),
+      ]);
+
+      const view = await service.getAssetView("LOC-1");
+
+      expect(view?.asset).toBeNull();
+      expect(view?.location).toEqual({ id: "location-2", name: "Uptown" });
+      expect(view?.open_tickets.map((t) => t.ticket_number)).toEqual([8]);
+      verify(mockTicketDAO.findOpenByAsset(anything())).never();
+    });
+
+    it("should return null for unknown codes", async () => {
+      expect(await service.getAssetView("QR-MISSING")).toBeNull();
+      verify(mockAssetDAO.findByQRCode(anything())).never();
+    });
+  });
+
+  describe("checkDuplicates", () => {
+    it("should check the asset's location and map to public fields", async () => {
+      when(
+        mockTicketService.checkForDuplicates(
+          "location-1",
+          "asset-1",
+          "Freezer warm",
+        ),
+      ).thenResolve([ticket(7)]);
+
+      const duplicates = await service.checkDuplicates("QR-1", "Freezer warm");
+
+      expect(duplicates).toEqual([
+        {
+          ticket_number: 7,
+          title: "Ticket 7",
+          status: "submitted",
+          created_at: "2026-03-20T09:00:00Z",
+        },
+      ]);
+    });
+  });
+
+  describe("submitReport", () => {
+    const input = {
+      title: "Freezer is warm",
+      reporter_name: "Dana",
+      reporter_phone: "555-0100",
+    };
+
+    it("should create an anonymous QR ticket prefilled from the asset", async () => {
+      const result = await service.submitReport(
+        "QR-1",
+        input,
+        [photo("a.jpg"), photo("b.jpg")],
+        null,
+      );
+
+      expect(result).toEqual({ ticket_number: 42, photos_uploaded: 2 });
+      const [created] = capture(mockTicketService.createTicket).last();
+      expect(created).toMatchObject({
+        title: "Freezer is warm",
+        location_id: "location-1",
+        asset_id: "asset-1",
+        submitted_by: null,
+        reporter_name: "Dana",
+        reporter_phone: "555-0100",
+        submitted_via: "qr",
+      });
+
+      const [upload] = capture(mockAttachmentService.uploadAttachment).first();
+      expect(upload).toMatchObject({
+        ticket_id: "ticket-42",
+        user_id: null,
+        attachment_type: "initial",
+      });
+    });
+
+    it("should report against a location's own code without an asset", async () => {
+      await service.submitReport("LOC-1", input, [], null);
+
+      const [created] = capture(mockTicketService.createTicket).last();
+      expect(created).toMatchObject({
+        location_id: "location-2",
+        asset_id: null,
+        submitted_via: "qr",
+      });
+    });
+
+    it("should credit signed-in staff from the asset's tenant", async () => {
+      await service.submitReport("QR-1", input, [], {
+        id: "user-1",
+        tenant_id: "tenant-1",
+      });
+      await service.submitReport("QR-1", input, [], {
+        id: "user-2",
+        tenant_id: "tenant-2",
+      });
+
+      const [staff] = capture(mockTicketService.createTicket).first();
+      const [outsider] = capture(mockTicketService.createTicket).second();
+      expect(staff.submitted_by).toBe("user-1");
+      expect(outsider.submitted_by).toBeNull();
+    });
+
+    it("should keep the ticket when a photo fails to upload", async () => {
+      when(mockAttachmentService.uploadAttachment(anything()))
+        .thenReject(new Error("Storage unavailable"))
+        .thenResolve();
+
+      const result = await service.submitReport(
+        "QR-1",
+        input,
+        [photo("a.jpg"), photo("b.jpg")],
+        null,
+      );
+
+      expect(result.photos_uploaded).toBe(1);
+    });
+
+    it("should reject too many photos before creating anything", async () => {
+      const photos = Array.from({ length: 6 }, (_, i) => photo(`${i}.jpg`));
+
+      await expect(
+        service.submitReport("QR-1", input, photos, null),
+      ).rejects.toThrow(/^Cannot attach more than 5/);
+      verify(mockTicketService.createTicket(anything())).never();
+    });
+
+    it("should reject unknown codes", async () => {
+      await expect(
+        service.submitReport("QR-MISSING", input, [], null),
+      ).rejects.toThrow("QR code not found");
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { instance, mock, when, anything, verify, capture } from "ts-mockito";
+import { QRLabelService, MAX_LABELS } from "../qr-label.service";
+import { LocationService } from "../location.service";
+import { AssetDAO, type AssetWithRelations } from "@/dao/asset.dao";
+import { LocationDAO } from "@/dao/location.dao";
+import { StorageIAO } from "@/iao/storage";
+import type { Database } from "@/types/database";
+
+type Location = Database["public"]["Tables"]["locations"]["Row"];
+
+describe("QRLabelService", () => {
+  let service: QRLabelService;
+  let mockAssetDAO: AssetDAO;
+  let mockLocationDAO: LocationDAO;
+  let mockLocationService: LocationService;
+  let mockStorageIAO: StorageIAO;
+
+  const asset = (index: number, qrCode: string | null) =>
+    ({
+      id: `asset-${index}`,
+      name: `Freezer ${index}`,
+      serial_number: `SN-${index}`,
+      qr_code: qrCode,
+      location: { id: "location-1", name: "Downtown" },
+    }) as unknown as AssetWithRelations;
+
+  const location = (id: string, qrCode: string | null) =>
+    ({
+      id,
+      name: `Store ${id}`,
+      address: "1 Main St",
+      city: "Springfield",
+      qr_code: qrCode,
+    }) as Location;
+
+  const pageCount = (content: Uint8Array) =>
+    new TextDecoder("latin1").decode(content).match(/\/Type \/Page\b(?!s)/g)
+      ?.length ?? 0;
+
+  beforeEach(() => {
+    mockAssetDAO = mock(AssetDAO);
+    mockLocationDAO = mock(LocationDAO);
+    mockLocationService = mock(LocationService);
+    mockStorageIAO = mock(StorageIAO);
+
+    when(
+      mockStorageIAO.createSignedUrl(anything(), anything(), anything()),
+    ).thenResolve("https://storage.example.com/signed");
+
+    service = new QRLabelService(
+      instance(mockAssetDAO),
+      instance(mockLocationDAO),
+      instance(mockLocationService),
+      instance(mockStorageIAO),
+    );
+  });
+
+  describe("generateAssetLabels", () => {
+    it("should lay out a sheet per 30 labels and skip assets without codes", async () => {
+      const assets = Array.from({ length: 31 }, (_, i) => asset(i, `QR-${i}`));
+      when(mockAssetDAO.findWithRelations(anything())).thenResolve([
+        ...assets,
+        asset(99, null),
+      ]);
+
+      const sheet = await service.generateAssetLabels(
+        { location_id: "location-1" },
+        "avery_5160",
+      );
+
+      expect(sheet).toMatchObject({
+        url: "https://storage.example.com/signed",
+        labels: 31,
+        sheets: 2,
+        skipped: 1,
+      });
+
+      const [bucket, path, content, contentType] = capture(
+        mockStorageIAO.upload,
+      ).last();
+      expect(bucket).toBe("qr-labels");
+      expect(path).toMatch(
+        /^test-tenant-id\/\d+-asset-labels-avery-5160-\d{4}-\d{2}-\d{2}\.pdf$/,
+      );
+      expect(contentType).toBe("application/pdf");
+      expect(pageCount(content as Uint8Array)).toBe(2);
+    });
+
+    it("should reject filters that match no assets", async () => {
+      when(mockAssetDAO.findWithRelations(anything())).thenResolve([]);
+
+      await expect(
+        service.generateAssetLabels({}, "avery_5160"),
+      ).rejects.toThrow(/^Cannot print labels/);
+      verify(
+        mockStorageIAO.upload(anything(), anything(), anything(), anything()),
+      ).never();
+    });
+
+    it("should reject more labels than one request can render", async () => {
+      when(mockAssetDAO.findWithRelations(anything())).thenResolve(
+        Array.from({ length: MAX_LABELS + 1 }, (_, i) => asset(i, `QR-${i}`)),
+      );
+
+      await expect(
+        service.generateAssetLabels({}, "avery_5160"),
+      ).rejects.toThrow(/^Cannot print more than/);
+    });
+  });
+
+  describe("generateLocationLabels", () => {
+    it("should give locations codes before printing them", async () => {
+      const locations = [location("a", "LOC-A"), location("b", null)];
+      when(mockLocationDAO.findActive()).thenResolve(locations);
+      when(mockLocationService.ensureQRCodes(locations)).thenResolve([
+        locations[0],
+        { ...locations[1], qr_code: "LOC-B" },
+      ]);
+
+      const sheet = await service.generateLocationLabels(
+        undefined,
+        "avery_22806",
+      );
+
+      expect(sheet).toMatchObject({ labels: 2, sheets: 1, skipped: 0 });
+      verify(mockLocationService.ensureQRCodes(locations)).once();
+    });
+
+    it("should reject unknown location ids", async () => {
+      when(mockLocationDAO.findById("missing")).thenResolve(null);
+
+      await expect(
+        service.generateLocationLabels(["missing"], "avery_5160"),
+      ).rejects.toThrow("Location not found");
+    });
+  });
+
+  it("should point codes at the public report page", () => {
+    expect(service.getQRUrl("LOC-AB 12")).toMatch(/\/qr\/LOC-AB%2012$/);
+  });
+});
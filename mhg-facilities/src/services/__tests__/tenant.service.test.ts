@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { instance, mock, when } from "ts-mockito";
+import { TenantService } from "../tenant.service";
+import { TenantDAO } from "@/dao/tenant.dao";
+import { runWithTenant } from "@/lib/tenant/context";
+
+describe("TenantService", () => {
+  let service: TenantService;
+  let mockTenantDAO: TenantDAO;
+  // The tenant DAO calls are scoped to, null outside runWithTenant
+  let scopedTenant: string | null = null;
+
+  beforeEach(() => {
+    vi.mocked(runWithTenant).mockImplementation(async (tenantId, fn) => {
+      scopedTenant = tenantId;
+      try {
+        return await fn();
+      } finally {
+        scopedTenant = null;
+      }
+    });
+
+    mockTenantDAO = mock(TenantDAO);
+    service = new TenantService(instance(mockTenantDAO));
+  });
+
+  describe("forEachActiveTenant", () => {
+    it("should run once per active tenant, scoped to that tenant", async () => {
+      when(mockTenantDAO.findActiveIds()).thenResolve(["tenant-1", "tenant-2"]);
+
+      const run = await service.forEachActiveTenant(async (tenantId) => ({
+        tenantId,
+        scopedTo: scopedTenant,
+      }));
+
+      expect(run.results).toEqual([
+        {
+          tenant_id: "tenant-1",
+          result: { tenantId: "tenant-1", scopedTo: "tenant-1" },
+        },
+        {
+          tenant_id: "tenant-2",
+          result: { tenantId: "tenant-2", scopedTo: "tenant-2" },
+        },
+      ]);
+      expect(run.errors).toEqual([]);
+    });
+
+    it("should carry on with the other tenants when one fails", async () => {
+      when(mockTenantDAO.findActiveIds()).thenResolve(["tenant-1", "tenant-2"]);
+
+      const run = await service.forEachActiveTenant(async (tenantId) => {
+        if (tenantId === "tenant-1") throw new Error("Query timed out");
+        return tenantId;
+      });
+
+      expect(run.results).toEqual([
+        { tenant_id: "tenant-2", result: "tenant-2" },
+      ]);
+      expect(run.errors).toEqual([
+        { tenant_id: "tenant-1", error: "Query timed out" },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { instance, mock, when, anything } from "ts-mockito";
+import { TicketRoutingService } from "../ticket-routing.service";
+import { OnCallScheduleService } from "../on-call-schedule.service";
+import { UserDAO } from "@/dao/user.dao";
+import type { Database } from "@/types/database";
+import type { OnCallScheduleRow } from "@/types/database-extensions";
+
+type Location = Database["public"]["Tables"]["locations"]["Row"];
+type TicketCategory = Database["public"]["Tables"]["ticket_categories"]["Row"];
+type User = Database["public"]["Tables"]["users"]["Row"];
+
+describe("TicketRoutingService", () => {
+  let service: TicketRoutingService;
+  let mockUserDAO: UserDAO;
+  let mockOnCallService: OnCallScheduleService;
+
+  // Wednesday 2026-03-04 15:00 UTC = 10:00 in New York
+  const businessHoursNow = new Date("2026-03-04T15:00:00Z");
+  // Wednesday 2026-03-04 03:00 UTC = 22:00 Tuesday in New York
+  const afterHoursNow = new Date("2026-03-04T03:00:00Z");
+
+  const location = {
+    id: "location-1",
+    name: "Main Market",
+    manager_id: "manager-1",
+    business_hours: null,
+  } as Location;
+
+  const category = {
+    id: "category-1",
+    default_assignee_id: "tech-1",
+    preferred_vendor_id: "vendor-1",
+  } as TicketCategory;
+
+  const createUser = (id: string, overrides: Partial<User> = {}): User =>
+    ({
+      id,
+      full_name: `User ${id}`,
+      role: "staff",
+      is_active: true,
+      ...overrides,
+    }) as User;
+
+  const onCallSchedule = (userId: string) =>
+    ({ id: `schedule-${userId}`, user_id: userId }) as OnCallScheduleRow;
+
+  beforeEach(() => {
+    mockUserDAO = mock(UserDAO);
+    mockOnCallService = mock(OnCallScheduleService);
+
+    when(mockUserDAO.findById("tech-1")).thenResolve(createUser("tech-1"));
+    when(mockUserDAO.findById("manager-1")).thenResolve(
+      createUser("manager-1", { role: "manager" }),
+    );
+    when(mockUserDAO.findById("oncall-1")).thenResolve(createUser("oncall-1"));
+    when(mockUserDAO.findById("backup-1")).thenResolve(createUser("backup-1"));
+    when(mockOnCallService.getCurrentOnCall(anything())).thenResolve(null);
+    when(mockOnCallService.getCurrentBackupOnCall(anything())).thenResolve(
+      null,
+    );
+
+    service = new TicketRoutingService(
+      instance(mockUserDAO),
+      instance(mockOnCallService),
+    );
+  });
+
+  it("should route to the category default assignee during business hours", async () => {
+    const decision = await service.routeTicket(
+      { location, category, priority: "high", is_emergency: false },
+      businessHoursNow,
+    );
+
+    expect(decision.rule).toBe("category_default");
+    expect(decision.assignee?.id).toBe("tech-1");
+    expect(decision.vendor_id).toBe("vendor-1");
+  });
+
+  it("should fall back to the location manager without a category default", async () => {
+    const decision = await service.routeTicket(
+      { location, category: null, priority: "medium", is_emergency: false },
+      businessHoursNow,
+    );
+
+    expect(decision.rule).toBe("location_manager");
+    expect(decision.assignee?.id).toBe("manager-1");
+    expect(decision.vendor_id).toBeNull();
+  });
+
+  it("should route emergencies to on-call", async () => {
+    when(mockOnCallService.getCurrentOnCall("location-1")).thenResolve(
+      onCallSchedule("oncall-1"),
+    );
+
+    const decision = await service.routeTicket(
+      { location, category, priority: "critical", is_emergency: true },
+      businessHoursNow,
+    );
+
+    expect(decision.rule).toBe("emergency_on_call");
+    expect(decision.assignee?.id).toBe("oncall-1");
+  });
+
+  it("should use the backup on-call when there is no primary", async () => {
+    when(mockOnCallService.getCurrentBackupOnCall("location-1")).thenResolve(
+      onCallSchedule("backup-1"),
+    );
+
+    const decision = await service.routeTicket(
+      { location, category, priority: "critical", is_emergency: true },
+      businessHoursNow,
+    );
+
+    expect(decision.assignee?.id).toBe("backup-1");
+    expect(decision.reason).toContain("backup on-call");
+  });
+
+  it("should route urgent tickets to on-call after hours", async () => {
+    when(mockOnCallService.getCurrentOnCall("location-1")).thenResolve(
+      onCallSchedule("oncall-1"),
+    );
+
+    const decision = await service.routeTicket(
+      { location, category, priority: "high", is_emergency: false },
+      afterHoursNow,
+    );
+
+    expect(decision.rule).toBe("after_hours_on_call");
+    expect(decision.assignee?.id).toBe("oncall-1");
+  });
+
+  it("should leave low priority after-hours tickets with the normal owner", async () => {
+    const decision = await service.routeTicket(
+      { location, category, priority: "low", is_emergency: false },
+      afterHoursNow,
+    );
+
+    expect(decision.rule).toBe("category_default");
+  });
+
+  it("should leave the ticket unassigned when nobody is eligible", async () => {
+    when(mockUserDAO.findById("manager-1")).thenResolve(
+      createUser("manager-1", { role: "manager", is_active: false }),
+    );
+
+    const decision = await service.routeTicket(
+      {
+        location,
+        category: null,
+        priority: "critical",
+        is_emergency: true,
+      },
+      businessHoursNow,
+    );
+
+    expect(decision.rule).toBe("unassigned");
+    expect(decision.assignee).toBeNull();
+    expect(decision.reason).toContain("no one on call");
+  });
+
+  describe("isWithinBusinessHours", () => {
+    it("should respect the configured timezone and days", () => {
+      const hours = {
+        timezone: "America/Los_Angeles",
+        days: [1, 2, 3, 4, 5],
+        open: "08:00",
+        close: "17:00",
+      };
+
+      // 15:00 UTC = 07:00 in Los Angeles
+      expect(service.isWithinBusinessHours(hours, businessHoursNow)).toBe(
+        false,
+      );
+      // 17:00 UTC = 09:00 in Los Angeles
+      expect(
+        service.isWithinBusinessHours(hours, new Date("2026-03-04T17:00:00Z")),
+      ).toBe(true);
+      // Saturday
+      expect(
+        service.isWithinBusinessHours(hours, new Date("2026-03-07T17:00:00Z")),
+      ).toBe(false);
+    });
+
+    it("should support overnight windows", () => {
+      const hours = {
+        timezone: "UTC",
+        days: [0, 1, 2, 3, 4, 5, 6],
+        open: "22:00",
+        close: "06:00",
+      };
+
+      expect(service.isWithinBusinessHours(hours, afterHoursNow)).toBe(true);
+      expect(service.isWithinBusinessHours(hours, businessHoursNow)).toBe(
+        false,
+      );
+    });
+  });
+});
@@ -0,0 +1,317 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { instance, mock, when, anything, verify } from "ts-mockito";
+import { TicketSLAService } from "../ticket-sla.service";
+import { TicketDAO } from "@/dao/ticket.dao";
+import { TicketEscalationDAO } from "@/dao/ticket-escalation.dao";
+import { UserDAO } from "@/dao/user.dao";
+import { LocationDAO } from "@/dao/location.dao";
+import { NotificationOutboxService } from "../notification-outbox.service";
+import type { Database } from "@/types/database";
+
+type Ticket = Database["public"]["Tables"]["tickets"]["Row"];
+type User = Database["public"]["Tables"]["users"]["Row"];
+
+describe("TicketSLAService", () => {
+  let service: TicketSLAService;
+  let mockTicketDAO: TicketDAO;
+  let mockEscalationDAO: TicketEscalationDAO;
+  let mockUserDAO: UserDAO;
+  let mockLocationDAO: LocationDAO;
+  let mockOutboxService: NotificationOutboxService;
+
+  const createMockTicket = (overrides: Partial<Ticket> = {}): Ticket => ({
+    id: "ticket-1",
+    tenant_id: "tenant-1",
+    ticket_number: 1,
+    title: "Leaking sink",
+    description: null,
+    category_id: null,
+    location_id: "location-1",
+    asset_id: null,
+    priority: "high",
+    status: "submitted",
+    submitted_by: "user-1",
+    assigned_to: null,
+    assigned_by: null,
+    status_changed_by: null,
+    vendor_id: null,
+    parent_ticket_id: null,
+    compliance_document_id: null,
+    reporter_name: null,
+    reporter_phone: null,
+    submitted_via: "app",
+    related_ticket_ids: null,
+    merged_into_ticket_id: null,
+    is_duplicate: false,
+    estimated_cost: null,
+    actual_cost: null,
+    is_warranty_claim: false,
+    due_date: null,
+    started_at: null,
+    completed_at: null,
+    verified_at: null,
+    closed_at: null,
+    is_emergency: false,
+    contained_at: null,
+    resolution_notes: null,
+    // 4h response / 72h resolution window from created_at
+    response_due_at: "2026-03-01T12:00:00.000Z",
+    resolution_due_at: "2026-03-04T08:00:00.000Z",
+    first_response_at: null,
+    sla_next_breach_at: "2026-03-01T12:00:00.000Z",
+    sla_at_risk_at: "2026-03-01T11:00:00.000Z",
+    escalation_level: 0,
+    escalated_at: null,
+    vendor_acknowledged_at: null,
+    created_at: "2026-03-01T08:00:00.000Z",
+    updated_at: "2026-03-01T08:00:00.000Z",
+    deleted_at: null,
+    ...overrides,
+  });
+
+  const createMockUser = (overrides: Partial<User> = {}): User =>
+    ({
+      id: "user-2",
+      email: "user@example.com",
+      full_name: "Test User",
+      role: "staff",
+      is_active: true,
+      ...overrides,
+    }) as User;
+
+  beforeEach(() => {
+    mockTicketDAO = mock(TicketDAO);
+    mockEscalationDAO = mock(TicketEscalationDAO);
+    mockUserDAO = mock(UserDAO);
+    mockLocationDAO = mock(LocationDAO);
+    mockOutboxService = mock(NotificationOutboxService);
+
+    service = new TicketSLAService(
+      instance(mockTicketDAO),
+      instance(mockEscalationDAO),
+      instance(mockUserDAO),
+      instance(mockLocationDAO),
+      instance(mockOutboxService),
+    );
+  });
+
+  describe("calculateDeadlines", () => {
+    const createdAt = new Date("2026-03-01T08:00:00.000Z");
+
+    it("should use priority defaults when there is no category", () => {
+      const result = service.calculateDeadlines("medium", null, createdAt);
+
+      expect(result.response_due_at).toBe("2026-03-01T16:00:00.000Z");
+      expect(result.resolution_due_at).toBe("2026-03-08T08:00:00.000Z");
+    });
+
+    it("should use category escalation and resolution hours", () => {
+      const result = service.calculateDeadlines(
+        "low",
+        { escalation_hours: 6, resolution_hours: 48 },
+        createdAt,
+      );
+
+      expect(result.response_due_at).toBe("2026-03-01T14:00:00.000Z");
+      expect(result.resolution_due_at).toBe("2026-03-03T08:00:00.000Z");
+    });
+
+    it("should never loosen the critical response target", () => {
+      const result = service.calculateDeadlines(
+        "critical",
+        { escalation_hours: 12, resolution_hours: null },
+        createdAt,
+      );
+
+      expect(result.response_due_at).toBe("2026-03-01T10:00:00.000Z");
+    });
+  });
+
+  describe("getSLAState", () => {
+    it("should be on track early in the response window", () => {
+      const state = service.getSLAState(
+        createMockTicket(),
+        new Date("2026-03-01T09:00:00.000Z"),
+      );
+
+      expect(state.status).toBe("on_track");
+      expect(state.tracking).toBe("response");
+      expect(state.minutes_to_breach).toBe(180);
+    });
+
+    it("should be at risk in the last 25% of the window", () => {
+      const state = service.getSLAState(
+        createMockTicket(),
+        new Date("2026-03-01T11:30:00.000Z"),
+      );
+
+      expect(state.status).toBe("at_risk");
+    });
+
+    it("should be breached once the deadline passes", () => {
+      const state = service.getSLAState(
+        createMockTicket(),
+        new Date("2026-03-01T13:00:00.000Z"),
+      );
+
+      expect(state.status).toBe("breached");
+      expect(state.response.breached).toBe(true);
+    });
+
+    it("should track resolution after first response", () => {
+      const state = service.getSLAState(
+        createMockTicket({
+          status: "in_progress",
+          first_response_at: "2026-03-01T10:00:00.000Z",
+        }),
+        new Date("2026-03-01T13:00:00.000Z"),
+      );
+
+      expect(state.tracking).toBe("resolution");
+      expect(state.status).toBe("on_track");
+      expect(state.response.breached).toBe(false);
+    });
+
+    it("should be paused while on hold", () => {
+      const state = service.getSLAState(
+        createMockTicket({ status: "on_hold" }),
+        new Date("2026-03-01T13:00:00.000Z"),
+      );
+
+      expect(state.status).toBe("paused");
+    });
+  });
+
+  describe("getEscalationLevel", () => {
+    const created = "2026-03-01T08:00:00.000Z";
+    const due = "2026-03-01T12:00:00.000Z";
+
+    it("should return 0 before the deadline", () => {
+      expect(
+        service.getEscalationLevel(
+          created,
+          due,
+          new Date("2026-03-01T11:00:00Z"),
+        ),
+      ).toBe(0);
+    });
+
+    it("should climb tiers as the ticket stays overdue", () => {
+      expect(
+        service.getEscalationLevel(
+          created,
+          due,
+          new Date("2026-03-01T12:30:00Z"),
+        ),
+      ).toBe(1);
+      expect(
+        service.getEscalationLevel(
+          created,
+          due,
+          new Date("2026-03-01T14:00:00Z"),
+        ),
+      ).toBe(2);
+      expect(
+        service.getEscalationLevel(
+          created,
+          due,
+          new Date("2026-03-01T16:00:00Z"),
+        ),
+      ).toBe(3);
+    });
+  });
+
+  describe("escalateBreachedTickets", () => {
+    it("should notify the assignee at level 1", async () => {
+      const ticket = createMockTicket({ assigned_to: "user-2" });
+      const assignee = createMockUser();
+
+      when(mockTicketDAO.findSLABreached()).thenResolve([ticket]);
+      when(mockEscalationDAO.findByTickets(anything())).thenResolve([]);
+      when(mockUserDAO.findById("user-2")).thenResolve(assignee);
+      when(mockEscalationDAO.create(anything())).thenResolve({
+        id: "esc-1",
+        ticket_id: ticket.id,
+        sla_type: "response",
+        level: 1,
+        reason: null,
+        notified_user_ids: [assignee.id],
+        created_at: "2026-03-01T12:30:00.000Z",
+      });
+      when(mockTicketDAO.updateTicket(ticket.id, anything())).thenResolve(
+        ticket,
+      );
+
+      const result = await service.escalateBreachedTickets(
+        new Date("2026-03-01T12:30:00.000Z"),
+      );
+
+      expect(result.escalated).toEqual([
+        {
+          ticketId: ticket.id,
+          slaType: "response",
+          level: 1,
+          notifiedCount: 1,
+        },
+      ]);
+      verify(mockOutboxService.enqueue("ticket_escalated", anything())).once();
+    });
+
+    it("should not re-alert a level that was already recorded", async () => {
+      const ticket = createMockTicket({ assigned_to: "user-2" });
+
+      when(mockTicketDAO.findSLABreached()).thenResolve([ticket]);
+      when(mockEscalationDAO.findByTickets(anything())).thenResolve([
+        {
+          id: "esc-1",
+          ticket_id: ticket.id,
+          sla_type: "response",
+          level: 1,
+          reason: null,
+          notified_user_ids: ["user-2"],
+          created_at: "2026-03-01T12:30:00.000Z",
+        },
+      ]);
+
+      const result = await service.escalateBreachedTickets(
+        new Date("2026-03-01T13:00:00.000Z"),
+      );
+
+      expect(result.escalated).toHaveLength(0);
+      verify(mockEscalationDAO.create(anything())).never();
+      verify(mockOutboxService.enqueue("ticket_escalated", anything())).never();
+    });
+
+    it("should fall through to the location manager when unassigned", async () => {
+      const ticket = createMockTicket();
+      const manager = createMockUser({ id: "manager-1", role: "manager" });
+
+      when(mockTicketDAO.findSLABreached()).thenResolve([ticket]);
+      when(mockEscalationDAO.findByTickets(anything())).thenResolve([]);
+      when(mockLocationDAO.findById("location-1")).thenResolve({
+        id: "location-1",
+        manager_id: "manager-1",
+      } as Awaited<ReturnType<LocationDAO["findById"]>>);
+      when(mockUserDAO.findById("manager-1")).thenResolve(manager);
+      when(mockEscalationDAO.create(anything())).thenResolve({
+        id: "esc-1",
+        ticket_id: ticket.id,
+        sla_type: "response",
+        level: 1,
+        reason: null,
+        notified_user_ids: [manager.id],
+        created_at: "2026-03-01T12:30:00.000Z",
+      });
+      when(mockTicketDAO.updateTicket(ticket.id, anything())).thenResolve(
+        ticket,
+      );
+
+      const result = await service.escalateBreachedTickets(
+        new Date("2026-03-01T12:30:00.000Z"),
+      );
+
+      expect(result.escalated[0].notifiedCount).toBe(1);
+      verify(mockUserDAO.findById("manager-1")).once();
+    });
+  });
+});
@@ -2,7 +2,7 @@ import {
   AssetCategoryDAO,
   type AssetCategoryWithParent,
 } from "@/dao/asset-category.dao";
-import type { Database } from "@/types/database";
+import type { Database, DepreciationMethod } from "@/types/database";
 
 type AssetCategory = Database["public"]["Tables"]["asset_categories"]["Row"];
 type AssetCategoryInsert =
@@ -15,6 +15,8 @@ export interface CreateAssetCategoryDTO {
   description?: string;
   default_lifespan_years?: number;
   parent_category_id?: string;
+  depreciation_method?: DepreciationMethod;
+  salvage_value_percent?: number;
 }
 
 export interface UpdateAssetCategoryDTO {
@@ -22,6 +24,8 @@ export interface UpdateAssetCategoryDTO {
   description?: string;
   default_lifespan_years?: number;
   parent_category_id?: string;
+  depreciation_method?: DepreciationMethod;
+  salvage_value_percent?: number;
 }
 
 /**
@@ -140,6 +144,8 @@ export class AssetCategoryService {
       description: data.description ?? null,
       default_lifespan_years: data.default_lifespan_years ?? null,
       parent_category_id: data.parent_category_id ?? null,
+      depreciation_method: data.depreciation_method,
+      salvage_value_percent: data.salvage_value_percent,
     };
 
     return this.categoryDAO.create(insertData);
@@ -185,6 +191,10 @@ export class AssetCategoryService {
       updateData.default_lifespan_years = data.default_lifespan_years;
     if (data.parent_category_id !== undefined)
       updateData.parent_category_id = data.parent_category_id;
+    if (data.depreciation_method !== undefined)
+      updateData.depreciation_method = data.depreciation_method;
+    if (data.salvage_value_percent !== undefined)
+      updateData.salvage_value_percent = data.salvage_value_percent;
 
     return this.categoryDAO.update(id, updateData);
   }
@@ -0,0 +1,204 @@
+import { AssetDAO, type AssetWithRelations } from "@/dao/asset.dao";
+import type { DepreciationMethod } from "@/types/database";
+
+// The asset fields depreciation is worked out from
+export type DepreciableAsset = Pick<
+  AssetWithRelations,
+  | "id"
+  | "purchase_price"
+  | "purchase_date"
+  | "expected_lifespan_years"
+  | "category"
+>;
+
+export interface AssetBookValue {
+  asset_id: string;
+  // "none" when the asset has no purchase date, price or lifespan to
+  // depreciate over, whatever its category says
+  method: DepreciationMethod;
+  purchase_price: number;
+  salvage_value: number;
+  lifespan_years: number | null;
+  accumulated_depreciation: number;
+  book_value: number;
+}
+
+export interface DepreciationPeriod {
+  // 1 for the first year after purchase
+  year: number;
+  start_date: string;
+  end_date: string;
+  opening_value: number;
+  depreciation: number;
+  closing_value: number;
+  accumulated_depreciation: number;
+}
+
+export interface DepreciationSchedule extends AssetBookValue {
+  as_of: string;
+  periods: DepreciationPeriod[];
+}
+
+// Categories that predate depreciation settings, and uncategorized assets
+const DEFAULT_METHOD: DepreciationMethod = "straight_line";
+
+/**
+ * Asset Depreciation Service
+ * Works out book values and depreciation schedules from an asset's purchase
+ * date and price, its expected lifespan (or its category's default) and its
+ * category's depreciation method and salvage value.
+ *
+ * Straight-line takes the same amount each year down to salvage value.
+ * Declining balance takes double the straight-line rate of what is left
+ * each year and writes the asset down to salvage value at the end of its
+ * life. Part years are depreciated in proportion.
+ */
+export class AssetDepreciationService {
+  constructor(private assetDAO = new AssetDAO()) {}
+
+  /**
+   * An asset's year-by-year schedule and its book value today
+   */
+  async getSchedule(
+    assetId: string,
+    asOf: Date = new Date(),
+  ): Promise<DepreciationSchedule> {
+    const asset = await this.assetDAO.findByIdWithRelations(assetId);
+    if (!asset) {
+      throw new Error("Asset not found");
+    }
+
+    return this.buildSchedule(asset, asOf);
+  }
+
+  buildSchedule(
+    asset: DepreciableAsset,
+    asOf: Date = new Date(),
+  ): DepreciationSchedule {
+    const bookValue = this.calculateBookValue(asset, asOf);
+    const periods: DepreciationPeriod[] = [];
+
+    if (bookValue.method !== "none" && bookValue.lifespan_years) {
+      const purchased = new Date(asset.purchase_date!);
+
+      for (let year = 1; year <= Math.ceil(bookValue.lifespan_years); year++) {
+        const start = this.addYears(purchased, year - 1);
+        const end = this.addYears(purchased, year);
+        const opening = this.valueAt(asset, start);
+        const closing = this.valueAt(asset, end);
+
+        periods.push({
+          year,
+          start_date: this.formatDate(start),
+          end_date: this.formatDate(end),
+          opening_value: opening,
+          depreciation: this.round(opening - closing),
+          closing_value: closing,
+          accumulated_depreciation: this.round(
+            bookValue.purchase_price - closing,
+          ),
+        });
+      }
+    }
+
+    return { ...bookValue, as_of: this.formatDate(asOf), periods };
+  }
+
+  /**
+   * An asset's book value on a date
+   */
+  calculateBookValue(asset: DepreciableAsset, asOf: Date): AssetBookValue {
+    const purchasePrice = Number(asset.purchase_price) || 0;
+    const bookValue = this.valueAt(asset, asOf);
+
+    return {
+      asset_id: asset.id,
+      method: this.getMethod(asset),
+      purchase_price: purchasePrice,
+      salvage_value: this.getSalvageValue(asset),
+      lifespan_years: this.getLifespan(asset),
+      accumulated_depreciation: this.round(purchasePrice - bookValue),
+      book_value: bookValue,
+    };
+  }
+
+  private valueAt(asset: DepreciableAsset, date: Date): number {
+    const purchasePrice = Number(asset.purchase_price) || 0;
+    const method = this.getMethod(asset);
+    const lifespan = this.getLifespan(asset);
+    if (method === "none" || !lifespan) return purchasePrice;
+
+    const salvage = this.getSalvageValue(asset);
+    const years = this.yearsBetween(new Date(asset.purchase_date!), date);
+    if (years >= lifespan) return salvage;
+
+    if (method === "declining_balance") {
+      const rate = Math.min(2 / lifespan, 1);
+      return this.round(Math.max(purchasePrice * (1 - rate) ** years, salvage));
+    }
+
+    return this.round(
+      purchasePrice - ((purchasePrice - salvage) * years) / lifespan,
+    );
+  }
+
+  private getMethod(asset: DepreciableAsset): DepreciationMethod {
+    if (!asset.purchase_date || !asset.purchase_price) return "none";
+    if (!this.getLifespan(asset)) return "none";
+    return asset.category?.depreciation_method ?? DEFAULT_METHOD;
+  }
+
+  private getLifespan(asset: DepreciableAsset): number | null {
+    return (
+      asset.expected_lifespan_years ??
+      asset.category?.default_lifespan_years ??
+      null
+    );
+  }
+
+  private getSalvageValue(asset: DepreciableAsset): number {
+    if (this.getMethod(asset) === "none") {
+      return Number(asset.purchase_price) || 0;
+    }
+
+    const percent = Number(asset.category?.salvage_value_percent) || 0;
+    return this.round((Number(asset.purchase_price) * percent) / 100);
+  }
+
+  /**
+   * Whole years between two dates plus the elapsed share of the current
+   * year, so every anniversary lands on a whole number
+   */
+  private yearsBetween(start: Date, end: Date): number {
+    if (end <= start) return 0;
+
+    let years = end.getUTCFullYear() - start.getUTCFullYear();
+    if (this.addYears(start, years) > end) years--;
+
+    const anniversary = this.addYears(start, years);
+    const next = this.addYears(start, years + 1);
+    return (
+      years +
+      (end.getTime() - anniversary.getTime()) /
+        (next.getTime() - anniversary.getTime())
+    );
+  }
+
+  private addYears(date: Date, years: number): Date {
+    return new Date(
+      Date.UTC(
+        date.getUTCFullYear() + years,
+        date.getUTCMonth(),
+        date.getUTCDate(),
+      ),
+    );
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().split("T")[0];
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
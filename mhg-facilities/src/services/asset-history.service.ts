@@ -0,0 +1,312 @@
+import { AssetHistoryDAO } from "@/dao/asset-history.dao";
+import { AssetDAO } from "@/dao/asset.dao";
+import { InvoiceDAO, type AssetInvoice } from "@/dao/invoice.dao";
+import { UserDAO } from "@/dao/user.dao";
+import type { AssetTransferWithRelations } from "@/dao/asset-transfer.dao";
+import type { Database } from "@/types/database";
+import type {
+  AssetHistoryRow as AssetHistory,
+  AssetMaintenanceType,
+} from "@/types/database-extensions";
+
+type Asset = Database["public"]["Tables"]["assets"]["Row"];
+type Ticket = Database["public"]["Tables"]["tickets"]["Row"];
+
+// The asset fields cost of ownership is worked out from
+export type CostedAsset = Pick<
+  Asset,
+  "id" | "purchase_price" | "purchase_date" | "created_at"
+>;
+
+export interface AssetTimelineEntry extends AssetHistory {
+  // Approved and paid vendor invoices on the entry's ticket
+  invoiced: number;
+  vendor_name: string | null;
+}
+
+export interface AssetCostBreakdown {
+  purchase_price: number;
+  repair_cost: number;
+  pm_cost: number;
+  vendor_cost: number;
+  total: number;
+}
+
+export interface AssetCostOfOwnership extends AssetCostBreakdown {
+  asset_id: string;
+  // Oldest year first; cumulative is the running total to the end of the year
+  by_year: Array<AssetCostBreakdown & { year: number; cumulative: number }>;
+}
+
+type CostKind = "purchase_price" | "repair_cost" | "pm_cost" | "vendor_cost";
+
+/**
+ * Asset History Service
+ * Keeps each asset's service timeline and works out what the asset has cost
+ * to own.
+ *
+ * Costs are counted the way budgets count spend: approved and paid vendor
+ * invoices at their total, and for work without an approved invoice the
+ * ticket's actual cost as recorded on the history entry.
+ */
+export class AssetHistoryService {
+  constructor(
+    private historyDAO = new AssetHistoryDAO(),
+    private assetDAO = new AssetDAO(),
+    private invoiceDAO = new InvoiceDAO(),
+    private userDAO = new UserDAO(),
+  ) {}
+
+  // ============================================================
+  // RECORDING
+  // ============================================================
+
+  /**
+   * Record a completed or closed ticket against its asset. A ticket has one
+   * entry per asset; later calls (e.g. closing with a final cost) update it.
+   */
+  async recordTicketWork(
+    ticket: Ticket,
+    userId: string,
+    preventive = false,
+  ): Promise<AssetHistory | null> {
+    if (!ticket.asset_id) return null;
+
+    const existing = (await this.historyDAO.findByTicketId(ticket.id)).find(
+      (entry) => entry.asset_id === ticket.asset_id,
+    );
+
+    const details = {
+      description: ticket.resolution_notes
+        ? `${ticket.title}: ${ticket.resolution_notes}`
+        : ticket.title,
+      cost: ticket.actual_cost,
+      vendor_id: ticket.vendor_id,
+    };
+
+    if (existing) {
+      return this.historyDAO.updateHistory(existing.id, details);
+    }
+
+    let maintenanceType: AssetMaintenanceType = "repair";
+    if (preventive) maintenanceType = "preventive";
+    else if (ticket.is_warranty_claim) maintenanceType = "warranty_claim";
+
+    return this.historyDAO.createHistory({
+      asset_id: ticket.asset_id,
+      ticket_id: ticket.id,
+      maintenance_type: maintenanceType,
+      ...details,
+      performed_by: await this.getUserName(userId),
+      performed_at:
+        ticket.completed_at ?? ticket.closed_at ?? new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Record a PM occurrence against the schedule's asset. The cost comes from
+   * the occurrence's ticket once it is completed.
+   */
+  async recordPMCompletion(
+    assetId: string,
+    ticketId: string | null,
+    scheduleName: string,
+    userId: string,
+    completedAt: Date,
+  ): Promise<AssetHistory> {
+    if (ticketId) {
+      const existing = (await this.historyDAO.findByTicketId(ticketId)).find(
+        (entry) => entry.asset_id === assetId,
+      );
+      if (existing) return existing;
+    }
+
+    return this.historyDAO.createHistory({
+      asset_id: assetId,
+      ticket_id: ticketId,
+      maintenance_type: "preventive",
+      description: `Preventive maintenance: ${scheduleName}`,
+      cost: null,
+      vendor_id: null,
+      performed_by: await this.getUserName(userId),
+      performed_at: completedAt.toISOString(),
+    });
+  }
+
+  /**
+   * Record an asset moving between locations
+   */
+  async recordTransfer(
+    transfer: AssetTransferWithRelations,
+  ): Promise<AssetHistory> {
+    const from = transfer.from_location?.name ?? "no location";
+    const to = transfer.to_location?.name ?? "no location";
+
+    return this.historyDAO.createHistory({
+      asset_id: transfer.asset_id,
+      ticket_id: null,
+      maintenance_type: "transfer",
+      description: transfer.reason
+        ? `Moved from ${from} to ${to}: ${transfer.reason}`
+        : `Moved from ${from} to ${to}`,
+      cost: null,
+      vendor_id: null,
+      performed_by: transfer.transferred_by_user?.full_name ?? null,
+      performed_at: transfer.transferred_at,
+    });
+  }
+
+  // ============================================================
+  // QUERIES
+  // ============================================================
+
+  /**
+   * An asset's history, newest first, with what was invoiced for each entry
+   */
+  async getTimeline(assetId: string): Promise<AssetTimelineEntry[]> {
+    const asset = await this.assetDAO.findById(assetId);
+    if (!asset) {
+      throw new Error("Asset not found");
+    }
+
+    const [history, invoices] = await Promise.all([
+      this.historyDAO.findByAssetId(assetId),
+      this.invoiceDAO.findApprovedByAssets([assetId]),
+    ]);
+
+    return history.map((entry) => {
+      const entryInvoices = entry.ticket_id
+        ? invoices.filter((invoice) => invoice.ticket_id === entry.ticket_id)
+        : [];
+
+      return {
+        ...entry,
+        invoiced: entryInvoices.reduce(
+          (sum, invoice) => sum + (Number(invoice.total_amount) || 0),
+          0,
+        ),
+        vendor_name: entryInvoices[0]?.vendor?.name ?? null,
+      };
+    });
+  }
+
+  /**
+   * Total cost of ownership for one asset
+   */
+  async getCostOfOwnership(assetId: string): Promise<AssetCostOfOwnership> {
+    const asset = await this.assetDAO.findById(assetId);
+    if (!asset) {
+      throw new Error("Asset not found");
+    }
+
+    const costs = await this.getCostsOfOwnership([asset]);
+    return costs.get(assetId)!;
+  }
+
+  /**
+   * Total cost of ownership for a set of assets, keyed by asset id
+   */
+  async getCostsOfOwnership(
+    assets: CostedAsset[],
+  ): Promise<Map<string, AssetCostOfOwnership>> {
+    const assetIds = assets.map((asset) => asset.id);
+    const [history, invoices] = await Promise.all([
+      this.historyDAO.findByAssetIds(assetIds),
+      this.invoiceDAO.findApprovedByAssets(assetIds),
+    ]);
+
+    return new Map(
+      assets.map((asset) => [
+        asset.id,
+        this.calculateCostOfOwnership(asset, history, invoices),
+      ]),
+    );
+  }
+
+  /**
+   * Sum an asset's costs by kind and year. History entries whose ticket has
+   * an approved invoice are left to the invoice so the work isn't counted
+   * twice.
+   */
+  calculateCostOfOwnership(
+    asset: CostedAsset,
+    history: AssetHistory[],
+    invoices: AssetInvoice[],
+  ): AssetCostOfOwnership {
+    const assetInvoices = invoices.filter(
+      (invoice) => invoice.ticket.asset_id === asset.id,
+    );
+    const invoicedTickets = new Set(assetInvoices.map((i) => i.ticket_id));
+
+    const costs: Array<{ kind: CostKind; amount: number; date: string }> = [];
+
+    if (asset.purchase_price) {
+      costs.push({
+        kind: "purchase_price",
+        amount: Number(asset.purchase_price),
+        date: asset.purchase_date ?? asset.created_at,
+      });
+    }
+
+    for (const entry of history) {
+      if (entry.asset_id !== asset.id || entry.cost == null) continue;
+      if (entry.maintenance_type === "transfer") continue;
+      if (entry.ticket_id && invoicedTickets.has(entry.ticket_id)) continue;
+
+      costs.push({
+        kind:
+          entry.maintenance_type === "preventive" ? "pm_cost" : "repair_cost",
+        amount: Number(entry.cost) || 0,
+        date: entry.performed_at,
+      });
+    }
+
+    for (const invoice of assetInvoices) {
+      costs.push({
+        kind: "vendor_cost",
+        amount: Number(invoice.total_amount) || 0,
+        date: invoice.invoice_date,
+      });
+    }
+
+    const years = new Map<number, AssetCostBreakdown>();
+    for (const cost of costs) {
+      const year = Number(cost.date.slice(0, 4));
+      const breakdown = years.get(year) ?? this.emptyBreakdown();
+      breakdown[cost.kind] += cost.amount;
+      breakdown.total += cost.amount;
+      years.set(year, breakdown);
+    }
+
+    let cumulative = 0;
+    const byYear = [...years.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([year, breakdown]) => {
+        cumulative += breakdown.total;
+        return { year, ...breakdown, cumulative };
+      });
+
+    const totals = this.emptyBreakdown();
+    for (const cost of costs) {
+      totals[cost.kind] += cost.amount;
+      totals.total += cost.amount;
+    }
+
+    return { asset_id: asset.id, ...totals, by_year: byYear };
+  }
+
+  private emptyBreakdown(): AssetCostBreakdown {
+    return {
+      purchase_price: 0,
+      repair_cost: 0,
+      pm_cost: 0,
+      vendor_cost: 0,
+      total: 0,
+    };
+  }
+
+  private async getUserName(userId: string): Promise<string | null> {
+    const user = await this.userDAO.findById(userId);
+    return user?.full_name ?? null;
+  }
+}
@@ -0,0 +1,203 @@
+import { AssetMeterDAO } from "@/dao/asset-meter.dao";
+import { AssetMeterReadingDAO } from "@/dao/asset-meter-reading.dao";
+import { AssetDAO } from "@/dao/asset.dao";
+import { PMScheduleDAO } from "@/dao/pm-schedule.dao";
+import {
+  PMScheduleService,
+  type PMGenerationResult,
+} from "./pm-schedule.service";
+import type {
+  AssetMeterRow as AssetMeter,
+  AssetMeterReadingRow as AssetMeterReading,
+  AssetMeterUnit,
+  MeterReadingSource,
+} from "@/types/database-extensions";
+
+export interface CreateAssetMeterDTO {
+  name: string;
+  unit: AssetMeterUnit;
+  current_reading?: number;
+}
+
+export interface UpdateAssetMeterDTO {
+  name?: string;
+  unit?: AssetMeterUnit;
+}
+
+export interface RecordMeterReadingDTO {
+  reading: number;
+  source?: MeterReadingSource;
+  ticket_id?: string | null;
+  notes?: string | null;
+  recorded_by?: string | null;
+}
+
+export interface MeterReadingResult {
+  reading: AssetMeterReading;
+  meter: AssetMeter;
+  /** PM occurrences generated because the reading crossed an interval */
+  triggered: PMGenerationResult[];
+}
+
+/**
+ * Asset Meter Service
+ * Manages usage meters on assets (runtime hours, cycles, gallons) and
+ * their reading history. Recording a reading checks the meter-triggered
+ * PM schedules that use the meter.
+ */
+export class AssetMeterService {
+  constructor(
+    private meterDAO = new AssetMeterDAO(),
+    private readingDAO = new AssetMeterReadingDAO(),
+    private assetDAO = new AssetDAO(),
+    private scheduleDAO = new PMScheduleDAO(),
+    // Created on first use: PMScheduleService -> TicketService -> here
+    private pmScheduleService?: PMScheduleService,
+  ) {}
+
+  async getMetersByAsset(assetId: string): Promise<AssetMeter[]> {
+    return this.meterDAO.findByAsset(assetId);
+  }
+
+  async getMeterById(id: string): Promise<AssetMeter | null> {
+    return this.meterDAO.findById(id);
+  }
+
+  async createMeter(
+    assetId: string,
+    data: CreateAssetMeterDTO,
+  ): Promise<AssetMeter> {
+    const asset = await this.assetDAO.findById(assetId);
+    if (!asset) {
+      throw new Error("Asset not found");
+    }
+
+    if (!data.name || data.name.trim().length === 0) {
+      throw new Error("Meter name is required");
+    }
+
+    const existing = await this.meterDAO.findByAsset(assetId);
+    if (
+      existing.some(
+        (m) => m.name.toLowerCase() === data.name.trim().toLowerCase(),
+      )
+    ) {
+      throw new Error(
+        `Meter "${data.name.trim()}" already exists on this asset`,
+      );
+    }
+
+    const hasReading = data.current_reading !== undefined;
+    return this.meterDAO.create({
+      asset_id: assetId,
+      name: data.name.trim(),
+      unit: data.unit,
+      current_reading: data.current_reading ?? 0,
+      last_read_at: hasReading ? new Date().toISOString() : null,
+    });
+  }
+
+  async updateMeter(
+    id: string,
+    data: UpdateAssetMeterDTO,
+  ): Promise<AssetMeter> {
+    const meter = await this.meterDAO.findById(id);
+    if (!meter) {
+      throw new Error("Asset meter not found");
+    }
+
+    if (data.name !== undefined && data.name.trim().length === 0) {
+      throw new Error("Meter name is required");
+    }
+
+    return this.meterDAO.update(id, {
+      ...(data.name !== undefined && { name: data.name.trim() }),
+      ...(data.unit !== undefined && { unit: data.unit }),
+    });
+  }
+
+  /**
+   * Soft delete a meter that no active PM schedule triggers on
+   */
+  async deleteMeter(id: string): Promise<void> {
+    const meter = await this.meterDAO.findById(id);
+    if (!meter) {
+      throw new Error("Asset meter not found");
+    }
+
+    const schedules = await this.scheduleDAO.findActiveMeterTriggered(id);
+    if (schedules.length > 0) {
+      throw new Error(
+        `Cannot delete meter: ${schedules.length} active PM schedule(s) use it`,
+      );
+    }
+
+    await this.meterDAO.softDelete(id);
+  }
+
+  async getReadings(
+    meterId: string,
+    limit?: number,
+  ): Promise<AssetMeterReading[]> {
+    const meter = await this.meterDAO.findById(meterId);
+    if (!meter) {
+      throw new Error("Asset meter not found");
+    }
+
+    return this.readingDAO.findByMeter(meterId, limit);
+  }
+
+  /**
+   * Record a reading and generate any meter-triggered PM work it makes due.
+   * Meters only count up, so a reading below the current one is rejected.
+   */
+  async recordReading(
+    meterId: string,
+    data: RecordMeterReadingDTO,
+  ): Promise<MeterReadingResult> {
+    const meter = await this.meterDAO.findById(meterId);
+    if (!meter) {
+      throw new Error("Asset meter not found");
+    }
+
+    if (!isFinite(data.reading) || data.reading < 0) {
+      throw new Error("Reading must be a non-negative number");
+    }
+    if (data.reading < Number(meter.current_reading)) {
+      throw new Error(
+        `Cannot record ${data.reading}: reading is below the current ${meter.current_reading} ${meter.unit}`,
+      );
+    }
+
+    const now = new Date().toISOString();
+    const reading = await this.readingDAO.create({
+      meter_id: meterId,
+      reading: data.reading,
+      source: data.source ?? "manual",
+      ticket_id: data.ticket_id ?? null,
+      notes: data.notes?.trim() || null,
+      recorded_by: data.recorded_by ?? null,
+      recorded_at: now,
+    });
+
+    const updated = await this.meterDAO.update(meterId, {
+      current_reading: data.reading,
+      last_read_at: now,
+    });
+
+    // The reading is recorded either way; generation is retried by the
+    // scheduled PM run if it fails here
+    let triggered: PMGenerationResult[] = [];
+    try {
+      this.pmScheduleService ??= new PMScheduleService();
+      triggered = await this.pmScheduleService.generateMeterTriggered(meterId);
+    } catch (error) {
+      console.error(
+        `Failed to generate meter-triggered PM for meter ${meterId}:`,
+        error,
+      );
+    }
+
+    return { reading, meter: updated, triggered };
+  }
+}
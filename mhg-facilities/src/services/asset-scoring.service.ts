@@ -0,0 +1,318 @@
+import { AssetDAO, type AssetWithRelations } from "@/dao/asset.dao";
+import { AssetHistoryDAO } from "@/dao/asset-history.dao";
+import { AssetReplacementPolicyDAO } from "@/dao/asset-replacement-policy.dao";
+import { InvoiceDAO, type AssetInvoice } from "@/dao/invoice.dao";
+import type {
+  AssetHistoryRow as AssetHistory,
+  AssetMaintenanceType,
+  AssetReplacementPolicyRow,
+} from "@/types/database-extensions";
+
+export type AssetReplacementPolicy = Pick<
+  AssetReplacementPolicyRow,
+  | "repair_cost_percent"
+  | "failure_threshold"
+  | "failure_window_days"
+  | "flag_past_lifespan"
+>;
+
+/** Used until a tenant saves its own policy */
+export const DEFAULT_ASSET_REPLACEMENT_POLICY: AssetReplacementPolicy = {
+  repair_cost_percent: 50,
+  failure_threshold: 3,
+  failure_window_days: 365,
+  flag_past_lifespan: true,
+};
+
+export type ProblemAssetFlag = "repair_cost" | "failures" | "past_lifespan";
+export type AssetRecommendation = "replace" | "repair";
+
+export interface AssetScore {
+  asset_id: string;
+  asset_name: string;
+  category_name: string | null;
+  location_name: string | null;
+  status: AssetWithRelations["status"];
+  purchase_price: number | null;
+  // Repairs and their vendor invoices to date; PM is left out
+  repair_cost: number;
+  // Repairs to date as a percentage of the purchase price
+  repair_share_percent: number | null;
+  // Repair spend over the policy window, scaled to a year
+  annual_repair_cost: number;
+  failures: number;
+  age_years: number | null;
+  lifespan_years: number | null;
+  // 0-100, higher is worse
+  score: number;
+  flags: ProblemAssetFlag[];
+  reasons: string[];
+  recommendation: AssetRecommendation;
+  // Years of avoided repairs it takes a replacement to pay for itself
+  payback_years: number | null;
+}
+
+// Work that counts as the asset failing
+const FAILURE_TYPES: AssetMaintenanceType[] = [
+  "repair",
+  "warranty_claim",
+  "replacement",
+];
+
+// Assets still in service; retired and disposed ones aren't scored
+const SCORED_STATUSES = ["active", "under_maintenance"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365.25 * DAY_MS;
+
+/**
+ * Asset Scoring Service
+ * Spots equipment that costs more to keep than it's worth. An asset is
+ * flagged when its repair spend reaches the policy's share of its purchase
+ * price, when it fails too often within the policy window, or when it is
+ * past its expected lifespan. Flagged assets get a repair-or-replace
+ * recommendation and, where the numbers allow, the years a replacement
+ * would take to pay for itself out of avoided repairs.
+ *
+ * Repair spend is counted the way cost of ownership counts it: approved and
+ * paid vendor invoices at their total, and otherwise the ticket's actual
+ * cost.
+ */
+export class AssetScoringService {
+  constructor(
+    private assetDAO = new AssetDAO(),
+    private historyDAO = new AssetHistoryDAO(),
+    private invoiceDAO = new InvoiceDAO(),
+    private policyDAO = new AssetReplacementPolicyDAO(),
+  ) {}
+
+  // ============================================================
+  // POLICY
+  // ============================================================
+
+  async getPolicy(): Promise<AssetReplacementPolicy> {
+    const policy = await this.policyDAO.findCurrent();
+    if (!policy) return DEFAULT_ASSET_REPLACEMENT_POLICY;
+
+    return {
+      repair_cost_percent: Number(policy.repair_cost_percent),
+      failure_threshold: policy.failure_threshold,
+      failure_window_days: policy.failure_window_days,
+      flag_past_lifespan: policy.flag_past_lifespan,
+    };
+  }
+
+  async updatePolicy(
+    data: AssetReplacementPolicy,
+  ): Promise<AssetReplacementPolicy> {
+    if (data.repair_cost_percent <= 0 || data.failure_threshold < 1) {
+      throw new Error("Thresholds must be above zero to flag any assets");
+    }
+
+    const existing = await this.policyDAO.findCurrent();
+    if (existing) {
+      await this.policyDAO.update(existing.id, data);
+    } else {
+      await this.policyDAO.create(data);
+    }
+
+    return data;
+  }
+
+  // ============================================================
+  // SCORING
+  // ============================================================
+
+  /**
+   * In-service assets with at least one flag, worst first
+   */
+  async getProblemAssets(limit?: number): Promise<AssetScore[]> {
+    const assets = (await this.assetDAO.findWithRelations()).filter((asset) =>
+      SCORED_STATUSES.includes(asset.status ?? "active"),
+    );
+    if (assets.length === 0) return [];
+
+    const assetIds = assets.map((asset) => asset.id);
+    const [history, invoices, policy] = await Promise.all([
+      this.historyDAO.findByAssetIds(assetIds),
+      this.invoiceDAO.findApprovedByAssets(assetIds),
+      this.getPolicy(),
+    ]);
+
+    const problems = assets
+      .map((asset) => this.scoreAsset(asset, history, invoices, policy))
+      .filter((score) => score.flags.length > 0)
+      .sort((a, b) => b.flags.length - a.flags.length || b.score - a.score);
+
+    return limit ? problems.slice(0, limit) : problems;
+  }
+
+  /**
+   * Score one asset against the policy
+   */
+  scoreAsset(
+    asset: AssetWithRelations,
+    history: AssetHistory[],
+    invoices: AssetInvoice[],
+    policy: AssetReplacementPolicy,
+    now: Date = new Date(),
+  ): AssetScore {
+    const windowStart = new Date(
+      now.getTime() - policy.failure_window_days * DAY_MS,
+    );
+    const inWindow = (date: string) => new Date(date) >= windowStart;
+
+    const repairs = this.getRepairCosts(asset.id, history, invoices);
+    const repairCost = this.sum(repairs.map((cost) => cost.amount));
+    const windowCost = this.sum(
+      repairs.filter((cost) => inWindow(cost.date)).map((cost) => cost.amount),
+    );
+    const annualRepairCost = (windowCost * 365) / policy.failure_window_days;
+
+    const failures = history.filter(
+      (entry) =>
+        entry.asset_id === asset.id &&
+        entry.maintenance_type &&
+        FAILURE_TYPES.includes(entry.maintenance_type) &&
+        inWindow(entry.performed_at),
+    ).length;
+
+    const purchasePrice = asset.purchase_price
+      ? Number(asset.purchase_price)
+      : null;
+    const repairShare = purchasePrice
+      ? (repairCost / purchasePrice) * 100
+      : null;
+
+    const lifespan =
+      asset.expected_lifespan_years ??
+      asset.category?.default_lifespan_years ??
+      null;
+    const age = asset.purchase_date
+      ? (now.getTime() - new Date(asset.purchase_date).getTime()) / YEAR_MS
+      : null;
+
+    // Each measure runs from 0 to 1, where 1 is the point it gets flagged
+    const measures: number[] = [
+      Math.min(failures / policy.failure_threshold, 1),
+    ];
+    if (repairShare !== null) {
+      measures.push(Math.min(repairShare / policy.repair_cost_percent, 1));
+    }
+    if (policy.flag_past_lifespan && lifespan && age !== null) {
+      measures.push(Math.min(Math.max(age, 0) / lifespan, 1));
+    }
+
+    const flags: ProblemAssetFlag[] = [];
+    const reasons: string[] = [];
+
+    if (
+      repairShare !== null &&
+      repairCost > 0 &&
+      repairShare >= policy.repair_cost_percent
+    ) {
+      flags.push("repair_cost");
+      reasons.push(
+        `Repairs have cost ${Math.round(repairShare)}% of the purchase price`,
+      );
+    }
+    if (failures >= policy.failure_threshold) {
+      flags.push("failures");
+      reasons.push(
+        `${failures} failures in the last ${policy.failure_window_days} days`,
+      );
+    }
+    if (
+      policy.flag_past_lifespan &&
+      lifespan &&
+      age !== null &&
+      age >= lifespan
+    ) {
+      flags.push("past_lifespan");
+      reasons.push(
+        `${Math.floor(age)} years old, past its ${lifespan}-year lifespan`,
+      );
+    }
+
+    // Spending past the threshold, or more than one warning sign at once,
+    // means a replacement is likely cheaper than keeping it going
+    const recommendation: AssetRecommendation =
+      flags.includes("repair_cost") || flags.length >= 2 ? "replace" : "repair";
+
+    return {
+      asset_id: asset.id,
+      asset_name: asset.name,
+      category_name: asset.category?.name ?? null,
+      location_name: asset.location?.name ?? null,
+      status: asset.status,
+      purchase_price: purchasePrice,
+      repair_cost: this.round(repairCost),
+      repair_share_percent:
+        repairShare !== null ? this.round(repairShare) : null,
+      annual_repair_cost: this.round(annualRepairCost),
+      failures,
+      age_years: age !== null ? this.round(age, 1) : null,
+      lifespan_years: lifespan,
+      score: Math.round((this.sum(measures) / measures.length) * 100),
+      flags,
+      reasons,
+      recommendation,
+      payback_years:
+        purchasePrice && annualRepairCost > 0
+          ? this.round(purchasePrice / annualRepairCost, 1)
+          : null,
+    };
+  }
+
+  /**
+   * An asset's repair costs with their dates. History entries whose ticket
+   * has an approved invoice are left to the invoice so the work isn't
+   * counted twice; PM work and its invoices aren't repairs.
+   */
+  private getRepairCosts(
+    assetId: string,
+    history: AssetHistory[],
+    invoices: AssetInvoice[],
+  ): Array<{ amount: number; date: string }> {
+    const assetHistory = history.filter((entry) => entry.asset_id === assetId);
+    const preventiveTickets = new Set(
+      assetHistory
+        .filter((entry) => entry.maintenance_type === "preventive")
+        .map((entry) => entry.ticket_id),
+    );
+    const repairInvoices = invoices.filter(
+      (invoice) =>
+        invoice.ticket.asset_id === assetId &&
+        !preventiveTickets.has(invoice.ticket_id),
+    );
+    const invoicedTickets = new Set(repairInvoices.map((i) => i.ticket_id));
+
+    const costs = repairInvoices.map((invoice) => ({
+      amount: Number(invoice.total_amount) || 0,
+      date: invoice.invoice_date,
+    }));
+
+    for (const entry of assetHistory) {
+      if (entry.cost == null) continue;
+      if (entry.maintenance_type === "preventive") continue;
+      if (entry.maintenance_type === "transfer") continue;
+      if (entry.ticket_id && invoicedTickets.has(entry.ticket_id)) continue;
+
+      costs.push({
+        amount: Number(entry.cost) || 0,
+        date: entry.performed_at,
+      });
+    }
+
+    return costs;
+  }
+
+  private sum(values: number[]): number {
+    return values.reduce((total, value) => total + value, 0);
+  }
+
+  private round(value: number, places = 2): number {
+    const factor = 10 ** places;
+    return Math.round(value * factor) / factor;
+  }
+}
@@ -3,6 +3,7 @@ import {
   type AssetTransferWithRelations,
 } from "@/dao/asset-transfer.dao";
 import { AssetDAO } from "@/dao/asset.dao";
+import { AssetHistoryService } from "./asset-history.service";
 import type { Database } from "@/types/database-extensions";
 
 type AssetTransferInsert =
@@ -30,11 +31,13 @@ export class AssetTransferService {
   constructor(
     private transferDAO = new AssetTransferDAO(),
     private assetDAO = new AssetDAO(),
+    private assetHistoryService = new AssetHistoryService(),
   ) {}
 
   /**
    * Transfer asset to new location
-   * Creates audit record and updates asset location
+   * Creates audit record, updates asset location and adds the move to the
+   * asset's history
    */
   async transferAsset(
     data: TransferAssetDTO,
@@ -77,6 +80,15 @@ export class AssetTransferService {
       throw new Error("Transfer created but failed to retrieve");
     }
 
+    try {
+      await this.assetHistoryService.recordTransfer(transferWithRelations);
+    } catch (err) {
+      console.error(
+        `Failed to record asset history for transfer ${transfer.id}:`,
+        err,
+      );
+    }
+
     return transferWithRelations;
   }
 
@@ -2,6 +2,7 @@ import {
   AssetDAO,
   type AssetWithRelations,
   type AssetFilters,
+  type PaginatedResult,
 } from "@/dao/asset.dao";
 
 // Re-export types for consumers
@@ -9,6 +10,7 @@ export type { AssetFilters, PaginatedResult } from "@/dao/asset.dao";
 import { AssetCategoryDAO } from "@/dao/asset-category.dao";
 import { AssetTypeDAO } from "@/dao/asset-type.dao";
 import { AssetVendorDAO } from "@/dao/asset-vendor.dao";
+import { AssetHistoryService } from "./asset-history.service";
 import type { Database } from "@/types/database";
 import { nanoid } from "nanoid";
 
@@ -56,6 +58,10 @@ export interface UpdateAssetDTO {
   photo_path?: string | null;
 }
 
+export interface AssetWithCost extends AssetWithRelations {
+  total_cost_of_ownership: number;
+}
+
 /**
  * Service for managing assets
  * Handles asset CRUD, QR code generation, warranty tracking
@@ -66,6 +72,7 @@ export class AssetService {
     private categoryDAO = new AssetCategoryDAO(),
     private typeDAO = new AssetTypeDAO(),
     private vendorDAO = new AssetVendorDAO(),
+    private assetHistoryService = new AssetHistoryService(),
   ) {}
 
   /**
@@ -77,11 +84,25 @@ export class AssetService {
 
   /**
    * Get all assets with pagination
-   * Returns paginated results with total count
+   * Returns paginated results with total count and each asset's total cost
+   * of ownership
    * @param filters Optional filters including page and pageSize
    */
-  async getAllAssetsPaginated(filters?: AssetFilters) {
-    return this.assetDAO.findWithRelationsPaginated(filters);
+  async getAllAssetsPaginated(
+    filters?: AssetFilters,
+  ): Promise<PaginatedResult<AssetWithCost>> {
+    const result = await this.assetDAO.findWithRelationsPaginated(filters);
+    const costs = await this.assetHistoryService.getCostsOfOwnership(
+      result.data,
+    );
+
+    return {
+      ...result,
+      data: result.data.map((asset) => ({
+        ...asset,
+        total_cost_of_ownership: costs.get(asset.id)?.total ?? 0,
+      })),
+    };
   }
 
   /**
@@ -115,8 +115,9 @@ const MONTH_NAMES = [
 /**
  * Budget Service - Business logic for budget management
  *
- * KEY DESIGN: Spend is calculated dynamically from ticket actual_cost,
- * NOT stored in the database. This ensures accuracy without sync issues.
+ * KEY DESIGN: Spend is calculated dynamically from approved vendor invoices
+ * (falling back to ticket actual_cost for tickets without one), NOT stored
+ * in the database. This ensures accuracy without sync issues.
  */
 export class BudgetService {
   constructor(private budgetDAO = new BudgetDAO()) {}
@@ -218,7 +219,7 @@ export class BudgetService {
     }
 
     // Don't allow updating spent_amount through this method
-    // Spend is calculated dynamically from tickets
+    // Spend is calculated dynamically from invoices and tickets
     return this.budgetDAO.update(id, {
       location_id: data.location_id,
       category: data.category,
@@ -348,7 +349,7 @@ export class BudgetService {
     fiscalYear: number,
     locationId?: string,
   ): Promise<CategorySpend[]> {
-    // Get raw spend by category from tickets
+    // Get raw spend by category from invoices and tickets
     const spendData = await this.budgetDAO.getSpendByCategory(
       fiscalYear,
       locationId,
@@ -381,7 +382,7 @@ export class BudgetService {
    * Get budget utilization by location for bar chart
    */
   async getUtilizationByLocation(fiscalYear: number): Promise<LocationSpend[]> {
-    // Get raw spend by location from tickets
+    // Get raw spend by location from invoices and tickets
     const spendData = await this.budgetDAO.getSpendByLocation(fiscalYear);
 
     // Get budgets to find budget amounts per location
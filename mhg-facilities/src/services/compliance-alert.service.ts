@@ -1,21 +1,69 @@
 import { ComplianceAlertDAO } from "@/dao/compliance-alert.dao";
+import { ComplianceDocumentDAO } from "@/dao/compliance-document.dao";
+import { ComplianceDocumentTypeDAO } from "@/dao/compliance-document-type.dao";
+import { LocationDAO } from "@/dao/location.dao";
+import { UserDAO } from "@/dao/user.dao";
+import { NotificationOutboxService } from "./notification-outbox.service";
+import { MAX_ALERT_DAYS } from "@/lib/validations/compliance";
+import type { Database } from "@/types/database";
+import type {
+  ComplianceAlertInsert,
+  ComplianceAlertRow,
+  ComplianceAlertRecipientLevel,
+  ComplianceDocumentTypeRow,
+} from "@/types/database-extensions";
 
+type ComplianceDocument =
+  Database["public"]["Tables"]["compliance_documents"]["Row"];
+type User = Database["public"]["Tables"]["users"]["Row"];
+
+// "<N>_day" for a threshold, "expired" once past the expiration date;
+// "reinspection_<N>_day" and "reinspection_due" count down to a failed
+// inspection's reinspection date
 type AlertType =
-  | "90_day"
-  | "60_day"
-  | "30_day"
-  | "14_day"
-  | "7_day"
+  | `${number}_day`
   | "expired"
-  | "failed_inspection";
-
-interface ComplianceAlert {
-  id: string;
-  document_id: string | null;
-  alert_type: string | null;
-  sent_at: string;
-  sent_to: string[] | null;
-  delivery_method: string | null;
+  | "failed_inspection"
+  | ReinspectionAlertType;
+type ReinspectionAlertType = `reinspection_${number}_day` | "reinspection_due";
+
+type ComplianceAlert = ComplianceAlertRow;
+
+// Used when neither the document nor its type sets alert days
+export const DEFAULT_ALERT_DAYS = [90, 60, 30, 14, 7];
+
+// Days before the reinspection date that reminders go out; from the date
+// on they're sent daily until the failure is cleared
+export const REINSPECTION_REMINDER_DAYS = [7, 3, 1];
+
+// Days left at which admins, then the owner, are added to the recipients
+const ADMIN_ESCALATION_DAYS = 14;
+const OWNER_ESCALATION_DAYS = 1;
+
+export interface DueComplianceAlert {
+  alert_type: AlertType;
+  days_until_expiration: number;
+}
+
+export interface DueReinspectionReminder {
+  alert_type: ReinspectionAlertType;
+  days_until_reinspection: number;
+}
+
+export interface ScheduledAlertResult {
+  document_id: string;
+  document_name: string;
+  alert_type: AlertType;
+  // Days until the reinspection date for reinspection reminders
+  days_until_expiration: number;
+  recipient_level: ComplianceAlertRecipientLevel;
+  recipient_count: number;
+}
+
+export interface ScheduledAlertRun {
+  checked: number;
+  sent: ScheduledAlertResult[];
+  errors: { document_id: string; error: string }[];
 }
 
 interface UpcomingAlert {
@@ -26,27 +74,291 @@ interface UpcomingAlert {
 }
 
 export class ComplianceAlertService {
-  constructor(private alertDAO = new ComplianceAlertDAO()) {}
+  constructor(
+    private alertDAO = new ComplianceAlertDAO(),
+    private documentDAO = new ComplianceDocumentDAO(),
+    private documentTypeDAO = new ComplianceDocumentTypeDAO(),
+    private locationDAO = new LocationDAO(),
+    private userDAO = new UserDAO(),
+    private outboxService = new NotificationOutboxService(),
+  ) {}
 
-  async sendExpirationAlert(
-    documentId: string,
-    alertType: AlertType,
-    recipients: string[],
-  ): Promise<void> {
-    if (!recipients || recipients.length === 0) {
-      throw new Error("At least one recipient is required");
+  /**
+   * Queue the expiration alerts that are due today. Each threshold is sent
+   * once per expiration date; expired documents get one alert a day until
+   * they're renewed. Every send is recorded in compliance_alerts.
+   */
+  async runScheduledAlerts(now: Date = new Date()): Promise<ScheduledAlertRun> {
+    const today = toDateString(now);
+    const horizon = new Date(now.getTime() + MAX_ALERT_DAYS * 86400000);
+
+    const [documents, types] = await Promise.all([
+      this.documentDAO.findExpiringBy(toDateString(horizon)),
+      this.documentTypeDAO.findAll(),
+    ]);
+
+    const typesById = new Map(types.map((type) => [type.id, type]));
+
+    const due = documents.flatMap((document) => {
+      const type = document.document_type_id
+        ? typesById.get(document.document_type_id)
+        : undefined;
+      const alert = this.getDueAlert(
+        document,
+        this.getAlertDays(document, type),
+        today,
+      );
+      return alert ? [{ document, alert }] : [];
+    });
+
+    const run: ScheduledAlertRun = {
+      checked: documents.length,
+      sent: [],
+      errors: [],
+    };
+    if (due.length === 0) return run;
+
+    const history = await this.alertDAO.findByDocuments(
+      due.map(({ document }) => document.id),
+    );
+    const pending = due.filter(
+      ({ document, alert }) =>
+        !this.wasSent(history, document, alert.alert_type, today),
+    );
+    if (pending.length === 0) return run;
+
+    const recipients = await this.loadRecipients(
+      pending.map(({ document }) => document),
+    );
+
+    for (const { document, alert } of pending) {
+      try {
+        const level = this.getRecipientLevel(alert.days_until_expiration);
+        const users = recipients.resolve(document, level);
+        if (users.length === 0) continue;
+
+        const recipientIds = users.map((user) => user.id);
+
+        const recorded = await this.recordAndEnqueue(
+          {
+            document_id: document.id,
+            alert_type: alert.alert_type,
+            sent_to: recipientIds,
+            delivery_method: "email",
+            expiration_date: document.expiration_date,
+            alert_date: today,
+            recipient_level: level,
+          },
+          () =>
+            this.outboxService.enqueue("compliance_expiring", {
+              document_id: document.id,
+              days_until_expiration: alert.days_until_expiration,
+              recipient_ids: recipientIds,
+            }),
+        );
+        if (!recorded) continue;
+
+        run.sent.push({
+          document_id: document.id,
+          document_name: document.name,
+          alert_type: alert.alert_type,
+          days_until_expiration: alert.days_until_expiration,
+          recipient_level: level,
+          recipient_count: recipientIds.length,
+        });
+      } catch (error) {
+        run.errors.push({
+          document_id: document.id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
     }
 
-    await this.alertDAO.create({
-      document_id: documentId,
-      alert_type: alertType,
-      sent_to: recipients,
-      delivery_method: "email",
+    return run;
+  }
+
+  /**
+   * Queue reminders for failed inspections ahead of the reinspection date:
+   * once at each of REINSPECTION_REMINDER_DAYS, then daily from the date
+   * until the failure is cleared. Recorded in compliance_alerts against the
+   * reinspection date, so rescheduling starts the countdown over.
+   */
+  async runReinspectionReminders(
+    now: Date = new Date(),
+  ): Promise<ScheduledAlertRun> {
+    const today = toDateString(now);
+
+    const documents = (await this.documentDAO.findFailedInspection()).filter(
+      (document) =>
+        document.status === "failed_inspection" && document.reinspection_date,
+    );
+
+    const due = documents.flatMap((document) => {
+      const reminder = this.getDueReinspectionReminder(document, today);
+      return reminder ? [{ document, reminder }] : [];
     });
 
-    console.log(
-      `Alert sent for document ${documentId} to ${recipients.join(", ")}`,
+    const run: ScheduledAlertRun = {
+      checked: documents.length,
+      sent: [],
+      errors: [],
+    };
+    if (due.length === 0) return run;
+
+    const history = await this.alertDAO.findByDocuments(
+      due.map(({ document }) => document.id),
+    );
+    const pending = due.filter(
+      ({ document, reminder }) =>
+        !history.some(
+          (alert) =>
+            alert.document_id === document.id &&
+            alert.reinspection_date === document.reinspection_date &&
+            alert.alert_type === reminder.alert_type &&
+            (reminder.alert_type !== "reinspection_due" ||
+              alert.alert_date === today),
+        ),
     );
+    if (pending.length === 0) return run;
+
+    const recipients = await this.loadRecipients(
+      pending.map(({ document }) => document),
+    );
+
+    for (const { document, reminder } of pending) {
+      try {
+        const level = this.getRecipientLevel(reminder.days_until_reinspection);
+        const users = recipients.resolve(document, level);
+        if (users.length === 0) continue;
+
+        const recipientIds = users.map((user) => user.id);
+
+        const recorded = await this.recordAndEnqueue(
+          {
+            document_id: document.id,
+            alert_type: reminder.alert_type,
+            sent_to: recipientIds,
+            delivery_method: "email",
+            expiration_date: document.expiration_date,
+            reinspection_date: document.reinspection_date,
+            alert_date: today,
+            recipient_level: level,
+          },
+          () =>
+            this.outboxService.enqueue("compliance_reinspection_due", {
+              document_id: document.id,
+              days_until_reinspection: reminder.days_until_reinspection,
+              recipient_ids: recipientIds,
+            }),
+        );
+        if (!recorded) continue;
+
+        run.sent.push({
+          document_id: document.id,
+          document_name: document.name,
+          alert_type: reminder.alert_type,
+          days_until_expiration: reminder.days_until_reinspection,
+          recipient_level: level,
+          recipient_count: recipientIds.length,
+        });
+      } catch (error) {
+        run.errors.push({
+          document_id: document.id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    return run;
+  }
+
+  /**
+   * The reinspection reminder a document is due on a date, if any. Works
+   * like getDueAlert: the nearest crossed threshold, then "reinspection_due"
+   * on and after the reinspection date.
+   */
+  getDueReinspectionReminder(
+    document: Pick<ComplianceDocument, "reinspection_date">,
+    today: string,
+  ): DueReinspectionReminder | null {
+    if (!document.reinspection_date) return null;
+
+    const daysUntil = Math.round(
+      (Date.parse(document.reinspection_date.split("T")[0]) -
+        Date.parse(today)) /
+        86400000,
+    );
+
+    if (daysUntil <= 0) {
+      return {
+        alert_type: "reinspection_due",
+        days_until_reinspection: daysUntil,
+      };
+    }
+
+    const crossed = REINSPECTION_REMINDER_DAYS.filter(
+      (days) => days >= daysUntil,
+    );
+    if (crossed.length === 0) return null;
+
+    return {
+      alert_type: `reinspection_${Math.min(...crossed)}_day`,
+      days_until_reinspection: daysUntil,
+    };
+  }
+
+  /**
+   * Alert days for a document: its own override, else its type's defaults
+   */
+  getAlertDays(
+    document: Pick<ComplianceDocument, "alert_days">,
+    type?: Pick<ComplianceDocumentTypeRow, "default_alert_days">,
+  ): number[] {
+    if (document.alert_days?.length) return document.alert_days;
+    if (type?.default_alert_days?.length) return type.default_alert_days;
+    return DEFAULT_ALERT_DAYS;
+  }
+
+  /**
+   * The alert a document is due on a date, if any. Past the last threshold
+   * it's the nearest one not yet crossed, so a missed day still sends once;
+   * on and after the expiration date it's "expired".
+   */
+  getDueAlert(
+    document: Pick<ComplianceDocument, "expiration_date">,
+    alertDays: number[],
+    today: string,
+  ): DueComplianceAlert | null {
+    if (!document.expiration_date) return null;
+
+    const daysUntil = Math.round(
+      (Date.parse(document.expiration_date.split("T")[0]) - Date.parse(today)) /
+        86400000,
+    );
+
+    if (daysUntil <= 0) {
+      return { alert_type: "expired", days_until_expiration: daysUntil };
+    }
+
+    const crossed = alertDays.filter((days) => days >= daysUntil);
+    if (crossed.length === 0) return null;
+
+    return {
+      alert_type: `${Math.min(...crossed)}_day`,
+      days_until_expiration: daysUntil,
+    };
+  }
+
+  /**
+   * Location managers first, adding admins at two weeks out and the owner
+   * on the last day
+   */
+  getRecipientLevel(
+    daysUntilExpiration: number,
+  ): ComplianceAlertRecipientLevel {
+    if (daysUntilExpiration <= OWNER_ESCALATION_DAYS) return "owner";
+    if (daysUntilExpiration <= ADMIN_ESCALATION_DAYS) return "admin";
+    return "manager";
   }
 
   async getAlertHistory(documentId: string): Promise<ComplianceAlert[]> {
@@ -56,4 +368,105 @@ export class ComplianceAlertService {
   async getUpcomingAlerts(): Promise<UpcomingAlert[]> {
     return [];
   }
+
+  private wasSent(
+    history: ComplianceAlert[],
+    document: ComplianceDocument,
+    alertType: AlertType,
+    today: string,
+  ): boolean {
+    return history.some(
+      (alert) =>
+        alert.document_id === document.id &&
+        alert.expiration_date === document.expiration_date &&
+        alert.alert_type === alertType &&
+        (alertType !== "expired" || alert.alert_date === today),
+    );
+  }
+
+  /**
+   * Loads everyone who could receive an alert once, then resolves each
+   * document's recipients from its locations and escalation level
+   */
+  /**
+   * Record an alert, then queue it. The unique alert keys make the insert
+   * the dedupe gate, so false means another run already sent it. If
+   * queueing fails the record is removed and the next run retries.
+   */
+  private async recordAndEnqueue(
+    alert: ComplianceAlertInsert,
+    enqueue: () => Promise<void>,
+  ): Promise<boolean> {
+    const record = await this.alertDAO.create(alert);
+    if (!record) return false;
+
+    try {
+      await enqueue();
+    } catch (error) {
+      await this.alertDAO
+        .delete(record.id)
+        .catch((err) =>
+          console.error(`Failed to remove compliance alert ${record.id}:`, err),
+        );
+      throw error;
+    }
+
+    return true;
+  }
+
+  private async loadRecipients(documents: ComplianceDocument[]) {
+    const [locations, admins, owners] = await Promise.all([
+      this.locationDAO.findAll(),
+      this.userDAO.findByRole("admin"),
+      this.userDAO.findByRole("super_admin"),
+    ]);
+
+    const managerIdsByLocation = new Map(
+      locations.map((location) => [location.id, location.manager_id]),
+    );
+    const locationIdsOf = (document: ComplianceDocument) =>
+      [document.location_id, ...(document.location_ids ?? [])].filter(
+        (id): id is string => !!id,
+      );
+
+    const managerIds = new Set(
+      documents.flatMap((document) =>
+        locationIdsOf(document).flatMap(
+          (id) => managerIdsByLocation.get(id) ?? [],
+        ),
+      ),
+    );
+    const managers = await this.userDAO.findByIds([...managerIds]);
+    const managersById = new Map(managers.map((user) => [user.id, user]));
+
+    return {
+      resolve: (
+        document: ComplianceDocument,
+        level: ComplianceAlertRecipientLevel,
+      ): User[] => {
+        const locationManagers = locationIdsOf(document).flatMap((id) => {
+          const manager = managersById.get(managerIdsByLocation.get(id) ?? "");
+          return manager ? [manager] : [];
+        });
+
+        // Documents without a managed location go straight to admins
+        const users = [
+          ...locationManagers,
+          ...(level !== "manager" || locationManagers.length === 0
+            ? admins
+            : []),
+          ...(level === "owner" ? owners : []),
+        ];
+
+        const unique = new Map(
+          users.filter((user) => user.is_active).map((user) => [user.id, user]),
+        );
+        return [...unique.values()];
+      },
+    };
+  }
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
 }
@@ -0,0 +1,338 @@
+import JSZip from "jszip";
+import { LocationDAO } from "@/dao/location.dao";
+import { ComplianceDocumentDAO } from "@/dao/compliance-document.dao";
+import { ComplianceDocumentTypeDAO } from "@/dao/compliance-document-type.dao";
+import { ComplianceDocumentVersionDAO } from "@/dao/compliance-document-version.dao";
+import {
+  PMCompletionDAO,
+  type PMCompletionWithSchedule,
+} from "@/dao/pm-completion.dao";
+import { TicketDAO } from "@/dao/ticket.dao";
+import { StorageIAO } from "@/iao/storage";
+import { renderPDFReport } from "@/lib/export/pdf";
+import { STORAGE_BUCKETS } from "@/lib/validations/file-upload";
+import type { Database } from "@/types/database";
+import type { ComplianceDocumentVersionRow } from "@/types/database-extensions";
+
+type ComplianceDocument =
+  Database["public"]["Tables"]["compliance_documents"]["Row"];
+type Ticket = Database["public"]["Tables"]["tickets"]["Row"];
+
+// PM template categories inspectors ask to see
+export const INSPECTION_PM_CATEGORIES = [
+  "hood_cleaning",
+  "fire_safety",
+  "backflow",
+];
+
+// How long the download link stays valid
+const DOWNLOAD_LINK_SECONDS = 60 * 60;
+
+const INDEX_FILE_NAME = "index.pdf";
+
+/**
+ * A stored document file to copy into the package
+ */
+export interface AuditPackageFile {
+  document: ComplianceDocument;
+  version: number | null;
+  storage_path: string;
+  zip_path: string;
+  issue_date: string | null;
+  expiration_date: string | null;
+  uploaded_at: string | null;
+}
+
+export interface AuditPackage {
+  file_name: string;
+  url: string;
+  expires_at: string;
+  documents: number;
+  files: number;
+  missing_files: string[];
+  pm_completions: number;
+  tickets: number;
+}
+
+/**
+ * Compliance Audit Package Service
+ * Bundles everything an inspector asks for at a location into one ZIP:
+ * compliance document files, inspection-related PM completions and
+ * corrective-action tickets, with a PDF index
+ */
+export class ComplianceAuditPackageService {
+  constructor(
+    private locationDAO = new LocationDAO(),
+    private complianceDAO = new ComplianceDocumentDAO(),
+    private documentTypeDAO = new ComplianceDocumentTypeDAO(),
+    private versionDAO = new ComplianceDocumentVersionDAO(),
+    private pmCompletionDAO = new PMCompletionDAO(),
+    private ticketDAO = new TicketDAO(),
+    private storageIAO = new StorageIAO(),
+  ) {}
+
+  /**
+   * Build the package for a location and date range (YYYY-MM-DD,
+   * inclusive), store it and return a signed download link
+   */
+  async generatePackage(
+    locationId: string,
+    fromDate: string,
+    toDate: string,
+  ): Promise<AuditPackage> {
+    if (fromDate > toDate) {
+      throw new Error("Cannot export a date range that ends before it starts");
+    }
+
+    const location = await this.locationDAO.findById(locationId);
+    if (!location) {
+      throw new Error("Location not found");
+    }
+
+    const documents = await this.complianceDAO.findByLocation(locationId);
+    const documentIds = documents.map((doc) => doc.id);
+
+    const [types, versions, completions, tickets] = await Promise.all([
+      this.documentTypeDAO.findAll(),
+      this.versionDAO.findByDocumentIds(documentIds),
+      this.pmCompletionDAO.findCompletedByCategories(
+        INSPECTION_PM_CATEGORIES,
+        locationId,
+        fromDate,
+        toDate,
+      ),
+      this.ticketDAO.findByComplianceDocuments(documentIds),
+    ]);
+
+    const files = this.getPackageFiles(documents, versions, fromDate, toDate);
+    const rangeTickets = tickets.filter(
+      (t) =>
+        t.created_at.split("T")[0] <= toDate &&
+        (!t.completed_at || t.completed_at.split("T")[0] >= fromDate),
+    );
+
+    const zip = new JSZip();
+    const missing: string[] = [];
+
+    for (const file of files) {
+      try {
+        zip.file(
+          file.zip_path,
+          await this.storageIAO.download(
+            STORAGE_BUCKETS.complianceDocs,
+            file.storage_path,
+          ),
+        );
+      } catch {
+        // Listed as missing in the index rather than failing the package
+        missing.push(file.zip_path);
+      }
+    }
+
+    const typeNames = new Map(types.map((type) => [type.id, type.name]));
+    const documentNames = new Map(documents.map((doc) => [doc.id, doc.name]));
+
+    zip.file(
+      INDEX_FILE_NAME,
+      renderPDFReport({
+        title: `Compliance Audit Package: ${location.name}`,
+        subtitle: `${fromDate} to ${toDate}`,
+        sections: [
+          {
+            heading: "Compliance Documents",
+            columns: [
+              { header: "Document", accessor: "name" },
+              { header: "Type", accessor: "type" },
+              { header: "Status", accessor: "status" },
+              { header: "Number", accessor: "document_number" },
+              { header: "Issued By", accessor: "issuing_authority" },
+              { header: "Issued", accessor: "issue_date" },
+              { header: "Expires", accessor: "expiration_date" },
+            ],
+            data: documents.map((doc) => ({
+              ...doc,
+              type: doc.document_type_id
+                ? typeNames.get(doc.document_type_id)
+                : null,
+            })),
+          },
+          {
+            heading: "Document Files",
+            columns: [
+              { header: "Document", accessor: "document" },
+              { header: "Version", accessor: "version" },
+              { header: "Issued", accessor: "issue_date" },
+              { header: "Expires", accessor: "expiration_date" },
+              { header: "Uploaded", accessor: "uploaded_at" },
+              { header: "File", accessor: "file" },
+            ],
+            data: files.map((file) => ({
+              document: file.document.name,
+              version: file.version ?? "Current",
+              issue_date: file.issue_date,
+              expiration_date: file.expiration_date,
+              uploaded_at: file.uploaded_at?.split("T")[0],
+              file: missing.includes(file.zip_path)
+                ? "Missing from storage"
+                : file.zip_path,
+            })),
+            emptyMessage: "No document files on record for this period",
+          },
+          {
+            heading: "Inspection PM Completions",
+            columns: [
+              { header: "Completed", accessor: "completed_date" },
+              { header: "Service", accessor: "service" },
+              { header: "Schedule", accessor: "schedule" },
+              { header: "Asset", accessor: "asset" },
+              { header: "Completed By", accessor: "completed_by" },
+              { header: "Checklist", accessor: "checklist" },
+              { header: "Notes", accessor: "notes" },
+            ],
+            data: completions.map((c) => ({
+              completed_date: c.completed_date,
+              service: c.schedule?.template?.name,
+              schedule: c.schedule?.name,
+              asset: c.schedule?.asset?.name,
+              completed_by: c.completed_by_user?.full_name,
+              checklist: this.getChecklistSummary(c),
+              notes: c.notes,
+            })),
+            emptyMessage: "No inspection-related PM completed in this period",
+          },
+          {
+            heading: "Corrective-Action Tickets",
+            columns: [
+              { header: "Ticket #", accessor: "ticket_number" },
+              { header: "Title", accessor: "title" },
+              { header: "Document", accessor: "document" },
+              { header: "Status", accessor: "status" },
+              { header: "Opened", accessor: "opened" },
+              { header: "Completed", accessor: "completed" },
+            ],
+            data: rangeTickets.map((t: Ticket) => ({
+              ticket_number: t.ticket_number,
+              title: t.title,
+              document: t.compliance_document_id
+                ? documentNames.get(t.compliance_document_id)
+                : null,
+              status: t.status,
+              opened: t.created_at.split("T")[0],
+              completed: t.completed_at?.split("T")[0],
+            })),
+            emptyMessage: "No corrective-action tickets in this period",
+          },
+        ],
+      }),
+    );
+
+    const content = await zip.generateAsync({
+      type: "uint8array",
+      compression: "DEFLATE",
+    });
+
+    const fileName = `audit-${this.toFileName(location.name)}-${fromDate}-to-${toDate}.zip`;
+    const path = `${location.tenant_id}/${locationId}/${Date.now()}-${fileName}`;
+    await this.storageIAO.upload(
+      STORAGE_BUCKETS.complianceExports,
+      path,
+      content,
+      "application/zip",
+    );
+
+    const url = await this.storageIAO.createSignedUrl(
+      STORAGE_BUCKETS.complianceExports,
+      path,
+      DOWNLOAD_LINK_SECONDS,
+    );
+
+    return {
+      file_name: fileName,
+      url,
+      expires_at: new Date(
+        Date.now() + DOWNLOAD_LINK_SECONDS * 1000,
+      ).toISOString(),
+      documents: documents.length,
+      files: files.length - missing.length,
+      missing_files: missing,
+      pm_completions: completions.length,
+      tickets: rangeTickets.length,
+    };
+  }
+
+  /**
+   * Document files in effect at some point in the date range: versions
+   * uploaded by the end of it that hadn't expired before it began, plus
+   * each document's current file if it isn't a recorded version
+   */
+  getPackageFiles(
+    documents: ComplianceDocument[],
+    versions: ComplianceDocumentVersionRow[],
+    fromDate: string,
+    toDate: string,
+  ): AuditPackageFile[] {
+    const files: AuditPackageFile[] = [];
+
+    for (const doc of documents) {
+      const folder = `documents/${this.toFileName(doc.name)}-${doc.id.slice(0, 8)}`;
+      const docVersions = versions.filter((v) => v.document_id === doc.id);
+
+      for (const version of docVersions) {
+        if (version.created_at.split("T")[0] > toDate) continue;
+        if (version.expiration_date && version.expiration_date < fromDate) {
+          continue;
+        }
+
+        files.push({
+          document: doc,
+          version: version.version_number,
+          storage_path: version.file_path,
+          zip_path: `${folder}/v${version.version_number}-${this.getBaseName(version.file_path)}`,
+          issue_date: version.issue_date,
+          expiration_date: version.expiration_date,
+          uploaded_at: version.created_at,
+        });
+      }
+
+      if (
+        doc.file_path &&
+        !docVersions.some((v) => v.file_path === doc.file_path) &&
+        (!doc.expiration_date || doc.expiration_date >= fromDate)
+      ) {
+        files.push({
+          document: doc,
+          version: null,
+          storage_path: doc.file_path,
+          zip_path: `${folder}/current-${this.getBaseName(doc.file_path)}`,
+          issue_date: doc.issue_date,
+          expiration_date: doc.expiration_date,
+          uploaded_at: null,
+        });
+      }
+    }
+
+    return files;
+  }
+
+  private getChecklistSummary(completion: PMCompletionWithSchedule): string {
+    const items = completion.checklist_results?.items ?? [];
+    const checked = items.filter(
+      (item) => item.passed !== undefined && item.passed !== null,
+    );
+    if (checked.length === 0) return "";
+
+    const passed = checked.filter((item) => item.passed).length;
+    return `${passed}/${checked.length} passed`;
+  }
+
+  private getBaseName(path: string): string {
+    return path.split("/").pop() || path;
+  }
+
+  private toFileName(name: string): string {
+    return name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "");
+  }
+}
@@ -9,7 +9,9 @@ interface CreateDocTypeInput {
   name_es?: string | null;
   description?: string | null;
   default_alert_days?: number[] | null;
+  expiring_soon_days?: number | null;
   renewal_checklist?: Record<string, unknown> | null;
+  metadata_patterns?: Record<string, unknown> | null;
   is_location_specific?: boolean;
 }
 
@@ -18,7 +20,9 @@ interface UpdateDocTypeInput {
   name_es?: string | null;
   description?: string | null;
   default_alert_days?: number[] | null;
+  expiring_soon_days?: number | null;
   renewal_checklist?: Record<string, unknown> | null;
+  metadata_patterns?: Record<string, unknown> | null;
   is_location_specific?: boolean;
 }
 
@@ -51,7 +55,9 @@ export class ComplianceDocumentTypeService {
       name_es: data.name_es?.trim() || null,
       description: data.description?.trim() || null,
       default_alert_days: data.default_alert_days || [90, 60, 30, 14, 7],
+      expiring_soon_days: data.expiring_soon_days ?? null,
       renewal_checklist: data.renewal_checklist || null,
+      metadata_patterns: data.metadata_patterns || null,
       is_location_specific:
         data.is_location_specific !== undefined
           ? data.is_location_specific
@@ -85,8 +91,12 @@ export class ComplianceDocumentTypeService {
       updateData.description = data.description?.trim() || null;
     if (data.default_alert_days !== undefined)
       updateData.default_alert_days = data.default_alert_days;
+    if (data.expiring_soon_days !== undefined)
+      updateData.expiring_soon_days = data.expiring_soon_days;
     if (data.renewal_checklist !== undefined)
       updateData.renewal_checklist = data.renewal_checklist;
+    if (data.metadata_patterns !== undefined)
+      updateData.metadata_patterns = data.metadata_patterns;
     if (data.is_location_specific !== undefined)
       updateData.is_location_specific = data.is_location_specific;
 
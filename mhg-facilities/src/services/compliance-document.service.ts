@@ -1,11 +1,45 @@
 import { ComplianceDocumentDAO } from "@/dao/compliance-document.dao";
 import { ComplianceDocumentTypeDAO } from "@/dao/compliance-document-type.dao";
 import { LocationDAO } from "@/dao/location.dao";
-import type { Database } from "@/types/database";
+import { ComplianceStatusHistoryDAO } from "@/dao/compliance-status-history.dao";
+import {
+  ComplianceCorrectiveActionDAO,
+  type ComplianceCorrectiveActionWithTicket,
+} from "@/dao/compliance-corrective-action.dao";
+import { TicketService } from "./ticket.service";
+import type { Database, TicketStatus } from "@/types/database";
 
 type ComplianceDocument =
   Database["public"]["Tables"]["compliance_documents"]["Row"];
 type ComplianceStatus = Database["public"]["Enums"]["compliance_status"];
+type ComplianceDocumentUpdate =
+  Database["public"]["Tables"]["compliance_documents"]["Update"];
+
+// Statuses the reconciler derives from the expiration date. The rest
+// (pending_renewal, conditional, failed_inspection, suspended) are set by
+// people and left alone.
+type DateDrivenStatus = Extract<
+  ComplianceStatus,
+  "active" | "expiring_soon" | "expired"
+>;
+const DATE_DRIVEN_STATUSES: ComplianceStatus[] = [
+  "active",
+  "expiring_soon",
+  "expired",
+];
+
+// Used when a document's type doesn't set expiring_soon_days
+export const DEFAULT_EXPIRING_SOON_DAYS = 30;
+
+// Corrective-action tickets in these statuses no longer block clearing a
+// failed inspection. Verified tickets stay completed (verified_at is set),
+// and rejecting the ticket is how a manager withdraws an action that turns
+// out not to be needed.
+export const RESOLVED_TICKET_STATUSES: TicketStatus[] = [
+  "completed",
+  "closed",
+  "rejected",
+];
 
 interface CreateComplianceDocInput {
   name: string;
@@ -19,6 +53,7 @@ interface CreateComplianceDocInput {
   file_path?: string | null;
   renewal_cost?: number | null;
   renewal_assigned_to?: string | null;
+  alert_days?: number[] | null;
   notes?: string | null;
 }
 
@@ -35,6 +70,7 @@ interface UpdateComplianceDocInput {
   status?: ComplianceStatus;
   renewal_cost?: number | null;
   renewal_assigned_to?: string | null;
+  alert_days?: number[] | null;
   notes?: string | null;
 }
 
@@ -54,6 +90,25 @@ interface ComplianceStats {
   failed_inspection: number;
 }
 
+export type ComplianceTransitionReason =
+  | DateDrivenStatus
+  | "conditional_deadline_missed"
+  | "reinspection_missed";
+
+export interface ComplianceStatusTransition {
+  document_id: string;
+  document_name: string;
+  from_status: ComplianceStatus;
+  to_status: ComplianceStatus;
+  reason: ComplianceTransitionReason;
+}
+
+export interface ComplianceReconcileResult {
+  checked: number;
+  transitions: ComplianceStatusTransition[];
+  errors: { document_id: string; error: string }[];
+}
+
 interface ComplianceCalendarItem {
   date: string;
   documents: Array<{
@@ -69,6 +124,9 @@ export class ComplianceDocumentService {
     private complianceDAO = new ComplianceDocumentDAO(),
     private documentTypeDAO = new ComplianceDocumentTypeDAO(),
     private locationDAO = new LocationDAO(),
+    private statusHistoryDAO = new ComplianceStatusHistoryDAO(),
+    private correctiveActionDAO = new ComplianceCorrectiveActionDAO(),
+    private ticketService = new TicketService(),
   ) {}
 
   async getAllDocuments(
@@ -207,6 +265,7 @@ export class ComplianceDocumentService {
       status: "active",
       renewal_cost: data.renewal_cost || null,
       renewal_assigned_to: data.renewal_assigned_to || null,
+      alert_days: data.alert_days?.length ? data.alert_days : null,
       notes: data.notes?.trim() || null,
     });
   }
@@ -264,6 +323,8 @@ export class ComplianceDocumentService {
       updateData.renewal_cost = data.renewal_cost;
     if (data.renewal_assigned_to !== undefined)
       updateData.renewal_assigned_to = data.renewal_assigned_to;
+    if (data.alert_days !== undefined)
+      updateData.alert_days = data.alert_days?.length ? data.alert_days : null;
     if (data.notes !== undefined) updateData.notes = data.notes?.trim() || null;
 
     return await this.complianceDAO.update(id, updateData);
@@ -292,6 +353,8 @@ export class ComplianceDocumentService {
       failed_inspection_date: null,
       corrective_action_required: null,
       reinspection_date: null,
+      conditional_deadline_missed_at: null,
+      reinspection_missed_at: null,
     });
   }
 
@@ -304,41 +367,231 @@ export class ComplianceDocumentService {
       is_conditional: true,
       conditional_requirements: requirements,
       conditional_deadline: deadline,
+      conditional_deadline_missed_at: null,
       status: "conditional",
     });
   }
 
+  /**
+   * Records a failed inspection. Each corrective action gets a ticket at the
+   * document's location, due on the reinspection date; the failure can't be
+   * cleared until they're all completed or rejected.
+   */
   async markAsFailedInspection(
     id: string,
-    correctiveAction: string,
+    correctiveActions: string[],
     reinspectionDate: string,
+    userId: string,
   ): Promise<ComplianceDocument> {
+    const document = await this.complianceDAO.findById(id);
+    if (!document) {
+      throw new Error("Compliance document not found");
+    }
+
+    const locationId = document.location_id ?? document.location_ids?.[0];
+    if (!locationId) {
+      throw new Error(
+        "Cannot raise corrective-action tickets for a document without a location",
+      );
+    }
+
+    for (const [index, description] of correctiveActions.entries()) {
+      const ticket = await this.ticketService.createTicket({
+        title: `Corrective action: ${description}`.slice(0, 200),
+        description: `Corrective action for failed inspection of ${document.name}. Reinspection on ${reinspectionDate}.\n\n${description}`,
+        location_id: locationId,
+        priority: "high",
+        submitted_by: userId,
+        due_date: reinspectionDate,
+        compliance_document_id: id,
+      });
+
+      await this.correctiveActionDAO.create({
+        document_id: id,
+        description,
+        sort_order: index,
+        ticket_id: ticket.id,
+        created_by: userId,
+      });
+    }
+
+    // Flag the document last so a failed ticket insert leaves it unchanged
     return await this.complianceDAO.update(id, {
       failed_inspection_date: new Date().toISOString().split("T")[0],
-      corrective_action_required: correctiveAction,
+      corrective_action_required: correctiveActions.join("\n"),
       reinspection_date: reinspectionDate,
+      reinspection_missed_at: null,
       status: "failed_inspection",
     });
   }
 
+  async getCorrectiveActions(
+    id: string,
+  ): Promise<ComplianceCorrectiveActionWithTicket[]> {
+    return await this.correctiveActionDAO.findByDocument(id);
+  }
+
   async clearConditional(id: string): Promise<ComplianceDocument> {
     return await this.complianceDAO.update(id, {
       is_conditional: false,
       conditional_requirements: null,
       conditional_deadline: null,
+      conditional_deadline_missed_at: null,
       status: "active",
     });
   }
 
   async clearFailedInspection(id: string): Promise<ComplianceDocument> {
+    const actions = await this.correctiveActionDAO.findByDocument(id);
+    const open = actions.filter(
+      (action) =>
+        action.ticket &&
+        !RESOLVED_TICKET_STATUSES.includes(action.ticket.status),
+    );
+    if (open.length > 0) {
+      throw new Error(
+        `Cannot clear a failed inspection with ${open.length} open corrective-action ticket(s)`,
+      );
+    }
+
     return await this.complianceDAO.update(id, {
       failed_inspection_date: null,
       corrective_action_required: null,
       reinspection_date: null,
+      reinspection_missed_at: null,
       status: "active",
     });
   }
 
+  /**
+   * Nightly reconciler: moves documents between active, expiring_soon and
+   * expired by expiration date and flags missed conditional deadlines and
+   * reinspection dates. Every automatic change gets a history entry.
+   */
+  async reconcileStatuses(
+    now: Date = new Date(),
+  ): Promise<ComplianceReconcileResult> {
+    const today = now.toISOString().split("T")[0];
+
+    const [documents, types] = await Promise.all([
+      this.complianceDAO.findAll(),
+      this.documentTypeDAO.findAll(),
+    ]);
+    const windows = new Map(
+      types.map((type) => [type.id, type.expiring_soon_days]),
+    );
+
+    const result: ComplianceReconcileResult = {
+      checked: documents.length,
+      transitions: [],
+      errors: [],
+    };
+
+    for (const doc of documents) {
+      const changes: ComplianceDocumentUpdate = {};
+      const entries: {
+        to_status: ComplianceStatus;
+        reason: ComplianceTransitionReason;
+        notes: string;
+      }[] = [];
+
+      if (DATE_DRIVEN_STATUSES.includes(doc.status) && doc.expiration_date) {
+        const status = this.getDateStatus(
+          doc.expiration_date,
+          (doc.document_type_id && windows.get(doc.document_type_id)) ||
+            DEFAULT_EXPIRING_SOON_DAYS,
+          today,
+        );
+        if (status !== doc.status) {
+          changes.status = status;
+          entries.push({
+            to_status: status,
+            reason: status,
+            notes: `Expiration date ${doc.expiration_date}`,
+          });
+        }
+      }
+
+      if (
+        doc.is_conditional &&
+        doc.conditional_deadline &&
+        doc.conditional_deadline < today &&
+        !doc.conditional_deadline_missed_at
+      ) {
+        changes.conditional_deadline_missed_at = now.toISOString();
+        entries.push({
+          to_status: doc.status,
+          reason: "conditional_deadline_missed",
+          notes: `Conditional deadline ${doc.conditional_deadline} passed`,
+        });
+      }
+
+      if (
+        doc.failed_inspection_date &&
+        doc.reinspection_date &&
+        doc.reinspection_date < today &&
+        !doc.reinspection_missed_at
+      ) {
+        changes.reinspection_missed_at = now.toISOString();
+        entries.push({
+          to_status: doc.status,
+          reason: "reinspection_missed",
+          notes: `Reinspection date ${doc.reinspection_date} passed`,
+        });
+      }
+
+      if (entries.length === 0) continue;
+
+      try {
+        await this.complianceDAO.update(doc.id, changes);
+
+        for (const entry of entries) {
+          await this.statusHistoryDAO.create({
+            document_id: doc.id,
+            from_status: doc.status,
+            to_status: entry.to_status,
+            reason: entry.reason,
+            is_automatic: true,
+            notes: entry.notes,
+          });
+
+          result.transitions.push({
+            document_id: doc.id,
+            document_name: doc.name,
+            from_status: doc.status,
+            to_status: entry.to_status,
+            reason: entry.reason,
+          });
+        }
+      } catch (error) {
+        result.errors.push({
+          document_id: doc.id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Status a document should have on a date going by its expiration date
+   * alone. Documents stay valid through their expiration date.
+   */
+  getDateStatus(
+    expirationDate: string,
+    expiringSoonDays: number,
+    today: string,
+  ): DateDrivenStatus {
+    const daysUntil = Math.round(
+      (Date.parse(expirationDate.split("T")[0]) - Date.parse(today)) / 86400000,
+    );
+
+    if (daysUntil < 0) return "expired";
+    if (daysUntil <= expiringSoonDays) return "expiring_soon";
+    return "active";
+  }
+
   async processExpirationAlerts(): Promise<void> {
     throw new Error("Not implemented - requires email service integration");
   }
@@ -0,0 +1,206 @@
+import { extractText, getDocumentProxy } from "unpdf";
+import { ComplianceDocumentTypeDAO } from "@/dao/compliance-document-type.dao";
+import type {
+  ComplianceMetadataField,
+  ComplianceMetadataPatterns,
+  ComplianceMetadataSuggestions,
+} from "@/types";
+
+// A date as permits tend to print it: "March 5, 2026", "5 Mar 2026",
+// "03/05/2026" or "2026-03-05"
+const DATE =
+  "([a-z]{3,9}\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}|\\d{1,2}\\s+[a-z]{3,9}\\.?,?\\s+\\d{4}|\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4}|\\d{4}-\\d{2}-\\d{2})";
+
+// Tried after the document type's own patterns
+export const DEFAULT_METADATA_PATTERNS: Required<ComplianceMetadataPatterns> = {
+  expiration_date: [
+    `(?:expiration|expiry|expires?)(?:\\s+date)?\\s*(?:on)?\\s*[:#-]?\\s*${DATE}`,
+    `(?:valid|good)\\s+(?:through|thru|until)\\s*[:#-]?\\s*${DATE}`,
+  ],
+  issue_date: [
+    `(?:date\\s+(?:of\\s+)?issued?|issued?\\s+(?:date|on)|issued)\\s*[:#-]?\\s*${DATE}`,
+    `effective(?:\\s+date)?\\s*[:#-]?\\s*${DATE}`,
+  ],
+  document_number: [
+    "(?:permit|license|licence|certificate|registration|account)\\s*(?:no\\.?|number|num\\.?|#)\\s*[:#-]?\\s*([a-z0-9][a-z0-9-]{2,39})",
+  ],
+  issuing_authority: [
+    "issued\\s+by\\s*[:-]?\\s*([^\\n]{3,120})",
+    "issuing\\s+(?:authority|agency|office)\\s*[:-]?\\s*([^\\n]{3,120})",
+  ],
+};
+
+const FIELDS = Object.keys(
+  DEFAULT_METADATA_PATTERNS,
+) as ComplianceMetadataField[];
+
+const DATE_FIELDS: ComplianceMetadataField[] = [
+  "issue_date",
+  "expiration_date",
+];
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+export interface ComplianceMetadataExtraction {
+  // False for scanned PDFs with no text layer
+  has_text: boolean;
+  page_count: number;
+  suggestions: ComplianceMetadataSuggestions;
+}
+
+/**
+ * Suggests compliance document details from an uploaded PDF's text layer.
+ * Scanned images aren't read; there's no OCR.
+ */
+export class ComplianceMetadataService {
+  constructor(private documentTypeDAO = new ComplianceDocumentTypeDAO()) {}
+
+  async extractMetadata(
+    file: Uint8Array,
+    documentTypeId?: string | null,
+  ): Promise<ComplianceMetadataExtraction> {
+    const type = documentTypeId
+      ? await this.documentTypeDAO.findById(documentTypeId)
+      : null;
+
+    let pdf;
+    try {
+      pdf = await getDocumentProxy(file);
+    } catch {
+      throw new Error("Cannot read this file as a PDF");
+    }
+    const { totalPages, text } = await extractText(pdf, { mergePages: true });
+
+    return {
+      has_text: text.trim().length > 0,
+      page_count: totalPages,
+      suggestions: this.suggestMetadata(
+        text,
+        this.getPatterns(type?.metadata_patterns),
+      ),
+    };
+  }
+
+  /**
+   * The first match per field, trying the type's patterns before the
+   * defaults. Dates that don't parse are skipped so a later pattern can
+   * match.
+   */
+  suggestMetadata(
+    text: string,
+    patterns: ComplianceMetadataPatterns = {},
+  ): ComplianceMetadataSuggestions {
+    const suggestions: ComplianceMetadataSuggestions = {};
+
+    for (const field of FIELDS) {
+      const sources = [
+        ...(patterns[field] ?? []),
+        ...DEFAULT_METADATA_PATTERNS[field],
+      ];
+
+      for (const source of sources) {
+        const match = this.compile(source)?.exec(text);
+        if (!match) continue;
+
+        const raw = (match[1] ?? match[0]).replace(/\s+/g, " ").trim();
+        const value = DATE_FIELDS.includes(field)
+          ? this.parseDate(raw)
+          : raw.replace(/[\s,.;:]+$/, "");
+        if (!value) continue;
+
+        suggestions[field] = {
+          value,
+          excerpt: match[0].replace(/\s+/g, " ").trim(),
+        };
+        break;
+      }
+    }
+
+    return suggestions;
+  }
+
+  /**
+   * A printed date as YYYY-MM-DD. Numeric dates are read month first.
+   */
+  parseDate(value: string): string | null {
+    const text = value.toLowerCase().replace(/(\d)(st|nd|rd|th)/, "$1");
+
+    let year: number;
+    let month: number;
+    let day: number;
+
+    const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    const numeric = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/);
+    const monthFirst = text.match(/^([a-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})$/);
+    const dayFirst = text.match(/^(\d{1,2})\s+([a-z]{3,9})\.?,?\s+(\d{4})$/);
+
+    if (iso) {
+      [year, month, day] = [+iso[1], +iso[2], +iso[3]];
+    } else if (numeric) {
+      [month, day, year] = [+numeric[1], +numeric[2], +numeric[3]];
+      if (year < 100) year += 2000;
+    } else if (monthFirst) {
+      month = MONTHS.indexOf(monthFirst[1].slice(0, 3)) + 1;
+      [day, year] = [+monthFirst[2], +monthFirst[3]];
+    } else if (dayFirst) {
+      month = MONTHS.indexOf(dayFirst[2].slice(0, 3)) + 1;
+      [day, year] = [+dayFirst[1], +dayFirst[3]];
+    } else {
+      return null;
+    }
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (
+      month < 1 ||
+      date.getUTCFullYear() !== year ||
+      date.getUTCMonth() !== month - 1 ||
+      date.getUTCDate() !== day
+    ) {
+      return null;
+    }
+
+    return date.toISOString().split("T")[0];
+  }
+
+  /**
+   * Patterns from a document type's metadata_patterns, skipping anything
+   * malformed
+   */
+  getPatterns(
+    patterns: Record<string, unknown> | null | undefined,
+  ): ComplianceMetadataPatterns {
+    const result: ComplianceMetadataPatterns = {};
+    if (!patterns) return result;
+
+    for (const field of FIELDS) {
+      const sources = patterns[field];
+      if (!Array.isArray(sources)) continue;
+      result[field] = sources.filter(
+        (source): source is string => typeof source === "string",
+      );
+    }
+
+    return result;
+  }
+
+  private compile(source: string): RegExp | null {
+    try {
+      return new RegExp(source, "i");
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,387 @@
+import { ComplianceRenewalDAO } from "@/dao/compliance-renewal.dao";
+import {
+  ComplianceRenewalTaskDAO,
+  type ComplianceRenewalTaskWithAssignee,
+} from "@/dao/compliance-renewal-task.dao";
+import { ComplianceDocumentDAO } from "@/dao/compliance-document.dao";
+import { ComplianceDocumentTypeDAO } from "@/dao/compliance-document-type.dao";
+import { ComplianceDocumentVersionDAO } from "@/dao/compliance-document-version.dao";
+import { ComplianceStatusHistoryDAO } from "@/dao/compliance-status-history.dao";
+import { StorageIAO } from "@/iao/storage";
+import {
+  ComplianceDocumentService,
+  DEFAULT_EXPIRING_SOON_DAYS,
+} from "./compliance-document.service";
+import {
+  STORAGE_BUCKETS,
+  getStoragePath,
+  validateFileUpload,
+} from "@/lib/validations/file-upload";
+import type { ComplianceRenewalWithRelations } from "@/dao/compliance-renewal.dao";
+import type { Database } from "@/types/database";
+import type {
+  ComplianceRenewalRow,
+  ComplianceRenewalStage,
+  ComplianceRenewalTaskRow,
+} from "@/types/database-extensions";
+import type { ComplianceRenewalChecklist } from "@/types";
+
+type ComplianceDocument =
+  Database["public"]["Tables"]["compliance_documents"]["Row"];
+
+export type ComplianceRenewalAction = "submit" | "review" | "cancel";
+
+// Stage each action moves a renewal from; approval has its own method
+const ACTION_FROM_STAGE: Record<
+  Exclude<ComplianceRenewalAction, "cancel">,
+  ComplianceRenewalStage
+> = {
+  submit: "not_started",
+  review: "submitted",
+};
+
+const CLOSED_STAGES: ComplianceRenewalStage[] = ["approved", "cancelled"];
+
+export interface ComplianceRenewalWithTasks extends ComplianceRenewalWithRelations {
+  tasks: ComplianceRenewalTaskWithAssignee[];
+}
+
+interface StartRenewalInput {
+  assigned_to?: string | null;
+  cost?: number | null;
+  notes?: string | null;
+}
+
+interface UpdateRenewalTaskInput {
+  completed?: boolean;
+  assigned_to?: string | null;
+  due_date?: string | null;
+}
+
+interface ApproveRenewalInput {
+  file: File;
+  new_issue_date?: string | null;
+  new_expiration_date: string;
+  cost?: number | null;
+}
+
+/**
+ * Compliance Renewal Service
+ * Walks a document through renewal: checklist tasks, submission, review and
+ * approval, which records a new document version with the renewed dates
+ */
+export class ComplianceRenewalService {
+  constructor(
+    private renewalDAO = new ComplianceRenewalDAO(),
+    private taskDAO = new ComplianceRenewalTaskDAO(),
+    private complianceDAO = new ComplianceDocumentDAO(),
+    private documentTypeDAO = new ComplianceDocumentTypeDAO(),
+    private versionDAO = new ComplianceDocumentVersionDAO(),
+    private statusHistoryDAO = new ComplianceStatusHistoryDAO(),
+    private storageIAO = new StorageIAO(),
+    private documentService = new ComplianceDocumentService(),
+  ) {}
+
+  /**
+   * The document's latest renewal with its tasks, open or not
+   */
+  async getRenewal(
+    documentId: string,
+  ): Promise<ComplianceRenewalWithTasks | null> {
+    const [latest] = await this.renewalDAO.findByDocument(documentId);
+    if (!latest) return null;
+
+    const tasks = await this.taskDAO.findByRenewal(latest.id);
+    return { ...latest, tasks };
+  }
+
+  /**
+   * Open a renewal, creating one task per item in the document type's
+   * renewal checklist, and mark the document pending renewal
+   */
+  async startRenewal(
+    documentId: string,
+    input: StartRenewalInput,
+    userId: string,
+  ): Promise<ComplianceRenewalRow> {
+    const doc = await this.getDocument(documentId);
+
+    const open = await this.renewalDAO.findOpenByDocument(documentId);
+    if (open) {
+      throw new Error("Cannot start a renewal while another is in progress");
+    }
+
+    const type = doc.document_type_id
+      ? await this.documentTypeDAO.findById(doc.document_type_id)
+      : null;
+    const assignedTo = input.assigned_to ?? doc.renewal_assigned_to ?? null;
+    const cost = input.cost ?? doc.renewal_cost ?? null;
+
+    const renewal = await this.renewalDAO.create({
+      document_id: documentId,
+      stage: "not_started",
+      assigned_to: assignedTo,
+      cost,
+      notes: input.notes?.trim() || null,
+      started_by: userId,
+    });
+
+    await this.taskDAO.createMany(
+      this.getChecklistItems(type?.renewal_checklist).map((item, index) => ({
+        renewal_id: renewal.id,
+        checklist_item_id: item.id,
+        title: item.label,
+        description: item.description ?? null,
+        sort_order: index,
+        assigned_to: assignedTo,
+      })),
+    );
+
+    await this.complianceDAO.update(documentId, {
+      status: "pending_renewal",
+      renewal_assigned_to: assignedTo,
+      renewal_cost: cost,
+    });
+    await this.recordStatusChange(
+      doc,
+      "pending_renewal",
+      "renewal_started",
+      userId,
+    );
+
+    return renewal;
+  }
+
+  /**
+   * Move the open renewal to its next stage, or cancel it
+   */
+  async advanceRenewal(
+    documentId: string,
+    action: ComplianceRenewalAction,
+    userId: string,
+    notes?: string | null,
+  ): Promise<ComplianceRenewalRow> {
+    const doc = await this.getDocument(documentId);
+    const renewal = await this.getOpenRenewal(documentId);
+    const now = new Date().toISOString();
+    const noteUpdate = notes?.trim() ? { notes: notes.trim() } : {};
+
+    if (action === "cancel") {
+      const cancelled = await this.renewalDAO.update(renewal.id, {
+        stage: "cancelled",
+        cancelled_at: now,
+        ...noteUpdate,
+      });
+
+      // Hand the document back to the expiration-date statuses
+      const status = doc.expiration_date
+        ? await this.getDateStatus(doc, doc.expiration_date)
+        : "active";
+      await this.complianceDAO.update(documentId, { status });
+      await this.recordStatusChange(doc, status, "renewal_cancelled", userId);
+
+      return cancelled;
+    }
+
+    if (renewal.stage !== ACTION_FROM_STAGE[action]) {
+      throw new Error(
+        `Cannot ${action} a renewal in the ${renewal.stage} stage`,
+      );
+    }
+
+    if (action === "submit") {
+      await this.complianceDAO.update(documentId, {
+        renewal_submitted_date: now.split("T")[0],
+      });
+      return await this.renewalDAO.update(renewal.id, {
+        stage: "submitted",
+        submitted_at: now,
+        ...noteUpdate,
+      });
+    }
+
+    return await this.renewalDAO.update(renewal.id, {
+      stage: "in_review",
+      reviewed_at: now,
+      ...noteUpdate,
+    });
+  }
+
+  async updateTask(
+    documentId: string,
+    taskId: string,
+    input: UpdateRenewalTaskInput,
+    userId: string,
+  ): Promise<ComplianceRenewalTaskRow> {
+    const renewal = await this.getOpenRenewal(documentId);
+
+    const task = await this.taskDAO.findById(taskId);
+    if (!task || task.renewal_id !== renewal.id) {
+      throw new Error("Renewal task not found");
+    }
+
+    const updateData: Record<string, unknown> = {};
+    if (input.completed !== undefined) {
+      updateData.completed_at = input.completed
+        ? new Date().toISOString()
+        : null;
+      updateData.completed_by = input.completed ? userId : null;
+    }
+    if (input.assigned_to !== undefined)
+      updateData.assigned_to = input.assigned_to;
+    if (input.due_date !== undefined) updateData.due_date = input.due_date;
+
+    return await this.taskDAO.update(taskId, updateData);
+  }
+
+  /**
+   * Approve a renewal under review: store the renewed document, record it
+   * as a new version and bring the document's dates and status up to date.
+   * The renewal's cost then counts toward the location's budget.
+   */
+  async approveRenewal(
+    documentId: string,
+    input: ApproveRenewalInput,
+    userId: string,
+  ): Promise<ComplianceRenewalRow> {
+    const doc = await this.getDocument(documentId);
+    const renewal = await this.getOpenRenewal(documentId);
+
+    if (renewal.stage !== "in_review") {
+      throw new Error(`Cannot approve a renewal in the ${renewal.stage} stage`);
+    }
+
+    const tasks = await this.taskDAO.findByRenewal(renewal.id);
+    const remaining = tasks.filter((task) => !task.completed_at).length;
+    if (remaining > 0) {
+      throw new Error(
+        `Cannot approve a renewal with ${remaining} incomplete task(s)`,
+      );
+    }
+
+    const validation = validateFileUpload(input.file, "document");
+    if (!validation.valid) {
+      throw new Error(validation.error);
+    }
+
+    const filePath = getStoragePath(
+      doc.tenant_id,
+      STORAGE_BUCKETS.complianceDocs,
+      doc.id,
+      `${Date.now()}-${input.file.name}`,
+    );
+    await this.storageIAO.upload(
+      STORAGE_BUCKETS.complianceDocs,
+      filePath,
+      input.file,
+    );
+
+    try {
+      await this.versionDAO.createVersion({
+        document_id: doc.id,
+        file_path: filePath,
+        uploaded_by: userId,
+        issue_date: input.new_issue_date || null,
+        expiration_date: input.new_expiration_date,
+        renewal_id: renewal.id,
+        notes: "Renewal approved",
+      });
+    } catch (error) {
+      // Don't leave an orphaned file behind
+      await this.storageIAO.remove(STORAGE_BUCKETS.complianceDocs, [filePath]);
+      throw error;
+    }
+
+    const cost = input.cost ?? renewal.cost;
+    const approved = await this.renewalDAO.update(renewal.id, {
+      stage: "approved",
+      approved_at: new Date().toISOString(),
+      approved_by: userId,
+      new_issue_date: input.new_issue_date || null,
+      new_expiration_date: input.new_expiration_date,
+      cost,
+    });
+
+    const status = await this.getDateStatus(doc, input.new_expiration_date);
+    await this.complianceDAO.update(documentId, {
+      file_path: filePath,
+      issue_date: input.new_issue_date || doc.issue_date,
+      expiration_date: input.new_expiration_date,
+      status,
+      renewal_cost: cost,
+      is_conditional: false,
+      conditional_requirements: null,
+      conditional_deadline: null,
+      failed_inspection_date: null,
+      corrective_action_required: null,
+      reinspection_date: null,
+      conditional_deadline_missed_at: null,
+      reinspection_missed_at: null,
+    });
+    await this.recordStatusChange(doc, status, "renewal_approved", userId);
+
+    return approved;
+  }
+
+  /**
+   * Checklist items from a document type's renewal_checklist, skipping
+   * anything malformed
+   */
+  getChecklistItems(
+    checklist: Record<string, unknown> | null | undefined,
+  ): ComplianceRenewalChecklist["items"] {
+    const items = (checklist as Partial<ComplianceRenewalChecklist> | null)
+      ?.items;
+    if (!Array.isArray(items)) return [];
+
+    return items.filter(
+      (item) => typeof item?.id === "string" && typeof item?.label === "string",
+    );
+  }
+
+  private async getDocument(documentId: string): Promise<ComplianceDocument> {
+    const doc = await this.complianceDAO.findById(documentId);
+    if (!doc) {
+      throw new Error("Compliance document not found");
+    }
+    return doc;
+  }
+
+  private async getOpenRenewal(
+    documentId: string,
+  ): Promise<ComplianceRenewalRow> {
+    const renewal = await this.renewalDAO.findOpenByDocument(documentId);
+    if (!renewal || CLOSED_STAGES.includes(renewal.stage)) {
+      throw new Error("Renewal not found");
+    }
+    return renewal;
+  }
+
+  private async getDateStatus(doc: ComplianceDocument, expirationDate: string) {
+    const type = doc.document_type_id
+      ? await this.documentTypeDAO.findById(doc.document_type_id)
+      : null;
+
+    return this.documentService.getDateStatus(
+      expirationDate,
+      type?.expiring_soon_days || DEFAULT_EXPIRING_SOON_DAYS,
+      new Date().toISOString().split("T")[0],
+    );
+  }
+
+  private async recordStatusChange(
+    doc: ComplianceDocument,
+    toStatus: ComplianceDocument["status"],
+    reason: string,
+    userId: string,
+  ): Promise<void> {
+    await this.statusHistoryDAO.create({
+      document_id: doc.id,
+      from_status: doc.status,
+      to_status: toStatus,
+      reason,
+      is_automatic: false,
+      changed_by: userId,
+    });
+  }
+}
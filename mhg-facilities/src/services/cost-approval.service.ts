@@ -0,0 +1,534 @@
+import {
+  CostApprovalDAO,
+  type CostApprovalFilters,
+  type CostApprovalWithRelations,
+} from "@/dao/cost-approval.dao";
+import { CostApprovalPolicyDAO } from "@/dao/cost-approval-policy.dao";
+import { TicketDAO } from "@/dao/ticket.dao";
+import { UserDAO } from "@/dao/user.dao";
+import { LocationDAO } from "@/dao/location.dao";
+import { TicketStatusHistoryDAO } from "@/dao/ticket-status-history.dao";
+import { NotificationOutboxService } from "./notification-outbox.service";
+import type { Database, TicketStatus } from "@/types/database";
+import type {
+  CostApprovalPolicyRow,
+  CostApprovalRow as CostApproval,
+  CostApprovalSource,
+  CostApproverRole,
+} from "@/types/database-extensions";
+
+type Ticket = Database["public"]["Tables"]["tickets"]["Row"];
+type User = Database["public"]["Tables"]["users"]["Row"];
+
+export type CostApprovalPolicy = Pick<
+  CostApprovalPolicyRow,
+  "is_enabled" | "auto_approve_limit" | "manager_limit" | "admin_limit"
+>;
+
+/** Used until a tenant saves its own policy */
+export const DEFAULT_COST_APPROVAL_POLICY: CostApprovalPolicy = {
+  is_enabled: true,
+  auto_approve_limit: 0,
+  manager_limit: 1000,
+  admin_limit: 5000,
+};
+
+export interface RequestCostApprovalDTO {
+  amount: number;
+  source?: CostApprovalSource;
+  vendor_id?: string | null;
+  notes?: string | null;
+  requested_by: string;
+}
+
+export interface CostApprovalResult {
+  approval: CostApproval;
+  ticket: Ticket;
+}
+
+export interface CostApprovalReportRow extends Record<string, unknown> {
+  ticket_number: number | null;
+  ticket_title: string;
+  source: CostApprovalSource;
+  amount: number;
+  vendor_name: string;
+  status: CostApproval["status"];
+  required_role: string;
+  requested_by: string;
+  requested_at: string;
+  decided_by: string;
+  decided_at: string;
+  decision_notes: string;
+}
+
+// Approver roles, lowest first
+const APPROVER_ROLES: CostApproverRole[] = ["manager", "admin", "super_admin"];
+
+const ROLE_LABELS: Record<CostApproverRole, string> = {
+  manager: "manager",
+  admin: "admin",
+  super_admin: "owner",
+};
+
+const SOURCE_LABELS: Record<CostApprovalSource, string> = {
+  estimate: "Estimate",
+  quote: "Vendor quote",
+};
+
+// Ticket states a cost can be submitted from
+const REQUESTABLE_STATES: TicketStatus[] = [
+  "submitted",
+  "in_progress",
+  "needs_approval",
+];
+
+/**
+ * Cost Approval Service
+ * Gates ticket spending behind a per-tenant approval policy. Submitting an
+ * estimate or vendor quote above the auto-approve limit moves the ticket to
+ * needs_approval; an approver whose role covers the amount approves (the
+ * ticket returns to where it was) or denies it (a revised cost is needed).
+ * Every request and decision is written to the ticket's status history.
+ */
+export class CostApprovalService {
+  constructor(
+    private approvalDAO = new CostApprovalDAO(),
+    private policyDAO = new CostApprovalPolicyDAO(),
+    private ticketDAO = new TicketDAO(),
+    private userDAO = new UserDAO(),
+    private locationDAO = new LocationDAO(),
+    private statusHistoryDAO = new TicketStatusHistoryDAO(),
+    private outboxService = new NotificationOutboxService(),
+  ) {}
+
+  // ============================================================
+  // POLICY
+  // ============================================================
+
+  async getPolicy(): Promise<CostApprovalPolicy> {
+    const policy = await this.policyDAO.findCurrent();
+    if (!policy) return DEFAULT_COST_APPROVAL_POLICY;
+
+    return {
+      is_enabled: policy.is_enabled,
+      auto_approve_limit: Number(policy.auto_approve_limit),
+      manager_limit: Number(policy.manager_limit),
+      admin_limit: Number(policy.admin_limit),
+    };
+  }
+
+  async updatePolicy(data: CostApprovalPolicy): Promise<CostApprovalPolicy> {
+    if (
+      data.auto_approve_limit < 0 ||
+      data.auto_approve_limit > data.manager_limit ||
+      data.manager_limit > data.admin_limit
+    ) {
+      throw new Error(
+        "Limits must increase from auto-approve to manager to admin",
+      );
+    }
+
+    const existing = await this.policyDAO.findCurrent();
+    if (existing) {
+      await this.policyDAO.update(existing.id, data);
+    } else {
+      await this.policyDAO.create(data);
+    }
+
+    return data;
+  }
+
+  /**
+   * Lowest role allowed to approve an amount, or null when the policy
+   * approves it automatically
+   */
+  getRequiredRole(
+    amount: number,
+    policy: CostApprovalPolicy,
+  ): CostApproverRole | null {
+    if (!policy.is_enabled || amount <= policy.auto_approve_limit) return null;
+    if (amount <= policy.manager_limit) return "manager";
+    if (amount <= policy.admin_limit) return "admin";
+    return "super_admin";
+  }
+
+  // ============================================================
+  // QUERIES
+  // ============================================================
+
+  async getTicketApprovals(
+    ticketId: string,
+  ): Promise<CostApprovalWithRelations[]> {
+    return this.approvalDAO.findByTicket(ticketId);
+  }
+
+  /**
+   * Flattened approval rows for reports and export
+   */
+  async getApprovalReport(
+    filters: CostApprovalFilters,
+  ): Promise<{ approvals: CostApprovalReportRow[] }> {
+    const approvals = await this.approvalDAO.findAllWithFilters(filters);
+
+    return {
+      approvals: approvals.map((a) => ({
+        ticket_number: a.ticket?.ticket_number ?? null,
+        ticket_title: a.ticket?.title ?? "",
+        source: a.source,
+        amount: Number(a.amount),
+        vendor_name: a.vendor?.name ?? "",
+        status: a.status,
+        required_role: a.required_role ? ROLE_LABELS[a.required_role] : "auto",
+        requested_by: a.requested_by_user?.full_name ?? "",
+        requested_at: a.requested_at,
+        decided_by: a.decided_by_user?.full_name ?? "",
+        decided_at: a.decided_at ?? "",
+        decision_notes: a.decision_notes ?? "",
+      })),
+    };
+  }
+
+  // ============================================================
+  // COMMANDS
+  // ============================================================
+
+  /**
+   * Submit an estimate or vendor quote for approval.
+   * Amounts within the auto-approve limit (or with approvals disabled) are
+   * recorded as approved straight away; anything else puts the ticket into
+   * needs_approval and notifies the approvers for its tier.
+   */
+  async requestApproval(
+    ticketId: string,
+    data: RequestCostApprovalDTO,
+  ): Promise<CostApprovalResult> {
+    const ticket = await this.ticketDAO.findById(ticketId);
+    if (!ticket) {
+      throw new Error("Ticket not found");
+    }
+
+    if (!REQUESTABLE_STATES.includes(ticket.status)) {
+      throw new Error(
+        `Cannot request cost approval for ticket in ${ticket.status} status`,
+      );
+    }
+
+    if (!isFinite(data.amount) || data.amount < 0) {
+      throw new Error("Amount must be a non-negative number");
+    }
+
+    const requester = await this.userDAO.findById(data.requested_by);
+    if (!requester) {
+      throw new Error("User not found");
+    }
+
+    const pending = await this.approvalDAO.findPendingByTicket(ticketId);
+    if (pending) {
+      throw new Error(
+        "Cannot submit a new cost while another is awaiting approval",
+      );
+    }
+
+    const source = data.source ?? "estimate";
+    const requestNotes = data.notes?.trim() || null;
+    const policy = await this.getPolicy();
+    const requiredRole = this.getRequiredRole(data.amount, policy);
+    const returnStatus = this.getReturnStatus(ticket);
+    const label = `${SOURCE_LABELS[source]} of ${formatCurrency(data.amount)}`;
+    const now = new Date().toISOString();
+
+    if (!requiredRole) {
+      const decisionNotes = policy.is_enabled
+        ? `Within the ${formatCurrency(policy.auto_approve_limit)} auto-approve limit`
+        : "Cost approvals are disabled";
+
+      const approval = await this.approvalDAO.create({
+        ticket_id: ticketId,
+        amount: data.amount,
+        source,
+        vendor_id: data.vendor_id ?? null,
+        status: "approved",
+        required_role: null,
+        previous_status: ticket.status,
+        request_notes: requestNotes,
+        requested_by: requester.id,
+        requested_at: now,
+        decided_at: now,
+        decision_notes: decisionNotes,
+      });
+
+      const updated = await this.ticketDAO.updateTicket(ticketId, {
+        status: returnStatus,
+        status_changed_by: requester.id,
+        estimated_cost: data.amount,
+        ...(data.vendor_id && { vendor_id: data.vendor_id }),
+      });
+
+      await this.recordHistory(
+        updated,
+        requester.id,
+        `${label} auto-approved (${decisionNotes.toLowerCase()})`,
+      );
+
+      return { approval, ticket: updated };
+    }
+
+    const approval = await this.approvalDAO.create({
+      ticket_id: ticketId,
+      amount: data.amount,
+      source,
+      vendor_id: data.vendor_id ?? null,
+      status: "pending",
+      required_role: requiredRole,
+      previous_status: returnStatus,
+      request_notes: requestNotes,
+      requested_by: requester.id,
+      requested_at: now,
+    });
+
+    const updated = await this.ticketDAO.updateTicket(ticketId, {
+      status: "needs_approval",
+      status_changed_by: requester.id,
+      estimated_cost: data.amount,
+    });
+
+    await this.recordHistory(
+      updated,
+      requester.id,
+      `${label} submitted; awaiting ${ROLE_LABELS[requiredRole]} approval` +
+        (requestNotes ? `. ${requestNotes}` : ""),
+    );
+
+    // Notify approvers (async, don't await)
+    this.findApprovers(requiredRole, updated)
+      .then((approvers) =>
+        this.outboxService.enqueue("cost_approval_requested", {
+          ticket_id: updated.id,
+          amount: data.amount,
+          source: SOURCE_LABELS[source].toLowerCase(),
+          notes: requestNotes,
+          requested_by: requester.id,
+          approver_ids: approvers.map((approver) => approver.id),
+        }),
+      )
+      .catch((err) =>
+        console.error("Failed to queue cost approval request:", err),
+      );
+
+    return { approval, ticket: updated };
+  }
+
+  /**
+   * Approve a pending cost. The ticket returns to the status it had when
+   * the cost was submitted, and an approved vendor quote assigns the vendor.
+   */
+  async approve(
+    approvalId: string,
+    userId: string,
+    notes: string,
+  ): Promise<CostApprovalResult> {
+    const { approval, ticket, user, decisionNotes } =
+      await this.prepareDecision(approvalId, userId, notes);
+
+    const now = new Date().toISOString();
+    const decided = await this.approvalDAO.update(approval.id, {
+      status: "approved",
+      decided_by: user.id,
+      decided_at: now,
+      decision_notes: decisionNotes,
+    });
+
+    const updated = await this.ticketDAO.updateTicket(ticket.id, {
+      status: approval.previous_status ?? this.getReturnStatus(ticket),
+      status_changed_by: user.id,
+      ...(approval.vendor_id && { vendor_id: approval.vendor_id }),
+    });
+
+    await this.recordHistory(
+      updated,
+      user.id,
+      `${SOURCE_LABELS[approval.source]} of ${formatCurrency(Number(approval.amount))} approved: ${decisionNotes}`,
+    );
+
+    this.notifyRequester(decided, updated, user, true);
+
+    return { approval: decided, ticket: updated };
+  }
+
+  /**
+   * Deny a pending cost. The ticket stays in needs_approval until a revised
+   * cost is submitted and approved, or the ticket is rejected.
+   */
+  async deny(
+    approvalId: string,
+    userId: string,
+    notes: string,
+  ): Promise<CostApprovalResult> {
+    const { approval, ticket, user, decisionNotes } =
+      await this.prepareDecision(approvalId, userId, notes);
+
+    const decided = await this.approvalDAO.update(approval.id, {
+      status: "denied",
+      decided_by: user.id,
+      decided_at: new Date().toISOString(),
+      decision_notes: decisionNotes,
+    });
+
+    await this.recordHistory(
+      ticket,
+      user.id,
+      `${SOURCE_LABELS[approval.source]} of ${formatCurrency(Number(approval.amount))} denied: ${decisionNotes}`,
+    );
+
+    this.notifyRequester(decided, ticket, user, false);
+
+    return { approval: decided, ticket };
+  }
+
+  // ============================================================
+  // HELPERS
+  // ============================================================
+
+  private async prepareDecision(
+    approvalId: string,
+    userId: string,
+    notes: string,
+  ) {
+    const decisionNotes = notes?.trim();
+    if (!decisionNotes) {
+      throw new Error("Decision notes are required");
+    }
+
+    const approval = await this.approvalDAO.findById(approvalId);
+    if (!approval) {
+      throw new Error("Cost approval not found");
+    }
+
+    if (approval.status !== "pending") {
+      throw new Error(
+        `Cannot decide a cost that was already ${approval.status}`,
+      );
+    }
+
+    // Someone else has to sign off, whatever the requester's role
+    if (approval.requested_by === userId) {
+      throw new Error("You cannot decide a cost you submitted yourself");
+    }
+
+    const user = await this.userDAO.findById(userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const requiredRole = approval.required_role ?? "manager";
+    if (!this.canApprove(user.role, requiredRole)) {
+      throw new Error(
+        `You do not have permission to decide this cost; ${ROLE_LABELS[requiredRole]} approval is required`,
+      );
+    }
+
+    const ticket = await this.ticketDAO.findById(approval.ticket_id);
+    if (!ticket) {
+      throw new Error("Ticket not found");
+    }
+
+    if (ticket.status !== "needs_approval") {
+      throw new Error(
+        `Cannot decide a cost for ticket in ${ticket.status} status`,
+      );
+    }
+
+    return { approval, ticket, user, decisionNotes };
+  }
+
+  private canApprove(role: string, requiredRole: CostApproverRole): boolean {
+    const rank = APPROVER_ROLES.indexOf(role as CostApproverRole);
+    return rank >= 0 && rank >= APPROVER_ROLES.indexOf(requiredRole);
+  }
+
+  /**
+   * Status a ticket goes back to once its cost is approved
+   */
+  private getReturnStatus(ticket: Ticket): TicketStatus {
+    if (ticket.status !== "needs_approval") return ticket.status;
+    return ticket.started_at ? "in_progress" : "submitted";
+  }
+
+  /**
+   * Who to ask for an approval: the location's manager for manager-tier
+   * amounts, otherwise everyone holding the required role. Falls through to
+   * the next role up when nobody holds it.
+   */
+  private async findApprovers(
+    requiredRole: CostApproverRole,
+    ticket: Ticket,
+  ): Promise<User[]> {
+    if (requiredRole === "manager" && ticket.location_id) {
+      const location = await this.locationDAO.findById(ticket.location_id);
+      if (location?.manager_id) {
+        const manager = await this.userDAO.findById(location.manager_id);
+        if (manager?.is_active && this.canApprove(manager.role, "manager")) {
+          return [manager];
+        }
+      }
+    }
+
+    for (const role of APPROVER_ROLES.slice(
+      APPROVER_ROLES.indexOf(requiredRole),
+    )) {
+      const users = (await this.userDAO.findByRole(role)).filter(
+        (u) => u.is_active,
+      );
+      if (users.length > 0) return users;
+    }
+
+    return [];
+  }
+
+  private async recordHistory(
+    ticket: Ticket,
+    userId: string,
+    notes: string,
+  ): Promise<void> {
+    await this.statusHistoryDAO
+      .create({
+        ticket_id: ticket.id,
+        from_status: null,
+        to_status: ticket.status,
+        changed_by: userId,
+        notes,
+      })
+      .catch((err) =>
+        console.error("Failed to record cost approval history:", err),
+      );
+  }
+
+  private notifyRequester(
+    approval: CostApproval,
+    ticket: Ticket,
+    decidedBy: User,
+    approved: boolean,
+  ): void {
+    if (!approval.requested_by) return;
+
+    this.outboxService
+      .enqueue("cost_approval_decided", {
+        ticket_id: ticket.id,
+        amount: Number(approval.amount),
+        approved,
+        notes: approval.decision_notes ?? "",
+        decided_by: decidedBy.id,
+        recipient_id: approval.requested_by,
+      })
+      .catch((err) =>
+        console.error("Failed to queue cost approval decision:", err),
+      );
+  }
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount);
+}
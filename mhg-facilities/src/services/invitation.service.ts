@@ -15,6 +15,7 @@ interface InviteUserInput {
   email: string;
   role: UserRole;
   location_id?: string;
+  vendor_id?: string;
   invited_by: string;
 }
 
@@ -55,7 +56,7 @@ export class InvitationService {
    * Creates invitation record and sends email
    */
   async inviteUser(input: InviteUserInput): Promise<TenantInvitation> {
-    const { email, role, location_id, invited_by } = input;
+    const { email, role, location_id, vendor_id, invited_by } = input;
     const tenant = await getTenantContext();
 
     if (!tenant) {
@@ -109,6 +110,9 @@ export class InvitationService {
     if (location_id) {
       insertData.location_id = location_id;
     }
+    if (vendor_id) {
+      insertData.vendor_id = vendor_id;
+    }
 
     const invitation = await this.invitationDAO.create(
       insertData as Partial<
@@ -238,6 +242,9 @@ export class InvitationService {
     if (invitation.location_id) {
       userInsert.location_id = invitation.location_id;
     }
+    if (invitation.vendor_id) {
+      userInsert.vendor_id = invitation.vendor_id;
+    }
 
     const { data: user, error: userError } = await supabase
       .from("users")
@@ -0,0 +1,555 @@
+import {
+  InvoiceDAO,
+  type InvoiceFilters,
+  type InvoiceWithRelations,
+} from "@/dao/invoice.dao";
+import { InvoiceLineItemDAO } from "@/dao/invoice-line-item.dao";
+import { InvoicePaymentDAO } from "@/dao/invoice-payment.dao";
+import { TicketDAO } from "@/dao/ticket.dao";
+import { VendorDAO } from "@/dao/vendor.dao";
+import { TicketAttachmentDAO } from "@/dao/ticket-attachment.dao";
+import type { InvoiceStatus } from "@/types/database";
+import type {
+  InvoiceRow as Invoice,
+  InvoicePaymentMethod,
+  InvoiceUpdate,
+} from "@/types/database-extensions";
+
+export interface InvoiceLineItemDTO {
+  description: string;
+  quantity?: number;
+  unit_price: number;
+}
+
+export interface CreateInvoiceDTO {
+  ticket_id: string;
+  vendor_id: string;
+  invoice_number: string;
+  invoice_date: string;
+  due_date?: string | null;
+  tax_amount?: number;
+  attachment_id?: string | null;
+  notes?: string | null;
+  line_items: InvoiceLineItemDTO[];
+  created_by: string;
+}
+
+export interface UpdateInvoiceDTO {
+  invoice_number?: string;
+  invoice_date?: string;
+  due_date?: string | null;
+  tax_amount?: number;
+  attachment_id?: string | null;
+  notes?: string | null;
+  line_items?: InvoiceLineItemDTO[];
+}
+
+export interface RecordInvoicePaymentDTO {
+  amount: number;
+  paid_on: string;
+  method?: InvoicePaymentMethod;
+  reference?: string | null;
+  notes?: string | null;
+  recorded_by: string;
+}
+
+export type InvoiceAgingBucket =
+  | "current"
+  | "days_1_30"
+  | "days_31_60"
+  | "days_61_90"
+  | "days_over_90";
+
+export interface InvoiceAgingRow extends Record<string, unknown> {
+  invoice_id: string;
+  invoice_number: string;
+  vendor_id: string;
+  vendor_name: string;
+  ticket_number: number | null;
+  invoice_date: string;
+  due_date: string;
+  status: InvoiceStatus;
+  total_amount: number;
+  amount_paid: number;
+  balance: number;
+  days_overdue: number;
+  bucket: InvoiceAgingBucket;
+}
+
+export type InvoiceAgingTotals = Record<InvoiceAgingBucket, number> & {
+  total: number;
+};
+
+export interface InvoiceAgingReport {
+  as_of: string;
+  invoices: InvoiceAgingRow[];
+  totals: InvoiceAgingTotals;
+  vendors: (InvoiceAgingTotals & { vendor_id: string; vendor_name: string })[];
+}
+
+// Statuses that still owe the vendor money
+const OUTSTANDING_STATUSES: InvoiceStatus[] = [
+  "pending",
+  "approved",
+  "disputed",
+];
+
+// Statuses whose details can still be corrected
+const EDITABLE_STATUSES: InvoiceStatus[] = ["pending", "disputed"];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Invoice Service
+ * Vendor invoices against tickets. An invoice is entered as pending, a
+ * manager approves or disputes it, and payments (partial or full) are
+ * recorded against approved invoices until the balance reaches zero and it
+ * becomes paid. Editing a disputed invoice sends it back to pending.
+ * Budget spend counts approved and paid invoices (see BudgetDAO).
+ */
+export class InvoiceService {
+  constructor(
+    private invoiceDAO = new InvoiceDAO(),
+    private lineItemDAO = new InvoiceLineItemDAO(),
+    private paymentDAO = new InvoicePaymentDAO(),
+    private ticketDAO = new TicketDAO(),
+    private vendorDAO = new VendorDAO(),
+    private attachmentDAO = new TicketAttachmentDAO(),
+  ) {}
+
+  // ============================================================
+  // QUERIES
+  // ============================================================
+
+  async getInvoices(filters?: InvoiceFilters): Promise<InvoiceWithRelations[]> {
+    return this.invoiceDAO.findAllWithFilters(filters);
+  }
+
+  async getInvoice(id: string): Promise<InvoiceWithRelations> {
+    const invoice = await this.invoiceDAO.findWithRelations(id);
+    if (!invoice) {
+      throw new Error("Invoice not found");
+    }
+    return invoice;
+  }
+
+  async getVendorInvoices(vendorId: string): Promise<InvoiceWithRelations[]> {
+    return this.invoiceDAO.findAllWithFilters({ vendor_id: vendorId });
+  }
+
+  async getTicketInvoices(ticketId: string): Promise<InvoiceWithRelations[]> {
+    return this.invoiceDAO.findAllWithFilters({ ticket_id: ticketId });
+  }
+
+  // ============================================================
+  // ENTRY
+  // ============================================================
+
+  async createInvoice(data: CreateInvoiceDTO): Promise<InvoiceWithRelations> {
+    const ticket = await this.ticketDAO.findById(data.ticket_id);
+    if (!ticket) {
+      throw new Error("Ticket not found");
+    }
+
+    const vendorExists = await this.vendorDAO.exists(data.vendor_id);
+    if (!vendorExists) {
+      throw new Error("Vendor not found");
+    }
+
+    await this.checkInvoiceNumber(data.vendor_id, data.invoice_number);
+    if (data.attachment_id) {
+      await this.checkAttachment(data.attachment_id, data.ticket_id);
+    }
+
+    const lineItems = this.buildLineItems(data.line_items);
+    const totals = this.calculateTotals(lineItems, data.tax_amount ?? 0);
+
+    const invoice = await this.invoiceDAO.create({
+      ticket_id: data.ticket_id,
+      vendor_id: data.vendor_id,
+      invoice_number: data.invoice_number,
+      invoice_date: data.invoice_date,
+      due_date: data.due_date ?? null,
+      status: "pending",
+      ...totals,
+      amount_paid: 0,
+      attachment_id: data.attachment_id ?? null,
+      notes: data.notes ?? null,
+      created_by: data.created_by,
+    });
+
+    await this.lineItemDAO.replaceForInvoice(invoice.id, lineItems);
+
+    return this.getInvoice(invoice.id);
+  }
+
+  /**
+   * Correct an invoice's details
+   * Only pending or disputed invoices can be edited; editing a disputed
+   * invoice returns it to pending for another review.
+   */
+  async updateInvoice(
+    id: string,
+    data: UpdateInvoiceDTO,
+  ): Promise<InvoiceWithRelations> {
+    const invoice = await this.findInvoice(id);
+
+    if (!EDITABLE_STATUSES.includes(invoice.status)) {
+      throw new Error(`Cannot edit an invoice that is ${invoice.status}`);
+    }
+
+    if (data.invoice_number && data.invoice_number !== invoice.invoice_number) {
+      await this.checkInvoiceNumber(invoice.vendor_id, data.invoice_number);
+    }
+    if (data.attachment_id) {
+      await this.checkAttachment(data.attachment_id, invoice.ticket_id);
+    }
+
+    const dueDate =
+      data.due_date !== undefined ? data.due_date : invoice.due_date;
+    const invoiceDate = data.invoice_date ?? invoice.invoice_date;
+    if (dueDate && dueDate < invoiceDate) {
+      throw new Error("Due date cannot be before the invoice date");
+    }
+
+    const update: InvoiceUpdate = {
+      invoice_number: data.invoice_number,
+      invoice_date: data.invoice_date,
+      due_date: data.due_date,
+      attachment_id: data.attachment_id,
+      notes: data.notes,
+      status: "pending",
+    };
+
+    if (data.line_items) {
+      const lineItems = this.buildLineItems(data.line_items);
+      Object.assign(
+        update,
+        this.calculateTotals(
+          lineItems,
+          data.tax_amount ?? Number(invoice.tax_amount),
+        ),
+      );
+      await this.lineItemDAO.replaceForInvoice(id, lineItems);
+    } else if (data.tax_amount !== undefined) {
+      Object.assign(update, {
+        tax_amount: this.round(data.tax_amount),
+        total_amount: this.round(Number(invoice.subtotal) + data.tax_amount),
+      });
+    }
+
+    await this.invoiceDAO.update(id, update);
+
+    return this.getInvoice(id);
+  }
+
+  /**
+   * Delete an invoice entered in error
+   * Approved and paid invoices are part of the spend record and stay.
+   */
+  async deleteInvoice(id: string): Promise<void> {
+    const invoice = await this.findInvoice(id);
+
+    if (!EDITABLE_STATUSES.includes(invoice.status)) {
+      throw new Error(`Cannot delete an invoice that is ${invoice.status}`);
+    }
+
+    await this.invoiceDAO.softDelete(id);
+  }
+
+  // ============================================================
+  // STATUS TRANSITIONS
+  // ============================================================
+
+  /**
+   * Approve a pending invoice (pending → approved)
+   */
+  async approveInvoice(
+    id: string,
+    userId: string,
+  ): Promise<InvoiceWithRelations> {
+    const invoice = await this.findInvoice(id);
+
+    if (invoice.status !== "pending") {
+      throw new Error(`Cannot approve an invoice that is ${invoice.status}`);
+    }
+
+    await this.invoiceDAO.update(id, {
+      status: "approved",
+      approved_by: userId,
+      approved_at: new Date().toISOString(),
+    });
+
+    return this.getInvoice(id);
+  }
+
+  /**
+   * Dispute an invoice (pending or unpaid approved → disputed)
+   */
+  async disputeInvoice(
+    id: string,
+    userId: string,
+    reason: string,
+  ): Promise<InvoiceWithRelations> {
+    if (!reason || reason.trim().length === 0) {
+      throw new Error("Dispute reason is required");
+    }
+
+    const invoice = await this.findInvoice(id);
+
+    if (invoice.status !== "pending" && invoice.status !== "approved") {
+      throw new Error(`Cannot dispute an invoice that is ${invoice.status}`);
+    }
+    if (Number(invoice.amount_paid) > 0) {
+      throw new Error("Cannot dispute an invoice that has payments recorded");
+    }
+
+    await this.invoiceDAO.update(id, {
+      status: "disputed",
+      disputed_by: userId,
+      disputed_at: new Date().toISOString(),
+      dispute_reason: reason.trim(),
+      approved_by: null,
+      approved_at: null,
+    });
+
+    return this.getInvoice(id);
+  }
+
+  /**
+   * Record a payment against an approved invoice
+   * Partial payments keep the invoice approved; the payment that clears the
+   * balance marks it paid.
+   */
+  async recordPayment(
+    id: string,
+    data: RecordInvoicePaymentDTO,
+  ): Promise<InvoiceWithRelations> {
+    const invoice = await this.findInvoice(id);
+
+    if (invoice.status !== "approved") {
+      throw new Error(
+        `Cannot record a payment against an invoice that is ${invoice.status}`,
+      );
+    }
+
+    const amount = this.round(data.amount);
+    if (amount <= 0) {
+      throw new Error("Payment must be greater than zero");
+    }
+
+    const balance = this.round(
+      Number(invoice.total_amount) - Number(invoice.amount_paid),
+    );
+    if (amount > balance) {
+      throw new Error(
+        `Payment exceeds the outstanding balance of ${formatCurrency(balance)}`,
+      );
+    }
+
+    await this.paymentDAO.create({
+      invoice_id: id,
+      amount,
+      paid_on: data.paid_on,
+      method: data.method ?? "check",
+      reference: data.reference ?? null,
+      notes: data.notes ?? null,
+      recorded_by: data.recorded_by,
+    });
+
+    const amountPaid = this.round(Number(invoice.amount_paid) + amount);
+    const isPaidOff = amountPaid >= Number(invoice.total_amount);
+
+    await this.invoiceDAO.update(id, {
+      amount_paid: amountPaid,
+      ...(isPaidOff && {
+        status: "paid" as const,
+        paid_at: new Date().toISOString(),
+      }),
+    });
+
+    return this.getInvoice(id);
+  }
+
+  // ============================================================
+  // REPORTS
+  // ============================================================
+
+  /**
+   * Accounts payable aging
+   * Buckets every unpaid invoice by days past due (invoices without a due
+   * date are due on their invoice date), with totals per vendor.
+   */
+  async getAgingReport(asOf = new Date()): Promise<InvoiceAgingReport> {
+    const invoices = await this.invoiceDAO.findAllWithFilters(
+      { status: OUTSTANDING_STATUSES },
+      5000,
+    );
+
+    const asOfDate = asOf.toISOString().split("T")[0];
+    const asOfTime = Date.parse(`${asOfDate}T00:00:00Z`);
+
+    const rows: InvoiceAgingRow[] = invoices
+      .map((invoice) => {
+        const dueDate = invoice.due_date ?? invoice.invoice_date;
+        const daysOverdue = Math.max(
+          0,
+          Math.floor(
+            (asOfTime - Date.parse(`${dueDate}T00:00:00Z`)) / MS_PER_DAY,
+          ),
+        );
+
+        return {
+          invoice_id: invoice.id,
+          invoice_number: invoice.invoice_number,
+          vendor_id: invoice.vendor_id,
+          vendor_name: invoice.vendor?.name ?? "Unknown",
+          ticket_number: invoice.ticket?.ticket_number ?? null,
+          invoice_date: invoice.invoice_date,
+          due_date: dueDate,
+          status: invoice.status,
+          total_amount: Number(invoice.total_amount),
+          amount_paid: Number(invoice.amount_paid),
+          balance: this.round(
+            Number(invoice.total_amount) - Number(invoice.amount_paid),
+          ),
+          days_overdue: daysOverdue,
+          bucket: this.getAgingBucket(daysOverdue),
+        };
+      })
+      .filter((row) => row.balance > 0)
+      .sort((a, b) => b.days_overdue - a.days_overdue);
+
+    const vendorTotals = new Map<
+      string,
+      InvoiceAgingTotals & { vendor_id: string; vendor_name: string }
+    >();
+    const totals = this.emptyAgingTotals();
+
+    for (const row of rows) {
+      let vendor = vendorTotals.get(row.vendor_id);
+      if (!vendor) {
+        vendor = {
+          vendor_id: row.vendor_id,
+          vendor_name: row.vendor_name,
+          ...this.emptyAgingTotals(),
+        };
+        vendorTotals.set(row.vendor_id, vendor);
+      }
+
+      for (const target of [totals, vendor]) {
+        target[row.bucket] = this.round(target[row.bucket] + row.balance);
+        target.total = this.round(target.total + row.balance);
+      }
+    }
+
+    return {
+      as_of: asOfDate,
+      invoices: rows,
+      totals,
+      vendors: Array.from(vendorTotals.values()).sort(
+        (a, b) => b.total - a.total,
+      ),
+    };
+  }
+
+  // ============================================================
+  // HELPERS
+  // ============================================================
+
+  private async findInvoice(id: string): Promise<Invoice> {
+    const invoice = await this.invoiceDAO.findById(id);
+    if (!invoice) {
+      throw new Error("Invoice not found");
+    }
+    return invoice;
+  }
+
+  private async checkInvoiceNumber(
+    vendorId: string,
+    invoiceNumber: string,
+  ): Promise<void> {
+    const existing = await this.invoiceDAO.findByVendorAndNumber(
+      vendorId,
+      invoiceNumber,
+    );
+    if (existing) {
+      throw new Error(
+        `Invoice ${invoiceNumber} already exists for this vendor`,
+      );
+    }
+  }
+
+  /**
+   * The PDF must already be stored as an attachment on the same ticket
+   */
+  private async checkAttachment(
+    attachmentId: string,
+    ticketId: string,
+  ): Promise<void> {
+    const attachment = await this.attachmentDAO.findById(attachmentId);
+    if (!attachment || attachment.ticket_id !== ticketId) {
+      throw new Error("Attachment not found on this ticket");
+    }
+  }
+
+  private buildLineItems(items: InvoiceLineItemDTO[]) {
+    if (items.length === 0) {
+      throw new Error("At least one line item is required");
+    }
+
+    return items.map((item, index) => {
+      const quantity = item.quantity ?? 1;
+      return {
+        description: item.description.trim(),
+        quantity,
+        unit_price: this.round(item.unit_price),
+        amount: this.round(quantity * item.unit_price),
+        sort_order: index,
+      };
+    });
+  }
+
+  private calculateTotals(items: { amount: number }[], taxAmount: number) {
+    const subtotal = this.round(
+      items.reduce((sum, item) => sum + item.amount, 0),
+    );
+    const tax_amount = this.round(taxAmount);
+
+    return {
+      subtotal,
+      tax_amount,
+      total_amount: this.round(subtotal + tax_amount),
+    };
+  }
+
+  private getAgingBucket(daysOverdue: number): InvoiceAgingBucket {
+    if (daysOverdue <= 0) return "current";
+    if (daysOverdue <= 30) return "days_1_30";
+    if (daysOverdue <= 60) return "days_31_60";
+    if (daysOverdue <= 90) return "days_61_90";
+    return "days_over_90";
+  }
+
+  private emptyAgingTotals(): InvoiceAgingTotals {
+    return {
+      current: 0,
+      days_1_30: 0,
+      days_31_60: 0,
+      days_61_90: 0,
+      days_over_90: 0,
+      total: 0,
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount);
+}
@@ -1,7 +1,9 @@
+import { nanoid } from "nanoid";
 import { LocationDAO } from "@/dao/location.dao";
 import { UserDAO } from "@/dao/user.dao";
 import { TenantDAO } from "@/dao/tenant.dao";
 import type { Database } from "@/types/database";
+import type { BusinessHours } from "@/types";
 
 type Location = Database["public"]["Tables"]["locations"]["Row"];
 type LocationStatus = Database["public"]["Enums"]["location_status"];
@@ -18,6 +20,7 @@ interface CreateLocationInput {
   emergency_contact_phone?: string;
   status?: LocationStatus;
   opened_date?: string;
+  business_hours?: BusinessHours;
 }
 
 interface UpdateLocationInput {
@@ -33,6 +36,7 @@ interface UpdateLocationInput {
   status?: LocationStatus;
   opened_date?: string | null;
   closed_date?: string | null;
+  business_hours?: BusinessHours | null;
 }
 
 interface LocationStats {
@@ -137,6 +141,7 @@ export class LocationService {
       status: data.status ?? "active",
       opened_date: data.opened_date ?? null,
       closed_date: null,
+      business_hours: data.business_hours ?? null,
     });
   }
 
@@ -229,6 +234,42 @@ export class LocationService {
     return this.locationDAO.assignManager(locationId, managerId);
   }
 
+  /**
+   * Give locations without a QR code one, returning them all with codes.
+   * Codes are assigned when a location's label is first printed.
+   */
+  async ensureQRCodes(locations: Location[]): Promise<Location[]> {
+    const result: Location[] = [];
+
+    for (const location of locations) {
+      if (location.qr_code) {
+        result.push(location);
+        continue;
+      }
+
+      const qrCode = await this.generateUniqueQRCode();
+      result.push(
+        await this.locationDAO.updateLocation(location.id, { qr_code: qrCode }),
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Regenerate QR code for a location
+   */
+  async regenerateQRCode(id: string): Promise<Location> {
+    const location = await this.locationDAO.findById(id);
+    if (!location) {
+      throw new Error("Location not found");
+    }
+
+    const newQRCode = await this.generateUniqueQRCode();
+
+    return this.locationDAO.updateLocation(id, { qr_code: newQRCode });
+  }
+
   /**
    * Get location statistics
    */
@@ -275,4 +316,28 @@ export class LocationService {
     const currentCount = await this.locationDAO.count();
     return Math.max(0, tenant.max_locations - currentCount);
   }
+
+  /**
+   * Generate unique QR code
+   * Format: LOC-{8 character nanoid}
+   */
+  private async generateUniqueQRCode(): Promise<string> {
+    let attempts = 0;
+    const maxAttempts = 10;
+
+    while (attempts < maxAttempts) {
+      const qrCode = `LOC-${nanoid(8)}`;
+      const existing = await this.locationDAO.findByQRCode(qrCode);
+
+      if (!existing) {
+        return qrCode;
+      }
+
+      attempts++;
+    }
+
+    throw new Error(
+      "Failed to generate unique QR code after multiple attempts",
+    );
+  }
 }
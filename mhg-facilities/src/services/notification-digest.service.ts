@@ -0,0 +1,189 @@
+import { TicketDAO } from "@/dao/ticket.dao";
+import { PMScheduleDAO } from "@/dao/pm-schedule.dao";
+import { ComplianceDocumentDAO } from "@/dao/compliance-document.dao";
+import { LocationDAO } from "@/dao/location.dao";
+import { BudgetService, type BudgetWithSpend } from "./budget.service";
+import type { Database, TicketStatus, UserRole } from "@/types/database";
+import type { DigestFrequency } from "@/types";
+
+type Ticket = Database["public"]["Tables"]["tickets"]["Row"];
+type PMSchedule = Database["public"]["Tables"]["pm_schedules"]["Row"];
+type ComplianceDocument =
+  Database["public"]["Tables"]["compliance_documents"]["Row"];
+type Location = Database["public"]["Tables"]["locations"]["Row"];
+type User = Database["public"]["Tables"]["users"]["Row"];
+
+const OPEN_TICKET_STATUSES: TicketStatus[] = [
+  "submitted",
+  "needs_approval",
+  "in_progress",
+  "on_hold",
+];
+
+const PM_LOOKAHEAD_DAYS = 7;
+const DOCUMENT_LOOKAHEAD_DAYS = 30;
+const PERIOD_DAYS: Record<DigestFrequency, number> = { daily: 1, weekly: 7 };
+
+/**
+ * What a digest covers beyond the recipient's own assignments:
+ * - own: only their own work (and documents for their home location)
+ * - locations: the locations they manage
+ * - tenant: everything
+ */
+export type DigestScope = "own" | "locations" | "tenant";
+
+const ROLE_SCOPES: Record<UserRole, DigestScope> = {
+  super_admin: "tenant",
+  admin: "tenant",
+  manager: "locations",
+  staff: "own",
+  readonly: "own",
+  vendor: "own",
+};
+
+export interface NotificationDigest {
+  frequency: DigestFrequency;
+  scope: DigestScope;
+  // Locations in scope; empty for tenant-wide digests
+  locations: Pick<Location, "id" | "name">[];
+  since: string;
+  // Open tickets assigned to the recipient
+  assigned_tickets: Ticket[];
+  // Open tickets past their due date, within scope
+  overdue_tickets: Ticket[];
+  // Active PM schedules due within a week (or overdue), within scope
+  pm_due: PMSchedule[];
+  // Compliance documents expiring within 30 days, within scope
+  expiring_documents: ComplianceDocument[];
+  // Current fiscal year budgets at 80% or more, within scope
+  budget_alerts: BudgetWithSpend[];
+  // Tickets completed since the last digest, within scope
+  completed_tickets: Ticket[];
+}
+
+/**
+ * Notification Digest Service
+ * Compiles the daily/weekly summary emails. Staff get their own work,
+ * managers the locations they manage and admins the whole tenant.
+ */
+export class NotificationDigestService {
+  constructor(
+    private ticketDAO = new TicketDAO(),
+    private scheduleDAO = new PMScheduleDAO(),
+    private documentDAO = new ComplianceDocumentDAO(),
+    private locationDAO = new LocationDAO(),
+    private budgetService = new BudgetService(),
+  ) {}
+
+  /**
+   * Start of the period a digest sent at `now` covers
+   */
+  getPeriodStart(frequency: DigestFrequency, now: Date = new Date()): Date {
+    return new Date(now.getTime() - PERIOD_DAYS[frequency] * 86400000);
+  }
+
+  async compileDigest(
+    user: User,
+    frequency: DigestFrequency,
+    since: Date,
+    now: Date = new Date(),
+  ): Promise<NotificationDigest> {
+    const scope = ROLE_SCOPES[user.role];
+    const locations = await this.getScopeLocations(user, scope);
+    const locationIds = new Set(locations.map((location) => location.id));
+
+    // Tenant-wide rows are narrowed to the recipient's scope in memory
+    const inScope = (row: {
+      location_id: string | null;
+      assigned_to?: string | null;
+    }) => {
+      if (scope === "tenant") return true;
+      if (scope === "own" && "assigned_to" in row) {
+        return row.assigned_to === user.id;
+      }
+      return !!row.location_id && locationIds.has(row.location_id);
+    };
+
+    const pmDueBy = new Date(now.getTime() + PM_LOOKAHEAD_DAYS * 86400000)
+      .toISOString()
+      .split("T")[0];
+
+    const [openTickets, completedTickets, schedules, documents, budgets] =
+      await Promise.all([
+        this.ticketDAO.findByStatus(OPEN_TICKET_STATUSES),
+        this.ticketDAO.findCompletedSince(since.toISOString()),
+        this.scheduleDAO.findDueBy(pmDueBy),
+        scope === "tenant" || locationIds.size > 0
+          ? this.documentDAO.findExpiringSoon(DOCUMENT_LOOKAHEAD_DAYS)
+          : [],
+        scope === "own"
+          ? []
+          : this.budgetService.getCurrentFiscalYearBudgetsWithSpend(),
+      ]);
+
+    const isOverdue = (ticket: Ticket) =>
+      !!ticket.due_date && new Date(ticket.due_date) < now;
+
+    return {
+      frequency,
+      scope,
+      locations,
+      since: since.toISOString(),
+      assigned_tickets: openTickets.filter(
+        (ticket) => ticket.assigned_to === user.id,
+      ),
+      overdue_tickets: openTickets.filter(
+        (ticket) => isOverdue(ticket) && inScope(ticket),
+      ),
+      pm_due: schedules.filter(inScope),
+      expiring_documents: documents.filter(
+        (document) =>
+          scope === "tenant" ||
+          [document.location_id, ...(document.location_ids ?? [])].some(
+            (id) => !!id && locationIds.has(id),
+          ),
+      ),
+      budget_alerts: budgets.filter(
+        (budget) => budget.alert_level !== "none" && inScope(budget),
+      ),
+      completed_tickets: completedTickets.filter(inScope),
+    };
+  }
+
+  /**
+   * Whether there's nothing worth emailing
+   */
+  isEmpty(digest: NotificationDigest): boolean {
+    return (
+      digest.assigned_tickets.length === 0 &&
+      digest.overdue_tickets.length === 0 &&
+      digest.pm_due.length === 0 &&
+      digest.expiring_documents.length === 0 &&
+      digest.budget_alerts.length === 0 &&
+      digest.completed_tickets.length === 0
+    );
+  }
+
+  /**
+   * Managers cover the locations they manage plus their home location;
+   * everyone else below admin just their home location
+   */
+  private async getScopeLocations(
+    user: User,
+    scope: DigestScope,
+  ): Promise<Pick<Location, "id" | "name">[]> {
+    if (scope === "tenant") return [];
+
+    const [managed, home] = await Promise.all([
+      scope === "locations" ? this.locationDAO.findByManager(user.id) : [],
+      user.location_id ? this.locationDAO.findById(user.location_id) : null,
+    ]);
+
+    const locations = [...managed];
+    if (home && !locations.some((location) => location.id === home.id)) {
+      locations.push(home);
+    }
+
+    return locations.map(({ id, name }) => ({ id, name }));
+  }
+}
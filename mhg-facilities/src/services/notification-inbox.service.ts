@@ -0,0 +1,42 @@
+import {
+  NotificationDAO,
+  type NotificationInboxFilters,
+} from "@/dao/notification.dao";
+import type { NotificationRow } from "@/types/database-extensions";
+
+export interface NotificationInbox {
+  notifications: NotificationRow[];
+  unread_count: number;
+}
+
+/**
+ * Notification Inbox Service
+ * Reads and clears a user's in-app notifications. The rows themselves are
+ * written by NotificationService as the in_app channel.
+ */
+export class NotificationInboxService {
+  constructor(private notificationDAO = new NotificationDAO()) {}
+
+  async getInbox(
+    userId: string,
+    filters: NotificationInboxFilters = {},
+  ): Promise<NotificationInbox> {
+    const [notifications, unreadCount] = await Promise.all([
+      this.notificationDAO.findByUser(userId, filters),
+      this.notificationDAO.countUnread(userId),
+    ]);
+
+    return { notifications, unread_count: unreadCount };
+  }
+
+  /**
+   * Mark some of a user's notifications read, or all of them when no ids
+   * are given. Ids belonging to other users are ignored.
+   * @returns How many notifications were marked
+   */
+  async markRead(userId: string, ids?: string[]): Promise<number> {
+    if (ids && ids.length === 0) return 0;
+
+    return this.notificationDAO.markRead(userId, ids);
+  }
+}
@@ -0,0 +1,525 @@
+import { NotificationOutboxDAO } from "@/dao/notification-outbox.dao";
+import type { NotificationOutboxFilters } from "@/dao/notification-outbox.dao";
+import { NotificationDeliveryDAO } from "@/dao/notification-delivery.dao";
+import { TicketDAO } from "@/dao/ticket.dao";
+import { UserDAO } from "@/dao/user.dao";
+import { LocationDAO } from "@/dao/location.dao";
+import { ComplianceDocumentDAO } from "@/dao/compliance-document.dao";
+import { TicketCommentDAO } from "@/dao/ticket-comment.dao";
+import { PMScheduleDAO } from "@/dao/pm-schedule.dao";
+import {
+  NotificationService,
+  type NotificationDelivery,
+} from "./notification.service";
+import { NotificationDigestService } from "./notification-digest.service";
+import { RESOLVED_TICKET_STATUSES } from "./compliance-document.service";
+import { runWithTenant } from "@/lib/tenant/context";
+import type { Json } from "@/types/database";
+import type {
+  NotificationDeliveryRow,
+  NotificationOutboxRow,
+} from "@/types/database-extensions";
+import type {
+  NotificationOutboxEvent,
+  NotificationOutboxPayloads,
+} from "@/types";
+
+const BATCH_SIZE = 25;
+// Retries wait 1, 2, 4, 8... minutes, capped at an hour
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// A worker holding a message this long is assumed to have died
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+export interface OutboxMessageWithDeliveries extends NotificationOutboxRow {
+  deliveries: NotificationDeliveryRow[];
+}
+
+export interface OutboxRunResult {
+  processed: number;
+  sent: number;
+  retried: number;
+  failed: number;
+}
+
+/**
+ * Notification Outbox Service
+ * Queues notifications and sends them from the worker, so request handlers
+ * and cron loops never wait on (or lose) a send. A message is retried with
+ * exponential backoff when it throws or every delivery fails; partial
+ * failures are recorded per delivery and can be resent by an admin.
+ */
+export class NotificationOutboxService {
+  constructor(
+    private outboxDAO = new NotificationOutboxDAO(),
+    private deliveryDAO = new NotificationDeliveryDAO(),
+    private notificationService = new NotificationService(),
+    private ticketDAO = new TicketDAO(),
+    private userDAO = new UserDAO(),
+    private locationDAO = new LocationDAO(),
+    private documentDAO = new ComplianceDocumentDAO(),
+    private commentDAO = new TicketCommentDAO(),
+    private scheduleDAO = new PMScheduleDAO(),
+    private digestService = new NotificationDigestService(),
+  ) {}
+
+  // ============================================================
+  // QUEUEING
+  // ============================================================
+
+  async enqueue<E extends NotificationOutboxEvent>(
+    event: E,
+    payload: NotificationOutboxPayloads[E],
+  ): Promise<void> {
+    await this.outboxDAO.enqueue({
+      event,
+      payload: payload as unknown as Json,
+    });
+  }
+
+  // ============================================================
+  // WORKER
+  // ============================================================
+
+  /**
+   * Send the messages that are due, one at a time
+   * Runs without a tenant context (from cron): messages are claimed across
+   * tenants and each is sent scoped to the tenant that queued it.
+   */
+  async processDue(now: Date = new Date()): Promise<OutboxRunResult> {
+    const messages = await this.outboxDAO.claimDue(
+      BATCH_SIZE,
+      now,
+      new Date(now.getTime() - STALE_LOCK_MS),
+    );
+
+    const result: OutboxRunResult = {
+      processed: messages.length,
+      sent: 0,
+      retried: 0,
+      failed: 0,
+    };
+
+    for (const message of messages) {
+      try {
+        const outcome = await runWithTenant(message.tenant_id, () =>
+          this.process(message, now),
+        );
+        result[outcome]++;
+      } catch (err) {
+        // Left processing; the stale lock lets a later run pick it up again
+        console.error(`Failed to process notification ${message.id}:`, err);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Send one claimed message, log its deliveries and settle its status
+   */
+  async process(
+    message: NotificationOutboxRow,
+    now: Date = new Date(),
+  ): Promise<"sent" | "retried" | "failed"> {
+    const attempt = message.attempts + 1;
+    let deliveries: NotificationDelivery[] = [];
+    let error: string | null = null;
+
+    try {
+      deliveries = await this.send(message);
+      if (
+        deliveries.length > 0 &&
+        deliveries.every((delivery) => delivery.status === "failed")
+      ) {
+        error = deliveries[0].error ?? "All deliveries failed";
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : "Unknown error";
+    }
+
+    await this.deliveryDAO
+      .createMany(
+        deliveries.map((delivery) => ({
+          ...delivery,
+          tenant_id: message.tenant_id,
+          outbox_id: message.id,
+          attempt,
+        })),
+      )
+      .catch((err) =>
+        console.error(`Failed to log deliveries for ${message.id}:`, err),
+      );
+
+    if (!error) {
+      await this.outboxDAO.update(message.id, {
+        status: "sent",
+        attempts: attempt,
+        sent_at: now.toISOString(),
+        locked_at: null,
+        last_error: null,
+      });
+      return "sent";
+    }
+
+    console.error(
+      `Notification ${message.id} (${message.event}) attempt ${attempt} failed: ${error}`,
+    );
+
+    if (attempt >= message.max_attempts) {
+      await this.outboxDAO.update(message.id, {
+        status: "failed",
+        attempts: attempt,
+        locked_at: null,
+        last_error: error,
+      });
+      return "failed";
+    }
+
+    await this.outboxDAO.update(message.id, {
+      status: "queued",
+      attempts: attempt,
+      next_attempt_at: new Date(
+        now.getTime() + this.getRetryDelay(attempt),
+      ).toISOString(),
+      locked_at: null,
+      last_error: error,
+    });
+    return "retried";
+  }
+
+  getRetryDelay(attempt: number): number {
+    return Math.min(
+      BASE_RETRY_DELAY_MS * 2 ** (attempt - 1),
+      MAX_RETRY_DELAY_MS,
+    );
+  }
+
+  // ============================================================
+  // ADMIN
+  // ============================================================
+
+  async getMessages(
+    filters?: NotificationOutboxFilters,
+  ): Promise<NotificationOutboxRow[]> {
+    return this.outboxDAO.findRecent(filters);
+  }
+
+  async getMessage(id: string): Promise<OutboxMessageWithDeliveries> {
+    const message = await this.outboxDAO.findById(id);
+    if (!message) {
+      throw new Error("Notification not found");
+    }
+
+    const deliveries = await this.deliveryDAO.findByOutbox(id);
+    return { ...message, deliveries };
+  }
+
+  /**
+   * Queue a sent, failed or bounced message to go out again now
+   */
+  async resend(id: string): Promise<NotificationOutboxRow> {
+    const message = await this.outboxDAO.findById(id);
+    if (!message) {
+      throw new Error("Notification not found");
+    }
+    if (message.status === "queued" || message.status === "processing") {
+      throw new Error("Cannot resend a notification that is still queued");
+    }
+
+    return this.outboxDAO.update(id, {
+      status: "queued",
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      locked_at: null,
+      last_error: null,
+    });
+  }
+
+  /**
+   * Record a bounce reported by the email provider
+   * Returns false when the email isn't one of ours. The webhook has no
+   * tenant context, so the message is updated scoped to the delivery's.
+   */
+  async recordBounce(
+    providerMessageId: string,
+    reason: string,
+  ): Promise<boolean> {
+    const delivery =
+      await this.deliveryDAO.findByProviderMessageId(providerMessageId);
+    if (!delivery) return false;
+
+    await this.deliveryDAO.markBounced(delivery.id, reason);
+    await runWithTenant(delivery.tenant_id, () =>
+      this.outboxDAO.update(delivery.outbox_id, {
+        status: "bounced",
+        last_error: `Bounced: ${delivery.address}`,
+      }),
+    );
+    return true;
+  }
+
+  // ============================================================
+  // HELPERS
+  // ============================================================
+
+  /**
+   * Load what the message refers to and hand it to NotificationService.
+   * Anything deleted since the message was queued is skipped.
+   */
+  private async send(
+    message: NotificationOutboxRow,
+  ): Promise<NotificationDelivery[]> {
+    switch (message.event) {
+      case "ticket_created": {
+        const { ticket_id } = this.payload(message, "ticket_created");
+        const ticket = await this.ticketDAO.findById(ticket_id);
+        if (!ticket) return this.skip(message, "ticket");
+
+        // Anonymous QR reports have no submitter
+        const [submitter, location] = await Promise.all([
+          ticket.submitted_by
+            ? this.userDAO.findById(ticket.submitted_by)
+            : null,
+          ticket.location_id
+            ? this.locationDAO.findById(ticket.location_id)
+            : null,
+        ]);
+        if (ticket.submitted_by && !submitter) {
+          return this.skip(message, "submitter");
+        }
+
+        return this.notificationService.notifyNewTicketCreated({
+          ticket,
+          submitter,
+          locationName: location?.name ?? "Unknown location",
+        });
+      }
+
+      case "ticket_assigned": {
+        const { ticket_id, assignee_id, assigned_by } = this.payload(
+          message,
+          "ticket_assigned",
+        );
+        const [ticket, assignee, assigner] = await Promise.all([
+          this.ticketDAO.findById(ticket_id),
+          this.userDAO.findById(assignee_id),
+          assigned_by ? this.userDAO.findById(assigned_by) : null,
+        ]);
+        if (!ticket || !assignee) return this.skip(message, "ticket");
+        // Reassigned again before the worker got to it
+        if (ticket.assigned_to !== assignee_id) return [];
+
+        return this.notificationService.notifyTicketAssignment({
+          ticket,
+          assignedBy: assigner ?? { full_name: "Auto-routing" },
+          assignee,
+        });
+      }
+
+      case "ticket_status_changed": {
+        const { ticket_id, from_status, to_status, changed_by } = this.payload(
+          message,
+          "ticket_status_changed",
+        );
+        // Cost approval notifications already cover these transitions
+        if (
+          from_status === "needs_approval" ||
+          to_status === "needs_approval"
+        ) {
+          return [];
+        }
+
+        const ticket = await this.ticketDAO.findById(ticket_id);
+        if (!ticket) return this.skip(message, "ticket");
+
+        // The submitter and assignee hear about it, unless they made the change
+        const userIds = [ticket.submitted_by, ticket.assigned_to].filter(
+          (id): id is string => !!id && id !== changed_by,
+        );
+        if (userIds.length === 0) return [];
+
+        const [notifyUsers, changedBy] = await Promise.all([
+          this.userDAO.findByIds([...new Set(userIds)]),
+          changed_by ? this.userDAO.findById(changed_by) : null,
+        ]);
+
+        return this.notificationService.notifyTicketStatusChange({
+          ticket,
+          oldStatus: from_status,
+          newStatus: to_status,
+          changedBy: changedBy ?? { full_name: "System" },
+          notifyUsers,
+        });
+      }
+
+      case "ticket_mentioned": {
+        const { ticket_id, comment_id, author_id, user_ids } = this.payload(
+          message,
+          "ticket_mentioned",
+        );
+        const [ticket, comment, author, recipients] = await Promise.all([
+          this.ticketDAO.findById(ticket_id),
+          this.commentDAO.findById(comment_id),
+          this.userDAO.findById(author_id),
+          this.userDAO.findByIds(user_ids),
+        ]);
+        if (!ticket) return this.skip(message, "ticket");
+        if (!comment) return this.skip(message, "comment");
+
+        return this.notificationService.notifyTicketMention({
+          ticket,
+          comment: comment.comment,
+          mentionedBy: author ?? { full_name: "Unknown user" },
+          recipients,
+        });
+      }
+
+      case "ticket_escalated": {
+        const { ticket_id, level, reason, recipient_ids } = this.payload(
+          message,
+          "ticket_escalated",
+        );
+        const [ticket, recipients] = await Promise.all([
+          this.ticketDAO.findById(ticket_id),
+          this.userDAO.findByIds(recipient_ids),
+        ]);
+        if (!ticket) return this.skip(message, "ticket");
+
+        return this.notificationService.notifyTicketEscalation({
+          ticket,
+          level,
+          reason,
+          recipients,
+        });
+      }
+
+      case "cost_approval_requested": {
+        const payload = this.payload(message, "cost_approval_requested");
+        const [ticket, requester, approvers] = await Promise.all([
+          this.ticketDAO.findById(payload.ticket_id),
+          this.userDAO.findById(payload.requested_by),
+          this.userDAO.findByIds(payload.approver_ids),
+        ]);
+        if (!ticket) return this.skip(message, "ticket");
+
+        return this.notificationService.notifyCostApprovalRequested({
+          ticket,
+          amount: payload.amount,
+          source: payload.source,
+          notes: payload.notes,
+          requestedBy: requester ?? { full_name: "Unknown user" },
+          approvers,
+        });
+      }
+
+      case "cost_approval_decided": {
+        const payload = this.payload(message, "cost_approval_decided");
+        const [ticket, decidedBy, recipient] = await Promise.all([
+          this.ticketDAO.findById(payload.ticket_id),
+          this.userDAO.findById(payload.decided_by),
+          this.userDAO.findById(payload.recipient_id),
+        ]);
+        if (!ticket || !recipient) return this.skip(message, "ticket");
+
+        return this.notificationService.notifyCostApprovalDecision({
+          ticket,
+          amount: payload.amount,
+          approved: payload.approved,
+          notes: payload.notes,
+          decidedBy: decidedBy ?? { full_name: "Unknown user" },
+          recipient,
+        });
+      }
+
+      case "pm_due": {
+        const { schedule_id, assignee_id, due_date } = this.payload(
+          message,
+          "pm_due",
+        );
+        const [schedule, assignee] = await Promise.all([
+          this.scheduleDAO.findById(schedule_id),
+          this.userDAO.findById(assignee_id),
+        ]);
+        if (!schedule || !assignee) return this.skip(message, "schedule");
+
+        return this.notificationService.notifyPMDue({
+          schedule,
+          assignee,
+          dueDate: due_date,
+        });
+      }
+
+      case "compliance_expiring": {
+        const { document_id, days_until_expiration, recipient_ids } =
+          this.payload(message, "compliance_expiring");
+        const [document, recipients] = await Promise.all([
+          this.documentDAO.findById(document_id),
+          this.userDAO.findByIds(recipient_ids),
+        ]);
+        if (!document) return this.skip(message, "document");
+
+        return this.notificationService.notifyComplianceExpiring({
+          document,
+          recipients,
+          daysUntilExpiration: days_until_expiration,
+        });
+      }
+
+      case "compliance_reinspection_due": {
+        const { document_id, days_until_reinspection, recipient_ids } =
+          this.payload(message, "compliance_reinspection_due");
+        const [document, recipients, tickets] = await Promise.all([
+          this.documentDAO.findById(document_id),
+          this.userDAO.findByIds(recipient_ids),
+          this.ticketDAO.findByComplianceDocuments([document_id]),
+        ]);
+        if (!document) return this.skip(message, "document");
+        // Cleared before the reminder went out
+        if (document.status !== "failed_inspection") return [];
+
+        return this.notificationService.notifyComplianceReinspectionDue({
+          document,
+          recipients,
+          daysUntilReinspection: days_until_reinspection,
+          openTickets: tickets.filter(
+            (ticket) => !RESOLVED_TICKET_STATUSES.includes(ticket.status),
+          ),
+        });
+      }
+
+      case "digest": {
+        const { user_id, frequency, since } = this.payload(message, "digest");
+        const recipient = await this.userDAO.findById(user_id);
+        if (!recipient?.is_active) return this.skip(message, "user");
+
+        // Compiled at send time so a retried digest is still current
+        const digest = await this.digestService.compileDigest(
+          recipient,
+          frequency,
+          new Date(since),
+        );
+        if (this.digestService.isEmpty(digest)) return [];
+
+        return this.notificationService.sendDigest({ recipient, digest });
+      }
+
+      default:
+        throw new Error(`Unsupported notification event: ${message.event}`);
+    }
+  }
+
+  private payload<E extends NotificationOutboxEvent>(
+    message: NotificationOutboxRow,
+    _event: E,
+  ): NotificationOutboxPayloads[E] {
+    return message.payload as unknown as NotificationOutboxPayloads[E];
+  }
+
+  private skip(message: NotificationOutboxRow, missing: string): [] {
+    console.warn(
+      `Skipping notification ${message.id} (${message.event}): ${missing} no longer exists`,
+    );
+    return [];
+  }
+}
@@ -0,0 +1,316 @@
+import { UserDAO } from "@/dao/user.dao";
+import { NotificationPolicyDAO } from "@/dao/notification-policy.dao";
+import { PushSubscriptionDAO } from "@/dao/push-subscription.dao";
+import type { PushTarget } from "@/iao/channels";
+import type { Database, Json } from "@/types/database";
+import type { NotificationPolicyRow } from "@/types/database-extensions";
+import type {
+  DigestFrequency,
+  NotificationDeliveryChannel,
+  NotificationEvent,
+  NotificationPreferences,
+  QuietHours,
+} from "@/types";
+
+type User = Database["public"]["Tables"]["users"]["Row"];
+
+export type NotificationPolicy = Pick<
+  NotificationPolicyRow,
+  "critical_overrides_quiet_hours" | "slack_webhook_url"
+>;
+
+/** Used until a tenant saves its own policy */
+export const DEFAULT_NOTIFICATION_POLICY: NotificationPolicy = {
+  critical_overrides_quiet_hours: true,
+  slack_webhook_url: null,
+};
+
+/** Matches the users.notification_preferences column default */
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  email: true,
+  sms: false,
+  push: true,
+  events: {},
+  quiet_hours: null,
+  location_ids: [],
+  digest: null,
+};
+
+export type UpdateNotificationPreferencesDTO = Partial<NotificationPreferences>;
+
+/**
+ * What a notification is about, used to match it against preferences
+ */
+export interface NotificationContext {
+  event: NotificationEvent;
+  channel?: NotificationDeliveryChannel;
+  // Locations the notification concerns; empty when not location-specific
+  locationIds?: (string | null | undefined)[];
+  // Emergency/critical notifications may break quiet hours (tenant policy)
+  critical?: boolean;
+  now?: Date;
+}
+
+// Sent to one specific person (their ticket, their request, their PM task)
+// rather than broadcast, so location scope doesn't apply
+const DIRECT_EVENTS: NotificationEvent[] = [
+  "ticket_assigned",
+  "ticket_mentioned",
+  "cost_approval_decided",
+  "pm_due",
+  "digest",
+];
+
+/**
+ * Notification Preference Service
+ * Reads and saves per-user notification preferences and decides which
+ * recipients of a notification should actually get it.
+ */
+export class NotificationPreferenceService {
+  constructor(
+    private userDAO = new UserDAO(),
+    private policyDAO = new NotificationPolicyDAO(),
+    private pushSubscriptionDAO = new PushSubscriptionDAO(),
+  ) {}
+
+  // ============================================================
+  // PREFERENCES
+  // ============================================================
+
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    const user = await this.userDAO.findById(userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    return this.normalize(user.notification_preferences);
+  }
+
+  /**
+   * Merge an update into the saved preferences. Top-level keys replace
+   * what is stored; per-event entries are merged by event.
+   */
+  async updatePreferences(
+    userId: string,
+    data: UpdateNotificationPreferencesDTO,
+  ): Promise<NotificationPreferences> {
+    const current = await this.getPreferences(userId);
+
+    const updated: NotificationPreferences = {
+      ...current,
+      ...data,
+      events: { ...current.events, ...data.events },
+    };
+
+    await this.userDAO.update(userId, {
+      notification_preferences: updated as unknown as Json,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Users who asked for this digest and still get email
+   */
+  async findDigestSubscribers(frequency: DigestFrequency): Promise<User[]> {
+    const users = await this.userDAO.findByDigestFrequency(frequency);
+
+    return users.filter(
+      (user) =>
+        user.email && this.normalize(user.notification_preferences).email,
+    );
+  }
+
+  // ============================================================
+  // POLICY
+  // ============================================================
+
+  async getPolicy(): Promise<NotificationPolicy> {
+    const policy = await this.policyDAO.findCurrent();
+    if (!policy) return DEFAULT_NOTIFICATION_POLICY;
+
+    return {
+      critical_overrides_quiet_hours: policy.critical_overrides_quiet_hours,
+      slack_webhook_url: policy.slack_webhook_url,
+    };
+  }
+
+  async updatePolicy(data: NotificationPolicy): Promise<NotificationPolicy> {
+    const existing = await this.policyDAO.findCurrent();
+    if (existing) {
+      await this.policyDAO.update(existing.id, data);
+    } else {
+      await this.policyDAO.create(data);
+    }
+
+    return data;
+  }
+
+  // ============================================================
+  // PUSH SUBSCRIPTIONS
+  // ============================================================
+
+  /**
+   * Register a browser for push notifications. A browser re-subscribing
+   * (or a shared device changing hands) takes over its existing endpoint.
+   */
+  async savePushSubscription(
+    userId: string,
+    subscription: PushTarget,
+    userAgent: string | null,
+  ): Promise<void> {
+    const existing = await this.pushSubscriptionDAO.findByEndpoint(
+      subscription.endpoint,
+    );
+
+    const data = {
+      user_id: userId,
+      p256dh: subscription.keys.p256dh,
+      auth: subscription.keys.auth,
+      user_agent: userAgent,
+    };
+
+    if (existing) {
+      await this.pushSubscriptionDAO.update(existing.id, data);
+    } else {
+      await this.pushSubscriptionDAO.create({
+        ...data,
+        endpoint: subscription.endpoint,
+      });
+    }
+  }
+
+  async removePushSubscription(
+    userId: string,
+    endpoint: string,
+  ): Promise<void> {
+    const existing = await this.pushSubscriptionDAO.findByEndpoint(endpoint);
+    if (!existing || existing.user_id !== userId) return;
+
+    await this.pushSubscriptionDAO.softDelete(existing.id);
+  }
+
+  // ============================================================
+  // RECIPIENT FILTERING
+  // ============================================================
+
+  /**
+   * Recipients who want this notification on this channel right now
+   */
+  async filterRecipients(
+    users: User[],
+    context: NotificationContext,
+  ): Promise<User[]> {
+    if (users.length === 0) return [];
+
+    // Only look up the policy when it can change the outcome
+    const overrideQuietHours = context.critical
+      ? (await this.getPolicy()).critical_overrides_quiet_hours
+      : false;
+
+    return users.filter((user) =>
+      this.shouldNotify(
+        this.normalize(user.notification_preferences),
+        context,
+        overrideQuietHours,
+      ),
+    );
+  }
+
+  shouldNotify(
+    prefs: NotificationPreferences,
+    context: NotificationContext,
+    overrideQuietHours = false,
+  ): boolean {
+    const channel = context.channel ?? "email";
+
+    if (!prefs[channel]) return false;
+    if (prefs.events?.[context.event]?.[channel] === false) return false;
+
+    if (!DIRECT_EVENTS.includes(context.event)) {
+      const scope = prefs.location_ids ?? [];
+      const locationIds = (context.locationIds ?? []).filter(
+        (id): id is string => !!id,
+      );
+      if (
+        scope.length > 0 &&
+        locationIds.length > 0 &&
+        !locationIds.some((id) => scope.includes(id))
+      ) {
+        return false;
+      }
+    }
+
+    if (
+      !overrideQuietHours &&
+      this.isWithinQuietHours(prefs.quiet_hours ?? null, context.now)
+    ) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Whether `now` falls within a user's quiet hours
+   * Supports overnight windows (end earlier than start).
+   */
+  isWithinQuietHours(
+    quietHours: QuietHours | null,
+    now: Date = new Date(),
+  ): boolean {
+    if (!quietHours?.enabled) return false;
+
+    let parts: Intl.DateTimeFormatPart[];
+    try {
+      parts = new Intl.DateTimeFormat("en-US", {
+        timeZone: quietHours.timezone,
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23",
+      }).formatToParts(now);
+    } catch {
+      // Invalid timezone in stored preferences: don't hold notifications
+      return false;
+    }
+
+    const get = (type: string) => parts.find((p) => p.type === type)?.value;
+    const minutes = Number(get("hour")) * 60 + Number(get("minute"));
+
+    const start = this.toMinutes(quietHours.start);
+    const end = this.toMinutes(quietHours.end);
+    if (start === end) return false;
+
+    return start < end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end;
+  }
+
+  // ============================================================
+  // HELPERS
+  // ============================================================
+
+  /**
+   * Fill in defaults for preferences saved before the current shape
+   */
+  private normalize(value: Json | null): NotificationPreferences {
+    const stored =
+      value && typeof value === "object" && !Array.isArray(value)
+        ? (value as unknown as Partial<NotificationPreferences>)
+        : {};
+
+    return {
+      ...DEFAULT_NOTIFICATION_PREFERENCES,
+      ...stored,
+      events: stored.events ?? {},
+      quiet_hours: stored.quiet_hours ?? null,
+      location_ids: stored.location_ids ?? [],
+      digest: stored.digest ?? null,
+    };
+  }
+
+  private toMinutes(time: string): number {
+    const [h, m] = time.split(":").map(Number);
+    return h * 60 + m;
+  }
+}
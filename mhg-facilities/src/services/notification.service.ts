@@ -1,6 +1,27 @@
 import { ResendIAO } from "@/iao/resend";
+import {
+  createChannelIAOs,
+  type ChannelIAOs,
+  type ChannelMessage,
+  type ChannelSeverity,
+  type DeliveryChannel,
+} from "@/iao/channels";
 import { UserDAO } from "@/dao/user.dao";
+import { PushSubscriptionDAO } from "@/dao/push-subscription.dao";
+import { NotificationDAO } from "@/dao/notification.dao";
+import {
+  NotificationPreferenceService,
+  type NotificationContext,
+} from "./notification-preference.service";
+import { OnCallScheduleService } from "./on-call-schedule.service";
+import type { NotificationDigest } from "./notification-digest.service";
+import {
+  generateDigestEmail,
+  type DigestEmailSection,
+} from "@/lib/email/templates/digest";
+import type { NotificationChannel } from "@/types/database";
 import type { Database } from "@/types/database-extensions";
+import type { NotificationEvent } from "@/types";
 
 type Ticket = Database["public"]["Tables"]["tickets"]["Row"];
 type PMSchedule = Database["public"]["Tables"]["pm_schedules"]["Row"];
@@ -8,10 +29,61 @@ type ComplianceDocument =
   Database["public"]["Tables"]["compliance_documents"]["Row"];
 type User = Database["public"]["Tables"]["users"]["Row"];
 
+// Channels used alongside email, by how urgent the notification is.
+// Recipients still need the channel switched on in their preferences.
+const SEVERITY_CHANNELS: Record<ChannelSeverity, DeliveryChannel[]> = {
+  info: ["push"],
+  warning: ["push", "sms"],
+  critical: ["push", "sms", "slack"],
+};
+
+// Events that also land in the recipient's in-app inbox. The inbox is a
+// record of what concerns the user, so channel switches and quiet hours
+// don't apply to it.
+const INBOX_EVENTS: NotificationEvent[] = [
+  "ticket_assigned",
+  "ticket_status_changed",
+  "ticket_mentioned",
+  "pm_due",
+  "compliance_expiring",
+  "compliance_reinspection_due",
+];
+
+// Items listed per digest section before "and N more"
+const DIGEST_SECTION_LIMIT = 10;
+
+/**
+ * One send to one recipient on one channel, as logged in
+ * notification_deliveries
+ */
+export interface NotificationDelivery {
+  channel: NotificationChannel;
+  recipient_id: string | null;
+  // Email address, phone number, push endpoint, "slack" or "inbox"
+  address: string;
+  status: "sent" | "failed";
+  provider_message_id: string | null;
+  error: string | null;
+}
+
+/**
+ * Notification Service
+ * Every notify* method filters its recipients through their notification
+ * preferences (event/channel switches, location scope, quiet hours) before
+ * sending. Email always goes out; SMS, Slack and web push are picked by the
+ * notification's severity (see SEVERITY_CHANNELS), and some events are also
+ * written to the in-app inbox (see INBOX_EVENTS). Each returns what it
+ * delivered, and failed sends are reported rather than thrown.
+ */
 export class NotificationService {
   constructor(
     private resendIAO = new ResendIAO(),
     private userDAO = new UserDAO(),
+    private preferenceService = new NotificationPreferenceService(),
+    private channels: ChannelIAOs = createChannelIAOs(),
+    private pushSubscriptionDAO = new PushSubscriptionDAO(),
+    private onCallService = new OnCallScheduleService(),
+    private notificationDAO = new NotificationDAO(),
   ) {}
 
   /**
@@ -19,33 +91,59 @@ export class NotificationService {
    */
   async notifyTicketAssignment(params: {
     ticket: Ticket;
-    assignedBy: User;
+    assignedBy: Pick<User, "full_name">;
     assignee: User;
-  }): Promise<void> {
+  }): Promise<NotificationDelivery[]> {
     const { ticket, assignedBy, assignee } = params;
+    const context: NotificationContext = {
+      event: "ticket_assigned",
+      locationIds: [ticket.location_id],
+      critical: isCriticalTicket(ticket),
+    };
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    const ticketUrl = `${baseUrl}/tickets/${ticket.id}`;
+
+    const channelDeliveries = await this.dispatch({
+      recipients: [assignee],
+      context,
+      message: {
+        title: `Ticket #${ticket.ticket_number} assigned to you`,
+        body: ticket.title,
+        url: ticketUrl,
+        severity: ticketSeverity(ticket),
+      },
+    });
 
     if (!assignee.email) {
       console.warn(
         `Cannot send ticket assignment email: assignee ${assignee.id} has no email`,
       );
-      return;
+      return channelDeliveries;
     }
 
-    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
-    const ticketUrl = `${baseUrl}/tickets/${ticket.id}`;
+    const [recipient] = await this.preferenceService.filterRecipients(
+      [assignee],
+      context,
+    );
+    if (!recipient) return channelDeliveries;
 
-    await this.resendIAO.sendTicketAssignmentEmail({
-      to: assignee.email,
-      assigneeName: assignee.full_name,
-      ticketTitle: ticket.title,
-      ticketId: ticket.id,
-      ticketUrl,
-      assignedBy: assignedBy.full_name,
-    });
+    const delivery = await this.deliver("email", assignee, assignee.email, () =>
+      this.resendIAO.sendTicketAssignmentEmail({
+        to: assignee.email,
+        assigneeName: assignee.full_name,
+        ticketTitle: ticket.title,
+        ticketId: ticket.id,
+        ticketUrl,
+        assignedBy: assignedBy.full_name,
+      }),
+    );
 
     console.log(
       `Sent ticket assignment email to ${assignee.email} for ticket ${ticket.id}`,
     );
+
+    return [...channelDeliveries, delivery];
   }
 
   /**
@@ -55,34 +153,114 @@ export class NotificationService {
     ticket: Ticket;
     oldStatus: string;
     newStatus: string;
-    changedBy: User;
+    changedBy: Pick<User, "full_name">;
     notifyUsers: User[];
-  }): Promise<void> {
+  }): Promise<NotificationDelivery[]> {
     const { ticket, oldStatus, newStatus, changedBy, notifyUsers } = params;
+    const context: NotificationContext = {
+      event: "ticket_status_changed",
+      locationIds: [ticket.location_id],
+      critical: isCriticalTicket(ticket),
+    };
+
+    const recipients = await this.preferenceService.filterRecipients(
+      notifyUsers.filter((user) => user.email),
+      context,
+    );
 
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
     const ticketUrl = `${baseUrl}/tickets/${ticket.id}`;
 
-    const emailPromises = notifyUsers
-      .filter((user) => user.email)
-      .map((user) =>
-        this.resendIAO.sendTicketStatusChangeEmail({
-          to: user.email!,
-          recipientName: user.full_name,
-          ticketTitle: ticket.title,
-          ticketId: ticket.id,
-          oldStatus,
-          newStatus,
-          ticketUrl,
-          changedBy: changedBy.full_name,
-        }),
-      );
+    const channelDeliveries = await this.dispatch({
+      recipients: notifyUsers,
+      context,
+      message: {
+        title: `Ticket #${ticket.ticket_number} is now ${formatStatus(newStatus)}`,
+        body: ticket.title,
+        url: ticketUrl,
+        severity: "info",
+      },
+    });
 
-    await Promise.allSettled(emailPromises);
+    const emailDeliveries = await Promise.all(
+      recipients.map((user) =>
+        this.deliver("email", user, user.email!, () =>
+          this.resendIAO.sendTicketStatusChangeEmail({
+            to: user.email!,
+            recipientName: user.full_name,
+            ticketTitle: ticket.title,
+            ticketId: ticket.id,
+            oldStatus,
+            newStatus,
+            ticketUrl,
+            changedBy: changedBy.full_name,
+          }),
+        ),
+      ),
+    );
 
     console.log(
-      `Sent ticket status change emails to ${notifyUsers.length} users for ticket ${ticket.id}`,
+      `Sent ticket status change emails to ${recipients.length} users for ticket ${ticket.id}`,
     );
+
+    return [...channelDeliveries, ...emailDeliveries];
+  }
+
+  /**
+   * Send notification to users mentioned in a ticket comment
+   */
+  async notifyTicketMention(params: {
+    ticket: Ticket;
+    comment: string;
+    mentionedBy: Pick<User, "full_name">;
+    recipients: User[];
+  }): Promise<NotificationDelivery[]> {
+    const { ticket, comment, mentionedBy } = params;
+    const context: NotificationContext = {
+      event: "ticket_mentioned",
+      locationIds: [ticket.location_id],
+    };
+
+    const recipients = await this.preferenceService.filterRecipients(
+      params.recipients.filter((user) => user.email),
+      context,
+    );
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    const ticketUrl = `${baseUrl}/tickets/${ticket.id}`;
+
+    const channelDeliveries = await this.dispatch({
+      recipients: params.recipients,
+      context,
+      message: {
+        title: `${mentionedBy.full_name} mentioned you on ticket #${ticket.ticket_number}`,
+        body: truncate(comment, 140),
+        url: ticketUrl,
+        severity: "info",
+      },
+    });
+
+    const emailDeliveries = await Promise.all(
+      recipients.map((user) =>
+        this.deliver("email", user, user.email!, () =>
+          this.resendIAO.sendTicketMentionEmail({
+            to: user.email!,
+            recipientName: user.full_name,
+            ticketNumber: String(ticket.ticket_number),
+            ticketTitle: ticket.title,
+            mentionedBy: mentionedBy.full_name,
+            comment,
+            ticketUrl,
+          }),
+        ),
+      ),
+    );
+
+    console.log(
+      `Sent mention emails to ${recipients.length} users for ticket ${ticket.id}`,
+    );
+
+    return [...channelDeliveries, ...emailDeliveries];
   }
 
   /**
@@ -92,31 +270,56 @@ export class NotificationService {
     schedule: PMSchedule;
     assignee: User;
     dueDate: string;
-  }): Promise<void> {
+  }): Promise<NotificationDelivery[]> {
     const { schedule, assignee, dueDate } = params;
+    const context: NotificationContext = {
+      event: "pm_due",
+      locationIds: [schedule.location_id],
+    };
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    const scheduleUrl = `${baseUrl}/pm/${schedule.id}`;
+
+    const channelDeliveries = await this.dispatch({
+      recipients: [assignee],
+      context,
+      message: {
+        title: `PM task due ${dueDate}`,
+        body: schedule.name,
+        url: scheduleUrl,
+        severity: "info",
+      },
+    });
 
     if (!assignee.email) {
       console.warn(
         `Cannot send PM due email: assignee ${assignee.id} has no email`,
       );
-      return;
+      return channelDeliveries;
     }
 
-    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
-    const scheduleUrl = `${baseUrl}/pm/${schedule.id}`;
+    const [recipient] = await this.preferenceService.filterRecipients(
+      [assignee],
+      context,
+    );
+    if (!recipient) return channelDeliveries;
 
-    await this.resendIAO.sendPMDueReminderEmail({
-      to: assignee.email,
-      recipientName: assignee.full_name,
-      taskName: schedule.name,
-      dueDate,
-      scheduleId: schedule.id,
-      scheduleUrl,
-    });
+    const delivery = await this.deliver("email", assignee, assignee.email, () =>
+      this.resendIAO.sendPMDueReminderEmail({
+        to: assignee.email,
+        recipientName: assignee.full_name,
+        taskName: schedule.name,
+        dueDate,
+        scheduleId: schedule.id,
+        scheduleUrl,
+      }),
+    );
 
     console.log(
       `Sent PM due email to ${assignee.email} for schedule ${schedule.id}`,
     );
+
+    return [...channelDeliveries, delivery];
   }
 
   /**
@@ -126,8 +329,21 @@ export class NotificationService {
     document: ComplianceDocument;
     recipients: User[];
     daysUntilExpiration: number;
-  }): Promise<void> {
-    const { document, recipients, daysUntilExpiration } = params;
+  }): Promise<NotificationDelivery[]> {
+    const { document, daysUntilExpiration } = params;
+    const expired = daysUntilExpiration <= 0;
+
+    // Expired documents are critical
+    const context: NotificationContext = {
+      event: "compliance_expiring",
+      locationIds: [document.location_id, ...(document.location_ids ?? [])],
+      critical: expired,
+    };
+
+    const recipients = await this.preferenceService.filterRecipients(
+      params.recipients.filter((user) => user.email),
+      context,
+    );
 
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
     const documentUrl = `${baseUrl}/compliance/${document.id}`;
@@ -136,25 +352,114 @@ export class NotificationService {
       ? new Date(document.expiration_date).toLocaleDateString()
       : "Unknown";
 
-    const emailPromises = recipients
-      .filter((user) => user.email)
-      .map((user) =>
-        this.resendIAO.sendComplianceExpiringEmail({
-          to: user.email!,
-          recipientName: user.full_name,
-          documentName: document.name,
-          expirationDate,
-          documentId: document.id,
-          documentUrl,
-          daysUntilExpiration,
-        }),
-      );
+    const channelDeliveries = await this.dispatch({
+      recipients: params.recipients,
+      context,
+      message: {
+        title: expired
+          ? `${document.name} has expired`
+          : `${document.name} expires in ${daysUntilExpiration} day${daysUntilExpiration === 1 ? "" : "s"}`,
+        body: `Expiration date: ${expirationDate}`,
+        url: documentUrl,
+        severity: expired ? "critical" : "warning",
+      },
+    });
 
-    await Promise.allSettled(emailPromises);
+    const emailDeliveries = await Promise.all(
+      recipients.map((user) =>
+        this.deliver("email", user, user.email!, () =>
+          this.resendIAO.sendComplianceExpiringEmail({
+            to: user.email!,
+            recipientName: user.full_name,
+            documentName: document.name,
+            expirationDate,
+            documentId: document.id,
+            documentUrl,
+            daysUntilExpiration,
+          }),
+        ),
+      ),
+    );
 
     console.log(
       `Sent compliance expiring emails to ${recipients.length} users for document ${document.id}`,
     );
+
+    return [...channelDeliveries, ...emailDeliveries];
+  }
+
+  /**
+   * Send reminder that a failed inspection's reinspection is coming up,
+   * listing the corrective-action tickets still open
+   */
+  async notifyComplianceReinspectionDue(params: {
+    document: ComplianceDocument;
+    recipients: User[];
+    daysUntilReinspection: number;
+    openTickets: Pick<Ticket, "ticket_number" | "title" | "status">[];
+  }): Promise<NotificationDelivery[]> {
+    const { document, daysUntilReinspection, openTickets } = params;
+    const overdue = daysUntilReinspection <= 0;
+
+    const context: NotificationContext = {
+      event: "compliance_reinspection_due",
+      locationIds: [document.location_id, ...(document.location_ids ?? [])],
+      critical: overdue,
+    };
+
+    const recipients = await this.preferenceService.filterRecipients(
+      params.recipients.filter((user) => user.email),
+      context,
+    );
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    const documentUrl = `${baseUrl}/compliance/${document.id}`;
+
+    const reinspectionDate = document.reinspection_date
+      ? new Date(document.reinspection_date).toLocaleDateString()
+      : "Unknown";
+
+    const channelDeliveries = await this.dispatch({
+      recipients: params.recipients,
+      context,
+      message: {
+        title:
+          daysUntilReinspection < 0
+            ? `${document.name} reinspection is overdue`
+            : daysUntilReinspection === 0
+              ? `${document.name} reinspection is today`
+              : `${document.name} reinspection in ${daysUntilReinspection} day${daysUntilReinspection === 1 ? "" : "s"}`,
+        body: `Reinspection date: ${reinspectionDate}. ${openTickets.length} corrective action${openTickets.length === 1 ? "" : "s"} still open.`,
+        url: documentUrl,
+        severity: overdue ? "critical" : "warning",
+      },
+    });
+
+    const emailDeliveries = await Promise.all(
+      recipients.map((user) =>
+        this.deliver("email", user, user.email!, () =>
+          this.resendIAO.sendComplianceReinspectionEmail({
+            to: user.email!,
+            recipientName: user.full_name,
+            documentName: document.name,
+            reinspectionDate,
+            documentUrl,
+            daysUntilReinspection,
+            openActions: openTickets.map((ticket) => ({
+              ticketNumber: ticket.ticket_number,
+              title: ticket.title,
+              status: ticket.status,
+            })),
+          }),
+        ),
+      ),
+    );
+
+    console.log(
+      `Sent reinspection reminders to ${recipients.length} users for document ${document.id}`,
+    );
+
+    return [...channelDeliveries, ...emailDeliveries];
   }
 
   /**
@@ -162,10 +467,14 @@ export class NotificationService {
    */
   async notifyNewTicketCreated(params: {
     ticket: Ticket;
-    submitter: User;
+    // Null for reports made from an asset's public QR page
+    submitter: User | null;
     locationName: string;
-  }): Promise<void> {
+  }): Promise<NotificationDelivery[]> {
     const { ticket, submitter, locationName } = params;
+    const submittedBy = submitter
+      ? submitter.full_name
+      : `${ticket.reporter_name || "Anonymous"} (via QR code)`;
 
     // Get all managers and admins
     const [admins, managers] = await Promise.all([
@@ -179,44 +488,591 @@ export class NotificationService {
       recipientMap.set(user.id, user);
     }
 
-    // Filter out the submitter and users without email or with email notifications disabled
-    const recipients = Array.from(recipientMap.values()).filter((user) => {
-      if (user.id === submitter.id) return false;
-      if (!user.email) return false;
-      const prefs = user.notification_preferences as {
-        email?: boolean;
-      } | null;
-      if (prefs && prefs.email === false) return false;
-      return true;
+    const candidates = Array.from(recipientMap.values()).filter(
+      (user) => user.id !== submitter?.id,
+    );
+    const context: NotificationContext = {
+      event: "ticket_created",
+      locationIds: [ticket.location_id],
+      critical: isCriticalTicket(ticket),
+    };
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    const ticketUrl = `${baseUrl}/tickets/${ticket.id}`;
+
+    const channelDeliveries = await this.dispatch({
+      recipients: candidates,
+      context,
+      message: {
+        title: `New ${ticket.is_emergency ? "emergency " : ""}ticket #${ticket.ticket_number} at ${locationName}`,
+        body: ticket.title,
+        url: ticketUrl,
+        severity: ticketSeverity(ticket),
+      },
+      onCallLocationId: ticket.location_id,
     });
 
-    if (recipients.length === 0) return;
+    // Filter out users without email and users who opted out
+    const recipients = await this.preferenceService.filterRecipients(
+      candidates.filter((user) => user.email),
+      context,
+    );
+
+    if (recipients.length === 0) return channelDeliveries;
+
+    const emailDeliveries = await Promise.all(
+      recipients.map((user) =>
+        this.deliver("email", user, user.email!, () =>
+          this.resendIAO.sendNewTicketEmail({
+            to: user.email!,
+            recipientName: user.full_name,
+            ticketNumber: String(ticket.ticket_number),
+            ticketTitle: ticket.title,
+            ticketDescription: ticket.description,
+            priority: ticket.priority,
+            locationName,
+            submittedBy,
+            ticketUrl,
+            isEmergency: ticket.is_emergency,
+          }),
+        ),
+      ),
+    );
+
+    console.log(
+      `Sent new ticket notification emails to ${recipients.length} users for ticket ${ticket.id}`,
+    );
+
+    return [...channelDeliveries, ...emailDeliveries];
+  }
+
+  /**
+   * Send notification when a ticket breaches its SLA and is escalated
+   */
+  async notifyTicketEscalation(params: {
+    ticket: Ticket;
+    level: number;
+    reason: string;
+    recipients: User[];
+  }): Promise<NotificationDelivery[]> {
+    const { ticket, level, reason } = params;
+    const context: NotificationContext = {
+      event: "ticket_escalated",
+      locationIds: [ticket.location_id],
+      critical: isCriticalTicket(ticket),
+    };
+
+    const recipients = await this.preferenceService.filterRecipients(
+      params.recipients.filter((user) => user.email),
+      context,
+    );
 
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
     const ticketUrl = `${baseUrl}/tickets/${ticket.id}`;
 
-    const emailPromises = recipients.map((user) =>
-      this.resendIAO.sendNewTicketEmail({
-        to: user.email!,
-        recipientName: user.full_name,
-        ticketNumber: String(ticket.ticket_number),
-        ticketTitle: ticket.title,
-        ticketDescription: ticket.description,
-        priority: ticket.priority,
-        locationName,
-        submittedBy: submitter.full_name,
-        ticketUrl,
-        isEmergency: ticket.is_emergency,
-      }),
+    // An SLA breach is at least a warning, whatever the ticket's priority
+    const channelDeliveries = await this.dispatch({
+      recipients: params.recipients,
+      context,
+      message: {
+        title: `Ticket #${ticket.ticket_number} escalated (level ${level})`,
+        body: `${ticket.title}: ${reason}`,
+        url: ticketUrl,
+        severity: isCriticalTicket(ticket) ? "critical" : "warning",
+      },
+      onCallLocationId: ticket.location_id,
+    });
+
+    const emailDeliveries = await Promise.all(
+      recipients.map((user) =>
+        this.deliver("email", user, user.email!, () =>
+          this.resendIAO.sendTicketEscalationEmail({
+            to: user.email!,
+            recipientName: user.full_name,
+            ticketNumber: String(ticket.ticket_number),
+            ticketTitle: ticket.title,
+            priority: ticket.priority,
+            level,
+            reason,
+            ticketUrl,
+          }),
+        ),
+      ),
+    );
+
+    console.log(
+      `Sent level ${level} escalation emails to ${recipients.length} users for ticket ${ticket.id}`,
     );
 
-    await Promise.allSettled(emailPromises);
+    return [...channelDeliveries, ...emailDeliveries];
+  }
+
+  /**
+   * Send notification when a ticket cost needs approval
+   */
+  async notifyCostApprovalRequested(params: {
+    ticket: Ticket;
+    amount: number;
+    source: string;
+    notes: string | null;
+    requestedBy: Pick<User, "full_name">;
+    approvers: User[];
+  }): Promise<NotificationDelivery[]> {
+    const { ticket, amount, source, notes, requestedBy } = params;
+    const context: NotificationContext = {
+      event: "cost_approval_requested",
+      locationIds: [ticket.location_id],
+    };
+
+    const approvers = await this.preferenceService.filterRecipients(
+      params.approvers.filter((user) => user.email),
+      context,
+    );
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    const ticketUrl = `${baseUrl}/tickets/${ticket.id}`;
+
+    const channelDeliveries = await this.dispatch({
+      recipients: params.approvers,
+      context,
+      message: {
+        title: `Approve ${formatCurrency(amount)} for ticket #${ticket.ticket_number}`,
+        body: `${ticket.title} (requested by ${requestedBy.full_name})`,
+        url: ticketUrl,
+        severity: "info",
+      },
+    });
+
+    const emailDeliveries = await Promise.all(
+      approvers.map((user) =>
+        this.deliver("email", user, user.email!, () =>
+          this.resendIAO.sendCostApprovalRequestEmail({
+            to: user.email!,
+            recipientName: user.full_name,
+            ticketNumber: String(ticket.ticket_number),
+            ticketTitle: ticket.title,
+            amount: formatCurrency(amount),
+            source,
+            requestedBy: requestedBy.full_name,
+            notes,
+            ticketUrl,
+          }),
+        ),
+      ),
+    );
 
     console.log(
-      `Sent new ticket notification emails to ${recipients.length} users for ticket ${ticket.id}`,
+      `Sent cost approval request emails to ${approvers.length} users for ticket ${ticket.id}`,
+    );
+
+    return [...channelDeliveries, ...emailDeliveries];
+  }
+
+  /**
+   * Send notification when a cost approval is decided
+   */
+  async notifyCostApprovalDecision(params: {
+    ticket: Ticket;
+    amount: number;
+    approved: boolean;
+    notes: string;
+    decidedBy: Pick<User, "full_name">;
+    recipient: User;
+  }): Promise<NotificationDelivery[]> {
+    const { ticket, amount, approved, notes, decidedBy, recipient } = params;
+    const context: NotificationContext = {
+      event: "cost_approval_decided",
+      locationIds: [ticket.location_id],
+    };
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    const ticketUrl = `${baseUrl}/tickets/${ticket.id}`;
+
+    const channelDeliveries = await this.dispatch({
+      recipients: [recipient],
+      context,
+      message: {
+        title: `${formatCurrency(amount)} ${approved ? "approved" : "denied"} for ticket #${ticket.ticket_number}`,
+        body: `${ticket.title} (${approved ? "approved" : "denied"} by ${decidedBy.full_name})`,
+        url: ticketUrl,
+        severity: "info",
+      },
+    });
+
+    if (!recipient.email) {
+      console.warn(
+        `Cannot send cost approval decision email: user ${recipient.id} has no email`,
+      );
+      return channelDeliveries;
+    }
+
+    const [allowed] = await this.preferenceService.filterRecipients(
+      [recipient],
+      context,
+    );
+    if (!allowed) return channelDeliveries;
+
+    const delivery = await this.deliver(
+      "email",
+      recipient,
+      recipient.email,
+      () =>
+        this.resendIAO.sendCostApprovalDecisionEmail({
+          to: recipient.email,
+          recipientName: recipient.full_name,
+          ticketNumber: String(ticket.ticket_number),
+          ticketTitle: ticket.title,
+          amount: formatCurrency(amount),
+          approved,
+          decidedBy: decidedBy.full_name,
+          notes,
+          ticketUrl,
+        }),
+    );
+
+    console.log(
+      `Sent cost approval decision email to ${recipient.email} for ticket ${ticket.id}`,
+    );
+
+    return [...channelDeliveries, delivery];
+  }
+
+  /**
+   * Send a user their daily/weekly digest. The recipient chose to get it,
+   * so it isn't held for quiet hours.
+   */
+  async sendDigest(params: {
+    recipient: User;
+    digest: NotificationDigest;
+  }): Promise<NotificationDelivery[]> {
+    const { recipient, digest } = params;
+    if (!recipient.email) return [];
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    const ticketItem = (ticket: Ticket) => ({
+      label: `#${ticket.ticket_number} ${ticket.title}`,
+      detail: ticket.due_date
+        ? `${formatStatus(ticket.status)}, due ${formatDate(ticket.due_date)}`
+        : formatStatus(ticket.status),
+      url: `${baseUrl}/tickets/${ticket.id}`,
+      urgent: !!ticket.due_date && new Date(ticket.due_date) < new Date(),
+    });
+
+    const sections: DigestEmailSection[] = [
+      {
+        title: "Your open tickets",
+        url: `${baseUrl}/tickets`,
+        items: digest.assigned_tickets.map(ticketItem),
+      },
+      // Overdue work beyond the recipient's own is repeated for own scope
+      {
+        title: "Overdue tickets",
+        url: `${baseUrl}/tickets`,
+        items:
+          digest.scope === "own" ? [] : digest.overdue_tickets.map(ticketItem),
+      },
+      {
+        title: "PM due this week",
+        url: `${baseUrl}/pm`,
+        items: digest.pm_due.map((schedule) => ({
+          label: schedule.name,
+          detail: schedule.next_due_date
+            ? `Due ${formatDate(schedule.next_due_date)}`
+            : undefined,
+          url: `${baseUrl}/pm/${schedule.id}`,
+          urgent:
+            !!schedule.next_due_date &&
+            schedule.next_due_date < new Date().toISOString().split("T")[0],
+        })),
+      },
+      {
+        title: "Compliance documents expiring",
+        url: `${baseUrl}/compliance`,
+        items: digest.expiring_documents.map((document) => ({
+          label: document.name,
+          detail: document.expiration_date
+            ? `Expires ${formatDate(document.expiration_date)}`
+            : undefined,
+          url: `${baseUrl}/compliance/${document.id}`,
+        })),
+      },
+      {
+        title: "Budgets over 80%",
+        url: `${baseUrl}/budgets`,
+        items: digest.budget_alerts.map((budget) => ({
+          label: [budget.location?.name ?? "All locations", budget.category]
+            .filter(Boolean)
+            .join(" · "),
+          detail: `${budget.utilization_percentage}% used (${formatCurrency(budget.calculated_spent)} of ${formatCurrency(budget.annual_budget)})`,
+          url: `${baseUrl}/budgets`,
+          urgent: budget.alert_level === "over",
+        })),
+      },
+      {
+        title:
+          digest.frequency === "daily"
+            ? "Completed yesterday"
+            : "Completed this week",
+        url: `${baseUrl}/tickets`,
+        items: digest.completed_tickets.map((ticket) => ({
+          label: `#${ticket.ticket_number} ${ticket.title}`,
+          url: `${baseUrl}/tickets/${ticket.id}`,
+        })),
+      },
+    ]
+      .filter((section) => section.items.length > 0)
+      .map((section) => ({
+        ...section,
+        total: section.items.length,
+        items: section.items.slice(0, DIGEST_SECTION_LIMIT),
+      }));
+
+    const email = generateDigestEmail({
+      recipientName: recipient.full_name,
+      recipientEmail: recipient.email,
+      frequency: digest.frequency,
+      scopeLabel:
+        digest.scope === "tenant"
+          ? "All locations"
+          : digest.scope === "locations"
+            ? digest.locations.map((location) => location.name).join(", ")
+            : "Your assigned work",
+      sections,
+      dashboardUrl: `${baseUrl}/dashboard`,
+      settingsUrl: `${baseUrl}/settings/notifications`,
+    });
+
+    const delivery = await this.deliver(
+      "email",
+      recipient,
+      recipient.email,
+      () =>
+        this.resendIAO.sendEmail({
+          to: recipient.email,
+          subject: email.subject,
+          html: email.html,
+        }),
+    );
+
+    console.log(`Sent ${digest.frequency} digest to ${recipient.email}`);
+
+    return [delivery];
+  }
+
+  // ============================================================
+  // SMS, SLACK, PUSH AND INBOX
+  // ============================================================
+
+  /**
+   * Send a notification over the channels its severity calls for, to the
+   * recipients whose preferences allow each channel. Critical notifications
+   * with an on-call location also text that location's on-call and post to
+   * the tenant's Slack channel. Failures are reported, never thrown, so
+   * they don't hold up email.
+   */
+  private async dispatch(params: {
+    recipients: User[];
+    context: NotificationContext;
+    message: ChannelMessage;
+    onCallLocationId?: string | null;
+  }): Promise<NotificationDelivery[]> {
+    const { recipients, context, message } = params;
+    const channels = SEVERITY_CHANNELS[message.severity];
+
+    try {
+      const onCall =
+        message.severity === "critical" && params.onCallLocationId !== undefined
+          ? await this.findOnCallUser(params.onCallLocationId)
+          : null;
+
+      const sends: Promise<NotificationDelivery[]>[] = [];
+
+      if (INBOX_EVENTS.includes(context.event)) {
+        sends.push(this.writeInbox(recipients, context.event, message));
+      }
+
+      if (channels.includes("push")) {
+        const users = await this.preferenceService.filterRecipients(
+          recipients,
+          { ...context, channel: "push" },
+        );
+        sends.push(this.sendPush(users, message));
+      }
+
+      if (channels.includes("sms")) {
+        const users = await this.preferenceService.filterRecipients(
+          recipients,
+          { ...context, channel: "sms" },
+        );
+        // Being on call is the opt-in for critical texts
+        if (onCall && !users.some((user) => user.id === onCall.id)) {
+          users.push(onCall);
+        }
+        sends.push(
+          Promise.all(
+            users
+              .filter((user) => user.phone)
+              .map((user) =>
+                this.deliver("sms", user, user.phone!, () =>
+                  this.channels.sms.send(user.phone!, message),
+                ),
+              ),
+          ),
+        );
+      }
+
+      if (channels.includes("slack")) {
+        sends.push(this.postToSlack(message, onCall));
+      }
+
+      return (await Promise.all(sends)).flat();
+    } catch (error) {
+      console.error(`Failed to dispatch "${message.title}":`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Push to every browser the users registered, dropping subscriptions the
+   * push service reports as gone
+   */
+  private async sendPush(
+    users: User[],
+    message: ChannelMessage,
+  ): Promise<NotificationDelivery[]> {
+    const subscriptions = await this.pushSubscriptionDAO.findByUserIds(
+      users.map((user) => user.id),
+    );
+
+    return Promise.all(
+      subscriptions.map(async (subscription) => {
+        const recipient =
+          users.find((user) => user.id === subscription.user_id) ?? null;
+        const delivery = await this.deliver(
+          "push",
+          recipient,
+          subscription.endpoint,
+          () =>
+            this.channels.push.send(
+              {
+                endpoint: subscription.endpoint,
+                keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+              },
+              message,
+            ),
+        );
+
+        if (delivery.error === "Push subscription expired") {
+          await this.pushSubscriptionDAO
+            .softDelete(subscription.id)
+            .catch((err) =>
+              console.error("Failed to remove push subscription:", err),
+            );
+        }
+
+        return delivery;
+      }),
     );
   }
 
+  /**
+   * Add the notification to each recipient's in-app inbox
+   */
+  private async writeInbox(
+    users: User[],
+    event: NotificationEvent,
+    message: ChannelMessage,
+  ): Promise<NotificationDelivery[]> {
+    // Links are stored as app paths so they work from any host
+    const link = message.url ? new URL(message.url).pathname : null;
+
+    return Promise.all(
+      users.map((user) =>
+        this.deliver("in_app", user, "inbox", async () => {
+          const [notification] = await this.notificationDAO.createMany([
+            {
+              user_id: user.id,
+              event,
+              title: message.title,
+              body: message.body,
+              link,
+            },
+          ]);
+          return notification;
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Post to the tenant's Slack channel, if it has configured one
+   */
+  private async postToSlack(
+    message: ChannelMessage,
+    onCall: User | null,
+  ): Promise<NotificationDelivery[]> {
+    const { slack_webhook_url } = await this.preferenceService.getPolicy();
+    if (!slack_webhook_url) return [];
+
+    const delivery = await this.deliver("slack", null, "slack", () =>
+      this.channels.slack.send(slack_webhook_url, {
+        ...message,
+        body: onCall
+          ? `${message.body}\nOn call: ${onCall.full_name}`
+          : message.body,
+      }),
+    );
+    return [delivery];
+  }
+
+  /**
+   * Run one send and report how it went
+   */
+  private async deliver(
+    channel: NotificationChannel,
+    recipient: Pick<User, "id"> | null,
+    address: string,
+    send: () => Promise<{ id: string } | null | void>,
+  ): Promise<NotificationDelivery> {
+    const delivery = {
+      channel,
+      recipient_id: recipient?.id ?? null,
+      address,
+    };
+
+    try {
+      const result = await send();
+      return {
+        ...delivery,
+        status: "sent",
+        provider_message_id: result?.id ?? null,
+        error: null,
+      };
+    } catch (error) {
+      console.error(`Failed to send ${channel} notification:`, error);
+      return {
+        ...delivery,
+        status: "failed",
+        provider_message_id: null,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Primary on-call for a location, falling back to the tenant-wide rotation
+   */
+  private async findOnCallUser(
+    locationId: string | null,
+  ): Promise<User | null> {
+    const schedule =
+      (locationId && (await this.onCallService.getCurrentOnCall(locationId))) ||
+      (await this.onCallService.getCurrentOnCall(null));
+    if (!schedule) return null;
+
+    return this.userDAO.findById(schedule.user_id);
+  }
+
   /**
    * Get all admin users for a tenant (for critical notifications)
    */
@@ -231,3 +1087,31 @@ export class NotificationService {
     return await this.userDAO.findByRole("manager");
   }
 }
+
+function isCriticalTicket(ticket: Ticket): boolean {
+  return ticket.is_emergency || ticket.priority === "critical";
+}
+
+function ticketSeverity(ticket: Ticket): ChannelSeverity {
+  if (isCriticalTicket(ticket)) return "critical";
+  return ticket.priority === "high" ? "warning" : "info";
+}
+
+function formatStatus(status: string): string {
+  return status.replace(/_/g, " ");
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString();
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount);
+}
@@ -85,10 +85,21 @@ export class OnCallScheduleService {
   /**
    * Get current on-call person (optionally for a specific location)
    */
-  async getCurrentOnCall(locationId?: string): Promise<OnCallSchedule | null> {
+  async getCurrentOnCall(
+    locationId?: string | null,
+  ): Promise<OnCallSchedule | null> {
     return this.scheduleDAO.findCurrentOnCall(locationId);
   }
 
+  /**
+   * Get current backup on-call person (optionally for a specific location)
+   */
+  async getCurrentBackupOnCall(
+    locationId?: string | null,
+  ): Promise<OnCallSchedule | null> {
+    return this.scheduleDAO.findCurrentOnCall(locationId, false);
+  }
+
   // ============================================================
   // COMMANDS
   // ============================================================
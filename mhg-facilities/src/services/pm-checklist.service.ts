@@ -0,0 +1,236 @@
+import { PMCompletionDAO } from "@/dao/pm-completion.dao";
+import { PMScheduleDAO } from "@/dao/pm-schedule.dao";
+import { PMTemplateDAO } from "@/dao/pm-template.dao";
+import type {
+  PMChecklist,
+  PMChecklistItem,
+  PMChecklistItemResult,
+  PMChecklistResults,
+} from "@/types";
+
+export interface ChecklistEvaluation {
+  /** Required items without an answer */
+  missing: PMChecklistItem[];
+  /** Answered items that failed (pass/fail = fail, reading out of range) */
+  failed: PMChecklistItem[];
+  complete: boolean;
+}
+
+export interface TicketChecklist {
+  occurrence_id: string;
+  schedule_id: string;
+  scheduled_date: string;
+  completed: boolean;
+  /** Meter updated by reading items flagged meter_reading */
+  meter_id: string | null;
+  checklist: PMChecklist;
+  results: PMChecklistResults;
+  evaluation: ChecklistEvaluation;
+}
+
+/**
+ * PM Checklist Service
+ * Runs the template checklist on tickets generated from a PM schedule.
+ *
+ * Progress is saved on the occurrence's pm_completions row while the work
+ * is in progress, so the results survive page reloads and are already in
+ * place when the ticket is completed.
+ */
+export class PMChecklistService {
+  constructor(
+    private completionDAO = new PMCompletionDAO(),
+    private scheduleDAO = new PMScheduleDAO(),
+    private templateDAO = new PMTemplateDAO(),
+  ) {}
+
+  /**
+   * Checklist and saved progress for a PM-generated ticket.
+   * Returns null when the ticket has no checklist to run.
+   */
+  async getTicketChecklist(ticketId: string): Promise<TicketChecklist | null> {
+    const occurrence = await this.completionDAO.findByTicket(ticketId);
+    if (!occurrence?.schedule_id) return null;
+
+    const schedule = await this.scheduleDAO.findById(occurrence.schedule_id);
+    if (!schedule?.template_id) return null;
+
+    const template = await this.templateDAO.findById(schedule.template_id);
+    const checklist = this.parseChecklist(template?.checklist);
+    if (checklist.items.length === 0) return null;
+
+    const results = this.parseResults(occurrence.checklist_results);
+
+    return {
+      occurrence_id: occurrence.id,
+      schedule_id: occurrence.schedule_id,
+      scheduled_date: occurrence.scheduled_date,
+      completed: !!occurrence.completed_date,
+      meter_id: schedule.meter_id,
+      checklist,
+      results,
+      evaluation: this.evaluate(checklist, results),
+    };
+  }
+
+  /**
+   * Save in-progress answers. Only items on the checklist are kept, and
+   * follow-up tickets already raised for an item are preserved.
+   */
+  async saveTicketChecklistProgress(
+    ticketId: string,
+    results: PMChecklistResults,
+  ): Promise<TicketChecklist> {
+    const current = await this.getTicketChecklist(ticketId);
+    if (!current) {
+      throw new Error("Ticket has no PM checklist");
+    }
+    if (current.completed) {
+      throw new Error(
+        "Cannot update checklist: PM occurrence is already completed",
+      );
+    }
+
+    const merged = this.mergeResults(
+      current.checklist,
+      current.results,
+      results,
+    );
+    await this.completionDAO.update(current.occurrence_id, {
+      checklist_results: merged,
+    });
+
+    return {
+      ...current,
+      results: merged,
+      evaluation: this.evaluate(current.checklist, merged),
+    };
+  }
+
+  /**
+   * Overlay `incoming` answers on `saved`, dropping unknown items
+   */
+  mergeResults(
+    checklist: PMChecklist,
+    saved: PMChecklistResults,
+    incoming?: PMChecklistResults | null,
+  ): PMChecklistResults {
+    const savedById = new Map(saved.items.map((r) => [r.item_id, r]));
+    const incomingById = new Map(
+      (incoming?.items ?? []).map((r) => [r.item_id, r]),
+    );
+
+    const items: PMChecklistItemResult[] = [];
+    for (const item of checklist.items) {
+      const previous = savedById.get(item.id);
+      const next = incomingById.get(item.id);
+      if (!previous && !next) continue;
+
+      items.push({
+        ...previous,
+        ...next,
+        item_id: item.id,
+        follow_up_ticket_id:
+          previous?.follow_up_ticket_id ?? next?.follow_up_ticket_id ?? null,
+      });
+    }
+
+    return { items };
+  }
+
+  /**
+   * Check answers against the checklist
+   */
+  evaluate(
+    checklist: PMChecklist,
+    results: PMChecklistResults,
+  ): ChecklistEvaluation {
+    const byId = new Map(results.items.map((r) => [r.item_id, r]));
+    const missing: PMChecklistItem[] = [];
+    const failed: PMChecklistItem[] = [];
+
+    for (const item of checklist.items) {
+      const result = byId.get(item.id);
+      if (!this.isAnswered(item, result)) {
+        if (item.required) missing.push(item);
+        continue;
+      }
+      if (this.isFailed(item, result!)) failed.push(item);
+    }
+
+    return { missing, failed, complete: missing.length === 0 };
+  }
+
+  /**
+   * Read a stored template checklist. Templates created before typed
+   * checklists stored a plain list of labels; those become required
+   * pass/fail items.
+   */
+  parseChecklist(value: unknown): PMChecklist {
+    const raw = Array.isArray(value)
+      ? value
+      : value && typeof value === "object" && "items" in value
+        ? (value as { items: unknown }).items
+        : null;
+    if (!Array.isArray(raw)) return { items: [] };
+
+    const items = raw.flatMap((entry, index): PMChecklistItem[] => {
+      if (typeof entry === "string") {
+        return [
+          {
+            id: `item-${index + 1}`,
+            label: entry,
+            type: "pass_fail",
+            required: true,
+          },
+        ];
+      }
+      if (entry && typeof entry === "object" && "id" in entry) {
+        return [entry as PMChecklistItem];
+      }
+      return [];
+    });
+
+    return { items };
+  }
+
+  // ============================================================
+  // HELPERS
+  // ============================================================
+
+  private parseResults(value: PMChecklistResults | null): PMChecklistResults {
+    return Array.isArray(value?.items) ? value : { items: [] };
+  }
+
+  private isAnswered(
+    item: PMChecklistItem,
+    result: PMChecklistItemResult | undefined,
+  ): boolean {
+    if (!result) return false;
+
+    switch (item.type) {
+      case "pass_fail":
+        return typeof result.passed === "boolean";
+      case "reading":
+        return typeof result.value === "number" && isFinite(result.value);
+      case "text":
+        return !!result.text?.trim();
+      case "photo":
+        return (result.attachment_ids?.length ?? 0) > 0;
+    }
+  }
+
+  private isFailed(
+    item: PMChecklistItem,
+    result: PMChecklistItemResult,
+  ): boolean {
+    if (item.type === "pass_fail") return result.passed === false;
+    if (item.type === "reading") {
+      const value = result.value as number;
+      return (
+        (item.min != null && value < item.min) ||
+        (item.max != null && value > item.max)
+      );
+    }
+    return false;
+  }
+}
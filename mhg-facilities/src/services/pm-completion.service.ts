@@ -1,4 +1,5 @@
 import { PMCompletionDAO } from "@/dao/pm-completion.dao";
+import type { PMChecklistResults } from "@/types";
 
 interface PMCompletion {
   id: string;
@@ -7,7 +8,7 @@ interface PMCompletion {
   scheduled_date: string;
   completed_date: string | null;
   completed_by: string | null;
-  checklist_results: Record<string, unknown> | null;
+  checklist_results: PMChecklistResults | null;
   notes: string | null;
   created_at: string;
 }
@@ -19,7 +20,7 @@ export class PMCompletionService {
     scheduleId: string,
     ticketId: string,
     userId: string,
-    checklistResults?: Record<string, unknown>,
+    checklistResults?: PMChecklistResults,
   ): Promise<PMCompletion> {
     const today = new Date().toISOString().split("T")[0];
 
@@ -5,11 +5,29 @@ import {
 } from "@/dao/pm-schedule.dao";
 import { PMTemplateDAO } from "@/dao/pm-template.dao";
 import { PMCompletionDAO } from "@/dao/pm-completion.dao";
+import { UserDAO } from "@/dao/user.dao";
+import { AssetDAO } from "@/dao/asset.dao";
+import { LocationDAO } from "@/dao/location.dao";
+import { AssetMeterDAO } from "@/dao/asset-meter.dao";
 import { TicketService } from "./ticket.service";
-import type { Database } from "@/types/database";
+import { NotificationOutboxService } from "./notification-outbox.service";
+import { AssetHistoryService } from "./asset-history.service";
+import type {
+  Database,
+  PMSchedulingMode,
+  PMTriggerType,
+} from "@/types/database";
+import type {
+  AssetMeterRow as AssetMeter,
+  PMCompletionRow as PMCompletion,
+  PMTemplateRow,
+} from "@/types/database-extensions";
+import type { PMChecklistResults } from "@/types";
 
 type PMSchedule = Database["public"]["Tables"]["pm_schedules"]["Row"];
+type PMScheduleUpdate = Database["public"]["Tables"]["pm_schedules"]["Update"];
 type PMFrequency = Database["public"]["Enums"]["pm_frequency"];
+type User = Database["public"]["Tables"]["users"]["Row"];
 
 // Re-export enriched type for API consumers
 export type { PMScheduleWithRelations };
@@ -20,7 +38,12 @@ interface CreatePMScheduleInput {
   description?: string | null;
   asset_id?: string | null;
   location_id?: string | null;
-  frequency: PMFrequency;
+  /** Required unless trigger_type is "meter" */
+  frequency?: PMFrequency | null;
+  scheduling_mode?: PMSchedulingMode;
+  trigger_type?: PMTriggerType;
+  meter_id?: string | null;
+  meter_interval?: number | null;
   day_of_week?: number | null;
   day_of_month?: number | null;
   month_of_year?: number | null;
@@ -35,7 +58,11 @@ interface UpdatePMScheduleInput {
   description?: string | null;
   asset_id?: string | null;
   location_id?: string | null;
-  frequency?: PMFrequency;
+  frequency?: PMFrequency | null;
+  scheduling_mode?: PMSchedulingMode;
+  trigger_type?: PMTriggerType;
+  meter_id?: string | null;
+  meter_interval?: number | null;
   day_of_week?: number | null;
   day_of_month?: number | null;
   month_of_year?: number | null;
@@ -55,12 +82,50 @@ interface PMStats {
   completed_this_month: number;
 }
 
+export interface GenerateTicketsOptions {
+  /** Backfill from this date (YYYY-MM-DD); defaults to each schedule's next_due_date */
+  from?: string;
+  /** Generate occurrences up to this date (YYYY-MM-DD); defaults to today */
+  to?: string;
+}
+
+export type PMGenerationStatus = "generated" | "skipped" | "failed";
+
+export interface PMGenerationResult {
+  schedule_id: string;
+  scheduled_date: string;
+  status: PMGenerationStatus;
+  ticket_id: string | null;
+  message: string;
+}
+
+export interface PMMeterStatus {
+  meter_id: string;
+  meter_name: string;
+  unit: AssetMeter["unit"];
+  current_reading: number;
+  /** Reading at which the next occurrence is due */
+  due_at_reading: number;
+  remaining: number;
+  is_due: boolean;
+}
+
+interface GenerationContext {
+  location_id: string;
+  submitted_by: string;
+  template: PMTemplateRow | null;
+}
+
+// Guards a single run against flooding the queue, e.g. a daily schedule
+// that was left dormant for months
+const MAX_OCCURRENCES_PER_RUN = 31;
+
 interface PMCalendarItem {
   id: string;
   name: string;
   asset_name: string | null;
   location_name: string | null;
-  frequency: PMFrequency;
+  frequency: PMFrequency | null;
   next_due_date: string | null;
 }
 
@@ -70,6 +135,12 @@ export class PMScheduleService {
     private templateDAO = new PMTemplateDAO(),
     private ticketService = new TicketService(),
     private completionDAO = new PMCompletionDAO(),
+    private userDAO = new UserDAO(),
+    private assetDAO = new AssetDAO(),
+    private locationDAO = new LocationDAO(),
+    private meterDAO = new AssetMeterDAO(),
+    private outboxService = new NotificationOutboxService(),
+    private assetHistoryService = new AssetHistoryService(),
   ) {}
 
   /**
@@ -207,20 +278,42 @@ export class PMScheduleService {
       }
     }
 
-    const nextDueDate = this.calculateNextDueDateFromFrequency(
-      data.frequency,
-      data.day_of_week ?? null,
-      data.day_of_month ?? null,
-      data.month_of_year ?? null,
+    const triggerType = data.trigger_type ?? "calendar";
+    const frequency = data.frequency ?? null;
+    const meter = await this.validateTrigger(
+      triggerType,
+      frequency,
+      data.meter_id ?? null,
+      data.meter_interval ?? null,
+      data.asset_id ?? null,
     );
 
+    const nextDueDate =
+      frequency && triggerType !== "meter"
+        ? this.calculateNextDueDateFromFrequency(
+            frequency,
+            data.day_of_week ?? null,
+            data.day_of_month ?? null,
+            data.month_of_year ?? null,
+          )
+        : null;
+
     return await this.scheduleDAO.create({
       template_id: data.template_id || null,
       name: data.name.trim(),
       description: data.description?.trim() || null,
       asset_id: data.asset_id || null,
       location_id: data.location_id || null,
-      frequency: data.frequency,
+      frequency: triggerType === "meter" ? null : frequency,
+      scheduling_mode: this.getSchedulingMode(
+        triggerType,
+        data.scheduling_mode ?? "fixed",
+      ),
+      trigger_type: triggerType,
+      meter_id: meter?.id ?? null,
+      meter_interval: meter ? data.meter_interval : null,
+      // The first interval counts from the reading at creation
+      meter_last_service_reading: meter?.current_reading ?? null,
       day_of_week: data.day_of_week || null,
       day_of_month: data.day_of_month || null,
       month_of_year: data.month_of_year || null,
@@ -270,7 +363,47 @@ export class PMScheduleService {
       throw new Error("Cannot specify both asset_id and location_id");
     }
 
+    const triggerChanged =
+      data.trigger_type !== undefined ||
+      data.frequency !== undefined ||
+      data.meter_id !== undefined ||
+      data.meter_interval !== undefined ||
+      data.asset_id !== undefined;
+    const finalTrigger = data.trigger_type ?? existing.trigger_type;
+    const finalFrequency =
+      data.frequency !== undefined ? data.frequency : existing.frequency;
+
     const updateData: Record<string, unknown> = {};
+    if (triggerChanged) {
+      const finalMeterId =
+        data.meter_id !== undefined ? data.meter_id : existing.meter_id;
+      const finalInterval =
+        data.meter_interval !== undefined
+          ? data.meter_interval
+          : existing.meter_interval;
+      const meter = await this.validateTrigger(
+        finalTrigger,
+        finalFrequency,
+        finalMeterId,
+        finalInterval,
+        finalAssetId,
+      );
+
+      updateData.trigger_type = finalTrigger;
+      updateData.meter_id = meter?.id ?? null;
+      updateData.meter_interval = meter ? finalInterval : null;
+      if (!meter) {
+        updateData.meter_last_service_reading = null;
+      } else if (meter.id !== existing.meter_id) {
+        // A different meter starts counting from its current reading
+        updateData.meter_last_service_reading = meter.current_reading;
+      }
+      if (finalTrigger === "meter") {
+        updateData.frequency = null;
+        updateData.next_due_date = null;
+      }
+    }
+
     if (data.template_id !== undefined)
       updateData.template_id = data.template_id;
     if (data.name !== undefined) updateData.name = data.name.trim();
@@ -279,7 +412,13 @@ export class PMScheduleService {
     if (data.asset_id !== undefined) updateData.asset_id = data.asset_id;
     if (data.location_id !== undefined)
       updateData.location_id = data.location_id;
-    if (data.frequency !== undefined) updateData.frequency = data.frequency;
+    if (data.frequency !== undefined && finalTrigger !== "meter")
+      updateData.frequency = data.frequency;
+    if (data.scheduling_mode !== undefined || data.trigger_type !== undefined)
+      updateData.scheduling_mode = this.getSchedulingMode(
+        finalTrigger,
+        data.scheduling_mode ?? existing.scheduling_mode,
+      );
     if (data.day_of_week !== undefined)
       updateData.day_of_week = data.day_of_week;
     if (data.day_of_month !== undefined)
@@ -296,16 +435,19 @@ export class PMScheduleService {
       updateData.last_generated_at = data.last_generated_at;
 
     // If next_due_date is explicitly provided, use it; otherwise recalculate if frequency params changed
-    if (data.next_due_date !== undefined) {
+    if (finalTrigger === "meter" || !finalFrequency) {
+      // Meter-only schedules have no calendar due date
+    } else if (data.next_due_date !== undefined) {
       updateData.next_due_date = data.next_due_date;
     } else if (
       data.frequency !== undefined ||
+      data.trigger_type !== undefined ||
       data.day_of_week !== undefined ||
       data.day_of_month !== undefined ||
       data.month_of_year !== undefined
     ) {
       const newNextDueDate = this.calculateNextDueDateFromFrequency(
-        data.frequency || existing.frequency,
+        finalFrequency,
         data.day_of_week !== undefined
           ? data.day_of_week
           : existing.day_of_week,
@@ -339,61 +481,650 @@ export class PMScheduleService {
     return await this.scheduleDAO.update(id, { is_active: false });
   }
 
-  async generateTickets(): Promise<
-    Array<{ schedule_id: string; message: string }>
-  > {
-    const due = await this.scheduleDAO.findDueToday();
+  /**
+   * Generate work orders for every due PM occurrence.
+   *
+   * Each occurrence is reserved as a pending pm_completions row
+   * (schedule + scheduled_date is unique) before its ticket is created, so
+   * re-runs and overlapping backfills never produce duplicates. Schedules
+   * without an assignee still generate; the ticket goes to the schedule or
+   * template vendor, or through normal auto-routing.
+   */
+  async generateTickets(
+    options: GenerateTicketsOptions = {},
+  ): Promise<PMGenerationResult[]> {
+    const today = this.toDateString(new Date());
+    const to = options.to ?? today;
+
+    if (to > today) {
+      throw new Error("Cannot generate PM occurrences after today");
+    }
+    if (options.from && options.from > to) {
+      throw new Error("Cannot backfill: start date is after end date");
+    }
+
+    const schedules = await this.scheduleDAO.findActive();
+    const results: PMGenerationResult[] = [];
+
+    // Fetched at most once per run
+    let admins: User[] | null = null;
+    const getAdmins = async () => {
+      admins ??= await this.userDAO.findAdmins();
+      return admins;
+    };
+
+    for (const schedule of schedules) {
+      const dates = this.getOccurrenceDates(schedule, options.from, to);
+      if (dates.length === 0) continue;
+
+      // A floating schedule's next date depends on when the open
+      // occurrence is completed, so it waits for that first
+      if (schedule.scheduling_mode === "floating") {
+        const open = await this.completionDAO.findPendingBySchedule(
+          schedule.id,
+        );
+        if (open) {
+          results.push({
+            schedule_id: schedule.id,
+            scheduled_date: dates[0],
+            status: "skipped",
+            ticket_id: open.ticket_id,
+            message: `Waiting for the ${open.scheduled_date} occurrence to be completed`,
+          });
+          continue;
+        }
+      }
+
+      let context: GenerationContext;
+      try {
+        context = await this.getGenerationContext(schedule, getAdmins);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Unknown error";
+        results.push(
+          ...dates.map((scheduled_date) => ({
+            schedule_id: schedule.id,
+            scheduled_date,
+            status: "failed" as const,
+            ticket_id: null,
+            message,
+          })),
+        );
+        continue;
+      }
+
+      let lastHandled: string | null = null;
+      for (const date of dates) {
+        const result = await this.generateOccurrence(schedule, date, context);
+        results.push(result);
+        // Stop at the first failure so next_due_date never moves past an
+        // occurrence that still needs a ticket
+        if (result.status === "failed") break;
+        lastHandled = date;
+      }
+
+      if (lastHandled) {
+        const nextDueDate = this.calculateNextDueDate(schedule, lastHandled);
+        // A backfill of older dates must not pull next_due_date backwards
+        if (!schedule.next_due_date || nextDueDate > schedule.next_due_date) {
+          await this.scheduleDAO.update(schedule.id, {
+            next_due_date: nextDueDate,
+            last_generated_at: new Date().toISOString(),
+          });
+        }
+      }
+    }
+
+    // Meter readings have no history to backfill
+    if (!options.from) {
+      results.push(...(await this.generateMeterTriggered()));
+    }
+
+    return results;
+  }
+
+  /**
+   * Generate occurrences for meter-triggered schedules whose meter has
+   * advanced by at least meter_interval since the last service.
+   * The occurrence is dated today; a schedule with an open occurrence
+   * waits for it to be completed.
+   */
+  async generateMeterTriggered(
+    meterId?: string,
+  ): Promise<PMGenerationResult[]> {
+    const today = this.toDateString(new Date());
+    const schedules = await this.scheduleDAO.findActiveMeterTriggered(meterId);
+    const results: PMGenerationResult[] = [];
+
+    let admins: User[] | null = null;
+    const getAdmins = async () => {
+      admins ??= await this.userDAO.findAdmins();
+      return admins;
+    };
 
-    const tickets: Array<{ schedule_id: string; message: string }> = [];
-    for (const schedule of due) {
-      tickets.push({
-        schedule_id: schedule.id,
-        message: `Generated ticket for PM schedule: ${schedule.name}`,
-      });
+    for (const schedule of schedules) {
+      if (!schedule.meter_id) continue;
+
+      const meter = await this.meterDAO.findById(schedule.meter_id);
+      if (!meter) continue;
+      const status = this.getMeterStatus(schedule, meter);
+      if (!status?.is_due) continue;
+
+      const open = await this.completionDAO.findPendingBySchedule(schedule.id);
+      if (open) {
+        results.push({
+          schedule_id: schedule.id,
+          scheduled_date: today,
+          status: "skipped",
+          ticket_id: open.ticket_id,
+          message: `Waiting for the ${open.scheduled_date} occurrence to be completed`,
+        });
+        continue;
+      }
+
+      let context: GenerationContext;
+      try {
+        context = await this.getGenerationContext(schedule, getAdmins);
+      } catch (error) {
+        results.push({
+          schedule_id: schedule.id,
+          scheduled_date: today,
+          status: "failed",
+          ticket_id: null,
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+        continue;
+      }
+
+      const result = await this.generateOccurrence(
+        schedule,
+        today,
+        context,
+        `Meter "${meter.name}" reached ${status.current_reading} ${meter.unit} (due at ${status.due_at_reading}).`,
+      );
+      results.push(result);
+
+      if (result.status === "generated") {
+        await this.scheduleDAO.update(schedule.id, {
+          last_generated_at: new Date().toISOString(),
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Meter progress for a meter-triggered schedule, or null for calendar
+   * schedules and schedules on a different meter
+   */
+  getMeterStatus(
+    schedule: PMSchedule,
+    meter: AssetMeter,
+  ): PMMeterStatus | null {
+    if (
+      schedule.trigger_type === "calendar" ||
+      schedule.meter_id !== meter.id ||
+      !schedule.meter_interval
+    ) {
+      return null;
+    }
+
+    const currentReading = Number(meter.current_reading);
+    const dueAt =
+      Number(schedule.meter_last_service_reading ?? 0) +
+      Number(schedule.meter_interval);
+
+    return {
+      meter_id: meter.id,
+      meter_name: meter.name,
+      unit: meter.unit,
+      current_reading: currentReading,
+      due_at_reading: dueAt,
+      remaining: Math.max(dueAt - currentReading, 0),
+      is_due: currentReading >= dueAt,
+    };
+  }
+
+  /**
+   * Meter progress for a schedule by id
+   */
+  async getScheduleMeterStatus(
+    scheduleId: string,
+  ): Promise<PMMeterStatus | null> {
+    const schedule = await this.scheduleDAO.findById(scheduleId);
+    if (!schedule) {
+      throw new Error("PM schedule not found");
     }
+    if (!schedule.meter_id) return null;
 
-    return tickets;
+    const meter = await this.meterDAO.findById(schedule.meter_id);
+    return meter ? this.getMeterStatus(schedule, meter) : null;
   }
 
+  /**
+   * Record a PM completion by hand.
+   * Generated tickets complete their own occurrence; any other ticket is
+   * recorded against the schedule's current due date.
+   */
   async markCompleted(
     scheduleId: string,
     ticketId: string,
     userId: string,
-    checklistResults?: Record<string, unknown>,
-  ) {
+    checklistResults?: PMChecklistResults,
+  ): Promise<PMCompletion> {
     const schedule = await this.scheduleDAO.findById(scheduleId);
     if (!schedule) {
       throw new Error("PM schedule not found");
     }
 
-    const today = new Date().toISOString().split("T")[0];
+    const generated = await this.completionDAO.findByTicket(ticketId);
+    if (generated && generated.schedule_id === scheduleId) {
+      return this.completeOccurrence(
+        schedule,
+        generated,
+        userId,
+        new Date(),
+        checklistResults,
+      );
+    }
 
-    const completion = await this.completionDAO.create({
-      schedule_id: scheduleId,
-      ticket_id: ticketId,
-      scheduled_date: today,
-      completed_date: today,
-      completed_by: userId,
-      checklist_results: checklistResults || null,
-    });
+    const today = this.toDateString(new Date());
+    const scheduledDate = schedule.next_due_date ?? today;
 
-    const nextDueDate = this.calculateNextDueDate(schedule);
+    const existing = await this.completionDAO.findByScheduleAndDate(
+      scheduleId,
+      scheduledDate,
+    );
+    if (existing?.completed_date) {
+      throw new Error(
+        `Cannot complete: the ${scheduledDate} occurrence is already recorded`,
+      );
+    }
 
-    await this.scheduleDAO.update(scheduleId, {
-      next_due_date: nextDueDate,
-      last_generated_at: new Date().toISOString(),
-    });
+    const occurrence =
+      existing ??
+      (await this.completionDAO.create({
+        schedule_id: scheduleId,
+        ticket_id: ticketId,
+        scheduled_date: scheduledDate,
+      }));
+
+    return this.completeOccurrence(
+      schedule,
+      { ...occurrence, ticket_id: ticketId },
+      userId,
+      new Date(),
+      checklistResults,
+    );
+  }
 
-    return completion;
+  /**
+   * Record the PM occurrence behind a completed or closed ticket.
+   * Returns null when the ticket was not generated from a PM schedule.
+   * Safe to call again once recorded (e.g. complete, then close).
+   */
+  async recordTicketCompletion(
+    ticketId: string,
+    userId: string,
+    options: {
+      completedAt?: string | null;
+      checklistResults?: PMChecklistResults;
+    } = {},
+  ): Promise<PMCompletion | null> {
+    const occurrence = await this.completionDAO.findByTicket(ticketId);
+    if (!occurrence?.schedule_id) return null;
+    if (occurrence.completed_date) return occurrence;
+
+    const schedule = await this.scheduleDAO.findById(occurrence.schedule_id);
+    const completedAt = options.completedAt
+      ? new Date(options.completedAt)
+      : new Date();
+
+    if (!schedule) {
+      // Schedule was deleted; keep the record without rolling anything forward
+      return this.completionDAO.update(occurrence.id, {
+        completed_date: this.toDateString(completedAt),
+        completed_by: userId,
+        checklist_results:
+          options.checklistResults ?? occurrence.checklist_results,
+      });
+    }
+
+    return this.completeOccurrence(
+      schedule,
+      occurrence,
+      userId,
+      completedAt,
+      options.checklistResults,
+    );
   }
 
-  calculateNextDueDate(schedule: PMSchedule): string {
+  /**
+   * Next due date after `fromDate` (YYYY-MM-DD), or after today
+   */
+  calculateNextDueDate(schedule: PMSchedule, fromDate?: string): string {
+    if (!schedule.frequency) {
+      throw new Error("PM schedule has no calendar frequency");
+    }
+
     return this.calculateNextDueDateFromFrequency(
       schedule.frequency,
       schedule.day_of_week,
       schedule.day_of_month,
       schedule.month_of_year,
+      // Midday keeps the calendar date stable across server timezones
+      fromDate ? new Date(`${fromDate}T12:00:00Z`) : new Date(),
+    );
+  }
+
+  // ============================================================
+  // GENERATION HELPERS
+  // ============================================================
+
+  /**
+   * Occurrence dates to generate, oldest first.
+   * Without a range a fixed schedule continues its own sequence from
+   * next_due_date. A backfill replays the sequence from the schedule's
+   * creation so occurrences skipped in the past can be recovered.
+   */
+  private getOccurrenceDates(
+    schedule: PMSchedule,
+    from: string | undefined,
+    to: string,
+  ): string[] {
+    // Meter-only schedules are generated from readings instead
+    if (schedule.trigger_type === "meter" || !schedule.frequency) return [];
+
+    // Floating schedules only ever have their current due date; there is
+    // no fixed sequence to replay
+    if (schedule.scheduling_mode === "floating") {
+      const due = schedule.next_due_date;
+      return due && due <= to && (!from || due >= from) ? [due] : [];
+    }
+
+    let date = from
+      ? this.calculateNextDueDate(
+          schedule,
+          this.toDateString(new Date(schedule.created_at)),
+        )
+      : schedule.next_due_date;
+
+    const dates: string[] = [];
+    while (date && date <= to && dates.length < MAX_OCCURRENCES_PER_RUN) {
+      if (!from || date >= from) dates.push(date);
+
+      const next = this.calculateNextDueDate(schedule, date);
+      if (next <= date) break;
+      date = next;
+    }
+
+    return dates;
+  }
+
+  private async generateOccurrence(
+    schedule: PMSchedule,
+    scheduledDate: string,
+    context: GenerationContext,
+    /** Appended to the ticket description, e.g. why a meter triggered it */
+    note?: string,
+  ): Promise<PMGenerationResult> {
+    const result = (
+      status: PMGenerationStatus,
+      ticketId: string | null,
+      message: string,
+    ): PMGenerationResult => ({
+      schedule_id: schedule.id,
+      scheduled_date: scheduledDate,
+      status,
+      ticket_id: ticketId,
+      message,
+    });
+
+    const existing = await this.completionDAO.findByScheduleAndDate(
+      schedule.id,
+      scheduledDate,
+    );
+    if (existing) {
+      return result("skipped", existing.ticket_id, "Already generated");
+    }
+
+    const pending = await this.completionDAO.createPending(
+      schedule.id,
+      scheduledDate,
     );
+    if (!pending) {
+      // Another run reserved this occurrence first
+      return result("skipped", null, "Already generated");
+    }
+
+    const { template } = context;
+    const vendorId = schedule.vendor_id ?? template?.default_vendor_id ?? null;
+    const description =
+      schedule.description ||
+      template?.description ||
+      `Preventive maintenance task: ${schedule.name}`;
+
+    let ticketId: string;
+    try {
+      const ticket = await this.ticketService.createTicket({
+        title: `PM: ${schedule.name}`,
+        description: note ? `${description}\n\n${note}` : description,
+        location_id: context.location_id,
+        asset_id: schedule.asset_id,
+        priority: "medium",
+        is_emergency: false,
+        submitted_by: context.submitted_by,
+        due_date: scheduledDate,
+        // Without an assignee or vendor the ticket is auto-routed
+        routing:
+          schedule.assigned_to || vendorId
+            ? {
+                assigned_to: schedule.assigned_to,
+                vendor_id: vendorId,
+                reason: `Generated from PM schedule "${schedule.name}" for ${scheduledDate}`,
+              }
+            : undefined,
+      });
+      ticketId = ticket.id;
+    } catch (error) {
+      // Release the occurrence so the next run retries it
+      await this.completionDAO
+        .release(pending.id)
+        .catch((err) =>
+          console.error(`Failed to release PM occurrence ${pending.id}:`, err),
+        );
+      return result(
+        "failed",
+        null,
+        error instanceof Error ? error.message : "Unknown error",
+      );
+    }
+
+    await this.completionDAO.update(pending.id, { ticket_id: ticketId });
+
+    if (schedule.assigned_to) {
+      await this.outboxService
+        .enqueue("pm_due", {
+          schedule_id: schedule.id,
+          assignee_id: schedule.assigned_to,
+          due_date: scheduledDate,
+        })
+        .catch((err) =>
+          console.error("Failed to queue PM due notification:", err),
+        );
+    }
+
+    return result("generated", ticketId, "Work order generated");
+  }
+
+  /**
+   * Resolve the ticket location, template and submitter for a schedule.
+   * The submitter is the schedule assignee when active, otherwise the
+   * location manager, otherwise the first active admin.
+   */
+  private async getGenerationContext(
+    schedule: PMSchedule,
+    getAdmins: () => Promise<User[]>,
+  ): Promise<GenerationContext> {
+    let locationId = schedule.location_id;
+    if (!locationId && schedule.asset_id) {
+      const asset = await this.assetDAO.findById(schedule.asset_id);
+      locationId = asset?.location_id ?? null;
+    }
+    if (!locationId) {
+      throw new Error("PM schedule has no location to generate tickets for");
+    }
+
+    const template = schedule.template_id
+      ? await this.templateDAO.findById(schedule.template_id)
+      : null;
+
+    let submitter: User | null = null;
+    if (schedule.assigned_to) {
+      submitter = await this.userDAO.findById(schedule.assigned_to);
+    }
+    if (!submitter?.is_active) {
+      const location = await this.locationDAO.findById(locationId);
+      submitter = location?.manager_id
+        ? await this.userDAO.findById(location.manager_id)
+        : null;
+    }
+    if (!submitter?.is_active) {
+      const admins = await getAdmins();
+      submitter = admins.find((u) => u.is_active) ?? null;
+    }
+    if (!submitter) {
+      throw new Error("No active user available to submit PM tickets");
+    }
+
+    return {
+      location_id: locationId,
+      submitted_by: submitter.id,
+      template: template as PMTemplateRow | null,
+    };
+  }
+
+  /**
+   * Stamp an occurrence as done and roll the schedule forward.
+   * Fixed schedules step from the scheduled date, so a late completion
+   * doesn't drift the calendar; floating schedules restart the interval
+   * from the completion date. Meter-triggered schedules restart their
+   * meter interval from the meter's current reading.
+   */
+  private async completeOccurrence(
+    schedule: PMSchedule,
+    occurrence: PMCompletion,
+    userId: string,
+    completedAt: Date,
+    checklistResults?: PMChecklistResults,
+  ): Promise<PMCompletion> {
+    const completedDate = this.toDateString(completedAt);
+
+    const completion = await this.completionDAO.update(occurrence.id, {
+      ticket_id: occurrence.ticket_id,
+      completed_date: completedDate,
+      completed_by: userId,
+      // Fall back to results saved on the occurrence while the work was done
+      checklist_results: checklistResults ?? occurrence.checklist_results,
+    });
+
+    const updates: PMScheduleUpdate = {};
+
+    if (schedule.trigger_type !== "meter" && schedule.frequency) {
+      const isFloating = schedule.scheduling_mode === "floating";
+      const nextDueDate = this.calculateNextDueDate(
+        schedule,
+        isFloating ? completedDate : occurrence.scheduled_date,
+      );
+
+      // Generation already advances fixed schedules past each occurrence
+      if (
+        isFloating ||
+        !schedule.next_due_date ||
+        nextDueDate > schedule.next_due_date
+      ) {
+        updates.next_due_date = nextDueDate;
+      }
+    }
+
+    if (schedule.trigger_type !== "calendar" && schedule.meter_id) {
+      const meter = await this.meterDAO.findById(schedule.meter_id);
+      if (meter) {
+        updates.meter_last_service_reading = meter.current_reading;
+      }
+    }
+
+    if (Object.keys(updates).length > 0) {
+      await this.scheduleDAO.update(schedule.id, updates);
+    }
+
+    if (schedule.asset_id) {
+      try {
+        await this.assetHistoryService.recordPMCompletion(
+          schedule.asset_id,
+          completion.ticket_id,
+          schedule.name,
+          userId,
+          completedAt,
+        );
+      } catch (err) {
+        console.error(
+          `Failed to record asset history for PM completion ${completion.id}:`,
+          err,
+        );
+      }
+    }
+
+    return completion;
+  }
+
+  /**
+   * Check the frequency and meter fields required by a trigger type.
+   * Returns the schedule's meter, or null for calendar schedules.
+   */
+  private async validateTrigger(
+    triggerType: PMTriggerType,
+    frequency: PMFrequency | null,
+    meterId: string | null,
+    meterInterval: number | null,
+    assetId: string | null,
+  ): Promise<AssetMeter | null> {
+    if (triggerType !== "meter" && !frequency) {
+      throw new Error("Frequency is required for calendar schedules");
+    }
+    if (triggerType === "calendar") return null;
+
+    if (!meterId || !meterInterval || meterInterval <= 0) {
+      throw new Error(
+        "Meter and meter interval are required for meter-triggered schedules",
+      );
+    }
+
+    const meter = await this.meterDAO.findById(meterId);
+    if (!meter) {
+      throw new Error("Asset meter not found");
+    }
+    if (meter.asset_id !== assetId) {
+      throw new Error("Cannot use a meter from a different asset");
+    }
+
+    return meter;
+  }
+
+  /**
+   * Whichever-comes-first schedules float, so servicing on either trigger
+   * restarts both the calendar and the meter interval
+   */
+  private getSchedulingMode(
+    triggerType: PMTriggerType,
+    mode: PMSchedulingMode,
+  ): PMSchedulingMode {
+    return triggerType === "calendar_or_meter" ? "floating" : mode;
+  }
+
+  private toDateString(date: Date): string {
+    return date.toISOString().split("T")[0];
   }
 
   private calculateNextDueDateFromFrequency(
@@ -401,8 +1132,9 @@ export class PMScheduleService {
     dayOfWeek: number | null,
     dayOfMonth: number | null,
     monthOfYear: number | null,
+    from: Date = new Date(),
   ): string {
-    const now = new Date();
+    const now = new Date(from);
 
     switch (frequency) {
       case "daily":
@@ -1,5 +1,6 @@
 import { PMTemplateDAO } from "@/dao/pm-template.dao";
 import type { Database } from "@/types/database-extensions";
+import type { PMChecklist } from "@/types";
 
 type PMTemplate = Database["public"]["Tables"]["pm_templates"]["Row"];
 
@@ -7,7 +8,7 @@ interface CreatePMTemplateInput {
   name: string;
   description?: string | null;
   category?: string | null;
-  checklist?: Record<string, unknown> | null;
+  checklist?: PMChecklist | null;
   estimated_duration_hours?: number | null;
   default_vendor_id?: string | null;
 }
@@ -16,7 +17,7 @@ interface UpdatePMTemplateInput {
   name?: string;
   description?: string | null;
   category?: string | null;
-  checklist?: Record<string, unknown> | null;
+  checklist?: PMChecklist | null;
   estimated_duration_hours?: number | null;
   default_vendor_id?: string | null;
 }
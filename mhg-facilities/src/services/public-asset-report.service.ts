@@ -0,0 +1,270 @@
+import { createHash } from "node:crypto";
+import { AssetDAO, type AssetWithRelations } from "@/dao/asset.dao";
+import { LocationDAO } from "@/dao/location.dao";
+import { TicketDAO } from "@/dao/ticket.dao";
+import { PublicRequestLogDAO } from "@/dao/public-request-log.dao";
+import { TicketService } from "./ticket.service";
+import { TicketAttachmentService } from "./ticket-attachment.service";
+import { getTenantId, runWithTenant } from "@/lib/tenant/context";
+import { validateFileUpload } from "@/lib/validations/file-upload";
+import type { PublicReportInput } from "@/lib/validations/ticket";
+import type { Database } from "@/types/database";
+
+type Ticket = Database["public"]["Tables"]["tickets"]["Row"];
+
+// Requests per client per window. Viewing is generous since a page load
+// and its duplicate checks count; reports are what we're protecting.
+export const PUBLIC_RATE_LIMITS = {
+  qr_view: { limit: 60, windowMinutes: 60 },
+  qr_report: { limit: 5, windowMinutes: 60 },
+} as const;
+
+export type PublicAction = keyof typeof PUBLIC_RATE_LIMITS;
+
+export const MAX_REPORT_PHOTOS = 5;
+
+// What an anonymous visitor may see of a ticket
+export type PublicTicketSummary = Pick<
+  Ticket,
+  "ticket_number" | "title" | "status" | "created_at"
+>;
+
+export interface PublicAssetView {
+  // Null when the code is a location's own
+  asset: {
+    id: string;
+    name: string;
+    status: string | null;
+    category_name: string | null;
+  } | null;
+  location: { id: string; name: string } | null;
+  open_tickets: PublicTicketSummary[];
+}
+
+export interface PublicReportResult {
+  ticket_number: number;
+  photos_uploaded: number;
+}
+
+/**
+ * Hashed client address used as the rate limit key, so raw IPs aren't
+ * stored
+ */
+export function getClientKey(headers: Headers): string {
+  const ip =
+    headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+    headers.get("x-real-ip") ||
+    "unknown";
+  return createHash("sha256").update(ip).digest("hex").slice(0, 32);
+}
+
+/**
+ * Public QR "report a problem" page for an asset's or a location's QR
+ * code. Runs without a session: the tenant is worked out from the QR code
+ * and everything else runs scoped to it.
+ */
+export class PublicAssetReportService {
+  constructor(
+    private assetDAO = new AssetDAO(),
+    private ticketDAO = new TicketDAO(),
+    private requestLogDAO = new PublicRequestLogDAO(),
+    private ticketService = new TicketService(),
+    private attachmentService = new TicketAttachmentService(),
+    private locationDAO = new LocationDAO(),
+  ) {}
+
+  /**
+   * Log a public request, throwing once the client is over its limit
+   */
+  async throttle(
+    action: PublicAction,
+    clientKey: string,
+    now: Date = new Date(),
+  ): Promise<void> {
+    const { limit, windowMinutes } = PUBLIC_RATE_LIMITS[action];
+    const since = new Date(now.getTime() - windowMinutes * 60000);
+
+    const count = await this.requestLogDAO.countSince(action, clientKey, since);
+    if (count >= limit) {
+      throw new Error("Too many requests. Please try again later.");
+    }
+
+    await this.requestLogDAO.create(action, clientKey);
+  }
+
+  /**
+   * The asset or location a QR code belongs to and its open tickets. A
+   * location's tickets are only those not about a particular asset.
+   */
+  async getAssetView(qrCode: string): Promise<PublicAssetView | null> {
+    return this.withQRTenant(qrCode, async () => {
+      const target = await this.resolve(qrCode);
+      if (!target) return null;
+
+      const { asset, location } = target;
+      const openTickets = asset
+        ? await this.ticketDAO.findOpenByAsset(asset.id)
+        : await this.ticketDAO.findOpenByLocation(location!.id);
+
+      return {
+        asset: asset && {
+          id: asset.id,
+          name: asset.name,
+          status: asset.status,
+          category_name: asset.category?.name ?? null,
+        },
+        location,
+        open_tickets: openTickets.map(toSummary),
+      };
+    });
+  }
+
+  /**
+   * Recent similar tickets for the asset or location, so reporters can see
+   * it's already known
+   */
+  async checkDuplicates(
+    qrCode: string,
+    title: string,
+  ): Promise<PublicTicketSummary[]> {
+    const duplicates = await this.withQRTenant(qrCode, async () => {
+      const target = await this.resolve(qrCode);
+      if (!target?.location) return null;
+
+      return this.ticketService.checkForDuplicates(
+        target.location.id,
+        target.asset?.id ?? null,
+        title,
+      );
+    });
+    if (!duplicates) throw new Error("QR code not found");
+
+    return duplicates.map(toSummary);
+  }
+
+  /**
+   * Create a ticket for the QR code's asset or location. Staff from its
+   * tenant are recorded as the submitter; anyone else is anonymous, with
+   * the name and phone they leave.
+   */
+  async submitReport(
+    qrCode: string,
+    input: PublicReportInput,
+    photos: File[],
+    user: { id: string; tenant_id: string } | null,
+  ): Promise<PublicReportResult> {
+    if (photos.length > MAX_REPORT_PHOTOS) {
+      throw new Error(`Cannot attach more than ${MAX_REPORT_PHOTOS} photos`);
+    }
+    for (const photo of photos) {
+      const validation = validateFileUpload(photo, "photo");
+      if (!validation.valid) {
+        throw new Error(`Cannot attach ${photo.name}: ${validation.error}`);
+      }
+    }
+
+    const result = await this.withQRTenant(qrCode, async (tenantId) => {
+      const target = await this.resolve(qrCode);
+      if (!target) return null;
+      if (!target.location) {
+        throw new Error(
+          "Cannot report a problem for an asset with no location",
+        );
+      }
+
+      const submitterId = user?.tenant_id === tenantId ? user.id : null;
+
+      const ticket = await this.ticketService.createTicket({
+        title: input.title,
+        description: input.description || null,
+        location_id: target.location.id,
+        asset_id: target.asset?.id ?? null,
+        submitted_by: submitterId,
+        reporter_name: input.reporter_name || null,
+        reporter_phone: input.reporter_phone || null,
+        submitted_via: "qr",
+      });
+
+      // The ticket is in; a photo that fails to upload shouldn't lose it
+      let uploaded = 0;
+      for (const photo of photos) {
+        try {
+          await this.attachmentService.uploadAttachment({
+            ticket_id: ticket.id,
+            file: photo,
+            user_id: submitterId,
+            attachment_type: "initial",
+          });
+          uploaded += 1;
+        } catch (error) {
+          console.error(
+            `Failed to attach photo to QR report ${ticket.id}:`,
+            error,
+          );
+        }
+      }
+
+      return { ticket_number: ticket.ticket_number, photos_uploaded: uploaded };
+    });
+    if (!result) throw new Error("QR code not found");
+
+    return result;
+  }
+
+  /**
+   * The asset with this QR code, or failing that the location. Call within
+   * the code's tenant.
+   */
+  private async resolve(qrCode: string): Promise<{
+    asset: AssetWithRelations | null;
+    location: { id: string; name: string } | null;
+  } | null> {
+    const asset = await this.assetDAO.findByQRCode(qrCode);
+    if (asset) {
+      return {
+        asset,
+        location: asset.location
+          ? { id: asset.location.id, name: asset.location.name }
+          : null,
+      };
+    }
+
+    const location = await this.locationDAO.findByQRCode(qrCode);
+    if (!location) return null;
+
+    return { asset: null, location: { id: location.id, name: location.name } };
+  }
+
+  /**
+   * Run fn scoped to the tenant that owns the QR code. QR codes are only
+   * unique per tenant, so a code two tenants share resolves only on a
+   * tenant's own subdomain.
+   */
+  private async withQRTenant<T>(
+    qrCode: string,
+    fn: (tenantId: string) => Promise<T | null>,
+  ): Promise<T | null> {
+    let tenantIds = await this.assetDAO.findTenantIdsByQRCode(qrCode);
+    if (tenantIds.length === 0) {
+      tenantIds = await this.locationDAO.findTenantIdsByQRCode(qrCode);
+    }
+
+    let tenantId = tenantIds.length === 1 ? tenantIds[0] : null;
+    if (tenantIds.length > 1) {
+      const current = await getTenantId();
+      tenantId = current && tenantIds.includes(current) ? current : null;
+    }
+    if (!tenantId) return null;
+
+    return runWithTenant(tenantId, () => fn(tenantId));
+  }
+}
+
+function toSummary(ticket: Ticket): PublicTicketSummary {
+  return {
+    ticket_number: ticket.ticket_number,
+    title: ticket.title,
+    status: ticket.status,
+    created_at: ticket.created_at,
+  };
+}
@@ -0,0 +1,199 @@
+import { AssetDAO, type AssetFilters } from "@/dao/asset.dao";
+import { LocationDAO } from "@/dao/location.dao";
+import { StorageIAO } from "@/iao/storage";
+import { LocationService } from "./location.service";
+import {
+  LABEL_FORMATS,
+  renderLabelSheet,
+  type LabelFormatId,
+  type LabelLogo,
+  type QRLabel,
+} from "@/lib/export/labels";
+import { getTenantContext } from "@/lib/tenant/context";
+import { STORAGE_BUCKETS } from "@/lib/validations/file-upload";
+import type { Database } from "@/types/database";
+
+type Location = Database["public"]["Tables"]["locations"]["Row"];
+
+// How long the download link stays valid
+const DOWNLOAD_LINK_SECONDS = 60 * 60;
+
+// Keeps a runaway filter from rendering thousands of labels in one request
+export const MAX_LABELS = 1000;
+
+export interface LabelSheet {
+  file_name: string;
+  url: string;
+  expires_at: string;
+  labels: number;
+  sheets: number;
+  // Assets left off because they have no QR code
+  skipped: number;
+}
+
+/**
+ * QR Label Service
+ * Prints QR labels for assets and locations onto label sheets. Asset codes
+ * open the asset's public report page; location codes open one for the
+ * location.
+ */
+export class QRLabelService {
+  constructor(
+    private assetDAO = new AssetDAO(),
+    private locationDAO = new LocationDAO(),
+    private locationService = new LocationService(),
+    private storageIAO = new StorageIAO(),
+  ) {}
+
+  /**
+   * Labels for every asset matching the filters
+   */
+  async generateAssetLabels(
+    filters: AssetFilters,
+    formatId: LabelFormatId,
+  ): Promise<LabelSheet> {
+    const assets = await this.assetDAO.findWithRelations(filters);
+    if (assets.length === 0) {
+      throw new Error("Cannot print labels: no assets match these filters");
+    }
+
+    const printable = assets.filter((asset) => asset.qr_code);
+    const labels = printable.map(
+      (asset): QRLabel => ({
+        url: this.getQRUrl(asset.qr_code!),
+        code: asset.qr_code!,
+        title: asset.name,
+        lines: [
+          asset.serial_number ? `S/N ${asset.serial_number}` : null,
+          asset.location?.name ?? null,
+        ].filter((line): line is string => !!line),
+      }),
+    );
+
+    const sheet = await this.storeSheet(labels, formatId, "asset-labels");
+    return { ...sheet, skipped: assets.length - printable.length };
+  }
+
+  /**
+   * Labels for the given locations, or every active location. Locations
+   * without a QR code are given one.
+   */
+  async generateLocationLabels(
+    locationIds: string[] | undefined,
+    formatId: LabelFormatId,
+  ): Promise<LabelSheet> {
+    let locations: Location[];
+    if (locationIds?.length) {
+      const found = await Promise.all(
+        locationIds.map((id) => this.locationDAO.findById(id)),
+      );
+      if (found.some((location) => !location)) {
+        throw new Error("Location not found");
+      }
+      locations = found as Location[];
+    } else {
+      locations = await this.locationDAO.findActive();
+    }
+
+    if (locations.length === 0) {
+      throw new Error("Cannot print labels: there are no active locations");
+    }
+
+    const withCodes = await this.locationService.ensureQRCodes(locations);
+    const labels = withCodes.map(
+      (location): QRLabel => ({
+        url: this.getQRUrl(location.qr_code!),
+        code: location.qr_code!,
+        title: location.name,
+        lines: [
+          [location.address, location.city].filter(Boolean).join(", "),
+          "Scan to report a problem",
+        ].filter((line) => line.length > 0),
+      }),
+    );
+
+    const sheet = await this.storeSheet(labels, formatId, "location-labels");
+    return { ...sheet, skipped: 0 };
+  }
+
+  /**
+   * The public page a QR code opens
+   */
+  getQRUrl(qrCode: string): string {
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    return `${baseUrl}/qr/${encodeURIComponent(qrCode)}`;
+  }
+
+  private async storeSheet(
+    labels: QRLabel[],
+    formatId: LabelFormatId,
+    name: string,
+  ): Promise<Omit<LabelSheet, "skipped">> {
+    if (labels.length === 0) {
+      throw new Error("Cannot print labels: none of these have a QR code");
+    }
+    if (labels.length > MAX_LABELS) {
+      throw new Error(
+        `Cannot print more than ${MAX_LABELS} labels at once. Narrow the filters.`,
+      );
+    }
+
+    const tenant = await getTenantContext();
+    if (!tenant) {
+      throw new Error("Tenant context required to print labels");
+    }
+    const logo = await this.loadLogo(tenant.settings?.branding?.logo_url);
+
+    const content = renderLabelSheet(labels, formatId, logo);
+
+    const format = LABEL_FORMATS[formatId];
+    const date = new Date().toISOString().split("T")[0];
+    const fileName = `${name}-${formatId.replace("_", "-")}-${date}.pdf`;
+    const path = `${tenant.id}/${Date.now()}-${fileName}`;
+    await this.storageIAO.upload(
+      STORAGE_BUCKETS.qrLabels,
+      path,
+      new Uint8Array(content),
+      "application/pdf",
+    );
+
+    const url = await this.storageIAO.createSignedUrl(
+      STORAGE_BUCKETS.qrLabels,
+      path,
+      DOWNLOAD_LINK_SECONDS,
+    );
+
+    return {
+      file_name: fileName,
+      url,
+      expires_at: new Date(
+        Date.now() + DOWNLOAD_LINK_SECONDS * 1000,
+      ).toISOString(),
+      labels: labels.length,
+      sheets: Math.ceil(labels.length / (format.columns * format.rows)),
+    };
+  }
+
+  /**
+   * The tenant's logo, if it's a PNG or JPEG that can be fetched. Labels
+   * print without it otherwise.
+   */
+  private async loadLogo(
+    logoUrl: string | null | undefined,
+  ): Promise<LabelLogo | null> {
+    if (!logoUrl) return null;
+
+    try {
+      const response = await fetch(logoUrl);
+      if (!response.ok) return null;
+
+      const data = new Uint8Array(await response.arrayBuffer());
+      if (data[0] === 0x89 && data[1] === 0x50) return { data, format: "PNG" };
+      if (data[0] === 0xff && data[1] === 0xd8) return { data, format: "JPEG" };
+      return null;
+    } catch (error) {
+      console.error("Failed to load tenant logo for labels:", error);
+      return null;
+    }
+  }
+}
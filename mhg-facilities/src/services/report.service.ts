@@ -3,6 +3,10 @@ import { AssetDAO } from "@/dao/asset.dao";
 import { VendorDAO } from "@/dao/vendor.dao";
 import { ComplianceDocumentDAO } from "@/dao/compliance-document.dao";
 import { PMScheduleDAO } from "@/dao/pm-schedule.dao";
+import { AssetHistoryService } from "./asset-history.service";
+import { AssetScoringService, type AssetScore } from "./asset-scoring.service";
+import { AssetDepreciationService } from "./asset-depreciation.service";
+import type { DepreciationMethod } from "@/types/database";
 import type { TicketStatus, TicketPriority } from "@/types/database";
 
 // Date range type
@@ -64,13 +68,58 @@ export interface AssetReportData {
   byCategory: Record<string, number>;
   byLocation: Record<string, number>;
   totalValue: number;
+  totalBookValue: number;
+  totalCostOfOwnership: number;
   assets: unknown[];
 }
 
-export interface AssetValueReport {
-  totalValue: number;
-  byCategory: Array<{ category: string; value: number }>;
-  byLocation: Array<{ location: string; value: number }>;
+// Flags and reasons are joined into one column each for export
+export interface ProblemAssetReportRow
+  extends Omit<AssetScore, "flags" | "reasons">, Record<string, unknown> {
+  flags: string;
+  reasons: string;
+}
+
+export interface ProblemAssetReport {
+  total: number;
+  replaceCount: number;
+  totalRepairCost: number;
+  assets: ProblemAssetReportRow[];
+}
+
+export interface AssetValuationRow extends Record<string, unknown> {
+  asset_id: string;
+  asset_name: string;
+  category_id: string | null;
+  category_name: string;
+  location_id: string | null;
+  location_name: string;
+  purchase_date: string | null;
+  depreciation_method: DepreciationMethod;
+  lifespan_years: number | null;
+  purchase_price: number;
+  accumulated_depreciation: number;
+  book_value: number;
+}
+
+export interface AssetValuationGroup extends Record<string, unknown> {
+  id: string | null;
+  name: string;
+  count: number;
+  purchase_price: number;
+  accumulated_depreciation: number;
+  book_value: number;
+}
+
+export interface AssetValuationReport {
+  asOf: string;
+  total: number;
+  totalPurchasePrice: number;
+  totalAccumulatedDepreciation: number;
+  totalBookValue: number;
+  byLocation: AssetValuationGroup[];
+  byCategory: AssetValuationGroup[];
+  assets: AssetValuationRow[];
 }
 
 export interface WarrantyReport {
@@ -167,6 +216,9 @@ export class ReportService {
     private vendorDAO = new VendorDAO(),
     private complianceDAO = new ComplianceDocumentDAO(),
     private pmScheduleDAO = new PMScheduleDAO(),
+    private assetHistoryService = new AssetHistoryService(),
+    private assetScoringService = new AssetScoringService(),
+    private depreciationService = new AssetDepreciationService(),
   ) {}
 
   // ============================================================
@@ -372,13 +424,103 @@ export class ReportService {
       }
     });
 
+    // Purchase price plus repair, PM and vendor costs to date
+    const costs = await this.assetHistoryService.getCostsOfOwnership(assets);
+    const now = new Date();
+    let totalCostOfOwnership = 0;
+    let totalBookValue = 0;
+    const assetsWithCost = assets.map((a) => {
+      const cost = costs.get(a.id);
+      const { book_value } = this.depreciationService.calculateBookValue(
+        a,
+        now,
+      );
+      totalCostOfOwnership += cost?.total ?? 0;
+      totalBookValue += book_value;
+      return {
+        ...a,
+        book_value,
+        repair_cost: cost?.repair_cost ?? 0,
+        pm_cost: cost?.pm_cost ?? 0,
+        vendor_cost: cost?.vendor_cost ?? 0,
+        total_cost_of_ownership: cost?.total ?? 0,
+      };
+    });
+
     return {
       total: assets.length,
       byStatus,
       byCategory,
       byLocation,
       totalValue,
-      assets,
+      totalBookValue,
+      totalCostOfOwnership,
+      assets: assetsWithCost,
+    };
+  }
+
+  /**
+   * Book value of the assets held on a date (YYYY-MM-DD), by location and
+   * category. Assets bought after the date and disposed assets are left out.
+   */
+  async getAssetValuationReport(asOf: string): Promise<AssetValuationReport> {
+    const asOfDate = new Date(asOf);
+    const assets = (await this.assetDAO.findWithRelations()).filter(
+      (a) =>
+        a.status !== "disposed" &&
+        (a.purchase_date ?? a.created_at).slice(0, 10) <= asOf,
+    );
+
+    const rows: AssetValuationRow[] = assets.map((a) => {
+      const value = this.depreciationService.calculateBookValue(a, asOfDate);
+      return {
+        asset_id: a.id,
+        asset_name: a.name,
+        category_id: a.category_id,
+        category_name: a.category?.name ?? "Uncategorized",
+        location_id: a.location_id,
+        location_name: a.location?.name ?? "No location",
+        purchase_date: a.purchase_date,
+        depreciation_method: value.method,
+        lifespan_years: value.lifespan_years,
+        purchase_price: value.purchase_price,
+        accumulated_depreciation: value.accumulated_depreciation,
+        book_value: value.book_value,
+      };
+    });
+
+    const sum = (
+      key: "purchase_price" | "accumulated_depreciation" | "book_value",
+    ) => this.roundCurrency(rows.reduce((total, row) => total + row[key], 0));
+
+    return {
+      asOf,
+      total: rows.length,
+      totalPurchasePrice: sum("purchase_price"),
+      totalAccumulatedDepreciation: sum("accumulated_depreciation"),
+      totalBookValue: sum("book_value"),
+      byLocation: this.groupValuation(rows, "location"),
+      byCategory: this.groupValuation(rows, "category"),
+      assets: rows,
+    };
+  }
+
+  /**
+   * Assets flagged by the tenant's replacement policy, worst first
+   */
+  async getProblemAssetReport(): Promise<ProblemAssetReport> {
+    const problems = await this.assetScoringService.getProblemAssets();
+
+    return {
+      total: problems.length,
+      replaceCount: problems.filter((p) => p.recommendation === "replace")
+        .length,
+      totalRepairCost: problems.reduce((sum, p) => sum + p.repair_cost, 0),
+      assets: problems.map((p) => ({
+        ...p,
+        flags: p.flags.join(", "),
+        reasons: p.reasons.join("; "),
+      })),
     };
   }
 
@@ -406,6 +548,45 @@ export class ReportService {
     };
   }
 
+  private groupValuation(
+    rows: AssetValuationRow[],
+    by: "location" | "category",
+  ): AssetValuationGroup[] {
+    const groups = new Map<string | null, AssetValuationGroup>();
+
+    for (const row of rows) {
+      const id = by === "location" ? row.location_id : row.category_id;
+      const group = groups.get(id) ?? {
+        id,
+        name: by === "location" ? row.location_name : row.category_name,
+        count: 0,
+        purchase_price: 0,
+        accumulated_depreciation: 0,
+        book_value: 0,
+      };
+      group.count++;
+      group.purchase_price += row.purchase_price;
+      group.accumulated_depreciation += row.accumulated_depreciation;
+      group.book_value += row.book_value;
+      groups.set(id, group);
+    }
+
+    return [...groups.values()]
+      .map((group) => ({
+        ...group,
+        purchase_price: this.roundCurrency(group.purchase_price),
+        accumulated_depreciation: this.roundCurrency(
+          group.accumulated_depreciation,
+        ),
+        book_value: this.roundCurrency(group.book_value),
+      }))
+      .sort((a, b) => b.book_value - a.book_value);
+  }
+
+  private roundCurrency(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
   // ============================================================
   // COMPLIANCE REPORTS
   // ============================================================
@@ -1,6 +1,7 @@
 import { TenantDAO } from "@/dao/tenant.dao";
+import { runWithTenant } from "@/lib/tenant/context";
 import type { Tenant, TenantPlan } from "@/types/database";
-import type { TenantBranding } from "@/types";
+import type { TenantBranding, TenantFeatures } from "@/types";
 
 interface CreateTenantInput {
   name: string;
@@ -8,6 +9,11 @@ interface CreateTenantInput {
   plan?: TenantPlan;
 }
 
+export interface TenantRunResult<T> {
+  results: Array<{ tenant_id: string; result: T }>;
+  errors: Array<{ tenant_id: string; error: string }>;
+}
+
 /**
  * Tenant Service - Business logic for tenant operations
  */
@@ -81,6 +87,46 @@ export class TenantService {
     return this.tenantDAO.findById(id);
   }
 
+  /**
+   * Run fn once for each active tenant, scoped to that tenant, for cron
+   * jobs that have no session or tenant subdomain. A tenant that fails is
+   * reported and the others still run.
+   */
+  async forEachActiveTenant<T>(
+    fn: (tenantId: string) => Promise<T>,
+  ): Promise<TenantRunResult<T>> {
+    const tenantIds = await this.tenantDAO.findActiveIds();
+    const run: TenantRunResult<T> = { results: [], errors: [] };
+
+    for (const tenantId of tenantIds) {
+      try {
+        const result = await runWithTenant(tenantId, () => fn(tenantId));
+        run.results.push({ tenant_id: tenantId, result });
+      } catch (error) {
+        run.errors.push({
+          tenant_id: tenantId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    return run;
+  }
+
+  /**
+   * Check whether a tenant's plan includes a feature
+   */
+  async hasFeature(
+    tenantId: string,
+    feature: keyof TenantFeatures,
+  ): Promise<boolean> {
+    const tenant = await this.tenantDAO.findById(tenantId);
+    if (!tenant) return false;
+
+    const features = (tenant.features ?? {}) as Partial<TenantFeatures>;
+    return features[feature] === true;
+  }
+
   /**
    * Update tenant branding
    */
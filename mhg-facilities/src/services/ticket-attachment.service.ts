@@ -25,7 +25,8 @@ const ALLOWED_MIME_TYPES = [
 export interface UploadAttachmentInput {
   ticket_id: string;
   file: File;
-  user_id: string;
+  /** Null for photos sent with an anonymous public QR report */
+  user_id: string | null;
   attachment_type: AttachmentType;
 }
 
@@ -13,6 +13,7 @@ export interface CreateCategoryInput {
   default_assignee_id?: string;
   preferred_vendor_id?: string;
   escalation_hours?: number;
+  resolution_hours?: number | null;
 }
 
 export interface UpdateCategoryInput {
@@ -23,6 +24,7 @@ export interface UpdateCategoryInput {
   default_assignee_id?: string | null;
   preferred_vendor_id?: string | null;
   escalation_hours?: number;
+  resolution_hours?: number | null;
 }
 
 /**
@@ -59,6 +61,10 @@ export class TicketCategoryService {
       throw new Error("Escalation hours must be at least 1");
     }
 
+    if (data.resolution_hours != null && data.resolution_hours < 1) {
+      throw new Error("Resolution hours must be at least 1");
+    }
+
     return this.categoryDAO.createCategory(data);
   }
 
@@ -77,6 +83,10 @@ export class TicketCategoryService {
       throw new Error("Escalation hours must be at least 1");
     }
 
+    if (data.resolution_hours != null && data.resolution_hours < 1) {
+      throw new Error("Resolution hours must be at least 1");
+    }
+
     return this.categoryDAO.updateCategory(id, data);
   }
 
@@ -1,7 +1,13 @@
 import { TicketCommentDAO } from "@/dao/ticket-comment.dao";
-import type { Database } from "@/types/database";
+import { UserDAO } from "@/dao/user.dao";
+import { NotificationOutboxService } from "./notification-outbox.service";
+import type { Database, UserRole } from "@/types/database";
 
 type TicketComment = Database["public"]["Tables"]["ticket_comments"]["Row"];
+type User = Database["public"]["Tables"]["users"]["Row"];
+
+// Only these roles can read internal comments, so only they are notified
+const INTERNAL_COMMENT_ROLES: UserRole[] = ["super_admin", "admin", "manager"];
 
 export interface AddCommentInput {
   ticket_id: string;
@@ -12,10 +18,15 @@ export interface AddCommentInput {
 
 /**
  * Ticket Comment Service
- * Handles business logic for ticket comments
+ * Handles business logic for ticket comments. Writing "@Full Name" in a
+ * comment notifies that teammate.
  */
 export class TicketCommentService {
-  constructor(private commentDAO = new TicketCommentDAO()) {}
+  constructor(
+    private commentDAO = new TicketCommentDAO(),
+    private userDAO = new UserDAO(),
+    private outboxService = new NotificationOutboxService(),
+  ) {}
 
   /**
    * Get all comments for a ticket
@@ -39,12 +50,56 @@ export class TicketCommentService {
       throw new Error("Comment cannot exceed 5000 characters");
     }
 
-    return this.commentDAO.createComment({
+    const comment = await this.commentDAO.createComment({
       ticket_id: input.ticket_id,
       user_id: input.user_id,
       comment: input.comment.trim(),
       is_internal: input.is_internal ?? false,
     });
+
+    if (comment.comment.includes("@")) {
+      const mentioned = this.findMentions(
+        comment.comment,
+        await this.userDAO.findActive(),
+      ).filter(
+        (user) =>
+          user.id !== input.user_id &&
+          (!comment.is_internal || INTERNAL_COMMENT_ROLES.includes(user.role)),
+      );
+
+      if (mentioned.length > 0) {
+        await this.outboxService.enqueue("ticket_mentioned", {
+          ticket_id: input.ticket_id,
+          comment_id: comment.id,
+          author_id: input.user_id,
+          user_ids: mentioned.map((user) => user.id),
+        });
+      }
+    }
+
+    return comment;
+  }
+
+  /**
+   * Users mentioned as "@Full Name" in a comment. Vendors only see tickets
+   * through the portal, so they can't be mentioned.
+   */
+  findMentions(comment: string, users: User[]): User[] {
+    const text = comment.toLowerCase();
+
+    return users.filter((user) => {
+      if (user.role === "vendor" || !user.full_name) return false;
+
+      const mention = `@${user.full_name.toLowerCase()}`;
+      let index = text.indexOf(mention);
+      while (index !== -1) {
+        // "@Sam Lee" shouldn't match "@Sam Leeds"
+        const next = text.charAt(index + mention.length);
+        if (!/[a-z0-9]/.test(next)) return true;
+        index = text.indexOf(mention, index + 1);
+      }
+      return false;
+    });
   }
 
   /**
@@ -0,0 +1,250 @@
+import { UserDAO } from "@/dao/user.dao";
+import { OnCallScheduleService } from "./on-call-schedule.service";
+import type { Database, TicketPriority } from "@/types/database";
+import type { BusinessHours } from "@/types";
+
+type Location = Database["public"]["Tables"]["locations"]["Row"];
+type TicketCategory = Database["public"]["Tables"]["ticket_categories"]["Row"];
+type User = Database["public"]["Tables"]["users"]["Row"];
+
+export type RoutingRule =
+  | "emergency_on_call"
+  | "after_hours_on_call"
+  | "category_default"
+  | "location_manager"
+  | "preset"
+  | "unassigned";
+
+export interface RoutingDecision {
+  rule: RoutingRule;
+  assignee: User | null;
+  vendor_id: string | null;
+  reason: string;
+}
+
+export interface RouteTicketInput {
+  location: Location;
+  category: TicketCategory | null;
+  priority: TicketPriority;
+  is_emergency: boolean;
+}
+
+/**
+ * Assignment decided by the caller (e.g. a PM schedule) instead of the rules
+ */
+export interface PresetRouting {
+  assigned_to: string | null;
+  vendor_id: string | null;
+  reason: string;
+}
+
+/**
+ * Used when a location has no business_hours configured
+ */
+export const DEFAULT_BUSINESS_HOURS: BusinessHours = {
+  timezone: "America/New_York",
+  days: [1, 2, 3, 4, 5],
+  open: "08:00",
+  close: "18:00",
+};
+
+// Outside business hours only urgent tickets go to on-call;
+// everything else waits for the normal owner.
+const AFTER_HOURS_PRIORITIES: TicketPriority[] = ["high", "critical"];
+
+const ASSIGNABLE_ROLES = ["staff", "manager", "admin"];
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Ticket Routing Service
+ * Picks an assignee and vendor for a new ticket.
+ *
+ * Order:
+ * 1. Emergencies → on-call (primary, then backup)
+ * 2. High/critical outside business hours → on-call
+ * 3. Category default assignee
+ * 4. Location manager
+ * 5. Unassigned
+ *
+ * The category's preferred vendor is attached whatever the staff route.
+ */
+export class TicketRoutingService {
+  constructor(
+    private userDAO = new UserDAO(),
+    private onCallService = new OnCallScheduleService(),
+  ) {}
+
+  /**
+   * Decide who a new ticket goes to
+   */
+  async routeTicket(
+    input: RouteTicketInput,
+    now: Date = new Date(),
+  ): Promise<RoutingDecision> {
+    const { location, category, priority, is_emergency } = input;
+    const vendor_id = category?.preferred_vendor_id ?? null;
+    const skipped: string[] = [];
+
+    const decide = (
+      rule: RoutingRule,
+      assignee: User | null,
+      reason: string,
+    ): RoutingDecision => {
+      const parts = [...skipped, reason];
+      if (vendor_id) parts.push("preferred category vendor attached");
+      return { rule, assignee, vendor_id, reason: parts.join("; ") };
+    };
+
+    const afterHours =
+      !is_emergency &&
+      AFTER_HOURS_PRIORITIES.includes(priority) &&
+      !this.isWithinBusinessHours(
+        location.business_hours as BusinessHours | null,
+        now,
+      );
+
+    if (is_emergency || afterHours) {
+      const onCall = await this.findOnCall(location.id);
+      const label = is_emergency
+        ? "Emergency"
+        : `After-hours ${priority} priority ticket`;
+
+      if (onCall) {
+        return decide(
+          is_emergency ? "emergency_on_call" : "after_hours_on_call",
+          onCall.user,
+          `${label} routed to ${onCall.label} ${onCall.user.full_name}`,
+        );
+      }
+      skipped.push(`${label}: no one on call`);
+    }
+
+    const defaultAssignee = await this.findAssignable(
+      category?.default_assignee_id ?? null,
+    );
+    if (defaultAssignee) {
+      return decide(
+        "category_default",
+        defaultAssignee,
+        `Routed to category default assignee ${defaultAssignee.full_name}`,
+      );
+    }
+
+    const manager = await this.findAssignable(location.manager_id);
+    if (manager) {
+      return decide(
+        "location_manager",
+        manager,
+        `Routed to location manager ${manager.full_name}`,
+      );
+    }
+
+    return decide("unassigned", null, "No eligible assignee; left unassigned");
+  }
+
+  /**
+   * Resolve an assignment chosen by the caller. An assignee who can no
+   * longer take work is dropped rather than failing ticket creation.
+   */
+  async applyPreset(preset: PresetRouting): Promise<RoutingDecision> {
+    const assignee = await this.findAssignable(preset.assigned_to);
+    const parts = [preset.reason];
+    if (preset.assigned_to && !assignee) {
+      parts.push("assignee is not active; left unassigned");
+    }
+    if (preset.vendor_id) parts.push("vendor attached");
+
+    return {
+      rule: "preset",
+      assignee,
+      vendor_id: preset.vendor_id,
+      reason: parts.join("; "),
+    };
+  }
+
+  /**
+   * Whether `now` falls within a location's business hours
+   * Supports overnight windows (close earlier than open).
+   */
+  isWithinBusinessHours(
+    hours: BusinessHours | null,
+    now: Date = new Date(),
+  ): boolean {
+    const config = hours ?? DEFAULT_BUSINESS_HOURS;
+
+    let parts: Intl.DateTimeFormatPart[];
+    try {
+      parts = this.getLocalParts(now, config.timezone);
+    } catch {
+      // Invalid timezone in stored config
+      parts = this.getLocalParts(now, DEFAULT_BUSINESS_HOURS.timezone);
+    }
+
+    const get = (type: string) => parts.find((p) => p.type === type)?.value;
+    const day = WEEKDAYS.indexOf(get("weekday") ?? "");
+    const minutes = Number(get("hour")) * 60 + Number(get("minute"));
+
+    if (!config.days.includes(day)) return false;
+
+    const open = this.toMinutes(config.open);
+    const close = this.toMinutes(config.close);
+
+    return open <= close
+      ? minutes >= open && minutes < close
+      : minutes >= open || minutes < close;
+  }
+
+  // ============================================================
+  // HELPERS
+  // ============================================================
+
+  /**
+   * Current on-call for a location, falling back to the backup on-call,
+   * then to tenant-wide (no location) schedules
+   */
+  private async findOnCall(
+    locationId: string,
+  ): Promise<{ user: User; label: string } | null> {
+    const lookups: Array<[string | null, boolean, string]> = [
+      [locationId, true, "on-call"],
+      [locationId, false, "backup on-call"],
+      [null, true, "tenant on-call"],
+      [null, false, "tenant backup on-call"],
+    ];
+
+    for (const [scope, isPrimary, label] of lookups) {
+      const schedule = isPrimary
+        ? await this.onCallService.getCurrentOnCall(scope)
+        : await this.onCallService.getCurrentBackupOnCall(scope);
+      const user = await this.findAssignable(schedule?.user_id ?? null);
+      if (user) return { user, label };
+    }
+
+    return null;
+  }
+
+  private async findAssignable(userId: string | null): Promise<User | null> {
+    if (!userId) return null;
+    const user = await this.userDAO.findById(userId);
+    if (!user || !user.is_active || !ASSIGNABLE_ROLES.includes(user.role)) {
+      return null;
+    }
+    return user;
+  }
+
+  private getLocalParts(now: Date, timeZone: string) {
+    return new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(now);
+  }
+
+  private toMinutes(time: string): number {
+    const [h, m] = time.split(":").map(Number);
+    return h * 60 + m;
+  }
+}
@@ -0,0 +1,382 @@
+import { TicketDAO } from "@/dao/ticket.dao";
+import { TicketEscalationDAO } from "@/dao/ticket-escalation.dao";
+import { UserDAO } from "@/dao/user.dao";
+import { LocationDAO } from "@/dao/location.dao";
+import { NotificationOutboxService } from "./notification-outbox.service";
+import type { Database, TicketPriority } from "@/types/database";
+
+type Ticket = Database["public"]["Tables"]["tickets"]["Row"];
+type TicketCategory = Database["public"]["Tables"]["ticket_categories"]["Row"];
+type User = Database["public"]["Tables"]["users"]["Row"];
+
+export type SLAType = "response" | "resolution";
+export type SLAStatus = "on_track" | "at_risk" | "breached" | "met" | "paused";
+
+export interface SLATarget {
+  due_at: string | null;
+  met_at: string | null;
+  breached: boolean;
+}
+
+export interface TicketSLAState {
+  status: SLAStatus;
+  tracking: SLAType | null;
+  response: SLATarget;
+  resolution: SLATarget;
+  next_breach_at: string | null;
+  minutes_to_breach: number | null;
+  escalation_level: number;
+  escalated_at: string | null;
+}
+
+export interface SLADeadlines {
+  response_due_at: string;
+  resolution_due_at: string;
+}
+
+export interface EscalationRunResult {
+  checked: number;
+  escalated: Array<{
+    ticketId: string;
+    slaType: SLAType;
+    level: number;
+    notifiedCount: number;
+  }>;
+  errors: Array<{ ticketId: string; error: string }>;
+}
+
+/**
+ * Fallback targets when a ticket has no category.
+ * Keep in sync with the backfill in 20260302100000_ticket_sla_tracking.sql
+ */
+export const DEFAULT_RESPONSE_HOURS: Record<TicketPriority, number> = {
+  critical: 2,
+  high: 4,
+  medium: 8,
+  low: 24,
+};
+
+export const DEFAULT_RESOLUTION_HOURS: Record<TicketPriority, number> = {
+  critical: 24,
+  high: 72,
+  medium: 168,
+  low: 336,
+};
+
+/**
+ * Escalation tiers, reached as a ticket stays past its deadline.
+ * `afterWindow` is how far past the deadline the tier fires, as a fraction
+ * of the original target window (e.g. 0.5 on a 4h target = 2h overdue).
+ */
+export const ESCALATION_TIERS = [
+  { level: 1, recipients: "assignee", afterWindow: 0 },
+  { level: 2, recipients: "location_manager", afterWindow: 0.5 },
+  { level: 3, recipients: "admin", afterWindow: 1 },
+] as const;
+
+// Share of the target window left when a ticket becomes "at risk".
+// Mirrors sla_at_risk_at in the set_ticket_sla_next_breach() trigger.
+const AT_RISK_FRACTION = 0.25;
+
+const FINISHED_STATUSES = ["completed", "closed", "rejected"];
+
+/**
+ * Ticket SLA Service
+ * Computes response/resolution deadlines, derives SLA state for display,
+ * and escalates breached tickets through assignee → location manager → admin.
+ *
+ * Response is met when the ticket is assigned or work starts
+ * (first_response_at). Resolution is met when the ticket is completed.
+ */
+export class TicketSLAService {
+  constructor(
+    private ticketDAO = new TicketDAO(),
+    private escalationDAO = new TicketEscalationDAO(),
+    private userDAO = new UserDAO(),
+    private locationDAO = new LocationDAO(),
+    private outboxService = new NotificationOutboxService(),
+  ) {}
+
+  // ============================================================
+  // DEADLINES & STATE
+  // ============================================================
+
+  /**
+   * Calculate response and resolution deadlines for a ticket.
+   * Category escalation_hours is the response target; critical tickets never
+   * get a looser response target than the critical default.
+   */
+  calculateDeadlines(
+    priority: TicketPriority,
+    category: Pick<
+      TicketCategory,
+      "escalation_hours" | "resolution_hours"
+    > | null,
+    createdAt: Date = new Date(),
+  ): SLADeadlines {
+    let responseHours =
+      category?.escalation_hours ?? DEFAULT_RESPONSE_HOURS[priority];
+    if (priority === "critical") {
+      responseHours = Math.min(responseHours, DEFAULT_RESPONSE_HOURS.critical);
+    }
+
+    const resolutionHours = Math.max(
+      category?.resolution_hours ?? DEFAULT_RESOLUTION_HOURS[priority],
+      responseHours,
+    );
+
+    const hoursFrom = (hours: number) =>
+      new Date(createdAt.getTime() + hours * 60 * 60 * 1000).toISOString();
+
+    return {
+      response_due_at: hoursFrom(responseHours),
+      resolution_due_at: hoursFrom(resolutionHours),
+    };
+  }
+
+  /**
+   * Derive the SLA state of a ticket at a point in time
+   */
+  getSLAState(ticket: Ticket, now: Date = new Date()): TicketSLAState {
+    const isFinished = FINISHED_STATUSES.includes(ticket.status);
+    const resolvedAt = ticket.completed_at ?? ticket.closed_at;
+
+    const response: SLATarget = {
+      due_at: ticket.response_due_at,
+      met_at: ticket.first_response_at,
+      breached: this.isBreached(
+        ticket.response_due_at,
+        ticket.first_response_at,
+        now,
+      ),
+    };
+    const resolution: SLATarget = {
+      due_at: ticket.resolution_due_at,
+      met_at: isFinished ? resolvedAt : null,
+      breached: this.isBreached(
+        ticket.resolution_due_at,
+        isFinished ? resolvedAt : null,
+        now,
+      ),
+    };
+
+    const tracking = this.getTrackedSLA(ticket);
+    const nextBreachAt =
+      tracking === "response"
+        ? ticket.response_due_at
+        : tracking === "resolution"
+          ? ticket.resolution_due_at
+          : null;
+
+    let status: SLAStatus;
+    if (isFinished) {
+      status = response.breached || resolution.breached ? "breached" : "met";
+    } else if (ticket.status === "on_hold") {
+      status = "paused";
+    } else if (!nextBreachAt) {
+      status = "on_track";
+    } else {
+      const due = new Date(nextBreachAt).getTime();
+      const created = new Date(ticket.created_at).getTime();
+      const atRisk = due - (due - created) * AT_RISK_FRACTION;
+      if (now.getTime() >= due) status = "breached";
+      else if (now.getTime() >= atRisk) status = "at_risk";
+      else status = "on_track";
+    }
+
+    return {
+      status,
+      tracking,
+      response,
+      resolution,
+      next_breach_at: nextBreachAt,
+      minutes_to_breach: nextBreachAt
+        ? Math.round((new Date(nextBreachAt).getTime() - now.getTime()) / 60000)
+        : null,
+      escalation_level: ticket.escalation_level,
+      escalated_at: ticket.escalated_at,
+    };
+  }
+
+  /**
+   * Determine which escalation tier a breached deadline has reached
+   */
+  getEscalationLevel(createdAt: string, dueAt: string, now: Date): number {
+    const due = new Date(dueAt).getTime();
+    const windowMs = Math.max(due - new Date(createdAt).getTime(), 0);
+    const overdueMs = now.getTime() - due;
+
+    if (overdueMs < 0) return 0;
+
+    let level = 0;
+    for (const tier of ESCALATION_TIERS) {
+      if (overdueMs >= windowMs * tier.afterWindow) level = tier.level;
+    }
+    return level;
+  }
+
+  // ============================================================
+  // ESCALATION
+  // ============================================================
+
+  /**
+   * Escalate every active ticket whose tracked deadline has passed.
+   * Each (ticket, SLA, level) is recorded once in ticket_escalations, so
+   * repeated runs only alert when a ticket climbs to a new tier.
+   */
+  async escalateBreachedTickets(
+    now: Date = new Date(),
+  ): Promise<EscalationRunResult> {
+    const tickets = await this.ticketDAO.findSLABreached();
+    const history = await this.escalationDAO.findByTickets(
+      tickets.map((t) => t.id),
+    );
+
+    const result: EscalationRunResult = {
+      checked: tickets.length,
+      escalated: [],
+      errors: [],
+    };
+
+    // Per-run caches so a location's manager or the admin list is fetched once
+    const managerCache = new Map<string, User | null>();
+    let adminCache: User[] | null = null;
+
+    for (const ticket of tickets) {
+      try {
+        const slaType = this.getTrackedSLA(ticket);
+        const dueAt =
+          slaType === "response"
+            ? ticket.response_due_at
+            : ticket.resolution_due_at;
+        if (!slaType || !dueAt) continue;
+
+        const level = this.getEscalationLevel(ticket.created_at, dueAt, now);
+        const highestRecorded = history
+          .filter((e) => e.ticket_id === ticket.id && e.sla_type === slaType)
+          .reduce((max, e) => Math.max(max, e.level), 0);
+
+        if (level <= highestRecorded) continue;
+
+        const recipients = await this.getEscalationRecipients(
+          ticket,
+          level,
+          async (locationId) => {
+            if (!managerCache.has(locationId)) {
+              managerCache.set(
+                locationId,
+                await this.findLocationManager(locationId),
+              );
+            }
+            return managerCache.get(locationId) ?? null;
+          },
+          async () => {
+            adminCache ??= await this.userDAO.findByRole("admin");
+            return adminCache;
+          },
+        );
+
+        const hoursOverdue = Math.floor(
+          (now.getTime() - new Date(dueAt).getTime()) / (1000 * 60 * 60),
+        );
+        const reason = `${slaType === "response" ? "Response" : "Resolution"} SLA breached${
+          hoursOverdue > 0 ? ` by ${hoursOverdue} hours` : ""
+        }`;
+
+        const recorded = await this.escalationDAO.create({
+          ticket_id: ticket.id,
+          sla_type: slaType,
+          level,
+          reason,
+          notified_user_ids: recipients.map((u) => u.id),
+        });
+
+        // Another run recorded this level first
+        if (!recorded) continue;
+
+        const updated = await this.ticketDAO.updateTicket(ticket.id, {
+          escalation_level: level,
+          escalated_at: now.toISOString(),
+        });
+
+        if (recipients.length > 0) {
+          await this.outboxService.enqueue("ticket_escalated", {
+            ticket_id: updated.id,
+            level,
+            reason,
+            recipient_ids: recipients.map((u) => u.id),
+          });
+        }
+
+        result.escalated.push({
+          ticketId: ticket.id,
+          slaType,
+          level,
+          notifiedCount: recipients.length,
+        });
+      } catch (error) {
+        result.errors.push({
+          ticketId: ticket.id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+        console.error(`Failed to escalate ticket ${ticket.id}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  // ============================================================
+  // HELPERS
+  // ============================================================
+
+  /**
+   * Which deadline the ticket is currently measured against
+   */
+  private getTrackedSLA(ticket: Ticket): SLAType | null {
+    if (FINISHED_STATUSES.includes(ticket.status)) return null;
+    if (!ticket.first_response_at && ticket.response_due_at) return "response";
+    if (ticket.resolution_due_at) return "resolution";
+    return null;
+  }
+
+  private isBreached(
+    dueAt: string | null,
+    metAt: string | null,
+    now: Date,
+  ): boolean {
+    if (!dueAt) return false;
+    const due = new Date(dueAt).getTime();
+    return metAt ? new Date(metAt).getTime() > due : now.getTime() > due;
+  }
+
+  /**
+   * Recipients for a tier. A tier with nobody to notify (unassigned ticket,
+   * location without a manager) falls through to the next tier up.
+   */
+  private async getEscalationRecipients(
+    ticket: Ticket,
+    level: number,
+    getManager: (locationId: string) => Promise<User | null>,
+    getAdmins: () => Promise<User[]>,
+  ): Promise<User[]> {
+    if (level <= 1 && ticket.assigned_to) {
+      const assignee = await this.userDAO.findById(ticket.assigned_to);
+      if (assignee?.is_active) return [assignee];
+    }
+
+    if (level <= 2 && ticket.location_id) {
+      const manager = await getManager(ticket.location_id);
+      if (manager?.is_active) return [manager];
+    }
+
+    const admins = await getAdmins();
+    return admins.filter((u) => u.is_active);
+  }
+
+  private async findLocationManager(locationId: string): Promise<User | null> {
+    const location = await this.locationDAO.findById(locationId);
+    if (!location?.manager_id) return null;
+    return this.userDAO.findById(location.manager_id);
+  }
+}
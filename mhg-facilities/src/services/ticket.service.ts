@@ -2,11 +2,32 @@ import { TicketDAO, type TicketFilters } from "@/dao/ticket.dao";
 import { TicketCategoryDAO } from "@/dao/ticket-category.dao";
 import { UserDAO } from "@/dao/user.dao";
 import { LocationDAO } from "@/dao/location.dao";
-import { NotificationService } from "./notification.service";
+import { TicketStatusHistoryDAO } from "@/dao/ticket-status-history.dao";
+import { TicketSLAService } from "./ticket-sla.service";
+import { PMScheduleService } from "./pm-schedule.service";
+import { AssetMeterService } from "./asset-meter.service";
+import { AssetHistoryService } from "./asset-history.service";
+import {
+  PMChecklistService,
+  type TicketChecklist,
+} from "./pm-checklist.service";
+import {
+  TicketRoutingService,
+  type PresetRouting,
+  type RoutingDecision,
+} from "./ticket-routing.service";
 import type { Database, TicketStatus, TicketPriority } from "@/types/database";
+import type { PMChecklist, PMChecklistResults } from "@/types";
+import type { PMCompletionRow } from "@/types/database-extensions";
 
 type Ticket = Database["public"]["Tables"]["tickets"]["Row"];
 
+interface CompletedChecklist {
+  checklist: PMChecklist;
+  results: PMChecklistResults;
+  meter_id: string | null;
+}
+
 export interface CreateTicketInput {
   title: string;
   description?: string | null;
@@ -15,13 +36,23 @@ export interface CreateTicketInput {
   asset_id?: string | null;
   priority?: TicketPriority;
   is_emergency?: boolean;
-  submitted_by: string;
+  /** Null for anonymous public QR reports */
+  submitted_by: string | null;
+  reporter_name?: string | null;
+  reporter_phone?: string | null;
+  submitted_via?: "app" | "qr";
+  due_date?: string | null;
+  parent_ticket_id?: string | null;
+  /** Compliance document this ticket resolves, e.g. a corrective action */
+  compliance_document_id?: string | null;
+  /** Skip auto-routing and use this assignee/vendor */
+  routing?: PresetRouting;
 }
 
 export interface UpdateTicketInput {
   title?: string;
   description?: string;
-  category_id?: string;
+  category_id?: string | null;
   priority?: TicketPriority;
   due_date?: string;
 }
@@ -49,6 +80,7 @@ export interface EmergencyStats {
  * Status Flow:
  * submitted → in_progress → completed → closed
  * Any status can go to: rejected, on_hold
+ * submitted/in_progress ⇄ needs_approval (see CostApprovalService)
  *
  * Note: verified_at is a flag, not a status. Tickets can be verified before closing.
  */
@@ -58,7 +90,14 @@ export class TicketService {
     private categoryDAO = new TicketCategoryDAO(),
     private userDAO = new UserDAO(),
     private locationDAO = new LocationDAO(),
-    private notificationService = new NotificationService(),
+    private slaService = new TicketSLAService(),
+    private routingService = new TicketRoutingService(),
+    private statusHistoryDAO = new TicketStatusHistoryDAO(),
+    // Created on first use: PMScheduleService itself depends on TicketService
+    private pmScheduleService?: PMScheduleService,
+    private pmChecklistService = new PMChecklistService(),
+    private assetMeterService = new AssetMeterService(),
+    private assetHistoryService = new AssetHistoryService(),
   ) {}
 
   // ============================================================
@@ -85,14 +124,14 @@ export class TicketService {
   }
 
   /**
-   * Get ticket by ID with all relations
+   * Get ticket by ID with all relations and current SLA state
    */
   async getTicketById(id: string) {
     const ticket = await this.ticketDAO.findWithRelations(id);
     if (!ticket) {
       throw new Error("Ticket not found");
     }
-    return ticket;
+    return { ...ticket, sla: this.slaService.getSLAState(ticket) };
   }
 
   /**
@@ -119,6 +158,14 @@ export class TicketService {
     return Array.from(ticketMap.values());
   }
 
+  /**
+   * PM checklist for a generated ticket, or null if it has none
+   */
+  async getTicketChecklist(id: string) {
+    await this.getTicketById(id);
+    return this.pmChecklistService.getTicketChecklist(id);
+  }
+
   /**
    * Get ticket statistics
    * PERFORMANCE: Uses COUNT queries instead of loading all tickets into memory
@@ -137,6 +184,7 @@ export class TicketService {
       total,
       by_status: {
         submitted: statusCounts["submitted"] || 0,
+        needs_approval: statusCounts["needs_approval"] || 0,
         in_progress: statusCounts["in_progress"] || 0,
         completed: statusCounts["completed"] || 0,
         closed: statusCounts["closed"] || 0,
@@ -161,6 +209,8 @@ export class TicketService {
 
   /**
    * Create new ticket
+   * The ticket is auto-routed to an assignee/vendor (see TicketRoutingService)
+   * and the decision is recorded in the status history.
    */
   async createTicket(data: CreateTicketInput): Promise<Ticket> {
     // Validate location exists
@@ -170,22 +220,49 @@ export class TicketService {
     }
 
     // Validate category if provided
-    if (data.category_id) {
-      const category = await this.categoryDAO.findById(data.category_id);
-      if (!category) {
-        throw new Error("Category not found");
-      }
+    const category = data.category_id
+      ? await this.categoryDAO.findById(data.category_id)
+      : null;
+    if (data.category_id && !category) {
+      throw new Error("Category not found");
     }
 
     // Validate submitter exists
-    const submitter = await this.userDAO.findById(data.submitted_by);
-    if (!submitter) {
+    const submitter = data.submitted_by
+      ? await this.userDAO.findById(data.submitted_by)
+      : null;
+    if (data.submitted_by && !submitter) {
       throw new Error("Submitter user not found");
     }
 
     // Get next ticket number
     const ticketNumber = await this.ticketDAO.getNextTicketNumber();
 
+    const priority = data.priority ?? "medium";
+    const isEmergency = data.is_emergency ?? false;
+    const deadlines = this.slaService.calculateDeadlines(priority, category);
+
+    // Routing must never block ticket creation
+    let routing: RoutingDecision;
+    try {
+      routing = data.routing
+        ? await this.routingService.applyPreset(data.routing)
+        : await this.routingService.routeTicket({
+            location,
+            category,
+            priority,
+            is_emergency: isEmergency,
+          });
+    } catch (err) {
+      console.error("Failed to auto-route ticket:", err);
+      routing = {
+        rule: "unassigned",
+        assignee: null,
+        vendor_id: null,
+        reason: "Auto-routing failed; left unassigned",
+      };
+    }
+
     // Create ticket
     const ticket = await this.ticketDAO.createTicket({
       ticket_number: ticketNumber,
@@ -194,23 +271,36 @@ export class TicketService {
       category_id: data.category_id ?? null,
       location_id: data.location_id,
       asset_id: data.asset_id ?? null,
-      priority: data.priority ?? "medium",
+      priority,
       status: "submitted",
       submitted_by: data.submitted_by,
-      is_emergency: data.is_emergency ?? false,
+      reporter_name: data.reporter_name ?? null,
+      reporter_phone: data.reporter_phone ?? null,
+      submitted_via: data.submitted_via ?? "app",
+      is_emergency: isEmergency,
+      due_date: data.due_date ?? null,
+      parent_ticket_id: data.parent_ticket_id ?? null,
+      compliance_document_id: data.compliance_document_id ?? null,
+      assigned_to: routing.assignee?.id ?? null,
+      vendor_id: routing.vendor_id,
+      ...deadlines,
     });
 
-    // Notify managers/admins about new ticket (async, don't await)
-    this.notificationService
-      .notifyNewTicketCreated({
-        ticket,
-        submitter,
-        locationName: location.name,
+    await this.statusHistoryDAO
+      .create({
+        ticket_id: ticket.id,
+        from_status: null,
+        to_status: "submitted",
+        changed_by: submitter?.id ?? null,
+        notes:
+          routing.rule === "preset"
+            ? routing.reason
+            : `Auto-routing: ${routing.reason}`,
       })
-      .catch((err) =>
-        console.error("Failed to send new ticket notification:", err),
-      );
+      .catch((err) => console.error("Failed to record routing decision:", err));
 
+    // New-ticket and auto-assignment notifications are queued by the
+    // tickets insert trigger (see notification_outbox)
     return ticket;
   }
 
@@ -219,7 +309,7 @@ export class TicketService {
    */
   async updateTicket(id: string, data: UpdateTicketInput): Promise<Ticket> {
     // Verify ticket exists
-    await this.getTicketById(id);
+    const ticket = await this.getTicketById(id);
 
     // Validate category if provided
     if (data.category_id) {
@@ -229,6 +319,24 @@ export class TicketService {
       }
     }
 
+    // Re-target SLA deadlines from the original creation time when
+    // priority or category changes
+    const priority = data.priority ?? ticket.priority;
+    // null clears the category, so only undefined means unchanged
+    const categoryId =
+      data.category_id !== undefined ? data.category_id : ticket.category_id;
+    if (priority !== ticket.priority || categoryId !== ticket.category_id) {
+      const category = categoryId
+        ? await this.categoryDAO.findById(categoryId)
+        : null;
+      const deadlines = this.slaService.calculateDeadlines(
+        priority,
+        category,
+        new Date(ticket.created_at),
+      );
+      return this.ticketDAO.updateTicket(id, { ...data, ...deadlines });
+    }
+
     return this.ticketDAO.updateTicket(id, data);
   }
 
@@ -266,25 +374,12 @@ export class TicketService {
       throw new Error(`Cannot assign ticket in ${ticket.status} status`);
     }
 
-    const updatedTicket = await this.ticketDAO.updateTicket(id, {
+    // The assignee's notification is queued by the tickets update trigger
+    return this.ticketDAO.updateTicket(id, {
       assigned_to: assigneeId,
+      assigned_by: assignerId,
+      ...this.firstResponseUpdate(ticket),
     });
-
-    // Send notification to assignee (async, don't await)
-    const assigner = await this.userDAO.findById(assignerId);
-    if (assigner) {
-      this.notificationService
-        .notifyTicketAssignment({
-          ticket: updatedTicket,
-          assignedBy: assigner,
-          assignee,
-        })
-        .catch((err) =>
-          console.error("Failed to send ticket assignment notification:", err),
-        );
-    }
-
-    return updatedTicket;
   }
 
   /**
@@ -299,6 +394,12 @@ export class TicketService {
   ): Promise<Ticket> {
     const ticket = await this.getTicketById(id);
 
+    if (ticket.status === "needs_approval") {
+      throw new Error(
+        "Cannot assign ticket to vendor until its cost is approved",
+      );
+    }
+
     // Valid states for vendor assignment
     const validStates: TicketStatus[] = ["submitted", "in_progress"];
     if (!validStates.includes(ticket.status)) {
@@ -312,6 +413,36 @@ export class TicketService {
     });
   }
 
+  /**
+   * Vendor acknowledges a dispatched ticket
+   * Status is unchanged; the acknowledgment counts as the first response
+   * for the response SLA.
+   */
+  async acknowledgeVendorDispatch(
+    id: string,
+    vendorId: string | null,
+  ): Promise<Ticket> {
+    const ticket = await this.getTicketById(id);
+
+    if (!vendorId || ticket.vendor_id !== vendorId) {
+      throw new Error("Only the dispatched vendor can acknowledge this ticket");
+    }
+
+    if (ticket.vendor_acknowledged_at) {
+      throw new Error("Cannot acknowledge a ticket more than once");
+    }
+
+    const validStates: TicketStatus[] = ["submitted", "in_progress", "on_hold"];
+    if (!validStates.includes(ticket.status)) {
+      throw new Error(`Cannot acknowledge ticket in ${ticket.status} status`);
+    }
+
+    return this.ticketDAO.updateTicket(id, {
+      vendor_acknowledged_at: new Date().toISOString(),
+      ...this.firstResponseUpdate(ticket),
+    });
+  }
+
   /**
    * Start work on ticket (submitted → in_progress)
    */
@@ -331,6 +462,10 @@ export class TicketService {
       throw new Error("You are not assigned to this ticket");
     }
 
+    if (ticket.status === "needs_approval") {
+      throw new Error("Cannot start work until the ticket cost is approved");
+    }
+
     // Valid states for starting work
     const validStates: TicketStatus[] = ["submitted"];
     if (!validStates.includes(ticket.status)) {
@@ -339,17 +474,22 @@ export class TicketService {
 
     return this.ticketDAO.updateTicket(id, {
       status: "in_progress",
+      status_changed_by: userId,
       started_at: new Date().toISOString(),
+      ...this.firstResponseUpdate(ticket),
     });
   }
 
   /**
    * Complete ticket (in_progress → completed)
+   * PM-generated tickets with a checklist need every required item
+   * answered; failed items raise follow-up tickets.
    */
   async completeTicket(
     id: string,
     userId: string,
     actualCost?: number,
+    checklistResults?: PMChecklistResults,
   ): Promise<Ticket> {
     const ticket = await this.getTicketById(id);
 
@@ -370,11 +510,46 @@ export class TicketService {
       throw new Error("You are not assigned to this ticket");
     }
 
-    return this.ticketDAO.updateTicket(id, {
+    const checklist = await this.checkPMChecklist(id, checklistResults);
+
+    const completed = await this.ticketDAO.updateTicket(id, {
       status: "completed",
+      status_changed_by: userId,
       completed_at: new Date().toISOString(),
       actual_cost: actualCost ?? null,
     });
+
+    const results = checklist
+      ? await this.createChecklistFollowUps(ticket, userId, checklist)
+      : checklistResults;
+
+    if (checklist && results) {
+      await this.recordChecklistMeterReadings(id, userId, checklist, results);
+    }
+    const pmCompletion = await this.recordPMCompletion(
+      completed,
+      userId,
+      results,
+    );
+    await this.recordAssetHistory(completed, userId, !!pmCompletion);
+
+    return completed;
+  }
+
+  /**
+   * Save PM checklist answers while work is in progress
+   */
+  async saveChecklistProgress(
+    id: string,
+    results: PMChecklistResults,
+  ): Promise<TicketChecklist> {
+    const ticket = await this.getTicketById(id);
+
+    if (ticket.status !== "in_progress") {
+      throw new Error("Only in-progress tickets can record checklist results");
+    }
+
+    return this.pmChecklistService.saveTicketChecklistProgress(id, results);
   }
 
   /**
@@ -411,7 +586,7 @@ export class TicketService {
    */
   async closeTicket(
     id: string,
-    _userId: string,
+    userId: string,
     options?: { cost?: number; notes?: string },
   ): Promise<Ticket> {
     const ticket = await this.getTicketById(id);
@@ -421,17 +596,35 @@ export class TicketService {
       throw new Error("Only in-progress or completed tickets can be closed");
     }
 
-    return this.ticketDAO.updateTicket(id, {
+    // Closing straight from in_progress skips completeTicket, so the
+    // checklist is enforced here too
+    const checklist =
+      ticket.status === "in_progress" ? await this.checkPMChecklist(id) : null;
+
+    const closed = await this.ticketDAO.updateTicket(id, {
       status: "closed",
+      status_changed_by: userId,
       closed_at: new Date().toISOString(),
       actual_cost: options?.cost,
       resolution_notes: options?.notes,
     });
+
+    const results = checklist
+      ? await this.createChecklistFollowUps(ticket, userId, checklist)
+      : undefined;
+
+    if (checklist && results) {
+      await this.recordChecklistMeterReadings(id, userId, checklist, results);
+    }
+    const pmCompletion = await this.recordPMCompletion(closed, userId, results);
+    await this.recordAssetHistory(closed, userId, !!pmCompletion);
+
+    return closed;
   }
 
   /**
    * Reject ticket
-   * Can reject from submitted or in_progress
+   * Can reject from submitted, needs_approval or in_progress
    */
   async rejectTicket(
     id: string,
@@ -445,7 +638,11 @@ export class TicketService {
     const ticket = await this.getTicketById(id);
 
     // Can only reject from early stages
-    const validStates: TicketStatus[] = ["submitted", "in_progress"];
+    const validStates: TicketStatus[] = [
+      "submitted",
+      "needs_approval",
+      "in_progress",
+    ];
     if (!validStates.includes(ticket.status)) {
       throw new Error(`Cannot reject ticket in ${ticket.status} status`);
     }
@@ -462,6 +659,7 @@ export class TicketService {
 
     return this.ticketDAO.updateTicket(id, {
       status: "rejected",
+      status_changed_by: userId,
       // Store reason in description or we could add a rejection_reason field
     });
   }
@@ -484,6 +682,7 @@ export class TicketService {
 
     return this.ticketDAO.updateTicket(id, {
       status: "on_hold",
+      status_changed_by: userId,
     });
   }
 
@@ -491,7 +690,7 @@ export class TicketService {
    * Resume ticket from hold
    * Returns to previous appropriate state
    */
-  async resumeFromHold(id: string, _userId: string): Promise<Ticket> {
+  async resumeFromHold(id: string, userId: string): Promise<Ticket> {
     const ticket = await this.getTicketById(id);
 
     if (ticket.status !== "on_hold") {
@@ -507,6 +706,7 @@ export class TicketService {
 
     return this.ticketDAO.updateTicket(id, {
       status: newStatus,
+      status_changed_by: userId,
     });
   }
 
@@ -533,20 +733,60 @@ export class TicketService {
       );
     }
 
+    // needs_approval is entered and left through cost approvals
+    if (newStatus === "needs_approval") {
+      throw new Error(
+        "Cannot set needs_approval directly; submit a cost for approval instead",
+      );
+    }
+    if (ticket.status === "needs_approval" && newStatus !== "rejected") {
+      throw new Error("Cannot change status until the ticket cost is approved");
+    }
+
+    // Finishing work here skips completeTicket, so the checklist is
+    // enforced here too unless the ticket was already completed
+    const finishing = newStatus === "completed" || newStatus === "closed";
+    const checklist =
+      finishing && ticket.status !== "completed" && ticket.status !== "closed"
+        ? await this.checkPMChecklist(id)
+        : null;
+
     // Build update object with appropriate timestamps
     const now = new Date().toISOString();
-    const updates: Partial<Ticket> = { status: newStatus };
+    const updates: Partial<Ticket> = {
+      status: newStatus,
+      status_changed_by: userId,
+    };
 
     // Set relevant timestamps based on new status
-    if (newStatus === "in_progress" && !ticket.started_at) {
-      updates.started_at = now;
+    if (newStatus === "in_progress") {
+      Object.assign(updates, this.firstResponseUpdate(ticket));
+      if (!ticket.started_at) updates.started_at = now;
     } else if (newStatus === "completed" && !ticket.completed_at) {
       updates.completed_at = now;
     } else if (newStatus === "closed" && !ticket.closed_at) {
       updates.closed_at = now;
     }
 
-    return this.ticketDAO.updateTicket(id, updates);
+    const updated = await this.ticketDAO.updateTicket(id, updates);
+
+    if (finishing) {
+      const results = checklist
+        ? await this.createChecklistFollowUps(ticket, userId, checklist)
+        : undefined;
+
+      if (checklist && results) {
+        await this.recordChecklistMeterReadings(id, userId, checklist, results);
+      }
+      const pmCompletion = await this.recordPMCompletion(
+        updated,
+        userId,
+        results,
+      );
+      await this.recordAssetHistory(updated, userId, !!pmCompletion);
+    }
+
+    return updated;
   }
 
   // ============================================================
@@ -603,7 +843,8 @@ export class TicketService {
 
   /**
    * Create emergency ticket with elevated priority
-   * Emergencies skip the approval workflow and are immediately actionable
+   * Emergencies skip the approval workflow and are immediately actionable.
+   * Routing always sends them to the current on-call person.
    */
   async createEmergencyTicket(
     data: Omit<CreateTicketInput, "is_emergency" | "priority"> & {
@@ -672,7 +913,10 @@ export class TicketService {
       throw new Error("You do not have permission to contain emergencies");
     }
 
-    return this.ticketDAO.markContained(id);
+    return this.ticketDAO.markContained(id, {
+      ...this.firstResponseUpdate(ticket),
+      status_changed_by: userId,
+    });
   }
 
   /**
@@ -716,6 +960,208 @@ export class TicketService {
       throw new Error("You do not have permission to resolve emergencies");
     }
 
-    return this.ticketDAO.markResolved(id, resolutionNotes);
+    return this.ticketDAO.markResolved(id, resolutionNotes, {
+      status_changed_by: userId,
+    });
+  }
+
+  // ============================================================
+  // HELPERS
+  // ============================================================
+
+  /**
+   * Fields that stop the response SLA clock the first time a ticket is
+   * picked up. Escalation restarts from level 0 for the resolution SLA.
+   */
+  private firstResponseUpdate(ticket: Ticket): Partial<Ticket> {
+    if (ticket.first_response_at) return {};
+    return {
+      first_response_at: new Date().toISOString(),
+      escalation_level: 0,
+    };
+  }
+
+  /**
+   * Merge submitted checklist answers with saved progress and require every
+   * required item. Returns null for tickets without a PM checklist.
+   */
+  private async checkPMChecklist(
+    ticketId: string,
+    checklistResults?: PMChecklistResults,
+  ): Promise<CompletedChecklist | null> {
+    const current = await this.pmChecklistService.getTicketChecklist(ticketId);
+    if (!current) return null;
+
+    const results = this.pmChecklistService.mergeResults(
+      current.checklist,
+      current.results,
+      checklistResults,
+    );
+    const { missing } = this.pmChecklistService.evaluate(
+      current.checklist,
+      results,
+    );
+    if (missing.length > 0) {
+      throw new Error(
+        `Cannot complete ticket: required checklist items are incomplete (${missing
+          .map((item) => item.label)
+          .join(", ")})`,
+      );
+    }
+
+    return {
+      checklist: current.checklist,
+      results,
+      meter_id: current.meter_id,
+    };
+  }
+
+  /**
+   * Raise a follow-up ticket for each failed checklist item that does not
+   * have one yet. Returns the results with the follow-up ids filled in.
+   */
+  private async createChecklistFollowUps(
+    parent: Ticket,
+    userId: string,
+    { checklist, results }: CompletedChecklist,
+  ): Promise<PMChecklistResults> {
+    const locationId = parent.location_id;
+    if (!locationId) return results;
+
+    const { failed } = this.pmChecklistService.evaluate(checklist, results);
+    const items = [...results.items];
+
+    for (const item of failed) {
+      const index = items.findIndex((r) => r.item_id === item.id);
+      const result = items[index];
+      if (!result || result.follow_up_ticket_id) continue;
+
+      const details =
+        item.type === "reading"
+          ? `Reading ${result.value}${item.unit ? ` ${item.unit}` : ""} is outside the expected range (${item.min ?? "-"} to ${item.max ?? "-"}).`
+          : "Checklist item failed.";
+
+      try {
+        const followUp = await this.createTicket({
+          title: `Follow-up: ${item.label}`,
+          description: [
+            `Raised from PM checklist on ticket #${parent.ticket_number} (${parent.title}).`,
+            details,
+            result.notes,
+          ]
+            .filter(Boolean)
+            .join("\n\n"),
+          category_id: parent.category_id,
+          location_id: locationId,
+          asset_id: parent.asset_id,
+          priority: parent.priority,
+          submitted_by: userId,
+          parent_ticket_id: parent.id,
+        });
+        items[index] = { ...result, follow_up_ticket_id: followUp.id };
+      } catch (err) {
+        console.error(
+          `Failed to create follow-up for checklist item ${item.id}:`,
+          err,
+        );
+      }
+    }
+
+    return { items };
+  }
+
+  /**
+   * Record reading items flagged as meter readings on the schedule's
+   * meter. Runs before the PM completion so the meter interval restarts
+   * from the new reading. Failures are logged.
+   */
+  private async recordChecklistMeterReadings(
+    ticketId: string,
+    userId: string,
+    { checklist, meter_id }: CompletedChecklist,
+    results: PMChecklistResults,
+  ): Promise<void> {
+    if (!meter_id) return;
+
+    for (const item of checklist.items) {
+      if (item.type !== "reading" || !item.meter_reading) continue;
+
+      const value = results.items.find((r) => r.item_id === item.id)?.value;
+      if (typeof value !== "number") continue;
+
+      try {
+        await this.assetMeterService.recordReading(meter_id, {
+          reading: value,
+          source: "pm_checklist",
+          ticket_id: ticketId,
+          notes: item.label,
+          recorded_by: userId,
+        });
+      } catch (err) {
+        console.error(
+          `Failed to record meter reading from checklist item ${item.id}:`,
+          err,
+        );
+      }
+    }
+  }
+
+  /**
+   * Close out the PM occurrence behind a generated ticket. Failures are
+   * logged rather than undoing the ticket status change.
+   * Returns null when the ticket isn't a PM ticket.
+   */
+  private async recordPMCompletion(
+    ticket: Ticket,
+    userId: string,
+    checklistResults?: PMChecklistResults,
+  ): Promise<PMCompletionRow | null> {
+    this.pmScheduleService ??= new PMScheduleService(
+      undefined,
+      undefined,
+      this,
+    );
+
+    try {
+      return await this.pmScheduleService.recordTicketCompletion(
+        ticket.id,
+        userId,
+        {
+          completedAt: ticket.completed_at ?? ticket.closed_at,
+          checklistResults,
+        },
+      );
+    } catch (err) {
+      console.error(
+        `Failed to record PM completion for ticket ${ticket.id}:`,
+        err,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Add the finished work to the asset's service history. Failures are
+   * logged rather than undoing the ticket status change.
+   */
+  private async recordAssetHistory(
+    ticket: Ticket,
+    userId: string,
+    preventive: boolean,
+  ): Promise<void> {
+    if (!ticket.asset_id) return;
+
+    try {
+      await this.assetHistoryService.recordTicketWork(
+        ticket,
+        userId,
+        preventive,
+      );
+    } catch (err) {
+      console.error(
+        `Failed to record asset history for ticket ${ticket.id}:`,
+        err,
+      );
+    }
   }
 }
@@ -18,6 +18,7 @@ interface UpdateProfileInput {
   fullName?: string;
   phone?: string | null;
   locationId?: string | null;
+  vendorId?: string | null;
   languagePreference?: "en" | "es";
   notificationPreferences?: NotificationPreferences;
 }
@@ -138,11 +139,23 @@ export class UserService {
     if (input.locationId !== undefined) {
       updateData.location_id = input.locationId;
     }
+    if (input.vendorId !== undefined) {
+      updateData.vendor_id = input.vendorId;
+    }
     if (input.languagePreference !== undefined) {
       updateData.language_preference = input.languagePreference;
     }
     if (input.notificationPreferences !== undefined) {
-      updateData.notification_preferences = input.notificationPreferences;
+      // Keep per-event settings, quiet hours and location scope saved from
+      // the notification settings page
+      const user = await this.userDAO.findById(userId);
+      const saved = user?.notification_preferences;
+      updateData.notification_preferences = {
+        ...(saved && typeof saved === "object" && !Array.isArray(saved)
+          ? saved
+          : {}),
+        ...input.notificationPreferences,
+      };
     }
 
     return this.userDAO.update(userId, updateData);
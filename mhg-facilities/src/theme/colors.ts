@@ -181,6 +181,12 @@ export const statusColors = {
     text: "#374151",
     label: "Submitted",
   },
+  needs_approval: {
+    dot: "#eab308",
+    bg: "#fefce8",
+    text: "#a16207",
+    label: "Needs Approval",
+  },
   in_progress: {
     dot: "#8b5cf6",
     bg: "#f5f3ff",
@@ -1,7 +1,19 @@
 // Extension types for tables not yet in main database.ts
 // These should be merged into database.ts when regenerating types
 
-import type { Database as BaseDatabase } from "./database";
+import type {
+  ComplianceStatus,
+  Database as BaseDatabase,
+  InvoiceStatus,
+  Json,
+  NotificationChannel,
+  TicketStatus,
+} from "./database";
+import type {
+  NotificationEvent,
+  PMChecklist,
+  PMChecklistResults,
+} from "./index";
 
 export interface AssetTransferRow {
   id: string;
@@ -90,6 +102,8 @@ export interface ComplianceDocumentTypeRow {
   default_alert_days: number[] | null;
   renewal_checklist: Record<string, unknown> | null;
   is_location_specific: boolean | null;
+  expiring_soon_days: number | null;
+  metadata_patterns: Record<string, unknown> | null;
   created_at: string;
   deleted_at: string | null;
 }
@@ -103,6 +117,8 @@ export interface ComplianceDocumentTypeInsert {
   default_alert_days?: number[] | null;
   renewal_checklist?: Record<string, unknown> | null;
   is_location_specific?: boolean | null;
+  expiring_soon_days?: number | null;
+  metadata_patterns?: Record<string, unknown> | null;
   created_at?: string;
   deleted_at?: string | null;
 }
@@ -113,7 +129,7 @@ export interface PMTemplateRow {
   name: string;
   description: string | null;
   category: string | null;
-  checklist: Record<string, unknown> | null;
+  checklist: PMChecklist | null;
   estimated_duration_hours: number | null;
   default_vendor_id: string | null;
   created_at: string;
@@ -126,13 +142,17 @@ export interface PMTemplateInsert {
   name: string;
   description?: string | null;
   category?: string | null;
-  checklist?: Record<string, unknown> | null;
+  checklist?: PMChecklist | null;
   estimated_duration_hours?: number | null;
   default_vendor_id?: string | null;
   created_at?: string;
   deleted_at?: string | null;
 }
 
+// Who an expiration alert escalated to: location managers, then admins,
+// then the owner
+export type ComplianceAlertRecipientLevel = "manager" | "admin" | "owner";
+
 export interface ComplianceAlertRow {
   id: string;
   document_id: string | null;
@@ -140,6 +160,10 @@ export interface ComplianceAlertRow {
   sent_at: string;
   sent_to: string[] | null;
   delivery_method: string | null;
+  expiration_date: string | null;
+  alert_date: string | null;
+  recipient_level: ComplianceAlertRecipientLevel | null;
+  reinspection_date: string | null;
 }
 
 export interface ComplianceAlertInsert {
@@ -149,6 +173,76 @@ export interface ComplianceAlertInsert {
   sent_at?: string;
   sent_to?: string[] | null;
   delivery_method?: string | null;
+  expiration_date?: string | null;
+  alert_date?: string | null;
+  recipient_level?: ComplianceAlertRecipientLevel | null;
+  reinspection_date?: string | null;
+}
+
+export interface PublicRequestLogRow {
+  id: string;
+  action: string;
+  client_key: string;
+  created_at: string;
+}
+
+export interface PublicRequestLogInsert {
+  id?: string;
+  action: string;
+  client_key: string;
+  created_at?: string;
+}
+
+export interface ComplianceCorrectiveActionRow {
+  id: string;
+  tenant_id: string;
+  document_id: string;
+  description: string;
+  sort_order: number;
+  ticket_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface ComplianceCorrectiveActionInsert {
+  id?: string;
+  tenant_id: string;
+  document_id: string;
+  description: string;
+  sort_order?: number;
+  ticket_id?: string | null;
+  created_by?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  deleted_at?: string | null;
+}
+
+export interface ComplianceStatusHistoryRow {
+  id: string;
+  tenant_id: string;
+  document_id: string;
+  from_status: ComplianceStatus | null;
+  to_status: ComplianceStatus;
+  reason: string;
+  is_automatic: boolean;
+  changed_by: string | null;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface ComplianceStatusHistoryInsert {
+  id?: string;
+  tenant_id: string;
+  document_id: string;
+  from_status?: ComplianceStatus | null;
+  to_status: ComplianceStatus;
+  reason: string;
+  is_automatic?: boolean;
+  changed_by?: string | null;
+  notes?: string | null;
+  created_at?: string;
 }
 
 export interface PMCompletionRow {
@@ -158,9 +252,10 @@ export interface PMCompletionRow {
   scheduled_date: string;
   completed_date: string | null;
   completed_by: string | null;
-  checklist_results: Record<string, unknown> | null;
+  checklist_results: PMChecklistResults | null;
   notes: string | null;
   created_at: string;
+  deleted_at: string | null;
 }
 
 export interface PMCompletionInsert {
@@ -170,9 +265,10 @@ export interface PMCompletionInsert {
   scheduled_date: string;
   completed_date?: string | null;
   completed_by?: string | null;
-  checklist_results?: Record<string, unknown> | null;
+  checklist_results?: PMChecklistResults | null;
   notes?: string | null;
   created_at?: string;
+  deleted_at?: string | null;
 }
 
 export interface ComplianceDocumentVersionRow {
@@ -182,6 +278,9 @@ export interface ComplianceDocumentVersionRow {
   version_number: number;
   uploaded_by: string | null;
   notes: string | null;
+  issue_date: string | null;
+  expiration_date: string | null;
+  renewal_id: string | null;
   created_at: string;
 }
 
@@ -192,9 +291,95 @@ export interface ComplianceDocumentVersionInsert {
   version_number?: number;
   uploaded_by?: string | null;
   notes?: string | null;
+  issue_date?: string | null;
+  expiration_date?: string | null;
+  renewal_id?: string | null;
   created_at?: string;
 }
 
+export type ComplianceRenewalStage =
+  | "not_started"
+  | "submitted"
+  | "in_review"
+  | "approved"
+  | "cancelled";
+
+export interface ComplianceRenewalRow {
+  id: string;
+  tenant_id: string;
+  document_id: string;
+  stage: ComplianceRenewalStage;
+  assigned_to: string | null;
+  cost: number | null;
+  notes: string | null;
+  started_by: string | null;
+  submitted_at: string | null;
+  reviewed_at: string | null;
+  approved_at: string | null;
+  approved_by: string | null;
+  cancelled_at: string | null;
+  new_issue_date: string | null;
+  new_expiration_date: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface ComplianceRenewalInsert {
+  id?: string;
+  tenant_id: string;
+  document_id: string;
+  stage?: ComplianceRenewalStage;
+  assigned_to?: string | null;
+  cost?: number | null;
+  notes?: string | null;
+  started_by?: string | null;
+  submitted_at?: string | null;
+  reviewed_at?: string | null;
+  approved_at?: string | null;
+  approved_by?: string | null;
+  cancelled_at?: string | null;
+  new_issue_date?: string | null;
+  new_expiration_date?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  deleted_at?: string | null;
+}
+
+export interface ComplianceRenewalTaskRow {
+  id: string;
+  tenant_id: string;
+  renewal_id: string;
+  checklist_item_id: string | null;
+  title: string;
+  description: string | null;
+  sort_order: number;
+  assigned_to: string | null;
+  due_date: string | null;
+  completed_at: string | null;
+  completed_by: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface ComplianceRenewalTaskInsert {
+  id?: string;
+  tenant_id: string;
+  renewal_id: string;
+  checklist_item_id?: string | null;
+  title: string;
+  description?: string | null;
+  sort_order?: number;
+  assigned_to?: string | null;
+  due_date?: string | null;
+  completed_at?: string | null;
+  completed_by?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  deleted_at?: string | null;
+}
+
 export interface BudgetRow {
   id: string;
   tenant_id: string;
@@ -234,11 +419,20 @@ export interface BudgetUpdate {
   deleted_at?: string | null;
 }
 
+export type AssetMaintenanceType =
+  | "repair"
+  | "preventive"
+  | "inspection"
+  | "replacement"
+  | "warranty_claim"
+  | "transfer";
+
 export interface AssetHistoryRow {
   id: string;
+  tenant_id: string | null;
   asset_id: string | null;
   ticket_id: string | null;
-  maintenance_type: string | null;
+  maintenance_type: AssetMaintenanceType | null;
   description: string | null;
   cost: number | null;
   performed_by: string | null;
@@ -248,9 +442,10 @@ export interface AssetHistoryRow {
 
 export interface AssetHistoryInsert {
   id?: string;
+  tenant_id?: string | null;
   asset_id?: string | null;
   ticket_id?: string | null;
-  maintenance_type?: string | null;
+  maintenance_type?: AssetMaintenanceType | null;
   description?: string | null;
   cost?: number | null;
   performed_by?: string | null;
@@ -258,6 +453,38 @@ export interface AssetHistoryInsert {
   performed_at?: string;
 }
 
+export interface AssetReplacementPolicyRow {
+  id: string;
+  tenant_id: string;
+  repair_cost_percent: number;
+  failure_threshold: number;
+  failure_window_days: number;
+  flag_past_lifespan: boolean;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface AssetReplacementPolicyInsert {
+  id?: string;
+  tenant_id: string;
+  repair_cost_percent?: number;
+  failure_threshold?: number;
+  failure_window_days?: number;
+  flag_past_lifespan?: boolean;
+  created_at?: string;
+  updated_at?: string;
+  deleted_at?: string | null;
+}
+
+export interface AssetReplacementPolicyUpdate {
+  repair_cost_percent?: number;
+  failure_threshold?: number;
+  failure_window_days?: number;
+  flag_past_lifespan?: boolean;
+  deleted_at?: string | null;
+}
+
 export interface OnCallScheduleRow {
   id: string;
   tenant_id: string;
@@ -363,6 +590,459 @@ export interface AssetVendorUpdate {
   deleted_at?: string | null;
 }
 
+export interface TicketEscalationRow {
+  id: string;
+  ticket_id: string;
+  sla_type: "response" | "resolution";
+  level: number;
+  reason: string | null;
+  notified_user_ids: string[] | null;
+  created_at: string;
+}
+
+export interface TicketEscalationInsert {
+  id?: string;
+  ticket_id: string;
+  sla_type: "response" | "resolution";
+  level: number;
+  reason?: string | null;
+  notified_user_ids?: string[] | null;
+  created_at?: string;
+}
+
+export type AssetMeterUnit = "hours" | "cycles" | "gallons";
+
+export interface AssetMeterRow {
+  id: string;
+  tenant_id: string;
+  asset_id: string;
+  name: string;
+  unit: AssetMeterUnit;
+  current_reading: number;
+  last_read_at: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface AssetMeterInsert {
+  id?: string;
+  tenant_id: string;
+  asset_id: string;
+  name: string;
+  unit: AssetMeterUnit;
+  current_reading?: number;
+  last_read_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  deleted_at?: string | null;
+}
+
+export interface AssetMeterUpdate {
+  name?: string;
+  unit?: AssetMeterUnit;
+  current_reading?: number;
+  last_read_at?: string | null;
+  deleted_at?: string | null;
+}
+
+export type MeterReadingSource = "manual" | "qr" | "pm_checklist";
+
+export interface AssetMeterReadingRow {
+  id: string;
+  meter_id: string;
+  reading: number;
+  source: MeterReadingSource;
+  ticket_id: string | null;
+  notes: string | null;
+  recorded_by: string | null;
+  recorded_at: string;
+}
+
+export interface AssetMeterReadingInsert {
+  id?: string;
+  meter_id: string;
+  reading: number;
+  source?: MeterReadingSource;
+  ticket_id?: string | null;
+  notes?: string | null;
+  recorded_by?: string | null;
+  recorded_at?: string;
+}
+
+export type CostApprovalStatus = "pending" | "approved" | "denied";
+export type CostApprovalSource = "estimate" | "quote";
+export type CostApproverRole = "manager" | "admin" | "super_admin";
+
+export interface CostApprovalPolicyRow {
+  id: string;
+  tenant_id: string;
+  is_enabled: boolean;
+  auto_approve_limit: number;
+  manager_limit: number;
+  admin_limit: number;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface CostApprovalPolicyInsert {
+  id?: string;
+  tenant_id: string;
+  is_enabled?: boolean;
+  auto_approve_limit?: number;
+  manager_limit?: number;
+  admin_limit?: number;
+  created_at?: string;
+  updated_at?: string;
+  deleted_at?: string | null;
+}
+
+export interface CostApprovalPolicyUpdate {
+  is_enabled?: boolean;
+  auto_approve_limit?: number;
+  manager_limit?: number;
+  admin_limit?: number;
+  deleted_at?: string | null;
+}
+
+export interface CostApprovalRow {
+  id: string;
+  tenant_id: string;
+  ticket_id: string;
+  amount: number;
+  source: CostApprovalSource;
+  vendor_id: string | null;
+  status: CostApprovalStatus;
+  required_role: CostApproverRole | null;
+  previous_status: TicketStatus | null;
+  request_notes: string | null;
+  requested_by: string | null;
+  requested_at: string;
+  decided_by: string | null;
+  decided_at: string | null;
+  decision_notes: string | null;
+}
+
+export interface CostApprovalInsert {
+  id?: string;
+  tenant_id: string;
+  ticket_id: string;
+  amount: number;
+  source: CostApprovalSource;
+  vendor_id?: string | null;
+  status?: CostApprovalStatus;
+  required_role?: CostApproverRole | null;
+  previous_status?: TicketStatus | null;
+  request_notes?: string | null;
+  requested_by?: string | null;
+  requested_at?: string;
+  decided_by?: string | null;
+  decided_at?: string | null;
+  decision_notes?: string | null;
+}
+
+export interface CostApprovalUpdate {
+  status?: CostApprovalStatus;
+  decided_by?: string | null;
+  decided_at?: string | null;
+  decision_notes?: string | null;
+}
+
+export type InvoicePaymentMethod = "check" | "ach" | "card" | "cash" | "other";
+
+export interface InvoiceRow {
+  id: string;
+  tenant_id: string;
+  vendor_id: string;
+  ticket_id: string;
+  invoice_number: string;
+  invoice_date: string;
+  due_date: string | null;
+  status: InvoiceStatus;
+  subtotal: number;
+  tax_amount: number;
+  total_amount: number;
+  amount_paid: number;
+  attachment_id: string | null;
+  notes: string | null;
+  approved_by: string | null;
+  approved_at: string | null;
+  disputed_by: string | null;
+  disputed_at: string | null;
+  dispute_reason: string | null;
+  paid_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface InvoiceInsert {
+  id?: string;
+  tenant_id: string;
+  vendor_id: string;
+  ticket_id: string;
+  invoice_number: string;
+  invoice_date: string;
+  due_date?: string | null;
+  status?: InvoiceStatus;
+  subtotal?: number;
+  tax_amount?: number;
+  total_amount?: number;
+  amount_paid?: number;
+  attachment_id?: string | null;
+  notes?: string | null;
+  approved_by?: string | null;
+  approved_at?: string | null;
+  disputed_by?: string | null;
+  disputed_at?: string | null;
+  dispute_reason?: string | null;
+  paid_at?: string | null;
+  created_by?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  deleted_at?: string | null;
+}
+
+export interface InvoiceUpdate {
+  invoice_number?: string;
+  invoice_date?: string;
+  due_date?: string | null;
+  status?: InvoiceStatus;
+  subtotal?: number;
+  tax_amount?: number;
+  total_amount?: number;
+  amount_paid?: number;
+  attachment_id?: string | null;
+  notes?: string | null;
+  approved_by?: string | null;
+  approved_at?: string | null;
+  disputed_by?: string | null;
+  disputed_at?: string | null;
+  dispute_reason?: string | null;
+  paid_at?: string | null;
+  deleted_at?: string | null;
+}
+
+export interface InvoiceLineItemRow {
+  id: string;
+  tenant_id: string;
+  invoice_id: string;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+  sort_order: number;
+  created_at: string;
+}
+
+export interface InvoiceLineItemInsert {
+  id?: string;
+  tenant_id: string;
+  invoice_id: string;
+  description: string;
+  quantity?: number;
+  unit_price: number;
+  amount: number;
+  sort_order?: number;
+  created_at?: string;
+}
+
+export interface InvoicePaymentRow {
+  id: string;
+  tenant_id: string;
+  invoice_id: string;
+  amount: number;
+  paid_on: string;
+  method: InvoicePaymentMethod;
+  reference: string | null;
+  notes: string | null;
+  recorded_by: string | null;
+  recorded_at: string;
+}
+
+export interface InvoicePaymentInsert {
+  id?: string;
+  tenant_id: string;
+  invoice_id: string;
+  amount: number;
+  paid_on: string;
+  method?: InvoicePaymentMethod;
+  reference?: string | null;
+  notes?: string | null;
+  recorded_by?: string | null;
+  recorded_at?: string;
+}
+
+// ============================================================
+// NOTIFICATION POLICIES
+// ============================================================
+
+export interface NotificationPolicyRow {
+  id: string;
+  tenant_id: string;
+  critical_overrides_quiet_hours: boolean;
+  slack_webhook_url: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface NotificationPolicyInsert {
+  id?: string;
+  tenant_id: string;
+  critical_overrides_quiet_hours?: boolean;
+  slack_webhook_url?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  deleted_at?: string | null;
+}
+
+export interface NotificationPolicyUpdate {
+  critical_overrides_quiet_hours?: boolean;
+  slack_webhook_url?: string | null;
+  deleted_at?: string | null;
+}
+
+// ============================================================
+// PUSH SUBSCRIPTIONS
+// ============================================================
+
+export interface PushSubscriptionRow {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  user_agent: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface PushSubscriptionInsert {
+  id?: string;
+  tenant_id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  user_agent?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  deleted_at?: string | null;
+}
+
+// ============================================================
+// NOTIFICATION OUTBOX
+// ============================================================
+
+export type NotificationOutboxStatus =
+  | "queued"
+  | "processing"
+  | "sent"
+  | "failed"
+  | "bounced";
+export type NotificationDeliveryStatus = "sent" | "failed" | "bounced";
+
+export interface NotificationOutboxRow {
+  id: string;
+  tenant_id: string;
+  event: NotificationEvent;
+  payload: Json;
+  status: NotificationOutboxStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  locked_at: string | null;
+  last_error: string | null;
+  sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface NotificationOutboxInsert {
+  id?: string;
+  tenant_id: string;
+  event: NotificationEvent;
+  payload: Json;
+  status?: NotificationOutboxStatus;
+  attempts?: number;
+  max_attempts?: number;
+  next_attempt_at?: string;
+  locked_at?: string | null;
+  last_error?: string | null;
+  sent_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  deleted_at?: string | null;
+}
+
+export interface NotificationDeliveryRow {
+  id: string;
+  tenant_id: string;
+  outbox_id: string;
+  attempt: number;
+  channel: NotificationChannel;
+  recipient_id: string | null;
+  address: string;
+  status: NotificationDeliveryStatus;
+  provider_message_id: string | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NotificationDeliveryInsert {
+  id?: string;
+  tenant_id: string;
+  outbox_id: string;
+  attempt: number;
+  channel: NotificationChannel;
+  recipient_id?: string | null;
+  address: string;
+  status: NotificationDeliveryStatus;
+  provider_message_id?: string | null;
+  error?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// ============================================================
+// IN-APP NOTIFICATIONS
+// ============================================================
+
+export interface NotificationRow {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  event: NotificationEvent;
+  title: string;
+  body: string | null;
+  link: string | null;
+  read_at: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface NotificationInsert {
+  id?: string;
+  tenant_id: string;
+  user_id: string;
+  event: NotificationEvent;
+  title: string;
+  body?: string | null;
+  link?: string | null;
+  read_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  deleted_at?: string | null;
+}
+
 // Extended Database type with additional tables
 export type Database = BaseDatabase & {
   public: {
@@ -392,11 +1072,21 @@ export type Database = BaseDatabase & {
         Insert: PMTemplateInsert;
         Update: Partial<PMTemplateInsert>;
       };
+      public_request_log: {
+        Row: PublicRequestLogRow;
+        Insert: PublicRequestLogInsert;
+        Update: Partial<PublicRequestLogInsert>;
+      };
       compliance_alerts: {
         Row: ComplianceAlertRow;
         Insert: ComplianceAlertInsert;
         Update: Partial<ComplianceAlertInsert>;
       };
+      compliance_status_history: {
+        Row: ComplianceStatusHistoryRow;
+        Insert: ComplianceStatusHistoryInsert;
+        Update: Partial<ComplianceStatusHistoryInsert>;
+      };
       pm_completions: {
         Row: PMCompletionRow;
         Insert: PMCompletionInsert;
@@ -407,6 +1097,21 @@ export type Database = BaseDatabase & {
         Insert: ComplianceDocumentVersionInsert;
         Update: Partial<ComplianceDocumentVersionInsert>;
       };
+      compliance_corrective_actions: {
+        Row: ComplianceCorrectiveActionRow;
+        Insert: ComplianceCorrectiveActionInsert;
+        Update: Partial<ComplianceCorrectiveActionInsert>;
+      };
+      compliance_renewals: {
+        Row: ComplianceRenewalRow;
+        Insert: ComplianceRenewalInsert;
+        Update: Partial<ComplianceRenewalInsert>;
+      };
+      compliance_renewal_tasks: {
+        Row: ComplianceRenewalTaskRow;
+        Insert: ComplianceRenewalTaskInsert;
+        Update: Partial<ComplianceRenewalTaskInsert>;
+      };
       budgets: {
         Row: BudgetRow;
         Insert: BudgetInsert;
@@ -417,6 +1122,11 @@ export type Database = BaseDatabase & {
         Insert: AssetHistoryInsert;
         Update: Partial<AssetHistoryInsert>;
       };
+      asset_replacement_policies: {
+        Row: AssetReplacementPolicyRow;
+        Insert: AssetReplacementPolicyInsert;
+        Update: AssetReplacementPolicyUpdate;
+      };
       on_call_schedules: {
         Row: OnCallScheduleRow;
         Insert: OnCallScheduleInsert;
@@ -432,6 +1142,71 @@ export type Database = BaseDatabase & {
         Insert: AssetVendorInsert;
         Update: AssetVendorUpdate;
       };
+      ticket_escalations: {
+        Row: TicketEscalationRow;
+        Insert: TicketEscalationInsert;
+        Update: Partial<TicketEscalationInsert>;
+      };
+      asset_meters: {
+        Row: AssetMeterRow;
+        Insert: AssetMeterInsert;
+        Update: AssetMeterUpdate;
+      };
+      asset_meter_readings: {
+        Row: AssetMeterReadingRow;
+        Insert: AssetMeterReadingInsert;
+        Update: Partial<AssetMeterReadingInsert>;
+      };
+      cost_approval_policies: {
+        Row: CostApprovalPolicyRow;
+        Insert: CostApprovalPolicyInsert;
+        Update: CostApprovalPolicyUpdate;
+      };
+      cost_approvals: {
+        Row: CostApprovalRow;
+        Insert: CostApprovalInsert;
+        Update: CostApprovalUpdate;
+      };
+      invoices: {
+        Row: InvoiceRow;
+        Insert: InvoiceInsert;
+        Update: InvoiceUpdate;
+      };
+      invoice_line_items: {
+        Row: InvoiceLineItemRow;
+        Insert: InvoiceLineItemInsert;
+        Update: Partial<InvoiceLineItemInsert>;
+      };
+      invoice_payments: {
+        Row: InvoicePaymentRow;
+        Insert: InvoicePaymentInsert;
+        Update: Partial<InvoicePaymentInsert>;
+      };
+      notification_policies: {
+        Row: NotificationPolicyRow;
+        Insert: NotificationPolicyInsert;
+        Update: NotificationPolicyUpdate;
+      };
+      push_subscriptions: {
+        Row: PushSubscriptionRow;
+        Insert: PushSubscriptionInsert;
+        Update: Partial<PushSubscriptionInsert>;
+      };
+      notification_outbox: {
+        Row: NotificationOutboxRow;
+        Insert: NotificationOutboxInsert;
+        Update: Partial<NotificationOutboxInsert>;
+      };
+      notification_deliveries: {
+        Row: NotificationDeliveryRow;
+        Insert: NotificationDeliveryInsert;
+        Update: Partial<NotificationDeliveryInsert>;
+      };
+      notifications: {
+        Row: NotificationRow;
+        Insert: NotificationInsert;
+        Update: Partial<NotificationInsert>;
+      };
     };
   };
 };
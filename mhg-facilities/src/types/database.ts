@@ -31,6 +31,7 @@ export type AssetStatus =
   | "disposed";
 export type TicketStatus =
   | "submitted"
+  | "needs_approval"
   | "in_progress"
   | "completed"
   | "closed"
@@ -56,7 +57,10 @@ export type PMFrequency =
   | "quarterly"
   | "semi_annually"
   | "annually";
-export type NotificationChannel = "email" | "sms" | "push" | "slack";
+export type PMSchedulingMode = "fixed" | "floating";
+export type PMTriggerType = "calendar" | "meter" | "calendar_or_meter";
+export type DepreciationMethod = "straight_line" | "declining_balance" | "none";
+export type NotificationChannel = "email" | "sms" | "push" | "slack" | "in_app";
 
 export interface Database {
   public: {
@@ -145,6 +149,7 @@ export interface Database {
           role: UserRole;
           phone: string | null;
           location_id: string | null;
+          vendor_id: string | null;
           language_preference: "en" | "es";
           is_active: boolean;
           must_set_password: boolean;
@@ -163,6 +168,7 @@ export interface Database {
           role?: UserRole;
           phone?: string | null;
           location_id?: string | null;
+          vendor_id?: string | null;
           language_preference?: "en" | "es";
           is_active?: boolean;
           must_set_password?: boolean;
@@ -181,6 +187,7 @@ export interface Database {
           role?: UserRole;
           phone?: string | null;
           location_id?: string | null;
+          vendor_id?: string | null;
           language_preference?: "en" | "es";
           is_active?: boolean;
           must_set_password?: boolean;
@@ -202,6 +209,7 @@ export interface Database {
           expires_at: string;
           accepted_at: string | null;
           location_id: string | null;
+          vendor_id: string | null;
           created_at: string;
           deleted_at: string | null;
         };
@@ -215,6 +223,7 @@ export interface Database {
           expires_at?: string;
           accepted_at?: string | null;
           location_id?: string | null;
+          vendor_id?: string | null;
           created_at?: string;
           deleted_at?: string | null;
         };
@@ -228,6 +237,7 @@ export interface Database {
           expires_at?: string;
           accepted_at?: string | null;
           location_id?: string | null;
+          vendor_id?: string | null;
           created_at?: string;
           deleted_at?: string | null;
         };
@@ -249,6 +259,8 @@ export interface Database {
           status: LocationStatus;
           opened_date: string | null;
           closed_date: string | null;
+          business_hours: Json | null;
+          qr_code: string | null;
           created_at: string;
           updated_at: string;
           deleted_at: string | null;
@@ -269,6 +281,8 @@ export interface Database {
           status?: LocationStatus;
           opened_date?: string | null;
           closed_date?: string | null;
+          business_hours?: Json | null;
+          qr_code?: string | null;
           created_at?: string;
           updated_at?: string;
           deleted_at?: string | null;
@@ -289,6 +303,8 @@ export interface Database {
           status?: LocationStatus;
           opened_date?: string | null;
           closed_date?: string | null;
+          business_hours?: Json | null;
+          qr_code?: string | null;
           created_at?: string;
           updated_at?: string;
           deleted_at?: string | null;
@@ -375,6 +391,8 @@ export interface Database {
           name: string;
           description: string | null;
           default_lifespan_years: number | null;
+          depreciation_method: DepreciationMethod;
+          salvage_value_percent: number;
           parent_category_id: string | null;
           created_at: string;
           deleted_at: string | null;
@@ -385,6 +403,8 @@ export interface Database {
           name: string;
           description?: string | null;
           default_lifespan_years?: number | null;
+          depreciation_method?: DepreciationMethod;
+          salvage_value_percent?: number;
           parent_category_id?: string | null;
           created_at?: string;
           deleted_at?: string | null;
@@ -395,6 +415,8 @@ export interface Database {
           name?: string;
           description?: string | null;
           default_lifespan_years?: number | null;
+          depreciation_method?: DepreciationMethod;
+          salvage_value_percent?: number;
           parent_category_id?: string | null;
           created_at?: string;
           deleted_at?: string | null;
@@ -479,6 +501,7 @@ export interface Database {
           default_assignee_id: string | null;
           preferred_vendor_id: string | null;
           escalation_hours: number;
+          resolution_hours: number | null;
           created_at: string;
           deleted_at: string | null;
         };
@@ -492,6 +515,7 @@ export interface Database {
           default_assignee_id?: string | null;
           preferred_vendor_id?: string | null;
           escalation_hours?: number;
+          resolution_hours?: number | null;
           created_at?: string;
           deleted_at?: string | null;
         };
@@ -505,6 +529,7 @@ export interface Database {
           default_assignee_id?: string | null;
           preferred_vendor_id?: string | null;
           escalation_hours?: number;
+          resolution_hours?: number | null;
           created_at?: string;
           deleted_at?: string | null;
         };
@@ -523,8 +548,14 @@ export interface Database {
           status: TicketStatus;
           submitted_by: string | null;
           assigned_to: string | null;
+          assigned_by: string | null;
+          status_changed_by: string | null;
           vendor_id: string | null;
           parent_ticket_id: string | null;
+          compliance_document_id: string | null;
+          reporter_name: string | null;
+          reporter_phone: string | null;
+          submitted_via: "app" | "qr";
           related_ticket_ids: string[] | null;
           merged_into_ticket_id: string | null;
           is_duplicate: boolean;
@@ -539,6 +570,14 @@ export interface Database {
           is_emergency: boolean;
           contained_at: string | null;
           resolution_notes: string | null;
+          response_due_at: string | null;
+          resolution_due_at: string | null;
+          first_response_at: string | null;
+          vendor_acknowledged_at: string | null;
+          sla_next_breach_at: string | null;
+          sla_at_risk_at: string | null;
+          escalation_level: number;
+          escalated_at: string | null;
           created_at: string;
           updated_at: string;
           deleted_at: string | null;
@@ -556,8 +595,14 @@ export interface Database {
           status?: TicketStatus;
           submitted_by?: string | null;
           assigned_to?: string | null;
+          assigned_by?: string | null;
+          status_changed_by?: string | null;
           vendor_id?: string | null;
           parent_ticket_id?: string | null;
+          compliance_document_id?: string | null;
+          reporter_name?: string | null;
+          reporter_phone?: string | null;
+          submitted_via?: "app" | "qr";
           related_ticket_ids?: string[] | null;
           merged_into_ticket_id?: string | null;
           is_duplicate?: boolean;
@@ -572,6 +617,14 @@ export interface Database {
           is_emergency?: boolean;
           contained_at?: string | null;
           resolution_notes?: string | null;
+          response_due_at?: string | null;
+          resolution_due_at?: string | null;
+          first_response_at?: string | null;
+          vendor_acknowledged_at?: string | null;
+          sla_next_breach_at?: string | null;
+          sla_at_risk_at?: string | null;
+          escalation_level?: number;
+          escalated_at?: string | null;
           created_at?: string;
           updated_at?: string;
           deleted_at?: string | null;
@@ -589,8 +642,14 @@ export interface Database {
           status?: TicketStatus;
           submitted_by?: string | null;
           assigned_to?: string | null;
+          assigned_by?: string | null;
+          status_changed_by?: string | null;
           vendor_id?: string | null;
           parent_ticket_id?: string | null;
+          compliance_document_id?: string | null;
+          reporter_name?: string | null;
+          reporter_phone?: string | null;
+          submitted_via?: "app" | "qr";
           related_ticket_ids?: string[] | null;
           merged_into_ticket_id?: string | null;
           is_duplicate?: boolean;
@@ -605,6 +664,14 @@ export interface Database {
           is_emergency?: boolean;
           contained_at?: string | null;
           resolution_notes?: string | null;
+          response_due_at?: string | null;
+          resolution_due_at?: string | null;
+          first_response_at?: string | null;
+          vendor_acknowledged_at?: string | null;
+          sla_next_breach_at?: string | null;
+          sla_at_risk_at?: string | null;
+          escalation_level?: number;
+          escalated_at?: string | null;
           created_at?: string;
           updated_at?: string;
           deleted_at?: string | null;
@@ -633,6 +700,9 @@ export interface Database {
           failed_inspection_date: string | null;
           corrective_action_required: string | null;
           reinspection_date: string | null;
+          conditional_deadline_missed_at: string | null;
+          reinspection_missed_at: string | null;
+          alert_days: number[] | null;
           notes: string | null;
           created_at: string;
           updated_at: string;
@@ -660,6 +730,9 @@ export interface Database {
           failed_inspection_date?: string | null;
           corrective_action_required?: string | null;
           reinspection_date?: string | null;
+          conditional_deadline_missed_at?: string | null;
+          reinspection_missed_at?: string | null;
+          alert_days?: number[] | null;
           notes?: string | null;
           created_at?: string;
           updated_at?: string;
@@ -687,6 +760,9 @@ export interface Database {
           failed_inspection_date?: string | null;
           corrective_action_required?: string | null;
           reinspection_date?: string | null;
+          conditional_deadline_missed_at?: string | null;
+          reinspection_missed_at?: string | null;
+          alert_days?: number[] | null;
           notes?: string | null;
           created_at?: string;
           updated_at?: string;
@@ -702,7 +778,12 @@ export interface Database {
           description: string | null;
           asset_id: string | null;
           location_id: string | null;
-          frequency: PMFrequency;
+          frequency: PMFrequency | null;
+          scheduling_mode: PMSchedulingMode;
+          trigger_type: PMTriggerType;
+          meter_id: string | null;
+          meter_interval: number | null;
+          meter_last_service_reading: number | null;
           day_of_week: number | null;
           day_of_month: number | null;
           month_of_year: number | null;
@@ -724,7 +805,12 @@ export interface Database {
           description?: string | null;
           asset_id?: string | null;
           location_id?: string | null;
-          frequency?: PMFrequency;
+          frequency?: PMFrequency | null;
+          scheduling_mode?: PMSchedulingMode;
+          trigger_type?: PMTriggerType;
+          meter_id?: string | null;
+          meter_interval?: number | null;
+          meter_last_service_reading?: number | null;
           day_of_week?: number | null;
           day_of_month?: number | null;
           month_of_year?: number | null;
@@ -746,7 +832,12 @@ export interface Database {
           description?: string | null;
           asset_id?: string | null;
           location_id?: string | null;
-          frequency?: PMFrequency;
+          frequency?: PMFrequency | null;
+          scheduling_mode?: PMSchedulingMode;
+          trigger_type?: PMTriggerType;
+          meter_id?: string | null;
+          meter_interval?: number | null;
+          meter_last_service_reading?: number | null;
           day_of_week?: number | null;
           day_of_month?: number | null;
           month_of_year?: number | null;
@@ -1,6 +1,8 @@
 // Re-export all database types
 export * from "./database";
 
+import type { TicketStatus } from "./database";
+
 // Tenant Settings types
 export interface TenantFeatures {
   compliance_tracking: boolean;
@@ -30,6 +32,87 @@ export interface TenantSettings {
   };
 }
 
+// Location business hours (locations.business_hours)
+// days: 0 = Sunday ... 6 = Saturday; open/close are "HH:mm" in the timezone
+export type BusinessHours = {
+  timezone: string;
+  days: number[];
+  open: string;
+  close: string;
+};
+
+// PM checklist (pm_templates.checklist)
+// reading items fail when the value is outside min/max; photo items are
+// done once at least one ticket attachment is linked
+export type PMChecklistItemType = "pass_fail" | "reading" | "text" | "photo";
+
+export type PMChecklistItem = {
+  id: string;
+  label: string;
+  type: PMChecklistItemType;
+  required: boolean;
+  instructions?: string | null;
+  unit?: string | null;
+  min?: number | null;
+  max?: number | null;
+  // Reading items only: record the value on the schedule's asset meter
+  meter_reading?: boolean;
+};
+
+export type PMChecklist = {
+  items: PMChecklistItem[];
+};
+
+// PM checklist results (pm_completions.checklist_results)
+export type PMChecklistItemResult = {
+  item_id: string;
+  passed?: boolean | null;
+  value?: number | null;
+  text?: string | null;
+  attachment_ids?: string[];
+  notes?: string | null;
+  // Corrective ticket raised when the item failed
+  follow_up_ticket_id?: string | null;
+};
+
+export type PMChecklistResults = {
+  items: PMChecklistItemResult[];
+};
+
+// Compliance renewal checklist (compliance_document_types.renewal_checklist)
+export type ComplianceRenewalChecklistItem = {
+  id: string;
+  label: string;
+  description?: string | null;
+};
+
+export type ComplianceRenewalChecklist = {
+  items: ComplianceRenewalChecklistItem[];
+};
+
+// Fields suggested from an uploaded compliance PDF
+export type ComplianceMetadataField =
+  | "issue_date"
+  | "expiration_date"
+  | "document_number"
+  | "issuing_authority";
+
+// Per-type extraction patterns (compliance_document_types.metadata_patterns).
+// Case-insensitive regex sources; capture group 1 is the value.
+export type ComplianceMetadataPatterns = Partial<
+  Record<ComplianceMetadataField, string[]>
+>;
+
+export type ComplianceMetadataSuggestion = {
+  value: string;
+  // The text the pattern matched, to show alongside the suggestion
+  excerpt: string;
+};
+
+export type ComplianceMetadataSuggestions = Partial<
+  Record<ComplianceMetadataField, ComplianceMetadataSuggestion>
+>;
+
 // Tenant context type
 export interface TenantContext {
   id: string;
@@ -38,13 +121,123 @@ export interface TenantContext {
   settings: TenantSettings;
 }
 
-// User notification preferences
+// User notification preferences (users.notification_preferences)
+// email/sms/push are the channel switches. events turns individual event
+// types off per channel; anything missing follows the channel switch.
+export type NotificationEvent =
+  | "ticket_created"
+  | "ticket_assigned"
+  | "ticket_status_changed"
+  | "ticket_mentioned"
+  | "ticket_escalated"
+  | "cost_approval_requested"
+  | "cost_approval_decided"
+  | "pm_due"
+  | "compliance_expiring"
+  | "compliance_reinspection_due"
+  | "digest";
+
+export type NotificationDeliveryChannel = "email" | "sms" | "push";
+
+export type DigestFrequency = "daily" | "weekly";
+
+// start/end are "HH:mm" in the timezone; end earlier than start spans midnight
+export type QuietHours = {
+  enabled: boolean;
+  start: string;
+  end: string;
+  timezone: string;
+};
+
 export interface NotificationPreferences {
   email: boolean;
   sms: boolean;
   push: boolean;
+  events?: Partial<
+    Record<
+      NotificationEvent,
+      Partial<Record<NotificationDeliveryChannel, boolean>>
+    >
+  >;
+  quiet_hours?: QuietHours | null;
+  // Only notify about these locations; empty or missing means all
+  location_ids?: string[];
+  // Summary email of open work; null or missing means none
+  digest?: DigestFrequency | null;
+}
+
+/**
+ * notification_outbox payload per event. Messages hold ids rather than
+ * rows so the worker sends what is current when it runs.
+ */
+export interface NotificationOutboxPayloads {
+  ticket_created: { ticket_id: string };
+  ticket_assigned: {
+    ticket_id: string;
+    assignee_id: string;
+    // NULL when auto-routing assigned the ticket
+    assigned_by: string | null;
+  };
+  ticket_status_changed: {
+    ticket_id: string;
+    from_status: TicketStatus;
+    to_status: TicketStatus;
+    // NULL for system changes
+    changed_by: string | null;
+  };
+  ticket_mentioned: {
+    ticket_id: string;
+    comment_id: string;
+    author_id: string;
+    user_ids: string[];
+  };
+  ticket_escalated: {
+    ticket_id: string;
+    level: number;
+    reason: string;
+    recipient_ids: string[];
+  };
+  cost_approval_requested: {
+    ticket_id: string;
+    amount: number;
+    source: string;
+    notes: string | null;
+    requested_by: string;
+    approver_ids: string[];
+  };
+  cost_approval_decided: {
+    ticket_id: string;
+    amount: number;
+    approved: boolean;
+    notes: string;
+    decided_by: string;
+    recipient_id: string;
+  };
+  pm_due: {
+    schedule_id: string;
+    assignee_id: string;
+    due_date: string;
+  };
+  compliance_expiring: {
+    document_id: string;
+    days_until_expiration: number;
+    recipient_ids: string[];
+  };
+  compliance_reinspection_due: {
+    document_id: string;
+    days_until_reinspection: number;
+    recipient_ids: string[];
+  };
+  digest: {
+    user_id: string;
+    frequency: DigestFrequency;
+    // Start of the period the digest covers (ISO timestamp)
+    since: string;
+  };
 }
 
+export type NotificationOutboxEvent = keyof NotificationOutboxPayloads;
+
 // API response types
 export interface ApiResponse<T> {
   data?: T;
@@ -0,0 +1,128 @@
+-- Migration: Ticket SLA tracking and tiered escalation
+-- Replaces the hard-coded priority thresholds in the ticket-escalation cron with
+-- per-ticket response/resolution deadlines derived from the ticket category
+-- (escalation_hours, resolution_hours) with priority-based fallbacks.
+-- Every escalation level reached is recorded once in ticket_escalations so the
+-- cron never re-alerts the same tier for the same ticket.
+
+-- =====================
+-- CATEGORY RESOLUTION TARGET
+-- =====================
+-- escalation_hours (existing) is the response target.
+-- resolution_hours is optional; NULL falls back to the priority default.
+
+ALTER TABLE ticket_categories
+  ADD COLUMN IF NOT EXISTS resolution_hours INT CHECK (resolution_hours > 0);
+
+-- =====================
+-- TICKET SLA COLUMNS
+-- =====================
+
+ALTER TABLE tickets
+  ADD COLUMN IF NOT EXISTS response_due_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS resolution_due_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS first_response_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS sla_next_breach_at TIMESTAMPTZ,  -- maintained by trigger
+  ADD COLUMN IF NOT EXISTS sla_at_risk_at TIMESTAMPTZ,      -- maintained by trigger
+  ADD COLUMN IF NOT EXISTS escalation_level INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMPTZ;
+
+-- =====================
+-- TICKET ESCALATIONS (Audit trail - no soft delete)
+-- =====================
+
+CREATE TABLE IF NOT EXISTS ticket_escalations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id UUID NOT NULL REFERENCES tickets(id),
+  sla_type TEXT NOT NULL CHECK (sla_type IN ('response', 'resolution')),
+  level INT NOT NULL CHECK (level BETWEEN 1 AND 3),
+  reason TEXT,
+  notified_user_ids UUID[],
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  -- Each tier fires at most once per SLA per ticket
+  UNIQUE (ticket_id, sla_type, level)
+);
+
+CREATE INDEX idx_ticket_escalations_ticket_id
+  ON ticket_escalations (ticket_id);
+
+-- =====================
+-- NEXT BREACH TRIGGER
+-- =====================
+-- Keeps sla_next_breach_at / sla_at_risk_at in sync so the list can filter
+-- and sort by "time to breach" at the database level.
+-- The tracked deadline is the response deadline until the ticket has been
+-- responded to, then the resolution deadline. Finished tickets have none.
+-- A ticket is "at risk" once less than 25% of its target window remains.
+
+CREATE OR REPLACE FUNCTION set_ticket_sla_next_breach()
+RETURNS TRIGGER AS $$
+DECLARE
+  tracked_due TIMESTAMPTZ;
+BEGIN
+  IF NEW.status IN ('completed', 'closed', 'rejected') THEN
+    tracked_due := NULL;
+  ELSIF NEW.first_response_at IS NULL AND NEW.response_due_at IS NOT NULL THEN
+    tracked_due := NEW.response_due_at;
+  ELSE
+    tracked_due := NEW.resolution_due_at;
+  END IF;
+
+  NEW.sla_next_breach_at := tracked_due;
+  NEW.sla_at_risk_at := CASE
+    WHEN tracked_due IS NULL THEN NULL
+    ELSE tracked_due - ((tracked_due - COALESCE(NEW.created_at, now())) * 0.25)
+  END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_set_ticket_sla_next_breach
+  BEFORE INSERT OR UPDATE ON tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION set_ticket_sla_next_breach();
+
+CREATE INDEX idx_tickets_sla_next_breach
+  ON tickets (tenant_id, sla_next_breach_at)
+  WHERE deleted_at IS NULL AND sla_next_breach_at IS NOT NULL;
+
+-- =====================
+-- BACKFILL OPEN TICKETS
+-- =====================
+-- Priority defaults mirror DEFAULT_RESPONSE_HOURS / DEFAULT_RESOLUTION_HOURS
+-- in src/services/ticket-sla.service.ts.
+
+UPDATE tickets t
+SET
+  response_due_at = t.created_at + make_interval(hours => h.response_hours),
+  -- Never before the response deadline, like calculateDeadlines
+  resolution_due_at = t.created_at + make_interval(
+    hours => GREATEST(h.resolution_hours, h.response_hours)
+  ),
+  first_response_at = COALESCE(t.started_at, CASE WHEN t.assigned_to IS NOT NULL THEN t.updated_at END)
+FROM (
+  SELECT
+    t2.id,
+    CASE t2.priority
+      WHEN 'critical' THEN LEAST(COALESCE(c.escalation_hours, 2), 2)
+      WHEN 'high' THEN COALESCE(c.escalation_hours, 4)
+      WHEN 'medium' THEN COALESCE(c.escalation_hours, 8)
+      ELSE COALESCE(c.escalation_hours, 24)
+    END AS response_hours,
+    COALESCE(
+      c.resolution_hours,
+      CASE t2.priority
+        WHEN 'critical' THEN 24
+        WHEN 'high' THEN 72
+        WHEN 'medium' THEN 168
+        ELSE 336
+      END
+    ) AS resolution_hours
+  FROM tickets t2
+  LEFT JOIN ticket_categories c ON c.id = t2.category_id
+) h
+WHERE t.id = h.id
+  AND t.deleted_at IS NULL
+  AND t.status NOT IN ('completed', 'closed', 'rejected');
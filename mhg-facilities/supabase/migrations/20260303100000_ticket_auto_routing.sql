@@ -0,0 +1,29 @@
+-- Migration: Ticket auto-routing
+-- New tickets are routed on creation using category defaults, the location
+-- manager, business hours and the on-call rotation. The routing decision is
+-- written to ticket_status_history.
+
+-- =====================
+-- LOCATION BUSINESS HOURS
+-- =====================
+-- Shape: { "timezone": "America/New_York", "days": [1,2,3,4,5],
+--          "open": "08:00", "close": "18:00" }
+-- days uses 0 = Sunday ... 6 = Saturday. NULL uses the application default.
+
+ALTER TABLE locations
+  ADD COLUMN IF NOT EXISTS business_hours JSONB;
+
+-- =====================
+-- ON-CALL LOOKUP INDEX
+-- =====================
+
+CREATE INDEX IF NOT EXISTS idx_on_call_schedules_current
+  ON on_call_schedules (tenant_id, location_id, start_date, end_date)
+  WHERE deleted_at IS NULL;
+
+-- =====================
+-- STATUS HISTORY INDEX
+-- =====================
+
+CREATE INDEX IF NOT EXISTS idx_ticket_status_history_ticket
+  ON ticket_status_history (ticket_id, created_at);
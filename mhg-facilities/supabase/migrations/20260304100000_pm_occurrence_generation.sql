@@ -0,0 +1,68 @@
+-- Migration: PM occurrence generation
+-- Each scheduled PM occurrence gets exactly one pm_completions row, created
+-- as "pending" (completed_date IS NULL) when its work order is generated and
+-- filled in when the work is done. The unique key makes generation
+-- idempotent across cron re-runs and manual backfills. An occurrence whose
+-- ticket could not be created is released (deleted_at set) rather than
+-- deleted, and released rows don't count toward the key, so the next run
+-- can generate it again.
+
+-- =====================
+-- RELEASED OCCURRENCES
+-- =====================
+
+ALTER TABLE pm_completions
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- =====================
+-- SET ASIDE DUPLICATE OCCURRENCES
+-- =====================
+-- Keep one row per schedule + date, preferring completed rows. The others
+-- move to pm_completions_archive along with the row they duplicate, so no
+-- completion record (or its checklist results and notes) is lost.
+
+CREATE TABLE IF NOT EXISTS pm_completions_archive (
+  LIKE pm_completions INCLUDING DEFAULTS,
+  -- The pm_completions row kept for the same schedule + date
+  duplicate_of UUID NOT NULL,
+  archived_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (id)
+);
+
+WITH ranked AS (
+  SELECT
+    id,
+    FIRST_VALUE(id) OVER occurrence AS kept_id,
+    ROW_NUMBER() OVER occurrence AS rn
+  FROM pm_completions
+  WHERE schedule_id IS NOT NULL
+  WINDOW occurrence AS (
+    PARTITION BY schedule_id, scheduled_date
+    ORDER BY completed_date DESC NULLS LAST, created_at ASC
+  )
+)
+INSERT INTO pm_completions_archive
+SELECT pc.*, ranked.kept_id, now()
+FROM pm_completions pc
+JOIN ranked ON ranked.id = pc.id
+WHERE ranked.rn > 1;
+
+DELETE FROM pm_completions pc
+USING pm_completions_archive archived
+WHERE pc.id = archived.id;
+
+-- =====================
+-- ONE ROW PER OCCURRENCE
+-- =====================
+
+CREATE UNIQUE INDEX IF NOT EXISTS pm_completions_schedule_date_key
+  ON pm_completions (schedule_id, scheduled_date)
+  WHERE deleted_at IS NULL;
+
+-- =====================
+-- TICKET LOOKUP INDEX
+-- =====================
+
+CREATE INDEX IF NOT EXISTS idx_pm_completions_ticket
+  ON pm_completions (ticket_id)
+  WHERE ticket_id IS NOT NULL;
@@ -0,0 +1,20 @@
+-- Migration: PM scheduling mode
+-- fixed:    the next occurrence follows the previous scheduled date, so late
+--           completions never drift the calendar (default)
+-- floating: the interval restarts from the date the work was completed
+
+-- =====================
+-- PM SCHEDULES
+-- =====================
+
+ALTER TABLE pm_schedules
+  ADD COLUMN IF NOT EXISTS scheduling_mode TEXT NOT NULL DEFAULT 'fixed'
+    CHECK (scheduling_mode IN ('fixed', 'floating'));
+
+-- =====================
+-- OPEN OCCURRENCE LOOKUP
+-- =====================
+
+CREATE INDEX IF NOT EXISTS idx_pm_completions_pending
+  ON pm_completions (schedule_id, scheduled_date)
+  WHERE completed_date IS NULL AND deleted_at IS NULL;
@@ -0,0 +1,39 @@
+-- Migration: Typed PM checklists
+-- pm_templates.checklist moves from a free-form list of step names to
+--   { "items": [ { "id", "label", "type", "required",
+--                  "instructions"?, "unit"?, "min"?, "max"? } ] }
+-- type is one of pass_fail | reading | text | photo.
+--
+-- pm_completions.checklist_results becomes
+--   { "items": [ { "item_id", "passed"?, "value"?, "text"?,
+--                  "attachment_ids"?, "notes"?, "follow_up_ticket_id"? } ] }
+
+-- =====================
+-- CONVERT LEGACY CHECKLISTS
+-- =====================
+-- ["Step one", "Step two"] → required pass/fail items
+
+UPDATE pm_templates
+SET checklist = jsonb_build_object(
+  'items',
+  (
+    SELECT COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'id', 'item-' || t.ord,
+        'label', t.label,
+        'type', 'pass_fail',
+        'required', true
+      ) ORDER BY t.ord
+    ), '[]'::jsonb)
+    FROM jsonb_array_elements_text(checklist) WITH ORDINALITY AS t(label, ord)
+  )
+)
+WHERE jsonb_typeof(checklist) = 'array';
+
+-- =====================
+-- FOLLOW-UP TICKET LOOKUP
+-- =====================
+
+CREATE INDEX IF NOT EXISTS idx_tickets_parent_ticket
+  ON tickets (parent_ticket_id)
+  WHERE parent_ticket_id IS NOT NULL;
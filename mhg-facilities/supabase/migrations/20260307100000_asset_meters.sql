@@ -0,0 +1,78 @@
+-- Migration: Asset meters and usage-based PM triggers
+-- Assets can carry meters (runtime hours, cycles, gallons) with a reading
+-- history. PM schedules can trigger on a meter interval instead of, or in
+-- addition to, their calendar frequency.
+
+-- =====================
+-- ASSET METERS
+-- =====================
+
+CREATE TABLE IF NOT EXISTS asset_meters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  asset_id UUID NOT NULL REFERENCES assets(id),
+  name TEXT NOT NULL,
+  unit TEXT NOT NULL CHECK (unit IN ('hours', 'cycles', 'gallons')),
+  current_reading NUMERIC(14, 2) NOT NULL DEFAULT 0,  -- latest reading
+  last_read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  deleted_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_asset_meters_asset_id
+  ON asset_meters (asset_id)
+  WHERE deleted_at IS NULL;
+
+CREATE TRIGGER trigger_asset_meters_updated_at
+  BEFORE UPDATE ON asset_meters
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- =====================
+-- METER READINGS (Audit trail - no soft delete)
+-- =====================
+
+CREATE TABLE IF NOT EXISTS asset_meter_readings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  meter_id UUID NOT NULL REFERENCES asset_meters(id),
+  reading NUMERIC(14, 2) NOT NULL,
+  source TEXT NOT NULL DEFAULT 'manual'
+    CHECK (source IN ('manual', 'qr', 'pm_checklist')),
+  ticket_id UUID REFERENCES tickets(id),
+  notes TEXT,
+  recorded_by UUID REFERENCES users(id),
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_asset_meter_readings_meter
+  ON asset_meter_readings (meter_id, recorded_at DESC);
+
+-- =====================
+-- PM SCHEDULE TRIGGERS
+-- =====================
+-- calendar          : frequency only (existing behaviour)
+-- meter             : every meter_interval units of the meter
+-- calendar_or_meter : whichever comes first; completing either resets both
+
+ALTER TABLE pm_schedules
+  ADD COLUMN IF NOT EXISTS trigger_type TEXT NOT NULL DEFAULT 'calendar'
+    CHECK (trigger_type IN ('calendar', 'meter', 'calendar_or_meter')),
+  ADD COLUMN IF NOT EXISTS meter_id UUID REFERENCES asset_meters(id),
+  ADD COLUMN IF NOT EXISTS meter_interval NUMERIC(14, 2)
+    CHECK (meter_interval > 0),
+  -- Meter reading when the schedule was last serviced (or created)
+  ADD COLUMN IF NOT EXISTS meter_last_service_reading NUMERIC(14, 2);
+
+-- Meter-only schedules have no calendar frequency
+ALTER TABLE pm_schedules ALTER COLUMN frequency DROP NOT NULL;
+
+ALTER TABLE pm_schedules
+  ADD CONSTRAINT pm_schedules_trigger_check CHECK (
+    (trigger_type = 'calendar' OR (meter_id IS NOT NULL AND meter_interval IS NOT NULL))
+    AND (trigger_type = 'meter' OR frequency IS NOT NULL)
+  );
+
+CREATE INDEX IF NOT EXISTS idx_pm_schedules_meter
+  ON pm_schedules (meter_id)
+  WHERE meter_id IS NOT NULL AND deleted_at IS NULL;
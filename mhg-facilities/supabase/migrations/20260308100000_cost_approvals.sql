@@ -0,0 +1,88 @@
+-- Migration: Ticket cost approvals
+-- Reintroduces cost gating with a per-tenant policy. Submitting an estimate
+-- or vendor quote above the auto-approve limit moves the ticket to
+-- needs_approval until an approver with a high enough role signs off.
+-- Replaces the workflow dropped in 20260115001622_remove_approval_workflow.
+
+-- =====================
+-- TICKET STATUS
+-- =====================
+-- needs_approval is still in the ticket_status enum; only the check
+-- constraint from 20260115003253_simplify_ticket_status excludes it.
+
+ALTER TABLE tickets DROP CONSTRAINT IF EXISTS tickets_status_check;
+
+ALTER TABLE tickets
+ADD CONSTRAINT tickets_status_check
+CHECK (status IN ('submitted', 'needs_approval', 'in_progress', 'completed', 'closed', 'rejected', 'on_hold'));
+
+-- =====================
+-- APPROVAL POLICY (one per tenant)
+-- =====================
+-- amount <= auto_approve_limit : approved automatically
+-- amount <= manager_limit      : manager (or above) approves
+-- amount <= admin_limit        : admin (or above) approves
+-- anything higher              : super_admin (owner) approves
+
+CREATE TABLE IF NOT EXISTS cost_approval_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  auto_approve_limit NUMERIC(10, 2) NOT NULL DEFAULT 0
+    CHECK (auto_approve_limit >= 0),
+  manager_limit NUMERIC(10, 2) NOT NULL DEFAULT 1000,
+  admin_limit NUMERIC(10, 2) NOT NULL DEFAULT 5000,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  deleted_at TIMESTAMPTZ,
+
+  CHECK (auto_approve_limit <= manager_limit AND manager_limit <= admin_limit)
+);
+
+CREATE UNIQUE INDEX idx_cost_approval_policies_tenant
+  ON cost_approval_policies (tenant_id)
+  WHERE deleted_at IS NULL;
+
+CREATE TRIGGER trigger_cost_approval_policies_updated_at
+  BEFORE UPDATE ON cost_approval_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- =====================
+-- COST APPROVALS (Audit trail - no soft delete)
+-- =====================
+
+CREATE TABLE IF NOT EXISTS cost_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  ticket_id UUID NOT NULL REFERENCES tickets(id),
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount >= 0),
+  source TEXT NOT NULL CHECK (source IN ('estimate', 'quote')),
+  vendor_id UUID REFERENCES vendors(id),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'denied')),
+  -- Lowest role allowed to decide; null when auto-approved
+  required_role TEXT CHECK (required_role IN ('manager', 'admin', 'super_admin')),
+  -- Status to return the ticket to once approved
+  previous_status TEXT,
+  request_notes TEXT,
+  requested_by UUID REFERENCES users(id),
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  decided_by UUID REFERENCES users(id),
+  decided_at TIMESTAMPTZ,
+  decision_notes TEXT,
+
+  CHECK (status = 'pending' OR decided_at IS NOT NULL)
+);
+
+CREATE INDEX idx_cost_approvals_ticket
+  ON cost_approvals (ticket_id, requested_at DESC);
+
+CREATE INDEX idx_cost_approvals_tenant_pending
+  ON cost_approvals (tenant_id, requested_at)
+  WHERE status = 'pending';
+
+-- At most one open request per ticket
+CREATE UNIQUE INDEX idx_cost_approvals_one_pending
+  ON cost_approvals (ticket_id)
+  WHERE status = 'pending';
@@ -0,0 +1,109 @@
+-- Migration: Vendor invoices
+-- Invoices are first-class records linked to a ticket and the vendor that
+-- billed it, with line items, an optional PDF (a ticket attachment of type
+-- 'invoice') and partial payments. Budget spend counts approved and paid
+-- invoices; tickets without invoices still fall back to actual_cost.
+-- Uses the invoice_status enum from the initial schema.
+
+-- =====================
+-- INVOICES
+-- =====================
+-- pending  -> approved | disputed
+-- disputed -> pending (corrected by editing)
+-- approved -> disputed (only before any payment)
+-- approved -> paid (once payments cover the total)
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  vendor_id UUID NOT NULL REFERENCES vendors(id),
+  ticket_id UUID NOT NULL REFERENCES tickets(id),
+  invoice_number TEXT NOT NULL,
+  invoice_date DATE NOT NULL,
+  due_date DATE,
+  status invoice_status NOT NULL DEFAULT 'pending',
+  subtotal NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (subtotal >= 0),
+  tax_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (tax_amount >= 0),
+  total_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (total_amount >= 0),
+  -- Running sum of invoice_payments, maintained by the application
+  amount_paid NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (amount_paid >= 0),
+  attachment_id UUID REFERENCES ticket_attachments(id),
+  notes TEXT,
+  approved_by UUID REFERENCES users(id),
+  approved_at TIMESTAMPTZ,
+  disputed_by UUID REFERENCES users(id),
+  disputed_at TIMESTAMPTZ,
+  dispute_reason TEXT,
+  paid_at TIMESTAMPTZ,
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  deleted_at TIMESTAMPTZ,
+
+  CHECK (due_date IS NULL OR due_date >= invoice_date),
+  CHECK (amount_paid <= total_amount)
+);
+
+-- A vendor's invoice numbers are unique within a tenant
+CREATE UNIQUE INDEX idx_invoices_vendor_number
+  ON invoices (tenant_id, vendor_id, invoice_number)
+  WHERE deleted_at IS NULL;
+
+CREATE INDEX idx_invoices_ticket
+  ON invoices (ticket_id)
+  WHERE deleted_at IS NULL;
+
+CREATE INDEX idx_invoices_vendor
+  ON invoices (vendor_id, invoice_date DESC)
+  WHERE deleted_at IS NULL;
+
+-- Aging report and spend queries
+CREATE INDEX idx_invoices_tenant_status
+  ON invoices (tenant_id, status, invoice_date)
+  WHERE deleted_at IS NULL;
+
+CREATE TRIGGER trigger_invoices_updated_at
+  BEFORE UPDATE ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- =====================
+-- INVOICE LINE ITEMS
+-- =====================
+-- Replaced wholesale when an invoice is edited
+
+CREATE TABLE IF NOT EXISTS invoice_line_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  description TEXT NOT NULL,
+  quantity NUMERIC(10, 2) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_price NUMERIC(10, 2) NOT NULL CHECK (unit_price >= 0),
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount >= 0),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_invoice_line_items_invoice
+  ON invoice_line_items (invoice_id, sort_order);
+
+-- =====================
+-- INVOICE PAYMENTS (Audit trail - no soft delete)
+-- =====================
+
+CREATE TABLE IF NOT EXISTS invoice_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  invoice_id UUID NOT NULL REFERENCES invoices(id),
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  paid_on DATE NOT NULL,
+  method TEXT NOT NULL DEFAULT 'check'
+    CHECK (method IN ('check', 'ach', 'card', 'cash', 'other')),
+  reference TEXT,
+  notes TEXT,
+  recorded_by UUID REFERENCES users(id),
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_invoice_payments_invoice
+  ON invoice_payments (invoice_id, paid_on);
@@ -0,0 +1,35 @@
+-- Migration: Vendor portal
+-- Users with the vendor role are linked to a vendors record and only see
+-- tickets dispatched to that vendor. Scoping is enforced in the API layer
+-- (requireAuth / requireTicketAccess); these columns carry the link.
+
+-- =====================
+-- VENDOR USERS
+-- =====================
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS vendor_id UUID REFERENCES vendors(id);
+
+COMMENT ON COLUMN users.vendor_id IS
+  'Vendor company a vendor-role user belongs to. Vendor users without one cannot sign in to the portal.';
+
+CREATE INDEX IF NOT EXISTS idx_users_vendor_id
+  ON users (vendor_id)
+  WHERE vendor_id IS NOT NULL AND deleted_at IS NULL;
+
+-- Invitations carry the link through to the created user, like location_id
+ALTER TABLE tenant_invitations
+  ADD COLUMN IF NOT EXISTS vendor_id UUID REFERENCES vendors(id);
+
+-- =====================
+-- TICKETS
+-- =====================
+
+-- Set when the dispatched vendor acknowledges the work order
+ALTER TABLE tickets
+  ADD COLUMN IF NOT EXISTS vendor_acknowledged_at TIMESTAMPTZ;
+
+-- Portal ticket list: every vendor request filters on vendor_id
+CREATE INDEX IF NOT EXISTS idx_tickets_vendor
+  ON tickets (tenant_id, vendor_id)
+  WHERE vendor_id IS NOT NULL AND deleted_at IS NULL;
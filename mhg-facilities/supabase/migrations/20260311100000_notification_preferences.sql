@@ -0,0 +1,36 @@
+-- Migration: Notification preferences
+-- users.notification_preferences keeps its email/sms/push channel switches and
+-- gains optional per-event overrides, quiet hours and a location scope (see
+-- NotificationPreferences in src/types). NotificationService filters every
+-- recipient list through them. Whether critical notifications may break quiet
+-- hours is a tenant policy.
+
+-- =====================
+-- USER PREFERENCES
+-- =====================
+
+COMMENT ON COLUMN users.notification_preferences IS
+  'Channel switches {email, sms, push} plus optional events (per event type and channel), quiet_hours {enabled, start, end, timezone} and location_ids.';
+
+-- =====================
+-- NOTIFICATION POLICY (one per tenant)
+-- =====================
+
+CREATE TABLE IF NOT EXISTS notification_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  -- Emergency and critical-priority notifications ignore quiet hours
+  critical_overrides_quiet_hours BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  deleted_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX idx_notification_policies_tenant
+  ON notification_policies (tenant_id)
+  WHERE deleted_at IS NULL;
+
+CREATE TRIGGER trigger_notification_policies_updated_at
+  BEFORE UPDATE ON notification_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
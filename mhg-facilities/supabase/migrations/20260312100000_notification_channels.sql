@@ -0,0 +1,42 @@
+-- Migration: Notification channels
+-- Adds SMS, Slack and web push delivery next to email. Browsers register push
+-- subscriptions per user; the tenant's Slack incoming webhook lives on its
+-- notification policy. Critical tickets also text and post to the on-call.
+
+-- =====================
+-- PUSH SUBSCRIPTIONS
+-- =====================
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  user_id UUID NOT NULL REFERENCES users(id),
+  endpoint TEXT NOT NULL,
+  -- Browser keys from PushSubscription.toJSON(), base64url encoded
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  deleted_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX idx_push_subscriptions_endpoint
+  ON push_subscriptions (endpoint)
+  WHERE deleted_at IS NULL;
+
+CREATE INDEX idx_push_subscriptions_user
+  ON push_subscriptions (tenant_id, user_id)
+  WHERE deleted_at IS NULL;
+
+CREATE TRIGGER trigger_push_subscriptions_updated_at
+  BEFORE UPDATE ON push_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- =====================
+-- SLACK
+-- =====================
+
+ALTER TABLE notification_policies
+  ADD COLUMN IF NOT EXISTS slack_webhook_url TEXT;
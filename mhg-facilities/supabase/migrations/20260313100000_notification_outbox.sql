@@ -0,0 +1,150 @@
+-- Migration: Notification outbox
+-- Notifications are queued in notification_outbox and sent by the
+-- /api/cron/notification-outbox worker, which retries failures with
+-- exponential backoff. Each send to a recipient on a channel is logged in
+-- notification_deliveries.
+--
+-- Ticket creation and assignment are queued by triggers so the message is
+-- written in the same transaction as the ticket change. Other events are
+-- queued by their services (see NotificationOutboxService).
+
+-- =====================
+-- TICKETS
+-- =====================
+
+-- Who made the current assignment; NULL for auto-routing
+ALTER TABLE tickets
+  ADD COLUMN IF NOT EXISTS assigned_by UUID REFERENCES users(id);
+
+-- =====================
+-- OUTBOX
+-- =====================
+
+CREATE TABLE IF NOT EXISTS notification_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  -- NotificationEvent; payload shape per event is NotificationOutboxPayloads
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'processing', 'sent', 'failed', 'bounced')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Set while a worker holds the message; stale locks are reclaimed
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  deleted_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_notification_outbox_due
+  ON notification_outbox (tenant_id, next_attempt_at)
+  WHERE status IN ('queued', 'processing') AND deleted_at IS NULL;
+
+CREATE INDEX idx_notification_outbox_created
+  ON notification_outbox (tenant_id, created_at DESC)
+  WHERE deleted_at IS NULL;
+
+CREATE TRIGGER trigger_notification_outbox_updated_at
+  BEFORE UPDATE ON notification_outbox
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- =====================
+-- DELIVERY LOG
+-- =====================
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  outbox_id UUID NOT NULL REFERENCES notification_outbox(id),
+  attempt INTEGER NOT NULL,
+  channel notification_channel NOT NULL,
+  recipient_id UUID REFERENCES users(id),
+  -- Email address, phone number, push endpoint or "slack"
+  address TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed', 'bounced')),
+  -- Resend email id, used to match bounce webhooks
+  provider_message_id TEXT,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notification_deliveries_outbox
+  ON notification_deliveries (outbox_id);
+
+CREATE INDEX idx_notification_deliveries_provider_message
+  ON notification_deliveries (provider_message_id)
+  WHERE provider_message_id IS NOT NULL;
+
+CREATE TRIGGER trigger_notification_deliveries_updated_at
+  BEFORE UPDATE ON notification_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- =====================
+-- TICKET TRIGGERS
+-- =====================
+
+CREATE OR REPLACE FUNCTION enqueue_ticket_created_notifications()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO notification_outbox (tenant_id, event, payload)
+  VALUES (
+    NEW.tenant_id,
+    'ticket_created',
+    jsonb_build_object('ticket_id', NEW.id)
+  );
+
+  -- Auto-routed tickets are assigned on insert
+  IF NEW.assigned_to IS NOT NULL THEN
+    INSERT INTO notification_outbox (tenant_id, event, payload)
+    VALUES (
+      NEW.tenant_id,
+      'ticket_assigned',
+      jsonb_build_object(
+        'ticket_id', NEW.id,
+        'assignee_id', NEW.assigned_to,
+        'assigned_by', NEW.assigned_by
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_enqueue_ticket_created_notifications
+  AFTER INSERT ON tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION enqueue_ticket_created_notifications();
+
+CREATE OR REPLACE FUNCTION enqueue_ticket_assigned_notification()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.assigned_to IS NOT NULL
+     AND OLD.assigned_to IS DISTINCT FROM NEW.assigned_to THEN
+    INSERT INTO notification_outbox (tenant_id, event, payload)
+    VALUES (
+      NEW.tenant_id,
+      'ticket_assigned',
+      jsonb_build_object(
+        'ticket_id', NEW.id,
+        'assignee_id', NEW.assigned_to,
+        'assigned_by', NEW.assigned_by
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_enqueue_ticket_assigned_notification
+  AFTER UPDATE OF assigned_to ON tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION enqueue_ticket_assigned_notification();
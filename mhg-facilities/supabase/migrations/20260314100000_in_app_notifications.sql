@@ -0,0 +1,82 @@
+-- Migration: In-app notifications
+-- Each user gets an inbox of notifications (assignments, status changes,
+-- comment mentions, PM tasks due, expiring documents) shown under the bell
+-- in the header. The outbox worker writes them as the in_app channel, and
+-- the browser picks up new rows through Supabase Realtime.
+--
+-- Ticket status changes are queued by a trigger, like assignments.
+
+-- =====================
+-- TICKETS
+-- =====================
+
+-- Who made the latest status change; NULL for system changes
+ALTER TABLE tickets
+  ADD COLUMN IF NOT EXISTS status_changed_by UUID REFERENCES users(id);
+
+-- =====================
+-- INBOX
+-- =====================
+
+ALTER TYPE notification_channel ADD VALUE IF NOT EXISTS 'in_app';
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  user_id UUID NOT NULL REFERENCES users(id),
+  -- NotificationEvent
+  event TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  -- App path to open, e.g. /tickets/<id>
+  link TEXT,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  deleted_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_notifications_user
+  ON notifications (tenant_id, user_id, created_at DESC)
+  WHERE deleted_at IS NULL;
+
+CREATE INDEX idx_notifications_unread
+  ON notifications (tenant_id, user_id)
+  WHERE read_at IS NULL AND deleted_at IS NULL;
+
+CREATE TRIGGER trigger_notifications_updated_at
+  BEFORE UPDATE ON notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+
+-- =====================
+-- TICKET TRIGGERS
+-- =====================
+
+CREATE OR REPLACE FUNCTION enqueue_ticket_status_changed_notification()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO notification_outbox (tenant_id, event, payload)
+    VALUES (
+      NEW.tenant_id,
+      'ticket_status_changed',
+      jsonb_build_object(
+        'ticket_id', NEW.id,
+        'from_status', OLD.status,
+        'to_status', NEW.status,
+        'changed_by', NEW.status_changed_by
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_enqueue_ticket_status_changed_notification
+  AFTER UPDATE OF status ON tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION enqueue_ticket_status_changed_notification();
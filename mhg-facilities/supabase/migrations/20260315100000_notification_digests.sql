@@ -0,0 +1,16 @@
+-- Migration: Notification digests
+-- Users can opt in to a daily or weekly summary email of their open work
+-- (notification_preferences.digest). A cron job queues one digest message
+-- per subscriber in the notification outbox; the worker compiles it when it
+-- sends, scoped by role (own work, managed locations or the whole tenant).
+
+-- =====================
+-- USER PREFERENCES
+-- =====================
+
+COMMENT ON COLUMN users.notification_preferences IS
+  'Channel switches {email, sms, push} plus optional events (per event type and channel), quiet_hours {enabled, start, end, timezone}, location_ids and digest (daily, weekly or null).';
+
+CREATE INDEX IF NOT EXISTS idx_users_notification_digest
+  ON users (tenant_id, (notification_preferences->>'digest'))
+  WHERE deleted_at IS NULL AND notification_preferences ? 'digest';
@@ -0,0 +1,46 @@
+-- Migration: Compliance alert schedules
+-- Expiration alerts follow each document type's default_alert_days, which a
+-- document can override with its own alert_days. Each threshold is sent once
+-- per expiration date (daily once expired) and recorded in compliance_alerts
+-- with the recipient level it escalated to (manager, admin or owner).
+
+-- =====================
+-- PER-DOCUMENT ALERT DAYS
+-- =====================
+
+ALTER TABLE compliance_documents
+  ADD COLUMN IF NOT EXISTS alert_days INT[];
+
+COMMENT ON COLUMN compliance_documents.alert_days IS
+  'Days before expiration to send alerts. NULL uses the document type''s default_alert_days.';
+
+-- =====================
+-- ALERT LOG
+-- =====================
+
+ALTER TABLE compliance_alerts
+  ADD COLUMN IF NOT EXISTS expiration_date DATE,
+  ADD COLUMN IF NOT EXISTS alert_date DATE DEFAULT CURRENT_DATE,
+  ADD COLUMN IF NOT EXISTS recipient_level TEXT
+    CHECK (recipient_level IN ('manager', 'admin', 'owner'));
+
+-- Alert days are configurable, so any N-day threshold is allowed
+ALTER TABLE compliance_alerts
+  DROP CONSTRAINT IF EXISTS compliance_alerts_alert_type_check;
+
+ALTER TABLE compliance_alerts
+  ADD CONSTRAINT compliance_alerts_alert_type_check
+  CHECK (alert_type ~ '^[0-9]+_day$' OR alert_type IN ('expired', 'failed_inspection'));
+
+COMMENT ON COLUMN compliance_alerts.sent_to IS
+  'Ids of the users the alert was sent to';
+
+-- A threshold is sent once per expiration date; renewing starts over
+CREATE UNIQUE INDEX IF NOT EXISTS idx_compliance_alerts_threshold_once
+  ON compliance_alerts (document_id, expiration_date, alert_type)
+  WHERE alert_type ~ '^[0-9]+_day$';
+
+-- Expired documents are re-sent daily until renewed
+CREATE UNIQUE INDEX IF NOT EXISTS idx_compliance_alerts_expired_daily
+  ON compliance_alerts (document_id, expiration_date, alert_date)
+  WHERE alert_type = 'expired';
@@ -0,0 +1,44 @@
+-- Migration: Compliance status reconciler
+-- A nightly job moves documents between active, expiring_soon and expired
+-- by expiration_date, using each document type's expiring-soon window, and
+-- flags missed conditional deadlines and reinspection dates. Every automatic
+-- change is written to compliance_status_history.
+
+-- =====================
+-- DOCUMENT TYPES
+-- =====================
+
+-- Days before expiration a document counts as expiring soon; NULL uses 30
+ALTER TABLE compliance_document_types
+  ADD COLUMN IF NOT EXISTS expiring_soon_days INT
+    CHECK (expiring_soon_days > 0);
+
+-- =====================
+-- MISSED DEADLINES
+-- =====================
+
+ALTER TABLE compliance_documents
+  ADD COLUMN IF NOT EXISTS conditional_deadline_missed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS reinspection_missed_at TIMESTAMPTZ;
+
+-- =====================
+-- STATUS HISTORY (Audit trail - no soft delete)
+-- =====================
+
+CREATE TABLE IF NOT EXISTS compliance_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  document_id UUID NOT NULL REFERENCES compliance_documents(id),
+  from_status compliance_status,
+  to_status compliance_status NOT NULL,
+  -- e.g. expired, expiring_soon, conditional_deadline_missed
+  reason TEXT NOT NULL,
+  is_automatic BOOLEAN NOT NULL DEFAULT false,
+  -- NULL for automatic changes
+  changed_by UUID REFERENCES users(id),
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_compliance_status_history_document
+  ON compliance_status_history (document_id, created_at DESC);
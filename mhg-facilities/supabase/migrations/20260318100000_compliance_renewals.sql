@@ -0,0 +1,104 @@
+-- Migration: Compliance renewals
+-- Starting a renewal creates one task per item in the document type's
+-- renewal_checklist:
+--   { "items": [ { "id", "label", "description"? } ] }
+-- The renewal moves not_started → submitted → in_review → approved (or is
+-- cancelled). Approving it records a new compliance_document_versions row
+-- with the new file and dates, and its cost counts toward the location's
+-- budget as "Compliance" spend.
+
+-- =====================
+-- DOCUMENT VERSIONS
+-- =====================
+
+ALTER TABLE compliance_document_versions
+  ADD COLUMN IF NOT EXISTS issue_date DATE,
+  ADD COLUMN IF NOT EXISTS expiration_date DATE,
+  ADD COLUMN IF NOT EXISTS renewal_id UUID;
+
+-- =====================
+-- RENEWALS
+-- =====================
+
+CREATE TABLE IF NOT EXISTS compliance_renewals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  document_id UUID NOT NULL REFERENCES compliance_documents(id),
+  stage TEXT NOT NULL DEFAULT 'not_started'
+    CHECK (stage IN ('not_started', 'submitted', 'in_review', 'approved', 'cancelled')),
+  assigned_to UUID REFERENCES users(id),
+  cost NUMERIC(10, 2) CHECK (cost >= 0),
+  notes TEXT,
+  started_by UUID REFERENCES users(id),
+  submitted_at TIMESTAMPTZ,
+  reviewed_at TIMESTAMPTZ,
+  approved_at TIMESTAMPTZ,
+  approved_by UUID REFERENCES users(id),
+  cancelled_at TIMESTAMPTZ,
+  -- Dates on the renewed document, set on approval
+  new_issue_date DATE,
+  new_expiration_date DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  deleted_at TIMESTAMPTZ,
+
+  CHECK (stage <> 'approved' OR (approved_at IS NOT NULL AND new_expiration_date IS NOT NULL))
+);
+
+CREATE INDEX idx_compliance_renewals_document
+  ON compliance_renewals (document_id, created_at DESC)
+  WHERE deleted_at IS NULL;
+
+-- Approved renewal costs feed budget spend
+CREATE INDEX idx_compliance_renewals_approved
+  ON compliance_renewals (tenant_id, approved_at)
+  WHERE stage = 'approved' AND deleted_at IS NULL;
+
+-- At most one open renewal per document
+CREATE UNIQUE INDEX idx_compliance_renewals_one_open
+  ON compliance_renewals (document_id)
+  WHERE stage NOT IN ('approved', 'cancelled') AND deleted_at IS NULL;
+
+CREATE TRIGGER trigger_compliance_renewals_updated_at
+  BEFORE UPDATE ON compliance_renewals
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE compliance_document_versions
+  ADD CONSTRAINT compliance_document_versions_renewal_id_fkey
+  FOREIGN KEY (renewal_id) REFERENCES compliance_renewals(id);
+
+-- =====================
+-- RENEWAL TASKS
+-- =====================
+
+CREATE TABLE IF NOT EXISTS compliance_renewal_tasks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  renewal_id UUID NOT NULL REFERENCES compliance_renewals(id),
+  -- renewal_checklist item id
+  checklist_item_id TEXT,
+  title TEXT NOT NULL,
+  description TEXT,
+  sort_order INT NOT NULL DEFAULT 0,
+  assigned_to UUID REFERENCES users(id),
+  due_date DATE,
+  completed_at TIMESTAMPTZ,
+  completed_by UUID REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  deleted_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_compliance_renewal_tasks_renewal
+  ON compliance_renewal_tasks (renewal_id, sort_order)
+  WHERE deleted_at IS NULL;
+
+CREATE INDEX idx_compliance_renewal_tasks_assignee
+  ON compliance_renewal_tasks (tenant_id, assigned_to)
+  WHERE completed_at IS NULL AND deleted_at IS NULL;
+
+CREATE TRIGGER trigger_compliance_renewal_tasks_updated_at
+  BEFORE UPDATE ON compliance_renewal_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
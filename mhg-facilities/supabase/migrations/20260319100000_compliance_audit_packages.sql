@@ -0,0 +1,26 @@
+-- Migration: Compliance audit packages
+-- Inspectors get a ZIP per location and date range with every compliance
+-- document version, inspection-related PM completions and corrective-action
+-- tickets, plus a PDF index. Packages are generated server-side into the
+-- compliance-exports bucket and handed out through short-lived signed URLs.
+
+-- =====================
+-- CORRECTIVE-ACTION TICKETS
+-- =====================
+
+-- Set on tickets raised to fix a finding on a compliance document
+ALTER TABLE tickets
+  ADD COLUMN IF NOT EXISTS compliance_document_id UUID
+    REFERENCES compliance_documents(id);
+
+CREATE INDEX idx_tickets_compliance_document
+  ON tickets (compliance_document_id)
+  WHERE compliance_document_id IS NOT NULL AND deleted_at IS NULL;
+
+-- =====================
+-- STORAGE
+-- =====================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('compliance-exports', 'compliance-exports', false, 524288000, ARRAY['application/zip'])
+ON CONFLICT (id) DO NOTHING;
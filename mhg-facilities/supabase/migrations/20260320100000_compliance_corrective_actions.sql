@@ -0,0 +1,59 @@
+-- Migration: Compliance corrective actions
+-- A failed inspection records a list of corrective actions, each with a
+-- ticket at the document's location. The failure can't be cleared until
+-- every linked ticket is completed. Reminders count down to the
+-- reinspection date and are logged in compliance_alerts like expiration
+-- alerts.
+
+-- =====================
+-- CORRECTIVE ACTIONS
+-- =====================
+
+CREATE TABLE IF NOT EXISTS compliance_corrective_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  document_id UUID NOT NULL REFERENCES compliance_documents(id),
+  description TEXT NOT NULL,
+  sort_order INT NOT NULL DEFAULT 0,
+  ticket_id UUID REFERENCES tickets(id),
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  deleted_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_compliance_corrective_actions_document
+  ON compliance_corrective_actions (document_id, sort_order)
+  WHERE deleted_at IS NULL;
+
+CREATE TRIGGER trigger_compliance_corrective_actions_updated_at
+  BEFORE UPDATE ON compliance_corrective_actions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- =====================
+-- REINSPECTION REMINDERS
+-- =====================
+
+ALTER TABLE compliance_alerts
+  ADD COLUMN IF NOT EXISTS reinspection_date DATE;
+
+ALTER TABLE compliance_alerts
+  DROP CONSTRAINT IF EXISTS compliance_alerts_alert_type_check;
+
+ALTER TABLE compliance_alerts
+  ADD CONSTRAINT compliance_alerts_alert_type_check
+  CHECK (
+    alert_type ~ '^(reinspection_)?[0-9]+_day$'
+    OR alert_type IN ('expired', 'failed_inspection', 'reinspection_due')
+  );
+
+-- A reminder is sent once per reinspection date; rescheduling starts over
+CREATE UNIQUE INDEX IF NOT EXISTS idx_compliance_alerts_reinspection_once
+  ON compliance_alerts (document_id, reinspection_date, alert_type)
+  WHERE alert_type ~ '^reinspection_[0-9]+_day$';
+
+-- From the reinspection date on, reminders are sent daily until cleared
+CREATE UNIQUE INDEX IF NOT EXISTS idx_compliance_alerts_reinspection_daily
+  ON compliance_alerts (document_id, reinspection_date, alert_date)
+  WHERE alert_type = 'reinspection_due';
@@ -0,0 +1,10 @@
+-- Migration: Compliance metadata patterns
+-- Uploaded PDFs with a text layer are scanned for the issue date,
+-- expiration date, document number and issuing authority. Each document
+-- type can add its own patterns, tried before the built-in ones:
+--   { "expiration_date": ["Valid through:\\s*(.+)"], "document_number": [...] }
+-- Patterns are case-insensitive regular expressions; the first capture
+-- group (or the whole match) is the suggested value.
+
+ALTER TABLE compliance_document_types
+  ADD COLUMN IF NOT EXISTS metadata_patterns JSONB;
@@ -0,0 +1,31 @@
+-- Migration: Public QR problem reports
+-- Scanning an asset's QR sticker opens a public page where anyone can
+-- report a problem without logging in. Anonymous reports have no
+-- submitted_by; the reporter can leave a name and phone number instead.
+-- Public requests are rate limited per client from public_request_log.
+
+-- =====================
+-- TICKETS
+-- =====================
+
+ALTER TABLE tickets
+  ADD COLUMN IF NOT EXISTS reporter_name TEXT,
+  ADD COLUMN IF NOT EXISTS reporter_phone TEXT,
+  ADD COLUMN IF NOT EXISTS submitted_via TEXT NOT NULL DEFAULT 'app'
+    CHECK (submitted_via IN ('app', 'qr'));
+
+-- =====================
+-- PUBLIC REQUEST LOG (No tenant - written before the tenant is known)
+-- =====================
+
+CREATE TABLE IF NOT EXISTS public_request_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- e.g. qr_view, qr_report
+  action TEXT NOT NULL,
+  -- Hash of the client's IP address
+  client_key TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_public_request_log_client
+  ON public_request_log (action, client_key, created_at DESC);
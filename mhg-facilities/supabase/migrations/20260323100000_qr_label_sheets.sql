@@ -0,0 +1,29 @@
+-- Migration: QR label sheets
+-- Locations get their own QR code (LOC-xxxxxxxx) that opens the public
+-- "report a problem" page for the location, the way an asset's code does for
+-- the asset. Codes are assigned the first time a location's label is
+-- printed. Label sheets are rendered server-side into the qr-labels bucket
+-- and handed out through short-lived signed URLs.
+
+-- =====================
+-- LOCATION QR CODES
+-- =====================
+
+ALTER TABLE locations
+  ADD COLUMN IF NOT EXISTS qr_code TEXT;
+
+CREATE UNIQUE INDEX idx_locations_tenant_qr_code
+  ON locations (tenant_id, qr_code)
+  WHERE qr_code IS NOT NULL;
+
+CREATE INDEX idx_locations_qr_code
+  ON locations (qr_code)
+  WHERE qr_code IS NOT NULL;
+
+-- =====================
+-- STORAGE
+-- =====================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('qr-labels', 'qr-labels', false, 52428800, ARRAY['application/pdf'])
+ON CONFLICT (id) DO NOTHING;
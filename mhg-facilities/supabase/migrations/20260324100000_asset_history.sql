@@ -0,0 +1,38 @@
+-- Migration: Asset maintenance history
+-- asset_history becomes the asset's service timeline. Completing a ticket
+-- for an asset, completing a PM occurrence and transferring the asset each
+-- append an entry. Entries are tenant-scoped like every other table, and a
+-- ticket gets one entry per asset so completing and then closing it updates
+-- the entry instead of adding a second one.
+
+ALTER TABLE asset_history
+  ADD COLUMN IF NOT EXISTS tenant_id UUID REFERENCES tenants(id);
+
+UPDATE asset_history h
+SET tenant_id = a.tenant_id
+FROM assets a
+WHERE h.asset_id = a.id
+  AND h.tenant_id IS NULL;
+
+ALTER TABLE asset_history
+  DROP CONSTRAINT IF EXISTS asset_history_maintenance_type_check;
+
+ALTER TABLE asset_history
+  ADD CONSTRAINT asset_history_maintenance_type_check
+  CHECK (
+    maintenance_type IN (
+      'repair',
+      'preventive',
+      'inspection',
+      'replacement',
+      'warranty_claim',
+      'transfer'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_asset_history_asset
+  ON asset_history (tenant_id, asset_id, performed_at DESC);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_asset_history_ticket_once
+  ON asset_history (asset_id, ticket_id)
+  WHERE ticket_id IS NOT NULL;
@@ -0,0 +1,35 @@
+-- Migration: Asset replacement policies
+-- Per-tenant thresholds for flagging problem assets ("lemons"). An asset is
+-- flagged when its repair spend passes a share of its purchase price, when
+-- it fails too often within a rolling window, or when it is past its
+-- expected lifespan.
+
+-- =====================
+-- REPLACEMENT POLICY (one per tenant)
+-- =====================
+
+CREATE TABLE IF NOT EXISTS asset_replacement_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id),
+  -- Flag once repairs reach this percentage of the purchase price
+  repair_cost_percent NUMERIC(5, 2) NOT NULL DEFAULT 50
+    CHECK (repair_cost_percent > 0),
+  -- Flag once this many failures fall within the window
+  failure_threshold INTEGER NOT NULL DEFAULT 3
+    CHECK (failure_threshold >= 1),
+  failure_window_days INTEGER NOT NULL DEFAULT 365
+    CHECK (failure_window_days BETWEEN 30 AND 1825),
+  flag_past_lifespan BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  deleted_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX idx_asset_replacement_policies_tenant
+  ON asset_replacement_policies (tenant_id)
+  WHERE deleted_at IS NULL;
+
+CREATE TRIGGER trigger_asset_replacement_policies_updated_at
+  BEFORE UPDATE ON asset_replacement_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
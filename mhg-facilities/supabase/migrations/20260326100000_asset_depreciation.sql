@@ -0,0 +1,19 @@
+-- Migration: Asset depreciation
+-- Each asset category chooses how its assets lose value over their expected
+-- lifespan and what they are worth at the end of it. Book values and
+-- schedules are worked out from the asset's purchase date and price rather
+-- than stored, so changing a category's method revalues its assets at once.
+--
+-- straight_line     : the same amount each year down to salvage value
+-- declining_balance : double the straight-line rate on the remaining value,
+--                     written down to salvage value at the end of its life
+-- none              : carried at purchase price
+
+ALTER TABLE asset_categories
+  ADD COLUMN IF NOT EXISTS depreciation_method TEXT NOT NULL
+    DEFAULT 'straight_line'
+    CHECK (depreciation_method IN ('straight_line', 'declining_balance', 'none')),
+  -- Salvage value as a percentage of the purchase price
+  ADD COLUMN IF NOT EXISTS salvage_value_percent NUMERIC(5, 2) NOT NULL
+    DEFAULT 0
+    CHECK (salvage_value_percent BETWEEN 0 AND 100);
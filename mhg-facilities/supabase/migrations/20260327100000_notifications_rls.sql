@@ -0,0 +1,24 @@
+-- Migration: Restrict realtime notifications to their recipient
+-- The bell picks up new notifications through Supabase Realtime, which any
+-- browser holding the anon key can subscribe to, and the user_id filter is
+-- chosen by the client. Realtime checks RLS before it sends a row, so
+-- notifications get RLS with a policy that lets a signed-in user read only
+-- their own. The DAO layer uses the service role and bypasses RLS, so
+-- tenant isolation there is unchanged (see the initial schema).
+
+-- =====================
+-- ROW LEVEL SECURITY
+-- =====================
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY notifications_select_own ON notifications
+  FOR SELECT
+  TO authenticated
+  USING (
+    user_id IN (
+      SELECT id FROM users
+      WHERE auth_user_id = auth.uid()
+        AND deleted_at IS NULL
+    )
+  );
@@ -82,11 +82,11 @@ VALUES
 -- Create PM templates
 INSERT INTO pm_templates (id, tenant_id, name, description, category, estimated_duration_hours, checklist)
 VALUES
-  ('50000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000001', 'Hood Cleaning', 'Kitchen exhaust hood cleaning', 'hood_cleaning', 4, '["Degrease hood interior", "Clean filters", "Inspect ductwork", "Check fan operation", "Document with photos"]'),
-  ('50000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-000000000001', 'Grease Trap Service', 'Grease trap pumping and cleaning', 'grease_trap', 1, '["Pump grease trap", "Clean interior", "Inspect baffles", "Check inlet/outlet", "Record waste volume"]'),
-  ('50000000-0000-0000-0000-000000000003', '00000000-0000-0000-0000-000000000001', 'HVAC Filter Change', 'Replace HVAC filters', 'hvac', 0.5, '["Shut down unit", "Remove old filter", "Install new filter", "Record filter size", "Restart unit"]'),
-  ('50000000-0000-0000-0000-000000000004', '00000000-0000-0000-0000-000000000001', 'Fire Extinguisher Inspection', 'Monthly fire extinguisher check', 'fire_safety', 0.25, '["Check pressure gauge", "Verify seal intact", "Inspect condition", "Sign inspection tag"]'),
-  ('50000000-0000-0000-0000-000000000005', '00000000-0000-0000-0000-000000000001', 'Pest Control Service', 'Monthly pest control treatment', 'pest_control', 1, '["Inspect premises", "Check bait stations", "Apply treatments", "Document findings", "Provide report"]');
+  ('50000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000001', 'Hood Cleaning', 'Kitchen exhaust hood cleaning', 'hood_cleaning', 4, '{"items": [{"id": "item-1", "label": "Degrease hood interior", "type": "pass_fail", "required": true}, {"id": "item-2", "label": "Clean filters", "type": "pass_fail", "required": true}, {"id": "item-3", "label": "Inspect ductwork", "type": "pass_fail", "required": true}, {"id": "item-4", "label": "Check fan operation", "type": "pass_fail", "required": true}, {"id": "item-5", "label": "Document with photos", "type": "photo", "required": true}]}'),
+  ('50000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-000000000001', 'Grease Trap Service', 'Grease trap pumping and cleaning', 'grease_trap', 1, '{"items": [{"id": "item-1", "label": "Pump grease trap", "type": "pass_fail", "required": true}, {"id": "item-2", "label": "Clean interior", "type": "pass_fail", "required": true}, {"id": "item-3", "label": "Inspect baffles", "type": "pass_fail", "required": true}, {"id": "item-4", "label": "Check inlet/outlet", "type": "pass_fail", "required": true}, {"id": "item-5", "label": "Record waste volume", "type": "pass_fail", "required": true}]}'),
+  ('50000000-0000-0000-0000-000000000003', '00000000-0000-0000-0000-000000000001', 'HVAC Filter Change', 'Replace HVAC filters', 'hvac', 0.5, '{"items": [{"id": "item-1", "label": "Shut down unit", "type": "pass_fail", "required": true}, {"id": "item-2", "label": "Remove old filter", "type": "pass_fail", "required": true}, {"id": "item-3", "label": "Install new filter", "type": "pass_fail", "required": true}, {"id": "item-4", "label": "Record filter size", "type": "pass_fail", "required": true}, {"id": "item-5", "label": "Restart unit", "type": "pass_fail", "required": true}]}'),
+  ('50000000-0000-0000-0000-000000000004', '00000000-0000-0000-0000-000000000001', 'Fire Extinguisher Inspection', 'Monthly fire extinguisher check', 'fire_safety', 0.25, '{"items": [{"id": "item-1", "label": "Check pressure gauge", "type": "pass_fail", "required": true}, {"id": "item-2", "label": "Verify seal intact", "type": "pass_fail", "required": true}, {"id": "item-3", "label": "Inspect condition", "type": "pass_fail", "required": true}, {"id": "item-4", "label": "Sign inspection tag", "type": "pass_fail", "required": true}]}'),
+  ('50000000-0000-0000-0000-000000000005', '00000000-0000-0000-0000-000000000001', 'Pest Control Service', 'Monthly pest control treatment', 'pest_control', 1, '{"items": [{"id": "item-1", "label": "Inspect premises", "type": "pass_fail", "required": true}, {"id": "item-2", "label": "Check bait stations", "type": "pass_fail", "required": true}, {"id": "item-3", "label": "Apply treatments", "type": "pass_fail", "required": true}, {"id": "item-4", "label": "Document findings", "type": "pass_fail", "required": true}, {"id": "item-5", "label": "Provide report", "type": "pass_fail", "required": true}]}');
 
 -- Note: Users should be created through the auth flow, not seeded directly
 -- The seed data above provides the foundation for demo/testing purposes
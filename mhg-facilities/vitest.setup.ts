@@ -65,6 +65,8 @@ vi.mock('@/lib/tenant/context', () => ({
       name: 'Test Tenant',
     })
   ),
+  getTenantId: vi.fn(() => Promise.resolve('test-tenant-id')),
+  runWithTenant: vi.fn((_tenantId: string, fn: () => unknown) => fn()),
 }));
 
 // Mock Next.js headers